@@ -1,96 +0,0 @@
-const CACHE_NAME = 'treematch-v1';
-const OFFLINE_URL = '/offline.html';
-
-// Assets to cache on install
-const STATIC_ASSETS = [
-  '/',
-  '/offline.html',
-  '/manifest.json'
-];
-
-// Install event - cache static assets
-self.addEventListener('install', (event) => {
-  event.waitUntil(
-    caches.open(CACHE_NAME).then((cache) => {
-      console.log('[SW] Caching static assets');
-      return cache.addAll(STATIC_ASSETS);
-    })
-  );
-  globalThis.skipWaiting();
-});
-
-// Activate event - clean up old caches
-self.addEventListener('activate', (event) => {
-  event.waitUntil(
-    caches.keys().then((cacheNames) => {
-      return Promise.all(
-        cacheNames.map((cacheName) => {
-          if (cacheName !== CACHE_NAME) {
-            console.log('[SW] Deleting old cache:', cacheName);
-            return caches.delete(cacheName);
-          }
-        })
-      );
-    })
-  );
-  self.clients.claim();
-});
-
-// Fetch event - network first, then cache, then offline page
-self.addEventListener('fetch', (event) => {
-  // Skip non-GET requests
-  if (event.request.method !== 'GET') return;
-
-  // Skip Supabase API requests (always need network)
-  if (event.request.url.includes('supabase.co')) {
-    return;
-  }
-
-  event.respondWith(
-    fetch(event.request)
-      .then((response) => {
-        // Clone the response before caching
-        const responseToCache = response.clone();
-        
-        // Cache successful responses
-        if (response.status === 200) {
-          caches.open(CACHE_NAME).then((cache) => {
-            cache.put(event.request, responseToCache);
-          });
-        }
-        
-        return response;
-      })
-      .catch(() => {
-        // Try to get from cache
-        return caches.match(event.request).then((response) => {
-          if (response) {
-            return response;
-          }
-          
-          // Return offline page for navigation requests
-          if (event.request.mode === 'navigate') {
-            return caches.match(OFFLINE_URL);
-          }
-          
-          return new Response('Offline', {
-            status: 503,
-            statusText: 'Service Unavailable'
-          });
-        });
-      })
-  );
-});
-
-// Background sync for verification submissions
-self.addEventListener('sync', (event) => {
-  if (event.tag === 'sync-verifications') {
-    event.waitUntil(syncVerifications());
-  }
-});
-
-async function syncVerifications() {
-  console.log('[SW] Syncing offline verifications');
-  // Implementation would sync queued verifications when online
-  // This is a placeholder for future offline submission queue
-}
@@ -0,0 +1,347 @@
+#!/usr/bin/env node
+
+/**
+ * Build Kenya Boundaries Script
+ * Run: node scripts/build-kenya-boundaries.mjs --counties counties.geojson \
+ *        --constituencies constituencies.geojson
+ *
+ * Generates the simplified county and constituency GeoJSON bundled in
+ * src/data/geo/ and used for offline point-in-polygon lookups, from the
+ * surveyed IEBC/KNBS shapefiles exported as GeoJSON. County features need a
+ * `name` (or `COUNTY_NAM`) property; constituency features need
+ * `name`/`CONST_NAM` and `county`/`COUNTY_NAM`.
+ *
+ * Those shapefiles aren't in the repository, and the files bundled today were
+ * built with --approximate from permissively licensed devDependencies:
+ *   - world-atlas (Natural Earth 1:10m, public domain) for the national outline
+ *   - kenya (MIT) for the 47 counties, 290 constituencies and ward centres
+ * Ward areas are Voronoi cells around each ward centre, clipped to the
+ * national outline, and constituencies and counties are the union of their
+ * wards. The lines can sit several kilometres from the real IEBC boundaries,
+ * most where wards are large. Neighbouring features share edges exactly, so
+ * every point inside Kenya still resolves to exactly one county and
+ * constituency.
+ */
+
+import { readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { createRequire } from 'module';
+import { feature } from 'topojson-client';
+import { Delaunay } from 'd3-delaunay';
+import polygonClipping from 'polygon-clipping';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const require = createRequire(import.meta.url);
+
+// Natural Earth leaves out Mombasa and Lamu islands and clips some border
+// towns, so the outline is widened by this radius (~5 km) around any ward
+// centre that falls outside it
+const ISLAND_RADIUS = 0.05;
+
+const OUTPUT_DIR = join(__dirname, '..', 'src', 'data', 'geo');
+
+// ~500 m; plenty for county/constituency lookups and keeps the bundle small
+const SIMPLIFY_TOLERANCE = 0.005;
+const COORD_PRECISION = 4;
+
+// Source spellings that differ from KENYAN_COUNTIES in src/data/kenya.ts
+const COUNTY_NAME_OVERRIDES = {
+  'ELGEYO/MARAKWET': 'Elgeyo-Marakwet',
+  'NAIROBI CITY': 'Nairobi',
+  'TAITA TAVETA': 'Taita-Taveta',
+  'THARAKA - NITHI': 'Tharaka-Nithi',
+  'TRANS NZOIA': 'Trans-Nzoia',
+  "MURANG'A": "Murang'a",
+};
+
+const titleCase = (value) =>
+  value
+    .trim()
+    .replace(/\s+/g, ' ')
+    .toLowerCase()
+    .replace(/(^|[\s\-/(])([a-z])/g, (_, sep, ch) => sep + ch.toUpperCase());
+
+const normalizeCountyName = (value) =>
+  COUNTY_NAME_OVERRIDES[value.trim().toUpperCase()] ?? titleCase(value);
+
+const round = (value) => Number(value.toFixed(COORD_PRECISION));
+
+// Douglas-Peucker on a single ring
+const simplifyRing = (ring, tolerance) => {
+  if (ring.length <= 4) return ring;
+
+  const keep = new Uint8Array(ring.length);
+  keep[0] = keep[ring.length - 1] = 1;
+  const stack = [[0, ring.length - 1]];
+
+  while (stack.length) {
+    const [start, end] = stack.pop();
+    const [ax, ay] = ring[start];
+    const [bx, by] = ring[end];
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSq = dx * dx + dy * dy;
+    let maxDist = 0;
+    let index = -1;
+
+    for (let i = start + 1; i < end; i++) {
+      const [px, py] = ring[i];
+      let t = lengthSq ? ((px - ax) * dx + (py - ay) * dy) / lengthSq : 0;
+      t = Math.max(0, Math.min(1, t));
+      const dist = Math.hypot(px - (ax + t * dx), py - (ay + t * dy));
+      if (dist > maxDist) {
+        maxDist = dist;
+        index = i;
+      }
+    }
+
+    if (maxDist > tolerance && index !== -1) {
+      keep[index] = 1;
+      stack.push([start, index], [index, end]);
+    }
+  }
+
+  const simplified = ring.filter((_, i) => keep[i]);
+  return simplified.length >= 4 ? simplified : ring;
+};
+
+const simplifyMultiPolygon = (multiPolygon, tolerance) =>
+  multiPolygon
+    .map((polygon) => polygon.map((ring) => simplifyRing(ring, tolerance)))
+    .filter((polygon) => polygon[0].length >= 4);
+
+const roundMultiPolygon = (multiPolygon) =>
+  multiPolygon.map((polygon) =>
+    polygon.map((ring) => ring.map(([lng, lat]) => [round(lng), round(lat)]))
+  );
+
+const toMultiPolygon = (geometry) =>
+  geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+
+const bboxOf = (multiPolygon) => {
+  let minLng = Infinity, minLat = Infinity, maxLng = -Infinity, maxLat = -Infinity;
+  for (const polygon of multiPolygon) {
+    for (const [lng, lat] of polygon[0]) {
+      minLng = Math.min(minLng, lng);
+      minLat = Math.min(minLat, lat);
+      maxLng = Math.max(maxLng, lng);
+      maxLat = Math.max(maxLat, lat);
+    }
+  }
+  return [minLng, minLat, maxLng, maxLat].map(round);
+};
+
+const ringContains = (ring, [lng, lat]) => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > lat !== yj > lat && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+const multiPolygonContains = (multiPolygon, point) =>
+  multiPolygon.some(
+    ([outer, ...holes]) => ringContains(outer, point) && !holes.some((hole) => ringContains(hole, point))
+  );
+
+// 16-sided polygon approximating a circle of `radius` degrees
+const disc = ([lng, lat], radius) => {
+  const ring = [];
+  for (let i = 0; i < 16; i++) {
+    const angle = (i / 16) * 2 * Math.PI;
+    ring.push([lng + radius * Math.cos(angle), lat + radius * Math.sin(angle)]);
+  }
+  ring.push(ring[0]);
+  return [ring];
+};
+
+const toFeature = (properties, multiPolygon) => ({
+  type: 'Feature',
+  properties,
+  bbox: bboxOf(multiPolygon),
+  geometry: { type: 'MultiPolygon', coordinates: multiPolygon },
+});
+
+const getArg = (flag) => {
+  const index = process.argv.indexOf(flag);
+  return index !== -1 ? process.argv[index + 1] : null;
+};
+
+const loadKenyaOutline = () => {
+  const topology = require('world-atlas/countries-10m.json');
+  const kenya = feature(topology, topology.objects.countries).features
+    .find((f) => f.properties.name === 'Kenya');
+
+  if (!kenya) {
+    throw new Error('Kenya not found in world-atlas');
+  }
+
+  return simplifyMultiPolygon(toMultiPolygon(kenya.geometry), SIMPLIFY_TOLERANCE);
+};
+
+const buildFromCentres = () => {
+  const counties = require('kenya/dist/json/kenyacounties.json');
+  const constituencies = new Map(
+    require('kenya/dist/json/kenyaconstituencies.json').map((c) => [c.code, c])
+  );
+
+  // One Voronoi site per ward centre, labelled with its constituency and
+  // county. The source lists some renamed constituencies (e.g. Mbita /
+  // Suba North) and their wards twice at the same centre, so dedupe on it.
+  const sites = [];
+  const seenConstituencies = new Set();
+  const seenWards = new Set();
+  for (const county of counties) {
+    if (county.name === 'DIASPORA') continue;
+    for (const constituency of county.constituencies) {
+      const constituencyKey = `${constituency.center.lat},${constituency.center.lon}`;
+      if (seenConstituencies.has(constituencyKey)) continue;
+      seenConstituencies.add(constituencyKey);
+
+      const wards = constituencies.get(constituency.code)?.wards ?? [];
+      const centres = wards.length > 0 ? wards.map((w) => w.center) : [constituency.center];
+      for (const centre of centres) {
+        const wardKey = `${centre.lat},${centre.lon}`;
+        if (seenWards.has(wardKey)) continue;
+        seenWards.add(wardKey);
+        sites.push({
+          constituencyCode: constituency.code,
+          constituency: titleCase(constituency.name),
+          county: normalizeCountyName(county.name),
+          countyCode: county.code,
+          lng: centre.lon,
+          lat: centre.lat,
+        });
+      }
+    }
+  }
+
+  let outline = loadKenyaOutline();
+  const missing = sites
+    .map((site) => [site.lng, site.lat])
+    .filter((point) => !multiPolygonContains(outline, point));
+  if (missing.length > 0) {
+    outline = polygonClipping.union(outline, ...missing.map((point) => disc(point, ISLAND_RADIUS)));
+  }
+
+  const [minLng, minLat, maxLng, maxLat] = bboxOf(outline);
+  const delaunay = Delaunay.from(sites, (s) => s.lng, (s) => s.lat);
+  const voronoi = delaunay.voronoi([minLng - 1, minLat - 1, maxLng + 1, maxLat + 1]);
+
+  const constituencyParts = new Map();
+  const countyParts = new Map();
+  const addPart = (groups, key, properties, part) => {
+    if (!groups.has(key)) groups.set(key, { properties, parts: [] });
+    groups.get(key).parts.push(part);
+  };
+
+  sites.forEach((site, i) => {
+    const cell = voronoi.cellPolygon(i);
+    if (!cell) return;
+
+    const clipped = polygonClipping.intersection([cell], outline);
+    if (clipped.length === 0) {
+      console.warn(`⚠️  A ward of ${site.constituency} falls outside the national outline, skipping`);
+      return;
+    }
+
+    // Round before merging so neighbouring cells share identical edges
+    const part = roundMultiPolygon(clipped);
+    addPart(
+      constituencyParts,
+      site.constituencyCode,
+      { code: site.constituencyCode, name: site.constituency, county: site.county },
+      part
+    );
+    addPart(countyParts, site.county, { code: site.countyCode, name: site.county }, part);
+  });
+
+  const merge = (groups) =>
+    [...groups.values()].map(({ properties, parts }) =>
+      toFeature(properties, roundMultiPolygon(polygonClipping.union(...parts)))
+    );
+
+  return {
+    countyFeatures: merge(countyParts),
+    constituencyFeatures: merge(constituencyParts),
+  };
+};
+
+const buildFromGeoJSON = (countiesPath, constituenciesPath) => {
+  const read = (path) => JSON.parse(readFileSync(path, 'utf-8')).features;
+  const prepare = (geometry) =>
+    roundMultiPolygon(simplifyMultiPolygon(toMultiPolygon(geometry), SIMPLIFY_TOLERANCE));
+
+  const countyFeatures = read(countiesPath).map((f, i) =>
+    toFeature(
+      {
+        code: String(f.properties.code ?? f.properties.COUNTY_COD ?? i + 1).padStart(2, '0'),
+        name: normalizeCountyName(f.properties.name ?? f.properties.COUNTY_NAM),
+      },
+      prepare(f.geometry)
+    )
+  );
+
+  const constituencyFeatures = read(constituenciesPath).map((f, i) =>
+    toFeature(
+      {
+        code: String(f.properties.code ?? f.properties.CONST_CODE ?? i + 1),
+        name: titleCase(f.properties.name ?? f.properties.CONST_NAM),
+        county: normalizeCountyName(f.properties.county ?? f.properties.COUNTY_NAM),
+      },
+      prepare(f.geometry)
+    )
+  );
+
+  return { countyFeatures, constituencyFeatures };
+};
+
+const countiesPath = getArg('--counties');
+const constituenciesPath = getArg('--constituencies');
+
+const approximate = process.argv.includes('--approximate');
+
+if (Boolean(countiesPath) !== Boolean(constituenciesPath)) {
+  console.error('❌ Pass both --counties and --constituencies, or neither');
+  process.exit(1);
+}
+
+// Ward-centre cells put points near a border in the wrong county, so they
+// are only built on request
+if (!countiesPath && !approximate) {
+  console.error('❌ Pass IEBC boundaries with --counties and --constituencies,');
+  console.error('   or --approximate to build Voronoi cells around ward centres');
+  process.exit(1);
+}
+
+const { countyFeatures, constituencyFeatures } = countiesPath
+  ? buildFromGeoJSON(countiesPath, constituenciesPath)
+  : buildFromCentres();
+
+if (countyFeatures.length !== 47) {
+  console.error(`❌ Expected 47 counties, got ${countyFeatures.length}`);
+  process.exit(1);
+}
+
+const byName = (a, b) => a.properties.name.localeCompare(b.properties.name);
+countyFeatures.sort(byName);
+constituencyFeatures.sort(
+  (a, b) => a.properties.county.localeCompare(b.properties.county) || byName(a, b)
+);
+
+mkdirSync(OUTPUT_DIR, { recursive: true });
+
+const write = (fileName, features) => {
+  const path = join(OUTPUT_DIR, fileName);
+  writeFileSync(path, JSON.stringify({ type: 'FeatureCollection', features }) + '\n');
+  console.log(`✅ Wrote ${features.length} features to ${path}`);
+};
+
+write('kenya-counties.json', countyFeatures);
+write('kenya-constituencies.json', constituencyFeatures);
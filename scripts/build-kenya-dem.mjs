@@ -0,0 +1,135 @@
+#!/usr/bin/env node
+
+/**
+ * Build Kenya DEM Tiles Script
+ * Run: node scripts/build-kenya-dem.mjs [path-to-GLOBE-tiles] [--if-available]
+ *
+ * Downsamples NOAA GLOBE 30" elevation data (public domain) into the coarse
+ * 1°x1° tiles served from public/dem/ and read by src/utils/elevation.ts.
+ * The tiles are not committed; `npm run build` runs this script first.
+ *
+ * 1. Download tiles "e10g" (0-50°N, 0-90°E) and "k10g" (50°S-0, 0-90°E) from
+ *    https://www.ngdc.noaa.gov/mgg/topo/gltiles.html and unzip them
+ * 2. GLOBE_DIR=~/Downloads/GLOBE npm run build
+ *    (or node scripts/build-kenya-dem.mjs ~/Downloads/GLOBE)
+ *
+ * With --if-available, as in the prebuild step, a missing data directory is
+ * a warning rather than an error: the app then estimates elevation from GPS
+ * and county reference altitudes.
+ *
+ * Each output tile is named after its south-west corner (e.g. S02E036.bin)
+ * and holds (SAMPLES_PER_DEGREE + 1)² grid-registered samples as signed
+ * 16-bit little-endian metres, north row first. Sea and missing data are
+ * written as NO_DATA. index.json lists the tiles written.
+ */
+
+import { existsSync, mkdirSync, openSync, readSync, closeSync, writeFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const OUTPUT_DIR = join(__dirname, '..', 'public', 'dem');
+
+// Keep in sync with src/utils/elevation.ts
+const SAMPLES_PER_DEGREE = 60; // 1' (~1.8 km) spacing
+const NO_DATA = -32768;
+
+// Whole-degree tiles covering Kenya
+const LAT_RANGE = [-5, 5];
+const LNG_RANGE = [33, 42];
+
+// GLOBE layout: 30" cells, 10800 columns per 90° of longitude, north row first
+const GLOBE_CELLS_PER_DEGREE = 120;
+const GLOBE_COLUMNS = 10800;
+const GLOBE_NO_DATA = -500;
+const GLOBE_TILES = [
+  { file: 'e10g', north: 50, south: 0, west: 0 },
+  { file: 'k10g', north: 0, south: -50, west: 0 },
+];
+
+const ifAvailable = process.argv.includes('--if-available');
+const dataDir = process.argv.slice(2).find((arg) => !arg.startsWith('--')) ?? process.env.GLOBE_DIR;
+
+const skipOrFail = (message) => {
+  if (ifAvailable) {
+    console.warn(`⚠️  ${message}; skipping DEM tiles. Elevation falls back to GPS and county altitudes.`);
+    process.exit(0);
+  }
+  console.error(`❌ ${message}`);
+  process.exit(1);
+};
+
+if (!dataDir) {
+  skipOrFail('No GLOBE data: pass its directory or set GLOBE_DIR');
+}
+
+const missing = GLOBE_TILES.map((tile) => join(dataDir, tile.file)).filter((path) => !existsSync(path));
+if (missing.length > 0) {
+  skipOrFail(`Missing GLOBE tile ${missing.join(', ')}`);
+}
+
+const sources = GLOBE_TILES.map((tile) => ({ ...tile, fd: openSync(join(dataDir, tile.file), 'r') }));
+
+const cellBuffer = Buffer.alloc(2);
+
+const readGlobeCell = (lat, lng) => {
+  const tile = sources.find((t) => lat <= t.north && lat > t.south) ?? sources[sources.length - 1];
+  const row = Math.min(
+    Math.floor((tile.north - lat) * GLOBE_CELLS_PER_DEGREE),
+    (tile.north - tile.south) * GLOBE_CELLS_PER_DEGREE - 1
+  );
+  const column = Math.floor((lng - tile.west) * GLOBE_CELLS_PER_DEGREE);
+  readSync(tile.fd, cellBuffer, 0, 2, (row * GLOBE_COLUMNS + column) * 2);
+  return cellBuffer.readInt16LE(0);
+};
+
+// Mean of the 2x2 GLOBE cells around a sample point, ignoring sea cells
+const sampleElevation = (lat, lng) => {
+  const offset = 0.5 / GLOBE_CELLS_PER_DEGREE;
+  const values = [
+    readGlobeCell(lat + offset, lng - offset),
+    readGlobeCell(lat + offset, lng + offset),
+    readGlobeCell(lat - offset, lng - offset),
+    readGlobeCell(lat - offset, lng + offset),
+  ].filter((value) => value !== GLOBE_NO_DATA);
+
+  if (values.length === 0) return NO_DATA;
+  return Math.round(values.reduce((sum, value) => sum + value, 0) / values.length);
+};
+
+const tileName = (lat, lng) =>
+  `${lat < 0 ? 'S' : 'N'}${String(Math.abs(lat)).padStart(2, '0')}` +
+  `${lng < 0 ? 'W' : 'E'}${String(Math.abs(lng)).padStart(3, '0')}`;
+
+mkdirSync(OUTPUT_DIR, { recursive: true });
+
+const size = SAMPLES_PER_DEGREE + 1;
+const written = [];
+
+for (let south = LAT_RANGE[0]; south < LAT_RANGE[1]; south++) {
+  for (let west = LNG_RANGE[0]; west < LNG_RANGE[1]; west++) {
+    const samples = new Int16Array(size * size);
+    let hasLand = false;
+
+    for (let row = 0; row < size; row++) {
+      const lat = south + 1 - row / SAMPLES_PER_DEGREE;
+      for (let column = 0; column < size; column++) {
+        const lng = west + column / SAMPLES_PER_DEGREE;
+        const value = sampleElevation(lat, lng);
+        samples[row * size + column] = value;
+        if (value !== NO_DATA) hasLand = true;
+      }
+    }
+
+    if (!hasLand) continue;
+
+    writeFileSync(join(OUTPUT_DIR, `${tileName(south, west)}.bin`), Buffer.from(samples.buffer));
+    written.push(tileName(south, west));
+  }
+}
+
+sources.forEach((source) => closeSync(source.fd));
+writeFileSync(join(OUTPUT_DIR, 'index.json'), JSON.stringify({ samplesPerDegree: SAMPLES_PER_DEGREE, tiles: written }));
+console.log(`✅ Wrote ${written.length} DEM tiles to ${OUTPUT_DIR}`);
@@ -0,0 +1,244 @@
+#!/usr/bin/env node
+
+/**
+ * Daraja Sandbox Stub Script
+ * Run: node scripts/daraja-sandbox-stub.mjs [--port 8089] [--delay 3000]
+ *
+ * Local stand-in for the Safaricom Daraja endpoints the M-Pesa edge functions
+ * use (OAuth, STK push, STK push query, B2C payment), so purchases and reward
+ * withdrawals can be tested without a Safaricom account or a phone. Every
+ * request is "answered" after --delay milliseconds by posting a callback to
+ * the CallBackURL / ResultURL it was sent with.
+ *
+ * The outcome depends on the last digit of the phone number:
+ *   ...1  STK push cancelled by the farmer (ResultCode 1032)
+ *   ...2  insufficient balance (ResultCode 1)
+ *   ...3  no answer; no callback is sent and STK queries report a timeout (1037)
+ *   other paid, with a random M-Pesa receipt / transaction id
+ *
+ * To use it with `supabase functions serve`, add to supabase/functions/.env:
+ *   MPESA_BASE_URL=http://host.docker.internal:8089
+ *   MPESA_CALLBACK_URL=http://host.docker.internal:54321/functions/v1/mpesa-callback
+ *   MPESA_CONSUMER_KEY=stub  MPESA_CONSUMER_SECRET=stub
+ *   MPESA_SHORTCODE=174379   MPESA_PASSKEY=stub
+ */
+
+import { createServer } from 'http';
+import { randomBytes } from 'crypto';
+
+const args = process.argv.slice(2);
+const getArg = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 && args[index + 1] ? args[index + 1] : fallback;
+};
+
+const PORT = Number(getArg('port', process.env.PORT || 8089));
+const CALLBACK_DELAY_MS = Number(getArg('delay', 3000));
+const ACCESS_TOKEN = 'stub-access-token';
+
+const OUTCOMES = {
+  1: { ResultCode: 1032, ResultDesc: 'Request cancelled by user' },
+  2: { ResultCode: 1, ResultDesc: 'The balance is insufficient for the transaction' },
+  3: { ResultCode: 1037, ResultDesc: 'DS timeout user cannot be reached' },
+};
+const SUCCESS = { ResultCode: 0, ResultDesc: 'The service request is processed successfully.' };
+
+const outcomeFor = (phoneNumber) => OUTCOMES[String(phoneNumber).slice(-1)] ?? SUCCESS;
+
+// CheckoutRequestID -> { request, result }
+const pushes = new Map();
+// OriginatorConversationIDs already paid out, as Daraja refuses repeats
+const b2cRequests = new Set();
+
+const id = (prefix) => `${prefix}${randomBytes(6).toString('hex')}`;
+
+const send = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readJson = (req) =>
+  new Promise((resolve) => {
+    let data = '';
+    req.on('data', (chunk) => { data += chunk; });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(data || '{}'));
+      } catch {
+        resolve(null);
+      }
+    });
+  });
+
+const isAuthorized = (req) => req.headers.authorization === `Bearer ${ACCESS_TOKEN}`;
+
+function buildCallback(checkoutRequestId, merchantRequestId, request, result) {
+  const stkCallback = {
+    MerchantRequestID: merchantRequestId,
+    CheckoutRequestID: checkoutRequestId,
+    ResultCode: result.ResultCode,
+    ResultDesc: result.ResultDesc,
+  };
+  if (result.ResultCode === 0) {
+    stkCallback.CallbackMetadata = {
+      Item: [
+        { Name: 'Amount', Value: Number(request.Amount) },
+        { Name: 'MpesaReceiptNumber', Value: randomBytes(5).toString('hex').toUpperCase() },
+        { Name: 'TransactionDate', Value: Number(request.Timestamp) },
+        { Name: 'PhoneNumber', Value: Number(request.PhoneNumber) },
+      ],
+    };
+  }
+  return { Body: { stkCallback } };
+}
+
+async function deliverCallback(checkoutRequestId) {
+  const push = pushes.get(checkoutRequestId);
+  const outcome = outcomeFor(push.request.PhoneNumber);
+  push.result = outcome;
+
+  if (outcome.ResultCode === 1037) {
+    console.log(`⏳ ${checkoutRequestId}: no answer from ${push.request.PhoneNumber}`);
+    return;
+  }
+
+  const body = buildCallback(checkoutRequestId, push.merchantRequestId, push.request, outcome);
+  await postCallback(push.request.CallBackURL, body, checkoutRequestId, outcome.ResultCode);
+}
+
+async function postCallback(url, body, label, resultCode) {
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    console.log(`✅ ${label}: callback ${resultCode} -> ${response.status}`);
+  } catch (error) {
+    console.error(`❌ ${label}: callback failed (${error.message})`);
+  }
+}
+
+// B2C is not cancellable by the recipient, so ...1 numbers are paid too
+async function deliverB2CResult(request, conversationId) {
+  const outcome = outcomeFor(request.PartyB);
+  if (outcome.ResultCode === 1037) {
+    console.log(`⏳ ${request.OriginatorConversationID}: no B2C result`);
+    return;
+  }
+  const paid = outcome.ResultCode !== 1;
+  const transactionId = randomBytes(5).toString('hex').toUpperCase();
+  const body = {
+    Result: {
+      ResultType: 0,
+      ResultCode: paid ? 0 : 1,
+      ResultDesc: paid ? SUCCESS.ResultDesc : 'The balance is insufficient for the transaction.',
+      OriginatorConversationID: request.OriginatorConversationID,
+      ConversationID: conversationId,
+      TransactionID: transactionId,
+      ResultParameters: paid
+        ? {
+          ResultParameter: [
+            { Key: 'TransactionAmount', Value: Number(request.Amount) },
+            { Key: 'TransactionReceipt', Value: transactionId },
+            { Key: 'ReceiverPartyPublicName', Value: `${request.PartyB} - Stub Farmer` },
+          ],
+        }
+        : undefined,
+    },
+  };
+  await postCallback(request.ResultURL, body, request.OriginatorConversationID, body.Result.ResultCode);
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+
+  if (req.method === 'GET' && url.pathname === '/oauth/v1/generate') {
+    if (!req.headers.authorization?.startsWith('Basic ')) {
+      return send(res, 400, { errorCode: '400.008.01', errorMessage: 'Invalid Authentication passed' });
+    }
+    return send(res, 200, { access_token: ACCESS_TOKEN, expires_in: '3599' });
+  }
+
+  if (req.method === 'POST' && url.pathname === '/mpesa/stkpush/v1/processrequest') {
+    if (!isAuthorized(req)) {
+      return send(res, 401, { errorCode: '404.001.03', errorMessage: 'Invalid Access Token' });
+    }
+    const request = await readJson(req);
+    const missing = ['BusinessShortCode', 'Password', 'Timestamp', 'Amount', 'PhoneNumber', 'CallBackURL']
+      .filter((field) => !request?.[field]);
+    if (missing.length > 0) {
+      return send(res, 400, { errorCode: '400.002.02', errorMessage: `Bad Request - Invalid ${missing[0]}` });
+    }
+
+    const merchantRequestId = id('stub-');
+    const checkoutRequestId = id('ws_CO_');
+    pushes.set(checkoutRequestId, { request, merchantRequestId, result: null });
+    console.log(`📱 STK push KSh ${request.Amount} to ${request.PhoneNumber} (${checkoutRequestId})`);
+    setTimeout(() => deliverCallback(checkoutRequestId), CALLBACK_DELAY_MS);
+
+    return send(res, 200, {
+      MerchantRequestID: merchantRequestId,
+      CheckoutRequestID: checkoutRequestId,
+      ResponseCode: '0',
+      ResponseDescription: 'Success. Request accepted for processing',
+      CustomerMessage: 'Success. Request accepted for processing',
+    });
+  }
+
+  if (req.method === 'POST' && url.pathname === '/mpesa/stkpushquery/v1/query') {
+    if (!isAuthorized(req)) {
+      return send(res, 401, { errorCode: '404.001.03', errorMessage: 'Invalid Access Token' });
+    }
+    const { CheckoutRequestID } = (await readJson(req)) ?? {};
+    const push = pushes.get(CheckoutRequestID);
+    if (!push) {
+      return send(res, 400, { errorCode: '400.002.02', errorMessage: 'Bad Request - Invalid CheckoutRequestID' });
+    }
+    if (!push.result) {
+      return send(res, 500, { errorCode: '500.001.1001', errorMessage: 'The transaction is being processed' });
+    }
+    return send(res, 200, {
+      ResponseCode: '0',
+      ResponseDescription: 'The service request has been accepted successfully',
+      MerchantRequestID: push.merchantRequestId,
+      CheckoutRequestID,
+      ResultCode: String(push.result.ResultCode),
+      ResultDesc: push.result.ResultDesc,
+    });
+  }
+
+  if (req.method === 'POST' && url.pathname === '/mpesa/b2c/v3/paymentrequest') {
+    if (!isAuthorized(req)) {
+      return send(res, 401, { errorCode: '404.001.03', errorMessage: 'Invalid Access Token' });
+    }
+    const request = await readJson(req);
+    const missing = ['OriginatorConversationID', 'InitiatorName', 'SecurityCredential', 'Amount', 'PartyA', 'PartyB', 'ResultURL']
+      .filter((field) => !request?.[field]);
+    if (missing.length > 0) {
+      return send(res, 400, { errorCode: '400.002.02', errorMessage: `Bad Request - Invalid ${missing[0]}` });
+    }
+    if (b2cRequests.has(request.OriginatorConversationID)) {
+      return send(res, 409, { errorCode: '409.001.01', errorMessage: 'Duplicate OriginatorConversationID' });
+    }
+
+    const conversationId = id('AG_');
+    b2cRequests.add(request.OriginatorConversationID);
+    console.log(`💸 B2C KSh ${request.Amount} to ${request.PartyB} (${request.OriginatorConversationID})`);
+    setTimeout(() => deliverB2CResult(request, conversationId), CALLBACK_DELAY_MS);
+
+    return send(res, 200, {
+      ConversationID: conversationId,
+      OriginatorConversationID: request.OriginatorConversationID,
+      ResponseCode: '0',
+      ResponseDescription: 'Accept the service request successfully.',
+    });
+  }
+
+  send(res, 404, { errorCode: '404.001.01', errorMessage: 'Resource not found' });
+});
+
+server.listen(PORT, () => {
+  console.log(`Daraja sandbox stub listening on http://localhost:${PORT}`);
+  console.log(`Callbacks are sent ${CALLBACK_DELAY_MS} ms after each STK push`);
+});
@@ -0,0 +1,105 @@
+#!/usr/bin/env node
+
+/**
+ * Recognition Stub Script
+ * Run: node scripts/recognition-stub.mjs [--port 8090] [--species grevillea] [--fail-rate 0]
+ *
+ * Local stand-in for the model server the recognize-tree edge function's
+ * http provider posts photos to, so recognition can be tested without a
+ * model. Answers POST /recognize with a made-up but repeatable result: the
+ * same photo always gets the same species, health and growth stage.
+ *
+ * Options:
+ *   --species <slug>     Always name this species first (e.g. to test a mismatch)
+ *   --fail-rate <ratio>  Share of requests answered with a 500 (default 0)
+ *
+ * To use it with `supabase functions serve`, add to supabase/functions/.env:
+ *   RECOGNITION_PROVIDER=http
+ *   RECOGNITION_ENDPOINT=http://host.docker.internal:8090/recognize
+ *   RECOGNITION_WEBHOOK_SECRET=stub
+ */
+
+import { createServer } from 'http';
+import { createHash } from 'crypto';
+
+const args = process.argv.slice(2);
+const getArg = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 && args[index + 1] ? args[index + 1] : fallback;
+};
+
+const PORT = Number(getArg('port', process.env.PORT || 8090));
+const FORCED_SPECIES = getArg('species', null);
+const FAIL_RATE = Number(getArg('fail-rate', 0));
+
+// A few tree_species slugs from the seed catalog
+const SPECIES = ['mango', 'grevillea', 'acacia', 'avocado', 'moringa', 'cypress', 'macadamia', 'neem', 'croton', 'eucalyptus'];
+const STAGES = ['seedling', 'sapling', 'young', 'mature'];
+const ISSUES = ['Brown or discolored leaves detected', 'Possible pest damage detected', 'Wilting or drought stress detected'];
+
+const send = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve) => {
+    const chunks = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+  });
+
+function recognize(photo) {
+  // Derive every "prediction" from the photo's hash so results are repeatable
+  const digest = createHash('sha256').update(photo).digest();
+  const pick = (list, byte) => list[digest[byte] % list.length];
+
+  const first = FORCED_SPECIES ?? pick(SPECIES, 0);
+  const others = SPECIES.filter((slug) => slug !== first);
+  const topConfidence = 0.55 + (digest[1] / 255) * 0.4;
+  const secondConfidence = (1 - topConfidence) * 0.6;
+
+  const isHealthy = digest[2] % 5 !== 0;
+  return {
+    model_version: 'stub-1',
+    species: [
+      { id: first, confidence: Number(topConfidence.toFixed(3)) },
+      { id: pick(others, 3), confidence: Number(secondConfidence.toFixed(3)) },
+    ],
+    health: {
+      isHealthy,
+      confidence: Number((0.6 + (digest[4] / 255) * 0.35).toFixed(3)),
+      issues: isHealthy ? [] : [pick(ISSUES, 5)],
+    },
+    growth_stage: {
+      stage: pick(STAGES, 6),
+      confidence: Number((0.5 + (digest[7] / 255) * 0.45).toFixed(3)),
+    },
+  };
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+
+  if (req.method !== 'POST' || url.pathname !== '/recognize') {
+    return send(res, 404, { error: 'Not found' });
+  }
+
+  const photo = await readBody(req);
+  if (photo.length === 0) {
+    return send(res, 400, { error: 'Send the photo as the request body' });
+  }
+  if (Math.random() < FAIL_RATE) {
+    console.log(`💥 ${photo.length} bytes: simulated failure`);
+    return send(res, 500, { error: 'Simulated model failure' });
+  }
+
+  const result = recognize(photo);
+  console.log(`🌳 ${photo.length} bytes: ${result.species[0].id} (${result.species[0].confidence})`);
+  return send(res, 200, result);
+});
+
+server.listen(PORT, () => {
+  console.log(`Recognition stub listening on http://localhost:${PORT}/recognize`);
+  if (FORCED_SPECIES) console.log(`Always answering ${FORCED_SPECIES}`);
+});
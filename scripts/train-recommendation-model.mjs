@@ -0,0 +1,546 @@
+#!/usr/bin/env node
+
+/**
+ * Train Recommendation Model Script
+ * Run: node scripts/train-recommendation-model.mjs [--input snapshot.json] [--promote]
+ *
+ * Fits a logistic regression over the features AIRecommendationEngine scores
+ * (src/utils/aiRecommendationEngine.ts) from recorded swipe_events and
+ * planting_outcomes, then evaluates it on the most recent events.
+ *
+ * Data comes from Supabase by default. Reading every farmer's events needs
+ * the service role key, so set SUPABASE_SERVICE_ROLE_KEY in the environment
+ * or .env.local. Alternatively pass --input with a JSON snapshot shaped as
+ * { species, profiles, swipes, outcomes } (rows of tree_species, profiles,
+ * swipe_events and planting_outcomes).
+ *
+ * Writes models/recommendation/v<N>.json plus an evaluation report
+ * (v<N>-report.md / v<N>-report.json) comparing it with the weights the
+ * client currently ships. --promote copies the new weights into
+ * src/data/models/recommendation-weights.json when they beat the shipped
+ * model's AUC (add --force to promote anyway).
+ *
+ * Options:
+ *   --input <file>     Train from a snapshot instead of Supabase
+ *   --holdout <ratio>  Share of the newest events held out for evaluation (default 0.2)
+ *   --promote          Ship the new weights if they evaluate better
+ *   --force            With --promote, ship even if they do not
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const ROOT = join(__dirname, '..');
+const OUTPUT_DIR = join(ROOT, 'models', 'recommendation');
+const ACTIVE_MODEL_PATH = join(ROOT, 'src', 'data', 'models', 'recommendation-weights.json');
+
+// Keep in sync with src/utils/aiRecommendationEngine.ts
+const FEATURES = [
+  'county_match',
+  'agro_zone_match',
+  'conservation_goals',
+  'price_preference',
+  'historical_success',
+  'user_similarity',
+];
+const PRIOR_SUCCESS_RATE = 0.7;
+const PRIOR_WEIGHT = 5;
+const DEFAULT_SIMILARITY = 0.5;
+// Weather is not stored with events, so the environmental feature is
+// unknown here; score it as neutral when evaluating models that use it
+const NEUTRAL_ENVIRONMENT = 0.5;
+
+// A survival outcome says more about a recommendation than a swipe
+const OUTCOME_WEIGHT = 3;
+
+const LEARNING_RATE = 0.5;
+const EPOCHS = 3000;
+const L2_PENALTY = 0.001;
+const CALIBRATION_BINS = 10;
+const COUNTY_CALIBRATION_BINS = 5;
+// Counties with fewer held-out events are grouped as "Other"
+const MIN_COUNTY_EVENTS = 20;
+
+// ---------------------------------------------------------------------------
+// Arguments
+// ---------------------------------------------------------------------------
+
+const args = process.argv.slice(2);
+const option = (name) => {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+};
+
+const inputPath = option('--input');
+const holdoutRatio = Number(option('--holdout') ?? 0.2);
+const promote = args.includes('--promote');
+const force = args.includes('--force');
+
+if (!(holdoutRatio > 0 && holdoutRatio < 1)) {
+  console.error('❌ --holdout must be between 0 and 1');
+  process.exit(1);
+}
+
+// ---------------------------------------------------------------------------
+// Data loading
+// ---------------------------------------------------------------------------
+
+const readEnvFile = () => {
+  const envPath = join(ROOT, '.env.local');
+  if (!existsSync(envPath)) return {};
+  const env = {};
+  readFileSync(envPath, 'utf-8').split('\n').forEach((line) => {
+    const match = line.match(/^([A-Z_]+)=(.*)$/);
+    if (match) env[match[1]] = match[2].trim();
+  });
+  return env;
+};
+
+const fetchAll = async (supabase, table, columns) => {
+  const PAGE_SIZE = 1000;
+  const rows = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(columns)
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`${table}: ${error.message}`);
+    rows.push(...data);
+    if (data.length < PAGE_SIZE) return rows;
+  }
+};
+
+const loadFromSupabase = async () => {
+  const env = { ...readEnvFile(), ...process.env };
+  const url = env.SUPABASE_URL ?? env.VITE_SUPABASE_URL;
+  const key = env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!url || !key) {
+    console.error('❌ Set VITE_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY, or pass --input <snapshot.json>');
+    process.exit(1);
+  }
+
+  const supabase = createClient(url, key, { auth: { persistSession: false } });
+  const [species, profiles, swipes, outcomes] = await Promise.all([
+    fetchAll(supabase, 'tree_species', 'id, suitable_counties, agro_zones, uses, price'),
+    fetchAll(supabase, 'profiles', 'user_id, conservation_goals, agro_zone'),
+    fetchAll(supabase, 'swipe_events', 'user_id, tree_id, action, county, agro_zone, created_at'),
+    fetchAll(supabase, 'planting_outcomes', 'user_id, tree_id, survived, county, agro_zone, observed_at'),
+  ]);
+  return { species, profiles, swipes, outcomes };
+};
+
+const loadSnapshot = (path) => {
+  const snapshot = JSON.parse(readFileSync(path, 'utf-8'));
+  for (const key of ['species', 'profiles', 'swipes', 'outcomes']) {
+    if (!Array.isArray(snapshot[key])) {
+      console.error(`❌ Snapshot is missing the "${key}" array`);
+      process.exit(1);
+    }
+  }
+  return snapshot;
+};
+
+// ---------------------------------------------------------------------------
+// Examples and features
+// ---------------------------------------------------------------------------
+
+const toExamples = ({ swipes, outcomes }) => {
+  const examples = [
+    ...swipes.map((swipe) => ({
+      type: 'swipe',
+      userId: swipe.user_id,
+      treeId: swipe.tree_id,
+      action: swipe.action,
+      county: swipe.county ?? '',
+      agroZone: swipe.agro_zone ?? '',
+      time: new Date(swipe.created_at).getTime(),
+      label: swipe.action === 'disliked' ? 0 : 1,
+      weight: 1,
+    })),
+    ...outcomes.map((outcome) => ({
+      type: 'outcome',
+      userId: outcome.user_id,
+      treeId: outcome.tree_id,
+      county: outcome.county ?? '',
+      agroZone: outcome.agro_zone ?? '',
+      time: new Date(outcome.observed_at).getTime(),
+      label: outcome.survived ? 1 : 0,
+      weight: OUTCOME_WEIGHT,
+    })),
+  ];
+  return examples.sort((a, b) => a.time - b.time);
+};
+
+const increment = (map, key, survived) => {
+  const current = map.get(key) ?? { plantings: 0, survived: 0 };
+  current.plantings++;
+  if (survived) current.survived++;
+  map.set(key, current);
+};
+
+/**
+ * Aggregates the engine loads through get_recommendation_stats, built
+ * only from the training events so evaluation never sees the future
+ */
+const buildStats = (trainExamples) => {
+  const byCounty = new Map();
+  const byAgroZone = new Map();
+  const swipesByTree = new Map();
+
+  for (const example of trainExamples) {
+    if (example.type === 'outcome') {
+      increment(byCounty, `${example.treeId}|${example.county}`, example.label === 1);
+      increment(byAgroZone, `${example.treeId}|${example.agroZone}`, example.label === 1);
+    } else if (example.action !== 'planted') {
+      const users = swipesByTree.get(example.treeId) ?? new Map();
+      const current = users.get(example.userId) ?? { swipes: 0, likes: 0 };
+      current.swipes++;
+      if (example.label === 1) current.likes++;
+      users.set(example.userId, current);
+      swipesByTree.set(example.treeId, users);
+    }
+  }
+
+  return { byCounty, byAgroZone, swipesByTree };
+};
+
+const smoothSuccessRate = (counts, self) => {
+  let plantings = counts?.plantings ?? 0;
+  let survived = counts?.survived ?? 0;
+  // Leave the example's own outcome out of its feature
+  if (self) {
+    plantings--;
+    if (self.label === 1) survived--;
+  }
+  return (survived + PRIOR_SUCCESS_RATE * PRIOR_WEIGHT) / (plantings + PRIOR_WEIGHT);
+};
+
+/**
+ * Feature vector for one event; mirrors extractModelFeatures in the engine
+ */
+const buildFeatures = (example, context, isTraining) => {
+  const { speciesById, profilesById, stats } = context;
+  const tree = speciesById.get(example.treeId);
+  const profile = profilesById.get(example.userId);
+  const goals = profile?.conservation_goals ?? [];
+  const uses = tree?.uses ?? [];
+  const price = Number(tree?.price ?? 0);
+  const self = isTraining && example.type === 'outcome' ? example : null;
+
+  const countyRate = smoothSuccessRate(stats.byCounty.get(`${example.treeId}|${example.county}`), self);
+  const agroZoneRate = smoothSuccessRate(stats.byAgroZone.get(`${example.treeId}|${example.agroZone}`), self);
+
+  // Collaborative filtering: likes from other farmers with overlapping goals
+  let similarSwipes = 0;
+  let similarLikes = 0;
+  for (const [userId, counts] of stats.swipesByTree.get(example.treeId) ?? []) {
+    if (userId === example.userId) continue;
+    const other = profilesById.get(userId);
+    const similar = goals.length > 0
+      ? (other?.conservation_goals ?? []).some((goal) => goals.includes(goal))
+      : other?.agro_zone === example.agroZone;
+    if (!similar) continue;
+    similarSwipes += counts.swipes;
+    similarLikes += counts.likes;
+  }
+
+  return {
+    county_match: tree?.suitable_counties?.includes(example.county) ? 1 : 0,
+    agro_zone_match: tree?.agro_zones?.includes(example.agroZone) ? 1 : 0,
+    conservation_goals: goals.filter((goal) => uses.includes(goal)).length / Math.max(goals.length, 1),
+    price_preference: price <= 200 ? 1 : price <= 500 ? 0.5 : 0,
+    historical_success: (countyRate + agroZoneRate) / 2,
+    user_similarity: similarSwipes > 0 ? similarLikes / similarSwipes : DEFAULT_SIMILARITY,
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Model
+// ---------------------------------------------------------------------------
+
+const sigmoid = (value) => 1 / (1 + Math.exp(-value));
+
+/**
+ * Weighted logistic regression by full-batch gradient descent with an L2
+ * penalty on the weights (not the intercept)
+ */
+const trainLogistic = (rows) => {
+  const weights = new Array(FEATURES.length).fill(0);
+  let intercept = 0;
+  const totalWeight = rows.reduce((sum, row) => sum + row.weight, 0);
+
+  for (let epoch = 0; epoch < EPOCHS; epoch++) {
+    const gradient = new Array(FEATURES.length).fill(0);
+    let interceptGradient = 0;
+
+    for (const row of rows) {
+      let linear = intercept;
+      for (let i = 0; i < FEATURES.length; i++) linear += weights[i] * row.x[i];
+      const error = (sigmoid(linear) - row.label) * row.weight;
+      interceptGradient += error;
+      for (let i = 0; i < FEATURES.length; i++) gradient[i] += error * row.x[i];
+    }
+
+    intercept -= LEARNING_RATE * (interceptGradient / totalWeight);
+    for (let i = 0; i < FEATURES.length; i++) {
+      weights[i] -= LEARNING_RATE * (gradient[i] / totalWeight + L2_PENALTY * weights[i]);
+    }
+  }
+
+  return {
+    intercept: round(intercept),
+    weights: Object.fromEntries(FEATURES.map((feature, i) => [feature, round(weights[i])])),
+  };
+};
+
+/**
+ * Score a feature vector the way the client engine does, as a 0-1 probability
+ */
+const scoreModel = (model, features) => {
+  let total = model.intercept ?? 0;
+  for (const [feature, weight] of Object.entries(model.weights)) {
+    total += weight * (features[feature] ?? (feature === 'environmental_factors' ? NEUTRAL_ENVIRONMENT : 0));
+  }
+  return model.kind === 'logistic' ? sigmoid(total) : Math.min(1, Math.max(0, total));
+};
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+const round = (value, digits = 4) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Area under the ROC curve (Mann-Whitney U with tied ranks averaged);
+ * null when only one class is present
+ */
+const auc = (scored) => {
+  const positives = scored.filter((row) => row.label === 1).length;
+  const negatives = scored.length - positives;
+  if (positives === 0 || negatives === 0) return null;
+
+  const sorted = [...scored].sort((a, b) => a.score - b.score);
+  let rankSum = 0;
+  for (let i = 0; i < sorted.length; ) {
+    let j = i;
+    while (j < sorted.length && sorted[j].score === sorted[i].score) j++;
+    const averageRank = (i + j + 1) / 2;
+    for (let k = i; k < j; k++) {
+      if (sorted[k].label === 1) rankSum += averageRank;
+    }
+    i = j;
+  }
+  return (rankSum - (positives * (positives + 1)) / 2) / (positives * negatives);
+};
+
+const calibration = (scored, binCount) => {
+  const bins = Array.from({ length: binCount }, (_, index) => ({
+    lower: index / binCount,
+    upper: (index + 1) / binCount,
+    count: 0,
+    predicted: 0,
+    observed: 0,
+  }));
+
+  for (const row of scored) {
+    const bin = bins[Math.min(binCount - 1, Math.floor(row.score * binCount))];
+    bin.count++;
+    bin.predicted += row.score;
+    bin.observed += row.label;
+  }
+
+  const filled = bins.filter((bin) => bin.count > 0).map((bin) => ({
+    range: `${bin.lower.toFixed(1)}-${bin.upper.toFixed(1)}`,
+    count: bin.count,
+    meanPredicted: round(bin.predicted / bin.count),
+    observedRate: round(bin.observed / bin.count),
+  }));
+
+  // Expected calibration error: count-weighted gap between predicted and observed
+  const ece = filled.reduce(
+    (sum, bin) => sum + (bin.count / scored.length) * Math.abs(bin.meanPredicted - bin.observedRate),
+    0
+  );
+
+  return { bins: filled, ece: round(ece) };
+};
+
+const summarize = (scored) => {
+  const logLoss = -scored.reduce((sum, row) => {
+    const p = Math.min(1 - 1e-9, Math.max(1e-9, row.score));
+    return sum + (row.label === 1 ? Math.log(p) : Math.log(1 - p));
+  }, 0) / scored.length;
+  const brier = scored.reduce((sum, row) => sum + (row.score - row.label) ** 2, 0) / scored.length;
+  const auroc = auc(scored);
+
+  return {
+    events: scored.length,
+    positiveRate: round(scored.reduce((sum, row) => sum + row.label, 0) / scored.length),
+    auc: auroc === null ? null : round(auroc),
+    logLoss: round(logLoss),
+    brier: round(brier),
+  };
+};
+
+const evaluate = (scored) => {
+  const byCounty = new Map();
+  for (const row of scored) {
+    const rows = byCounty.get(row.county || 'Unknown') ?? [];
+    rows.push(row);
+    byCounty.set(row.county || 'Unknown', rows);
+  }
+
+  const counties = [];
+  const other = [];
+  for (const [county, rows] of [...byCounty.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+    if (rows.length < MIN_COUNTY_EVENTS) {
+      other.push(...rows);
+      continue;
+    }
+    counties.push({ county, ...summarize(rows), calibration: calibration(rows, COUNTY_CALIBRATION_BINS) });
+  }
+  if (other.length > 0) {
+    counties.push({ county: 'Other', ...summarize(other), calibration: calibration(other, COUNTY_CALIBRATION_BINS) });
+  }
+
+  return {
+    overall: { ...summarize(scored), calibration: calibration(scored, CALIBRATION_BINS) },
+    counties,
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Report
+// ---------------------------------------------------------------------------
+
+const formatMetric = (value) => (value === null ? 'n/a' : value.toFixed(3));
+
+const renderReport = ({ candidate, active, evaluation, baseline, trainEvents }) => {
+  const lines = [
+    `# Recommendation model v${candidate.version}`,
+    '',
+    `Trained ${candidate.trainedAt} on ${trainEvents} events; evaluated on the newest ${evaluation.overall.events}.`,
+    '',
+    '## Overall',
+    '',
+    `| Model | AUC | Log loss | Brier | ECE |`,
+    `| --- | --- | --- | --- | --- |`,
+    `| v${candidate.version} (candidate) | ${formatMetric(evaluation.overall.auc)} | ${formatMetric(evaluation.overall.logLoss)} | ${formatMetric(evaluation.overall.brier)} | ${formatMetric(evaluation.overall.calibration.ece)} |`,
+    `| v${active.version} (shipped) | ${formatMetric(baseline.overall.auc)} | ${formatMetric(baseline.overall.logLoss)} | ${formatMetric(baseline.overall.brier)} | ${formatMetric(baseline.overall.calibration.ece)} |`,
+    '',
+    '## Weights',
+    '',
+    '| Feature | Weight |',
+    '| --- | --- |',
+    `| intercept | ${candidate.intercept} |`,
+    ...Object.entries(candidate.weights).map(([feature, weight]) => `| ${feature} | ${weight} |`),
+    '',
+    '## Calibration',
+    '',
+    '| Predicted | Events | Mean predicted | Observed |',
+    '| --- | --- | --- | --- |',
+    ...evaluation.overall.calibration.bins.map(
+      (bin) => `| ${bin.range} | ${bin.count} | ${bin.meanPredicted} | ${bin.observedRate} |`
+    ),
+    '',
+    '## By county',
+    '',
+    `Counties with fewer than ${MIN_COUNTY_EVENTS} held-out events are grouped as Other.`,
+    '',
+    '| County | Events | Positive rate | AUC | Shipped AUC | ECE | Shipped ECE |',
+    '| --- | --- | --- | --- | --- | --- | --- |',
+    ...evaluation.counties.map((county) => {
+      const shipped = baseline.counties.find((row) => row.county === county.county);
+      return `| ${county.county} | ${county.events} | ${county.positiveRate} | ${formatMetric(county.auc)} | ${formatMetric(shipped?.auc ?? null)} | ${formatMetric(county.calibration.ece)} | ${formatMetric(shipped?.calibration.ece ?? null)} |`;
+    }),
+    '',
+  ];
+  return lines.join('\n');
+};
+
+// ---------------------------------------------------------------------------
+// Main
+// ---------------------------------------------------------------------------
+
+const data = inputPath ? loadSnapshot(inputPath) : await loadFromSupabase();
+const examples = toExamples(data);
+
+const splitIndex = Math.floor(examples.length * (1 - holdoutRatio));
+const train = examples.slice(0, splitIndex);
+const test = examples.slice(splitIndex);
+
+const hasBothLabels = (rows) => rows.some((row) => row.label === 1) && rows.some((row) => row.label === 0);
+if (!hasBothLabels(train) || test.length === 0) {
+  console.error(`❌ Not enough data: ${examples.length} events, need both positive and negative training events and a holdout`);
+  process.exit(1);
+}
+
+console.log(`📊 ${data.swipes.length} swipes, ${data.outcomes.length} outcomes → ${train.length} train / ${test.length} holdout`);
+
+const context = {
+  speciesById: new Map(data.species.map((tree) => [tree.id, tree])),
+  profilesById: new Map(data.profiles.map((profile) => [profile.user_id, profile])),
+  stats: buildStats(train),
+};
+
+const trainRows = train.map((example) => {
+  const features = buildFeatures(example, context, true);
+  return { x: FEATURES.map((feature) => features[feature]), label: example.label, weight: example.weight };
+});
+const testRows = test.map((example) => ({
+  county: example.county,
+  label: example.label,
+  features: buildFeatures(example, context, false),
+}));
+
+const active = JSON.parse(readFileSync(ACTIVE_MODEL_PATH, 'utf-8'));
+mkdirSync(OUTPUT_DIR, { recursive: true });
+const existingVersions = readdirSync(OUTPUT_DIR)
+  .map((file) => file.match(/^v(\d+)\.json$/))
+  .filter(Boolean)
+  .map((match) => Number(match[1]));
+const version = Math.max(active.version, ...existingVersions) + 1;
+
+const fitted = trainLogistic(trainRows);
+const candidate = {
+  version,
+  kind: 'logistic',
+  trainedAt: new Date().toISOString(),
+  description: `Logistic model trained on ${train.length} events`,
+  ...fitted,
+};
+
+const scoreWith = (model) =>
+  testRows.map((row) => ({ county: row.county, label: row.label, score: scoreModel(model, row.features) }));
+const evaluation = evaluate(scoreWith(candidate));
+const baseline = evaluate(scoreWith(active));
+
+writeFileSync(join(OUTPUT_DIR, `v${version}.json`), `${JSON.stringify(candidate, null, 2)}\n`);
+writeFileSync(
+  join(OUTPUT_DIR, `v${version}-report.json`),
+  `${JSON.stringify({ version, shippedVersion: active.version, trainEvents: train.length, candidate: evaluation, shipped: baseline }, null, 2)}\n`
+);
+writeFileSync(
+  join(OUTPUT_DIR, `v${version}-report.md`),
+  renderReport({ candidate, active, evaluation, baseline, trainEvents: train.length })
+);
+
+console.log(`✅ Wrote v${version} weights and report to ${OUTPUT_DIR}`);
+console.log(`   AUC v${version}: ${formatMetric(evaluation.overall.auc)}  |  shipped v${active.version}: ${formatMetric(baseline.overall.auc)}`);
+console.log(`   ECE v${version}: ${formatMetric(evaluation.overall.calibration.ece)}  |  shipped v${active.version}: ${formatMetric(baseline.overall.calibration.ece)}`);
+
+if (promote) {
+  const better = (evaluation.overall.auc ?? 0) >= (baseline.overall.auc ?? 0);
+  if (!better && !force) {
+    console.error(`❌ v${version} does not beat the shipped model's AUC; not promoting (use --force to override)`);
+    process.exit(1);
+  }
+  writeFileSync(ACTIVE_MODEL_PATH, `${JSON.stringify(candidate, null, 2)}\n`);
+  console.log(`✅ Promoted v${version} to ${ACTIVE_MODEL_PATH}`);
+}
@@ -11,6 +11,9 @@ import { AdminProtectedRoute } from "@/components/AdminProtectedRoute";
 import ErrorBoundary from "@/components/ErrorBoundary";
 import { Skeleton } from "@/components/ui/skeleton";
 import { OfflineIndicator } from "@/components/OfflineIndicator";
+import { UpdatePrompt } from "@/components/UpdatePrompt";
+import { VerificationOutboxSync } from "@/components/VerificationOutboxSync";
+import { SwipeOutboxSync } from "@/components/SwipeOutboxSync";
 import { AppWithAI } from "@/components/AppWithAI";
 import AdminLayout from "@/layouts/AdminLayout";
 
@@ -26,6 +29,10 @@ const AdminOverview = lazy(() => import("./pages/admin/AdminOverview"));
 const VerificationQueue = lazy(() => import("./pages/admin/VerificationQueue"));
 const AdminUsers = lazy(() => import("./pages/admin/AdminUsers"));
 const AdminAnalytics = lazy(() => import("./pages/admin/AdminAnalytics"));
+const AdminSpecies = lazy(() => import("./pages/admin/AdminSpecies"));
+const AdminRewards = lazy(() => import("./pages/admin/AdminRewards"));
+const SurvivalChecks = lazy(() => import("./pages/admin/SurvivalChecks"));
+const AdminAudit = lazy(() => import("./pages/admin/AdminAudit"));
 const Profile = lazy(() => import("./pages/Profile"));
 const ProfileDashboard = lazy(() => import("./pages/profile/ProfileDashboard"));
 const ProfileEdit = lazy(() => import("./pages/profile/ProfileEdit"));
@@ -33,6 +40,7 @@ const PlantingHistory = lazy(() => import("./pages/profile/PlantingHistory"));
 const RewardsWallet = lazy(() => import("./pages/profile/RewardsWallet"));
 const Achievements = lazy(() => import("./pages/profile/Achievements"));
 const ProfileSettings = lazy(() => import("./pages/profile/ProfileSettings"));
+const FarmPlots = lazy(() => import("./pages/profile/FarmPlots"));
 const NurseryMarketplace = lazy(() => import("./pages/NurseryMarketplace"));
 const NotFound = lazy(() => import("./pages/NotFound"));
 
@@ -64,6 +72,9 @@ const App = () => (
             <Toaster />
             <Sonner />
             <OfflineIndicator />
+            <UpdatePrompt />
+            <VerificationOutboxSync />
+            <SwipeOutboxSync />
             <BrowserRouter>
               <AppWithAI>
                 <Suspense fallback={<LoadingFallback />}>
@@ -108,6 +119,13 @@ const App = () => (
                       </AdminLayout>
                     </AdminProtectedRoute>
                   } />
+                  <Route path="/admin/survival" element={
+                    <AdminProtectedRoute>
+                      <AdminLayout>
+                        <SurvivalChecks />
+                      </AdminLayout>
+                    </AdminProtectedRoute>
+                  } />
                   <Route path="/admin/users" element={
                     <AdminProtectedRoute>
                       <AdminLayout>
@@ -122,6 +140,27 @@ const App = () => (
                       </AdminLayout>
                     </AdminProtectedRoute>
                   } />
+                  <Route path="/admin/species" element={
+                    <AdminProtectedRoute>
+                      <AdminLayout>
+                        <AdminSpecies />
+                      </AdminLayout>
+                    </AdminProtectedRoute>
+                  } />
+                  <Route path="/admin/rewards" element={
+                    <AdminProtectedRoute>
+                      <AdminLayout>
+                        <AdminRewards />
+                      </AdminLayout>
+                    </AdminProtectedRoute>
+                  } />
+                  <Route path="/admin/audit" element={
+                    <AdminProtectedRoute>
+                      <AdminLayout>
+                        <AdminAudit />
+                      </AdminLayout>
+                    </AdminProtectedRoute>
+                  } />
                   <Route path="/profile" element={
                     <ProtectedRoute requireOnboarding>
                       <Profile />
@@ -131,6 +170,7 @@ const App = () => (
                     <Route path="dashboard" element={<ProfileDashboard />} />
                     <Route path="edit" element={<ProfileEdit />} />
                     <Route path="plantings" element={<PlantingHistory />} />
+                    <Route path="plots" element={<FarmPlots />} />
                     <Route path="rewards" element={<RewardsWallet />} />
                     <Route path="achievements" element={<Achievements />} />
                     <Route path="settings" element={<ProfileSettings />} />
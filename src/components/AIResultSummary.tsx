@@ -0,0 +1,120 @@
+import { Brain, Loader2, RefreshCw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import {
+  formatConfidence,
+  parseHealth,
+  parseSpeciesCandidates,
+  type VerificationAiResult,
+} from "@/utils/verificationAiResults";
+import { SPECIES_MATCH_LABELS, type SpeciesMatchOutcome } from "@/utils/speciesTriage";
+
+const MATCH_STYLES: Record<SpeciesMatchOutcome, string> = {
+  match: 'border-green-300 text-green-700',
+  mismatch: 'border-red-500 bg-red-50 text-red-700',
+  unknown_claim: 'border-yellow-300 text-yellow-700',
+  no_prediction: 'border-yellow-300 text-yellow-700',
+};
+
+interface AIResultSummaryProps {
+  result: VerificationAiResult | undefined;
+  // Show the details inline instead of in a tooltip
+  expanded?: boolean;
+  onRetry?: () => void;
+  retrying?: boolean;
+}
+
+/**
+ * What server-side recognition made of a submission's photo
+ */
+export const AIResultSummary = ({ result, expanded = false, onRetry, retrying = false }: AIResultSummaryProps) => {
+  if (!result) return null;
+
+  const candidates = parseSpeciesCandidates(result.species_candidates);
+  const health = parseHealth(result.health);
+  const top = candidates[0];
+  const match = result.species_match as SpeciesMatchOutcome | null;
+
+  const badge = result.status === 'completed' ? (
+    <Badge
+      variant="outline"
+      className={match ? MATCH_STYLES[match] : 'border-primary/40'}
+      aria-label={match ? SPECIES_MATCH_LABELS[match] : undefined}
+    >
+      <Brain className="h-3 w-3 mr-1" aria-hidden="true" />
+      {top ? `${top.name} ${formatConfidence(top.confidence)}` : 'No species found'}
+      {match === 'mismatch' && ' ≠ claim'}
+    </Badge>
+  ) : result.status === 'failed' ? (
+    <Badge variant="outline" className="border-red-300 text-red-700">
+      <Brain className="h-3 w-3 mr-1" aria-hidden="true" />
+      AI failed
+    </Badge>
+  ) : (
+    <Badge variant="outline" className="text-muted-foreground">
+      <Loader2 className="h-3 w-3 mr-1 animate-spin" aria-hidden="true" />
+      AI pending
+    </Badge>
+  );
+
+  const details = result.status === 'completed' ? (
+    <div className="space-y-1 text-xs">
+      {match && (
+        <p className="font-medium">
+          {SPECIES_MATCH_LABELS[match]}
+          {match === 'mismatch' && result.claimed_confidence != null &&
+            ` (claimed ${result.claimed_species}: ${formatConfidence(result.claimed_confidence)})`}
+        </p>
+      )}
+      {candidates.map((candidate) => (
+        <p key={candidate.id}>
+          <span className="font-medium">{candidate.name}</span> · {formatConfidence(candidate.confidence)}
+        </p>
+      ))}
+      {health && (
+        <p>
+          {health.isHealthy ? 'Looks healthy' : 'Health concerns'} ({formatConfidence(health.confidence)})
+          {health.issues.length > 0 && `: ${health.issues.join(', ')}`}
+        </p>
+      )}
+      {result.growth_stage && (
+        <p>
+          Growth stage: {result.growth_stage}
+          {result.growth_stage_confidence != null && ` (${formatConfidence(result.growth_stage_confidence)})`}
+        </p>
+      )}
+      {result.model_version && <p className="text-muted-foreground">Model {result.model_version}</p>}
+    </div>
+  ) : result.status === 'failed' ? (
+    <p className="text-xs">{result.error ?? 'Recognition failed'}</p>
+  ) : (
+    <p className="text-xs">Recognition has not finished yet</p>
+  );
+
+  if (expanded) {
+    return (
+      <div className="space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          {badge}
+          {onRetry && result.status !== 'completed' && (
+            <Button variant="ghost" size="sm" onClick={onRetry} disabled={retrying}>
+              <RefreshCw className={`h-3 w-3 mr-1 ${retrying ? 'animate-spin' : ''}`} />
+              Run again
+            </Button>
+          )}
+        </div>
+        {details}
+      </div>
+    );
+  }
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span className="inline-flex cursor-help">{badge}</span>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-xs">{details}</TooltipContent>
+    </Tooltip>
+  );
+};
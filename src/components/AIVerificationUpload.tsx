@@ -10,7 +10,11 @@ import { useLanguage } from "@/hooks/useLanguage";
 import { logger } from "@/utils/logger";
 
 interface AIVerificationUploadProps {
-  onVerificationComplete: (result: TreeRecognitionResult) => void;
+  onVerificationComplete: (verification: {
+    image: string | null;
+    analysis: TreeRecognitionResult;
+    timestamp: string;
+  }) => void;
   expectedTree?: {
     id: string;
     name: string;
@@ -247,6 +251,14 @@ export const AIVerificationUpload = ({
                       <Leaf className="w-4 h-4" />
                       {language === 'en' ? 'Species Identification' : 'Utambuzi wa Aina'}
                     </h4>
+                    {aiTreeRecognition.backendName === 'heuristic' && (
+                      <p className="text-xs text-muted-foreground">
+                        {language === 'en'
+                          ? 'Estimated from colours and shapes, not a trained model'
+                          : 'Imekadiriwa kutokana na rangi na maumbo, si modeli iliyofunzwa'
+                        }
+                      </p>
+                    )}
                     <div className="space-y-2">
                       {analysisResult.species.map((species: SpeciesMatch, index: number) => (
                         <div key={index} className="flex items-center justify-between p-3 bg-muted rounded-lg">
@@ -0,0 +1,63 @@
+import { MapPin, Leaf, Target, CloudSun, Sprout, Users } from "lucide-react";
+import { useLanguage } from "@/hooks/useLanguage";
+import type { CompatibilityExplanation, CompatibilityFactorKey } from "@/utils/kenyaCompatibility";
+
+const FACTOR_LABELS: Record<CompatibilityFactorKey, { en: string; sw: string }> = {
+  county: { en: 'County', sw: 'Kaunti' },
+  agroZone: { en: 'Agro-zone', sw: 'Eneo la kilimo' },
+  goals: { en: 'Your goals', sw: 'Malengo yako' },
+  weather: { en: 'Weather', sw: 'Hali ya hewa' },
+  historical: { en: 'Survival record', sw: 'Rekodi ya kustawi' },
+  similarFarmers: { en: 'Similar farmers', sw: 'Wakulima kama wewe' },
+};
+
+const FACTOR_ICONS: Record<CompatibilityFactorKey, typeof MapPin> = {
+  county: MapPin,
+  agroZone: Leaf,
+  goals: Target,
+  weather: CloudSun,
+  historical: Sprout,
+  similarFarmers: Users,
+};
+
+interface CompatibilityBreakdownProps {
+  explanation: CompatibilityExplanation;
+}
+
+/**
+ * Why a tree got its compatibility score, factor by factor
+ */
+export const CompatibilityBreakdown = ({ explanation }: CompatibilityBreakdownProps) => {
+  const { language } = useLanguage();
+  const lang = language as 'en' | 'sw';
+
+  const getPointsColor = (points: number, maxPoints: number) => {
+    if (points < 0) return 'text-orange-600';
+    if (points >= maxPoints) return 'text-green-600';
+    if (points > 0) return 'text-yellow-600';
+    return 'text-muted-foreground';
+  };
+
+  return (
+    <div className="space-y-2" aria-label={language === 'sw' ? 'Sababu za upatanifu' : 'Why this score'}>
+      {explanation.factors.map((factor) => {
+        const Icon = FACTOR_ICONS[factor.key];
+        return (
+          <div key={factor.key} className="flex items-start gap-2">
+            <Icon className="w-4 h-4 mt-0.5 text-muted-foreground shrink-0" aria-hidden="true" />
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-medium">{FACTOR_LABELS[factor.key][lang]}</p>
+                <p className={`text-sm font-semibold tabular-nums ${getPointsColor(factor.points, factor.maxPoints)}`}>
+                  {factor.points > 0 ? '+' : ''}{factor.points}
+                  <span className="text-xs font-normal text-muted-foreground"> / {factor.maxPoints}</span>
+                </p>
+              </div>
+              <p className="text-xs text-muted-foreground">{factor.reason[lang]}</p>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -3,12 +3,14 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { MapPin, Leaf, TrendingUp, Calendar, DollarSign } from "lucide-react";
 import type { KenyanTreeSpecies } from "@/data/kenya";
-import type { SeasonalRecommendation, SuccessProbability } from "@/utils/kenyaCompatibility";
+import type { CompatibilityExplanation, SeasonalRecommendation, SuccessProbability } from "@/utils/kenyaCompatibility";
 import { useLanguage } from "@/hooks/useLanguage";
 import { useTreeImage } from "@/hooks/useTreeImages";
+import { CompatibilityBreakdown } from "./CompatibilityBreakdown";
 
 interface KenyanTreeCardProps extends KenyanTreeSpecies {
   compatibilityScore?: number;
+  explanation?: CompatibilityExplanation;
   seasonalData?: SeasonalRecommendation;
   successData?: SuccessProbability;
 }
@@ -23,6 +25,7 @@ export const KenyanTreeCard = ({
   uses,
   description,
   compatibilityScore,
+  explanation,
   seasonalData,
   successData,
 }: KenyanTreeCardProps) => {
@@ -102,6 +105,16 @@ export const KenyanTreeCard = ({
         {/* Description */}
         <p className="text-muted-foreground">{displayDescription}</p>
 
+        {/* Why this score */}
+        {explanation && (
+          <div className="bg-muted p-3 rounded-lg">
+            <p className="text-sm font-semibold mb-2">
+              {language === 'sw' ? 'Kwa nini alama hii' : 'Why this score'}:
+            </p>
+            <CompatibilityBreakdown explanation={explanation} />
+          </div>
+        )}
+
         {/* Price */}
         <div className="flex items-center gap-2 text-primary font-semibold">
           <DollarSign className="w-5 h-5" />
@@ -1,6 +1,7 @@
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Star, Trash2 } from "lucide-react";
 import { useTreeImage } from "@/hooks/useTreeImages";
 
@@ -12,13 +13,17 @@ interface MatchCardProps {
         compatibility_score: number;
         matched_at: string;
         favorited: boolean;
+        plot_id?: string | null;
     };
+    /** The farmer's plots; the plot picker is shown when there are any */
+    plots?: { id: string; name: string }[];
     onToggleFavorite: (matchId: string, currentStatus: boolean) => void;
     onDelete: (matchId: string) => void;
     onViewDetails: (matchId: string) => void;
+    onAssignPlot?: (matchId: string, plotId: string | null) => void;
 }
 
-export function MatchCard({ match, onToggleFavorite, onDelete, onViewDetails }: MatchCardProps) {
+export function MatchCard({ match, plots = [], onToggleFavorite, onDelete, onViewDetails, onAssignPlot }: MatchCardProps) {
     const { imageUrl, loading: imageLoading } = useTreeImage(match.tree_name);
 
     const getCompatibilityColor = (score: number) => {
@@ -56,6 +61,23 @@ export function MatchCard({ match, onToggleFavorite, onDelete, onViewDetails }:
                     <span>Matched {new Date(match.matched_at).toLocaleDateString()}</span>
                 </div>
 
+                {plots.length > 0 && onAssignPlot && (
+                    <Select
+                        value={match.plot_id ?? "none"}
+                        onValueChange={(value) => onAssignPlot(match.id, value === "none" ? null : value)}
+                    >
+                        <SelectTrigger aria-label="Plot">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="none">No plot chosen</SelectItem>
+                            {plots.map((plot) => (
+                                <SelectItem key={plot.id} value={plot.id}>{plot.name}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                )}
+
                 <div className="flex flex-col sm:flex-row gap-2">
                     <Button
                         variant={match.favorited ? "default" : "outline"}
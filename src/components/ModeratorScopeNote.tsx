@@ -0,0 +1,20 @@
+import { MapPin } from "lucide-react";
+import { useAdminAuth } from "@/hooks/useAdminAuth";
+
+/**
+ * Reminds moderators that the figures and submissions on a page are only
+ * those from their counties (the database scopes them)
+ */
+export const ModeratorScopeNote = () => {
+  const { isModerator, counties } = useAdminAuth();
+  if (!isModerator) return null;
+
+  return (
+    <p className="flex items-center gap-1 text-xs text-muted-foreground">
+      <MapPin className="h-3 w-3" aria-hidden="true" />
+      {counties.length > 0
+        ? `Showing ${counties.join(', ')} only`
+        : 'No counties assigned yet - ask an admin to assign you one'}
+    </p>
+  );
+};
@@ -0,0 +1,161 @@
+import { useMemo } from "react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { CalendarDays, CalendarPlus, CloudRain } from "lucide-react";
+import { useLanguage } from "@/hooks/useLanguage";
+import { downloadIcs } from "@/utils/icsCalendar";
+import {
+  buildPlantingCalendar,
+  plantingCalendarToIcs,
+  RAINFALL_REGIME_LABELS,
+  type DailyForecast,
+  type PlantingSeason,
+} from "@/utils/plantingCalendar";
+
+const MONTH_LABELS = {
+  en: ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'],
+  sw: ['Jan', 'Feb', 'Mac', 'Apr', 'Mei', 'Jun', 'Jul', 'Ago', 'Sep', 'Okt', 'Nov', 'Des'],
+};
+
+const RELIABILITY_LABELS: Record<PlantingSeason['reliability'], { en: string; sw: string }> = {
+  reliable: { en: 'Reliable', sw: 'Za kutegemewa' },
+  moderate: { en: 'Variable', sw: 'Hubadilika' },
+  erratic: { en: 'Erratic', sw: 'Hazitabiriki' },
+};
+
+type MonthStatus = 'plant' | 'rain' | 'dry';
+
+const MONTH_STATUS_CLASSES: Record<MonthStatus, string> = {
+  plant: 'bg-green-500 text-white',
+  rain: 'bg-blue-200 text-blue-900',
+  dry: 'bg-muted text-muted-foreground',
+};
+
+interface PlantingCalendarCardProps {
+  county?: string | null;
+  agroZone?: string | null;
+  forecast?: DailyForecast[] | null;
+  treeName?: string;
+  className?: string;
+}
+
+/**
+ * Next twelve months of rainy seasons and planting windows for a farm,
+ * with an .ics export for phone calendars
+ */
+export const PlantingCalendarCard = ({ county, agroZone, forecast, treeName, className }: PlantingCalendarCardProps) => {
+  const { language } = useLanguage();
+  const lang = language as 'en' | 'sw';
+
+  const calendar = useMemo(
+    () => buildPlantingCalendar({ county, agroZone, forecast }),
+    [county, agroZone, forecast]
+  );
+
+  const formatDate = (date: Date) =>
+    date.toLocaleDateString(lang === 'sw' ? 'sw-KE' : 'en-KE', { day: 'numeric', month: 'short' });
+
+  // Twelve months starting with the current one
+  const months = useMemo(() => {
+    const today = new Date();
+    return Array.from({ length: 12 }, (_, index) => {
+      const start = new Date(today.getFullYear(), today.getMonth() + index, 1);
+      const end = new Date(start.getFullYear(), start.getMonth() + 1, 0);
+      const overlaps = (from: Date, to: Date) => from <= end && to >= start;
+
+      let status: MonthStatus = 'dry';
+      if (calendar.seasons.some((season) => overlaps(season.plantingStart, season.plantingEnd))) {
+        status = 'plant';
+      } else if (calendar.seasons.some((season) => overlaps(season.onset, season.cessation))) {
+        status = 'rain';
+      }
+      return { key: `${start.getFullYear()}-${start.getMonth()}`, month: start.getMonth(), status };
+    });
+  }, [calendar]);
+
+  const handleExport = () => {
+    const ics = plantingCalendarToIcs(calendar, { treeName, language: lang });
+    const slug = (treeName || 'trees').toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    downloadIcs(`planting-calendar-${slug}`, ics);
+  };
+
+  return (
+    <Card className={`p-4 space-y-4 ${className ?? ''}`}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <CalendarDays className="w-5 h-5 text-primary" />
+          <h3 className="font-semibold">
+            {language === 'sw' ? 'Kalenda ya Kupanda' : 'Planting Calendar'}
+          </h3>
+        </div>
+        <Badge variant="outline">{RAINFALL_REGIME_LABELS[calendar.regime][lang]}</Badge>
+      </div>
+
+      {/* Month strip */}
+      <div className="grid grid-cols-6 sm:grid-cols-12 gap-1" role="list">
+        {months.map(({ key, month, status }) => (
+          <div
+            key={key}
+            role="listitem"
+            className={`text-center text-xs rounded py-1 ${MONTH_STATUS_CLASSES[status]}`}
+          >
+            {MONTH_LABELS[lang][month]}
+          </div>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <span className="w-3 h-3 rounded bg-green-500" />
+          {language === 'sw' ? 'Wakati wa kupanda' : 'Planting window'}
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="w-3 h-3 rounded bg-blue-200" />
+          {language === 'sw' ? 'Mvua' : 'Rains'}
+        </span>
+      </div>
+
+      {/* Seasons */}
+      <div className="space-y-3">
+        {calendar.seasons.map((season) => {
+          const isCurrent = calendar.current === season;
+          return (
+            <div
+              key={`${season.id}-${season.onset.getFullYear()}`}
+              className={`rounded-lg border p-3 ${isCurrent ? 'border-green-500 bg-green-50' : ''}`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <p className="font-medium text-sm">
+                  {season.name[lang]} {season.onset.getFullYear()}
+                </p>
+                <div className="flex gap-1">
+                  {isCurrent && (
+                    <Badge className="bg-green-600">{language === 'sw' ? 'Panda sasa' : 'Plant now'}</Badge>
+                  )}
+                  <Badge variant="secondary">{RELIABILITY_LABELS[season.reliability][lang]}</Badge>
+                </div>
+              </div>
+              <p className="text-sm text-muted-foreground mt-1">
+                {language === 'sw' ? 'Panda' : 'Plant'}: {formatDate(season.plantingStart)} – {formatDate(season.plantingEnd)}
+              </p>
+              <p className="text-xs text-muted-foreground flex items-center gap-1">
+                <CloudRain className="w-3 h-3" />
+                {language === 'sw' ? 'Mvua' : 'Rains'}: {formatDate(season.onset)} – {formatDate(season.cessation)}
+                {(season.onsetSource === 'forecast' || season.cessationSource === 'forecast') && (
+                  <span className="text-primary">
+                    {' '}({language === 'sw' ? 'kulingana na utabiri' : 'from forecast'})
+                  </span>
+                )}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+
+      <Button variant="outline" className="w-full gap-2" onClick={handleExport}>
+        <CalendarPlus className="w-4 h-4" />
+        {language === 'sw' ? 'Ongeza kwenye kalenda ya simu (.ics)' : 'Add to phone calendar (.ics)'}
+      </Button>
+    </Card>
+  );
+};
@@ -52,7 +52,9 @@ export const PlantingMap = ({ locations }: PlantingMapProps) => {
         scrollWheelZoom: false,
       });
 
-      L.tileLayer("https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png", {
+      // Same URLs as the areas saved for offline use (src/utils/offlineTiles.ts),
+      // so the service worker can serve them without signal
+      L.tileLayer("https://tile.openstreetmap.org/{z}/{x}/{y}.png", {
         attribution:
           '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
         maxZoom: 19,
@@ -0,0 +1,109 @@
+import { useEffect, useRef } from "react";
+import L, { Map as LeafletMap } from "leaflet";
+import "leaflet/dist/leaflet.css";
+import { fromPlotPolygon, type FarmPlot, type LatLng } from "@/utils/farmPlots";
+
+interface PlotBoundaryMapProps {
+  /** Where to start when there are no plots yet, e.g. the profile location */
+  center: { latitude: number; longitude: number } | null;
+  plots: FarmPlot[];
+  /** Corners of the boundary being drawn */
+  points: LatLng[];
+  /** Omit to show the plots without drawing */
+  onAddPoint?: (point: LatLng) => void;
+  selectedPlotId?: string | null;
+}
+
+const DRAWING_STYLE: L.PathOptions = { color: "#16a34a", weight: 3, dashArray: "6 4", fillOpacity: 0.2 };
+const PLOT_STYLE: L.PathOptions = { color: "#2563eb", weight: 2, fillOpacity: 0.1 };
+const SELECTED_PLOT_STYLE: L.PathOptions = { color: "#16a34a", weight: 3, fillOpacity: 0.25 };
+
+// Pure Leaflet, like PlantingMap: tap the map to mark each corner of the plot
+export const PlotBoundaryMap = ({ center, plots, points, onAddPoint, selectedPlotId }: PlotBoundaryMapProps) => {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const mapRef = useRef<LeafletMap | null>(null);
+  const plotsLayerRef = useRef<L.LayerGroup | null>(null);
+  const drawingLayerRef = useRef<L.LayerGroup | null>(null);
+  const onAddPointRef = useRef(onAddPoint);
+  const fittedRef = useRef(false);
+  // The map is created once, at the first centre; later centre changes only
+  // move it while it is empty
+  const initialCenterRef = useRef(center);
+
+  onAddPointRef.current = onAddPoint;
+
+  useEffect(() => {
+    if (!containerRef.current || mapRef.current) return;
+
+    const center = initialCenterRef.current;
+    const map = L.map(containerRef.current, {
+      center: center ? [center.latitude, center.longitude] : [-0.0236, 37.9062], // Kenya approx
+      zoom: center ? 16 : 6,
+      zoomControl: true,
+      scrollWheelZoom: false,
+    });
+
+    // Same URLs as the areas saved for offline use, so plots can be drawn in the field
+    L.tileLayer("https://tile.openstreetmap.org/{z}/{x}/{y}.png", {
+      attribution:
+        '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+      maxZoom: 19,
+    }).addTo(map);
+
+    plotsLayerRef.current = L.layerGroup().addTo(map);
+    drawingLayerRef.current = L.layerGroup().addTo(map);
+    map.on("click", (event: L.LeafletMouseEvent) => {
+      onAddPointRef.current?.([event.latlng.lat, event.latlng.lng]);
+    });
+    mapRef.current = map;
+
+    return () => {
+      map.remove();
+      mapRef.current = null;
+    };
+  }, []);
+
+  // Saved plots
+  useEffect(() => {
+    const map = mapRef.current;
+    const layer = plotsLayerRef.current;
+    if (!map || !layer) return;
+
+    layer.clearLayers();
+    plots.forEach((plot) => {
+      L.polygon(fromPlotPolygon(plot.boundary), plot.id === selectedPlotId ? SELECTED_PLOT_STYLE : PLOT_STYLE)
+        .bindTooltip(plot.name)
+        .addTo(layer);
+    });
+
+    if (!fittedRef.current && plots.length > 0) {
+      map.fitBounds(L.latLngBounds(plots.flatMap((plot) => fromPlotPolygon(plot.boundary))), { padding: [20, 20] });
+      fittedRef.current = true;
+    } else if (!fittedRef.current && center) {
+      map.setView([center.latitude, center.longitude], 16);
+    }
+  }, [plots, selectedPlotId, center]);
+
+  // Boundary being drawn
+  useEffect(() => {
+    const layer = drawingLayerRef.current;
+    if (!layer) return;
+
+    layer.clearLayers();
+    if (points.length >= 2) {
+      (points.length >= 3 ? L.polygon(points, DRAWING_STYLE) : L.polyline(points, DRAWING_STYLE)).addTo(layer);
+    }
+    points.forEach((point) => {
+      L.circleMarker(point, { radius: 6, color: "#16a34a", fillColor: "#ffffff", fillOpacity: 1, weight: 2 }).addTo(layer);
+    });
+  }, [points]);
+
+  return (
+    <div
+      ref={containerRef}
+      className={`w-full h-full ${onAddPoint ? "cursor-crosshair" : ""}`}
+      role="region"
+      aria-label="Farm plot map"
+    />
+  );
+};
@@ -4,6 +4,7 @@ import { useAuth } from "@/hooks/useAuth";
 import { useAdminAuth } from "@/hooks/useAdminAuth";
 import { supabase } from "@/integrations/supabase/client";
 import { Skeleton } from "@/components/ui/skeleton";
+import { getCachedProfile } from "@/utils/offlineSnapshot";
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
@@ -19,13 +20,15 @@ export const ProtectedRoute = ({ children, requireOnboarding = false }: Protecte
   useEffect(() => {
     const checkProfile = async () => {
       if (user && requireOnboarding) {
-        const { data } = await supabase
+        const { data, error } = await supabase
           .from("profiles")
           .select("onboarding_completed")
           .eq("user_id", user.id)
           .single();
 
-        setOnboardingCompleted(data?.onboarding_completed || false);
+        // Offline: trust the profile saved the last time the deck loaded
+        const cached = error ? getCachedProfile<{ onboarding_completed?: boolean }>(user.id) : null;
+        setOnboardingCompleted((data ?? cached?.data)?.onboarding_completed || false);
       }
       setCheckingProfile(false);
     };
@@ -0,0 +1,46 @@
+import { Coins, Percent, Sprout, Gauge, Megaphone } from "lucide-react";
+import type { RewardEvaluation, RewardLine } from "@/utils/rewardRules";
+
+const LINE_ICONS: Record<RewardLine['kind'], typeof Coins> = {
+  base_amount: Coins,
+  multiplier: Percent,
+  survival_bonus: Sprout,
+  monthly_cap: Gauge,
+  campaign_budget: Megaphone,
+};
+
+interface RewardBreakdownProps {
+  evaluation: RewardEvaluation;
+}
+
+/**
+ * How a submission's reward was worked out, rule by rule
+ */
+export const RewardBreakdown = ({ evaluation }: RewardBreakdownProps) => (
+  <div className="space-y-2" aria-label="Reward breakdown">
+    {evaluation.lines.map((line, index) => {
+      const Icon = LINE_ICONS[line.kind];
+      return (
+        <div key={`${line.ruleId ?? line.kind}-${index}`} className="flex items-start gap-2">
+          <Icon className="w-4 h-4 mt-0.5 text-muted-foreground shrink-0" aria-hidden="true" />
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm font-medium">{line.label}</p>
+              <p className="text-sm tabular-nums text-muted-foreground">KSh {line.amountAfter.toLocaleString()}</p>
+            </div>
+            <p className="text-xs text-muted-foreground">{line.detail}</p>
+          </div>
+        </div>
+      );
+    })}
+    <div className="flex items-center justify-between border-t pt-2">
+      <p className="text-sm font-semibold">
+        Reward
+        {evaluation.campaignName && (
+          <span className="font-normal text-muted-foreground"> · funded by {evaluation.campaignName}</span>
+        )}
+      </p>
+      <p className="text-lg font-bold text-green-600 tabular-nums">KSh {evaluation.amount.toLocaleString()}</p>
+    </div>
+  </div>
+);
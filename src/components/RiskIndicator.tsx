@@ -0,0 +1,66 @@
+import { ShieldAlert, ShieldCheck } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import type { Json } from "@/integrations/supabase/types";
+import { parseRiskFlags, riskLevel, RISK_FLAG_LABELS, type RiskLevel } from "@/utils/verificationRisk";
+
+const LEVEL_STYLES: Record<RiskLevel, string> = {
+  none: 'border-green-300 text-green-700',
+  low: 'border-yellow-300 text-yellow-700',
+  medium: 'border-orange-400 text-orange-700',
+  high: 'border-red-500 bg-red-50 text-red-700',
+};
+
+interface RiskIndicatorProps {
+  score: number | null | undefined;
+  flags: Json | null | undefined;
+  // Show the reasons inline instead of in a tooltip
+  expanded?: boolean;
+}
+
+/**
+ * A submission's fraud risk score with the reasons behind it
+ */
+export const RiskIndicator = ({ score, flags, expanded = false }: RiskIndicatorProps) => {
+  const level = riskLevel(score);
+  const reasons = parseRiskFlags(flags);
+  const Icon = level === 'none' ? ShieldCheck : ShieldAlert;
+
+  const badge = (
+    <Badge variant="outline" className={LEVEL_STYLES[level]} aria-label={`Risk score ${score ?? 0}`}>
+      <Icon className="h-3 w-3 mr-1" aria-hidden="true" />
+      {level === 'none' ? 'No flags' : `Risk ${score}`}
+    </Badge>
+  );
+
+  const reasonList = (
+    <ul className="space-y-1">
+      {reasons.map((reason) => (
+        <li key={reason.code} className="text-xs">
+          <span className="font-medium">{RISK_FLAG_LABELS[reason.code] ?? reason.code}</span>
+          {' '}(+{reason.weight}) · {reason.detail}
+        </li>
+      ))}
+    </ul>
+  );
+
+  if (reasons.length === 0) return badge;
+
+  if (expanded) {
+    return (
+      <div className="space-y-2">
+        {badge}
+        {reasonList}
+      </div>
+    );
+  }
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span className="inline-flex cursor-help">{badge}</span>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-xs">{reasonList}</TooltipContent>
+    </Tooltip>
+  );
+};
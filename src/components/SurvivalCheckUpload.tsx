@@ -0,0 +1,240 @@
+import { useState } from "react";
+import { useLanguage } from "@/hooks/useLanguage";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { logger } from "@/utils/logger";
+import { Upload, MapPin, AlertTriangle, Sprout, X } from "lucide-react";
+import { extractGPSData, validateImage } from "@/utils/imageUtils";
+import { sanitizeString } from "@/utils/validation";
+import { distanceFromOriginal, MAX_CHECK_IN_DISTANCE_M, type SurvivalCheck } from "@/utils/survivalChecks";
+import { submitSurvivalCheck } from "@/utils/survivalChecksService";
+
+interface SurvivalCheckUploadProps {
+  check: SurvivalCheck;
+  planting: {
+    tree_name: string;
+    image_url: string;
+    latitude: number | null;
+    longitude: number | null;
+  };
+  onSuccess?: () => void;
+  onCancel?: () => void;
+}
+
+/**
+ * Re-photograph a verified planting for a survival check-in, next to the
+ * original photo, and show how far the new GPS fix is from the original
+ */
+export const SurvivalCheckUpload = ({ check, planting, onSuccess, onCancel }: SurvivalCheckUploadProps) => {
+  const { language } = useLanguage();
+  const [image, setImage] = useState<File | null>(null);
+  const [preview, setPreview] = useState("");
+  const [gps, setGps] = useState<{ latitude?: number; longitude?: number }>({});
+  const [reportedAlive, setReportedAlive] = useState(true);
+  const [notes, setNotes] = useState("");
+  const [uploading, setUploading] = useState(false);
+
+  const distance = distanceFromOriginal(planting, gps);
+  const tooFar = distance !== null && distance > MAX_CHECK_IN_DISTANCE_M;
+
+  const handleImageSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const validation = validateImage(file);
+    if (!validation.valid) {
+      toast.error(validation.error);
+      return;
+    }
+
+    if (preview) URL.revokeObjectURL(preview);
+    setPreview(URL.createObjectURL(file));
+    setImage(file);
+
+    const metadata = await extractGPSData(file);
+    if (metadata.latitude && metadata.longitude) {
+      setGps({ latitude: metadata.latitude, longitude: metadata.longitude });
+    }
+  };
+
+  const useCurrentLocation = () => {
+    if (!navigator.geolocation) {
+      toast.error(language === 'en' ? 'Geolocation not supported by your browser' : 'Kivinjari chako hakitumii GPS');
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => setGps({ latitude: position.coords.latitude, longitude: position.coords.longitude }),
+      () => toast.error(language === 'en' ? 'Failed to get location' : 'Imeshindwa kupata mahali')
+    );
+  };
+
+  const clearImage = () => {
+    if (preview) URL.revokeObjectURL(preview);
+    setImage(null);
+    setPreview("");
+    setGps({});
+  };
+
+  const handleSubmit = async () => {
+    if (!image) {
+      toast.error(language === 'en' ? 'Please select a photo' : 'Tafadhali chagua picha');
+      return;
+    }
+    if (gps.latitude == null || gps.longitude == null) {
+      toast.error(language === 'en' ? 'Location required. Please enable GPS.' : 'Mahali panahitajika. Tafadhali washa GPS.');
+      return;
+    }
+
+    setUploading(true);
+    try {
+      await submitSurvivalCheck(check, {
+        image,
+        latitude: gps.latitude,
+        longitude: gps.longitude,
+        reportedAlive,
+        notes: notes ? sanitizeString(notes) : null,
+      });
+      toast.success(language === 'en' ? 'Check-in submitted for review' : 'Ukaguzi umetumwa kwa ukaguzi');
+      URL.revokeObjectURL(preview);
+      onSuccess?.();
+    } catch (error) {
+      logger.error('Error submitting survival check:', error);
+      toast.error(error.message || (language === 'en' ? 'Failed to submit check-in' : 'Imeshindwa kutuma ukaguzi'));
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        {language === 'en'
+          ? `Take a new photo of your ${planting.tree_name} from the same spot as the original.`
+          : `Piga picha mpya ya ${planting.tree_name} yako kutoka mahali pale pale pa picha ya kwanza.`}
+      </p>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <p className="text-xs font-medium text-muted-foreground">{language === 'en' ? 'Original' : 'Ya kwanza'}</p>
+          <img src={planting.image_url} alt={planting.tree_name} className="w-full h-40 object-cover rounded-lg" />
+        </div>
+        <div className="space-y-1">
+          <p className="text-xs font-medium text-muted-foreground">
+            {language === 'en' ? `${check.months} months` : `Miezi ${check.months}`}
+          </p>
+          {preview ? (
+            <div className="relative">
+              <img src={preview} alt={planting.tree_name} className="w-full h-40 object-cover rounded-lg" />
+              <Button
+                variant="destructive"
+                size="icon"
+                className="absolute top-1 right-1 h-7 w-7"
+                onClick={clearImage}
+                disabled={uploading}
+                aria-label={language === 'en' ? 'Remove photo' : 'Ondoa picha'}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ) : (
+            <Label htmlFor={`survival-upload-${check.id}`} className="cursor-pointer block">
+              <div className="border-2 border-dashed border-border rounded-lg h-40 flex flex-col items-center justify-center hover:border-primary transition-colors">
+                <Upload className="w-8 h-8 mb-2 text-muted-foreground" />
+                <p className="text-sm font-medium">{language === 'en' ? 'Upload photo' : 'Pakia picha'}</p>
+              </div>
+            </Label>
+          )}
+          <Input
+            id={`survival-upload-${check.id}`}
+            type="file"
+            accept="image/jpeg,image/jpg,image/png,image/webp"
+            className="hidden"
+            onChange={handleImageSelect}
+            disabled={uploading}
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-2 text-sm">
+        {gps.latitude != null && gps.longitude != null ? (
+          <span className={`flex items-center gap-1 ${tooFar ? 'text-amber-600' : 'text-green-600'}`}>
+            {tooFar ? <AlertTriangle className="w-4 h-4" /> : <MapPin className="w-4 h-4" />}
+            {distance === null
+              ? `${gps.latitude.toFixed(5)}, ${gps.longitude.toFixed(5)}`
+              : language === 'en'
+                ? `${distance.toLocaleString()} m from the original planting`
+                : `Mita ${distance.toLocaleString()} kutoka upandaji wa kwanza`}
+          </span>
+        ) : (
+          <span className="text-muted-foreground">{language === 'en' ? 'No location yet' : 'Hakuna mahali bado'}</span>
+        )}
+        <Button type="button" variant="outline" size="sm" onClick={useCurrentLocation} disabled={uploading}>
+          <MapPin className="w-4 h-4 mr-2" />
+          {language === 'en' ? 'Use Current Location' : 'Tumia Mahali Nilipo'}
+        </Button>
+      </div>
+      {tooFar && (
+        <p className="text-xs text-amber-600">
+          {language === 'en'
+            ? 'This is further from the original planting than expected. The reviewer will check it is the same tree.'
+            : 'Hapa ni mbali zaidi na upandaji wa kwanza. Mkaguzi atathibitisha ni mti ule ule.'}
+        </p>
+      )}
+
+      <div className="space-y-2">
+        <Label>{language === 'en' ? 'Is the tree alive?' : 'Je, mti uko hai?'}</Label>
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            variant={reportedAlive ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setReportedAlive(true)}
+            disabled={uploading}
+          >
+            <Sprout className="w-4 h-4 mr-2" />
+            {language === 'en' ? 'Yes, growing' : 'Ndiyo, unakua'}
+          </Button>
+          <Button
+            type="button"
+            variant={!reportedAlive ? 'destructive' : 'outline'}
+            size="sm"
+            onClick={() => setReportedAlive(false)}
+            disabled={uploading}
+          >
+            {language === 'en' ? 'No, it died' : 'Hapana, umekufa'}
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`survival-notes-${check.id}`}>{language === 'en' ? 'Notes (optional)' : 'Maelezo (si lazima)'}</Label>
+        <Textarea
+          id={`survival-notes-${check.id}`}
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          placeholder={language === 'en' ? 'How is the tree doing?' : 'Mti unaendeleaje?'}
+          rows={2}
+          maxLength={1000}
+          disabled={uploading}
+        />
+      </div>
+
+      <div className="flex gap-3">
+        {onCancel && (
+          <Button variant="outline" onClick={onCancel} disabled={uploading} className="flex-1">
+            {language === 'en' ? 'Cancel' : 'Ghairi'}
+          </Button>
+        )}
+        <Button onClick={handleSubmit} disabled={uploading || !image} className="flex-1">
+          {uploading
+            ? (language === 'en' ? 'Uploading...' : 'Inapakia...')
+            : (language === 'en' ? 'Submit Check-in' : 'Tuma Ukaguzi')}
+        </Button>
+      </div>
+    </div>
+  );
+};
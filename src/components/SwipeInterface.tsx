@@ -1,23 +1,50 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { TreeCard } from "./TreeCard";
 import { LocationDetector } from "./LocationDetector";
 import { Button } from "@/components/ui/button";
-import { X, Heart, RotateCcw, History, Info } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { X, Heart, RotateCcw, History, Info, WifiOff } from "lucide-react";
 import { toast } from "sonner";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
+import { useOnlineStatus } from "@/hooks/useOnlineStatus";
+import { useFarmPlots } from "@/hooks/useFarmPlots";
 import { supabase } from "@/integrations/supabase/client";
 import { logger } from "@/utils/logger";
 import {
   calculateKenyanCompatibility,
-  calculateKenyanCompatibilityWithWeather,
+  explainKenyanCompatibility,
   getKenyanSeasonalRecommendation,
   calculateKenyanSuccessProbability,
+  type CompatibilityExplanation,
   type SeasonalRecommendation,
   type SuccessProbability
 } from "@/utils/kenyaCompatibility";
 import { aiRecommendationEngine } from "@/utils/aiRecommendationEngine";
+import {
+  cacheMatches,
+  cacheProfile,
+  cacheWeather,
+  getCachedMatches,
+  getCachedProfile,
+  getCachedWeather,
+} from "@/utils/offlineSnapshot";
+import {
+  listQueuedSwipes,
+  matchKey,
+  matchKeysWithQueue,
+  queueSwipe,
+  requestSwipeSync,
+  type MatchedTree,
+  type SwipeOutcome,
+  type SwipeSubmission,
+} from "@/utils/swipeOutbox";
+import { submitSwipe } from "@/utils/swipeSubmitService";
+import { isConnectivityError } from "@/utils/verificationOutbox";
+import { formatHectares, plotCapacity, plotProfile, spacingFor } from "@/utils/farmPlots";
+import { fetchPlotPlantings, type PlotPlanting } from "@/utils/plotsService";
 import type { KenyanTreeSpecies } from "@/data/kenya";
+import type { DailyForecast } from "@/utils/plantingCalendar";
 import { KenyanTreeCard } from "./KenyanTreeCard";
 import { TreeDetailDialog } from "./TreeDetailDialog";
 
@@ -36,6 +63,7 @@ interface WeatherData {
     humidity: number;
   };
   estimated_annual_rainfall: number;
+  forecast?: DailyForecast[] | null;
 }
 
 interface SwipeInterfaceProps {
@@ -44,11 +72,14 @@ interface SwipeInterfaceProps {
 
 export const SwipeInterface = ({ trees }: SwipeInterfaceProps) => {
   const [currentIndex, setCurrentIndex] = useState(0);
-  const [matchedTreeIds, setMatchedTreeIds] = useState<Set<number>>(new Set());
+  // One key per tree and plot, see matchKey
+  const [matchKeys, setMatchKeys] = useState<Set<string>>(new Set());
   const [isAnimating, setIsAnimating] = useState(false);
   const [swipeDirection, setSwipeDirection] = useState<'left' | 'right' | null>(null);
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const [compatibilityScore, setCompatibilityScore] = useState(0);
+  const [explanation, setExplanation] = useState<CompatibilityExplanation | null>(null);
+  const [historyLoaded, setHistoryLoaded] = useState(false);
   const [weatherData, setWeatherData] = useState<WeatherData | null>(null);
   const [seasonalData, setSeasonalData] = useState<SeasonalRecommendation | null>(null);
   const [successData, setSuccessData] = useState<SuccessProbability | null>(null);
@@ -57,10 +88,22 @@ export const SwipeInterface = ({ trees }: SwipeInterfaceProps) => {
   const [showDetailDialog, setShowDetailDialog] = useState(false);
   const [touchStart, setTouchStart] = useState<number | null>(null);
   const [touchEnd, setTouchEnd] = useState<number | null>(null);
+  // When the deck runs on data saved on this device, how old it is
+  const [offlineDataSavedAt, setOfflineDataSavedAt] = useState<number | null>(null);
   const hasShownToast = useRef(false);
   const hasShownAIToast = useRef(false);
   const { user } = useAuth();
+  const { isOnline } = useOnlineStatus();
   const navigate = useNavigate();
+  // Score and match trees for one plot instead of the whole farm
+  const { plots } = useFarmPlots();
+  const [plotId, setPlotId] = useState<string | null>(null);
+  const [plotPlantings, setPlotPlantings] = useState<PlotPlanting[]>([]);
+  const selectedPlot = plots.find((plot) => plot.id === plotId) ?? null;
+  const scoringProfile = useMemo(
+    () => (userProfile && selectedPlot ? plotProfile(userProfile, selectedPlot) : userProfile),
+    [userProfile, selectedPlot]
+  );
 
   // Minimum swipe distance (in px) to trigger swipe action
   const minSwipeDistance = 50;
@@ -72,18 +115,28 @@ export const SwipeInterface = ({ trees }: SwipeInterfaceProps) => {
     const fetchExistingMatches = async () => {
       if (!user) return;
 
+      let serverMatches: MatchedTree[] = [];
       try {
         const { data, error } = await supabase
           .from("tree_matches")
-          .select("tree_id")
+          .select("tree_id, plot_id")
           .eq("user_id", user.id);
 
         if (error) throw error;
 
-        const matchedIds = new Set(data?.map(m => m.tree_id) || []);
-        setMatchedTreeIds(matchedIds);
+        serverMatches = data?.map(m => ({ treeId: m.tree_id, plotId: m.plot_id })) || [];
+        cacheMatches(user.id, serverMatches);
       } catch (error) {
         logger.error("Error fetching matches:", error);
+        serverMatches = getCachedMatches<MatchedTree>(user.id)?.data ?? [];
+      }
+
+      // Likes made offline count as matches until they are sent
+      try {
+        setMatchKeys(matchKeysWithQueue(serverMatches, await listQueuedSwipes(user.id)));
+      } catch (error) {
+        logger.error("Error reading queued swipes:", error);
+        setMatchKeys(matchKeysWithQueue(serverMatches, []));
       }
     };
 
@@ -91,12 +144,40 @@ export const SwipeInterface = ({ trees }: SwipeInterfaceProps) => {
     fetchExistingMatches();
   }, [user]); // eslint-disable-line react-hooks/exhaustive-deps
 
+  // Plantings already on a plot, for the room left on it
+  useEffect(() => {
+    if (!user || plots.length === 0) return;
+    fetchPlotPlantings(user.id)
+      .then(setPlotPlantings)
+      .catch((error) => logger.error("Error loading plot plantings:", error));
+  }, [user, plots.length]);
+
+  const currentTreeCapacity = useMemo(() => {
+    if (!selectedPlot || !currentTree) return null;
+    const planted = plotPlantings
+      .filter((planting) => planting.plot_id === selectedPlot.id)
+      .map((planting) => spacingFor(trees.find((tree) => tree.dbId === planting.tree_id)));
+    return plotCapacity(selectedPlot.area_hectares, planted, spacingFor(currentTree));
+  }, [selectedPlot, currentTree, plotPlantings, trees]);
+
   // Generate AI recommendations when profile and weather data are available
   useEffect(() => {
     const generateAIRecommendations = async () => {
       if (!user || !userProfile || !weatherData) return;
 
       try {
+        try {
+          await aiRecommendationEngine.loadHistoricalStats({
+            county: userProfile.county,
+            agroZone: userProfile.agro_zone,
+            conservationGoals: userProfile.conservation_goals || []
+          });
+          setHistoryLoaded(true);
+        } catch (error) {
+          // Recommendations still work from the priors without shared history
+          logger.error('Error loading recommendation stats:', error);
+        }
+
         const recommendations = aiRecommendationEngine.generateRecommendations(
           user.id,
           trees,
@@ -139,12 +220,23 @@ export const SwipeInterface = ({ trees }: SwipeInterfaceProps) => {
   const fetchProfileAndWeather = async () => {
     if (!user) return;
 
-    const { data } = await supabase
+    const { data: fetched, error } = await supabase
       .from("profiles")
       .select("*")
       .eq("user_id", user.id)
       .single();
 
+    // Without a connection, fall back to the profile saved on this device
+    let data: UserProfile | null = fetched;
+    if (fetched) {
+      cacheProfile(user.id, fetched);
+      setOfflineDataSavedAt(null);
+    } else if (error) {
+      const cached = getCachedProfile<UserProfile>(user.id);
+      data = cached?.data ?? null;
+      setOfflineDataSavedAt(cached?.savedAt ?? null);
+    }
+
     setUserProfile(data);
 
     // Filter and sort trees based on user's location
@@ -194,7 +286,12 @@ export const SwipeInterface = ({ trees }: SwipeInterfaceProps) => {
       });
 
       if (weather) {
+        cacheWeather(user.id, weather);
         setWeatherData(weather);
+      } else {
+        // Last reading for the farm; rainfall estimates change slowly
+        const cached = getCachedWeather<WeatherData>(user.id);
+        if (cached) setWeatherData(cached.data);
       }
     }
   };
@@ -216,25 +313,30 @@ export const SwipeInterface = ({ trees }: SwipeInterfaceProps) => {
     }
   };
 
-  // Calculate compatibility when tree or profile changes
+  // Calculate compatibility when tree, profile or plot changes
   useEffect(() => {
-    if (currentTree && userProfile) {
-      // Use Kenya-specific compatibility calculation
-      const score = weatherData && userProfile.latitude && userProfile.longitude
-        ? calculateKenyanCompatibilityWithWeather(currentTree, userProfile, weatherData)
-        : calculateKenyanCompatibility(currentTree, userProfile);
+    if (currentTree && scoringProfile) {
+      // Use Kenya-specific compatibility calculation, with the shared
+      // survival and swipe history once it has loaded
+      const result = explainKenyanCompatibility(
+        currentTree,
+        scoringProfile,
+        weatherData || undefined,
+        historyLoaded ? aiRecommendationEngine.getTreeStats(currentTree.dbId) : undefined
+      );
 
-      setCompatibilityScore(score);
+      setCompatibilityScore(result.score);
+      setExplanation(result);
 
       // Calculate Kenya-specific seasonal recommendation
-      const seasonal = getKenyanSeasonalRecommendation(currentTree, userProfile, weatherData);
+      const seasonal = getKenyanSeasonalRecommendation(currentTree, scoringProfile, weatherData);
       setSeasonalData(seasonal);
 
       // Calculate Kenya-specific success probability
-      const success = calculateKenyanSuccessProbability(currentTree, userProfile, weatherData);
+      const success = calculateKenyanSuccessProbability(currentTree, scoringProfile, weatherData);
       setSuccessData(success);
     }
-  }, [currentTree, userProfile, weatherData]);
+  }, [currentTree, scoringProfile, weatherData, historyLoaded]);
 
   // Touch event handlers for mobile swipe
   const onTouchStart = (e: React.TouchEvent) => {
@@ -260,11 +362,26 @@ export const SwipeInterface = ({ trees }: SwipeInterfaceProps) => {
     }
   };
 
+  // Send the swipe, or keep it on this device while there is no connection
+  const saveSwipe = async (swipe: SwipeSubmission): Promise<SwipeOutcome | 'queued'> => {
+    if (isOnline) {
+      try {
+        return await submitSwipe(swipe);
+      } catch (error) {
+        if (!isConnectivityError(error)) throw error;
+      }
+    }
+
+    await queueSwipe(swipe);
+    requestSwipeSync().catch((error) => logger.error("Error requesting swipe sync:", error));
+    return 'queued';
+  };
+
   const handleSwipe = async (direction: 'left' | 'right') => {
     if (isAnimating || !user) return;
 
-    // Check if already matched
-    if (direction === 'right' && matchedTreeIds.has(currentTree.dbId)) {
+    // Check if already matched on this plot
+    if (direction === 'right' && matchKeys.has(matchKey(currentTree.dbId, selectedPlot?.id))) {
       toast.info(`Already matched with ${currentTree.englishName}!`, {
         description: "Check your matches page to see all your trees.",
       });
@@ -278,41 +395,33 @@ export const SwipeInterface = ({ trees }: SwipeInterfaceProps) => {
     setIsAnimating(true);
     setSwipeDirection(direction);
 
+    const swipe: SwipeSubmission = {
+      id: crypto.randomUUID(),
+      userId: user.id,
+      treeId: currentTree.dbId,
+      treeName: currentTree.englishName,
+      direction,
+      compatibilityScore,
+      county: scoringProfile?.county ?? '',
+      agroZone: scoringProfile?.agro_zone ?? '',
+      swipedAt: new Date().toISOString(),
+      plotId: selectedPlot?.id ?? null,
+    };
+
     if (direction === 'right') {
-      // Save match to database first
       try {
-        const { error } = await supabase
-          .from("tree_matches")
-          .insert({
-            user_id: user.id,
-            tree_id: currentTree.dbId,
-            tree_name: currentTree.englishName,
-            compatibility_score: compatibilityScore,
-          });
+        const outcome = await saveSwipe(swipe);
 
-        if (error) {
-          if (error.message.includes("duplicate")) {
-            toast.info(`Already matched with ${currentTree.englishName}!`);
-          } else {
-            throw error;
-          }
-        } else {
-          // Only update local state if database insert succeeds
-          setMatchedTreeIds(prev => new Set([...prev, currentTree.dbId]));
-
-          // Record user behavior for AI learning
-          aiRecommendationEngine.recordUserBehavior(
-            user.id,
-            currentTree.id,
-            'liked',
-            {
-              county: userProfile.county,
-              agroZone: userProfile.agro_zone
-            }
-          );
+        // Only update local state once the match is saved or queued
+        setMatchKeys(prev => new Set([...prev, matchKey(swipe.treeId, swipe.plotId)]));
 
+        if (outcome === 'already_matched') {
+          toast.info(`Already matched with ${currentTree.englishName}!`);
+        } else {
           toast.success(`🌳 Matched with ${currentTree.englishName}!`, {
-            description: `${compatibilityScore}% compatibility - Great choice!`,
+            description: outcome === 'queued'
+              ? `${compatibilityScore}% compatibility - saved on this phone, syncs when you're back online`
+              : `${compatibilityScore}% compatibility - Great choice!`,
           });
         }
       } catch (error) {
@@ -320,16 +429,8 @@ export const SwipeInterface = ({ trees }: SwipeInterfaceProps) => {
         toast.error("Failed to save match");
       }
     } else {
-      // Record user behavior for AI learning
-      aiRecommendationEngine.recordUserBehavior(
-        user.id,
-        currentTree.id,
-        'disliked',
-        {
-          county: userProfile.county,
-          agroZone: userProfile.agro_zone
-        }
-      );
+      // Passes only feed the recommendation engine, so don't hold up the deck
+      saveSwipe(swipe).catch((error) => logger.error("Error recording swipe:", error));
 
       toast.info(`Passed on ${currentTree.englishName}`, {
         description: "Keep swiping to find your perfect tree!",
@@ -361,7 +462,7 @@ export const SwipeInterface = ({ trees }: SwipeInterfaceProps) => {
             You've seen all available trees!
           </p>
           <p className="text-muted-foreground">
-            Check your matches page to see the {matchedTreeIds.size} tree{matchedTreeIds.size !== 1 ? 's' : ''} you've matched with.
+            Check your matches page to see the {matchKeys.size} tree{matchKeys.size !== 1 ? 's' : ''} you've matched with.
           </p>
         </div>
         <div className="flex gap-4">
@@ -380,22 +481,59 @@ export const SwipeInterface = ({ trees }: SwipeInterfaceProps) => {
 
   return (
     <div className="flex flex-col items-center space-y-6 animate-fade-in" role="region" aria-label="Tree matching interface">
+      {(!isOnline || offlineDataSavedAt) && (
+        <div className="flex items-start gap-2 w-full max-w-sm px-4 sm:px-3 py-2 rounded-md bg-muted text-xs sm:text-sm text-muted-foreground" role="status">
+          <WifiOff className="w-4 h-4 mt-0.5 shrink-0" aria-hidden="true" />
+          <span>
+            {offlineDataSavedAt
+              ? `Offline - using your profile saved ${new Date(offlineDataSavedAt).toLocaleDateString()}. `
+              : 'Offline. '}
+            Swipes are saved on this phone and sync when you're back online.
+          </span>
+        </div>
+      )}
+
       {/* Location Detection & View Matches */}
       <div className="flex gap-2 sm:gap-3 w-full max-w-sm px-4 sm:px-0">
         <Button
           variant="outline"
           onClick={() => navigate("/matches")}
           className="gap-2 flex-1 h-11 sm:h-10"
-          aria-label={`View your ${matchedTreeIds.size} tree matches`}
+          aria-label={`View your ${matchKeys.size} tree matches`}
         >
           <History className="w-4 h-4" aria-hidden="true" />
-          <span className="text-sm sm:text-base">Matches ({matchedTreeIds.size})</span>
+          <span className="text-sm sm:text-base">Matches ({matchKeys.size})</span>
         </Button>
       </div>
 
       {/* GPS Detection */}
       <LocationDetector onLocationDetected={handleLocationDetected} className="w-full max-w-sm px-4 sm:px-0" />
 
+      {plots.length > 0 && (
+        <div className="w-full max-w-sm px-4 sm:px-0 space-y-1">
+          <Select value={plotId ?? "farm"} onValueChange={(value) => setPlotId(value === "farm" ? null : value)}>
+            <SelectTrigger aria-label="Plot to score trees for">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="farm">Whole farm</SelectItem>
+              {plots.map((plot) => (
+                <SelectItem key={plot.id} value={plot.id}>
+                  {plot.name} ({formatHectares(plot.area_hectares)})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {currentTreeCapacity && (
+            <p className={`text-xs ${currentTreeCapacity.remaining === 0 ? "text-destructive" : "text-muted-foreground"}`}>
+              {currentTreeCapacity.remaining === 0
+                ? `No room left on ${selectedPlot?.name} for ${currentTree.englishName}`
+                : `Room for ${currentTreeCapacity.remaining} ${currentTree.englishName} on ${selectedPlot?.name} at ${spacingFor(currentTree)} m spacing`}
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Progress indicator */}
       <div className="w-full max-w-sm px-4 sm:px-0">
         <div className="flex justify-between text-xs sm:text-sm text-muted-foreground mb-2">
@@ -434,6 +572,7 @@ export const SwipeInterface = ({ trees }: SwipeInterfaceProps) => {
           <KenyanTreeCard
             {...currentTree}
             compatibilityScore={compatibilityScore}
+            explanation={explanation || undefined}
             seasonalData={seasonalData || undefined}
             successData={successData || undefined}
           />
@@ -467,7 +606,7 @@ export const SwipeInterface = ({ trees }: SwipeInterfaceProps) => {
 
         <div className="text-center min-w-[80px] sm:min-w-[100px]">
           <p className="text-xs sm:text-sm text-muted-foreground" aria-live="polite">
-            {matchedTreeIds.size} tree{matchedTreeIds.size !== 1 ? 's' : ''} matched
+            {matchKeys.size} tree{matchKeys.size !== 1 ? 's' : ''} matched
           </p>
         </div>
 
@@ -494,8 +633,12 @@ export const SwipeInterface = ({ trees }: SwipeInterfaceProps) => {
         open={showDetailDialog}
         onOpenChange={setShowDetailDialog}
         compatibilityScore={compatibilityScore}
+        explanation={explanation || undefined}
         seasonalData={seasonalData || undefined}
         successData={successData || undefined}
+        county={userProfile?.county}
+        agroZone={userProfile?.agro_zone}
+        forecast={weatherData?.forecast}
       />
     </div>
   );
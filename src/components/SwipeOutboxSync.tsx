@@ -0,0 +1,45 @@
+import { useCallback, useEffect } from 'react';
+import { toast } from 'sonner';
+import { useAuth } from '@/hooks/useAuth';
+import { useLanguage } from '@/hooks/useLanguage';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+import { logger } from '@/utils/logger';
+import { REPLAY_SWIPES_MESSAGE } from '@/utils/backgroundSync';
+import { describeSwipeReplay } from '@/utils/swipeOutbox';
+import { replayQueuedSwipes } from '@/utils/swipeSubmitService';
+
+/**
+ * Sends swipes made offline when the connection returns, either when the
+ * page sees it come back or when the service worker's background sync asks.
+ * Renders nothing.
+ */
+export const SwipeOutboxSync = () => {
+  const { user } = useAuth();
+  const { isOnline } = useOnlineStatus();
+  const { language } = useLanguage();
+
+  const replay = useCallback(async () => {
+    if (!user) return;
+    try {
+      const summary = describeSwipeReplay(await replayQueuedSwipes(user.id), language);
+      if (summary) toast.success(summary);
+    } catch (error) {
+      logger.error('Error sending queued swipes:', error);
+    }
+  }, [user, language]);
+
+  useEffect(() => {
+    if (isOnline) replay();
+  }, [isOnline, replay]);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === REPLAY_SWIPES_MESSAGE) replay();
+    };
+
+    navigator.serviceWorker?.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker?.removeEventListener('message', handleMessage);
+  }, [replay]);
+
+  return null;
+};
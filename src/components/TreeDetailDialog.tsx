@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -8,15 +8,24 @@ import { ShoppingCart, Phone, CheckCircle, MapPin, Leaf, TrendingUp, Calendar, D
 import { useLanguage } from '@/hooks/useLanguage';
 import { toast } from 'sonner';
 import type { KenyanTreeSpecies } from '@/data/kenya';
-import type { SeasonalRecommendation, SuccessProbability } from '@/utils/kenyaCompatibility';
+import type { CompatibilityExplanation, SeasonalRecommendation, SuccessProbability } from '@/utils/kenyaCompatibility';
+import type { DailyForecast } from '@/utils/plantingCalendar';
+import { useMpesaCheckout } from '@/hooks/useMpesaCheckout';
+import { normalizeMpesaPhone, orderTotal } from '@/utils/mpesaPayments';
+import { CompatibilityBreakdown } from './CompatibilityBreakdown';
+import { PlantingCalendarCard } from './PlantingCalendarCard';
 
 interface TreeDetailDialogProps {
   tree: KenyanTreeSpecies | null;
   open: boolean;
   onOpenChange: (open: boolean) => void;
   compatibilityScore?: number;
+  explanation?: CompatibilityExplanation;
   seasonalData?: SeasonalRecommendation;
   successData?: SuccessProbability;
+  county?: string | null;
+  agroZone?: string | null;
+  forecast?: DailyForecast[] | null;
 }
 
 export const TreeDetailDialog = ({
@@ -24,37 +33,57 @@ export const TreeDetailDialog = ({
   open,
   onOpenChange,
   compatibilityScore,
+  explanation,
   seasonalData,
   successData,
+  county,
+  agroZone,
+  forecast,
 }: TreeDetailDialogProps) => {
   const { language } = useLanguage();
   const [quantity, setQuantity] = useState(1);
   const [phoneNumber, setPhoneNumber] = useState('');
-  const [paymentSuccess, setPaymentSuccess] = useState(false);
+  const checkout = useMpesaCheckout();
+  const paymentSuccess = checkout.status === 'paid';
+
+  useEffect(() => {
+    if (checkout.status === 'paid' && checkout.order) {
+      toast.success(
+        language === 'en' ? 'Payment Successful!' : 'Malipo Yamefaulu!',
+        {
+          description: language === 'en'
+            ? `KSh ${checkout.order.amount.toLocaleString()} paid. You'll receive collection details via SMS.`
+            : `KSh ${checkout.order.amount.toLocaleString()} imelipwa. Utapokea maelezo ya ukusanyaji kupitia SMS.`,
+        }
+      );
+    } else if (checkout.status === 'failed' || checkout.status === 'cancelled') {
+      toast.error(
+        checkout.status === 'cancelled'
+          ? (language === 'en' ? 'You cancelled the M-Pesa prompt' : 'Umeghairi ujumbe wa M-Pesa')
+          : checkout.error || (language === 'en' ? 'Payment failed' : 'Malipo hayakufaulu')
+      );
+    } else if (checkout.status === 'timeout') {
+      toast.info(
+        language === 'en'
+          ? 'Still waiting for M-Pesa. Your order will update once the payment is confirmed.'
+          : 'Bado tunasubiri M-Pesa. Agizo lako litasasishwa malipo yakithibitishwa.'
+      );
+    }
+  }, [checkout.status, checkout.order, checkout.error, language]);
 
   if (!tree) return null;
 
   const displayName = language === 'sw' ? tree.swahiliName : tree.englishName;
   const displayDescription = tree.description[language as 'en' | 'sw'];
 
-  const simulateMpesaPayment = () => {
-    return new Promise((resolve) => {
-      setTimeout(() => {
-        resolve(true);
-      }, 2000);
-    });
-  };
-
   const handlePurchase = async () => {
-    if (!phoneNumber || phoneNumber.length < 10) {
+    if (!normalizeMpesaPhone(phoneNumber)) {
       toast.error(
         language === 'en' ? 'Please enter a valid M-Pesa number' : 'Tafadhali weka nambari sahihi ya M-Pesa'
       );
       return;
     }
 
-    const totalAmount = tree.price * quantity;
-
     toast.info(
       language === 'en' ? 'Processing Payment...' : 'Inashughulikia Malipo...',
       {
@@ -64,22 +93,11 @@ export const TreeDetailDialog = ({
       }
     );
 
-    await simulateMpesaPayment();
-
-    setPaymentSuccess(true);
-
-    toast.success(
-      language === 'en' ? 'Payment Successful!' : 'Malipo Yamefaulu!',
-      {
-        description: language === 'en'
-          ? `KSh ${totalAmount.toLocaleString()} paid. You'll receive collection details via SMS.`
-          : `KSh ${totalAmount.toLocaleString()} imelipwa. Utapokea maelezo ya ukusanyaji kupitia SMS.`,
-      }
-    );
+    await checkout.pay({ treeSlug: tree.id, quantity, phoneNumber });
   };
 
   const handleClose = () => {
-    setPaymentSuccess(false);
+    checkout.reset();
     setQuantity(1);
     setPhoneNumber('');
     onOpenChange(false);
@@ -107,7 +125,12 @@ export const TreeDetailDialog = ({
           <>
             <DialogHeader>
               <DialogTitle className="text-2xl">{displayName}</DialogTitle>
-              <DialogDescription className="italic">{tree.scientificName}</DialogDescription>
+              <DialogDescription className="italic">
+                {tree.scientificName}
+                {tree.kefriCode && (
+                  <span className="not-italic font-mono text-xs ml-2">KEFRI {tree.kefriCode}</span>
+                )}
+              </DialogDescription>
             </DialogHeader>
 
             <div className="space-y-6 py-4">
@@ -125,6 +148,11 @@ export const TreeDetailDialog = ({
                       {compatibilityScore}%
                     </span>
                   </div>
+                  {explanation && (
+                    <div className="mt-4 pt-4 border-t">
+                      <CompatibilityBreakdown explanation={explanation} />
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -223,6 +251,16 @@ export const TreeDetailDialog = ({
                 )}
               </div>
 
+              {/* Planting Calendar */}
+              {county && (
+                <PlantingCalendarCard
+                  county={county}
+                  agroZone={agroZone}
+                  forecast={forecast}
+                  treeName={displayName}
+                />
+              )}
+
               {/* Purchase Section - Coming Soon with Nursery Marketplace
               <div className="border-t pt-4 space-y-4">
                 <h3 className="font-semibold text-lg">
@@ -259,14 +297,21 @@ export const TreeDetailDialog = ({
                     <div className="flex justify-between items-center">
                       <span className="font-medium">{language === 'en' ? 'Total Amount:' : 'Jumla ya Kiasi:'}</span>
                       <span className="text-2xl font-bold text-primary">
-                        KSh {(tree.price * quantity).toLocaleString()}
+                        KSh {orderTotal(tree.price, quantity).toLocaleString()}
                       </span>
                     </div>
                   </div>
                   
-                  <Button onClick={handlePurchase} className="w-full" size="lg">
+                  <Button
+                    onClick={handlePurchase}
+                    className="w-full"
+                    size="lg"
+                    disabled={checkout.status === 'requesting' || checkout.status === 'pending'}
+                  >
                     <ShoppingCart className="w-4 h-4 mr-2" />
-                    {language === 'en' ? 'Pay with M-Pesa' : 'Lipa kwa M-Pesa'}
+                    {checkout.status === 'pending'
+                      ? (language === 'en' ? 'Waiting for M-Pesa PIN...' : 'Inasubiri PIN ya M-Pesa...')
+                      : (language === 'en' ? 'Pay with M-Pesa' : 'Lipa kwa M-Pesa')}
                   </Button>
                 </div>
               </div>
@@ -309,8 +354,16 @@ export const TreeDetailDialog = ({
                   <span className="text-sm text-muted-foreground">
                     {language === 'en' ? 'Total Paid:' : 'Jumla Iliyolipwa:'}
                   </span>
-                  <span className="font-medium">KSh {(tree.price * quantity).toLocaleString()}</span>
+                  <span className="font-medium">KSh {(checkout.order?.amount ?? orderTotal(tree.price, quantity)).toLocaleString()}</span>
                 </div>
+                {checkout.order?.mpesa_receipt_number && (
+                  <div className="flex justify-between">
+                    <span className="text-sm text-muted-foreground">
+                      {language === 'en' ? 'M-Pesa Receipt:' : 'Risiti ya M-Pesa:'}
+                    </span>
+                    <span className="font-medium font-mono">{checkout.order.mpesa_receipt_number}</span>
+                  </div>
+                )}
               </div>
 
               <p className="text-sm text-muted-foreground text-center">
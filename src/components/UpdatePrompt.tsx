@@ -0,0 +1,51 @@
+import { useRegisterSW } from 'virtual:pwa-register/react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { RefreshCw } from 'lucide-react';
+import { useLanguage } from '@/hooks/useLanguage';
+import { logger } from '@/utils/logger';
+
+// How often an open app checks for a new deploy
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Registers the service worker and offers a reload when a new version has
+ * been downloaded. The new version only takes over when the user accepts, so
+ * nobody loses a half-filled form to an update.
+ */
+export const UpdatePrompt = () => {
+  const { t } = useLanguage();
+  const {
+    needRefresh: [needRefresh, setNeedRefresh],
+    updateServiceWorker,
+  } = useRegisterSW({
+    onRegisteredSW: (_url, registration) => {
+      if (!registration) return;
+      setInterval(() => {
+        if (navigator.onLine) registration.update().catch(() => undefined);
+      }, UPDATE_CHECK_INTERVAL_MS);
+    },
+    onRegisterError: (error) => logger.error('Service worker registration failed:', error),
+  });
+
+  if (!needRefresh) return null;
+
+  return (
+    <div className="fixed top-4 left-4 right-4 z-50 max-w-md mx-auto">
+      <Alert className="shadow-lg animate-in slide-in-from-top-5">
+        <RefreshCw className="h-4 w-4" />
+        <AlertDescription className="flex items-center justify-between gap-3">
+          <span>{t('update.available')}</span>
+          <span className="flex gap-2 shrink-0">
+            <Button variant="ghost" size="sm" onClick={() => setNeedRefresh(false)}>
+              {t('update.later')}
+            </Button>
+            <Button size="sm" onClick={() => updateServiceWorker(true)}>
+              {t('update.reload')}
+            </Button>
+          </span>
+        </AlertDescription>
+      </Alert>
+    </div>
+  );
+};
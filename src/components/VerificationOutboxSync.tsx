@@ -0,0 +1,50 @@
+import { useCallback, useEffect } from 'react';
+import { toast } from 'sonner';
+import { useAuth } from '@/hooks/useAuth';
+import { useLanguage } from '@/hooks/useLanguage';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+import { logger } from '@/utils/logger';
+import { REPLAY_VERIFICATIONS_MESSAGE } from '@/utils/backgroundSync';
+import { replayQueuedVerifications } from '@/utils/verificationSubmitService';
+
+/**
+ * Sends verifications queued offline when the connection returns, either
+ * when the page sees it come back or when the service worker's background
+ * sync asks. Renders nothing.
+ */
+export const VerificationOutboxSync = () => {
+  const { user } = useAuth();
+  const { isOnline } = useOnlineStatus();
+  const { language } = useLanguage();
+
+  const replay = useCallback(async () => {
+    if (!user) return;
+    try {
+      const { sent } = await replayQueuedVerifications(user.id);
+      if (sent > 0) {
+        toast.success(
+          language === 'en'
+            ? `${sent} saved planting${sent !== 1 ? 's' : ''} sent for review`
+            : `Miche ${sent} iliyohifadhiwa imetumwa kwa ukaguzi`
+        );
+      }
+    } catch (error) {
+      logger.error('Error sending queued verifications:', error);
+    }
+  }, [user, language]);
+
+  useEffect(() => {
+    if (isOnline) replay();
+  }, [isOnline, replay]);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === REPLAY_VERIFICATIONS_MESSAGE) replay();
+    };
+
+    navigator.serviceWorker?.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker?.removeEventListener('message', handleMessage);
+  }, [replay]);
+
+  return null;
+};
@@ -1,5 +1,6 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useAuth } from "@/hooks/useAuth";
+import { useTreeSpecies } from "@/hooks/useTreeSpecies";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
@@ -9,10 +10,34 @@ import { Textarea } from "@/components/ui/textarea";
 import { Progress } from "@/components/ui/progress";
 import { toast } from "sonner";
 import { logger } from "@/utils/logger";
-import { Upload, MapPin, Calendar, X } from "lucide-react";
-import { extractGPSData, compressImage, validateImage } from "@/utils/imageUtils";
+import { Upload, MapPin, Calendar, X, AlertTriangle } from "lucide-react";
+import { extractPhotoMetadata, compressImage, validateImage, type PhotoMetadata } from "@/utils/imageUtils";
+import { computePerceptualHash } from "@/utils/perceptualHash";
 import { reverseGeocode } from "@/utils/kenyaLocation";
-import { verificationSchema, validateInput, sanitizeString, latitudeSchema, longitudeSchema } from "@/utils/validation";
+import { useOnlineStatus } from "@/hooks/useOnlineStatus";
+import { useFarmPlots } from "@/hooks/useFarmPlots";
+import { plotAt } from "@/utils/farmPlots";
+import {
+  isConnectivityError,
+  queueVerification,
+  requestVerificationSync,
+  type VerificationSubmission,
+} from "@/utils/verificationOutbox";
+import { submitVerification } from "@/utils/verificationSubmitService";
+import {
+  verificationSchema,
+  validateInput,
+  sanitizeString,
+  latitudeSchema,
+  longitudeSchema,
+  locationJustificationSchema,
+} from "@/utils/validation";
+import {
+  checkPlantingLocation,
+  describeLocationIssues,
+  isBlockingLocation,
+  needsJustification,
+} from "@/utils/plantingGeofence";
 
 interface UserProfile {
   latitude?: number;
@@ -49,6 +74,16 @@ export const VerificationUpload = ({
   const [plantingDate, setPlantingDate] = useState(new Date().toISOString().split('T')[0]);
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const [treeNameInput, setTreeNameInput] = useState(treeName || "");
+  // Catalog names, so the claimed tree can be compared with what is in the photo
+  const { species } = useTreeSpecies();
+  // Read from the original file for the server's duplicate and EXIF checks
+  const [photoMetadata, setPhotoMetadata] = useState<PhotoMetadata>({});
+  const [imageHash, setImageHash] = useState<string | null>(null);
+  const [locationJustification, setLocationJustification] = useState("");
+  // Idempotency key: however often this submission is retried, it is created once
+  const [submissionId] = useState(() => crypto.randomUUID());
+  const { isOnline } = useOnlineStatus();
+  const { plots } = useFarmPlots();
 
   // Load user profile on mount
   useEffect(() => {
@@ -71,6 +106,20 @@ export const VerificationUpload = ({
     loadProfile();
   }, [user]);
 
+  // Geofence result for whichever coordinates will be submitted
+  const locationCheck = useMemo(() => {
+    const latitude = manualLocation ? parseFloat(manualLat) : gpsData.latitude;
+    const longitude = manualLocation ? parseFloat(manualLng) : gpsData.longitude;
+    if (latitude == null || longitude == null || isNaN(latitude) || isNaN(longitude)) return null;
+    return checkPlantingLocation({ latitude, longitude }, userProfile);
+  }, [manualLocation, manualLat, manualLng, gpsData, userProfile]);
+
+  // The plot the GPS fix falls in, shown so the farmer can check it
+  const gpsPlot = useMemo(
+    () => (gpsData.latitude && gpsData.longitude ? plotAt(plots, gpsData.latitude, gpsData.longitude) : null),
+    [gpsData, plots]
+  );
+
   const handleImageSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -90,12 +139,17 @@ export const VerificationUpload = ({
       setSelectedImage(file);
       setProgress(30);
 
-      // Extract GPS data from photo
-      const metadata = await extractGPSData(file);
+      // Extract EXIF data and fingerprint the photo before it is compressed
+      const [metadata, hash] = await Promise.all([
+        extractPhotoMetadata(file),
+        computePerceptualHash(file),
+      ]);
+      setPhotoMetadata(metadata);
+      setImageHash(hash);
       setProgress(50);
 
       if (metadata.latitude && metadata.longitude) {
-        setGpsData(metadata);
+        setGpsData({ latitude: metadata.latitude, longitude: metadata.longitude });
         // Reverse geocode to get location name
         const location = await reverseGeocode(metadata.latitude, metadata.longitude);
         const locationStr = [location.constituency, location.county].filter(Boolean).join(", ");
@@ -184,6 +238,24 @@ export const VerificationUpload = ({
       return;
     }
 
+    const geofence = checkPlantingLocation({ latitude: finalLat, longitude: finalLng }, userProfile);
+    if (isBlockingLocation(geofence)) {
+      toast.error(describeLocationIssues(geofence)[0], {
+        description: "Check the coordinates, or take the photo at the planting site",
+      });
+      return;
+    }
+
+    let justification: string | null = null;
+    if (needsJustification(geofence)) {
+      const result = locationJustificationSchema.safeParse(locationJustification);
+      if (!result.success) {
+        toast.error(result.error.errors[0].message);
+        return;
+      }
+      justification = sanitizeString(result.data);
+    }
+
     if (!treeNameInput || treeNameInput.trim() === "") {
       toast.error("Please enter the tree species name.");
       return;
@@ -207,62 +279,56 @@ export const VerificationUpload = ({
     setUploading(true);
     setProgress(0);
 
+    let submission: VerificationSubmission | null = null;
     try {
       // Compress image
       setProgress(20);
       const compressedImage = await compressImage(selectedImage);
 
-      // Upload to storage
-      setProgress(40);
-      const fileName = `${user.id}/${Date.now()}-${selectedImage.name}`;
-      const { error: uploadError, data } = await supabase.storage
-        .from("planting-verifications")
-        .upload(fileName, compressedImage);
-
-      if (uploadError) throw uploadError;
-
-      // Get public URL
-      setProgress(60);
-      const { data: urlData } = supabase.storage
-        .from("planting-verifications")
-        .getPublicUrl(fileName);
-
-      // Get user profile for county/constituency
-      const { data: profile } = await supabase
-        .from("profiles")
-        .select("county, constituency, phone")
-        .eq("user_id", user.id)
-        .maybeSingle();
-
-      // Create verification record (with sanitized data)
-      setProgress(80);
-      const { error: insertError } = await supabase
-        .from("planting_verifications")
-        .insert({
-          user_id: user.id,
-          tree_match_id: matchId || null,
-          tree_name: sanitizeString(treeNameInput.trim()),
-          image_url: urlData.publicUrl,
-          latitude: finalLat,
-          longitude: finalLng,
-          county: profile?.county ? sanitizeString(profile.county) : null,
-          constituency: profile?.constituency ? sanitizeString(profile.constituency) : null,
-          phone: profile?.phone || null,
-          planting_date: plantingDate || new Date().toISOString().split('T')[0],
-          notes: notes ? sanitizeString(notes) : null,
+      // Sanitized once here, whether it is sent now or queued
+      submission = {
+        id: submissionId,
+        userId: user.id,
+        matchId: matchId || null,
+        treeName: sanitizeString(treeNameInput.trim()),
+        latitude: finalLat,
+        longitude: finalLng,
+        plantingDate: plantingDate || new Date().toISOString().split('T')[0],
+        notes: notes ? sanitizeString(notes) : null,
+        image: compressedImage,
+        imageHash,
+        photoMetadata,
+        locationChecks: geofence,
+        locationJustification: justification,
+        // Without a plot here, the planting takes the plot of its match
+        plotId: plotAt(plots, finalLat, finalLng)?.id ?? null,
+      };
+
+      if (isOnline) {
+        await submitVerification(submission, setProgress);
+        setProgress(100);
+        toast.success("🌳 Verification submitted successfully!", {
+          description: "Awaiting review by county moderator"
         });
-
-      if (insertError) throw insertError;
-
-      setProgress(100);
-      toast.success("🌳 Verification submitted successfully!", {
-        description: "Awaiting review by county moderator"
-      });
+      } else {
+        await saveForLater(submission);
+      }
 
       // Cleanup
       URL.revokeObjectURL(preview);
       if (onSuccess) onSuccess();
     } catch (error) {
+      // Lost the connection on the way: keep it and send it later
+      if (submission && isConnectivityError(error)) {
+        try {
+          await saveForLater(submission);
+          URL.revokeObjectURL(preview);
+          if (onSuccess) onSuccess();
+          return;
+        } catch (queueError) {
+          logger.error("Error queueing verification:", queueError);
+        }
+      }
       logger.error("Upload error:", error);
       toast.error(error.message || "Failed to upload verification");
     } finally {
@@ -271,11 +337,21 @@ export const VerificationUpload = ({
     }
   };
 
+  const saveForLater = async (submission: VerificationSubmission) => {
+    await queueVerification(submission);
+    requestVerificationSync().catch((error) => logger.error("Error registering background sync:", error));
+    toast.success("📴 Saved on this phone", {
+      description: "It will be sent for review when you are back online"
+    });
+  };
+
   const clearImage = () => {
     if (preview) URL.revokeObjectURL(preview);
     setSelectedImage(null);
     setPreview("");
     setGpsData({});
+    setPhotoMetadata({});
+    setImageHash(null);
     setProgress(0);
   };
 
@@ -342,8 +418,14 @@ export const VerificationUpload = ({
               value={treeNameInput}
               onChange={(e) => setTreeNameInput(e.target.value)}
               disabled={uploading || !!treeName}
+              list="tree-name-options"
               required
             />
+            <datalist id="tree-name-options">
+              {species.map((tree) => (
+                <option key={tree.id} value={tree.englishName}>{tree.swahiliName}</option>
+              ))}
+            </datalist>
             {treeName && (
               <p className="text-xs text-muted-foreground">
                 Pre-filled from your tree match
@@ -380,6 +462,11 @@ export const VerificationUpload = ({
                 <p className="text-xs text-green-600 dark:text-green-400 mt-1 ml-6">
                   {gpsData.latitude.toFixed(6)}, {gpsData.longitude.toFixed(6)}
                 </p>
+                {gpsPlot && (
+                  <p className="text-xs text-green-600 dark:text-green-400 mt-1 ml-6">
+                    On plot: {gpsPlot.name}
+                  </p>
+                )}
                 <Button
                   type="button"
                   variant="link"
@@ -452,6 +539,43 @@ export const VerificationUpload = ({
             )}
           </div>
 
+          {locationCheck && locationCheck.issues.length > 0 && (
+            <div
+              className={`p-3 rounded-lg border space-y-2 ${
+                isBlockingLocation(locationCheck)
+                  ? "bg-red-50 dark:bg-red-950 border-red-200 dark:border-red-800"
+                  : "bg-amber-50 dark:bg-amber-950 border-amber-200 dark:border-amber-800"
+              }`}
+              role="alert"
+            >
+              {describeLocationIssues(locationCheck).map((issue) => (
+                <p key={issue} className="flex items-center gap-2 text-sm font-medium">
+                  <AlertTriangle className="w-4 h-4 shrink-0" />
+                  {issue}
+                </p>
+              ))}
+              {isBlockingLocation(locationCheck) ? (
+                <p className="text-xs text-muted-foreground">
+                  Plantings must be on land in Kenya. Check the coordinates, or take the photo at the planting site.
+                </p>
+              ) : (
+                <div className="space-y-1">
+                  <Label htmlFor="location-justification" className="text-xs">
+                    Why is the tree planted here? *
+                  </Label>
+                  <Textarea
+                    id="location-justification"
+                    placeholder="e.g. Community forest association restoration plot, or my second farm in Nakuru"
+                    value={locationJustification}
+                    onChange={(e) => setLocationJustification(e.target.value)}
+                    disabled={uploading}
+                    rows={2}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="planting-date">Planting Date</Label>
             <div className="flex items-center gap-2">
@@ -505,9 +629,14 @@ export const VerificationUpload = ({
               disabled={uploading}
               className="flex-1"
             >
-              {uploading ? "Uploading..." : "Submit Verification"}
+              {uploading ? "Uploading..." : isOnline ? "Submit Verification" : "Save & Send Later"}
             </Button>
           </div>
+          {!isOnline && (
+            <p className="text-xs text-muted-foreground text-center">
+              You are offline. The photo and details are kept on this phone and sent when you reconnect.
+            </p>
+          )}
         </div>
       )}
     </Card>
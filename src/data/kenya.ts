@@ -38,24 +38,51 @@ export const AGRO_ECOLOGICAL_ZONES = [
   'UH1', 'UH2', 'UH3', 'UH4', 'UH5', 'UH6' // Upper Highland
 ] as const;
 
+// Approximate elevation (m) of each county headquarters. Only a last-resort
+// estimate for the agro-zone classifier when neither GPS altitude nor the
+// DEM tiles are available - many counties span well over 1000 m.
+export const COUNTY_REFERENCE_ALTITUDES: Record<string, number> = {
+  'Baringo': 2000, 'Bomet': 1950, 'Bungoma': 1385, 'Busia': 1200,
+  'Elgeyo-Marakwet': 2350, 'Embu': 1350, 'Garissa': 150, 'Homa Bay': 1150,
+  'Isiolo': 1100, 'Kajiado': 1750, 'Kakamega': 1535, 'Kericho': 2000,
+  'Kiambu': 1720, 'Kilifi': 20, 'Kirinyaga': 1530, 'Kisii': 1700,
+  'Kisumu': 1130, 'Kitui': 1150, 'Kwale': 400, 'Laikipia': 1950,
+  'Lamu': 10, 'Machakos': 1600, 'Makueni': 1150, 'Mandera': 230,
+  'Marsabit': 1350, 'Meru': 1550, 'Migori': 1400, 'Mombasa': 50,
+  'Murang\'a': 1250, 'Nairobi': 1700, 'Nakuru': 1850, 'Nandi': 2000,
+  'Narok': 1900, 'Nyamira': 1850, 'Nyandarua': 2370, 'Nyeri': 1760,
+  'Samburu': 1950, 'Siaya': 1250, 'Taita-Taveta': 900, 'Tana River': 100,
+  'Tharaka-Nithi': 1000, 'Trans-Nzoia': 1900, 'Turkana': 500, 'Uasin Gishu': 2100,
+  'Vihiga': 1550, 'Wajir': 250, 'West Pokot': 2100
+};
+
+export const TREE_USES = ['fruit', 'timber', 'fodder', 'medicine', 'shade', 'conservation'] as const;
+
+export type TreeUse = typeof TREE_USES[number];
+
 export interface KenyanTreeSpecies {
-  id: string;
-  dbId: number; // For database compatibility
+  id: string; // tree_species.slug
+  dbId: number; // tree_species.id (referenced by tree_matches.tree_id)
   englishName: string;
   swahiliName: string;
   scientificName: string;
+  // Local and alternative names, e.g. 'Embe' or 'Pawpaw'
+  aliases?: string[];
   image: string;
   suitableCounties: string[];
   agroZones: string[];
   price: number; // KSH
   kefriCode?: string;
-  uses: ('fruit' | 'timber' | 'fodder' | 'medicine' | 'shade' | 'conservation')[];
+  uses: TreeUse[];
   description: {
     en: string;
     sw: string;
   };
+  isActive?: boolean;
 }
 
+// Offline seed for the tree_species registry. The live catalog is loaded
+// through useTreeSpecies; this array is only used when the registry is unreachable.
 export const KENYAN_TREES: KenyanTreeSpecies[] = [
   {
     id: 'mango',
@@ -9,7 +9,8 @@ export const useAdminAuth = () => {
   const { user } = useAuth();
   const [role, setRole] = useState<UserRole>('user');
   const [loading, setLoading] = useState(true);
-  const [county, setCounty] = useState<string | null>(null);
+  // Counties a moderator reviews; admins are not limited to any
+  const [counties, setCounties] = useState<string[]>([]);
 
   useEffect(() => {
     const fetchUserRole = async () => {
@@ -20,11 +21,23 @@ export const useAdminAuth = () => {
       }
 
       try {
-        const { data, error } = await supabase
-          .from('user_roles')
-          .select('role, county')
-          .eq('user_id', user.id)
-          .maybeSingle(); // Use maybeSingle() instead of single() to handle 0 rows
+        const [{ data, error }, { data: countyRows, error: countiesError }] = await Promise.all([
+          supabase
+            .from('user_roles')
+            .select('role')
+            .eq('user_id', user.id)
+            .maybeSingle(), // Use maybeSingle() instead of single() to handle 0 rows
+          supabase
+            .from('moderator_counties')
+            .select('county')
+            .eq('user_id', user.id)
+            .order('county'),
+        ]);
+
+        if (countiesError) {
+          logger.error('Error fetching moderator counties:', countiesError);
+        }
+        setCounties((countyRows ?? []).map((row) => row.county));
 
         // No error if there's no row - user just has no role
         if (error) {
@@ -32,7 +45,6 @@ export const useAdminAuth = () => {
           setRole('user');
         } else if (data) {
           setRole(data.role as UserRole);
-          setCounty(data.county);
         } else {
           // No role assigned - default to user
           setRole('user');
@@ -55,7 +67,7 @@ export const useAdminAuth = () => {
   return {
     role,
     loading,
-    county,
+    counties,
     isAdmin,
     isModerator,
     canModerate
@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from './useAuth';
+import { logger } from '@/utils/logger';
+import type { FarmPlot, LatLng } from '@/utils/farmPlots';
+import { cachePlots, getCachedPlots } from '@/utils/offlineSnapshot';
+import { createPlot, deletePlot, fetchPlots } from '@/utils/plotsService';
+
+/**
+ * Hook to load the signed-in user's farm plots, from the copy saved on the
+ * device when there is no connection
+ */
+export function useFarmPlots() {
+  const { user } = useAuth();
+  const [plots, setPlots] = useState<FarmPlot[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!user) {
+      setPlots([]);
+      setLoading(false);
+      return;
+    }
+    try {
+      const fetched = await fetchPlots(user.id);
+      cachePlots(user.id, fetched);
+      setPlots(fetched);
+    } catch (error) {
+      logger.error('Error loading plots:', error);
+      setPlots(getCachedPlots<FarmPlot>(user.id)?.data ?? []);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const create = useCallback(
+    async (name: string, points: LatLng[]) => {
+      if (!user) throw new Error('Sign in to save plots');
+      const plot = await createPlot(user.id, name, points);
+      setPlots((prev) => {
+        const next = [...prev, plot];
+        cachePlots(user.id, next);
+        return next;
+      });
+      return plot;
+    },
+    [user]
+  );
+
+  const remove = useCallback(
+    async (plotId: string) => {
+      await deletePlot(plotId);
+      setPlots((prev) => {
+        const next = prev.filter((plot) => plot.id !== plotId);
+        if (user) cachePlots(user.id, next);
+        return next;
+      });
+    },
+    [user]
+  );
+
+  return { plots, loading, refresh, create, remove };
+}
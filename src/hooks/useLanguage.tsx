@@ -79,6 +79,11 @@ const translations = {
     // Offline
     'offline.back_online': 'Back online - syncing data...',
     'offline.offline_mode': 'You are offline. Some features may be limited.',
+
+    // App updates
+    'update.available': 'A new version of LeafSwipe is ready.',
+    'update.reload': 'Reload',
+    'update.later': 'Later',
   },
   sw: {
     // Navigation
@@ -148,6 +153,11 @@ const translations = {
     // Offline
     'offline.back_online': 'Umerudi mtandaoni - inasawazisha data...',
     'offline.offline_mode': 'Uko nje ya mtandao. Baadhi ya vipengele vinaweza kuwa na kikomo.',
+
+    // App updates
+    'update.available': 'Toleo jipya la LeafSwipe liko tayari.',
+    'update.reload': 'Pakia upya',
+    'update.later': 'Baadaye',
   }
 };
 
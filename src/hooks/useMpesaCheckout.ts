@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  startMpesaPayment,
+  watchOrder,
+  type OrderStatus,
+  type SeedlingOrder,
+} from '@/utils/mpesaPayments';
+
+// How long the dialog waits for the farmer to answer the M-Pesa prompt
+const PAYMENT_TIMEOUT_MS = 2 * 60 * 1000;
+
+export type CheckoutStatus = 'idle' | 'requesting' | OrderStatus | 'timeout';
+
+/**
+ * Hook driving a purchase dialog through an M-Pesa STK push and its result
+ */
+export function useMpesaCheckout() {
+  const [status, setStatus] = useState<CheckoutStatus>('idle');
+  const [order, setOrder] = useState<SeedlingOrder | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const stopWatching = useRef<(() => void) | null>(null);
+  const timeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const stop = useCallback(() => {
+    stopWatching.current?.();
+    stopWatching.current = null;
+    if (timeout.current) clearTimeout(timeout.current);
+    timeout.current = null;
+  }, []);
+
+  useEffect(() => stop, [stop]);
+
+  const pay = useCallback(
+    async (params: { treeSlug: string; quantity: number; phoneNumber: string }) => {
+      stop();
+      setStatus('requesting');
+      setOrder(null);
+      setError(null);
+
+      const result = await startMpesaPayment(params);
+      if (!result.orderId || result.status !== 'pending') {
+        setStatus(result.status);
+        setError(result.error ?? null);
+        return;
+      }
+
+      setStatus('pending');
+      stopWatching.current = watchOrder(result.orderId, (updated) => {
+        setOrder(updated);
+        setStatus(updated.status);
+        setError(updated.status === 'paid' ? null : updated.result_desc);
+        if (updated.status !== 'pending') stop();
+      });
+      timeout.current = setTimeout(() => {
+        stop();
+        setStatus('timeout');
+      }, PAYMENT_TIMEOUT_MS);
+    },
+    [stop]
+  );
+
+  const reset = useCallback(() => {
+    stop();
+    setStatus('idle');
+    setOrder(null);
+    setError(null);
+  }, [stop]);
+
+  return { status, order, error, pay, reset };
+}
@@ -0,0 +1,55 @@
+import { useCallback, useRef, useState } from 'react';
+import type { BoundingBox, OfflineRegion } from '@/utils/offlineTiles';
+import {
+  deleteRegion,
+  downloadRegion,
+  isOfflineMapSupported,
+  listOfflineRegions,
+  offlineTileUsage,
+} from '@/utils/offlineTilesService';
+
+/**
+ * Hook to list the map areas saved on this device and download new ones
+ */
+export function useOfflineMapRegions() {
+  const [regions, setRegions] = useState<OfflineRegion[]>(listOfflineRegions);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const download = useCallback(async (name: string, bbox: BoundingBox) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ done: 0, total: 0 });
+    try {
+      const region = await downloadRegion(
+        name,
+        bbox,
+        (done, total) => setProgress({ done, total }),
+        controller.signal
+      );
+      setRegions(listOfflineRegions());
+      return region;
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  }, []);
+
+  const cancel = useCallback(() => abortRef.current?.abort(), []);
+
+  const remove = useCallback(async (id: string) => {
+    await deleteRegion(id);
+    setRegions(listOfflineRegions());
+  }, []);
+
+  return {
+    regions,
+    usedBytes: offlineTileUsage(regions),
+    progress,
+    downloading: progress !== null,
+    supported: isOfflineMapSupported(),
+    download,
+    cancel,
+    remove,
+  };
+}
@@ -0,0 +1,32 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { KenyanTreeSpecies } from '@/data/kenya';
+import { fetchTreeSpecies, type TreeSpeciesSource } from '@/utils/treeSpeciesService';
+
+/**
+ * Hook to load the species catalog from the tree_species registry
+ */
+export function useTreeSpecies(options: { includeInactive?: boolean } = {}) {
+  const { includeInactive = false } = options;
+  const [species, setSpecies] = useState<KenyanTreeSpecies[]>([]);
+  const [source, setSource] = useState<TreeSpeciesSource>('seed');
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    const result = await fetchTreeSpecies({ includeInactive });
+    setSpecies(result.species);
+    setSource(result.source);
+    setLoading(false);
+  }, [includeInactive]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const getSpeciesById = useCallback(
+    (dbId: number) => species.find((tree) => tree.dbId === dbId),
+    [species]
+  );
+
+  return { species, source, loading, refresh, getSpeciesById };
+}
@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from './useAuth';
+import { logger } from '@/utils/logger';
+import {
+  listQueuedVerifications,
+  OUTBOX_CHANGED_EVENT,
+  removeQueuedVerification,
+  type QueuedVerification,
+} from '@/utils/verificationOutbox';
+import { replayQueuedVerifications } from '@/utils/verificationSubmitService';
+
+/**
+ * Hook to list the signed-in user's verification submissions that are
+ * waiting on the device for a connection
+ */
+export function useVerificationOutbox() {
+  const { user } = useAuth();
+  const [queued, setQueued] = useState<QueuedVerification[]>([]);
+  const [sending, setSending] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!user) {
+      setQueued([]);
+      return;
+    }
+    try {
+      setQueued(await listQueuedVerifications(user.id));
+    } catch (error) {
+      logger.error('Error reading queued verifications:', error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refresh();
+    window.addEventListener(OUTBOX_CHANGED_EVENT, refresh);
+    return () => window.removeEventListener(OUTBOX_CHANGED_EVENT, refresh);
+  }, [refresh]);
+
+  const sendNow = useCallback(async () => {
+    if (!user) return { sent: 0, failed: 0 };
+    setSending(true);
+    try {
+      return await replayQueuedVerifications(user.id);
+    } finally {
+      setSending(false);
+    }
+  }, [user]);
+
+  const discard = useCallback((id: string) => removeQueuedVerification(id), []);
+
+  return { queued, sending, refresh, sendNow, discard };
+}
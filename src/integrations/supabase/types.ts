@@ -14,24 +14,221 @@ export type Database = {
   }
   public: {
     Tables: {
+      audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          after: Json | null
+          before: Json | null
+          created_at: string
+          id: number
+          reason: string | null
+          target_id: string
+          target_table: string
+          target_user_id: string | null
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          after?: Json | null
+          before?: Json | null
+          created_at?: string
+          id?: number
+          reason?: string | null
+          target_id: string
+          target_table: string
+          target_user_id?: string | null
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          after?: Json | null
+          before?: Json | null
+          created_at?: string
+          id?: number
+          reason?: string | null
+          target_id?: string
+          target_table?: string
+          target_user_id?: string | null
+        }
+        Relationships: []
+      }
+      moderator_counties: {
+        Row: {
+          county: string
+          created_at: string
+          created_by: string | null
+          user_id: string
+        }
+        Insert: {
+          county: string
+          created_at?: string
+          created_by?: string | null
+          user_id: string
+        }
+        Update: {
+          county?: string
+          created_at?: string
+          created_by?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      orders: {
+        Row: {
+          amount: number
+          checkout_request_id: string | null
+          created_at: string | null
+          id: string
+          merchant_request_id: string | null
+          mpesa_receipt_number: string | null
+          paid_at: string | null
+          phone_number: string
+          quantity: number
+          result_code: number | null
+          result_desc: string | null
+          status: string
+          tree_id: number
+          unit_price: number
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          checkout_request_id?: string | null
+          created_at?: string | null
+          id?: string
+          merchant_request_id?: string | null
+          mpesa_receipt_number?: string | null
+          paid_at?: string | null
+          phone_number: string
+          quantity: number
+          result_code?: number | null
+          result_desc?: string | null
+          status?: string
+          tree_id: number
+          unit_price: number
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          checkout_request_id?: string | null
+          created_at?: string | null
+          id?: string
+          merchant_request_id?: string | null
+          mpesa_receipt_number?: string | null
+          paid_at?: string | null
+          phone_number?: string
+          quantity?: number
+          result_code?: number | null
+          result_desc?: string | null
+          status?: string
+          tree_id?: number
+          unit_price?: number
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "orders_tree_id_fkey"
+            columns: ["tree_id"]
+            isOneToOne: false
+            referencedRelation: "tree_species"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      planting_outcomes: {
+        Row: {
+          agro_zone: string | null
+          county: string | null
+          id: string
+          observed_at: string | null
+          planted_at: string | null
+          recorded_by: string | null
+          survived: boolean
+          tree_id: number
+          user_id: string
+          verification_id: string | null
+        }
+        Insert: {
+          agro_zone?: string | null
+          county?: string | null
+          id?: string
+          observed_at?: string | null
+          planted_at?: string | null
+          recorded_by?: string | null
+          survived: boolean
+          tree_id: number
+          user_id: string
+          verification_id?: string | null
+        }
+        Update: {
+          agro_zone?: string | null
+          county?: string | null
+          id?: string
+          observed_at?: string | null
+          planted_at?: string | null
+          recorded_by?: string | null
+          survived?: boolean
+          tree_id?: number
+          user_id?: string
+          verification_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "planting_outcomes_tree_id_fkey"
+            columns: ["tree_id"]
+            isOneToOne: false
+            referencedRelation: "tree_species"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "planting_outcomes_verification_id_fkey"
+            columns: ["verification_id"]
+            isOneToOne: false
+            referencedRelation: "planting_verifications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       planting_verifications: {
         Row: {
           constituency: string | null
           county: string | null
           created_at: string | null
+          escalated_at: string | null
+          escalated_by: string | null
+          escalation_note: string | null
+          first_reviewed_at: string | null
+          first_reviewed_by: string | null
           id: string
+          idempotency_key: string | null
+          image_hash: string | null
+          image_hash_bands: string[] | null
           image_url: string
           latitude: number | null
+          location_checks: Json | null
+          location_justification: string | null
           longitude: number | null
           mpesa_transaction_id: string | null
           notes: string | null
           phone: string | null
+          photo_metadata: Json | null
           planting_date: string | null
+          plot_id: string | null
           rejection_reason: string | null
           reward_amount: number | null
+          reward_breakdown: Json | null
+          reward_campaign_id: string | null
           reward_paid: boolean | null
           reward_paid_at: string | null
+          risk_flags: Json
+          risk_score: number
           status: Database["public"]["Enums"]["verification_status"] | null
+          survival_checked_at: string | null
+          survival_status: string
           tree_match_id: string | null
           tree_name: string
           updated_at: string | null
@@ -43,19 +240,37 @@ export type Database = {
           constituency?: string | null
           county?: string | null
           created_at?: string | null
+          escalated_at?: string | null
+          escalated_by?: string | null
+          escalation_note?: string | null
+          first_reviewed_at?: string | null
+          first_reviewed_by?: string | null
           id?: string
+          idempotency_key?: string | null
+          image_hash?: string | null
+          image_hash_bands?: never
           image_url: string
           latitude?: number | null
+          location_checks?: Json | null
+          location_justification?: string | null
           longitude?: number | null
           mpesa_transaction_id?: string | null
           notes?: string | null
           phone?: string | null
+          photo_metadata?: Json | null
           planting_date?: string | null
+          plot_id?: string | null
           rejection_reason?: string | null
           reward_amount?: number | null
+          reward_breakdown?: Json | null
+          reward_campaign_id?: string | null
           reward_paid?: boolean | null
           reward_paid_at?: string | null
+          risk_flags?: Json
+          risk_score?: number
           status?: Database["public"]["Enums"]["verification_status"] | null
+          survival_checked_at?: string | null
+          survival_status?: string
           tree_match_id?: string | null
           tree_name: string
           updated_at?: string | null
@@ -67,19 +282,37 @@ export type Database = {
           constituency?: string | null
           county?: string | null
           created_at?: string | null
+          escalated_at?: string | null
+          escalated_by?: string | null
+          escalation_note?: string | null
+          first_reviewed_at?: string | null
+          first_reviewed_by?: string | null
           id?: string
+          idempotency_key?: string | null
+          image_hash?: string | null
+          image_hash_bands?: never
           image_url?: string
           latitude?: number | null
+          location_checks?: Json | null
+          location_justification?: string | null
           longitude?: number | null
           mpesa_transaction_id?: string | null
           notes?: string | null
           phone?: string | null
+          photo_metadata?: Json | null
           planting_date?: string | null
+          plot_id?: string | null
           rejection_reason?: string | null
           reward_amount?: number | null
+          reward_breakdown?: Json | null
+          reward_campaign_id?: string | null
           reward_paid?: boolean | null
           reward_paid_at?: string | null
+          risk_flags?: Json
+          risk_score?: number
           status?: Database["public"]["Enums"]["verification_status"] | null
+          survival_checked_at?: string | null
+          survival_status?: string
           tree_match_id?: string | null
           tree_name?: string
           updated_at?: string | null
@@ -88,6 +321,20 @@ export type Database = {
           verified_by?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "planting_verifications_plot_id_fkey"
+            columns: ["plot_id", "user_id"]
+            isOneToOne: false
+            referencedRelation: "plots"
+            referencedColumns: ["id", "user_id"]
+          },
+          {
+            foreignKeyName: "planting_verifications_reward_campaign_id_fkey"
+            columns: ["reward_campaign_id"]
+            isOneToOne: false
+            referencedRelation: "reward_campaigns"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "planting_verifications_tree_match_id_fkey"
             columns: ["tree_match_id"]
@@ -97,6 +344,48 @@ export type Database = {
           },
         ]
       }
+      plots: {
+        Row: {
+          agro_zone: string | null
+          area_hectares: number
+          boundary: Json
+          centroid_latitude: number
+          centroid_longitude: number
+          county: string | null
+          created_at: string | null
+          id: string
+          name: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          agro_zone?: string | null
+          area_hectares: number
+          boundary: Json
+          centroid_latitude: number
+          centroid_longitude: number
+          county?: string | null
+          created_at?: string | null
+          id?: string
+          name: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          agro_zone?: string | null
+          area_hectares?: number
+          boundary?: Json
+          centroid_latitude?: number
+          centroid_longitude?: number
+          county?: string | null
+          created_at?: string | null
+          id?: string
+          name?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           agro_zone: string | null
@@ -166,6 +455,228 @@ export type Database = {
         }
         Relationships: []
       }
+      reward_campaigns: {
+        Row: {
+          budget: number
+          counties: string[]
+          created_at: string | null
+          created_by: string | null
+          description: string | null
+          ends_on: string
+          id: string
+          is_active: boolean
+          name: string
+          species_slugs: string[]
+          starts_on: string
+          updated_at: string | null
+        }
+        Insert: {
+          budget: number
+          counties?: string[]
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          ends_on: string
+          id?: string
+          is_active?: boolean
+          name: string
+          species_slugs?: string[]
+          starts_on: string
+          updated_at?: string | null
+        }
+        Update: {
+          budget?: number
+          counties?: string[]
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          ends_on?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          species_slugs?: string[]
+          starts_on?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      reward_rules: {
+        Row: {
+          amount: number | null
+          campaign_id: string | null
+          counties: string[]
+          created_at: string | null
+          created_by: string | null
+          id: string
+          is_active: boolean
+          kind: string
+          multiplier: number | null
+          name: string
+          species_slugs: string[]
+          survival_months: number | null
+          updated_at: string | null
+        }
+        Insert: {
+          amount?: number | null
+          campaign_id?: string | null
+          counties?: string[]
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          kind: string
+          multiplier?: number | null
+          name: string
+          species_slugs?: string[]
+          survival_months?: number | null
+          updated_at?: string | null
+        }
+        Update: {
+          amount?: number | null
+          campaign_id?: string | null
+          counties?: string[]
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          kind?: string
+          multiplier?: number | null
+          name?: string
+          species_slugs?: string[]
+          survival_months?: number | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reward_rules_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "reward_campaigns"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      survival_checks: {
+        Row: {
+          created_at: string | null
+          distance_m: number | null
+          due_on: string
+          id: string
+          image_url: string | null
+          latitude: number | null
+          longitude: number | null
+          months: number
+          notes: string | null
+          reported_alive: boolean | null
+          review_notes: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          reward_amount: number
+          reward_breakdown: Json | null
+          status: string
+          submitted_at: string | null
+          updated_at: string | null
+          user_id: string
+          verification_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          distance_m?: number | null
+          due_on: string
+          id?: string
+          image_url?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          months: number
+          notes?: string | null
+          reported_alive?: boolean | null
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          reward_amount?: number
+          reward_breakdown?: Json | null
+          status?: string
+          submitted_at?: string | null
+          updated_at?: string | null
+          user_id: string
+          verification_id: string
+        }
+        Update: {
+          created_at?: string | null
+          distance_m?: number | null
+          due_on?: string
+          id?: string
+          image_url?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          months?: number
+          notes?: string | null
+          reported_alive?: boolean | null
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          reward_amount?: number
+          reward_breakdown?: Json | null
+          status?: string
+          submitted_at?: string | null
+          updated_at?: string | null
+          user_id?: string
+          verification_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "survival_checks_verification_id_fkey"
+            columns: ["verification_id"]
+            isOneToOne: false
+            referencedRelation: "planting_verifications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      swipe_events: {
+        Row: {
+          action: string
+          agro_zone: string | null
+          client_event_id: string | null
+          compatibility_score: number | null
+          county: string | null
+          created_at: string | null
+          id: string
+          tree_id: number
+          user_id: string
+        }
+        Insert: {
+          action: string
+          agro_zone?: string | null
+          client_event_id?: string | null
+          compatibility_score?: number | null
+          county?: string | null
+          created_at?: string | null
+          id?: string
+          tree_id: number
+          user_id: string
+        }
+        Update: {
+          action?: string
+          agro_zone?: string | null
+          client_event_id?: string | null
+          compatibility_score?: number | null
+          county?: string | null
+          created_at?: string | null
+          id?: string
+          tree_id?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "swipe_events_tree_id_fkey"
+            columns: ["tree_id"]
+            isOneToOne: false
+            referencedRelation: "tree_species"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       tree_matches: {
         Row: {
           compatibility_score: number
@@ -173,6 +684,7 @@ export type Database = {
           id: string
           matched_at: string | null
           notes: string | null
+          plot_id: string | null
           tree_id: number
           tree_name: string
           user_id: string
@@ -183,6 +695,7 @@ export type Database = {
           id?: string
           matched_at?: string | null
           notes?: string | null
+          plot_id?: string | null
           tree_id: number
           tree_name: string
           user_id: string
@@ -193,10 +706,89 @@ export type Database = {
           id?: string
           matched_at?: string | null
           notes?: string | null
+          plot_id?: string | null
           tree_id?: number
           tree_name?: string
           user_id?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "tree_matches_plot_id_fkey"
+            columns: ["plot_id", "user_id"]
+            isOneToOne: false
+            referencedRelation: "plots"
+            referencedColumns: ["id", "user_id"]
+          },
+          {
+            foreignKeyName: "tree_matches_tree_id_fkey"
+            columns: ["tree_id"]
+            isOneToOne: false
+            referencedRelation: "tree_species"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tree_species: {
+        Row: {
+          agro_zones: string[]
+          aliases: string[]
+          created_at: string | null
+          created_by: string | null
+          description_en: string
+          description_sw: string
+          english_name: string
+          id: number
+          image_url: string | null
+          is_active: boolean
+          kefri_code: string | null
+          price: number
+          scientific_name: string
+          slug: string
+          suitable_counties: string[]
+          swahili_name: string
+          updated_at: string | null
+          uses: string[]
+        }
+        Insert: {
+          agro_zones?: string[]
+          aliases?: string[]
+          created_at?: string | null
+          created_by?: string | null
+          description_en?: string
+          description_sw?: string
+          english_name: string
+          id?: number
+          image_url?: string | null
+          is_active?: boolean
+          kefri_code?: string | null
+          price?: number
+          scientific_name: string
+          slug: string
+          suitable_counties?: string[]
+          swahili_name: string
+          updated_at?: string | null
+          uses?: string[]
+        }
+        Update: {
+          agro_zones?: string[]
+          aliases?: string[]
+          created_at?: string | null
+          created_by?: string | null
+          description_en?: string
+          description_sw?: string
+          english_name?: string
+          id?: number
+          image_url?: string | null
+          is_active?: boolean
+          kefri_code?: string | null
+          price?: number
+          scientific_name?: string
+          slug?: string
+          suitable_counties?: string[]
+          swahili_name?: string
+          updated_at?: string | null
+          uses?: string[]
+        }
         Relationships: []
       }
       user_roles: {
@@ -226,11 +818,352 @@ export type Database = {
         }
         Relationships: []
       }
+      verification_ai_results: {
+        Row: {
+          attempts: number
+          claimed_confidence: number | null
+          claimed_species: string | null
+          completed_at: string | null
+          created_at: string
+          error: string | null
+          growth_stage: string | null
+          growth_stage_confidence: number | null
+          health: Json | null
+          id: string
+          match_confidence: number | null
+          model_version: string | null
+          provider: string | null
+          species_candidates: Json
+          species_match: string | null
+          status: string
+          updated_at: string
+          verification_id: string
+        }
+        Insert: {
+          attempts?: number
+          claimed_confidence?: number | null
+          claimed_species?: string | null
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          growth_stage?: string | null
+          growth_stage_confidence?: number | null
+          health?: Json | null
+          id?: string
+          match_confidence?: number | null
+          model_version?: string | null
+          provider?: string | null
+          species_candidates?: Json
+          species_match?: string | null
+          status?: string
+          updated_at?: string
+          verification_id: string
+        }
+        Update: {
+          attempts?: number
+          claimed_confidence?: number | null
+          claimed_species?: string | null
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          growth_stage?: string | null
+          growth_stage_confidence?: number | null
+          health?: Json | null
+          id?: string
+          match_confidence?: number | null
+          model_version?: string | null
+          provider?: string | null
+          species_candidates?: Json
+          species_match?: string | null
+          status?: string
+          updated_at?: string
+          verification_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "verification_ai_results_verification_id_fkey"
+            columns: ["verification_id"]
+            isOneToOne: true
+            referencedRelation: "planting_verifications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      verification_assignments: {
+        Row: {
+          assigned_at: string | null
+          assigned_to: string | null
+          claimed_at: string | null
+          claimed_by: string | null
+          verification_id: string
+        }
+        Insert: {
+          assigned_at?: string | null
+          assigned_to?: string | null
+          claimed_at?: string | null
+          claimed_by?: string | null
+          verification_id: string
+        }
+        Update: {
+          assigned_at?: string | null
+          assigned_to?: string | null
+          claimed_at?: string | null
+          claimed_by?: string | null
+          verification_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "verification_assignments_verification_id_fkey"
+            columns: ["verification_id"]
+            isOneToOne: true
+            referencedRelation: "planting_verifications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      verification_review_policy: {
+        Row: {
+          enabled: boolean
+          id: boolean
+          second_review_min_reward: number
+          second_review_when_flagged: boolean
+          updated_at: string | null
+          updated_by: string | null
+        }
+        Insert: {
+          enabled?: boolean
+          id?: boolean
+          second_review_min_reward?: number
+          second_review_when_flagged?: boolean
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          enabled?: boolean
+          id?: boolean
+          second_review_min_reward?: number
+          second_review_when_flagged?: boolean
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      verification_triage_settings: {
+        Row: {
+          auto_approve_confidence: number
+          auto_approve_max_risk: number
+          auto_hold_confidence: number
+          enabled: boolean
+          id: boolean
+          updated_at: string | null
+          updated_by: string | null
+        }
+        Insert: {
+          auto_approve_confidence?: number
+          auto_approve_max_risk?: number
+          auto_hold_confidence?: number
+          enabled?: boolean
+          id?: boolean
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          auto_approve_confidence?: number
+          auto_approve_max_risk?: number
+          auto_hold_confidence?: number
+          enabled?: boolean
+          id?: boolean
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      wallet_payouts: {
+        Row: {
+          amount: number
+          completed_at: string | null
+          conversation_id: string | null
+          created_at: string | null
+          id: string
+          idempotency_key: string
+          mpesa_transaction_id: string | null
+          phone_number: string
+          result_code: number | null
+          result_desc: string | null
+          status: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          completed_at?: string | null
+          conversation_id?: string | null
+          created_at?: string | null
+          id?: string
+          idempotency_key: string
+          mpesa_transaction_id?: string | null
+          phone_number: string
+          result_code?: number | null
+          result_desc?: string | null
+          status?: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          completed_at?: string | null
+          conversation_id?: string | null
+          created_at?: string | null
+          id?: string
+          idempotency_key?: string
+          mpesa_transaction_id?: string | null
+          phone_number?: string
+          result_code?: number | null
+          result_desc?: string | null
+          status?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      wallet_transactions: {
+        Row: {
+          account: string
+          amount: number
+          created_at: string | null
+          created_by: string | null
+          description: string | null
+          direction: string
+          id: string
+          journal_id: string
+          kind: string
+          mpesa_transaction_id: string | null
+          payout_id: string | null
+          survival_check_id: string | null
+          user_id: string
+          verification_id: string | null
+        }
+        Insert: {
+          account: string
+          amount: number
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          direction: string
+          id?: string
+          journal_id: string
+          kind: string
+          mpesa_transaction_id?: string | null
+          payout_id?: string | null
+          survival_check_id?: string | null
+          user_id: string
+          verification_id?: string | null
+        }
+        Update: {
+          account?: string
+          amount?: number
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          direction?: string
+          id?: string
+          journal_id?: string
+          kind?: string
+          mpesa_transaction_id?: string | null
+          payout_id?: string | null
+          survival_check_id?: string | null
+          user_id?: string
+          verification_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "wallet_transactions_payout_id_fkey"
+            columns: ["payout_id"]
+            isOneToOne: false
+            referencedRelation: "wallet_payouts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "wallet_transactions_survival_check_id_fkey"
+            columns: ["survival_check_id"]
+            isOneToOne: false
+            referencedRelation: "survival_checks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "wallet_transactions_verification_id_fkey"
+            columns: ["verification_id"]
+            isOneToOne: false
+            referencedRelation: "planting_verifications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      auto_assign_verifications: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      can_moderate_county: {
+        Args: {
+          _county: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      can_moderate_verification: {
+        Args: {
+          _user_id: string
+          _verification_id: string
+        }
+        Returns: boolean
+      }
+      claim_verification: {
+        Args: {
+          _verification_id: string
+        }
+        Returns: {
+          held_since: string
+          holder_id: string
+          holder_name: string
+        }[]
+      }
+      create_wallet_payout: {
+        Args: {
+          p_amount: number
+          p_idempotency_key: string
+          p_phone_number: string
+          p_user_id: string
+        }
+        Returns: {
+          amount: number
+          completed_at: string | null
+          conversation_id: string | null
+          created_at: string | null
+          id: string
+          idempotency_key: string
+          mpesa_transaction_id: string | null
+          phone_number: string
+          result_code: number | null
+          result_desc: string | null
+          status: string
+          updated_at: string | null
+          user_id: string
+        }[]
+      }
+      distance_km: {
+        Args: {
+          p_lat1: number
+          p_lat2: number
+          p_lng1: number
+          p_lng2: number
+        }
+        Returns: number
+      }
       get_admin_stats: {
         Args: Record<PropertyKey, never>
         Returns: {
@@ -261,16 +1194,56 @@ export type Database = {
           verified_count: number
         }[]
       }
+      get_recommendation_stats: {
+        Args: { p_agro_zone: string; p_county: string; p_goals?: string[] }
+        Returns: {
+          agro_zone_plantings: number
+          agro_zone_survived: number
+          county_plantings: number
+          county_survived: number
+          similar_likes: number
+          similar_swipes: number
+          tree_id: number
+        }[]
+      }
+      get_reward_campaign_spend: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          campaign_id: string
+          spent: number
+        }[]
+      }
+      get_rewards_earned_this_month: {
+        Args: { p_user_ids: string[] }
+        Returns: {
+          earned: number
+          user_id: string
+        }[]
+      }
       get_verification_queue: {
         Args: Record<PropertyKey, never>
         Returns: {
+          assigned_to: string
+          assigned_to_name: string
+          claimed_at: string
+          claimed_by: string
+          claimed_by_name: string
           constituency: string
           county: string
           created_at: string
+          escalated_at: string
+          escalated_by: string
+          escalated_by_name: string
+          escalation_note: string
+          first_reviewed_at: string
+          first_reviewed_by: string
+          first_reviewer_name: string
           full_name: string
           id: string
           image_url: string
           latitude: number
+          location_checks: Json
+          location_justification: string
           longitude: number
           mpesa_transaction_id: string
           notes: string
@@ -278,6 +1251,8 @@ export type Database = {
           rejection_reason: string
           reward_amount: number
           reward_paid: boolean
+          risk_flags: Json
+          risk_score: number
           status: Database["public"]["Enums"]["verification_status"]
           submission_phone: string
           tree_name: string
@@ -288,6 +1263,15 @@ export type Database = {
           verifier_name: string
         }[]
       }
+      get_wallet_summary: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          available_balance: number
+          in_transit: number
+          total_earned: number
+          total_withdrawn: number
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -295,6 +1279,90 @@ export type Database = {
         }
         Returns: boolean
       }
+      image_hash_bands: {
+        Args: {
+          p_hash: string
+        }
+        Returns: string[]
+      }
+      image_hash_distance: {
+        Args: {
+          p_a: string
+          p_b: string
+        }
+        Returns: number
+      }
+      next_reviewer_for_county: {
+        Args: {
+          _county: string
+        }
+        Returns: string
+      }
+      normalize_tree_name: {
+        Args: {
+          p_name: string
+        }
+        Returns: string
+      }
+      post_wallet_journal: {
+        Args: {
+          p_amount: number
+          p_credit_account: string
+          p_debit_account: string
+          p_description?: string
+          p_kind: string
+          p_mpesa_transaction_id?: string
+          p_payout_id?: string
+          p_survival_check_id?: string
+          p_user_id: string
+          p_verification_id?: string
+        }
+        Returns: string
+      }
+      release_verification: {
+        Args: {
+          _verification_id: string
+        }
+        Returns: undefined
+      }
+      resolve_tree_species: {
+        Args: {
+          p_tree_name: string
+        }
+        Returns: string
+      }
+      settle_wallet_payout: {
+        Args: {
+          p_mpesa_transaction_id?: string
+          p_payout_id: string
+          p_result_code?: number
+          p_result_desc?: string
+          p_success: boolean
+        }
+        Returns: {
+          amount: number
+          completed_at: string | null
+          conversation_id: string | null
+          created_at: string | null
+          id: string
+          idempotency_key: string
+          mpesa_transaction_id: string | null
+          phone_number: string
+          result_code: number | null
+          result_desc: string | null
+          status: string
+          updated_at: string | null
+          user_id: string
+        }[]
+      }
+      verification_claim_timeout: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      wallet_account_balance: {
+        Args: { p_account: string; p_user_id: string }
+        Returns: number
+      }
     }
     Enums: {
       app_role: "admin" | "moderator" | "user"
@@ -16,7 +16,10 @@ import {
   TreePine,
   Building2,
   Home,
-  Menu
+  Menu,
+  Coins,
+  Sprout,
+  ScrollText
 } from 'lucide-react';
 import { toast } from 'sonner';
 
@@ -27,7 +30,7 @@ interface AdminLayoutProps {
 export default function AdminLayout({ children }: AdminLayoutProps) {
   const navigate = useNavigate();
   const location = useLocation();
-  const { canModerate, loading, role, county } = useAdminAuth();
+  const { canModerate, loading, role, counties, isModerator, isAdmin } = useAdminAuth();
   const { signOut } = useAuth();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
 
@@ -59,9 +62,13 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
   const navItems = [
     { path: '/admin', icon: LayoutDashboard, label: 'Overview', exact: true },
     { path: '/admin/verifications', icon: ClipboardCheck, label: 'Verifications', exact: false },
+    { path: '/admin/survival', icon: Sprout, label: 'Survival Checks', exact: false },
     { path: '/admin/users', icon: Users, label: 'Users', exact: false },
     { path: '/admin/analytics', icon: BarChart3, label: 'Analytics', exact: false },
-  ];
+    { path: '/admin/species', icon: TreePine, label: 'Species', exact: false },
+    { path: '/admin/rewards', icon: Coins, label: 'Rewards', exact: false },
+    { path: '/admin/audit', icon: ScrollText, label: 'Audit Log', exact: false, adminOnly: true },
+  ].filter((item) => !item.adminOnly || isAdmin);
 
   const isActive = (path: string, exact?: boolean) => {
     if (exact) {
@@ -80,8 +87,12 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
             <p className="text-xs text-muted-foreground capitalize">{role}</p>
           </div>
         </div>
-        {county && (
-          <p className="text-xs text-muted-foreground mt-2">County: {county}</p>
+        {isModerator && (
+          <p className="text-xs text-muted-foreground mt-2">
+            {counties.length > 0
+              ? `${counties.length === 1 ? 'County' : 'Counties'}: ${counties.join(', ')}`
+              : 'No counties assigned yet'}
+          </p>
         )}
       </div>
 
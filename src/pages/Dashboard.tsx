@@ -5,7 +5,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { logger } from "@/utils/logger";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { ArrowLeft, Leaf, MapPin, TrendingUp, Calendar, TreeDeciduous } from "lucide-react";
+import { ArrowLeft, Leaf, MapPin, TrendingUp, Calendar, TreeDeciduous, Download } from "lucide-react";
 
 const PlantingMapLazy = lazy(() =>
   import("@/components/PlantingMap").then((module) => ({
@@ -179,7 +179,13 @@ const Dashboard = () => {
           {/* Map */}
           {locations.length > 0 ? (
             <Card className="p-6">
-              <h2 className="text-2xl font-bold mb-4">Your Planting Locations</h2>
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                <h2 className="text-2xl font-bold">Your Planting Locations</h2>
+                <Button variant="outline" size="sm" onClick={() => navigate("/profile/settings")}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Save map for offline use
+                </Button>
+              </div>
               <div className="h-96 rounded-lg overflow-hidden">
                 <Suspense fallback={
                   <div className="h-full flex items-center justify-center bg-muted">
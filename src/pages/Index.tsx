@@ -1,5 +1,4 @@
 import { SwipeInterface } from "@/components/SwipeInterface";
-import { KENYAN_TREES } from "@/data/kenya";
 import { Button } from "@/components/ui/button";
 import { Leaf, Heart, Globe, LogOut, Shield, User, ShoppingCart } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
@@ -10,12 +9,15 @@ import heroForest from "@/assets/hero-forest.jpg";
 import { toast } from "sonner";
 import { useEffect } from "react";
 import { useLanguage } from "@/hooks/useLanguage";
+import { useTreeSpecies } from "@/hooks/useTreeSpecies";
+import { Skeleton } from "@/components/ui/skeleton";
 
 const Index = () => {
   const { signOut, user } = useAuth();
   const { canModerate } = useAdminAuth();
   const navigate = useNavigate();
   const { t } = useLanguage();
+  const { species, loading: speciesLoading } = useTreeSpecies();
 
   // Redirect to /auth if user has recovery token (mobile password reset fix)
   useEffect(() => {
@@ -194,7 +196,13 @@ const Index = () => {
             </p>
           </div>
 
-          <SwipeInterface trees={KENYAN_TREES} />
+          {speciesLoading ? (
+            <div className="flex flex-col items-center space-y-4">
+              <Skeleton className="w-full max-w-sm h-[500px] sm:h-[600px]" />
+            </div>
+          ) : (
+            <SwipeInterface trees={species} />
+          )}
         </div>
       </section>
 
@@ -7,12 +7,14 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
 import { ChevronLeft, ChevronRight, MapPin, Loader2 } from "lucide-react";
 import { KENYAN_COUNTIES } from "@/data/kenya";
 import { detectLocation, determineClimateZone, determineSoilType } from "@/utils/locationService";
 import { reverseGeocode, determineAgroZone } from "@/utils/kenyaLocation";
+import { detectAgroZone, type AgroZoneClassification } from "@/utils/agroZoneClassifier";
 import { onboardingSchema, validateInput, sanitizeString } from "@/utils/validation";
 import { logger } from "@/utils/logger";
 
@@ -28,6 +30,14 @@ const soilTypes: { value: SoilType; label: string; labelSw: string }[] = [
   { value: "chalky", label: "Chalky", labelSw: "Udongo wa Chaki" },
 ];
 
+const ELEVATION_SOURCE_LABELS: Record<AgroZoneClassification['elevationSource'], { en: string; sw: string }> = {
+  gps: { en: "GPS", sw: "GPS" },
+  dem: { en: "terrain map", sw: "ramani ya ardhi" },
+  county: { en: "county estimate", sw: "makadirio ya kaunti" },
+  temperature: { en: "temperature estimate", sw: "makadirio ya joto" },
+  default: { en: "default estimate", sw: "makadirio ya kawaida" },
+};
+
 const conservationGoals = [
   { value: "carbon_sequestration", label: "Carbon Sequestration", labelSw: "Kuhifadhi Kaboni" },
   { value: "biodiversity", label: "Biodiversity", labelSw: "Utofauti wa Viumbe" },
@@ -42,6 +52,7 @@ export default function KenyaOnboarding() {
   const [loading, setLoading] = useState(false);
   const [detectingLocation, setDetectingLocation] = useState(false);
   const [locationDetected, setLocationDetected] = useState(false);
+  const [agroZoneDetection, setAgroZoneDetection] = useState<AgroZoneClassification | null>(null);
   const { user } = useAuth();
   const { language } = useLanguage();
 
@@ -77,11 +88,7 @@ export default function KenyaOnboarding() {
       const location = await detectLocation();
       logger.log('GPS location obtained:', { lat: location.latitude, lng: location.longitude });
 
-      // Step 2: Determine agro-zone from coordinates (CRITICAL - always works)
-      detectedAgroZone = determineAgroZone(location.latitude, location.longitude);
-      logger.log('Agro-zone determined:', detectedAgroZone);
-
-      // Step 3: Get county via reverse geocoding (IMPORTANT - try but don't fail)
+      // Step 2: Get county via reverse geocoding (IMPORTANT - try but don't fail)
       try {
         logger.log('Attempting reverse geocoding...');
         const geocodeResult = await reverseGeocode(location.latitude, location.longitude);
@@ -93,7 +100,9 @@ export default function KenyaOnboarding() {
         // Continue - user can select county manually
       }
 
-      // Step 4: Get weather data for climate/soil detection (OPTIONAL - nice to have)
+      // Step 3: Get weather data for climate/soil detection (OPTIONAL - nice to have)
+      let annualRainfall: number | null = null;
+      let currentTemperature: number | null = null;
       try {
         logger.log('Fetching weather data...');
         const { data, error } = await supabase.functions.invoke('get-weather-data', {
@@ -111,6 +120,8 @@ export default function KenyaOnboarding() {
 
         if (data?.current) {
           logger.log('Weather data received successfully');
+          annualRainfall = data.estimated_annual_rainfall ?? null;
+          currentTemperature = data.current.temperature ?? null;
 
           // Determine climate and soil from weather data
           detectedClimate = determineClimateZone(location.latitude, data.current.temperature) as ClimateZone;
@@ -126,6 +137,26 @@ export default function KenyaOnboarding() {
         }
       }
 
+      // Step 4: Classify agro-zone from elevation + rainfall (CRITICAL - always works)
+      try {
+        const classification = await detectAgroZone({
+          latitude: location.latitude,
+          longitude: location.longitude,
+          altitude: location.altitude,
+          altitudeAccuracy: location.altitudeAccuracy,
+          annualRainfall,
+          temperature: currentTemperature,
+          county: detectedCounty || null,
+        });
+        detectedAgroZone = classification.zone;
+        setAgroZoneDetection(classification);
+        logger.log('Agro-zone classified:', classification);
+      } catch (classifyError: unknown) {
+        logger.error('Agro-zone classification failed:', classifyError);
+        detectedAgroZone = determineAgroZone(location.latitude, location.longitude, location.altitude ?? undefined);
+        setAgroZoneDetection(null);
+      }
+
       // Step 5: Update form with all detected data
       setFormData(prev => ({
         ...prev,
@@ -498,6 +529,57 @@ export default function KenyaOnboarding() {
                 <p className="text-xs text-muted-foreground mt-1">
                   {language === 'sw' ? 'Eneo hili linaathiri aina za miti zinazofaa' : 'This zone affects which trees are suitable for your area'}
                 </p>
+                {agroZoneDetection && (
+                  <div className="mt-3 rounded-md border p-3 space-y-2 text-sm">
+                    <div className="flex items-center justify-between gap-2">
+                      <span>
+                        {language === 'sw' ? 'Imegunduliwa' : 'Detected'}: <strong>{agroZoneDetection.zone}</strong>
+                      </span>
+                      <Badge variant={agroZoneDetection.confidence >= 0.6 ? "default" : "secondary"}>
+                        {Math.round(agroZoneDetection.confidence * 100)}% {language === 'sw' ? 'uhakika' : 'confidence'}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {language === 'sw' ? 'Mwinuko' : 'Elevation'} ~{agroZoneDetection.elevation.toLocaleString()} m ({ELEVATION_SOURCE_LABELS[agroZoneDetection.elevationSource][language]})
+                      {agroZoneDetection.moistureIndex !== null && (
+                        <> · {language === 'sw' ? 'Unyevu (r/Eo)' : 'Moisture (r/Eo)'} {agroZoneDetection.moistureIndex}</>
+                      )}
+                    </p>
+                    {formData.agroZone && formData.agroZone !== agroZoneDetection.zone ? (
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-xs text-muted-foreground">
+                          {language === 'sw' ? 'Umechagua eneo lako mwenyewe' : 'You have overridden the detected zone'}
+                        </span>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setFormData({ ...formData, agroZone: agroZoneDetection.zone })}
+                        >
+                          {language === 'sw' ? 'Tumia lililogunduliwa' : 'Use detected'}
+                        </Button>
+                      </div>
+                    ) : agroZoneDetection.alternatives.length > 0 && (
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-xs text-muted-foreground">
+                          {language === 'sw' ? 'Huenda pia ni' : 'Could also be'}:
+                        </span>
+                        {agroZoneDetection.alternatives.map((zone) => (
+                          <Button
+                            key={zone}
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            className="h-7 px-2"
+                            onClick={() => setFormData({ ...formData, agroZone: zone })}
+                          >
+                            {zone}
+                          </Button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -8,9 +8,11 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { ArrowLeft, Heart, Star, Trash2, Leaf, Home } from "lucide-react";
 import { toast } from "sonner";
 import { logger } from "@/utils/logger";
-import { KENYAN_TREES } from "@/data/kenya";
+import { useTreeSpecies } from "@/hooks/useTreeSpecies";
 import { useTreeImage } from "@/hooks/useTreeImages";
 import { MatchCard } from "@/components/MatchCard";
+import { useFarmPlots } from "@/hooks/useFarmPlots";
+import { assignMatchToPlot } from "@/utils/plotsService";
 
 interface Match {
   id: string;
@@ -20,6 +22,7 @@ interface Match {
   matched_at: string;
   favorited: boolean;
   notes: string | null;
+  plot_id: string | null;
 }
 
 const Matches = () => {
@@ -27,6 +30,8 @@ const Matches = () => {
   const [loading, setLoading] = useState(true);
   const { user } = useAuth();
   const navigate = useNavigate();
+  const { getSpeciesById } = useTreeSpecies({ includeInactive: true });
+  const { plots } = useFarmPlots();
 
   useEffect(() => {
     const fetchMatches = async () => {
@@ -71,6 +76,22 @@ const Matches = () => {
     }
   };
 
+  const assignPlot = async (matchId: string, plotId: string | null) => {
+    try {
+      await assignMatchToPlot(matchId, plotId);
+      setMatches((prev) => prev.map((m) => (m.id === matchId ? { ...m, plot_id: plotId } : m)));
+      toast.success(plotId ? `Moved to ${plots.find((p) => p.id === plotId)?.name}` : "Removed from plot");
+    } catch (error) {
+      // A tree is matched once per plot
+      if ((error as { code?: string })?.code === '23505') {
+        toast.error("This tree is already matched on that plot");
+        return;
+      }
+      logger.error("Error assigning plot:", error);
+      toast.error("Failed to update plot");
+    }
+  };
+
   const deleteMatch = async (matchId: string) => {
     try {
       const { error } = await supabase
@@ -88,10 +109,13 @@ const Matches = () => {
   };
 
   const getTreeImage = (treeId: number) => {
-    const tree = KENYAN_TREES.find((t) => t.dbId === treeId);
+    const tree = getSpeciesById(treeId);
     return tree?.image;
   };
 
+  // Prefer the registry name so renamed species show up correctly
+  const getTreeName = (match: Match) => getSpeciesById(match.tree_id)?.englishName ?? match.tree_name;
+
   const getCompatibilityColor = (score: number) => {
     if (score >= 80) return "bg-green-500";
     if (score >= 60) return "bg-yellow-500";
@@ -147,7 +171,9 @@ const Matches = () => {
               {matches.map((match) => (
                 <MatchCard
                   key={match.id}
-                  match={match}
+                  match={{ ...match, tree_name: getTreeName(match) }}
+                  plots={plots}
+                  onAssignPlot={assignPlot}
                   onToggleFavorite={toggleFavorite}
                   onDelete={deleteMatch}
                   onViewDetails={(matchId) => {
@@ -1,50 +1,48 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { useLanguage } from '@/hooks/useLanguage';
-import { KENYAN_TREES } from '@/data/kenya';
+import type { KenyanTreeSpecies } from '@/data/kenya';
+import { useTreeSpecies } from '@/hooks/useTreeSpecies';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
-import { ShoppingCart, Leaf, Phone, ArrowLeft, CheckCircle, Home } from 'lucide-react';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ShoppingCart, Leaf, Phone, ArrowLeft, CheckCircle, Home, Loader2, Smartphone, XCircle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useMpesaCheckout } from '@/hooks/useMpesaCheckout';
+import { normalizeMpesaPhone, orderTotal } from '@/utils/mpesaPayments';
 
 const NurseryMarketplace = () => {
   const { user } = useAuth();
   const { language } = useLanguage();
   const { toast } = useToast();
   const navigate = useNavigate();
-  const [selectedTree, setSelectedTree] = useState<typeof KENYAN_TREES[0] | null>(null);
+  const { species, loading: speciesLoading } = useTreeSpecies();
+  const [selectedTree, setSelectedTree] = useState<KenyanTreeSpecies | null>(null);
   const [quantity, setQuantity] = useState(1);
   const [phoneNumber, setPhoneNumber] = useState('');
   const [showPaymentDialog, setShowPaymentDialog] = useState(false);
-  const [paymentSuccess, setPaymentSuccess] = useState(false);
+  const checkout = useMpesaCheckout();
+  const paymentSuccess = checkout.status === 'paid';
+  const awaitingPayment = checkout.status === 'requesting' || checkout.status === 'pending';
 
-  const handleBuyClick = (tree: typeof KENYAN_TREES[0]) => {
+  const handleBuyClick = (tree: KenyanTreeSpecies) => {
     setSelectedTree(tree);
     setQuantity(1);
     setPhoneNumber('');
-    setPaymentSuccess(false);
+    checkout.reset();
     setShowPaymentDialog(true);
   };
 
-  const simulateMpesaPayment = () => {
-    // Simulate M-Pesa STK Push
-    return new Promise((resolve) => {
-      setTimeout(() => {
-        resolve(true);
-      }, 2000);
-    });
-  };
-
   const handlePurchase = async () => {
     if (!selectedTree) return;
 
     // Validate phone number
-    if (!phoneNumber || phoneNumber.length < 10) {
+    if (!normalizeMpesaPhone(phoneNumber)) {
       toast({
         title: language === 'en' ? 'Invalid Phone Number' : 'Nambari Isiyo Sahihi',
         description: language === 'en' ? 'Please enter a valid M-Pesa number' : 'Tafadhali weka nambari sahihi ya M-Pesa',
@@ -53,32 +51,23 @@ const NurseryMarketplace = () => {
       return;
     }
 
-    const totalAmount = selectedTree.price * quantity;
-
-    toast({
-      title: language === 'en' ? 'Processing Payment...' : 'Inashughulikia Malipo...',
-      description: language === 'en' 
-        ? 'Check your phone for M-Pesa prompt' 
-        : 'Angalia simu yako kwa ujumbe wa M-Pesa',
-    });
-
-    // Simulate M-Pesa payment
-    await simulateMpesaPayment();
-
-    setPaymentSuccess(true);
+    await checkout.pay({ treeSlug: selectedTree.id, quantity, phoneNumber });
+  };
 
+  useEffect(() => {
+    if (checkout.status !== 'paid' || !checkout.order) return;
     toast({
       title: language === 'en' ? 'Payment Successful!' : 'Malipo Yamefaulu!',
-      description: language === 'en' 
-        ? `KSh ${totalAmount} paid. You'll receive collection details via SMS.` 
-        : `KSh ${totalAmount} imelipwa. Utapokea maelezo ya ukusanyaji kupitia SMS.`,
+      description: language === 'en'
+        ? `KSh ${checkout.order.amount} paid. You'll receive collection details via SMS.`
+        : `KSh ${checkout.order.amount} imelipwa. Utapokea maelezo ya ukusanyaji kupitia SMS.`,
     });
-  };
+  }, [checkout.status, checkout.order, language, toast]);
 
   const handleCloseDialog = () => {
     setShowPaymentDialog(false);
     setSelectedTree(null);
-    setPaymentSuccess(false);
+    checkout.reset();
   };
 
   return (
@@ -107,7 +96,10 @@ const NurseryMarketplace = () => {
       {/* Tree Listings */}
       <div className="max-w-6xl mx-auto p-6">
         <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {KENYAN_TREES.map((tree) => (
+          {speciesLoading && [1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-72 w-full" />
+          ))}
+          {!speciesLoading && species.map((tree) => (
             <Card key={tree.id} className="hover:shadow-lg transition-shadow">
               <CardHeader>
                 <div className="flex items-start justify-between">
@@ -143,9 +135,42 @@ const NurseryMarketplace = () => {
       </div>
 
       {/* Payment Dialog */}
-      <Dialog open={showPaymentDialog} onOpenChange={setShowPaymentDialog}>
+      <Dialog open={showPaymentDialog} onOpenChange={(open) => !open && handleCloseDialog()}>
         <DialogContent className="sm:max-w-md">
-          {!paymentSuccess ? (
+          {awaitingPayment || checkout.status === 'timeout' ? (
+            <>
+              <DialogHeader>
+                <div className="flex justify-center mb-4">
+                  <div className="rounded-full bg-primary/10 p-4">
+                    {checkout.status === 'timeout' ? (
+                      <Smartphone className="h-12 w-12 text-primary" />
+                    ) : (
+                      <Loader2 className="h-12 w-12 text-primary animate-spin" />
+                    )}
+                  </div>
+                </div>
+                <DialogTitle className="text-center">
+                  {checkout.status === 'timeout'
+                    ? (language === 'en' ? 'Still Waiting for M-Pesa' : 'Bado Tunasubiri M-Pesa')
+                    : (language === 'en' ? 'Check Your Phone' : 'Angalia Simu Yako')}
+                </DialogTitle>
+                <DialogDescription className="text-center">
+                  {checkout.status === 'timeout'
+                    ? (language === 'en'
+                      ? 'We have not received a result yet. Your order will update as soon as M-Pesa confirms the payment.'
+                      : 'Bado hatujapokea jibu. Agizo lako litasasishwa mara M-Pesa itakapothibitisha malipo.')
+                    : (language === 'en'
+                      ? `Enter your M-Pesa PIN on ${phoneNumber} to pay KSh ${selectedTree ? orderTotal(selectedTree.price, quantity) : 0}`
+                      : `Weka PIN yako ya M-Pesa kwenye ${phoneNumber} kulipa KSh ${selectedTree ? orderTotal(selectedTree.price, quantity) : 0}`)}
+                </DialogDescription>
+              </DialogHeader>
+              {checkout.status === 'timeout' && (
+                <Button onClick={handleCloseDialog} className="w-full">
+                  {language === 'en' ? 'Close' : 'Funga'}
+                </Button>
+              )}
+            </>
+          ) : !paymentSuccess ? (
             <>
               <DialogHeader>
                 <DialogTitle>
@@ -156,6 +181,16 @@ const NurseryMarketplace = () => {
                 </DialogDescription>
               </DialogHeader>
               <div className="space-y-4 py-4">
+                {checkout.error && (
+                  <div className="flex items-start gap-2 rounded-lg border border-destructive/50 p-3 text-sm text-destructive">
+                    <XCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                    <p>
+                      {checkout.status === 'cancelled'
+                        ? (language === 'en' ? 'You cancelled the M-Pesa prompt.' : 'Umeghairi ujumbe wa M-Pesa.')
+                        : checkout.error}
+                    </p>
+                  </div>
+                )}
                 <div className="space-y-2">
                   <Label htmlFor="quantity">{language === 'en' ? 'Quantity' : 'Idadi'}</Label>
                   <Input
@@ -174,7 +209,7 @@ const NurseryMarketplace = () => {
                   <Input
                     id="phone"
                     type="tel"
-                    placeholder="254XXXXXXXXX"
+                    placeholder="07XXXXXXXX"
                     value={phoneNumber}
                     onChange={(e) => setPhoneNumber(e.target.value)}
                   />
@@ -183,12 +218,14 @@ const NurseryMarketplace = () => {
                   <div className="flex justify-between items-center">
                     <span className="font-medium">{language === 'en' ? 'Total Amount:' : 'Jumla ya Kiasi:'}</span>
                     <span className="text-2xl font-bold text-primary">
-                      KSh {selectedTree ? selectedTree.price * quantity : 0}
+                      KSh {selectedTree ? orderTotal(selectedTree.price, quantity) : 0}
                     </span>
                   </div>
                 </div>
                 <Button onClick={handlePurchase} className="w-full">
-                  {language === 'en' ? 'Pay with M-Pesa' : 'Lipa kwa M-Pesa'}
+                  {checkout.status === 'failed' || checkout.status === 'cancelled'
+                    ? (language === 'en' ? 'Try Again' : 'Jaribu Tena')
+                    : (language === 'en' ? 'Pay with M-Pesa' : 'Lipa kwa M-Pesa')}
                 </Button>
               </div>
             </>
@@ -221,14 +258,22 @@ const NurseryMarketplace = () => {
                     <span className="text-sm text-muted-foreground">
                       {language === 'en' ? 'Quantity:' : 'Idadi:'}
                     </span>
-                    <span className="font-medium">{quantity}</span>
+                    <span className="font-medium">{checkout.order?.quantity ?? quantity}</span>
                   </div>
                   <div className="flex justify-between">
                     <span className="text-sm text-muted-foreground">
                       {language === 'en' ? 'Total Paid:' : 'Jumla Iliyolipwa:'}
                     </span>
-                    <span className="font-medium">KSh {selectedTree ? selectedTree.price * quantity : 0}</span>
+                    <span className="font-medium">KSh {checkout.order?.amount ?? 0}</span>
                   </div>
+                  {checkout.order?.mpesa_receipt_number && (
+                    <div className="flex justify-between">
+                      <span className="text-sm text-muted-foreground">
+                        {language === 'en' ? 'M-Pesa Receipt:' : 'Risiti ya M-Pesa:'}
+                      </span>
+                      <span className="font-medium font-mono">{checkout.order.mpesa_receipt_number}</span>
+                    </div>
+                  )}
                 </div>
                 <p className="text-sm text-muted-foreground text-center">
                   {language === 'en' 
@@ -48,6 +48,7 @@ const Profile = () => {
   const tabs = [
     { value: '/profile/dashboard', label: language === 'en' ? 'Dashboard' : 'Dashibodi', icon: '📊' },
     { value: '/profile/plantings', label: language === 'en' ? 'Plantings' : 'Miche', icon: '🌱' },
+    { value: '/profile/plots', label: language === 'en' ? 'Plots' : 'Mashamba', icon: '🗺️' },
     { value: '/profile/rewards', label: language === 'en' ? 'Rewards' : 'Zawadi', icon: '💰' },
     { value: '/profile/achievements', label: language === 'en' ? 'Badges' : 'Medali', icon: '🏆' },
     { value: '/profile/settings', label: language === 'en' ? 'Settings' : 'Mipangilio', icon: '⚙️' },
@@ -8,10 +8,25 @@ import {
   Users,
   CheckCircle,
   DollarSign,
-  TreePine
+  TreePine,
+  Clock,
+  UserCheck
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { logger } from '@/utils/logger';
+import { ModeratorScopeNote } from '@/components/ModeratorScopeNote';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { isOverdue, REVIEW_SLA_HOURS, reviewerThroughput, type ReviewerThroughput } from '@/utils/reviewAssignment';
+
+// Reviewer throughput covers the last 30 days
+const THROUGHPUT_DAYS = 30;
 
 interface DashboardStats {
   total_approved: number;
@@ -31,6 +46,8 @@ export default function AdminAnalytics() {
   const [loading, setLoading] = useState(true);
   const [stats, setStats] = useState<DashboardStats | null>(null);
   const [countyData, setCountyData] = useState<CountyStats[]>([]);
+  const [throughput, setThroughput] = useState<ReviewerThroughput[]>([]);
+  const [overdueCount, setOverdueCount] = useState(0);
 
   useEffect(() => {
     fetchAnalytics();
@@ -45,10 +62,8 @@ export default function AdminAnalytics() {
         setStats(statsData[0] as unknown as DashboardStats);
       }
 
-      // Fetch county breakdown
-      const { data: verifications, error: verifError } = await supabase
-        .from('planting_verifications')
-        .select('county, status');
+      // Fetch county breakdown from the same scoped queue the other pages use
+      const { data: verifications, error: verifError } = await supabase.rpc('get_verification_queue');
 
       if (verifError) throw verifError;
 
@@ -73,6 +88,10 @@ export default function AdminAnalytics() {
       }).sort((a, b) => b.total - a.total);
 
       setCountyData(countyArray);
+
+      const since = new Date(Date.now() - THROUGHPUT_DAYS * 24 * 60 * 60 * 1000);
+      setThroughput(reviewerThroughput(verifications ?? [], since));
+      setOverdueCount((verifications ?? []).filter((item) => isOverdue(item)).length);
     } catch (error) {
       logger.error('Error fetching analytics:', error);
       toast.error('Failed to load analytics');
@@ -99,6 +118,7 @@ export default function AdminAnalytics() {
       <div>
         <h1 className="text-2xl md:text-3xl font-bold">Analytics & Reports</h1>
         <p className="text-sm md:text-base text-muted-foreground">System performance and insights</p>
+        <ModeratorScopeNote />
       </div>
 
       {/* Key Metrics */}
@@ -142,6 +162,51 @@ export default function AdminAnalytics() {
         </Card>
       </div>
 
+      {/* Reviewer Throughput */}
+      <Card className="p-4 md:p-6">
+        <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-2 mb-3 md:mb-4">
+          <h3 className="text-base md:text-lg font-semibold flex items-center gap-2">
+            <UserCheck className="h-5 w-5" />
+            Reviewer Throughput
+            <span className="text-xs md:text-sm font-normal text-muted-foreground">last {THROUGHPUT_DAYS} days</span>
+          </h3>
+          <p className={`flex items-center gap-1 text-sm ${overdueCount > 0 ? 'text-red-600 font-medium' : 'text-muted-foreground'}`}>
+            <Clock className="h-4 w-4" />
+            {overdueCount} pending past the {REVIEW_SLA_HOURS}h SLA
+          </p>
+        </div>
+        {throughput.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No decisions in this period</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Reviewer</TableHead>
+                <TableHead className="text-right">Decisions</TableHead>
+                <TableHead className="text-right hidden sm:table-cell">Approved</TableHead>
+                <TableHead className="text-right hidden sm:table-cell">Rejected</TableHead>
+                <TableHead className="text-right">Median time</TableHead>
+                <TableHead className="text-right">Within SLA</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {throughput.map((reviewer) => (
+                <TableRow key={reviewer.reviewerId}>
+                  <TableCell className="font-medium">{reviewer.name}</TableCell>
+                  <TableCell className="text-right tabular-nums">{reviewer.decisions}</TableCell>
+                  <TableCell className="text-right tabular-nums hidden sm:table-cell">{reviewer.approved}</TableCell>
+                  <TableCell className="text-right tabular-nums hidden sm:table-cell">{reviewer.rejected}</TableCell>
+                  <TableCell className="text-right tabular-nums">{reviewer.medianHours}h</TableCell>
+                  <TableCell className={`text-right tabular-nums ${reviewer.withinSlaPercent < 80 ? 'text-red-600' : ''}`}>
+                    {reviewer.withinSlaPercent}%
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </Card>
+
       {/* County Performance */}
       <Card className="p-4 md:p-6">
         <h3 className="text-base md:text-lg font-semibold mb-3 md:mb-4">Performance by County</h3>
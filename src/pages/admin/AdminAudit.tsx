@@ -0,0 +1,262 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Download, Search, ShieldAlert } from 'lucide-react';
+import { toast } from 'sonner';
+import { logger } from '@/utils/logger';
+import { useAdminAuth } from '@/hooks/useAdminAuth';
+import {
+  AUDIT_ACTION_GROUPS,
+  auditLogToCsv,
+  describeAuditAction,
+  summarizeChanges,
+  type AuditActionGroup,
+  type AuditLogEntry,
+} from '@/utils/auditLog';
+import { AUDIT_LOG_LIMIT, fetchAuditLog, fetchStaff, fetchUserNames } from '@/utils/auditLogService';
+
+const ACTION_STYLES: Record<string, string> = {
+  'verification.approved': 'border-green-300 text-green-700',
+  'verification.rejected': 'border-red-300 text-red-700',
+  'verification.reversed': 'border-red-500 bg-red-50 text-red-700',
+  'verification.escalated': 'border-purple-300 text-purple-700',
+  'payout.failed': 'border-red-300 text-red-700',
+};
+
+export default function AdminAudit() {
+  const { isAdmin, loading: roleLoading } = useAdminAuth();
+  const [searchParams] = useSearchParams();
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [staff, setStaff] = useState<{ id: string; name: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [group, setGroup] = useState<AuditActionGroup | 'all'>('all');
+  const [actorId, setActorId] = useState('all');
+  // Linked from a verification as /admin/audit?target=<id>
+  const [target, setTarget] = useState(searchParams.get('target') ?? '');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  useEffect(() => {
+    if (!isAdmin) return;
+    fetchStaff()
+      .then(setStaff)
+      .catch((error) => logger.error('Error fetching staff:', error));
+  }, [isAdmin]);
+
+  const loadEntries = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await fetchAuditLog({
+        group: group === 'all' ? undefined : group,
+        actorId: actorId === 'all' ? undefined : actorId,
+        target,
+        from,
+        to,
+      });
+      setEntries(data);
+
+      const userIds = [...new Set(data.flatMap((e) => [e.actor_id, e.target_user_id]).filter(Boolean))] as string[];
+      setNames(await fetchUserNames(userIds));
+    } catch (error) {
+      logger.error('Error fetching audit log:', error);
+      toast.error('Failed to load the audit log');
+    } finally {
+      setLoading(false);
+    }
+  }, [group, actorId, target, from, to]);
+
+  useEffect(() => {
+    if (!isAdmin) return;
+    // Wait for the reviewer to stop typing an id
+    const timer = setTimeout(loadEntries, 300);
+    return () => clearTimeout(timer);
+  }, [isAdmin, loadEntries]);
+
+  const handleExport = () => {
+    const csv = auditLogToCsv(entries, names);
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `audit-log-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const userLabel = (userId: string | null) => (userId ? names[userId] ?? `${userId.slice(0, 8)}…` : 'System');
+
+  if (roleLoading) {
+    return (
+      <div className="p-8 space-y-6">
+        <Skeleton className="h-12 w-64" />
+        <Skeleton className="h-96 w-full" />
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="p-4 md:p-8">
+        <Card className="p-8 text-center text-muted-foreground">
+          <ShieldAlert className="h-8 w-8 mx-auto mb-2" />
+          Only admins can view the audit log
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 md:p-8 space-y-4 md:space-y-6">
+      <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-3">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold">Audit Log</h1>
+          <p className="text-sm md:text-base text-muted-foreground">
+            Who approved, rejected, paid or changed what, and when
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleExport} disabled={entries.length === 0}>
+          <Download className="h-4 w-4 mr-2" />
+          Export CSV
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <Card className="p-3 md:p-4">
+        <div className="grid gap-3 md:gap-4 grid-cols-1 sm:grid-cols-2 md:grid-cols-5">
+          <div className="space-y-1">
+            <Label htmlFor="audit-target">Target</Label>
+            <div className="relative">
+              <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+              <Input
+                id="audit-target"
+                placeholder="Verification or user ID"
+                value={target}
+                onChange={(e) => setTarget(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label>Action</Label>
+            <Select value={group} onValueChange={(value) => setGroup(value as typeof group)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Actions</SelectItem>
+                {Object.entries(AUDIT_ACTION_GROUPS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label>Actor</Label>
+            <Select value={actorId} onValueChange={setActorId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Everyone</SelectItem>
+                <SelectItem value="system">System</SelectItem>
+                {staff.map((member) => (
+                  <SelectItem key={member.id} value={member.id}>{member.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="audit-from">From</Label>
+            <Input id="audit-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="audit-to">To</Label>
+            <Input id="audit-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </div>
+      </Card>
+
+      <Card>
+        {loading ? (
+          <div className="p-4 space-y-2">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="p-8 text-center text-muted-foreground">No audit entries match these filters</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Time</TableHead>
+                <TableHead>Actor</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Target</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Changes</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry) => {
+                const changes = summarizeChanges(entry);
+                return (
+                  <TableRow key={entry.id}>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {new Date(entry.created_at).toLocaleString()}
+                    </TableCell>
+                    <TableCell className="text-sm">{userLabel(entry.actor_id)}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={ACTION_STYLES[entry.action]}>
+                        {describeAuditAction(entry.action)}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <p className="text-xs font-mono">{entry.target_id}</p>
+                      {entry.target_user_id && (
+                        <p className="text-xs text-muted-foreground">{userLabel(entry.target_user_id)}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm max-w-xs">{entry.reason ?? '-'}</TableCell>
+                    <TableCell className="text-xs text-muted-foreground max-w-sm">
+                      <p className="line-clamp-3" title={changes}>{changes || '-'}</p>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </Card>
+      {entries.length === AUDIT_LOG_LIMIT && (
+        <p className="text-xs text-muted-foreground">
+          Showing the newest {AUDIT_LOG_LIMIT} entries. Narrow the filters to see older ones.
+        </p>
+      )}
+    </div>
+  );
+}
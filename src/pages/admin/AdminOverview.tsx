@@ -18,6 +18,13 @@ import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
+import { useTreeSpecies } from '@/hooks/useTreeSpecies';
+import { previewRewards } from '@/utils/rewardRulesService';
+import { DEFAULT_REVIEW_POLICY, REVIEW_STAGE_LABELS, reviewStage, type ReviewPolicy } from '@/utils/reviewPolicy';
+import { approveUnderPolicy, fetchReviewPolicy } from '@/utils/reviewPolicyService';
+import { useAuth } from '@/hooks/useAuth';
+import { useAdminAuth } from '@/hooks/useAdminAuth';
+import { ModeratorScopeNote } from '@/components/ModeratorScopeNote';
 
 interface DashboardStats {
   total_pending: number;
@@ -43,6 +50,9 @@ interface PlantingSubmission {
   created_at: string;
   user_phone: string;
   submission_phone: string;
+  risk_score: number;
+  first_reviewed_by: string | null;
+  escalated_at: string | null;
 }
 
 export default function AdminOverview() {
@@ -53,9 +63,16 @@ export default function AdminOverview() {
   const [rejectDialogOpen, setRejectDialogOpen] = useState(false);
   const [rejectionReason, setRejectionReason] = useState('');
   const [processing, setProcessing] = useState(false);
+  const [reviewPolicy, setReviewPolicy] = useState<ReviewPolicy>(DEFAULT_REVIEW_POLICY);
+  const { species } = useTreeSpecies({ includeInactive: true });
+  const { user } = useAuth();
+  const { isAdmin } = useAdminAuth();
 
   useEffect(() => {
     fetchDashboardData();
+    fetchReviewPolicy()
+      .then((policy) => setReviewPolicy(policy ?? DEFAULT_REVIEW_POLICY))
+      .catch((error) => logger.error('Error fetching review policy:', error));
   }, []);
 
   const fetchDashboardData = async () => {
@@ -85,29 +102,21 @@ export default function AdminOverview() {
   const handleApprove = async (submission: PlantingSubmission) => {
     setProcessing(true);
     try {
-      const { error } = await supabase
-        .from('planting_verifications')
-        .update({
-          status: 'verified',
-          verified_at: new Date().toISOString(),
-          verified_by: (await supabase.auth.getUser()).data.user?.id,
-          reward_amount: 100, // Default reward amount
-        })
-        .eq('id', submission.id);
+      // The reward rules decide the amount; the database credits it to the
+      // farmer's wallet ledger
+      const [evaluation] = await previewRewards([submission], species);
+      const outcome = await approveUnderPolicy(submission, evaluation, reviewPolicy, { id: user?.id, isAdmin });
 
-      if (error) throw error;
-
-      toast.success('Planting verified! Payment will be processed.');
-
-      // TODO: Trigger M-Pesa payment via edge function
-      // await supabase.functions.invoke('process-mpesa-payment', {
-      //   body: { verificationId: submission.id, phone: submission.submission_phone }
-      // });
+      toast.success(
+        outcome === 'first_review'
+          ? 'First approval recorded - another reviewer must approve'
+          : `Planting verified! KSh ${evaluation.amount} credited to the farmer's wallet.`
+      );
 
       fetchDashboardData();
     } catch (error) {
       logger.error('Error approving submission:', error);
-      toast.error('Failed to approve submission');
+      toast.error(error instanceof Error ? error.message : 'Failed to approve submission');
     } finally {
       setProcessing(false);
     }
@@ -183,6 +192,7 @@ export default function AdminOverview() {
         <div>
           <h1 className="text-2xl md:text-3xl font-bold">Verification Dashboard</h1>
           <p className="text-sm md:text-base text-muted-foreground">Review and approve planting submissions</p>
+          <ModeratorScopeNote />
         </div>
       </div>
 
@@ -334,12 +344,18 @@ export default function AdminOverview() {
                       Approve & Send Payment
                     </Button>
 
+                    {reviewStage(submission) !== 'first_review' && (
+                      <Badge variant="outline" className="self-center">
+                        {REVIEW_STAGE_LABELS[reviewStage(submission)]}
+                      </Badge>
+                    )}
+
                     <Button
                       onClick={() => {
                         setSelectedSubmission(submission);
                         setRejectDialogOpen(true);
                       }}
-                      disabled={processing}
+                      disabled={processing || (!isAdmin && reviewStage(submission) === 'escalated')}
                       variant="destructive"
                       className="w-full"
                     >
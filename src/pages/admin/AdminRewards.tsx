@@ -0,0 +1,791 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Plus, Pencil, Archive, ArchiveRestore, Coins, Megaphone, Calculator, Users } from 'lucide-react';
+import { toast } from 'sonner';
+import { logger } from '@/utils/logger';
+import { useAdminAuth } from '@/hooks/useAdminAuth';
+import { useTreeSpecies } from '@/hooks/useTreeSpecies';
+import { KENYAN_COUNTIES } from '@/data/kenya';
+import { rewardCampaignSchema, rewardRuleSchema } from '@/utils/validation';
+import { RewardBreakdown } from '@/components/RewardBreakdown';
+import { DEFAULT_REVIEW_POLICY, type ReviewPolicy } from '@/utils/reviewPolicy';
+import { fetchReviewPolicy, saveReviewPolicy } from '@/utils/reviewPolicyService';
+import {
+  evaluateReward,
+  REWARD_RULE_KINDS,
+  SURVIVAL_CHECK_MONTHS,
+  type RewardCampaign,
+  type RewardRule,
+  type RewardRuleKind,
+  type SurvivalCheckMonths,
+} from '@/utils/rewardRules';
+import {
+  fetchCampaignSpend,
+  fetchRewardCampaigns,
+  fetchRewardRules,
+  saveRewardCampaign,
+  saveRewardRule,
+  setRewardCampaignActive,
+  setRewardRuleActive,
+  type RewardCampaignInput,
+  type RewardRuleInput,
+} from '@/utils/rewardRulesService';
+
+const KIND_LABELS: Record<RewardRuleKind, string> = {
+  base_amount: 'Base amount',
+  multiplier: 'Multiplier',
+  survival_bonus: 'Survival bonus',
+  monthly_cap: 'Monthly cap',
+};
+
+const emptyRule: RewardRuleInput = {
+  name: '',
+  kind: 'base_amount',
+  amount: null,
+  multiplier: null,
+  survival_months: null,
+  species_slugs: [],
+  counties: [],
+  campaign_id: null,
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const emptyCampaign = (): RewardCampaignInput => ({
+  name: '',
+  description: '',
+  budget: 0,
+  starts_on: today(),
+  ends_on: today(),
+  counties: [],
+  species_slugs: [],
+});
+
+const toggleValue = (values: string[], value: string): string[] =>
+  values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+
+const describeValue = (rule: RewardRule) => {
+  if (rule.kind === 'multiplier') return `×${Number(rule.multiplier)}`;
+  if (rule.kind === 'survival_bonus') return `KSh ${Number(rule.amount)} at ${rule.survival_months} months`;
+  if (rule.kind === 'monthly_cap') return `KSh ${Number(rule.amount)} / month`;
+  return `KSh ${Number(rule.amount)}`;
+};
+
+const describeScope = (scope: { species_slugs: string[]; counties: string[] }) => {
+  const parts = [
+    scope.species_slugs.length > 0 ? scope.species_slugs.join(', ') : null,
+    scope.counties.length > 0 ? `${scope.counties.length} counties` : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : 'All plantings';
+};
+
+export default function AdminRewards() {
+  const { isAdmin } = useAdminAuth();
+  const { species } = useTreeSpecies({ includeInactive: true });
+  const [rules, setRules] = useState<RewardRule[]>([]);
+  const [campaigns, setCampaigns] = useState<RewardCampaign[]>([]);
+  const [campaignSpend, setCampaignSpend] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const [showRuleEditor, setShowRuleEditor] = useState(false);
+  const [editingRuleId, setEditingRuleId] = useState<string | null>(null);
+  const [ruleForm, setRuleForm] = useState<RewardRuleInput>(emptyRule);
+
+  const [showCampaignEditor, setShowCampaignEditor] = useState(false);
+  const [editingCampaignId, setEditingCampaignId] = useState<string | null>(null);
+  const [campaignForm, setCampaignForm] = useState<RewardCampaignInput>(emptyCampaign);
+
+  const [reviewPolicy, setReviewPolicy] = useState<ReviewPolicy>(DEFAULT_REVIEW_POLICY);
+  const [savingPolicy, setSavingPolicy] = useState(false);
+
+  // What-if calculator
+  const [previewSpecies, setPreviewSpecies] = useState('mango');
+  const [previewCounty, setPreviewCounty] = useState<string>('Nyeri');
+  const [previewDate, setPreviewDate] = useState(today);
+  const [previewStage, setPreviewStage] = useState<'planting' | `${SurvivalCheckMonths}`>('planting');
+  const [previewEarned, setPreviewEarned] = useState(0);
+
+  const loadRewards = useCallback(async () => {
+    try {
+      const [ruleRows, campaignRows, spend, policy] = await Promise.all([
+        fetchRewardRules({ includeInactive: true }),
+        fetchRewardCampaigns({ includeInactive: true }),
+        fetchCampaignSpend(),
+        fetchReviewPolicy(),
+      ]);
+      setRules(ruleRows);
+      setCampaigns(campaignRows);
+      setCampaignSpend(spend);
+      setReviewPolicy(policy ?? DEFAULT_REVIEW_POLICY);
+    } catch (error) {
+      logger.error('Error loading reward rules:', error);
+      toast.error('Failed to load reward rules');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRewards();
+  }, [loadRewards]);
+
+  const preview = useMemo(
+    () =>
+      evaluateReward(
+        {
+          speciesSlug: previewSpecies,
+          county: previewCounty,
+          plantingDate: previewDate,
+          survivalMonths: previewStage === 'planting' ? undefined : (Number(previewStage) as SurvivalCheckMonths),
+        },
+        rules,
+        campaigns,
+        { earnedThisMonth: previewEarned, campaignSpend, approvedAt: new Date() }
+      ),
+    [rules, campaigns, campaignSpend, previewSpecies, previewCounty, previewDate, previewStage, previewEarned]
+  );
+
+  const campaignName = (id: string | null) => campaigns.find((c) => c.id === id)?.name;
+
+  const openRule = (rule?: RewardRule) => {
+    setEditingRuleId(rule?.id ?? null);
+    setRuleForm(rule
+      ? {
+        name: rule.name,
+        kind: rule.kind,
+        amount: rule.amount,
+        multiplier: rule.multiplier,
+        survival_months: rule.survival_months,
+        species_slugs: rule.species_slugs,
+        counties: rule.counties,
+        campaign_id: rule.campaign_id,
+      }
+      : emptyRule);
+    setShowRuleEditor(true);
+  };
+
+  const openCampaign = (campaign?: RewardCampaign) => {
+    setEditingCampaignId(campaign?.id ?? null);
+    setCampaignForm(campaign
+      ? {
+        name: campaign.name,
+        description: campaign.description ?? '',
+        budget: campaign.budget,
+        starts_on: campaign.starts_on,
+        ends_on: campaign.ends_on,
+        counties: campaign.counties,
+        species_slugs: campaign.species_slugs,
+      }
+      : emptyCampaign());
+    setShowCampaignEditor(true);
+  };
+
+  const handleSaveRule = async () => {
+    const validation = rewardRuleSchema.safeParse(ruleForm);
+    if (!validation.success) {
+      toast.error(validation.error.errors[0]?.message || 'Please check the form');
+      return;
+    }
+
+    // Keep only the value the kind uses
+    const kind = ruleForm.kind as RewardRuleKind;
+    const input: RewardRuleInput = {
+      ...ruleForm,
+      name: ruleForm.name.trim(),
+      amount: kind === 'multiplier' ? null : ruleForm.amount,
+      multiplier: kind === 'multiplier' ? ruleForm.multiplier : null,
+      survival_months: kind === 'survival_bonus' ? ruleForm.survival_months : null,
+    };
+
+    setSaving(true);
+    try {
+      await saveRewardRule(input, editingRuleId ?? undefined);
+      toast.success(`${input.name} ${editingRuleId ? 'updated' : 'added'}`);
+      setShowRuleEditor(false);
+      await loadRewards();
+    } catch (error) {
+      logger.error('Error saving reward rule:', error);
+      toast.error('Failed to save reward rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveCampaign = async () => {
+    const validation = rewardCampaignSchema.safeParse(campaignForm);
+    if (!validation.success) {
+      toast.error(validation.error.errors[0]?.message || 'Please check the form');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveRewardCampaign(
+        { ...campaignForm, name: campaignForm.name.trim(), description: campaignForm.description?.trim() || null },
+        editingCampaignId ?? undefined
+      );
+      toast.success(`${campaignForm.name} ${editingCampaignId ? 'updated' : 'created'}`);
+      setShowCampaignEditor(false);
+      await loadRewards();
+    } catch (error) {
+      logger.error('Error saving campaign:', error);
+      toast.error('Failed to save campaign');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSavePolicy = async () => {
+    if (!Number.isFinite(reviewPolicy.second_review_min_reward) || reviewPolicy.second_review_min_reward < 0) {
+      toast.error('Enter a reward of KSh 0 or more');
+      return;
+    }
+
+    setSavingPolicy(true);
+    try {
+      await saveReviewPolicy(reviewPolicy);
+      toast.success('Review policy saved');
+    } catch (error) {
+      logger.error('Error saving review policy:', error);
+      toast.error('Failed to save the review policy');
+    } finally {
+      setSavingPolicy(false);
+    }
+  };
+
+  const handleToggleRule = async (rule: RewardRule) => {
+    try {
+      await setRewardRuleActive(rule.id, !rule.is_active);
+      toast.success(`${rule.name} ${rule.is_active ? 'paused' : 'enabled'}`);
+      await loadRewards();
+    } catch (error) {
+      logger.error('Error updating reward rule:', error);
+      toast.error('Failed to update reward rule');
+    }
+  };
+
+  const handleToggleCampaign = async (campaign: RewardCampaign) => {
+    try {
+      await setRewardCampaignActive(campaign.id, !campaign.is_active);
+      toast.success(`${campaign.name} ${campaign.is_active ? 'paused' : 'resumed'}`);
+      await loadRewards();
+    } catch (error) {
+      logger.error('Error updating campaign:', error);
+      toast.error('Failed to update campaign');
+    }
+  };
+
+  const renderScopePicker = (
+    value: { species_slugs?: string[]; counties?: string[] },
+    onChange: (scope: { species_slugs: string[]; counties: string[] }) => void
+  ) => {
+    const speciesSlugs = value.species_slugs ?? [];
+    const counties = value.counties ?? [];
+    return (
+      <>
+        <div className="space-y-2">
+          <Label>Species ({speciesSlugs.length === 0 ? 'any' : speciesSlugs.length})</Label>
+          <ScrollArea className="h-28 rounded border p-2">
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+              {species.map((tree) => (
+                <label key={tree.id} className="flex items-center gap-2 text-xs">
+                  <Checkbox
+                    checked={speciesSlugs.includes(tree.id)}
+                    onCheckedChange={() => onChange({ species_slugs: toggleValue(speciesSlugs, tree.id), counties })}
+                  />
+                  {tree.englishName}
+                </label>
+              ))}
+            </div>
+          </ScrollArea>
+        </div>
+        <div className="space-y-2">
+          <Label>Counties ({counties.length === 0 ? 'any' : counties.length})</Label>
+          <ScrollArea className="h-28 rounded border p-2">
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+              {KENYAN_COUNTIES.map((county) => (
+                <label key={county} className="flex items-center gap-2 text-xs">
+                  <Checkbox
+                    checked={counties.includes(county)}
+                    onCheckedChange={() => onChange({ species_slugs: speciesSlugs, counties: toggleValue(counties, county) })}
+                  />
+                  {county}
+                </label>
+              ))}
+            </div>
+          </ScrollArea>
+        </div>
+      </>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="p-8 space-y-6">
+        <Skeleton className="h-12 w-64" />
+        <Skeleton className="h-96 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 md:p-8 space-y-4 md:space-y-6">
+      <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-3 md:gap-0">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold">Reward Rules</h1>
+          <p className="text-sm md:text-base text-muted-foreground">
+            Decide what each verified planting earns. Changes apply to the next approval.
+          </p>
+        </div>
+        {isAdmin && (
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Button variant="outline" onClick={() => openCampaign()} className="w-full md:w-auto">
+              <Megaphone className="h-4 w-4 mr-2" />
+              New Campaign
+            </Button>
+            <Button onClick={() => openRule()} className="w-full md:w-auto">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Rule
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Rules */}
+      <Card>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Rule</TableHead>
+              <TableHead>Value</TableHead>
+              <TableHead className="hidden md:table-cell">Applies to</TableHead>
+              <TableHead>Status</TableHead>
+              {isAdmin && <TableHead>Actions</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rules.map((rule) => (
+              <TableRow key={rule.id}>
+                <TableCell>
+                  <p className="font-medium">{rule.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {KIND_LABELS[rule.kind as RewardRuleKind] ?? rule.kind}
+                    {rule.campaign_id && ` · ${campaignName(rule.campaign_id) ?? 'campaign'} only`}
+                  </p>
+                </TableCell>
+                <TableCell className="text-sm">{describeValue(rule)}</TableCell>
+                <TableCell className="hidden md:table-cell text-sm text-muted-foreground">
+                  {describeScope(rule)}
+                </TableCell>
+                <TableCell>
+                  <Badge variant={rule.is_active ? 'default' : 'outline'}>
+                    {rule.is_active ? 'active' : 'paused'}
+                  </Badge>
+                </TableCell>
+                {isAdmin && (
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <Button size="sm" variant="outline" onClick={() => openRule(rule)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleToggleRule(rule)}
+                        aria-label={rule.is_active ? 'Pause rule' : 'Enable rule'}
+                      >
+                        {rule.is_active ? <Archive className="h-4 w-4" /> : <ArchiveRestore className="h-4 w-4" />}
+                      </Button>
+                    </div>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Card>
+
+      {/* Campaigns */}
+      <Card className="p-4 space-y-4">
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <Megaphone className="h-5 w-5" />
+          Campaigns
+        </h2>
+        {campaigns.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No campaigns yet. A campaign funds rewards for plantings in its dates and area until its budget runs out.
+          </p>
+        ) : (
+          <div className="grid gap-3 md:grid-cols-2">
+            {campaigns.map((campaign) => {
+              const spent = campaignSpend[campaign.id] ?? 0;
+              return (
+                <div key={campaign.id} className="rounded-lg border p-3 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <p className="font-medium">{campaign.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(campaign.starts_on).toLocaleDateString()} - {new Date(campaign.ends_on).toLocaleDateString()}
+                        {' · '}{describeScope(campaign)}
+                      </p>
+                    </div>
+                    <Badge variant={campaign.is_active ? 'default' : 'outline'}>
+                      {campaign.is_active ? 'active' : 'paused'}
+                    </Badge>
+                  </div>
+                  <Progress value={Math.min(100, (spent / Number(campaign.budget)) * 100)} />
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span>KSh {spent.toLocaleString()} of KSh {Number(campaign.budget).toLocaleString()} spent</span>
+                    {isAdmin && (
+                      <div className="flex gap-2">
+                        <Button size="sm" variant="ghost" onClick={() => openCampaign(campaign)}>
+                          <Pencil className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleToggleCampaign(campaign)}
+                          aria-label={campaign.is_active ? 'Pause campaign' : 'Resume campaign'}
+                        >
+                          {campaign.is_active ? <Archive className="h-3 w-3" /> : <ArchiveRestore className="h-3 w-3" />}
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </Card>
+
+      {/* Two-stage review */}
+      <Card className="p-4 space-y-4">
+        <div>
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Two-stage Review
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            Costly or suspicious submissions need approvals from two different reviewers before the reward is paid.
+          </p>
+        </div>
+        <div className="grid gap-4 grid-cols-1 md:grid-cols-3 md:items-end">
+          <div className="flex items-center justify-between gap-3 rounded-lg border p-3">
+            <Label htmlFor="review-enabled">Require a second reviewer</Label>
+            <Switch
+              id="review-enabled"
+              checked={reviewPolicy.enabled}
+              disabled={!isAdmin}
+              onCheckedChange={(enabled) => setReviewPolicy({ ...reviewPolicy, enabled })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="review-min-reward">For rewards from (KSh)</Label>
+            <Input
+              id="review-min-reward"
+              type="number"
+              min="0"
+              disabled={!isAdmin || !reviewPolicy.enabled}
+              value={reviewPolicy.second_review_min_reward}
+              onChange={(e) => setReviewPolicy({ ...reviewPolicy, second_review_min_reward: parseFloat(e.target.value) })}
+            />
+          </div>
+          <div className="flex items-center justify-between gap-3 rounded-lg border p-3">
+            <Label htmlFor="review-flagged">And for any fraud-flagged submission</Label>
+            <Switch
+              id="review-flagged"
+              checked={reviewPolicy.second_review_when_flagged}
+              disabled={!isAdmin || !reviewPolicy.enabled}
+              onCheckedChange={(checked) => setReviewPolicy({ ...reviewPolicy, second_review_when_flagged: checked })}
+            />
+          </div>
+        </div>
+        {isAdmin && (
+          <div className="flex justify-end">
+            <Button onClick={handleSavePolicy} disabled={savingPolicy}>
+              Save policy
+            </Button>
+          </div>
+        )}
+      </Card>
+
+      {/* What-if calculator */}
+      <Card className="p-4 space-y-4">
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <Calculator className="h-5 w-5" />
+          Preview a Reward
+        </h2>
+        <div className="grid gap-3 grid-cols-1 sm:grid-cols-2 md:grid-cols-5">
+          <div className="space-y-1">
+            <Label>Species</Label>
+            <Select value={previewSpecies} onValueChange={setPreviewSpecies}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {species.map((tree) => (
+                  <SelectItem key={tree.id} value={tree.id}>{tree.englishName}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>County</Label>
+            <Select value={previewCounty} onValueChange={setPreviewCounty}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {KENYAN_COUNTIES.map((county) => (
+                  <SelectItem key={county} value={county}>{county}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="preview-date">Planting date</Label>
+            <Input id="preview-date" type="date" value={previewDate} onChange={(e) => setPreviewDate(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label>Submission</Label>
+            <Select value={previewStage} onValueChange={(value) => setPreviewStage(value as typeof previewStage)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="planting">New planting</SelectItem>
+                {SURVIVAL_CHECK_MONTHS.map((months) => (
+                  <SelectItem key={months} value={String(months)}>{months}-month survival check</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="preview-earned">Earned this month (KSh)</Label>
+            <Input
+              id="preview-earned"
+              type="number"
+              min="0"
+              value={previewEarned}
+              onChange={(e) => setPreviewEarned(parseFloat(e.target.value) || 0)}
+            />
+          </div>
+        </div>
+        <RewardBreakdown evaluation={preview} />
+      </Card>
+
+      {/* Rule Editor Dialog */}
+      <Dialog open={showRuleEditor} onOpenChange={setShowRuleEditor}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Coins className="h-5 w-5" />
+              {editingRuleId === null ? 'Add Reward Rule' : `Edit ${ruleForm.name}`}
+            </DialogTitle>
+            <DialogDescription>
+              Leave species and counties empty for a rule that applies everywhere.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="rule-name">Name</Label>
+                <Input
+                  id="rule-name"
+                  placeholder="e.g. Indigenous species"
+                  value={ruleForm.name}
+                  onChange={(e) => setRuleForm({ ...ruleForm, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Kind</Label>
+                <Select value={ruleForm.kind} onValueChange={(kind) => setRuleForm({ ...ruleForm, kind })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {REWARD_RULE_KINDS.map((kind) => (
+                      <SelectItem key={kind} value={kind}>{KIND_LABELS[kind]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {ruleForm.kind === 'multiplier' ? (
+                <div className="space-y-2">
+                  <Label htmlFor="rule-multiplier">Multiplier</Label>
+                  <Input
+                    id="rule-multiplier"
+                    type="number"
+                    step="0.05"
+                    min="0"
+                    value={ruleForm.multiplier ?? ''}
+                    onChange={(e) => setRuleForm({ ...ruleForm, multiplier: e.target.value === '' ? null : parseFloat(e.target.value) })}
+                  />
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label htmlFor="rule-amount">Amount (KSh)</Label>
+                  <Input
+                    id="rule-amount"
+                    type="number"
+                    min="0"
+                    value={ruleForm.amount ?? ''}
+                    onChange={(e) => setRuleForm({ ...ruleForm, amount: e.target.value === '' ? null : parseFloat(e.target.value) })}
+                  />
+                </div>
+              )}
+              {ruleForm.kind === 'survival_bonus' && (
+                <div className="space-y-2">
+                  <Label>Survival check</Label>
+                  <Select
+                    value={ruleForm.survival_months ? String(ruleForm.survival_months) : ''}
+                    onValueChange={(value) => setRuleForm({ ...ruleForm, survival_months: Number(value) })}
+                  >
+                    <SelectTrigger><SelectValue placeholder="Choose..." /></SelectTrigger>
+                    <SelectContent>
+                      {SURVIVAL_CHECK_MONTHS.map((months) => (
+                        <SelectItem key={months} value={String(months)}>{months} months</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label>Campaign</Label>
+                <Select
+                  value={ruleForm.campaign_id ?? 'none'}
+                  onValueChange={(value) => setRuleForm({ ...ruleForm, campaign_id: value === 'none' ? null : value })}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Standing rule (no campaign)</SelectItem>
+                    {campaigns.map((campaign) => (
+                      <SelectItem key={campaign.id} value={campaign.id}>{campaign.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {renderScopePicker(ruleForm, (scope) => setRuleForm({ ...ruleForm, ...scope }))}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowRuleEditor(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveRule} disabled={saving}>
+              {saving ? 'Saving...' : 'Save Rule'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Campaign Editor Dialog */}
+      <Dialog open={showCampaignEditor} onOpenChange={setShowCampaignEditor}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Megaphone className="h-5 w-5" />
+              {editingCampaignId === null ? 'New Campaign' : `Edit ${campaignForm.name}`}
+            </DialogTitle>
+            <DialogDescription>
+              Rewards for matching plantings are charged to the campaign until its budget is spent.
+              Add rules with this campaign selected to change what it pays.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="campaign-name">Name</Label>
+                <Input
+                  id="campaign-name"
+                  placeholder="e.g. Mau Forest short rains drive"
+                  value={campaignForm.name}
+                  onChange={(e) => setCampaignForm({ ...campaignForm, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="campaign-budget">Budget (KSh)</Label>
+                <Input
+                  id="campaign-budget"
+                  type="number"
+                  min="0"
+                  value={campaignForm.budget}
+                  onChange={(e) => setCampaignForm({ ...campaignForm, budget: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="campaign-start">Plantings from</Label>
+                <Input
+                  id="campaign-start"
+                  type="date"
+                  value={campaignForm.starts_on}
+                  onChange={(e) => setCampaignForm({ ...campaignForm, starts_on: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="campaign-end">Plantings until</Label>
+                <Input
+                  id="campaign-end"
+                  type="date"
+                  value={campaignForm.ends_on}
+                  onChange={(e) => setCampaignForm({ ...campaignForm, ends_on: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="campaign-description">Description</Label>
+              <Textarea
+                id="campaign-description"
+                rows={2}
+                value={campaignForm.description ?? ''}
+                onChange={(e) => setCampaignForm({ ...campaignForm, description: e.target.value })}
+              />
+            </div>
+
+            {renderScopePicker(campaignForm, (scope) => setCampaignForm({ ...campaignForm, ...scope }))}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowCampaignEditor(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveCampaign} disabled={saving}>
+              {saving ? 'Saving...' : 'Save Campaign'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,439 @@
+import { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Plus, Pencil, Search, Archive, ArchiveRestore, TreePine } from 'lucide-react';
+import { toast } from 'sonner';
+import { logger } from '@/utils/logger';
+import { useAdminAuth } from '@/hooks/useAdminAuth';
+import { useTreeSpecies } from '@/hooks/useTreeSpecies';
+import {
+  AGRO_ECOLOGICAL_ZONES,
+  KENYAN_COUNTIES,
+  TREE_USES,
+  type KenyanTreeSpecies,
+  type TreeUse,
+} from '@/data/kenya';
+import { treeSpeciesSchema } from '@/utils/validation';
+import {
+  createTreeSpecies,
+  setTreeSpeciesActive,
+  updateTreeSpecies,
+  type TreeSpeciesInput,
+} from '@/utils/treeSpeciesService';
+
+const emptyForm: TreeSpeciesInput = {
+  slug: '',
+  englishName: '',
+  swahiliName: '',
+  scientificName: '',
+  aliases: [],
+  imageUrl: '',
+  suitableCounties: [],
+  agroZones: [],
+  price: 0,
+  kefriCode: '',
+  uses: [],
+  description: { en: '', sw: '' },
+};
+
+const toFormInput = (tree: KenyanTreeSpecies): TreeSpeciesInput => ({
+  slug: tree.id,
+  englishName: tree.englishName,
+  swahiliName: tree.swahiliName,
+  scientificName: tree.scientificName,
+  aliases: tree.aliases ?? [],
+  // Bundled asset paths are not editable URLs
+  imageUrl: tree.image.startsWith('http') ? tree.image : '',
+  suitableCounties: tree.suitableCounties,
+  agroZones: tree.agroZones,
+  price: tree.price,
+  kefriCode: tree.kefriCode ?? '',
+  uses: tree.uses,
+  description: { ...tree.description },
+  isActive: tree.isActive,
+});
+
+const toggleValue = <T extends string>(values: T[], value: T): T[] =>
+  values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+
+export default function AdminSpecies() {
+  const { isAdmin } = useAdminAuth();
+  const { species, source, loading, refresh } = useTreeSpecies({ includeInactive: true });
+  const [searchQuery, setSearchQuery] = useState('');
+  const [showEditor, setShowEditor] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<TreeSpeciesInput>(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  const filteredSpecies = species.filter((tree) => {
+    if (!searchQuery) return true;
+    const query = searchQuery.toLowerCase();
+    return (
+      tree.englishName.toLowerCase().includes(query) ||
+      tree.swahiliName.toLowerCase().includes(query) ||
+      tree.scientificName.toLowerCase().includes(query) ||
+      (tree.aliases ?? []).some((alias) => alias.toLowerCase().includes(query))
+    );
+  });
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setShowEditor(true);
+  };
+
+  const openEdit = (tree: KenyanTreeSpecies) => {
+    setEditingId(tree.dbId);
+    setForm(toFormInput(tree));
+    setShowEditor(true);
+  };
+
+  const handleSave = async () => {
+    const validation = treeSpeciesSchema.safeParse(form);
+    if (!validation.success) {
+      toast.error(validation.error.errors[0]?.message || 'Please check the form');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (editingId === null) {
+        await createTreeSpecies(form);
+        toast.success(`${form.englishName} added to the catalog`);
+      } else {
+        await updateTreeSpecies(editingId, form);
+        toast.success(`${form.englishName} updated`);
+      }
+      setShowEditor(false);
+      await refresh();
+    } catch (error) {
+      logger.error('Error saving species:', error);
+      toast.error('Failed to save species');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (tree: KenyanTreeSpecies) => {
+    const nextActive = tree.isActive === false;
+    try {
+      await setTreeSpeciesActive(tree.dbId, nextActive);
+      toast.success(`${tree.englishName} ${nextActive ? 'restored' : 'retired'}`);
+      await refresh();
+    } catch (error) {
+      logger.error('Error updating species status:', error);
+      toast.error('Failed to update species');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-8 space-y-6">
+        <Skeleton className="h-12 w-64" />
+        <Skeleton className="h-96 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 md:p-8 space-y-4 md:space-y-6">
+      <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-3 md:gap-0">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold">Species Catalog</h1>
+          <p className="text-sm md:text-base text-muted-foreground">
+            {species.length} species
+            {source === 'seed' && ' (showing bundled seed - registry unavailable)'}
+          </p>
+        </div>
+        {isAdmin && (
+          <Button onClick={openCreate} className="w-full md:w-auto">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Species
+          </Button>
+        )}
+      </div>
+
+      {/* Search */}
+      <Card className="p-4">
+        <div className="relative">
+          <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search by English, Swahili or scientific name..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+      </Card>
+
+      {/* Species Table */}
+      <Card>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Species</TableHead>
+              <TableHead className="hidden md:table-cell">Agro Zones</TableHead>
+              <TableHead className="hidden md:table-cell">Uses</TableHead>
+              <TableHead>Price</TableHead>
+              <TableHead>Status</TableHead>
+              {isAdmin && <TableHead>Actions</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {filteredSpecies.map((tree) => (
+              <TableRow key={tree.dbId}>
+                <TableCell>
+                  <div className="flex items-center gap-3">
+                    <img
+                      src={tree.image}
+                      alt={tree.englishName}
+                      className="w-10 h-10 object-cover rounded"
+                    />
+                    <div>
+                      <p className="font-medium">{tree.englishName} / {tree.swahiliName}</p>
+                      <p className="text-xs text-muted-foreground italic">{tree.scientificName}</p>
+                      {tree.kefriCode && (
+                        <p className="text-xs text-muted-foreground font-mono">{tree.kefriCode}</p>
+                      )}
+                    </div>
+                  </div>
+                </TableCell>
+                <TableCell className="hidden md:table-cell">
+                  <div className="flex flex-wrap gap-1">
+                    {tree.agroZones.map((zone) => (
+                      <Badge key={zone} variant="outline" className="text-xs">{zone}</Badge>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell className="hidden md:table-cell">
+                  <div className="flex flex-wrap gap-1">
+                    {tree.uses.map((use) => (
+                      <Badge key={use} variant="secondary" className="text-xs">{use}</Badge>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell className="text-sm">KSh {tree.price}</TableCell>
+                <TableCell>
+                  <Badge variant={tree.isActive === false ? 'outline' : 'default'}>
+                    {tree.isActive === false ? 'retired' : 'active'}
+                  </Badge>
+                </TableCell>
+                {isAdmin && (
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <Button size="sm" variant="outline" onClick={() => openEdit(tree)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleToggleActive(tree)}
+                        aria-label={tree.isActive === false ? 'Restore species' : 'Retire species'}
+                      >
+                        {tree.isActive === false
+                          ? <ArchiveRestore className="h-4 w-4" />
+                          : <Archive className="h-4 w-4" />}
+                      </Button>
+                    </div>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Card>
+
+      {/* Species Editor Dialog */}
+      <Dialog open={showEditor} onOpenChange={setShowEditor}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <TreePine className="h-5 w-5" />
+              {editingId === null ? 'Add Species' : `Edit ${form.englishName}`}
+            </DialogTitle>
+            <DialogDescription>
+              Changes are live for all farmers immediately - no redeploy needed.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="species-english">English Name</Label>
+                <Input
+                  id="species-english"
+                  value={form.englishName}
+                  onChange={(e) => setForm({ ...form, englishName: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="species-swahili">Swahili Name</Label>
+                <Input
+                  id="species-swahili"
+                  value={form.swahiliName}
+                  onChange={(e) => setForm({ ...form, swahiliName: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="species-scientific">Scientific Name</Label>
+                <Input
+                  id="species-scientific"
+                  value={form.scientificName}
+                  onChange={(e) => setForm({ ...form, scientificName: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="species-aliases">Other Names</Label>
+                <Input
+                  id="species-aliases"
+                  placeholder="Comma-separated, e.g. Embe, Mwembe"
+                  value={(form.aliases ?? []).join(',')}
+                  onChange={(e) => setForm({ ...form, aliases: e.target.value.split(',') })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="species-slug">Slug</Label>
+                <Input
+                  id="species-slug"
+                  placeholder="e.g. prunus-africana"
+                  value={form.slug}
+                  disabled={editingId !== null}
+                  onChange={(e) => setForm({ ...form, slug: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="species-price">Price (KSh per seedling)</Label>
+                <Input
+                  id="species-price"
+                  type="number"
+                  min="0"
+                  value={form.price}
+                  onChange={(e) => setForm({ ...form, price: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="species-kefri">KEFRI Code</Label>
+                <Input
+                  id="species-kefri"
+                  placeholder="Optional"
+                  value={form.kefriCode ?? ''}
+                  onChange={(e) => setForm({ ...form, kefriCode: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="species-image">Image URL</Label>
+              <Input
+                id="species-image"
+                placeholder="Leave empty to use the bundled photo"
+                value={form.imageUrl ?? ''}
+                onChange={(e) => setForm({ ...form, imageUrl: e.target.value })}
+              />
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="species-desc-en">Description (English)</Label>
+                <Textarea
+                  id="species-desc-en"
+                  rows={3}
+                  value={form.description.en}
+                  onChange={(e) => setForm({ ...form, description: { ...form.description, en: e.target.value } })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="species-desc-sw">Maelezo (Kiswahili)</Label>
+                <Textarea
+                  id="species-desc-sw"
+                  rows={3}
+                  value={form.description.sw}
+                  onChange={(e) => setForm({ ...form, description: { ...form.description, sw: e.target.value } })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Uses</Label>
+              <div className="flex flex-wrap gap-3">
+                {TREE_USES.map((use) => (
+                  <label key={use} className="flex items-center gap-2 text-sm capitalize">
+                    <Checkbox
+                      checked={form.uses.includes(use)}
+                      onCheckedChange={() => setForm({ ...form, uses: toggleValue<TreeUse>(form.uses, use) })}
+                    />
+                    {use}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Agro-Ecological Zones ({form.agroZones.length})</Label>
+              <div className="grid grid-cols-4 sm:grid-cols-6 gap-2">
+                {AGRO_ECOLOGICAL_ZONES.map((zone) => (
+                  <label key={zone} className="flex items-center gap-1 text-xs">
+                    <Checkbox
+                      checked={form.agroZones.includes(zone)}
+                      onCheckedChange={() => setForm({ ...form, agroZones: toggleValue(form.agroZones, zone) })}
+                    />
+                    {zone}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Suitable Counties ({form.suitableCounties.length})</Label>
+              <ScrollArea className="h-40 rounded border p-2">
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                  {KENYAN_COUNTIES.map((county) => (
+                    <label key={county} className="flex items-center gap-2 text-xs">
+                      <Checkbox
+                        checked={form.suitableCounties.includes(county)}
+                        onCheckedChange={() => setForm({ ...form, suitableCounties: toggleValue(form.suitableCounties, county) })}
+                      />
+                      {county}
+                    </label>
+                  ))}
+                </div>
+              </ScrollArea>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowEditor(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving...' : 'Save Species'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -5,6 +5,8 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
 import {
   Table,
   TableBody,
@@ -31,7 +33,7 @@ import {
 import { Search, Shield, UserCog, Mail, Phone, MapPin } from 'lucide-react';
 import { toast } from 'sonner';
 import { logger } from '@/utils/logger';
-import { countySchema, sanitizeString } from '@/utils/validation';
+import { KENYAN_COUNTIES } from '@/data/kenya';
 
 interface UserProfile {
   user_id: string;
@@ -44,6 +46,9 @@ interface UserProfile {
   onboarding_completed: boolean;
 }
 
+const toggleValue = (values: string[], value: string): string[] =>
+  values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+
 export default function AdminUsers() {
   const [users, setUsers] = useState<UserProfile[]>([]);
   const [filteredUsers, setFilteredUsers] = useState<UserProfile[]>([]);
@@ -52,7 +57,7 @@ export default function AdminUsers() {
   const [selectedUser, setSelectedUser] = useState<UserProfile | null>(null);
   const [showRoleDialog, setShowRoleDialog] = useState(false);
   const [selectedRole, setSelectedRole] = useState<'admin' | 'moderator' | 'user'>('user');
-  const [selectedCounty, setSelectedCounty] = useState('');
+  const [selectedCounties, setSelectedCounties] = useState<string[]>([]);
 
   useEffect(() => {
     fetchUsers();
@@ -94,16 +99,31 @@ export default function AdminUsers() {
     setFilteredUsers(filtered);
   };
 
+  const openRoleDialog = async (user: UserProfile) => {
+    setSelectedUser(user);
+    setSelectedCounties([]);
+    setShowRoleDialog(true);
+
+    try {
+      const { data, error } = await supabase
+        .from('moderator_counties')
+        .select('county')
+        .eq('user_id', user.user_id);
+
+      if (error) throw error;
+      setSelectedCounties((data || []).map((row) => row.county));
+    } catch (error) {
+      logger.error('Error fetching moderator counties:', error);
+    }
+  };
+
   const handleAssignRole = async () => {
     if (!selectedUser) return;
 
-    // Validate county if assigning moderator role
-    if (selectedRole === 'moderator' && selectedCounty) {
-      const validation = countySchema.safeParse(selectedCounty);
-      if (!validation.success) {
-        toast.error('Please enter a valid county');
-        return;
-      }
+    // The database only shows moderators submissions from their counties
+    if (selectedRole === 'moderator' && selectedCounties.length === 0) {
+      toast.error('Select at least one county for the moderator');
+      return;
     }
 
     try {
@@ -112,10 +132,30 @@ export default function AdminUsers() {
         .upsert({
           user_id: selectedUser.user_id,
           role: selectedRole,
-          county: selectedRole === 'moderator' ? (selectedCounty ? sanitizeString(selectedCounty) : null) : null
         });
 
       if (error) throw error;
+
+      const { error: clearError } = await supabase
+        .from('moderator_counties')
+        .delete()
+        .eq('user_id', selectedUser.user_id);
+
+      if (clearError) throw clearError;
+
+      if (selectedRole === 'moderator') {
+        const createdBy = (await supabase.auth.getUser()).data.user?.id;
+        const { error: countiesError } = await supabase
+          .from('moderator_counties')
+          .insert(selectedCounties.map((county) => ({
+            user_id: selectedUser.user_id,
+            county,
+            created_by: createdBy,
+          })));
+
+        if (countiesError) throw countiesError;
+      }
+
       toast.success('Role assigned successfully');
       setShowRoleDialog(false);
       setSelectedUser(null);
@@ -205,10 +245,7 @@ export default function AdminUsers() {
                   <Button
                     size="sm"
                     variant="outline"
-                    onClick={() => {
-                      setSelectedUser(user);
-                      setShowRoleDialog(true);
-                    }}
+                    onClick={() => openRoleDialog(user)}
                   >
                     <Shield className="h-4 w-4 mr-2" />
                     Manage Role
@@ -247,14 +284,22 @@ export default function AdminUsers() {
 
             {selectedRole === 'moderator' && (
               <div>
-                <label className="text-sm font-medium">County</label>
-                <Input
-                  placeholder="Enter county..."
-                  value={selectedCounty}
-                  onChange={(e) => setSelectedCounty(e.target.value)}
-                />
+                <label className="text-sm font-medium">Counties ({selectedCounties.length})</label>
+                <ScrollArea className="h-40 rounded border p-2 mt-1">
+                  <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                    {KENYAN_COUNTIES.map((county) => (
+                      <label key={county} className="flex items-center gap-2 text-xs">
+                        <Checkbox
+                          checked={selectedCounties.includes(county)}
+                          onCheckedChange={() => setSelectedCounties(toggleValue(selectedCounties, county))}
+                        />
+                        {county}
+                      </label>
+                    ))}
+                  </div>
+                </ScrollArea>
                 <p className="text-xs text-muted-foreground mt-1">
-                  Moderators can only manage verifications in their assigned county
+                  Moderators can only see and review verifications from their assigned counties
                 </p>
               </div>
             )}
@@ -0,0 +1,252 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AlertTriangle, MapPin, Sprout, XCircle, Camera } from 'lucide-react';
+import { toast } from 'sonner';
+import { logger } from '@/utils/logger';
+import { useTreeSpecies } from '@/hooks/useTreeSpecies';
+import { RewardBreakdown } from '@/components/RewardBreakdown';
+import { ModeratorScopeNote } from '@/components/ModeratorScopeNote';
+import { MAX_CHECK_IN_DISTANCE_M } from '@/utils/survivalChecks';
+import { previewSurvivalBonus } from '@/utils/rewardRulesService';
+import type { RewardEvaluation } from '@/utils/rewardRules';
+import {
+  fetchSurvivalChecksForReview,
+  reviewSurvivalCheck,
+  type SurvivalCheckForReview,
+  type SurvivalReviewOutcome,
+} from '@/utils/survivalChecksService';
+
+const OUTCOME_TITLES: Record<SurvivalReviewOutcome, string> = {
+  alive: 'Confirm Tree Alive',
+  dead: 'Record Tree as Dead',
+  rejected: 'Ask for a New Photo',
+};
+
+export default function SurvivalChecks() {
+  const { species } = useTreeSpecies({ includeInactive: true });
+  const [checks, setChecks] = useState<SurvivalCheckForReview[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [target, setTarget] = useState<{ check: SurvivalCheckForReview; outcome: SurvivalReviewOutcome } | null>(null);
+  const [bonus, setBonus] = useState<RewardEvaluation | null>(null);
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const loadChecks = useCallback(async () => {
+    try {
+      setChecks(await fetchSurvivalChecksForReview());
+    } catch (error) {
+      logger.error('Error fetching survival checks:', error);
+      toast.error('Failed to load survival check-ins');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadChecks();
+  }, [loadChecks]);
+
+  const openReview = async (check: SurvivalCheckForReview, outcome: SurvivalReviewOutcome) => {
+    setTarget({ check, outcome });
+    setNotes('');
+    setBonus(null);
+
+    if (outcome === 'alive' && check.planting) {
+      try {
+        setBonus(await previewSurvivalBonus(check, check.planting, species));
+      } catch (error) {
+        logger.error('Error evaluating survival bonus:', error);
+        toast.error('Could not work out the survival bonus');
+      }
+    }
+  };
+
+  const handleReview = async () => {
+    if (!target) return;
+    if (target.outcome === 'rejected' && !notes.trim()) {
+      toast.error('Tell the farmer what to change in the new photo');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const reviewerId = (await supabase.auth.getUser()).data.user?.id;
+      await reviewSurvivalCheck(target.check.id, target.outcome, reviewerId, {
+        notes: notes.trim() || null,
+      });
+      toast.success(
+        target.outcome === 'alive'
+          ? `Confirmed alive${bonus?.amount ? ` · KSh ${bonus.amount} bonus` : ''}`
+          : target.outcome === 'dead'
+            ? 'Recorded as dead'
+            : 'Farmer asked for a new photo'
+      );
+      setTarget(null);
+      loadChecks();
+    } catch (error) {
+      logger.error('Error reviewing survival check:', error);
+      toast.error(error.message || 'Failed to save review');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-8 space-y-6">
+        <Skeleton className="h-12 w-64" />
+        <Skeleton className="h-96 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 md:p-8 space-y-4 md:space-y-6">
+      <div>
+        <h1 className="text-2xl md:text-3xl font-bold">Survival Check-ins</h1>
+        <p className="text-sm md:text-base text-muted-foreground">
+          Compare each new photo with the original planting and record whether the tree is alive.
+        </p>
+        <ModeratorScopeNote />
+      </div>
+
+      {checks.length === 0 ? (
+        <Card className="p-8 text-center text-muted-foreground">No check-ins waiting for review</Card>
+      ) : (
+        <div className="space-y-4">
+          {checks.map((check) => {
+            const far = check.distance_m !== null && Number(check.distance_m) > MAX_CHECK_IN_DISTANCE_M;
+            return (
+              <Card key={check.id} className="p-4 space-y-4">
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div>
+                    <h3 className="font-semibold">{check.planting?.tree_name ?? 'Planting'}</h3>
+                    <p className="text-sm text-muted-foreground">
+                      {check.months}-month check-in · due {new Date(check.due_on).toLocaleDateString()}
+                      {check.planting?.county && ` · ${check.planting.county}`}
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <Badge variant={check.reported_alive ? 'default' : 'destructive'}>
+                      Farmer says {check.reported_alive ? 'alive' : 'dead'}
+                    </Badge>
+                    {check.distance_m !== null ? (
+                      <Badge variant="outline" className={far ? 'border-amber-500 text-amber-700' : ''}>
+                        {far ? <AlertTriangle className="h-3 w-3 mr-1" /> : <MapPin className="h-3 w-3 mr-1" />}
+                        {Number(check.distance_m).toLocaleString()} m from original
+                      </Badge>
+                    ) : (
+                      <Badge variant="outline">No original GPS</Badge>
+                    )}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <p className="text-xs font-medium text-muted-foreground">
+                      Original{check.planting?.planting_date && ` · ${new Date(check.planting.planting_date).toLocaleDateString()}`}
+                    </p>
+                    {check.planting && (
+                      <img src={check.planting.image_url} alt="Original planting" className="w-full h-56 object-cover rounded-lg" />
+                    )}
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-xs font-medium text-muted-foreground">
+                      Check-in{check.submitted_at && ` · ${new Date(check.submitted_at).toLocaleDateString()}`}
+                    </p>
+                    {check.image_url && (
+                      <img src={check.image_url} alt="Survival check-in" className="w-full h-56 object-cover rounded-lg" />
+                    )}
+                  </div>
+                </div>
+
+                {check.notes && <p className="text-sm text-muted-foreground">"{check.notes}"</p>}
+
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <Button onClick={() => openReview(check, 'alive')} className="sm:flex-1">
+                    <Sprout className="h-4 w-4 mr-2" />
+                    Alive
+                  </Button>
+                  <Button variant="destructive" onClick={() => openReview(check, 'dead')} className="sm:flex-1">
+                    <XCircle className="h-4 w-4 mr-2" />
+                    Dead
+                  </Button>
+                  <Button variant="outline" onClick={() => openReview(check, 'rejected')} className="sm:flex-1">
+                    <Camera className="h-4 w-4 mr-2" />
+                    Retake Photo
+                  </Button>
+                </div>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog open={!!target} onOpenChange={(open) => !open && setTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{target ? OUTCOME_TITLES[target.outcome] : ''}</DialogTitle>
+            <DialogDescription>
+              {target?.check.planting?.tree_name} · {target?.check.months}-month check-in
+            </DialogDescription>
+          </DialogHeader>
+
+          {target?.outcome === 'alive' && (
+            bonus ? (
+              <RewardBreakdown evaluation={bonus} />
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                {target.check.months === 3 ? 'The 3-month check-in does not earn a bonus.' : 'Working out the bonus...'}
+              </p>
+            )
+          )}
+          {target?.outcome === 'dead' && (
+            <p className="text-sm text-muted-foreground">
+              The planting will be marked as dead and its remaining check-ins cancelled.
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="survival-review-notes">
+              {target?.outcome === 'rejected' ? 'What should the farmer change? *' : 'Notes (optional)'}
+            </Label>
+            <Textarea
+              id="survival-review-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={3}
+              maxLength={500}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTarget(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleReview}
+              disabled={saving || (target?.outcome === 'alive' && target.check.months !== 3 && !bonus)}
+              variant={target?.outcome === 'dead' ? 'destructive' : 'default'}
+            >
+              {saving ? 'Saving...' : 'Confirm'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
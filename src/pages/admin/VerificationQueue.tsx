@@ -1,4 +1,5 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -22,6 +23,8 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import {
   CheckCircle,
   XCircle,
@@ -33,11 +36,58 @@ import {
   Search,
   Filter,
   Download,
-  Map
+  Map,
+  Undo2,
+  AlertTriangle,
+  Settings2,
+  PauseCircle,
+  History,
+  ArrowUpCircle,
+  Users,
+  Lock,
+  Clock,
+  Shuffle
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { logger } from '@/utils/logger';
 import { sanitizeString, notesSchema } from '@/utils/validation';
+import { useTreeSpecies } from '@/hooks/useTreeSpecies';
+import { previewRewards } from '@/utils/rewardRulesService';
+import type { RewardEvaluation } from '@/utils/rewardRules';
+import { RewardBreakdown } from '@/components/RewardBreakdown';
+import { RiskIndicator } from '@/components/RiskIndicator';
+import { AIResultSummary } from '@/components/AIResultSummary';
+import { ModeratorScopeNote } from '@/components/ModeratorScopeNote';
+import {
+  fetchAiResults,
+  fetchTriageSettings,
+  runRecognition,
+  saveTriageSettings,
+} from '@/utils/verificationAiResultsService';
+import type { VerificationAiResult } from '@/utils/verificationAiResults';
+import {
+  DEFAULT_TRIAGE_SETTINGS,
+  TRIAGE_LABELS,
+  triageVerification,
+  type Triage,
+  type TriageThresholds,
+} from '@/utils/speciesTriage';
+import {
+  approvalStep,
+  DEFAULT_REVIEW_POLICY,
+  REVIEW_STAGE_LABELS,
+  reviewStage,
+  type ApprovalStep,
+  type ReviewPolicy,
+} from '@/utils/reviewPolicy';
+import { approveUnderPolicy, escalateVerification, fetchReviewPolicy } from '@/utils/reviewPolicyService';
+import { claimedByOther, formatSla, isOverdue, slaStatus } from '@/utils/reviewAssignment';
+import { autoAssignVerifications, claimVerification, releaseVerification } from '@/utils/reviewAssignmentService';
+import { useAdminAuth } from '@/hooks/useAdminAuth';
+import { useAuth } from '@/hooks/useAuth';
+import { describeLocationIssues, isBlockingLocation, parseLocationCheck } from '@/utils/plantingGeofence';
+import { riskLevel } from '@/utils/verificationRisk';
+import type { Json } from '@/integrations/supabase/types';
 import {
   Table,
   TableBody,
@@ -64,8 +114,145 @@ interface VerificationItem {
   status: string;
   created_at: string;
   mpesa_transaction_id: string;
+  reward_amount: number;
+  risk_score: number;
+  risk_flags: Json;
+  location_checks: Json;
+  location_justification: string;
+  first_reviewed_by: string | null;
+  first_reviewer_name: string | null;
+  first_reviewed_at: string | null;
+  escalated_by: string | null;
+  escalated_by_name: string | null;
+  escalated_at: string | null;
+  escalation_note: string | null;
+  assigned_to: string | null;
+  assigned_to_name: string | null;
+  claimed_by: string | null;
+  claimed_by_name: string | null;
+  claimed_at: string | null;
 }
 
+/**
+ * Geofence warnings on a submission and the farmer's explanation for them
+ */
+const LocationIssues = ({ verification }: { verification: VerificationItem }) => {
+  const check = parseLocationCheck(verification.location_checks);
+  if (!check || check.issues.length === 0) return null;
+
+  return (
+    <div className="mt-1 space-y-1">
+      {describeLocationIssues(check).map((issue) => (
+        <p
+          key={issue}
+          className={`flex items-center gap-1 text-xs ${isBlockingLocation(check) ? 'text-red-600' : 'text-amber-600'}`}
+        >
+          <AlertTriangle className="h-3 w-3 shrink-0" />
+          {issue}
+        </p>
+      ))}
+      {verification.location_justification && (
+        <p className="text-xs italic text-muted-foreground">"{verification.location_justification}"</p>
+      )}
+    </div>
+  );
+};
+
+const hasLocationIssues = (verification: VerificationItem) =>
+  (parseLocationCheck(verification.location_checks)?.issues.length ?? 0) > 0;
+
+const TriageBadge = ({ triage }: { triage: Triage }) => {
+  if (triage === 'review') return null;
+  return triage === 'auto_approve' ? (
+    <Badge variant="outline" className="border-green-300 text-green-700">
+      <CheckCircle className="h-3 w-3 mr-1" aria-hidden="true" />
+      {TRIAGE_LABELS.auto_approve}
+    </Badge>
+  ) : (
+    <Badge variant="outline" className="border-red-300 text-red-700">
+      <PauseCircle className="h-3 w-3 mr-1" aria-hidden="true" />
+      {TRIAGE_LABELS.auto_hold}
+    </Badge>
+  );
+};
+
+/**
+ * Where a pending submission is in the two-stage review
+ */
+const ReviewStageBadge = ({ verification }: { verification: VerificationItem }) => {
+  const stage = reviewStage(verification);
+  if (stage === 'second_review') {
+    return (
+      <Badge variant="outline" className="mt-1 border-blue-300 text-blue-700" title={`First approved by ${verification.first_reviewer_name ?? 'a reviewer'}`}>
+        <Users className="h-3 w-3 mr-1" aria-hidden="true" />
+        {REVIEW_STAGE_LABELS.second_review}
+      </Badge>
+    );
+  }
+  if (stage === 'escalated') {
+    return (
+      <div className="mt-1">
+        <Badge variant="outline" className="border-purple-300 text-purple-700">
+          <ArrowUpCircle className="h-3 w-3 mr-1" aria-hidden="true" />
+          {REVIEW_STAGE_LABELS.escalated}
+        </Badge>
+        {verification.escalation_note && (
+          <p className="text-xs italic text-muted-foreground mt-1 max-w-[12rem] line-clamp-2" title={verification.escalation_note}>
+            "{verification.escalation_note}"
+          </p>
+        )}
+      </div>
+    );
+  }
+  return null;
+};
+
+const SlaBadge = ({ verification, now }: { verification: VerificationItem; now: number }) => {
+  const sla = slaStatus(verification, now);
+  if (!sla) return null;
+
+  return (
+    <p
+      className={`flex items-center gap-1 text-xs mt-1 ${sla.overdue ? 'text-red-600 font-medium' : sla.hoursLeft < 24 ? 'text-amber-600' : 'text-muted-foreground'}`}
+      title={`Review due ${sla.dueAt.toLocaleString()}`}
+    >
+      <Clock className="h-3 w-3 shrink-0" aria-hidden="true" />
+      {formatSla(sla)}
+    </p>
+  );
+};
+
+/**
+ * Who a pending submission is assigned to, and who is reviewing it now
+ */
+const AssignmentInfo = ({
+  verification,
+  reviewerId,
+  now,
+}: {
+  verification: VerificationItem;
+  reviewerId: string | undefined;
+  now: number;
+}) => {
+  if (verification.status !== 'pending') return null;
+
+  return (
+    <div className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+      {claimedByOther(verification, reviewerId, now) && (
+        <p className="flex items-center gap-1 text-amber-700">
+          <Lock className="h-3 w-3 shrink-0" aria-hidden="true" />
+          {verification.claimed_by_name ?? 'Another reviewer'} is reviewing
+        </p>
+      )}
+      {verification.assigned_to && (
+        <p>
+          Assigned to {verification.assigned_to === reviewerId ? 'you' : verification.assigned_to_name ?? 'a moderator'}
+        </p>
+      )}
+    </div>
+  );
+};
+
 export default function VerificationQueue() {
   const [verifications, setVerifications] = useState<VerificationItem[]>([]);
   const [filteredVerifications, setFilteredVerifications] = useState<VerificationItem[]>([]);
@@ -74,46 +261,179 @@ export default function VerificationQueue() {
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState('pending');
   const [countyFilter, setCountyFilter] = useState('all');
+  const [riskFilter, setRiskFilter] = useState<'all' | 'flagged' | 'high'>('all');
+  const [aiFilter, setAiFilter] = useState<'all' | 'ready' | 'held' | 'mismatch'>('all');
+  const [assignmentFilter, setAssignmentFilter] = useState<'all' | 'mine' | 'unassigned'>('all');
   const [selectedVerification, setSelectedVerification] = useState<VerificationItem | null>(null);
   const [rejectionReason, setRejectionReason] = useState('');
   const [showRejectDialog, setShowRejectDialog] = useState(false);
   const [showBulkDialog, setShowBulkDialog] = useState(false);
   const [bulkAction, setBulkAction] = useState<'approve' | 'reject'>('approve');
+  const [approveTarget, setApproveTarget] = useState<VerificationItem | null>(null);
+  // Reward previews for the single approval or, in order, the bulk approval
+  const [rewardPreview, setRewardPreview] = useState<RewardEvaluation[] | null>(null);
+  const [approving, setApproving] = useState(false);
+  const [aiResults, setAiResults] = useState<Record<string, VerificationAiResult>>({});
+  const [retryingAi, setRetryingAi] = useState<string | null>(null);
+  const [triageSettings, setTriageSettings] = useState<TriageThresholds>(DEFAULT_TRIAGE_SETTINGS);
+  const [triageForm, setTriageForm] = useState<TriageThresholds | null>(null);
+  const [savingTriage, setSavingTriage] = useState(false);
+  const [reviewPolicy, setReviewPolicy] = useState<ReviewPolicy>(DEFAULT_REVIEW_POLICY);
+  const [escalateTarget, setEscalateTarget] = useState<VerificationItem | null>(null);
+  const [escalationNote, setEscalationNote] = useState('');
+  const [assigning, setAssigning] = useState(false);
+  // Keeps the SLA timers and claim locks current
+  const [now, setNow] = useState(Date.now());
+  const { species } = useTreeSpecies({ includeInactive: true });
+  const { user } = useAuth();
+  const { isAdmin } = useAdminAuth();
+  const reviewer = { id: user?.id, isAdmin };
 
-  useEffect(() => {
-    fetchVerifications();
+  // Recognition results are extra context; the queue works without them
+  const loadAiResults = useCallback(async (ids: string[]) => {
+    try {
+      setAiResults(await fetchAiResults(ids));
+    } catch (error) {
+      logger.error('Error fetching AI results:', error);
+    }
   }, []);
 
-  useEffect(() => {
-    filterVerifications();
-  }, [verifications, searchQuery, statusFilter, countyFilter]); // eslint-disable-line react-hooks/exhaustive-deps
-
-  const fetchVerifications = async () => {
+  const fetchVerifications = useCallback(async () => {
     try {
       const { data, error } = await supabase.rpc('get_verification_queue');
       if (error) throw error;
       setVerifications(data || []);
+      loadAiResults((data || []).map((v) => v.id));
     } catch (error) {
       logger.error('Error fetching verifications:', error);
       toast.error('Failed to load verifications');
     } finally {
       setLoading(false);
     }
+  }, [loadAiResults]);
+
+  useEffect(() => {
+    fetchVerifications();
+    loadTriageSettings();
+    loadReviewPolicy();
+  }, [fetchVerifications]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    filterVerifications();
+  }, [verifications, searchQuery, statusFilter, countyFilter, riskFilter, aiFilter, assignmentFilter, aiResults, triageSettings]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Without settings triage stays off and everything is reviewed by hand
+  const loadTriageSettings = async () => {
+    try {
+      setTriageSettings((await fetchTriageSettings()) ?? DEFAULT_TRIAGE_SETTINGS);
+    } catch (error) {
+      logger.error('Error fetching triage settings:', error);
+    }
+  };
+
+  // The database enforces the policy either way; this only picks the step to offer
+  const loadReviewPolicy = async () => {
+    try {
+      setReviewPolicy((await fetchReviewPolicy()) ?? DEFAULT_REVIEW_POLICY);
+    } catch (error) {
+      logger.error('Error fetching review policy:', error);
+    }
+  };
+
+  const handleSaveTriage = async () => {
+    if (!triageForm) return;
+
+    setSavingTriage(true);
+    try {
+      await saveTriageSettings(triageForm);
+      setTriageSettings(triageForm);
+      setTriageForm(null);
+      toast.success('Triage settings saved');
+    } catch (error) {
+      logger.error('Error saving triage settings:', error);
+      toast.error('Failed to save triage settings');
+    } finally {
+      setSavingTriage(false);
+    }
+  };
+
+  const triageOf = (verification: VerificationItem) =>
+    triageVerification(
+      { ...verification, hasLocationIssues: hasLocationIssues(verification) },
+      aiResults[verification.id],
+      triageSettings
+    );
+
+  const handleRetryRecognition = async (verificationId: string) => {
+    setRetryingAi(verificationId);
+    try {
+      await runRecognition(verificationId);
+      toast.success('Recognition finished');
+    } catch (error) {
+      logger.error('Error running recognition:', error);
+      toast.error(error instanceof Error ? error.message : 'Recognition failed');
+    }
+
+    // Failures are recorded on the result too, so refresh it either way
+    try {
+      const fresh = await fetchAiResults([verificationId]);
+      setAiResults((current) => ({ ...current, ...fresh }));
+    } catch (error) {
+      logger.error('Error fetching AI results:', error);
+    } finally {
+      setRetryingAi(null);
+    }
   };
 
   const filterVerifications = () => {
     let filtered = verifications;
 
-    // Status filter
-    if (statusFilter !== 'all') {
+    // Status filter, including the review stages of pending submissions
+    if (statusFilter === 'second_review' || statusFilter === 'escalated') {
+      filtered = filtered.filter(v => reviewStage(v) === statusFilter);
+    } else if (statusFilter === 'overdue') {
+      // Longest overdue first
+      filtered = filtered
+        .filter(v => isOverdue(v))
+        .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+    } else if (statusFilter !== 'all') {
       filtered = filtered.filter(v => v.status === statusFilter);
     }
 
+    // Assignment filter
+    if (assignmentFilter === 'mine') {
+      filtered = filtered.filter(v => v.assigned_to === user?.id);
+    } else if (assignmentFilter === 'unassigned') {
+      filtered = filtered.filter(v => v.status === 'pending' && !v.assigned_to);
+    }
+
     // County filter
     if (countyFilter !== 'all') {
       filtered = filtered.filter(v => v.county === countyFilter);
     }
 
+    // Risk filter: suspicious submissions first
+    if (riskFilter !== 'all') {
+      filtered = filtered
+        .filter(v => riskFilter === 'high' ? riskLevel(v.risk_score) === 'high' : v.risk_score > 0)
+        .sort((a, b) => b.risk_score - a.risk_score);
+    }
+
+    // Recognition and triage filter
+    if (aiFilter === 'mismatch') {
+      filtered = filtered
+        .filter(v => aiResults[v.id]?.species_match === 'mismatch')
+        .sort((a, b) => Number(aiResults[b.id].match_confidence) - Number(aiResults[a.id].match_confidence));
+    } else if (aiFilter !== 'all') {
+      const wanted: Triage = aiFilter === 'ready' ? 'auto_approve' : 'auto_hold';
+      filtered = filtered.filter(v => triageOf(v) === wanted);
+    }
+
     // Search
     if (searchQuery) {
       const query = searchQuery.toLowerCase();
@@ -127,26 +447,185 @@ export default function VerificationQueue() {
     setFilteredVerifications(filtered);
   };
 
-  const handleApprove = async (id: string) => {
+  const loadRewardPreview = async (items: VerificationItem[]) => {
+    setRewardPreview(null);
     try {
-      const { error } = await supabase
-        .from('planting_verifications')
-        .update({
-          status: 'verified',
-          verified_at: new Date().toISOString(),
-          verified_by: (await supabase.auth.getUser()).data.user?.id
-        })
-        .eq('id', id);
+      setRewardPreview(await previewRewards(items, species));
+    } catch (error) {
+      logger.error('Error evaluating rewards:', error);
+      toast.error('Failed to work out the reward');
+    }
+  };
 
-      if (error) throw error;
-      toast.success('Verification approved');
+  // Reviewers claim a pending submission while its dialog is open, so two
+  // of them don't decide it at the same time
+  const claimForReview = async (verification: VerificationItem) => {
+    try {
+      const holder = await claimVerification(verification.id);
+      if (holder.holder_id && holder.holder_id !== user?.id) {
+        toast.error(`${holder.holder_name ?? 'Another reviewer'} is reviewing this submission`);
+        fetchVerifications();
+        return false;
+      }
+      return true;
+    } catch (error) {
+      logger.error('Error claiming verification:', error);
+      toast.error('Failed to claim verification');
+      return false;
+    }
+  };
+
+  // Claims lapse on their own, so a failed release is only logged
+  const releaseClaim = (verification: VerificationItem | null) => {
+    if (verification?.status !== 'pending') return;
+    releaseVerification(verification.id).catch((error) => logger.error('Error releasing verification:', error));
+  };
+
+  const openApprove = async (verification: VerificationItem) => {
+    if (verification.status === 'pending' && !(await claimForReview(verification))) return;
+    setApproveTarget(verification);
+    loadRewardPreview([verification]);
+  };
+
+  const closeApprove = () => {
+    releaseClaim(approveTarget);
+    setApproveTarget(null);
+  };
+
+  const openReject = async (verification: VerificationItem) => {
+    if (verification.status === 'pending' && !(await claimForReview(verification))) return;
+    setSelectedVerification(verification);
+    setShowRejectDialog(true);
+  };
+
+  const closeReject = () => {
+    releaseClaim(selectedVerification);
+    setShowRejectDialog(false);
+  };
+
+  const handleAutoAssign = async () => {
+    setAssigning(true);
+    try {
+      const assigned = await autoAssignVerifications();
+      toast.success(assigned > 0 ? `${assigned} submissions assigned` : 'Every pending submission already has a reviewer');
+      fetchVerifications();
+    } catch (error) {
+      logger.error('Error assigning verifications:', error);
+      toast.error('Failed to assign submissions');
+    } finally {
+      setAssigning(false);
+    }
+  };
+
+  const openBulkDialog = (action: 'approve' | 'reject') => {
+    setBulkAction(action);
+    setShowBulkDialog(true);
+    if (action === 'approve') {
+      loadRewardPreview(bulkApprovalItems());
+    }
+  };
+
+  // Bulk approve only touches submissions that are not verified yet, and
+  // leaves held species mismatches for a moderator to open one by one.
+  // Submissions another reviewer has claimed are theirs.
+  const bulkApprovalItems = () =>
+    verifications.filter(v =>
+      selectedItems.has(v.id) &&
+      v.status !== 'verified' &&
+      triageOf(v) !== 'auto_hold' &&
+      !claimedByOther(v, user?.id, now)
+    );
+
+  const heldSelectionCount = () =>
+    verifications.filter(v => selectedItems.has(v.id) && triageOf(v) === 'auto_hold').length;
+
+  // Pending submissions escalated to the admins are theirs to decide
+  const canDecide = (verification: VerificationItem) =>
+    isAdmin || reviewStage(verification) !== 'escalated';
+
+  // Bulk reject leaves verified plantings alone: rejecting one reverses its
+  // reward, which is done one by one with a fraud reason
+  const bulkRejectIds = () =>
+    Array.from(selectedItems).filter(id => {
+      const verification = verifications.find(v => v.id === id);
+      return !verification || (
+        verification.status !== 'verified' &&
+        canDecide(verification) &&
+        !claimedByOther(verification, user?.id, now)
+      );
+    });
+
+  const verifiedSelectionCount = () =>
+    verifications.filter(v => selectedItems.has(v.id) && v.status === 'verified').length;
+
+  const bulkApprovalSteps = (): ApprovalStep[] =>
+    rewardPreview
+      ? bulkApprovalItems().map((item, index) =>
+        approvalStep(item, rewardPreview[index]?.amount ?? 0, reviewPolicy, reviewer))
+      : [];
+
+  const selectReady = () => {
+    setSelectedItems(new Set(filteredVerifications.filter(v => triageOf(v) === 'auto_approve').map(v => v.id)));
+  };
+
+  const approvalErrorMessage = (error: unknown) =>
+    (error as { message?: string })?.message?.includes('Campaign budget exceeded')
+      ? 'The campaign budget ran out - review the reward again'
+      : 'Failed to approve verification';
+
+  const handleApprove = async () => {
+    if (!approveTarget || !rewardPreview) return;
+
+    setApproving(true);
+    try {
+      const outcome = await approveUnderPolicy(approveTarget, rewardPreview[0], reviewPolicy, reviewer);
+      toast.success(
+        outcome === 'first_review'
+          ? 'First approval recorded - another reviewer must approve'
+          : `Verification approved - KSh ${rewardPreview[0].amount} credited`
+      );
+      closeApprove();
       fetchVerifications();
     } catch (error) {
       logger.error('Error approving:', error);
-      toast.error('Failed to approve verification');
+      toast.error(approvalErrorMessage(error));
+    } finally {
+      setApproving(false);
+    }
+  };
+
+  const approveStep = approveTarget && rewardPreview
+    ? approvalStep(approveTarget, rewardPreview[0].amount, reviewPolicy, reviewer)
+    : null;
+
+  const handleEscalate = async () => {
+    if (!escalateTarget || !escalationNote.trim()) {
+      toast.error('Please say why an admin should decide');
+      return;
+    }
+
+    const validation = notesSchema.safeParse(escalationNote);
+    if (!validation.success) {
+      toast.error('Note is too long (max 1000 characters)');
+      return;
+    }
+
+    try {
+      await escalateVerification(escalateTarget.id, sanitizeString(escalationNote));
+      toast.success('Escalated to the admins');
+      setEscalateTarget(null);
+      closeApprove();
+      setEscalationNote('');
+      fetchVerifications();
+    } catch (error) {
+      logger.error('Error escalating:', error);
+      toast.error('Failed to escalate verification');
     }
   };
 
+  // Rejecting an already verified planting reverses its reward in the ledger
+  const isReversal = selectedVerification?.status === 'verified';
+
   const handleReject = async () => {
     if (!selectedVerification || !rejectionReason.trim()) {
       toast.error('Please provide a rejection reason');
@@ -167,13 +646,13 @@ export default function VerificationQueue() {
           status: 'rejected',
           verified_at: new Date().toISOString(),
           verified_by: (await supabase.auth.getUser()).data.user?.id,
-          rejection_reason: sanitizeString(rejectionReason)
+          rejection_reason: sanitizeString(isReversal ? `Fraud: ${rejectionReason}` : rejectionReason)
         })
         .eq('id', selectedVerification.id);
 
       if (error) throw error;
-      toast.success('Verification rejected');
-      setShowRejectDialog(false);
+      toast.success(isReversal ? 'Reward reversed from the farmer\'s wallet' : 'Verification rejected');
+      closeReject();
       setSelectedVerification(null);
       setRejectionReason('');
       fetchVerifications();
@@ -194,31 +673,37 @@ export default function VerificationQueue() {
       return;
     }
 
+    if (bulkAction === 'approve') {
+      await handleBulkApprove();
+      return;
+    }
+
     try {
       const user = (await supabase.auth.getUser()).data.user;
-      // Validate rejection reason if rejecting
-      if (bulkAction === 'reject') {
-        const validation = notesSchema.safeParse(rejectionReason);
-        if (!validation.success) {
-          toast.error('Rejection reason is too long (max 1000 characters)');
-          return;
-        }
+      // Validate rejection reason
+      const validation = notesSchema.safeParse(rejectionReason);
+      if (!validation.success) {
+        toast.error('Rejection reason is too long (max 1000 characters)');
+        return;
       }
 
       const updates = {
-        status: (bulkAction === 'approve' ? 'verified' : 'rejected') as 'verified' | 'rejected',
+        status: 'rejected' as const,
         verified_at: new Date().toISOString(),
         verified_by: user?.id,
-        ...(bulkAction === 'reject' && { rejection_reason: sanitizeString(rejectionReason) })
+        rejection_reason: sanitizeString(rejectionReason)
       };
 
+      // One escalated row would make the database refuse the whole update
+      const ids = bulkRejectIds();
       const { error } = await supabase
         .from('planting_verifications')
         .update(updates)
-        .in('id', Array.from(selectedItems));
+        .in('id', ids)
+        .neq('status', 'verified');
 
       if (error) throw error;
-      toast.success(`${selectedItems.size} verifications ${bulkAction === 'approve' ? 'approved' : 'rejected'}`);
+      toast.success(`${ids.length} verifications rejected`);
       setShowBulkDialog(false);
       setSelectedItems(new Set());
       setRejectionReason('');
@@ -229,6 +714,42 @@ export default function VerificationQueue() {
     }
   };
 
+  // Rewards and review steps differ per submission, so each approval is its
+  // own update. Submissions this reviewer can't approve are skipped.
+  const handleBulkApprove = async () => {
+    const items = bulkApprovalItems();
+    if (!rewardPreview || rewardPreview.length !== items.length) return;
+
+    const steps = bulkApprovalSteps();
+    setApproving(true);
+    let approved = 0;
+    let firstReviews = 0;
+    try {
+      for (const [index, item] of items.entries()) {
+        if (steps[index].kind === 'blocked') continue;
+        const outcome = await approveUnderPolicy(item, rewardPreview[index], reviewPolicy, reviewer);
+        if (outcome === 'first_review') {
+          firstReviews++;
+        } else {
+          approved++;
+        }
+      }
+      toast.success(
+        `${approved} verifications approved` +
+        (firstReviews > 0 ? `, ${firstReviews} awaiting a second reviewer` : '')
+      );
+      setShowBulkDialog(false);
+      setSelectedItems(new Set());
+    } catch (error) {
+      logger.error('Error with bulk approval:', error);
+      toast.error(`${approvalErrorMessage(error)} (${approved} of ${items.length} approved)`);
+      setShowBulkDialog(false);
+    } finally {
+      setApproving(false);
+      fetchVerifications();
+    }
+  };
+
   const toggleSelection = (id: string) => {
     const newSelected = new Set(selectedItems);
     if (newSelected.has(id)) {
@@ -267,17 +788,44 @@ export default function VerificationQueue() {
             {filteredVerifications.length} verification{filteredVerifications.length !== 1 ? 's' : ''}
             {selectedItems.size > 0 && ` (${selectedItems.size} selected)`}
           </p>
+          <ModeratorScopeNote />
         </div>
         <div className="flex flex-col sm:flex-row gap-2">
+          {isAdmin && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleAutoAssign}
+              disabled={assigning}
+              className="w-full sm:w-auto"
+            >
+              <Shuffle className="h-4 w-4 mr-2" />
+              Auto-assign
+            </Button>
+          )}
+          {isAdmin && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setTriageForm(triageSettings)}
+              className="w-full sm:w-auto"
+            >
+              <Settings2 className="h-4 w-4 mr-2" />
+              Auto-triage{triageSettings.enabled ? '' : ' (off)'}
+            </Button>
+          )}
+          {triageSettings.enabled && (
+            <Button variant="outline" size="sm" onClick={selectReady} className="w-full sm:w-auto">
+              <CheckCircle className="h-4 w-4 mr-2" />
+              Select ready
+            </Button>
+          )}
           {selectedItems.size > 0 && (
             <>
               <Button
                 variant="default"
                 size="sm"
-                onClick={() => {
-                  setBulkAction('approve');
-                  setShowBulkDialog(true);
-                }}
+                onClick={() => openBulkDialog('approve')}
                 className="w-full sm:w-auto"
               >
                 <CheckCircle className="h-4 w-4 mr-2" />
@@ -286,10 +834,7 @@ export default function VerificationQueue() {
               <Button
                 variant="destructive"
                 size="sm"
-                onClick={() => {
-                  setBulkAction('reject');
-                  setShowBulkDialog(true);
-                }}
+                onClick={() => openBulkDialog('reject')}
                 className="w-full sm:w-auto"
               >
                 <XCircle className="h-4 w-4 mr-2" />
@@ -302,7 +847,7 @@ export default function VerificationQueue() {
 
       {/* Filters */}
       <Card className="p-3 md:p-4">
-        <div className="grid gap-3 md:gap-4 grid-cols-1 sm:grid-cols-2 md:grid-cols-4">
+        <div className="grid gap-3 md:gap-4 grid-cols-1 sm:grid-cols-2 md:grid-cols-4 lg:grid-cols-7">
           <div className="relative">
             <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
             <Input
@@ -320,11 +865,25 @@ export default function VerificationQueue() {
             <SelectContent>
               <SelectItem value="all">All Status</SelectItem>
               <SelectItem value="pending">Pending</SelectItem>
+              <SelectItem value="second_review">{REVIEW_STAGE_LABELS.second_review}</SelectItem>
+              <SelectItem value="escalated">{REVIEW_STAGE_LABELS.escalated}</SelectItem>
+              <SelectItem value="overdue">Overdue</SelectItem>
               <SelectItem value="verified">Verified</SelectItem>
               <SelectItem value="rejected">Rejected</SelectItem>
             </SelectContent>
           </Select>
 
+          <Select value={assignmentFilter} onValueChange={(value) => setAssignmentFilter(value as typeof assignmentFilter)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Reviewers</SelectItem>
+              <SelectItem value="mine">Assigned to Me</SelectItem>
+              <SelectItem value="unassigned">Unassigned</SelectItem>
+            </SelectContent>
+          </Select>
+
           <Select value={countyFilter} onValueChange={setCountyFilter}>
             <SelectTrigger>
               <SelectValue />
@@ -337,7 +896,30 @@ export default function VerificationQueue() {
             </SelectContent>
           </Select>
 
-          <Button variant="outline" className="hidden md:flex">
+          <Select value={riskFilter} onValueChange={(value) => setRiskFilter(value as typeof riskFilter)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Risk Levels</SelectItem>
+              <SelectItem value="flagged">Flagged</SelectItem>
+              <SelectItem value="high">High Risk</SelectItem>
+            </SelectContent>
+          </Select>
+
+          <Select value={aiFilter} onValueChange={(value) => setAiFilter(value as typeof aiFilter)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All AI Results</SelectItem>
+              <SelectItem value="mismatch">Species Mismatch</SelectItem>
+              <SelectItem value="ready">{TRIAGE_LABELS.auto_approve}</SelectItem>
+              <SelectItem value="held">{TRIAGE_LABELS.auto_hold}</SelectItem>
+            </SelectContent>
+          </Select>
+
+          <Button variant="outline" className="hidden lg:flex">
             <Map className="h-4 w-4 mr-2" />
             Map View
           </Button>
@@ -357,6 +939,7 @@ export default function VerificationQueue() {
               </TableHead>
               <TableHead>Image</TableHead>
               <TableHead>Tree</TableHead>
+              <TableHead>Risk</TableHead>
               <TableHead>User</TableHead>
               <TableHead>Location</TableHead>
               <TableHead>Date</TableHead>
@@ -388,8 +971,15 @@ export default function VerificationQueue() {
                         {verification.mpesa_transaction_id}
                       </p>
                     )}
+                    <div className="mt-1 flex flex-wrap gap-1">
+                      <AIResultSummary result={aiResults[verification.id]} />
+                      <TriageBadge triage={triageOf(verification)} />
+                    </div>
                   </div>
                 </TableCell>
+                <TableCell>
+                  <RiskIndicator score={verification.risk_score} flags={verification.risk_flags} />
+                </TableCell>
                 <TableCell>
                   <div>
                     <p className="font-medium">{verification.full_name}</p>
@@ -402,10 +992,12 @@ export default function VerificationQueue() {
                   <div>
                     <p className="text-sm">{verification.county}</p>
                     <p className="text-xs text-muted-foreground">{verification.constituency}</p>
+                    <LocationIssues verification={verification} />
                   </div>
                 </TableCell>
                 <TableCell className="text-sm">
                   {new Date(verification.planting_date).toLocaleDateString()}
+                  <SlaBadge verification={verification} now={now} />
                 </TableCell>
                 <TableCell>
                   <Badge variant={
@@ -415,6 +1007,11 @@ export default function VerificationQueue() {
                   }>
                     {verification.status}
                   </Badge>
+                  <ReviewStageBadge verification={verification} />
+                  <AssignmentInfo verification={verification} reviewerId={user?.id} now={now} />
+                  {verification.status === 'verified' && verification.reward_amount > 0 && (
+                    <p className="text-xs text-muted-foreground mt-1">KSh {verification.reward_amount}</p>
+                  )}
                 </TableCell>
                 <TableCell>
                   {verification.status === 'pending' && (
@@ -422,20 +1019,38 @@ export default function VerificationQueue() {
                       <Button
                         size="sm"
                         variant="default"
-                        onClick={() => handleApprove(verification.id)}
+                        onClick={() => openApprove(verification)}
                       >
                         <CheckCircle className="h-4 w-4" />
                       </Button>
+                      {canDecide(verification) && (
+                        <Button
+                          size="sm"
+                          variant="destructive"
+                          onClick={() => openReject(verification)}
+                        >
+                          <XCircle className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                  {verification.status === 'verified' && (
+                    <div className="flex gap-2">
                       <Button
                         size="sm"
-                        variant="destructive"
-                        onClick={() => {
-                          setSelectedVerification(verification);
-                          setShowRejectDialog(true);
-                        }}
+                        variant="outline"
+                        title="Reverse reward (fraud)"
+                        onClick={() => openReject(verification)}
                       >
-                        <XCircle className="h-4 w-4" />
+                        <Undo2 className="h-4 w-4" />
                       </Button>
+                      {isAdmin && (
+                        <Button size="sm" variant="ghost" title="History" asChild>
+                          <Link to={`/admin/audit?target=${verification.id}`}>
+                            <History className="h-4 w-4" />
+                          </Link>
+                        </Button>
+                      )}
                     </div>
                   )}
                 </TableCell>
@@ -471,6 +1086,17 @@ export default function VerificationQueue() {
                   } className="mt-1">
                     {verification.status}
                   </Badge>
+                  <ReviewStageBadge verification={verification} />
+                  <AssignmentInfo verification={verification} reviewerId={user?.id} now={now} />
+                  {verification.risk_score > 0 && (
+                    <div className="mt-2">
+                      <RiskIndicator score={verification.risk_score} flags={verification.risk_flags} expanded />
+                    </div>
+                  )}
+                  <div className="mt-2 flex flex-wrap gap-1">
+                    <AIResultSummary result={aiResults[verification.id]} />
+                    <TriageBadge triage={triageOf(verification)} />
+                  </div>
                 </div>
               </div>
 
@@ -479,10 +1105,12 @@ export default function VerificationQueue() {
                   <MapPin className="h-3 w-3" />
                   {verification.county}, {verification.constituency}
                 </p>
+                <LocationIssues verification={verification} />
                 <p className="flex items-center gap-1">
                   <Calendar className="h-3 w-3" />
                   {new Date(verification.planting_date).toLocaleDateString()}
                 </p>
+                <SlaBadge verification={verification} now={now} />
                 <p className="flex items-center gap-1">
                   <Phone className="h-3 w-3" />
                   {verification.submission_phone || verification.user_phone}
@@ -494,52 +1122,144 @@ export default function VerificationQueue() {
                   <Button
                     size="sm"
                     variant="default"
-                    onClick={() => handleApprove(verification.id)}
+                    onClick={() => openApprove(verification)}
                     className="flex-1"
                   >
                     <CheckCircle className="h-3 w-3 mr-1" />
-                    Approve
-                  </Button>
-                  <Button
-                    size="sm"
-                    variant="destructive"
-                    onClick={() => {
-                      setSelectedVerification(verification);
-                      setShowRejectDialog(true);
-                    }}
-                    className="flex-1"
-                  >
-                    <XCircle className="h-3 w-3 mr-1" />
-                    Reject
+                    {canDecide(verification) ? 'Approve' : 'View'}
                   </Button>
+                  {canDecide(verification) && (
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      onClick={() => openReject(verification)}
+                      className="flex-1"
+                    >
+                      <XCircle className="h-3 w-3 mr-1" />
+                      Reject
+                    </Button>
+                  )}
                 </div>
               )}
+              {verification.status === 'verified' && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => openReject(verification)}
+                  className="w-full"
+                >
+                  <Undo2 className="h-3 w-3 mr-1" />
+                  Reverse reward (fraud)
+                </Button>
+              )}
             </div>
           </Card>
         ))}
       </div>
 
+      {/* Approve Dialog */}
+      <Dialog open={!!approveTarget} onOpenChange={(open) => !open && closeApprove()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Approve Verification</DialogTitle>
+            <DialogDescription>
+              {approveTarget?.tree_name} planted by {approveTarget?.full_name} in {approveTarget?.county}.
+              The reward below is credited to their wallet.
+            </DialogDescription>
+          </DialogHeader>
+          {approveTarget && approveTarget.risk_score > 0 && (
+            <div className="rounded-lg border border-orange-200 p-3">
+              <RiskIndicator score={approveTarget.risk_score} flags={approveTarget.risk_flags} expanded />
+            </div>
+          )}
+          {approveTarget && aiResults[approveTarget.id] && (
+            <div className="rounded-lg border p-3">
+              <AIResultSummary
+                result={aiResults[approveTarget.id]}
+                expanded
+                onRetry={() => handleRetryRecognition(approveTarget.id)}
+                retrying={retryingAi === approveTarget.id}
+              />
+            </div>
+          )}
+          {approveTarget && hasLocationIssues(approveTarget) && (
+            <div className="rounded-lg border border-amber-200 p-3">
+              <p className="text-sm font-medium">Location</p>
+              <LocationIssues verification={approveTarget} />
+            </div>
+          )}
+          {rewardPreview ? (
+            <RewardBreakdown evaluation={rewardPreview[0]} />
+          ) : (
+            <Skeleton className="h-24 w-full" />
+          )}
+          {approveTarget?.escalated_at && approveTarget.status === 'pending' && (
+            <div className="rounded-lg border border-purple-200 p-3 text-sm">
+              <p className="font-medium">
+                Escalated by {approveTarget.escalated_by_name ?? 'a moderator'}
+              </p>
+              {approveTarget.escalation_note && (
+                <p className="italic text-muted-foreground">"{approveTarget.escalation_note}"</p>
+              )}
+            </div>
+          )}
+          {approveStep?.kind === 'first_review' && (
+            <p className="text-sm text-muted-foreground">
+              This submission needs two reviewers. Your approval is recorded and the reward is paid once
+              another reviewer approves it too.
+            </p>
+          )}
+          {approveTarget?.first_reviewed_by && approveStep?.kind === 'approve' && !approveTarget.escalated_at && (
+            <p className="text-sm text-muted-foreground">
+              First approved by {approveTarget.first_reviewer_name ?? 'another reviewer'}
+              {approveTarget.first_reviewed_at && ` on ${new Date(approveTarget.first_reviewed_at).toLocaleDateString()}`}.
+            </p>
+          )}
+          {approveStep?.kind === 'blocked' && (
+            <p className="text-sm text-amber-700">{approveStep.reason}</p>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={closeApprove}>
+              Cancel
+            </Button>
+            {approveTarget && !isAdmin && reviewStage(approveTarget) !== 'escalated' && (
+              <Button variant="outline" onClick={() => setEscalateTarget(approveTarget)}>
+                <ArrowUpCircle className="h-4 w-4 mr-2" />
+                Escalate
+              </Button>
+            )}
+            <Button onClick={handleApprove} disabled={!approveStep || approveStep.kind === 'blocked' || approving}>
+              {approveStep?.kind === 'first_review'
+                ? 'Give first approval'
+                : <>Approve{rewardPreview && ` & pay KSh ${rewardPreview[0].amount}`}</>}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Reject Dialog */}
-      <Dialog open={showRejectDialog} onOpenChange={setShowRejectDialog}>
+      <Dialog open={showRejectDialog} onOpenChange={(open) => !open && closeReject()}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Reject Verification</DialogTitle>
+            <DialogTitle>{isReversal ? 'Reverse Reward' : 'Reject Verification'}</DialogTitle>
             <DialogDescription>
-              Provide a reason for rejecting this verification.
+              {isReversal
+                ? `This planting was already rewarded. Rejecting it takes KSh ${selectedVerification?.reward_amount ?? 0} back from the farmer's wallet. Describe the fraud found.`
+                : 'Provide a reason for rejecting this verification.'}
             </DialogDescription>
           </DialogHeader>
           <Textarea
-            placeholder="Enter rejection reason..."
+            placeholder={isReversal ? 'Describe the fraud...' : 'Enter rejection reason...'}
             value={rejectionReason}
             onChange={(e) => setRejectionReason(e.target.value)}
             rows={4}
           />
           <DialogFooter>
-            <Button variant="outline" onClick={() => setShowRejectDialog(false)}>
+            <Button variant="outline" onClick={closeReject}>
               Cancel
             </Button>
             <Button variant="destructive" onClick={handleReject}>
-              Reject
+              {isReversal ? 'Reverse Reward' : 'Reject'}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -553,9 +1273,50 @@ export default function VerificationQueue() {
               Bulk {bulkAction === 'approve' ? 'Approve' : 'Reject'}
             </DialogTitle>
             <DialogDescription>
-              You are about to {bulkAction} {selectedItems.size} verification{selectedItems.size !== 1 ? 's' : ''}.
+              {bulkAction === 'approve'
+                ? `You are about to approve ${bulkApprovalItems().length} verification${bulkApprovalItems().length !== 1 ? 's' : ''}. Already verified items are skipped.${heldSelectionCount() > 0 ? ` Held species mismatches (${heldSelectionCount()}) are skipped too; approve them one by one.` : ''}`
+                : `You are about to reject ${bulkRejectIds().length} verification${bulkRejectIds().length !== 1 ? 's' : ''}.${verifiedSelectionCount() > 0 ? ` Already verified items (${verifiedSelectionCount()}) are skipped; to reverse a reward, reject it on its own as fraud.` : ''}${bulkRejectIds().length + verifiedSelectionCount() < selectedItems.size ? ' Submissions escalated to an admin or claimed by another reviewer are skipped.' : ''}`}
             </DialogDescription>
           </DialogHeader>
+          {bulkAction === 'approve' && (
+            rewardPreview ? (
+              <div className="max-h-64 overflow-y-auto space-y-1 text-sm">
+                {bulkApprovalItems().map((item, index) => {
+                  const step = bulkApprovalSteps()[index];
+                  return (
+                    <div key={item.id} className={`flex justify-between gap-2 ${step?.kind === 'blocked' ? 'text-muted-foreground line-through' : ''}`}>
+                      <span className="truncate" title={step?.kind === 'blocked' ? step.reason : undefined}>
+                        {item.tree_name} · {item.full_name}
+                        {riskLevel(item.risk_score) === 'high' && (
+                          <span className="ml-1 text-xs font-medium text-red-600">· high risk</span>
+                        )}
+                        {step?.kind === 'first_review' && (
+                          <span className="ml-1 text-xs font-medium text-blue-700">· 1st approval</span>
+                        )}
+                      </span>
+                      <span className="tabular-nums">KSh {rewardPreview[index]?.amount ?? 0}</span>
+                    </div>
+                  );
+                })}
+                <div className="flex justify-between border-t pt-2 font-semibold">
+                  <span>Paid now</span>
+                  <span className="tabular-nums">
+                    KSh {bulkApprovalSteps().reduce(
+                      (sum, step, index) => sum + (step.kind === 'approve' ? rewardPreview[index].amount : 0),
+                      0
+                    )}
+                  </span>
+                </div>
+                {bulkApprovalSteps().some((step) => step.kind !== 'approve') && (
+                  <p className="text-xs text-muted-foreground">
+                    First approvals wait for a second reviewer; struck-through items are skipped.
+                  </p>
+                )}
+              </div>
+            ) : (
+              <Skeleton className="h-24 w-full" />
+            )
+          )}
           {bulkAction === 'reject' && (
             <Textarea
               placeholder="Enter rejection reason..."
@@ -571,12 +1332,109 @@ export default function VerificationQueue() {
             <Button
               variant={bulkAction === 'approve' ? 'default' : 'destructive'}
               onClick={handleBulkAction}
+              disabled={bulkAction === 'approve' && (!rewardPreview || approving)}
             >
               {bulkAction === 'approve' ? 'Approve' : 'Reject'} All
             </Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Escalate Dialog */}
+      <Dialog open={!!escalateTarget} onOpenChange={(open) => !open && setEscalateTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Escalate to an admin</DialogTitle>
+            <DialogDescription>
+              An admin makes the final decision on {escalateTarget?.tree_name} planted by {escalateTarget?.full_name}.
+              Explain what needs a second look.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            placeholder="Why should an admin decide?"
+            value={escalationNote}
+            onChange={(e) => setEscalationNote(e.target.value)}
+            rows={4}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEscalateTarget(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleEscalate}>Escalate</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Triage Settings Dialog */}
+      <Dialog open={!!triageForm} onOpenChange={(open) => !open && setTriageForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Auto-triage</DialogTitle>
+            <DialogDescription>
+              Compare the claimed tree with the species recognised in the photo. Confident matches on clean
+              submissions are marked ready to approve; confident mismatches are held back from bulk approval.
+            </DialogDescription>
+          </DialogHeader>
+          {triageForm && (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="triage-enabled">Enabled</Label>
+                <Switch
+                  id="triage-enabled"
+                  checked={triageForm.enabled}
+                  onCheckedChange={(enabled) => setTriageForm({ ...triageForm, enabled })}
+                />
+              </div>
+              <div className="grid grid-cols-3 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="triage-approve">Ready at (%)</Label>
+                  <Input
+                    id="triage-approve"
+                    type="number"
+                    min={50}
+                    max={100}
+                    value={Math.round(triageForm.auto_approve_confidence * 100)}
+                    onChange={(e) => setTriageForm({ ...triageForm, auto_approve_confidence: Number(e.target.value) / 100 })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="triage-risk">Max risk score</Label>
+                  <Input
+                    id="triage-risk"
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={triageForm.auto_approve_max_risk}
+                    onChange={(e) => setTriageForm({ ...triageForm, auto_approve_max_risk: Number(e.target.value) })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="triage-hold">Hold at (%)</Label>
+                  <Input
+                    id="triage-hold"
+                    type="number"
+                    min={50}
+                    max={100}
+                    value={Math.round(triageForm.auto_hold_confidence * 100)}
+                    onChange={(e) => setTriageForm({ ...triageForm, auto_hold_confidence: Number(e.target.value) / 100 })}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Submissions with location warnings always need a manual review.
+              </p>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTriageForm(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveTriage} disabled={savingTriage}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -0,0 +1,351 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useLanguage } from '@/hooks/useLanguage';
+import { useFarmPlots } from '@/hooks/useFarmPlots';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+import { useTreeSpecies } from '@/hooks/useTreeSpecies';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { PlotBoundaryMap } from '@/components/PlotBoundaryMap';
+import {
+  BOUNDARY_ISSUE_LABELS,
+  checkPlotBoundary,
+  formatHectares,
+  plotCapacity,
+  polygonAreaHectares,
+  spacingFor,
+  type LatLng,
+} from '@/utils/farmPlots';
+import { fetchPlotPlantings, type PlotPlanting } from '@/utils/plotsService';
+import { getCachedProfile } from '@/utils/offlineSnapshot';
+import { logger } from '@/utils/logger';
+import { toast } from 'sonner';
+import { Crosshair, LandPlot, Pencil, Trash2, Undo2, X } from 'lucide-react';
+
+interface PlotMatch {
+  id: string;
+  tree_id: number;
+  tree_name: string;
+  plot_id: string | null;
+}
+
+const FarmPlots = () => {
+  const { user } = useAuth();
+  const { language } = useLanguage();
+  const { isOnline } = useOnlineStatus();
+  const { plots, loading, create, remove } = useFarmPlots();
+  const { getSpeciesById } = useTreeSpecies({ includeInactive: true });
+  const [center, setCenter] = useState<{ latitude: number; longitude: number } | null>(null);
+  const [matches, setMatches] = useState<PlotMatch[]>([]);
+  const [plantings, setPlantings] = useState<PlotPlanting[]>([]);
+  const [drawing, setDrawing] = useState(false);
+  const [points, setPoints] = useState<LatLng[]>([]);
+  const [name, setName] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [locating, setLocating] = useState(false);
+  const [selectedPlotId, setSelectedPlotId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadFarm = async () => {
+      if (!user) return;
+
+      const { data: profile, error } = await supabase
+        .from('profiles')
+        .select('latitude, longitude')
+        .eq('user_id', user.id)
+        .maybeSingle();
+      const location = error
+        ? getCachedProfile<{ latitude?: number | null; longitude?: number | null }>(user.id)?.data
+        : profile;
+      if (location?.latitude && location?.longitude) {
+        setCenter({ latitude: location.latitude, longitude: location.longitude });
+      }
+
+      const { data: matchData } = await supabase
+        .from('tree_matches')
+        .select('id, tree_id, tree_name, plot_id')
+        .eq('user_id', user.id);
+      setMatches(matchData ?? []);
+
+      try {
+        setPlantings(await fetchPlotPlantings(user.id));
+      } catch (error) {
+        logger.error('Error loading plot plantings:', error);
+      }
+    };
+
+    loadFarm();
+  }, [user]);
+
+  const area = polygonAreaHectares(points);
+  const issue = checkPlotBoundary(points);
+
+  const addCornerAtMyLocation = () => {
+    if (!navigator.geolocation) {
+      toast.error(language === 'en' ? 'GPS is not available on this device' : 'GPS haipatikani kwenye kifaa hiki');
+      return;
+    }
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setPoints((prev) => [...prev, [position.coords.latitude, position.coords.longitude]]);
+        setLocating(false);
+      },
+      (error) => {
+        logger.error('Error getting location for plot corner:', error);
+        toast.error(language === 'en' ? 'Could not get your location' : 'Imeshindwa kupata mahali ulipo');
+        setLocating(false);
+      },
+      { enableHighAccuracy: true, timeout: 15000 }
+    );
+  };
+
+  const stopDrawing = () => {
+    setDrawing(false);
+    setPoints([]);
+    setName('');
+  };
+
+  const handleSave = async () => {
+    if (issue) {
+      toast.error(BOUNDARY_ISSUE_LABELS[issue][language]);
+      return;
+    }
+    if (!name.trim()) {
+      toast.error(language === 'en' ? 'Give the plot a name' : 'Lipe shamba jina');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const plot = await create(name, points);
+      toast.success(
+        language === 'en'
+          ? `${plot.name} saved (${formatHectares(plot.area_hectares)})`
+          : `${plot.name} limehifadhiwa (${formatHectares(plot.area_hectares)})`
+      );
+      setSelectedPlotId(plot.id);
+      stopDrawing();
+    } catch (error) {
+      logger.error('Error saving plot:', error);
+      toast.error(language === 'en' ? 'Failed to save plot' : 'Imeshindwa kuhifadhi shamba');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (plotId: string, plotName: string) => {
+    if (!window.confirm(
+      language === 'en'
+        ? `Delete ${plotName}? Its matches and plantings are kept.`
+        : `Futa ${plotName}? Miti na miche yake itabaki.`
+    )) return;
+    try {
+      await remove(plotId);
+      setMatches((prev) => prev.map((m) => (m.plot_id === plotId ? { ...m, plot_id: null } : m)));
+      setPlantings((prev) => prev.filter((p) => p.plot_id !== plotId));
+    } catch (error) {
+      logger.error('Error deleting plot:', error);
+      toast.error(language === 'en' ? 'Failed to delete plot' : 'Imeshindwa kufuta shamba');
+    }
+  };
+
+  // Room left on each plot for each tree matched to it
+  const plotDetails = useMemo(
+    () =>
+      plots.map((plot) => {
+        const planted = plantings
+          .filter((p) => p.plot_id === plot.id)
+          .map((p) => spacingFor(p.tree_id != null ? getSpeciesById(p.tree_id) : null));
+        const trees = matches
+          .filter((m) => m.plot_id === plot.id)
+          .map((m) => {
+            const species = getSpeciesById(m.tree_id);
+            const spacing = spacingFor(species);
+            return {
+              match: m,
+              name: species ? (language === 'en' ? species.englishName : species.swahiliName) : m.tree_name,
+              spacing,
+              ...plotCapacity(plot.area_hectares, planted, spacing),
+            };
+          });
+        return { plot, planted, trees, occupied: plotCapacity(plot.area_hectares, planted, 1).occupied };
+      }),
+    [plots, plantings, matches, getSpeciesById, language]
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <LandPlot className="h-5 w-5" />
+            {language === 'en' ? 'Farm Plots' : 'Mashamba'}
+          </CardTitle>
+          <CardDescription>
+            {language === 'en'
+              ? 'Draw the boundary of each plot. Trees are scored and counted for the plot they go on.'
+              : 'Chora mpaka wa kila shamba. Miti hupimwa na kuhesabiwa kwa shamba itakapopandwa.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="h-80 rounded-lg overflow-hidden border">
+            <PlotBoundaryMap
+              center={center}
+              plots={plots}
+              points={points}
+              onAddPoint={drawing ? (point) => setPoints((prev) => [...prev, point]) : undefined}
+              selectedPlotId={selectedPlotId}
+            />
+          </div>
+
+          {drawing ? (
+            <div className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                {language === 'en'
+                  ? 'Tap the map at each corner of the plot, or walk to each corner and add it from GPS.'
+                  : 'Gusa ramani kwenye kila pembe ya shamba, au tembea hadi kila pembe na uiongeze kwa GPS.'}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" size="sm" onClick={addCornerAtMyLocation} disabled={locating}>
+                  <Crosshair className="h-4 w-4 mr-2" />
+                  {language === 'en' ? 'Add corner here' : 'Ongeza pembe hapa'}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPoints((prev) => prev.slice(0, -1))}
+                  disabled={points.length === 0}
+                >
+                  <Undo2 className="h-4 w-4 mr-2" />
+                  {language === 'en' ? 'Undo' : 'Rudisha'}
+                </Button>
+                <Button variant="ghost" size="sm" onClick={stopDrawing}>
+                  <X className="h-4 w-4 mr-2" />
+                  {language === 'en' ? 'Cancel' : 'Ghairi'}
+                </Button>
+              </div>
+              <div className="flex items-center justify-between text-sm">
+                <span>
+                  {points.length} {language === 'en' ? 'corners' : 'pembe'}
+                </span>
+                <span className="font-semibold">{points.length >= 3 ? formatHectares(area) : '—'}</span>
+              </div>
+              {issue && points.length > 0 && (
+                <p className="text-sm text-amber-700">{BOUNDARY_ISSUE_LABELS[issue][language]}</p>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="plot-name">{language === 'en' ? 'Plot name' : 'Jina la shamba'}</Label>
+                <Input
+                  id="plot-name"
+                  value={name}
+                  maxLength={60}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder={language === 'en' ? 'e.g. Lower field' : 'mf. Shamba la chini'}
+                />
+              </div>
+              <Button className="w-full" onClick={handleSave} disabled={saving || !!issue || !isOnline}>
+                {saving
+                  ? (language === 'en' ? 'Saving...' : 'Inahifadhi...')
+                  : (language === 'en' ? 'Save plot' : 'Hifadhi shamba')}
+              </Button>
+              {!isOnline && (
+                <p className="text-xs text-muted-foreground text-center">
+                  {language === 'en' ? 'Connect to save the plot' : 'Unganisha mtandao ili kuhifadhi shamba'}
+                </p>
+              )}
+            </div>
+          ) : (
+            <Button className="w-full" onClick={() => setDrawing(true)}>
+              <Pencil className="h-4 w-4 mr-2" />
+              {language === 'en' ? 'Draw a new plot' : 'Chora shamba jipya'}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground text-center">{language === 'en' ? 'Loading...' : 'Inapakia...'}</p>
+      ) : plotDetails.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center text-sm text-muted-foreground">
+            {language === 'en'
+              ? 'No plots yet. Until you draw one, trees are scored for your whole farm.'
+              : 'Hakuna mashamba bado. Hadi uchore moja, miti inapimwa kwa shamba lako lote.'}
+          </CardContent>
+        </Card>
+      ) : (
+        plotDetails.map(({ plot, planted, trees, occupied }) => (
+          <Card
+            key={plot.id}
+            className={plot.id === selectedPlotId ? 'border-primary' : undefined}
+            onClick={() => setSelectedPlotId(plot.id)}
+          >
+            <CardHeader className="pb-3">
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <CardTitle className="text-lg">{plot.name}</CardTitle>
+                  <CardDescription>
+                    {formatHectares(plot.area_hectares)}
+                    {plot.county && ` · ${plot.county}`}
+                    {plot.agro_zone && ` · ${plot.agro_zone}`}
+                  </CardDescription>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleDelete(plot.id, plot.name);
+                  }}
+                  aria-label={language === 'en' ? `Delete ${plot.name}` : `Futa ${plot.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge variant="secondary">
+                  {planted.length} {language === 'en' ? 'planted' : 'imepandwa'}
+                </Badge>
+                <Badge variant="outline">
+                  {Math.round(occupied * 100)}% {language === 'en' ? 'in use' : 'inatumika'}
+                </Badge>
+              </div>
+              {trees.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  {language === 'en'
+                    ? 'No matched trees on this plot. Choose a plot for a tree on the Matches page.'
+                    : 'Hakuna miti iliyochaguliwa kwa shamba hili. Chagua shamba kwa mti kwenye ukurasa wa Miti Yako.'}
+                </p>
+              ) : (
+                <ul className="space-y-1 text-sm">
+                  {trees.map((tree) => (
+                    <li key={tree.match.id} className="flex justify-between gap-2">
+                      <span>
+                        {tree.name}{' '}
+                        <span className="text-muted-foreground">
+                          ({tree.spacing} m {language === 'en' ? 'spacing' : 'nafasi'})
+                        </span>
+                      </span>
+                      <span className={tree.remaining === 0 ? 'text-destructive font-medium' : 'font-medium'}>
+                        {language === 'en' ? `room for ${tree.remaining}` : `nafasi ya ${tree.remaining}`}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default FarmPlots;
@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import { useLanguage } from '@/hooks/useLanguage';
 import { supabase } from '@/integrations/supabase/client';
@@ -6,7 +6,16 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
-import { Search, MapPin, Calendar } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { SurvivalCheckUpload } from '@/components/SurvivalCheckUpload';
+import { canSubmitCheckIn, checkInPhase, survivalRate, type CheckInPhase, type SurvivalCheck } from '@/utils/survivalChecks';
+import { fetchSurvivalChecks } from '@/utils/survivalChecksService';
+import { logger } from '@/utils/logger';
+import { useVerificationOutbox } from '@/hooks/useVerificationOutbox';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+import { toast } from 'sonner';
+import { Search, MapPin, Calendar, Sprout, CloudOff, Send, Trash2 } from 'lucide-react';
 
 interface Planting {
   id: string;
@@ -19,8 +28,23 @@ interface Planting {
   reward_amount?: number;
   notes?: string;
   rejection_reason?: string;
+  image_url: string;
+  latitude: number | null;
+  longitude: number | null;
+  survival_status: string;
 }
 
+const PHASE_STYLES: Record<CheckInPhase, { className: string; en: string; sw: string }> = {
+  upcoming: { className: 'bg-muted text-muted-foreground', en: 'Upcoming', sw: 'Inakuja' },
+  open: { className: 'bg-blue-100 text-blue-800', en: 'Due now', sw: 'Sasa' },
+  overdue: { className: 'bg-amber-100 text-amber-800', en: 'Overdue', sw: 'Imechelewa' },
+  in_review: { className: 'bg-secondary text-secondary-foreground', en: 'In review', sw: 'Inakaguliwa' },
+  alive: { className: 'bg-green-100 text-green-800', en: 'Alive', sw: 'Uko hai' },
+  dead: { className: 'bg-red-100 text-red-800', en: 'Died', sw: 'Umekufa' },
+  retake: { className: 'bg-amber-100 text-amber-800', en: 'Retake photo', sw: 'Piga picha tena' },
+  cancelled: { className: 'bg-muted text-muted-foreground line-through', en: 'Not needed', sw: 'Haihitajiki' },
+};
+
 const PlantingHistory = () => {
   const { user } = useAuth();
   const { language } = useLanguage();
@@ -29,27 +53,39 @@ const PlantingHistory = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
   const [loading, setLoading] = useState(true);
+  const [survivalChecks, setSurvivalChecks] = useState<SurvivalCheck[]>([]);
+  const [activeCheck, setActiveCheck] = useState<{ check: SurvivalCheck; planting: Planting } | null>(null);
+  // Submitted without signal and still on this device
+  const { queued, sending, sendNow, discard } = useVerificationOutbox();
+  const { isOnline } = useOnlineStatus();
 
-  useEffect(() => {
+  const loadPlantings = useCallback(async () => {
     if (!user) return;
 
-    const loadPlantings = async () => {
-      const { data } = await supabase
-        .from('planting_verifications')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false });
+    const { data } = await supabase
+      .from('planting_verifications')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false });
 
-      if (data) {
-        setPlantings(data);
-        setFilteredPlantings(data);
-      }
-      setLoading(false);
-    };
+    if (data) {
+      setPlantings(data);
+      setFilteredPlantings(data);
+    }
 
-    loadPlantings();
+    try {
+      setSurvivalChecks(await fetchSurvivalChecks(user.id));
+    } catch (error) {
+      logger.error('Error loading survival checks:', error);
+    }
+    setLoading(false);
   }, [user]);
 
+  // Reload when queued submissions are sent
+  useEffect(() => {
+    loadPlantings();
+  }, [loadPlantings, queued.length]);
+
   useEffect(() => {
     let filtered = [...plantings];
 
@@ -79,6 +115,39 @@ const PlantingHistory = () => {
     return <Badge variant={config.variant}>{config.label}</Badge>;
   };
 
+  const visibleQueued = statusFilter === 'all' || statusFilter === 'queued'
+    ? queued.filter(item => !searchTerm || item.treeName.toLowerCase().includes(searchTerm.toLowerCase()))
+    : [];
+
+  const handleSendNow = async () => {
+    try {
+      const { sent, failed } = await sendNow();
+      if (sent > 0) {
+        toast.success(language === 'en' ? `${sent} sent for review` : `${sent} imetumwa kwa ukaguzi`);
+      }
+      if (failed > 0) {
+        toast.error(language === 'en' ? `${failed} could not be sent` : `${failed} haikuweza kutumwa`);
+      }
+    } catch (error) {
+      logger.error('Error sending queued verifications:', error);
+      toast.error(language === 'en' ? 'Failed to send' : 'Imeshindwa kutuma');
+    }
+  };
+
+  const handleDiscard = async (id: string) => {
+    if (!window.confirm(language === 'en' ? 'Delete this saved planting?' : 'Futa mche huu uliohifadhiwa?')) return;
+    try {
+      await discard(id);
+    } catch (error) {
+      logger.error('Error discarding queued verification:', error);
+    }
+  };
+
+  const checksFor = (plantingId: string) =>
+    survivalChecks.filter((check) => check.verification_id === plantingId);
+
+  const rate = survivalRate(plantings.filter((p) => p.status === 'verified'));
+
   if (loading) {
     return <div className="text-center py-8">{language === 'en' ? 'Loading...' : 'Inapakia...'}</div>;
   }
@@ -95,6 +164,20 @@ const PlantingHistory = () => {
         </p>
       </div>
 
+      {rate !== null && (
+        <Card>
+          <CardContent className="flex items-center gap-3 py-4">
+            <Sprout className="h-5 w-5 text-green-600" />
+            <p className="text-sm">
+              <span className="font-semibold">{Math.round(rate * 100)}%</span>{' '}
+              {language === 'en'
+                ? 'of your checked trees are still alive'
+                : 'ya miti yako iliyokaguliwa bado iko hai'}
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Filters */}
       <div className="flex flex-col sm:flex-row gap-4">
         <div className="relative flex-1">
@@ -112,6 +195,7 @@ const PlantingHistory = () => {
           </SelectTrigger>
           <SelectContent>
             <SelectItem value="all">{language === 'en' ? 'All Status' : 'Hali Zote'}</SelectItem>
+            <SelectItem value="queued">{language === 'en' ? 'Queued' : 'Imehifadhiwa'}</SelectItem>
             <SelectItem value="verified">{language === 'en' ? 'Verified' : 'Imethibitishwa'}</SelectItem>
             <SelectItem value="pending">{language === 'en' ? 'Pending' : 'Inasubiri'}</SelectItem>
             <SelectItem value="rejected">{language === 'en' ? 'Rejected' : 'Imekataliwa'}</SelectItem>
@@ -121,14 +205,70 @@ const PlantingHistory = () => {
 
       {/* Results Count */}
       <p className="text-sm text-muted-foreground">
-        {language === 'en' ? 'Showing' : 'Inaonyesha'} {filteredPlantings.length}{' '}
-        {language === 'en' ? 'of' : 'ya'} {plantings.length}{' '}
+        {language === 'en' ? 'Showing' : 'Inaonyesha'} {filteredPlantings.length + visibleQueued.length}{' '}
+        {language === 'en' ? 'of' : 'ya'} {plantings.length + queued.length}{' '}
         {language === 'en' ? 'plantings' : 'miche'}
       </p>
 
       {/* Plantings List */}
       <div className="space-y-4">
-        {filteredPlantings.length === 0 ? (
+        {visibleQueued.length > 0 && (
+          <div className="flex items-center justify-between gap-3 rounded-lg border border-dashed p-3 text-sm">
+            <p className="flex items-center gap-2 text-muted-foreground">
+              <CloudOff className="h-4 w-4 shrink-0" />
+              {isOnline
+                ? (language === 'en' ? 'Saved on this phone, sending now' : 'Imehifadhiwa kwenye simu, inatumwa sasa')
+                : (language === 'en' ? 'Saved on this phone until you are back online' : 'Imehifadhiwa kwenye simu hadi urudi mtandaoni')}
+            </p>
+            <Button size="sm" variant="outline" onClick={handleSendNow} disabled={!isOnline || sending}>
+              <Send className="h-4 w-4 mr-2" />
+              {language === 'en' ? 'Send now' : 'Tuma sasa'}
+            </Button>
+          </div>
+        )}
+        {visibleQueued.map((item) => (
+          <Card key={item.id} className="border-dashed">
+            <CardHeader>
+              <div className="flex items-start justify-between">
+                <div>
+                  <CardTitle className="text-lg">{item.treeName}</CardTitle>
+                  <div className="flex flex-wrap gap-3 mt-2 text-sm text-muted-foreground">
+                    <span className="flex items-center gap-1">
+                      <Calendar className="h-3 w-3" />
+                      {new Date(item.plantingDate).toLocaleDateString()}
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <MapPin className="h-3 w-3" />
+                      {item.latitude.toFixed(4)}, {item.longitude.toFixed(4)}
+                    </span>
+                  </div>
+                </div>
+                <Badge variant="outline">{language === 'en' ? 'Queued' : 'Imehifadhiwa'}</Badge>
+              </div>
+            </CardHeader>
+            <CardContent className="flex items-end justify-between gap-3 text-sm">
+              <div>
+                <p className="text-muted-foreground">
+                  {language === 'en' ? 'Saved' : 'Ilihifadhiwa'} {new Date(item.queuedAt).toLocaleString()}
+                </p>
+                {item.lastError && (
+                  <p className="text-destructive">
+                    {language === 'en' ? 'Last attempt failed' : 'Jaribio la mwisho lilishindwa'}: {item.lastError}
+                  </p>
+                )}
+              </div>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => handleDiscard(item.id)}
+                aria-label={language === 'en' ? 'Delete saved planting' : 'Futa mche uliohifadhiwa'}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </CardContent>
+          </Card>
+        ))}
+        {filteredPlantings.length === 0 && visibleQueued.length === 0 ? (
           <Card>
             <CardContent className="text-center py-8 text-muted-foreground">
               {language === 'en' ? 'No plantings found' : 'Hakuna miche iliyopatikana'}
@@ -154,7 +294,16 @@ const PlantingHistory = () => {
                       )}
                     </div>
                   </div>
-                  {getStatusBadge(planting.status)}
+                  <div className="flex flex-col items-end gap-1">
+                    {getStatusBadge(planting.status)}
+                    {planting.survival_status !== 'unknown' && (
+                      <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${PHASE_STYLES[planting.survival_status as 'alive' | 'dead'].className}`}>
+                        {language === 'en'
+                          ? PHASE_STYLES[planting.survival_status as 'alive' | 'dead'].en
+                          : PHASE_STYLES[planting.survival_status as 'alive' | 'dead'].sw}
+                      </span>
+                    )}
+                  </div>
                 </div>
               </CardHeader>
               <CardContent>
@@ -184,11 +333,74 @@ const PlantingHistory = () => {
                     </div>
                   )}
                 </div>
+
+                {checksFor(planting.id).length > 0 && (
+                  <div className="mt-4 border-t pt-4">
+                    <p className="text-sm font-medium mb-3">
+                      {language === 'en' ? 'Survival check-ins' : 'Ukaguzi wa kuishi'}
+                    </p>
+                    <ol className="space-y-2">
+                      {checksFor(planting.id).map((check) => {
+                        const phase = checkInPhase(check);
+                        const style = PHASE_STYLES[phase];
+                        return (
+                          <li key={check.id} className="flex items-center justify-between gap-3 text-sm">
+                            <div className="flex items-center gap-3">
+                              <span className="w-16 font-medium">
+                                {language === 'en' ? `${check.months} months` : `Miezi ${check.months}`}
+                              </span>
+                              <span className="text-muted-foreground">
+                                {new Date(check.due_on).toLocaleDateString()}
+                              </span>
+                              <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${style.className}`}>
+                                {language === 'en' ? style.en : style.sw}
+                              </span>
+                              {check.reward_amount > 0 && (
+                                <span className="text-xs text-green-600">+KSh {check.reward_amount}</span>
+                              )}
+                            </div>
+                            {canSubmitCheckIn(check) && (
+                              <Button size="sm" variant="outline" onClick={() => setActiveCheck({ check, planting })}>
+                                {language === 'en' ? 'Check in' : 'Kagua'}
+                              </Button>
+                            )}
+                          </li>
+                        );
+                      })}
+                    </ol>
+                    {checksFor(planting.id).some((check) => check.status === 'rejected' && check.review_notes) && (
+                      <p className="text-xs text-amber-700 mt-2">
+                        {checksFor(planting.id).find((check) => check.status === 'rejected')?.review_notes}
+                      </p>
+                    )}
+                  </div>
+                )}
               </CardContent>
             </Card>
           ))
         )}
       </div>
+
+      <Dialog open={!!activeCheck} onOpenChange={(open) => !open && setActiveCheck(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {language === 'en' ? 'Survival Check-in' : 'Ukaguzi wa Kuishi'}
+            </DialogTitle>
+          </DialogHeader>
+          {activeCheck && (
+            <SurvivalCheckUpload
+              check={activeCheck.check}
+              planting={activeCheck.planting}
+              onCancel={() => setActiveCheck(null)}
+              onSuccess={() => {
+                setActiveCheck(null);
+                loadPlantings();
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
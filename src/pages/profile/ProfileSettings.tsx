@@ -7,13 +7,32 @@ import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { Globe, Bell, Shield, Trash2 } from 'lucide-react';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+import { useOfflineMapRegions } from '@/hooks/useOfflineMapRegions';
+import { logger } from '@/utils/logger';
+import { getCachedProfile } from '@/utils/offlineSnapshot';
+import {
+  OFFLINE_TILE_BUDGET_BYTES,
+  REGION_RADII_KM,
+  bboxAround,
+  formatBytes,
+  planZooms,
+  tilesForRegion,
+  AVERAGE_TILE_BYTES,
+} from '@/utils/offlineTiles';
+import { Globe, Bell, Shield, Trash2, Map as MapIcon, Download, X } from 'lucide-react';
 
 const ProfileSettings = () => {
   const { user, signOut } = useAuth();
   const { language, setLanguage } = useLanguage();
   const { toast } = useToast();
+  const { isOnline } = useOnlineStatus();
+  const offlineMaps = useOfflineMapRegions();
+  const [farmLocation, setFarmLocation] = useState<{ latitude: number; longitude: number } | null>(null);
+  const [radiusKm, setRadiusKm] = useState(String(REGION_RADII_KM[1]));
   const [settings, setSettings] = useState({
     notifications: {
       sms: true,
@@ -30,6 +49,62 @@ const ProfileSettings = () => {
     },
   });
 
+  // Farm location for offline maps, from the saved profile when offline
+  useEffect(() => {
+    const fetchFarmLocation = async () => {
+      if (!user) return;
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('latitude, longitude')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      const location = error
+        ? getCachedProfile<{ latitude?: number | null; longitude?: number | null }>(user.id)?.data
+        : data;
+      if (location?.latitude && location?.longitude) {
+        setFarmLocation({ latitude: location.latitude, longitude: location.longitude });
+      }
+    };
+
+    fetchFarmLocation();
+  }, [user]);
+
+  const farmBbox = farmLocation ? bboxAround(farmLocation.latitude, farmLocation.longitude, Number(radiusKm)) : null;
+  const farmTileCount = farmBbox ? tilesForRegion(farmBbox, planZooms(farmBbox)).length : 0;
+
+  const handleDownloadArea = async () => {
+    if (!farmBbox) return;
+    try {
+      const region = await offlineMaps.download(
+        language === 'en' ? `Farm, ${radiusKm} km around` : `Shamba, km ${radiusKm} kuzunguka`,
+        farmBbox
+      );
+      toast({
+        title: language === 'en' ? 'Map Saved' : 'Ramani Imehifadhiwa',
+        description: language === 'en'
+          ? `${region.tileCount} tiles (${formatBytes(region.bytes)}) are ready for use without signal`
+          : `Vigae ${region.tileCount} (${formatBytes(region.bytes)}) viko tayari kutumika bila mtandao`,
+      });
+    } catch (error) {
+      if ((error as Error)?.name === 'AbortError') return;
+      logger.error('Error downloading map area:', error);
+      toast({
+        title: language === 'en' ? 'Download Failed' : 'Upakuaji Umeshindwa',
+        description: (error as Error)?.message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRemoveArea = async (id: string) => {
+    try {
+      await offlineMaps.remove(id);
+    } catch (error) {
+      logger.error('Error removing map area:', error);
+    }
+  };
+
   const handleLanguageChange = async (newLang: 'en' | 'sw') => {
     await setLanguage(newLang);
     toast({
@@ -94,6 +169,119 @@ const ProfileSettings = () => {
         </CardContent>
       </Card>
 
+      {/* Offline Maps */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MapIcon className="h-5 w-5" />
+            {language === 'en' ? 'Offline Maps' : 'Ramani Nje ya Mtandao'}
+          </CardTitle>
+          <CardDescription>
+            {language === 'en'
+              ? 'Save the map around your farm so your planting map works without signal'
+              : 'Hifadhi ramani ya eneo la shamba lako ili ramani ya miche ifanye kazi bila mtandao'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!offlineMaps.supported ? (
+            <p className="text-sm text-muted-foreground">
+              {language === 'en'
+                ? 'This browser cannot save maps for offline use.'
+                : 'Kivinjari hiki hakiwezi kuhifadhi ramani kwa matumizi nje ya mtandao.'}
+            </p>
+          ) : !farmLocation ? (
+            <p className="text-sm text-muted-foreground">
+              {language === 'en'
+                ? 'Your profile has no farm location yet, so there is no area to save.'
+                : 'Wasifu wako bado hauna mahali pa shamba, kwa hivyo hakuna eneo la kuhifadhi.'}
+            </p>
+          ) : (
+            <div className="space-y-3">
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Select value={radiusKm} onValueChange={setRadiusKm} disabled={offlineMaps.downloading}>
+                  <SelectTrigger className="w-full sm:w-[180px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REGION_RADII_KM.map((radius) => (
+                      <SelectItem key={radius} value={String(radius)}>
+                        {language === 'en' ? `${radius} km around farm` : `km ${radius} kuzunguka shamba`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  onClick={handleDownloadArea}
+                  disabled={offlineMaps.downloading || !isOnline}
+                  className="sm:flex-1"
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  {language === 'en' ? 'Download this area' : 'Pakua eneo hili'}
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {language === 'en'
+                  ? `About ${farmTileCount} tiles, ${formatBytes(farmTileCount * AVERAGE_TILE_BYTES)}`
+                  : `Takriban vigae ${farmTileCount}, ${formatBytes(farmTileCount * AVERAGE_TILE_BYTES)}`}
+                {!isOnline && (language === 'en' ? ' · connect to download' : ' · unganisha mtandao ili kupakua')}
+              </p>
+            </div>
+          )}
+
+          {offlineMaps.progress && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span>
+                  {language === 'en' ? 'Downloading' : 'Inapakua'} {offlineMaps.progress.done} / {offlineMaps.progress.total || '…'}
+                </span>
+                <Button variant="ghost" size="sm" onClick={offlineMaps.cancel}>
+                  <X className="h-4 w-4 mr-1" />
+                  {language === 'en' ? 'Cancel' : 'Ghairi'}
+                </Button>
+              </div>
+              <Progress
+                value={offlineMaps.progress.total ? (offlineMaps.progress.done / offlineMaps.progress.total) * 100 : 0}
+                className="h-2"
+              />
+            </div>
+          )}
+
+          {offlineMaps.regions.length > 0 && (
+            <>
+              <Separator />
+              <div className="space-y-2">
+                {offlineMaps.regions.map((region) => (
+                  <div key={region.id} className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{region.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {region.tileCount} {language === 'en' ? 'tiles' : 'vigae'} · {formatBytes(region.bytes)} ·{' '}
+                        {language === 'en' ? 'zoom' : 'ukuzaji'} {region.zooms[0]}–{region.zooms[region.zooms.length - 1]} ·{' '}
+                        {new Date(region.savedAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleRemoveArea(region.id)}
+                      disabled={offlineMaps.downloading}
+                      aria-label={language === 'en' ? `Remove ${region.name}` : `Ondoa ${region.name}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
+          <p className="text-xs text-muted-foreground">
+            {language === 'en' ? 'Using' : 'Inatumia'} {formatBytes(offlineMaps.usedBytes)}{' '}
+            {language === 'en' ? 'of' : 'kati ya'} {formatBytes(OFFLINE_TILE_BUDGET_BYTES)}
+          </p>
+        </CardContent>
+      </Card>
+
       {/* Notification Settings */}
       <Card>
         <CardHeader>
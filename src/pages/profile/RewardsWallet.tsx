@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import { useLanguage } from '@/hooks/useLanguage';
 import { supabase } from '@/integrations/supabase/client';
@@ -7,68 +7,63 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
-import { Wallet, ArrowUpRight, ArrowDownRight, Phone } from 'lucide-react';
+import { Wallet, ArrowUpRight, ArrowDownRight, Phone, Loader2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { normalizeMpesaPhone } from '@/utils/mpesaPayments';
+import {
+  fetchWalletHistory,
+  fetchWalletSummary,
+  requestWithdrawal,
+  watchPayouts,
+  type LedgerKind,
+  type WalletEntry,
+  type WalletSummary,
+} from '@/utils/walletLedger';
 
-interface Transaction {
-  id: string;
-  status: 'verified' | 'pending' | 'rejected';
-  created_at: string;
-  tree_name: string;
-  reward_amount: number;
-  reward_paid: boolean;
-}
+const KIND_LABELS: Record<LedgerKind, { en: string; sw: string }> = {
+  reward: { en: 'Planting reward', sw: 'Zawadi ya upandaji' },
+  reward_reversal: { en: 'Reward reversed', sw: 'Zawadi imebatilishwa' },
+  survival_bonus: { en: 'Survival bonus', sw: 'Bonasi ya mti kuishi' },
+  withdrawal: { en: 'M-Pesa withdrawal', sw: 'Uondoaji wa M-Pesa' },
+  withdrawal_paid: { en: 'Withdrawal paid', sw: 'Uondoaji umelipwa' },
+  withdrawal_failed: { en: 'Withdrawal refunded', sw: 'Uondoaji umerudishwa' },
+};
+
+const PAYOUT_STATUS_LABELS: Record<string, { en: string; sw: string }> = {
+  pending: { en: 'Sending', sw: 'Inatumwa' },
+  processing: { en: 'Sending', sw: 'Inatumwa' },
+  paid: { en: 'Paid', sw: 'Imelipwa' },
+  failed: { en: 'Failed', sw: 'Imeshindwa' },
+};
 
 const RewardsWallet = () => {
   const { user } = useAuth();
   const { language } = useLanguage();
   const { toast } = useToast();
-  const [balance, setBalance] = useState(0);
-  const [pendingBalance, setPendingBalance] = useState(0);
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [summary, setSummary] = useState<WalletSummary | null>(null);
+  const [entries, setEntries] = useState<WalletEntry[]>([]);
   const [withdrawAmount, setWithdrawAmount] = useState('');
   const [withdrawPhone, setWithdrawPhone] = useState('');
+  // Sent with every attempt of the same withdrawal so retries are not paid twice
+  const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID());
+  const [withdrawing, setWithdrawing] = useState(false);
   const [loading, setLoading] = useState(true);
 
+  const loadLedger = useCallback(async () => {
+    if (!user) return;
+    const [walletSummary, history] = await Promise.all([
+      fetchWalletSummary(),
+      fetchWalletHistory(user.id),
+    ]);
+    setSummary(walletSummary);
+    setEntries(history);
+  }, [user]);
+
   useEffect(() => {
     if (!user) return;
 
     const loadWallet = async () => {
-      // Load verified rewards (balance)
-      const { data: verified } = await supabase
-        .from('planting_verifications')
-        .select('reward_amount, reward_paid')
-        .eq('user_id', user.id)
-        .eq('status', 'verified');
-
-      if (verified) {
-        const totalEarned = verified.reduce((sum, v) => sum + (v.reward_amount || 0), 0);
-        const paid = verified.filter(v => v.reward_paid).reduce((sum, v) => sum + (v.reward_amount || 0), 0);
-        setBalance(totalEarned - paid);
-      }
-
-      // Load pending rewards
-      const { data: pending } = await supabase
-        .from('planting_verifications')
-        .select('reward_amount')
-        .eq('user_id', user.id)
-        .eq('status', 'pending');
-
-      if (pending) {
-        setPendingBalance(pending.reduce((sum, v) => sum + (v.reward_amount || 0), 0));
-      }
-
-      // Load all transactions (verified plantings as rewards)
-      const { data: allVerifications } = await supabase
-        .from('planting_verifications')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false })
-        .limit(20);
-
-      if (allVerifications) {
-        setTransactions(allVerifications);
-      }
+      await loadLedger();
 
       // Load user phone
       const { data: profile } = await supabase
@@ -85,23 +80,42 @@ const RewardsWallet = () => {
     };
 
     loadWallet();
-  }, [user]);
+  }, [user, loadLedger]);
+
+  // Payouts settle asynchronously when M-Pesa calls back
+  useEffect(() => {
+    if (!user) return;
 
-  const simulateMpesaWithdrawal = () => {
-    return new Promise((resolve) => {
-      setTimeout(() => {
-        resolve(true);
-      }, 3000);
+    return watchPayouts(user.id, (payout) => {
+      if (payout.status === 'paid') {
+        toast({
+          title: language === 'en' ? 'Withdrawal Successful!' : 'Uondoaji Umefaulu!',
+          description: language === 'en'
+            ? `KSh ${Number(payout.amount).toFixed(2)} sent to ${payout.phone_number} (${payout.mpesa_transaction_id})`
+            : `KSh ${Number(payout.amount).toFixed(2)} imetumwa kwa ${payout.phone_number} (${payout.mpesa_transaction_id})`,
+        });
+      } else if (payout.status === 'failed') {
+        toast({
+          title: language === 'en' ? 'Withdrawal Failed' : 'Uondoaji Umeshindwa',
+          description: language === 'en'
+            ? `${payout.result_desc ?? 'M-Pesa could not send the money'}. The amount is back in your wallet.`
+            : `${payout.result_desc ?? 'M-Pesa haikuweza kutuma pesa'}. Kiasi kimerudishwa kwenye pochi yako.`,
+          variant: 'destructive',
+        });
+      }
+      loadLedger();
     });
-  };
+  }, [user, language, toast, loadLedger]);
+
+  const balance = summary?.availableBalance ?? 0;
 
   const handleWithdraw = async () => {
-    const amount = parseFloat(withdrawAmount);
+    const amount = Number(withdrawAmount);
 
-    if (isNaN(amount) || amount <= 0) {
+    if (!Number.isInteger(amount) || amount <= 0) {
       toast({
         title: language === 'en' ? 'Invalid Amount' : 'Kiasi Kisichohali',
-        description: language === 'en' ? 'Please enter a valid amount' : 'Tafadhali weka kiasi halali',
+        description: language === 'en' ? 'Please enter a whole number of shillings' : 'Tafadhali weka kiasi kamili cha shilingi',
         variant: 'destructive',
       });
       return;
@@ -116,7 +130,7 @@ const RewardsWallet = () => {
       return;
     }
 
-    if (!withdrawPhone || withdrawPhone.length < 10) {
+    if (!normalizeMpesaPhone(withdrawPhone)) {
       toast({
         title: language === 'en' ? 'Invalid Phone' : 'Nambari Isiyo Sahihi',
         description: language === 'en' ? 'Please enter valid M-Pesa number' : 'Tafadhali weka nambari sahihi ya M-Pesa',
@@ -125,26 +139,32 @@ const RewardsWallet = () => {
       return;
     }
 
-    toast({
-      title: language === 'en' ? 'Processing Withdrawal...' : 'Inashughulikia Uondoaji...',
-      description: language === 'en'
-        ? 'Please wait while we process your M-Pesa withdrawal'
-        : 'Tafadhali subiri tunaposhughulikia uondoaji wako wa M-Pesa',
-    });
-
-    // Simulate M-Pesa withdrawal
-    await simulateMpesaWithdrawal();
+    setWithdrawing(true);
+    const result = await requestWithdrawal({ amount, phoneNumber: withdrawPhone, idempotencyKey });
+    setWithdrawing(false);
 
-    toast({
-      title: language === 'en' ? 'Withdrawal Successful!' : 'Uondoaji Umefaulu!',
-      description: language === 'en'
-        ? `KSh ${amount.toFixed(2)} sent to ${withdrawPhone}`
-        : `KSh ${amount.toFixed(2)} imetumwa kwa ${withdrawPhone}`,
-    });
+    if (result.status === 'failed') {
+      toast({
+        title: language === 'en' ? 'Withdrawal Failed' : 'Uondoaji Umeshindwa',
+        description: result.error ?? (language === 'en' ? 'Please try again' : 'Tafadhali jaribu tena'),
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: language === 'en' ? 'Processing Withdrawal...' : 'Inashughulikia Uondoaji...',
+        description: language === 'en'
+          ? `KSh ${amount.toFixed(2)} is on its way to ${withdrawPhone}`
+          : `KSh ${amount.toFixed(2)} inatumwa kwa ${withdrawPhone}`,
+      });
+      setWithdrawAmount('');
+    }
 
-    // In a real implementation, this would update the database
-    setBalance(prev => prev - amount);
-    setWithdrawAmount('');
+    // Keep the key only when no payout was recorded, so a retry after a
+    // dropped connection still maps to the same payout
+    if (result.payoutId || result.status !== 'failed') {
+      setIdempotencyKey(crypto.randomUUID());
+    }
+    loadLedger();
   };
 
   if (loading) {
@@ -173,13 +193,15 @@ const RewardsWallet = () => {
         <Card className="bg-gradient-to-br from-yellow-500 to-orange-600 text-white">
           <CardHeader>
             <CardTitle className="text-white">
-              {language === 'en' ? 'Pending Balance' : 'Salio Linalosubiri'}
+              {language === 'en' ? 'On the Way' : 'Njiani'}
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <p className="text-4xl font-bold">KSh {pendingBalance.toFixed(2)}</p>
+            <p className="text-4xl font-bold">KSh {(summary?.inTransit ?? 0).toFixed(2)}</p>
             <p className="text-sm opacity-90 mt-2">
-              {language === 'en' ? 'Awaiting verification' : 'Inasubiri uthibitisho'}
+              {language === 'en'
+                ? `Being sent to M-Pesa · KSh ${(summary?.totalWithdrawn ?? 0).toFixed(2)} withdrawn so far`
+                : `Inatumwa kwa M-Pesa · KSh ${(summary?.totalWithdrawn ?? 0).toFixed(2)} zimeondolewa hadi sasa`}
             </p>
           </CardContent>
         </Card>
@@ -201,7 +223,8 @@ const RewardsWallet = () => {
             <Input
               id="amount"
               type="number"
-              placeholder="0.00"
+              placeholder="0"
+              step="1"
               value={withdrawAmount}
               onChange={(e) => setWithdrawAmount(e.target.value)}
             />
@@ -219,8 +242,15 @@ const RewardsWallet = () => {
               onChange={(e) => setWithdrawPhone(e.target.value)}
             />
           </div>
-          <Button onClick={handleWithdraw} className="w-full" disabled={balance === 0}>
-            {language === 'en' ? 'Withdraw Funds' : 'Ondoa Fedha'}
+          <Button onClick={handleWithdraw} className="w-full" disabled={balance <= 0 || withdrawing}>
+            {withdrawing ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                {language === 'en' ? 'Sending to M-Pesa...' : 'Inatuma kwa M-Pesa...'}
+              </>
+            ) : (
+              language === 'en' ? 'Withdraw Funds' : 'Ondoa Fedha'
+            )}
           </Button>
         </CardContent>
       </Card>
@@ -231,44 +261,56 @@ const RewardsWallet = () => {
           <CardTitle>{language === 'en' ? 'Transaction History' : 'Historia ya Miamala'}</CardTitle>
         </CardHeader>
         <CardContent>
-          {transactions.length === 0 ? (
+          {entries.length === 0 ? (
             <p className="text-center text-muted-foreground py-4">
               {language === 'en' ? 'No transactions yet' : 'Hakuna miamala bado'}
             </p>
           ) : (
             <div className="space-y-3">
-              {transactions.map((tx) => (
-                <div
-                  key={tx.id}
-                  className="flex items-center justify-between p-3 rounded-lg bg-muted/50"
-                >
-                  <div className="flex items-center gap-3">
-                    <div className={`p-2 rounded-full ${tx.status === 'verified' ? 'bg-green-100' : 'bg-yellow-100'
-                      }`}>
-                      {tx.status === 'verified' ? (
-                        <ArrowDownRight className="h-4 w-4 text-green-600" />
-                      ) : (
-                        <ArrowUpRight className="h-4 w-4 text-yellow-600" />
-                      )}
+              {entries.map((entry) => {
+                const incoming = entry.amount > 0;
+                const label = KIND_LABELS[entry.kind] ?? { en: entry.kind, sw: entry.kind };
+                const payoutLabel = entry.kind === 'withdrawal' && entry.payoutStatus
+                  ? PAYOUT_STATUS_LABELS[entry.payoutStatus]
+                  : null;
+
+                return (
+                  <div
+                    key={entry.id}
+                    className="flex items-center justify-between p-3 rounded-lg bg-muted/50"
+                  >
+                    <div className="flex items-center gap-3">
+                      <div className={`p-2 rounded-full ${incoming ? 'bg-green-100' : 'bg-orange-100'}`}>
+                        {incoming ? (
+                          <ArrowDownRight className="h-4 w-4 text-green-600" />
+                        ) : (
+                          <ArrowUpRight className="h-4 w-4 text-orange-600" />
+                        )}
+                      </div>
+                      <div>
+                        <p className="font-medium">{language === 'en' ? label.en : label.sw}</p>
+                        {entry.description && (
+                          <p className="text-xs text-muted-foreground">{entry.description}</p>
+                        )}
+                        <p className="text-xs text-muted-foreground">
+                          {entry.createdAt && new Date(entry.createdAt).toLocaleDateString()}
+                          {entry.mpesaTransactionId && ` · M-Pesa ${entry.mpesaTransactionId}`}
+                        </p>
+                      </div>
                     </div>
-                    <div>
-                      <p className="font-medium">{tx.tree_name}</p>
-                      <p className="text-xs text-muted-foreground">
-                        {new Date(tx.created_at).toLocaleDateString()}
+                    <div className="text-right">
+                      <p className={`font-bold ${incoming ? 'text-green-600' : 'text-orange-600'}`}>
+                        {incoming ? '+' : '-'}KSh {Math.abs(entry.amount).toFixed(2)}
                       </p>
+                      {payoutLabel && (
+                        <Badge variant={entry.payoutStatus === 'failed' ? 'destructive' : 'secondary'} className="text-xs">
+                          {language === 'en' ? payoutLabel.en : payoutLabel.sw}
+                        </Badge>
+                      )}
                     </div>
                   </div>
-                  <div className="text-right">
-                    <p className={`font-bold ${tx.status === 'verified' ? 'text-green-600' : 'text-yellow-600'
-                      }`}>
-                      {tx.status === 'verified' ? '+' : ''}KSh {tx.reward_amount || 0}
-                    </p>
-                    <Badge variant={tx.status === 'verified' ? 'default' : 'secondary'} className="text-xs">
-                      {tx.status}
-                    </Badge>
-                  </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
           )}
         </CardContent>
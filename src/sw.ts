@@ -0,0 +1,108 @@
+/// <reference lib="webworker" />
+import { cleanupOutdatedCaches, createHandlerBoundToURL, matchPrecache, precacheAndRoute } from 'workbox-precaching';
+import { registerRoute, setCatchHandler } from 'workbox-routing';
+import { CacheFirst, NetworkFirst, NetworkOnly } from 'workbox-strategies';
+import { ExpirationPlugin } from 'workbox-expiration';
+import { CacheableResponsePlugin } from 'workbox-cacheable-response';
+import type { RouteHandler } from 'workbox-core';
+import { outdatedCaches, SERVICE_WORKER_ROUTES, type ServiceWorkerRoute } from './utils/serviceWorkerRoutes';
+import { SYNC_REPLAY_MESSAGES } from './utils/backgroundSync';
+
+declare let self: ServiceWorkerGlobalScope;
+
+// Build output, revisioned per file by vite-plugin-pwa (injectManifest)
+precacheAndRoute(self.__WB_MANIFEST);
+cleanupOutdatedCaches();
+
+const plugins = (route: ServiceWorkerRoute) => [
+  // Opaque responses (status 0) come from cross-origin images and tiles
+  new CacheableResponsePlugin({ statuses: [0, 200] }),
+  new ExpirationPlugin({
+    maxEntries: route.maxEntries,
+    maxAgeSeconds: route.maxAgeSeconds,
+    purgeOnQuotaError: true,
+  }),
+];
+
+const strategyFor = (route: ServiceWorkerRoute): RouteHandler => {
+  switch (route.strategy) {
+    case 'app-shell':
+      return createHandlerBoundToURL('index.html');
+    case 'cache-first':
+      return new CacheFirst({ cacheName: route.cacheName, plugins: plugins(route) });
+    case 'network-first':
+      return new NetworkFirst({
+        cacheName: route.cacheName,
+        networkTimeoutSeconds: route.networkTimeoutSeconds,
+        plugins: plugins(route),
+      });
+    case 'network-only':
+      return new NetworkOnly();
+  }
+};
+
+// Responses the app saved itself (e.g. downloaded map areas) win over the
+// route's own strategy
+const handlerFor = (route: ServiceWorkerRoute): RouteHandler => {
+  const strategy = strategyFor(route);
+  if (!route.lookupCaches?.length) return strategy;
+
+  return async (options) => {
+    for (const name of route.lookupCaches) {
+      const saved = await (await caches.open(name)).match(options.request);
+      if (saved) return saved;
+    }
+    return 'handle' in strategy ? strategy.handle(options) : strategy(options);
+  };
+};
+
+for (const route of SERVICE_WORKER_ROUTES) {
+  registerRoute(
+    ({ url, request, sameOrigin }) =>
+      route.matches({ url, method: request.method, mode: request.mode, destination: request.destination, sameOrigin }),
+    handlerFor(route)
+  );
+}
+
+// A navigation the app shell couldn't serve gets the offline page
+setCatchHandler(async ({ request }) => {
+  if (request.destination === 'document') {
+    return (await matchPrecache('offline.html')) ?? Response.error();
+  }
+  return Response.error();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    (async () => {
+      await Promise.all(outdatedCaches(await caches.keys()).map((name) => caches.delete(name)));
+      await self.clients.claim();
+    })()
+  );
+});
+
+// The update prompt (src/components/UpdatePrompt.tsx) asks a waiting worker
+// to take over once the user chooses to reload
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+// Background sync for verification submissions and swipes queued offline.
+// The queues and the signed-in session live with the page, so the worker asks
+// open pages to send them (src/utils/verificationOutbox.ts,
+// src/utils/swipeOutbox.ts). With no page open the sync fails and the
+// browser retries it later.
+const askPagesToReplay = async (type: string) => {
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  if (windows.length === 0) {
+    throw new Error('No open page to send the offline queue');
+  }
+  windows.forEach((client) => client.postMessage({ type }));
+};
+
+self.addEventListener('sync', (event: ExtendableEvent & { tag: string }) => {
+  const message = SYNC_REPLAY_MESSAGES[event.tag];
+  if (message) {
+    event.waitUntil(askPagesToReplay(message));
+  }
+});
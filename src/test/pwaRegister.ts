@@ -0,0 +1,7 @@
+// Stand-in for vite-plugin-pwa's virtual:pwa-register/react, which only
+// exists when the PWA plugin runs (not under Vitest)
+export const useRegisterSW = () => ({
+  needRefresh: [false, () => undefined],
+  offlineReady: [false, () => undefined],
+  updateServiceWorker: async () => undefined,
+});
@@ -0,0 +1,146 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { AGRO_ECOLOGICAL_ZONES } from '@/data/kenya';
+import { classifyAgroZone, detectAgroZone, resolveElevation } from './agroZoneClassifier';
+import { determineAgroZone } from './kenyaLocation';
+
+describe('classifyAgroZone', () => {
+  it('assigns temperature belts from elevation', () => {
+    const at = (value: number) =>
+      classifyAgroZone({
+        latitude: -0.5,
+        longitude: 36.5,
+        elevation: { value, source: 'dem' },
+        annualRainfall: 1200,
+      }).belt;
+
+    expect(at(2700)).toBe('UH');
+    expect(at(2100)).toBe('LH');
+    expect(at(1650)).toBe('UM');
+    expect(at(1200)).toBe('LM');
+    expect(at(500)).toBe('IL');
+  });
+
+  it('splits lowland into coastal and inland', () => {
+    const lowland = { elevation: { value: 30, source: 'dem' as const }, annualRainfall: 1000 };
+    expect(classifyAgroZone({ latitude: -4.05, longitude: 39.67, ...lowland }).belt).toBe('CL'); // Mombasa
+    expect(classifyAgroZone({ latitude: -0.45, longitude: 39.64, ...lowland }).belt).toBe('IL'); // Garissa
+  });
+
+  it('resolves the moisture subzone from rainfall and evaporation', () => {
+    // Eo at 1650 m is ~1831 mm, so these land at r/Eo 0.60 and 0.44
+    const semiHumid = classifyAgroZone({
+      latitude: -0.5,
+      longitude: 37,
+      elevation: { value: 1650, source: 'gps', accuracy: 10 },
+      annualRainfall: 1100,
+    });
+    const transitional = classifyAgroZone({
+      latitude: -0.5,
+      longitude: 37,
+      elevation: { value: 1650, source: 'gps', accuracy: 10 },
+      annualRainfall: 800,
+    });
+
+    expect(semiHumid.zone).toBe('UM3');
+    expect(transitional.zone).toBe('UM4');
+    expect(semiHumid.moistureIndex).toBeCloseTo(0.6, 2);
+  });
+
+  it('only returns zones that exist in the catalog', () => {
+    // Very dry highland would be LH6, which Kenya's zone list does not have
+    const result = classifyAgroZone({
+      latitude: 0,
+      longitude: 36,
+      elevation: { value: 2100, source: 'dem' },
+      annualRainfall: 150,
+    });
+
+    expect(result.zone).toBe('LH4');
+    expect(AGRO_ECOLOGICAL_ZONES).toContain(result.zone);
+    result.alternatives.forEach((zone) => expect(AGRO_ECOLOGICAL_ZONES).toContain(zone));
+  });
+
+  it('is more confident with precise inputs far from zone limits', () => {
+    const precise = classifyAgroZone({
+      latitude: -0.5,
+      longitude: 37,
+      elevation: { value: 1650, source: 'gps', accuracy: 10 },
+      annualRainfall: 1050,
+    });
+    const rough = classifyAgroZone({
+      latitude: -0.5,
+      longitude: 37,
+      elevation: { value: 1650, source: 'county' },
+    });
+    const nearLimit = classifyAgroZone({
+      latitude: -0.5,
+      longitude: 37,
+      elevation: { value: 1420, source: 'dem' },
+      annualRainfall: 1050,
+    });
+
+    expect(precise.confidence).toBeGreaterThan(0.6);
+    expect(rough.confidence).toBeLessThan(precise.confidence);
+    expect(nearLimit.confidence).toBeLessThan(precise.confidence);
+    expect(nearLimit.alternatives).toContain('LM3');
+  });
+
+  it('falls back to current temperature when elevation is unknown', () => {
+    const result = classifyAgroZone({ latitude: -1.29, longitude: 36.82, temperature: 19 });
+    expect(result.elevationSource).toBe('temperature');
+    expect(result.belt).toBe('UM');
+  });
+});
+
+describe('resolveElevation', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('prefers an accurate GPS altitude without touching the DEM', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    const elevation = await resolveElevation({
+      latitude: -1.29,
+      longitude: 36.82,
+      altitude: 1790,
+      altitudeAccuracy: 8,
+    });
+
+    expect(elevation).toEqual({ value: 1790, source: 'gps', accuracy: 8 });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('reads and interpolates the DEM tile covering the point', async () => {
+    // Flat 1500 m tile
+    const tile = new Int16Array(61 * 61).fill(1500);
+    const fetchMock = vi.fn(async (url: string) =>
+      url === '/dem/index.json'
+        ? Response.json({ samplesPerDegree: 60, tiles: ['S03E037'] })
+        : new Response(tile.buffer, { status: 200 })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const elevation = await resolveElevation({ latitude: -2.5, longitude: 37.5 });
+
+    expect(fetchMock).toHaveBeenCalledWith('/dem/S03E037.bin');
+    expect(elevation).toEqual({ value: 1500, source: 'dem' });
+  });
+
+  it('falls back to the county reference altitude when no tile is available', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('<html></html>', { status: 200 })));
+
+    const result = await detectAgroZone({ latitude: 0.5143, longitude: 35.2698 }); // Eldoret
+
+    expect(result.elevationSource).toBe('county');
+    expect(result.belt).toBe('LH');
+  });
+});
+
+describe('determineAgroZone', () => {
+  it('uses the given altitude', () => {
+    expect(determineAgroZone(-0.5, 37, 1650)).toMatch(/^UM/);
+    expect(determineAgroZone(-0.5, 37, 2700)).toMatch(/^UH/);
+  });
+});
@@ -0,0 +1,263 @@
+import {
+  AGRO_ECOLOGICAL_ZONES,
+  COUNTY_REFERENCE_ALTITUDES,
+  type AgroEcologicalZone,
+} from '@/data/kenya';
+import { findCountyAt } from '@/utils/kenyaBoundaries';
+import { getDemElevation } from '@/utils/elevation';
+
+/**
+ * Agro-ecological zone classifier after Jaetzold & Schmidt (Farm Management
+ * Handbook of Kenya): the main zone is a temperature belt derived from
+ * elevation, the subzone is the moisture availability ratio of annual
+ * rainfall to potential evaporation (r/Eo).
+ */
+
+export type AgroZoneBelt = 'UH' | 'LH' | 'UM' | 'LM' | 'IL' | 'CL';
+
+export type ElevationSource = 'gps' | 'dem' | 'county' | 'temperature' | 'default';
+
+export interface ElevationEstimate {
+  value: number; // metres above sea level
+  source: ElevationSource;
+  accuracy?: number | null; // metres, e.g. GeolocationCoordinates.altitudeAccuracy
+}
+
+export interface AgroZoneInput {
+  latitude: number;
+  longitude: number;
+  elevation?: ElevationEstimate | null;
+  annualRainfall?: number | null; // mm/year, e.g. estimated_annual_rainfall from get-weather-data
+  temperature?: number | null; // current °C from get-weather-data
+  county?: string | null;
+}
+
+export interface AgroZoneClassification {
+  zone: AgroEcologicalZone;
+  belt: AgroZoneBelt;
+  subzone: number;
+  confidence: number; // 0-1
+  elevation: number;
+  elevationSource: ElevationSource;
+  meanAnnualTemperature: number;
+  moistureIndex: number | null; // r/Eo, null when rainfall is unknown
+  alternatives: AgroEcologicalZone[];
+}
+
+// Mean annual temperature lapse rate for Kenya: T = 30.2 - 0.0065h
+const SEA_LEVEL_TEMPERATURE = 30.2;
+const LAPSE_RATE = 0.0065;
+
+// Potential evaporation (Woodhead): Eo = 2422 - 0.358h mm/year
+const SEA_LEVEL_EVAPORATION = 2422;
+const EVAPORATION_LAPSE = 0.358;
+
+const altitudeForTemperature = (temperature: number) =>
+  (SEA_LEVEL_TEMPERATURE - temperature) / LAPSE_RATE;
+
+// Lower elevation limit of each belt, highest first; lowland is split into
+// coastal/inland afterwards
+const BELT_LIMITS: { belt: 'UH' | 'LH' | 'UM' | 'LM' | 'L'; minAltitude: number }[] = [
+  { belt: 'UH', minAltitude: altitudeForTemperature(15) },
+  { belt: 'LH', minAltitude: altitudeForTemperature(18) },
+  { belt: 'UM', minAltitude: altitudeForTemperature(21) },
+  { belt: 'LM', minAltitude: altitudeForTemperature(24) },
+  { belt: 'L', minAltitude: -Infinity },
+];
+
+// Lower r/Eo limit of subzones 1 (humid) to 6 (arid); anything below is 7 (per-arid)
+const SUBZONE_LIMITS = [0.8, 0.65, 0.5, 0.4, 0.25, 0.15];
+
+// Subzone assumed when no rainfall is available (semi-humid)
+const DEFAULT_SUBZONE = 3;
+
+// Typical vertical error (m) and overall trust for each elevation source
+const ELEVATION_SOURCES: Record<ElevationSource, { uncertainty: number; reliability: number }> = {
+  gps: { uncertainty: 50, reliability: 0.95 },
+  dem: { uncertainty: 120, reliability: 0.9 },
+  county: { uncertainty: 450, reliability: 0.6 },
+  temperature: { uncertainty: 700, reliability: 0.45 },
+  default: { uncertainty: 900, reliability: 0.3 },
+};
+
+// Rainfall from get-weather-data is itself an estimate, so treat r/Eo as ±0.12
+const MOISTURE_UNCERTAINTY = 0.12;
+const UNKNOWN_MOISTURE_CONFIDENCE = 0.35;
+
+// A current reading can sit ~6°C either side of the annual mean
+const TEMPERATURE_TOLERANCE = 6;
+
+const COASTAL_COUNTIES = ['Mombasa', 'Kwale', 'Kilifi', 'Lamu'];
+
+const DEFAULT_ELEVATION = 1000;
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26)
+const normalCdf = (z: number): number => {
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-(z * z) / 2);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+const isZone = (zone: string): zone is AgroEcologicalZone =>
+  (AGRO_ECOLOGICAL_ZONES as readonly string[]).includes(zone);
+
+// Highest subzone listed for a belt, e.g. LH only goes to LH4
+const maxSubzone = (belt: AgroZoneBelt) =>
+  AGRO_ECOLOGICAL_ZONES.filter((zone) => zone.startsWith(belt)).length;
+
+const toZone = (belt: AgroZoneBelt, subzone: number): AgroEcologicalZone =>
+  `${belt}${Math.min(Math.max(subzone, 1), maxSubzone(belt))}` as AgroEcologicalZone;
+
+const isCoastal = (latitude: number, longitude: number, county?: string | null) => {
+  const resolvedCounty = county ?? findCountyAt(latitude, longitude)?.name ?? null;
+  if (!resolvedCounty) return longitude > 39.5 && latitude < -1.5;
+  // The Tana delta is coastal; the rest of Tana River county is inland
+  if (resolvedCounty === 'Tana River') return longitude > 39.7;
+  return COASTAL_COUNTIES.includes(resolvedCounty);
+};
+
+/**
+ * Resolve the full zone + subzone from elevation and rainfall.
+ * Pure and synchronous; see detectAgroZone for resolving elevation.
+ */
+export const classifyAgroZone = (input: AgroZoneInput): AgroZoneClassification => {
+  const { latitude, longitude, annualRainfall, temperature } = input;
+
+  let elevation = input.elevation ?? null;
+  if (!elevation && temperature != null) {
+    elevation = { value: altitudeForTemperature(temperature), source: 'temperature' };
+  }
+  if (!elevation) {
+    elevation = { value: DEFAULT_ELEVATION, source: 'default' };
+  }
+
+  const altitude = Math.max(0, elevation.value);
+  const sourceProfile = ELEVATION_SOURCES[elevation.source];
+  const uncertainty = Math.max(elevation.accuracy ?? 0, sourceProfile.uncertainty);
+
+  // Temperature belt
+  const beltIndex = BELT_LIMITS.findIndex((limit) => altitude >= limit.minAltitude);
+  const limit = BELT_LIMITS[beltIndex];
+  const upperLimit = beltIndex > 0 ? BELT_LIMITS[beltIndex - 1].minAltitude : Infinity;
+  const distanceBelow = altitude - limit.minAltitude;
+  const distanceAbove = upperLimit - altitude;
+  const beltMargin = Math.min(distanceBelow, distanceAbove);
+  let beltConfidence = sourceProfile.reliability * normalCdf(beltMargin / uncertainty);
+
+  const meanAnnualTemperature = SEA_LEVEL_TEMPERATURE - LAPSE_RATE * altitude;
+  if (
+    temperature != null &&
+    elevation.source !== 'temperature' &&
+    Math.abs(temperature - meanAnnualTemperature) > TEMPERATURE_TOLERANCE
+  ) {
+    // Current conditions disagree with the elevation; trust the belt less
+    beltConfidence *= 0.85;
+  }
+
+  const coastal = isCoastal(latitude, longitude, input.county);
+  const belt: AgroZoneBelt = limit.belt === 'L' ? (coastal ? 'CL' : 'IL') : limit.belt;
+  const neighbourBelt = (index: number): AgroZoneBelt | null => {
+    const neighbour = BELT_LIMITS[index];
+    if (!neighbour) return null;
+    return neighbour.belt === 'L' ? (coastal ? 'CL' : 'IL') : neighbour.belt;
+  };
+
+  // Moisture subzone
+  let subzone = DEFAULT_SUBZONE;
+  let moistureIndex: number | null = null;
+  let subzoneConfidence = UNKNOWN_MOISTURE_CONFIDENCE;
+  let subzoneMargin = 0;
+  let nearerDrierLimit = false;
+
+  if (annualRainfall != null && annualRainfall > 0) {
+    const evaporation = SEA_LEVEL_EVAPORATION - EVAPORATION_LAPSE * altitude;
+    moistureIndex = annualRainfall / evaporation;
+    const index = SUBZONE_LIMITS.findIndex((min) => moistureIndex! >= min);
+    subzone = index === -1 ? SUBZONE_LIMITS.length + 1 : index + 1;
+
+    const lower = index === -1 ? 0 : SUBZONE_LIMITS[index];
+    const upper =
+      index === 0 ? Infinity : SUBZONE_LIMITS[index === -1 ? SUBZONE_LIMITS.length - 1 : index - 1];
+    subzoneMargin = Math.min(moistureIndex - lower, upper - moistureIndex);
+    nearerDrierLimit = moistureIndex - lower < upper - moistureIndex;
+    subzoneConfidence = normalCdf(subzoneMargin / MOISTURE_UNCERTAINTY);
+  }
+
+  const zone = toZone(belt, subzone);
+
+  // Offer the neighbouring zones the farmer is most likely to pick instead
+  const alternatives = new Set<string>();
+  if (normalCdf(beltMargin / uncertainty) < 0.8) {
+    const other = neighbourBelt(distanceBelow < distanceAbove ? beltIndex + 1 : beltIndex - 1);
+    if (other) alternatives.add(toZone(other, subzone));
+  }
+  if (moistureIndex === null) {
+    alternatives.add(toZone(belt, subzone - 1));
+    alternatives.add(toZone(belt, subzone + 1));
+  } else if (subzoneConfidence < 0.8) {
+    alternatives.add(toZone(belt, nearerDrierLimit ? subzone + 1 : subzone - 1));
+  }
+  alternatives.delete(zone);
+
+  return {
+    zone,
+    belt,
+    subzone: Number(zone.slice(2)),
+    confidence: Math.round(beltConfidence * subzoneConfidence * 100) / 100,
+    elevation: Math.round(altitude),
+    elevationSource: elevation.source,
+    meanAnnualTemperature: Math.round(meanAnnualTemperature * 10) / 10,
+    moistureIndex: moistureIndex === null ? null : Math.round(moistureIndex * 100) / 100,
+    alternatives: [...alternatives].filter(isZone),
+  };
+};
+
+/**
+ * Pick the best available elevation: an accurate GPS fix, then the bundled
+ * DEM, then a rough GPS fix, then the county reference altitude.
+ */
+export const resolveElevation = async (params: {
+  latitude: number;
+  longitude: number;
+  altitude?: number | null;
+  altitudeAccuracy?: number | null;
+  county?: string | null;
+}): Promise<ElevationEstimate | null> => {
+  const { latitude, longitude, altitude, altitudeAccuracy, county } = params;
+  const gps: ElevationEstimate | null =
+    altitude != null ? { value: altitude, source: 'gps', accuracy: altitudeAccuracy } : null;
+
+  if (gps && altitudeAccuracy != null && altitudeAccuracy <= ELEVATION_SOURCES.gps.uncertainty) {
+    return gps;
+  }
+
+  const dem = await getDemElevation(latitude, longitude);
+  if (dem !== null) {
+    return { value: dem, source: 'dem' };
+  }
+
+  if (gps) return gps;
+
+  const resolvedCounty = county ?? findCountyAt(latitude, longitude)?.name;
+  if (resolvedCounty && COUNTY_REFERENCE_ALTITUDES[resolvedCounty] !== undefined) {
+    return { value: COUNTY_REFERENCE_ALTITUDES[resolvedCounty], source: 'county' };
+  }
+
+  return null;
+};
+
+/**
+ * Resolve elevation and classify in one step
+ */
+export const detectAgroZone = async (params: {
+  latitude: number;
+  longitude: number;
+  altitude?: number | null;
+  altitudeAccuracy?: number | null;
+  annualRainfall?: number | null;
+  temperature?: number | null;
+  county?: string | null;
+}): Promise<AgroZoneClassification> => {
+  const elevation = await resolveElevation(params);
+  return classifyAgroZone({ ...params, elevation });
+};
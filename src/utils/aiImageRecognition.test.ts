@@ -0,0 +1,47 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AITreeRecognition, type RecognitionBackend, type TreeRecognitionResult } from './aiImageRecognition';
+
+const result = (id: string): TreeRecognitionResult => ({
+  species: [{ id, name: id, confidence: 0.9 }],
+  healthAssessment: { isHealthy: true, confidence: 0.8, issues: [] },
+  growthStage: { stage: 'sapling', confidence: 0.7 },
+  locationValidation: { isPlanted: true, confidence: 0.9, environment: 'field' },
+});
+
+const backend = (name: string, available: boolean, analyze: RecognitionBackend['analyze']): RecognitionBackend => ({
+  name,
+  isAvailable: vi.fn(async () => available),
+  analyze: vi.fn(analyze),
+});
+
+const photo = new File(['tree'], 'tree.jpg', { type: 'image/jpeg' });
+
+describe('AITreeRecognition', () => {
+  it('uses the first available backend', async () => {
+    const model = backend('model', true, async () => result('grevillea'));
+    const heuristic = backend('heuristic', true, async () => result('mango'));
+    const recognition = new AITreeRecognition([model, heuristic]);
+
+    await expect(recognition.analyzeTreePhoto(photo)).resolves.toEqual(result('grevillea'));
+    expect(recognition.backendName).toBe('model');
+    expect(heuristic.analyze).not.toHaveBeenCalled();
+  });
+
+  it('falls back when a backend is unavailable or fails', async () => {
+    const missing = backend('missing', false, async () => result('neem'));
+    const broken = backend('broken', true, async () => {
+      throw new Error('WebGL context lost');
+    });
+    const heuristic = backend('heuristic', true, async () => result('mango'));
+    const recognition = new AITreeRecognition([missing, broken, heuristic]);
+
+    await expect(recognition.analyzeTreePhoto(photo)).resolves.toEqual(result('mango'));
+    expect(missing.analyze).not.toHaveBeenCalled();
+    expect(recognition.backendName).toBe('heuristic');
+  });
+
+  it('throws when no backend can analyze the photo', async () => {
+    const recognition = new AITreeRecognition([backend('missing', false, async () => result('neem'))]);
+    await expect(recognition.analyzeTreePhoto(photo)).rejects.toThrow('Failed to analyze tree photo');
+  });
+});
@@ -1,4 +1,3 @@
-import type { KenyanTreeSpecies } from "@/data/kenya";
 import { logger } from "@/utils/logger";
 
 export interface TreeRecognitionResult {
@@ -23,6 +22,24 @@ export interface TreeRecognitionResult {
   };
 }
 
+export type SpeciesMatch = TreeRecognitionResult['species'][number];
+
+export interface ExpectedLocation {
+  county: string;
+  agroZone: string;
+}
+
+/**
+ * Something that can turn a tree photo into a TreeRecognitionResult.
+ * AITreeRecognition tries its backends in order and uses the first one that
+ * is available on this device.
+ */
+export interface RecognitionBackend {
+  readonly name: string;
+  isAvailable(): Promise<boolean>;
+  analyze(imageFile: File, expectedLocation?: ExpectedLocation): Promise<TreeRecognitionResult>;
+}
+
 interface ImageAnalysisFeatures {
   dominantColors: string[];
   texturePatterns: string[];
@@ -33,56 +50,57 @@ interface ImageAnalysisFeatures {
   imageQuality: 'low' | 'medium' | 'high';
 }
 
-/**
- * AI-Powered Tree Species Recognition System
- * Uses computer vision to identify tree species from photos
- */
 export interface SpeciesData {
   visualFeatures: ImageAnalysisFeatures;
   commonNames: string[];
   scientificName: string;
 }
 
-export class AITreeRecognition {
+/**
+ * Colour and shape heuristics over a hand-written species table. Much of the
+ * pattern detection is simulated. It is the only backend until a trained
+ * species model exists to plug in as another RecognitionBackend.
+ */
+export class HeuristicRecognitionBackend implements RecognitionBackend {
+  readonly name = 'heuristic';
   private speciesDatabase: Map<string, SpeciesData> = new Map();
 
   constructor() {
     this.initializeSpeciesDatabase();
   }
 
+  async isAvailable(): Promise<boolean> {
+    return typeof document !== 'undefined';
+  }
+
   /**
    * Analyze uploaded tree photo and identify species
    */
-  async analyzeTreePhoto(
+  async analyze(
     imageFile: File,
-    expectedLocation?: { county: string; agroZone: string }
+    expectedLocation?: ExpectedLocation
   ): Promise<TreeRecognitionResult> {
-    try {
-      // Extract visual features from image
-      const features = await this.extractImageFeatures(imageFile);
+    // Extract visual features from image
+    const features = await this.extractImageFeatures(imageFile);
 
-      // Identify species using AI model
-      const species = await this.identifySpecies(features, expectedLocation);
+    // Identify species using AI model
+    const species = await this.identifySpecies(features, expectedLocation);
 
-      // Assess tree health
-      const healthAssessment = await this.assessTreeHealth(features);
+    // Assess tree health
+    const healthAssessment = await this.assessTreeHealth(features);
 
-      // Determine growth stage
-      const growthStage = await this.determineGrowthStage(features);
+    // Determine growth stage
+    const growthStage = await this.determineGrowthStage(features);
 
-      // Validate planting location
-      const locationValidation = await this.validatePlantingLocation(features, expectedLocation);
+    // Validate planting location
+    const locationValidation = await this.validatePlantingLocation(features, expectedLocation);
 
-      return {
-        species,
-        healthAssessment,
-        growthStage,
-        locationValidation
-      };
-    } catch (error) {
-      logger.error('AI tree recognition failed:', error);
-      throw new Error('Failed to analyze tree photo');
-    }
+    return {
+      species,
+      healthAssessment,
+      growthStage,
+      locationValidation
+    };
   }
 
   /**
@@ -130,7 +148,7 @@ export class AITreeRecognition {
    */
   private async identifySpecies(
     features: ImageAnalysisFeatures,
-    expectedLocation?: { county: string; agroZone: string }
+    expectedLocation?: ExpectedLocation
   ): Promise<Array<{ id: string; name: string; confidence: number }>> {
     const candidates: Array<{ id: string; name: string; confidence: number }> = [];
 
@@ -159,7 +177,7 @@ export class AITreeRecognition {
   private calculateSpeciesConfidence(
     features: ImageAnalysisFeatures,
     speciesData: SpeciesData,
-    expectedLocation?: { county: string; agroZone: string }
+    expectedLocation?: ExpectedLocation
   ): number {
     let confidence = 0;
 
@@ -258,7 +276,7 @@ export class AITreeRecognition {
    */
   private async validatePlantingLocation(
     features: ImageAnalysisFeatures,
-    expectedLocation?: { county: string; agroZone: string }
+    expectedLocation?: ExpectedLocation
   ): Promise<{
     isPlanted: boolean;
     confidence: number;
@@ -515,6 +533,46 @@ export class AITreeRecognition {
     // Add more species as needed
   }
 
+}
+
+/**
+ * Tree species recognition for verification photos
+ *
+ * Runs entirely in the browser. Backends are tried in order: if one is
+ * unavailable on this device or fails on a photo, the next one is used.
+ */
+export class AITreeRecognition {
+  private lastBackend: string | null = null;
+
+  constructor(private backends: RecognitionBackend[]) {}
+
+  /** Name of the backend that produced the most recent result */
+  get backendName(): string | null {
+    return this.lastBackend;
+  }
+
+  /**
+   * Analyze uploaded tree photo and identify species
+   */
+  async analyzeTreePhoto(
+    imageFile: File,
+    expectedLocation?: ExpectedLocation
+  ): Promise<TreeRecognitionResult> {
+    for (const backend of this.backends) {
+      try {
+        if (!(await backend.isAvailable())) continue;
+        const result = await backend.analyze(imageFile, expectedLocation);
+        this.lastBackend = backend.name;
+        return result;
+      } catch (error) {
+        logger.warn(`Tree recognition backend ${backend.name} failed:`, error);
+      }
+    }
+
+    logger.error('AI tree recognition failed: no backend could analyze the photo');
+    throw new Error('Failed to analyze tree photo');
+  }
+
   /**
    * Get recognition accuracy statistics
    */
@@ -532,6 +590,8 @@ export class AITreeRecognition {
   }
 }
 
-// Export singleton instance
-export const aiTreeRecognition = new AITreeRecognition();
+// Export singleton instance; no trained species model is available yet
+export const aiTreeRecognition = new AITreeRecognition([
+  new HeuristicRecognitionBackend(),
+]);
 
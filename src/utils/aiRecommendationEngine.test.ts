@@ -0,0 +1,131 @@
+import { beforeEach, describe, it, expect, vi } from 'vitest';
+import { KENYAN_TREES } from '@/data/kenya';
+
+const { insert, rpc } = vi.hoisted(() => ({
+  insert: vi.fn(),
+  rpc: vi.fn(),
+}));
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: vi.fn(() => ({ insert })),
+    rpc,
+  },
+}));
+
+import { supabase } from '@/integrations/supabase/client';
+import { AIRecommendationEngine, type RecommendationModel } from './aiRecommendationEngine';
+
+const profile = {
+  county: 'Kilifi',
+  agroZone: 'CL1',
+  conservationGoals: ['fruit'],
+  landSize: 1,
+};
+
+const statsRow = (treeId: number, overrides: Record<string, number> = {}) => ({
+  tree_id: treeId,
+  county_plantings: 0,
+  county_survived: 0,
+  agro_zone_plantings: 0,
+  agro_zone_survived: 0,
+  similar_swipes: 0,
+  similar_likes: 0,
+  ...overrides,
+});
+
+describe('AIRecommendationEngine', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    insert.mockResolvedValue({ error: null });
+  });
+
+  it('persists swipes to swipe_events', async () => {
+    const engine = new AIRecommendationEngine();
+    await engine.recordUserBehavior('user-1', 1, 'liked', { county: 'Kilifi', agroZone: 'CL1' }, 82);
+
+    expect(supabase.from).toHaveBeenCalledWith('swipe_events');
+    expect(insert).toHaveBeenCalledWith({
+      user_id: 'user-1',
+      tree_id: 1,
+      action: 'liked',
+      county: 'Kilifi',
+      agro_zone: 'CL1',
+      compatibility_score: 82,
+    });
+  });
+
+  it('surfaces insert errors to the caller', async () => {
+    insert.mockResolvedValue({ error: new Error('permission denied') });
+    const engine = new AIRecommendationEngine();
+
+    await expect(
+      engine.recordPlantingOutcome('user-1', 1, false, { county: 'Kilifi', agroZone: 'CL1' })
+    ).rejects.toThrow('permission denied');
+  });
+
+  it('uses shared outcomes and similar farmers from the stats RPC', async () => {
+    const mango = KENYAN_TREES[0];
+    rpc.mockResolvedValue({
+      data: [
+        statsRow(mango.dbId, {
+          county_plantings: 40,
+          county_survived: 38,
+          agro_zone_plantings: 40,
+          agro_zone_survived: 38,
+          similar_swipes: 20,
+          similar_likes: 18,
+        }),
+      ],
+      error: null,
+    });
+
+    const engine = new AIRecommendationEngine();
+    const [before] = engine.generateRecommendations('user-1', [mango], profile);
+    await engine.loadHistoricalStats(profile);
+    const [after] = engine.generateRecommendations('user-1', [mango], profile);
+
+    expect(rpc).toHaveBeenCalledWith('get_recommendation_stats', {
+      p_county: 'Kilifi',
+      p_agro_zone: 'CL1',
+      p_goals: ['fruit'],
+    });
+    expect(after.prediction.survivalProbability).toBeGreaterThan(before.prediction.survivalProbability);
+    expect(after.prediction.compatibilityScore).toBeGreaterThan(before.prediction.compatibilityScore);
+    expect(after.prediction.confidence).toBeGreaterThan(before.prediction.confidence);
+  });
+
+  it('does not let a single failed planting sink a tree', async () => {
+    const mango = KENYAN_TREES[0];
+    rpc.mockResolvedValue({
+      data: [statsRow(mango.dbId, { county_plantings: 1, agro_zone_plantings: 1 })],
+      error: null,
+    });
+
+    const engine = new AIRecommendationEngine();
+    await engine.loadHistoricalStats(profile);
+    const [recommendation] = engine.generateRecommendations('user-1', [mango], profile);
+
+    expect(recommendation.prediction.survivalProbability).toBeGreaterThan(50);
+  });
+
+  it('scores with trained logistic weights', () => {
+    const mango = KENYAN_TREES[0];
+    const model: RecommendationModel = {
+      version: 7,
+      kind: 'logistic',
+      trainedAt: '2025-12-01T00:00:00.000Z',
+      intercept: -1,
+      weights: { county_match: 2, price_preference: 1 },
+    };
+
+    const engine = new AIRecommendationEngine(model);
+    const [inCounty] = engine.generateRecommendations('user-1', [mango], profile);
+    const [elsewhere] = engine.generateRecommendations('user-1', [mango], { ...profile, county: 'Turkana' });
+
+    // Mango is suitable for Kilifi and costs 200 KSH: sigmoid(-1 + 2 + 1)
+    expect(inCounty.prediction.compatibilityScore).toBeCloseTo(100 / (1 + Math.exp(-2)), 5);
+    expect(elsewhere.prediction.compatibilityScore).toBeCloseTo(50, 5);
+    expect(engine.getModelInsights().modelVersion).toBe(7);
+  });
+});
@@ -1,32 +1,56 @@
 import type { KenyanTreeSpecies } from "@/data/kenya";
+import { supabase } from "@/integrations/supabase/client";
+import bundledModel from "@/data/models/recommendation-weights.json";
 
-interface UserBehavior {
-  userId: string;
-  swipedTrees: Array<{
-    treeId: string;
-    action: 'liked' | 'disliked' | 'planted';
-    timestamp: Date;
-    location: {
-      county: string;
-      agroZone: string;
-    };
-  }>;
-  successfulPlantings: Array<{
-    treeId: string;
-    plantedAt: Date;
-    survived: boolean;
-    location: {
-      county: string;
-      agroZone: string;
-    };
-  }>;
-  preferences: {
-    conservationGoals: string[];
-    preferredUses: string[];
-    priceRange: [number, number];
-  };
+/**
+ * Weights produced by scripts/train-recommendation-model.mjs. "linear" scores
+ * are the weighted sum of features; "logistic" scores pass it through a sigmoid.
+ */
+export interface RecommendationModel {
+  version: number;
+  kind: 'linear' | 'logistic';
+  trainedAt: string | null;
+  description?: string;
+  intercept: number;
+  weights: Record<string, number>;
+}
+
+export type ModelFeature =
+  | 'county_match'
+  | 'agro_zone_match'
+  | 'conservation_goals'
+  | 'price_preference'
+  | 'historical_success'
+  | 'user_similarity'
+  | 'environmental_factors';
+
+type SwipeAction = 'liked' | 'disliked' | 'planted';
+
+interface EngineLocation {
+  county: string;
+  agroZone: string;
 }
 
+/**
+ * Aggregated outcomes and swipes for one tree, as returned by the
+ * get_recommendation_stats RPC
+ */
+export interface TreeHistoricalStats {
+  countyPlantings: number;
+  countySurvived: number;
+  agroZonePlantings: number;
+  agroZoneSurvived: number;
+  similarSwipes: number;
+  similarLikes: number;
+}
+
+// Survival rate assumed for a tree nobody has planted yet
+const PRIOR_SUCCESS_RATE = 0.7;
+// How many observed plantings the prior is worth when smoothing
+const PRIOR_WEIGHT = 5;
+// Similarity assumed when no similar farmer has swiped the tree
+const DEFAULT_SIMILARITY = 0.5;
+
 interface MLFeatures {
   // User profile features
   county: string;
@@ -51,6 +75,8 @@ interface MLFeatures {
   successRateInCounty: number;
   successRateInAgroZone: number;
   userSimilarityScore: number;
+  historicalSamples: number;
+  similarSwipes: number;
 }
 
 interface MLPrediction {
@@ -65,84 +91,117 @@ interface MLPrediction {
  * Uses machine learning to provide personalized tree recommendations
  */
 export class AIRecommendationEngine {
-  private userBehaviors: Map<string, UserBehavior> = new Map();
+  private historicalStats: Map<number, TreeHistoricalStats> = new Map();
   private modelWeights: Map<string, number> = new Map();
+  private model: RecommendationModel;
 
-  constructor() {
+  constructor(model: RecommendationModel = bundledModel as RecommendationModel) {
+    this.model = model;
     this.initializeModelWeights();
   }
 
   /**
-   * Initialize ML model weights based on feature importance
+   * Initialize ML model weights from the versioned weights file
    */
   private initializeModelWeights(): void {
-    // These weights would typically be learned from training data
-    this.modelWeights.set('county_match', 0.25);
-    this.modelWeights.set('agro_zone_match', 0.20);
-    this.modelWeights.set('conservation_goals', 0.15);
-    this.modelWeights.set('price_preference', 0.10);
-    this.modelWeights.set('historical_success', 0.15);
-    this.modelWeights.set('user_similarity', 0.10);
-    this.modelWeights.set('environmental_factors', 0.05);
+    this.modelWeights = new Map(Object.entries(this.model.weights));
   }
 
   /**
-   * Record user behavior for ML training
+   * Version of the loaded weights, for logging alongside recommendations
    */
-  recordUserBehavior(
-    userId: string,
-    treeId: string,
-    action: 'liked' | 'disliked' | 'planted',
-    location: { county: string; agroZone: string }
-  ): void {
-    if (!this.userBehaviors.has(userId)) {
-      this.userBehaviors.set(userId, {
-        userId,
-        swipedTrees: [],
-        successfulPlantings: [],
-        preferences: {
-          conservationGoals: [],
-          preferredUses: [],
-          priceRange: [0, 1000]
-        }
-      });
-    }
+  get modelVersion(): number {
+    return this.model.version;
+  }
 
-    const behavior = this.userBehaviors.get(userId)!;
-    behavior.swipedTrees.push({
-      treeId,
+  /**
+   * Record a swipe in swipe_events for ML training. Swipes replayed from the
+   * offline outbox pass their id as clientEventId so a retry is recorded once.
+   */
+  async recordUserBehavior(
+    userId: string,
+    treeId: number,
+    action: SwipeAction,
+    location: EngineLocation,
+    compatibilityScore?: number,
+    clientEventId?: string
+  ): Promise<void> {
+    const { error } = await supabase.from('swipe_events').insert({
+      user_id: userId,
+      tree_id: treeId,
       action,
-      timestamp: new Date(),
-      location
+      county: location.county,
+      agro_zone: location.agroZone,
+      compatibility_score: compatibilityScore ?? null,
+      ...(clientEventId ? { client_event_id: clientEventId } : {}),
     });
 
-    // Update user preferences based on behavior
-    this.updateUserPreferences(userId, treeId, action);
+    // 23505: already recorded by an earlier attempt
+    if (error && !(clientEventId && error.code === '23505')) throw error;
   }
 
   /**
-   * Record successful planting for survival prediction
+   * Record whether a planted tree survived in planting_outcomes.
+   * Approving a verification records a surviving planting automatically;
+   * use this for later observations (e.g. a tree that died).
    */
-  recordPlantingOutcome(
+  async recordPlantingOutcome(
     userId: string,
-    treeId: string,
+    treeId: number,
     survived: boolean,
-    location: { county: string; agroZone: string }
-  ): void {
-    if (!this.userBehaviors.has(userId)) {
-      return;
-    }
-
-    const behavior = this.userBehaviors.get(userId)!;
-    behavior.successfulPlantings.push({
-      treeId,
-      plantedAt: new Date(),
+    location: EngineLocation,
+    verificationId?: string
+  ): Promise<void> {
+    const { error } = await supabase.from('planting_outcomes').insert({
+      user_id: userId,
+      tree_id: treeId,
       survived,
-      location
+      county: location.county,
+      agro_zone: location.agroZone,
+      verification_id: verificationId ?? null,
     });
 
-    // Retrain model with new data
-    this.retrainModel();
+    if (error) throw error;
+  }
+
+  /**
+   * Load aggregated survival and swipe statistics from all farmers for the
+   * given location and goals. Call before generateRecommendations; without
+   * it every tree falls back to the priors.
+   */
+  async loadHistoricalStats(userProfile: {
+    county: string;
+    agroZone: string;
+    conservationGoals: string[];
+  }): Promise<void> {
+    const { data, error } = await supabase.rpc('get_recommendation_stats', {
+      p_county: userProfile.county,
+      p_agro_zone: userProfile.agroZone,
+      p_goals: userProfile.conservationGoals,
+    });
+
+    if (error) throw error;
+
+    this.historicalStats = new Map(
+      (data || []).map((row) => [
+        row.tree_id,
+        {
+          countyPlantings: Number(row.county_plantings),
+          countySurvived: Number(row.county_survived),
+          agroZonePlantings: Number(row.agro_zone_plantings),
+          agroZoneSurvived: Number(row.agro_zone_survived),
+          similarSwipes: Number(row.similar_swipes),
+          similarLikes: Number(row.similar_likes),
+        },
+      ])
+    );
+  }
+
+  /**
+   * Loaded statistics for one tree, for explaining its score
+   */
+  getTreeStats(treeDbId: number): TreeHistoricalStats | undefined {
+    return this.historicalStats.get(treeDbId);
   }
 
   /**
@@ -163,11 +222,10 @@ export class AIRecommendationEngine {
       rainfall: number;
     }
   ): Array<{ tree: KenyanTreeSpecies; prediction: MLPrediction }> {
-    const userBehavior = this.userBehaviors.get(userId);
     const recommendations: Array<{ tree: KenyanTreeSpecies; prediction: MLPrediction }> = [];
 
     for (const tree of trees) {
-      const features = this.extractFeatures(tree, userProfile, userBehavior, weatherData);
+      const features = this.extractFeatures(tree, userProfile, weatherData);
       const prediction = this.predictCompatibility(features);
 
       recommendations.push({ tree, prediction });
@@ -188,13 +246,14 @@ export class AIRecommendationEngine {
       conservationGoals: string[];
       landSize: number;
     },
-    userBehavior: UserBehavior | undefined,
     weatherData?: {
       temperature: number;
       humidity: number;
       rainfall: number;
     }
   ): MLFeatures {
+    const stats = this.historicalStats.get(tree.dbId);
+
     return {
       county: userProfile.county,
       agroZone: userProfile.agroZone,
@@ -209,49 +268,26 @@ export class AIRecommendationEngine {
       humidity: weatherData?.humidity || 60,
       rainfall: weatherData?.rainfall || 1000,
       season: this.getCurrentSeason(),
-      successRateInCounty: this.calculateSuccessRateInCounty(tree.id, userProfile.county),
-      successRateInAgroZone: this.calculateSuccessRateInAgroZone(tree.id, userProfile.agroZone),
-      userSimilarityScore: this.calculateUserSimilarity(userBehavior, tree)
+      successRateInCounty: this.smoothSuccessRate(stats?.countySurvived ?? 0, stats?.countyPlantings ?? 0),
+      successRateInAgroZone: this.smoothSuccessRate(stats?.agroZoneSurvived ?? 0, stats?.agroZonePlantings ?? 0),
+      userSimilarityScore: this.calculateUserSimilarity(stats),
+      historicalSamples: (stats?.countyPlantings ?? 0) + (stats?.agroZonePlantings ?? 0),
+      similarSwipes: stats?.similarSwipes ?? 0
     };
   }
 
   /**
-   * ML prediction algorithm (simplified neural network simulation)
+   * Score a tree with the loaded model
    */
   private predictCompatibility(features: MLFeatures): MLPrediction {
-    // Simulate ML model prediction
-    let compatibilityScore = 0;
-    let survivalProbability = 0;
-    let userEngagementScore = 0;
-
-    // County match feature
-    const countyMatch = features.suitableCounties.includes(features.county) ? 1 : 0;
-    compatibilityScore += countyMatch * this.modelWeights.get('county_match')! * 100;
-
-    // Agro-zone match feature
-    const agroZoneMatch = features.agroZones.includes(features.agroZone) ? 1 : 0;
-    compatibilityScore += agroZoneMatch * this.modelWeights.get('agro_zone_match')! * 100;
-
-    // Conservation goals alignment
-    const goalsMatch = features.conservationGoals.filter(goal =>
-      features.uses.includes(goal)
-    ).length / Math.max(features.conservationGoals.length, 1);
-    compatibilityScore += goalsMatch * this.modelWeights.get('conservation_goals')! * 100;
-
     // Historical success rate
     const historicalSuccess = (features.successRateInCounty + features.successRateInAgroZone) / 2;
-    survivalProbability = historicalSuccess * 100;
-    compatibilityScore += historicalSuccess * this.modelWeights.get('historical_success')! * 100;
+    const survivalProbability = historicalSuccess * 100;
 
-    // User similarity (collaborative filtering)
-    compatibilityScore += features.userSimilarityScore * this.modelWeights.get('user_similarity')! * 100;
-
-    // Environmental factors
-    const envScore = this.calculateEnvironmentalScore(features);
-    compatibilityScore += envScore * this.modelWeights.get('environmental_factors')! * 100;
+    const compatibilityScore = this.scoreFeatures(this.extractModelFeatures(features, historicalSuccess)) * 100;
 
     // User engagement prediction
-    userEngagementScore = this.predictUserEngagement(features);
+    const userEngagementScore = this.predictUserEngagement(features);
 
     // Calculate confidence based on data availability
     const confidence = this.calculateConfidence(features);
@@ -265,82 +301,49 @@ export class AIRecommendationEngine {
   }
 
   /**
-   * Calculate success rate for a tree in a specific county
+   * Feature vector the weights apply to, every value in [0, 1].
+   * Keep in sync with buildFeatures in scripts/train-recommendation-model.mjs.
    */
-  private calculateSuccessRateInCounty(treeId: string, county: string): number {
-    let totalPlantings = 0;
-    let successfulPlantings = 0;
-
-    for (const behavior of this.userBehaviors.values()) {
-      for (const planting of behavior.successfulPlantings) {
-        if (planting.treeId === treeId && planting.location.county === county) {
-          totalPlantings++;
-          if (planting.survived) successfulPlantings++;
-        }
-      }
-    }
-
-    return totalPlantings > 0 ? successfulPlantings / totalPlantings : 0.7; // Default 70% if no data
+  private extractModelFeatures(features: MLFeatures, historicalSuccess: number): Record<ModelFeature, number> {
+    return {
+      county_match: features.suitableCounties.includes(features.county) ? 1 : 0,
+      agro_zone_match: features.agroZones.includes(features.agroZone) ? 1 : 0,
+      conservation_goals: features.conservationGoals.filter(goal =>
+        features.uses.includes(goal)
+      ).length / Math.max(features.conservationGoals.length, 1),
+      price_preference: features.price <= 200 ? 1 : features.price <= 500 ? 0.5 : 0,
+      historical_success: historicalSuccess,
+      user_similarity: features.userSimilarityScore,
+      environmental_factors: this.calculateEnvironmentalScore(features)
+    };
   }
 
   /**
-   * Calculate success rate for a tree in a specific agro-zone
+   * Apply the loaded model; features without a weight are ignored
    */
-  private calculateSuccessRateInAgroZone(treeId: string, agroZone: string): number {
-    let totalPlantings = 0;
-    let successfulPlantings = 0;
-
-    for (const behavior of this.userBehaviors.values()) {
-      for (const planting of behavior.successfulPlantings) {
-        if (planting.treeId === treeId && planting.location.agroZone === agroZone) {
-          totalPlantings++;
-          if (planting.survived) successfulPlantings++;
-        }
-      }
+  private scoreFeatures(values: Record<ModelFeature, number>): number {
+    let total = this.model.intercept;
+    for (const [feature, value] of Object.entries(values)) {
+      total += (this.modelWeights.get(feature) ?? 0) * value;
     }
-
-    return totalPlantings > 0 ? successfulPlantings / totalPlantings : 0.7; // Default 70% if no data
+    return this.model.kind === 'logistic' ? 1 / (1 + Math.exp(-total)) : total;
   }
 
   /**
-   * Calculate user similarity for collaborative filtering
+   * Survival rate pulled towards the prior while there are few plantings,
+   * so a single dead seedling does not sink a tree
    */
-  private calculateUserSimilarity(userBehavior: UserBehavior | undefined, tree: KenyanTreeSpecies): number {
-    if (!userBehavior) return 0.5; // Default similarity
-
-    // Find similar users who liked this tree
-    let similarUsers = 0;
-    let totalSimilarUsers = 0;
-
-    for (const otherBehavior of this.userBehaviors.values()) {
-      if (otherBehavior.userId === userBehavior.userId) continue;
-
-      // Check if users have similar preferences
-      const preferenceSimilarity = this.calculatePreferenceSimilarity(userBehavior, otherBehavior);
-
-      if (preferenceSimilarity > 0.6) {
-        totalSimilarUsers++;
-        const likedThisTree = otherBehavior.swipedTrees.some(
-          swipe => swipe.treeId === tree.id && swipe.action === 'liked'
-        );
-        if (likedThisTree) similarUsers++;
-      }
-    }
-
-    return totalSimilarUsers > 0 ? similarUsers / totalSimilarUsers : 0.5;
+  private smoothSuccessRate(survived: number, plantings: number): number {
+    return (survived + PRIOR_SUCCESS_RATE * PRIOR_WEIGHT) / (plantings + PRIOR_WEIGHT);
   }
 
   /**
-   * Calculate preference similarity between users
+   * Share of similar farmers' swipes on this tree that were likes
+   * (collaborative filtering)
    */
-  private calculatePreferenceSimilarity(user1: UserBehavior, user2: UserBehavior): number {
-    const goals1 = new Set(user1.preferences.conservationGoals);
-    const goals2 = new Set(user2.preferences.conservationGoals);
-
-    const intersection = new Set([...goals1].filter(x => goals2.has(x)));
-    const union = new Set([...goals1, ...goals2]);
-
-    return union.size > 0 ? intersection.size / union.size : 0;
+  private calculateUserSimilarity(stats: TreeHistoricalStats | undefined): number {
+    if (!stats || stats.similarSwipes === 0) return DEFAULT_SIMILARITY;
+    return stats.similarLikes / stats.similarSwipes;
   }
 
   /**
@@ -382,44 +385,12 @@ export class AIRecommendationEngine {
     let confidence = 0.5; // Base confidence
 
     // More data = higher confidence
-    if (features.successRateInCounty > 0) confidence += 0.2;
-    if (features.successRateInAgroZone > 0) confidence += 0.2;
-    if (features.userSimilarityScore > 0.5) confidence += 0.1;
+    confidence += 0.4 * (features.historicalSamples / (features.historicalSamples + PRIOR_WEIGHT * 2));
+    confidence += 0.1 * (features.similarSwipes / (features.similarSwipes + PRIOR_WEIGHT));
 
     return Math.min(1, confidence);
   }
 
-  /**
-   * Update user preferences based on behavior
-   */
-  private updateUserPreferences(userId: string, treeId: string, action: string): void {
-    const behavior = this.userBehaviors.get(userId);
-    if (!behavior) return;
-
-    // This would analyze the tree's properties and update user preferences
-    // For now, simplified implementation
-    if (action === 'liked') {
-      // Update preferences based on liked tree characteristics
-    }
-  }
-
-  /**
-   * Retrain model with new data
-   */
-  private retrainModel(): void {
-    // In a real implementation, this would retrain the ML model
-    // For now, we'll adjust weights based on success patterns
-    this.adjustModelWeights();
-  }
-
-  /**
-   * Adjust model weights based on success patterns
-   */
-  private adjustModelWeights(): void {
-    // Analyze success patterns and adjust weights
-    // This is a simplified version - real ML would use gradient descent
-  }
-
   /**
    * Get current season
    */
@@ -477,46 +448,42 @@ export class AIRecommendationEngine {
   }
 
   /**
-   * Get model insights for debugging/analytics
+   * Get model insights for debugging/analytics from the loaded statistics
    */
   getModelInsights(): {
-    totalUsers: number;
+    modelVersion: number;
+    treesWithData: number;
     totalInteractions: number;
     averageSuccessRate: number;
-    topPerformingTrees: Array<{ treeId: string; successRate: number }>;
+    topPerformingTrees: Array<{ treeId: number; successRate: number }>;
   } {
-    const totalUsers = this.userBehaviors.size;
     let totalInteractions = 0;
     let totalPlantings = 0;
     let successfulPlantings = 0;
-    const treeSuccessRates = new Map<string, { total: number; successful: number }>();
-
-    for (const behavior of this.userBehaviors.values()) {
-      totalInteractions += behavior.swipedTrees.length;
-      totalPlantings += behavior.successfulPlantings.length;
-
-      for (const planting of behavior.successfulPlantings) {
-        if (planting.survived) successfulPlantings++;
-
-        const current = treeSuccessRates.get(planting.treeId) || { total: 0, successful: 0 };
-        current.total++;
-        if (planting.survived) current.successful++;
-        treeSuccessRates.set(planting.treeId, current);
+    const treeSuccessRates: Array<{ treeId: number; successRate: number }> = [];
+
+    for (const [treeId, stats] of this.historicalStats.entries()) {
+      totalInteractions += stats.similarSwipes;
+      totalPlantings += stats.agroZonePlantings;
+      successfulPlantings += stats.agroZoneSurvived;
+
+      if (stats.agroZonePlantings > 0) {
+        treeSuccessRates.push({
+          treeId,
+          successRate: stats.agroZoneSurvived / stats.agroZonePlantings
+        });
       }
     }
 
     const averageSuccessRate = totalPlantings > 0 ? successfulPlantings / totalPlantings : 0;
 
-    const topPerformingTrees = Array.from(treeSuccessRates.entries())
-      .map(([treeId, stats]) => ({
-        treeId,
-        successRate: stats.total > 0 ? stats.successful / stats.total : 0
-      }))
+    const topPerformingTrees = treeSuccessRates
       .sort((a, b) => b.successRate - a.successRate)
       .slice(0, 5);
 
     return {
-      totalUsers,
+      modelVersion: this.model.version,
+      treesWithData: treeSuccessRates.length,
       totalInteractions,
       averageSuccessRate,
       topPerformingTrees
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+  auditLogToCsv,
+  changedFields,
+  describeAuditAction,
+  summarizeChanges,
+  type AuditLogEntry,
+} from './auditLog';
+
+const entry = (overrides: Partial<AuditLogEntry>): AuditLogEntry => ({
+  id: 1,
+  created_at: '2025-12-12T08:30:00Z',
+  actor_id: 'moderator-1',
+  action: 'verification.approved',
+  target_table: 'planting_verifications',
+  target_id: 'verification-1',
+  target_user_id: 'farmer-1',
+  before: { status: 'pending', reward_amount: 0, updated_at: '2025-12-10' },
+  after: { status: 'verified', reward_amount: 50, updated_at: '2025-12-12' },
+  reason: null,
+  ...overrides,
+});
+
+describe('changedFields', () => {
+  it('lists the fields an update changed, ignoring updated_at', () => {
+    expect(changedFields(entry({}))).toEqual([
+      { field: 'status', before: 'pending', after: 'verified' },
+      { field: 'reward_amount', before: 0, after: 50 },
+    ]);
+  });
+
+  it('lists nothing for a deletion', () => {
+    expect(changedFields(entry({ after: null }))).toEqual([]);
+  });
+
+  it('summarizes creations without a before value', () => {
+    expect(summarizeChanges(entry({ before: null, after: { role: 'moderator' } }))).toBe('role: moderator');
+  });
+});
+
+describe('describeAuditAction', () => {
+  it('labels known actions and derives the rest', () => {
+    expect(describeAuditAction('verification.reversed')).toBe('Reversed reward');
+    expect(describeAuditAction('reward_rule.updated')).toBe('Reward rule updated');
+  });
+});
+
+describe('auditLogToCsv', () => {
+  it('names actors, marks system changes and quotes cells', () => {
+    const csv = auditLogToCsv(
+      [
+        entry({ reason: 'Photo reused, "same" tree' }),
+        entry({ id: 2, actor_id: null, action: 'payout.paid', reason: null }),
+      ],
+      { 'moderator-1': 'Wanjiru K.' }
+    );
+    const [header, first, second] = csv.split('\r\n');
+
+    expect(header).toBe('Time,Actor,Actor ID,Action,Table,Target,Target user,Reason,Changes');
+    expect(first).toContain('Wanjiru K.,moderator-1,verification.approved');
+    expect(first).toContain('"Photo reused, ""same"" tree"');
+    expect(first).toContain('status: pending → verified; reward_amount: 0 → 50');
+    expect(second).toContain('System,,payout.paid');
+  });
+
+  it('stops spreadsheets reading cells as formulas', () => {
+    const csv = auditLogToCsv([entry({ reason: '=HYPERLINK("x")' })]);
+    expect(csv).toContain(`"'=HYPERLINK(""x"")"`);
+  });
+});
@@ -0,0 +1,115 @@
+import type { Json, Tables } from '@/integrations/supabase/types';
+
+/**
+ * Audit trail entries written by the record_audit_event trigger
+ */
+
+export type AuditLogEntry = Tables<'audit_log'>;
+
+// Action prefixes, for filtering
+export const AUDIT_ACTION_GROUPS = {
+  verification: 'Verifications',
+  survival_check: 'Survival checks',
+  payout: 'Payouts',
+  role: 'Roles',
+  moderator_county: 'Moderator counties',
+  reward_rule: 'Reward rules',
+  reward_campaign: 'Reward campaigns',
+  triage_settings: 'Triage settings',
+  review_policy: 'Review policy',
+} as const;
+
+export type AuditActionGroup = keyof typeof AUDIT_ACTION_GROUPS;
+
+const ACTION_LABELS: Record<string, string> = {
+  'verification.approved': 'Approved verification',
+  'verification.rejected': 'Rejected verification',
+  'verification.reversed': 'Reversed reward',
+  'verification.first_approved': 'Gave first approval',
+  'verification.escalated': 'Escalated to admin',
+  'verification.status_changed': 'Changed verification status',
+  'survival_check.alive': 'Confirmed tree alive',
+  'survival_check.dead': 'Recorded tree dead',
+  'survival_check.rejected': 'Rejected check-in',
+  'payout.processing': 'Payout sent to M-Pesa',
+  'payout.paid': 'Payout paid',
+  'payout.failed': 'Payout failed',
+  'role.granted': 'Granted role',
+  'role.changed': 'Changed role',
+  'role.revoked': 'Revoked role',
+  'moderator_county.assigned': 'Assigned county',
+  'moderator_county.removed': 'Removed county',
+};
+
+export const describeAuditAction = (action: string): string => {
+  if (ACTION_LABELS[action]) return ACTION_LABELS[action];
+  // e.g. reward_rule.updated -> "Reward rule updated"
+  const [group, verb] = action.split('.');
+  const subject = group.replace(/_/g, ' ');
+  return `${subject.charAt(0).toUpperCase()}${subject.slice(1)}${verb ? ` ${verb}` : ''}`;
+};
+
+// Bookkeeping columns every update touches
+const IGNORED_FIELDS = new Set(['updated_at']);
+
+export interface AuditFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+const asObject = (value: Json | null): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+
+/**
+ * The fields an entry changed. Creations list every field, deletions none
+ * (the removed row is in `before`).
+ */
+export const changedFields = (entry: Pick<AuditLogEntry, 'before' | 'after'>): AuditFieldChange[] => {
+  if (entry.after == null) return [];
+  const before = asObject(entry.before);
+  const after = asObject(entry.after);
+
+  return Object.keys(after)
+    .filter((field) => !IGNORED_FIELDS.has(field))
+    .filter((field) => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null))
+    .map((field) => ({ field, before: before[field] ?? null, after: after[field] ?? null }));
+};
+
+const formatValue = (value: unknown): string =>
+  value == null ? '-' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+/**
+ * One line per change, e.g. "status: pending → verified"
+ */
+export const summarizeChanges = (entry: Pick<AuditLogEntry, 'before' | 'after'>): string =>
+  changedFields(entry)
+    .map(({ field, before, after }) =>
+      entry.before == null ? `${field}: ${formatValue(after)}` : `${field}: ${formatValue(before)} → ${formatValue(after)}`
+    )
+    .join('; ');
+
+// Quotes a CSV cell, and stops spreadsheets reading it as a formula
+const csvCell = (value: string): string => {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+/**
+ * CSV export of entries, naming actors from `actorNames` (user id -> name)
+ */
+export const auditLogToCsv = (entries: AuditLogEntry[], actorNames: Record<string, string> = {}): string => {
+  const header = ['Time', 'Actor', 'Actor ID', 'Action', 'Table', 'Target', 'Target user', 'Reason', 'Changes'];
+  const rows = entries.map((entry) => [
+    entry.created_at,
+    entry.actor_id ? actorNames[entry.actor_id] ?? '' : 'System',
+    entry.actor_id ?? '',
+    entry.action,
+    entry.target_table,
+    entry.target_id,
+    entry.target_user_id ?? '',
+    entry.reason ?? '',
+    summarizeChanges(entry),
+  ]);
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n');
+};
@@ -0,0 +1,77 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { AuditActionGroup, AuditLogEntry } from '@/utils/auditLog';
+
+export interface AuditLogFilters {
+  group?: AuditActionGroup;
+  // A user id, or 'system' for changes made without a user
+  actorId?: string;
+  // Matches the changed row's id or the user it concerns
+  target?: string;
+  // Dates as yyyy-mm-dd, both inclusive
+  from?: string;
+  to?: string;
+}
+
+// Enough for an investigation; narrow the filters to see older entries
+export const AUDIT_LOG_LIMIT = 1000;
+
+/**
+ * Newest audit entries matching the filters (admins only, enforced by RLS)
+ */
+export const fetchAuditLog = async (filters: AuditLogFilters = {}): Promise<AuditLogEntry[]> => {
+  let query = supabase
+    .from('audit_log')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(AUDIT_LOG_LIMIT);
+
+  if (filters.group) query = query.like('action', `${filters.group}.%`);
+  if (filters.actorId === 'system') query = query.is('actor_id', null);
+  else if (filters.actorId) query = query.eq('actor_id', filters.actorId);
+  if (filters.from) query = query.gte('created_at', `${filters.from}T00:00:00`);
+  if (filters.to) query = query.lte('created_at', `${filters.to}T23:59:59.999`);
+
+  const target = filters.target?.trim();
+  if (target) {
+    // Only ids; anything else could break out of the or() filter
+    if (!/^[0-9a-f-]+(:[\w ]+)?$/i.test(target)) return [];
+    query = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(target)
+      ? query.or(`target_id.eq.${target},target_user_id.eq.${target}`)
+      : query.eq('target_id', target);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data ?? [];
+};
+
+/**
+ * Admins and moderators, for the actor filter
+ */
+export const fetchStaff = async (): Promise<{ id: string; name: string }[]> => {
+  const { data: roles, error } = await supabase
+    .from('user_roles')
+    .select('user_id')
+    .in('role', ['admin', 'moderator']);
+
+  if (error) throw error;
+  const ids = [...new Set((roles ?? []).map((role) => role.user_id))];
+  const names = await fetchUserNames(ids);
+  return ids
+    .map((id) => ({ id, name: names[id] ?? id }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Profile names keyed by user id
+ */
+export const fetchUserNames = async (userIds: string[]): Promise<Record<string, string>> => {
+  if (userIds.length === 0) return {};
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('user_id, full_name')
+    .in('user_id', userIds);
+
+  if (error) throw error;
+  return Object.fromEntries((data ?? []).filter((p) => p.full_name).map((p) => [p.user_id, p.full_name]));
+};
@@ -0,0 +1,16 @@
+/**
+ * Background sync tags for the offline outboxes and the message the service
+ * worker posts to open pages when each sync fires. Shared by the pages and
+ * the worker (src/sw.ts), so nothing here may touch the DOM.
+ */
+
+export const VERIFICATION_SYNC_TAG = 'sync-verifications';
+export const REPLAY_VERIFICATIONS_MESSAGE = 'REPLAY_VERIFICATIONS';
+
+export const SWIPE_SYNC_TAG = 'sync-swipes';
+export const REPLAY_SWIPES_MESSAGE = 'REPLAY_SWIPES';
+
+export const SYNC_REPLAY_MESSAGES: Record<string, string> = {
+  [VERIFICATION_SYNC_TAG]: REPLAY_VERIFICATIONS_MESSAGE,
+  [SWIPE_SYNC_TAG]: REPLAY_SWIPES_MESSAGE,
+};
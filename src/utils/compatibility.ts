@@ -228,7 +228,7 @@ export const getSeasonalRecommendation = (
   weatherData?: WeatherData
 ): SeasonalRecommendation => {
   const latitude = profile.latitude || 0;
-  const { season, optimalPlantingMonths } = getCurrentSeason(latitude);
+  const { season, optimalPlantingMonths } = getCurrentSeason(latitude, profile.longitude);
 
   const currentMonth = new Date().getMonth();
   const canPlantNow = optimalPlantingMonths.includes(currentMonth);
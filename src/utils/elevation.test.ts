@@ -0,0 +1,51 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+
+const TILE_SIZE = 61;
+
+// A tile sloping from 1000 m on its west edge to 1600 m on its east edge
+const slopingTile = () => {
+  const samples = new Int16Array(TILE_SIZE * TILE_SIZE);
+  for (let row = 0; row < TILE_SIZE; row++) {
+    for (let column = 0; column < TILE_SIZE; column++) {
+      samples[row * TILE_SIZE + column] = 1000 + column * 10;
+    }
+  }
+  return samples.buffer;
+};
+
+const loadElevation = async () => {
+  vi.resetModules();
+  return import('./elevation');
+};
+
+describe('getDemElevation', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('resolves to null without requesting tiles when the DEM was not built', async () => {
+    const fetchMock = vi.fn(async () => new Response('Not found', { status: 404 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const { getDemElevation } = await loadElevation();
+
+    expect(await getDemElevation(-1.2864, 36.8172)).toBeNull();
+    expect(await getDemElevation(-0.4, 36.9)).toBeNull();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledWith('/dem/index.json');
+  });
+
+  it('reads the tiles listed in the index', async () => {
+    const fetchMock = vi.fn(async (url: string) =>
+      url === '/dem/index.json'
+        ? Response.json({ samplesPerDegree: 60, tiles: ['S02E036'] })
+        : new Response(slopingTile())
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    const { getDemElevation } = await loadElevation();
+
+    expect(await getDemElevation(-1.5, 36.5)).toBe(1300);
+    expect(await getDemElevation(-0.4, 36.9)).toBeNull();
+    expect(fetchMock).toHaveBeenCalledWith('/dem/S02E036.bin');
+    expect(fetchMock).not.toHaveBeenCalledWith('/dem/S01E036.bin');
+  });
+});
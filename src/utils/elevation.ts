@@ -0,0 +1,104 @@
+import { logger } from '@/utils/logger';
+
+// Coarse DEM tiles generated by scripts/build-kenya-dem.mjs into public/dem/
+// when the app is built with GLOBE_DIR set. They are not committed, so a
+// build without them has no index.json and every lookup resolves to null.
+// Keep these in sync with the script.
+const DEM_BASE_URL = '/dem';
+const SAMPLES_PER_DEGREE = 60;
+const NO_DATA = -32768;
+const TILE_SIZE = SAMPLES_PER_DEGREE + 1;
+const TILE_BYTES = TILE_SIZE * TILE_SIZE * 2;
+
+// Names of the tiles in this build; empty when the DEM was not built
+let tileIndex: Promise<Set<string>> | null = null;
+
+// null marks a tile that is missing (sea, outside Kenya, or not generated)
+const tileCache = new Map<string, Promise<Int16Array | null>>();
+
+const loadTileIndex = (): Promise<Set<string>> => {
+  if (!tileIndex) {
+    tileIndex = fetch(`${DEM_BASE_URL}/index.json`)
+      .then(async (response) => {
+        if (!response.ok) return new Set<string>();
+        const index = (await response.json()) as { tiles?: unknown };
+        return new Set(Array.isArray(index.tiles) ? index.tiles.filter((name) => typeof name === 'string') : []);
+      })
+      // The dev server answers unknown paths with index.html, which isn't JSON
+      .catch(() => new Set<string>());
+  }
+  return tileIndex;
+};
+
+export const getDemTileName = (latitude: number, longitude: number): string => {
+  const south = Math.floor(latitude);
+  const west = Math.floor(longitude);
+  return (
+    `${south < 0 ? 'S' : 'N'}${String(Math.abs(south)).padStart(2, '0')}` +
+    `${west < 0 ? 'W' : 'E'}${String(Math.abs(west)).padStart(3, '0')}`
+  );
+};
+
+const loadTile = (name: string): Promise<Int16Array | null> => {
+  if (!tileCache.has(name)) {
+    tileCache.set(
+      name,
+      fetch(`${DEM_BASE_URL}/${name}.bin`)
+        .then(async (response) => {
+          if (!response.ok) return null;
+          const buffer = await response.arrayBuffer();
+          // The dev server answers unknown paths with index.html, so check the size
+          return buffer.byteLength === TILE_BYTES ? new Int16Array(buffer) : null;
+        })
+        .catch((error) => {
+          logger.warn(`DEM tile ${name} unavailable:`, error);
+          return null;
+        })
+    );
+  }
+  return tileCache.get(name)!;
+};
+
+/**
+ * Bilinear interpolation inside a tile; returns null if any corner is sea/no data
+ */
+export const sampleDemTile = (
+  tile: Int16Array,
+  latitude: number,
+  longitude: number
+): number | null => {
+  const south = Math.floor(latitude);
+  const west = Math.floor(longitude);
+  const y = (south + 1 - latitude) * SAMPLES_PER_DEGREE;
+  const x = (longitude - west) * SAMPLES_PER_DEGREE;
+  const row = Math.min(Math.floor(y), SAMPLES_PER_DEGREE - 1);
+  const column = Math.min(Math.floor(x), SAMPLES_PER_DEGREE - 1);
+  const fy = y - row;
+  const fx = x - column;
+
+  const corners = [
+    tile[row * TILE_SIZE + column],
+    tile[row * TILE_SIZE + column + 1],
+    tile[(row + 1) * TILE_SIZE + column],
+    tile[(row + 1) * TILE_SIZE + column + 1],
+  ];
+  if (corners.some((value) => value === NO_DATA)) return null;
+
+  const top = corners[0] * (1 - fx) + corners[1] * fx;
+  const bottom = corners[2] * (1 - fx) + corners[3] * fx;
+  return Math.round(top * (1 - fy) + bottom * fy);
+};
+
+/**
+ * Look up terrain elevation (metres) from the bundled coarse DEM.
+ * Resolves to null when no tile covers the point or the DEM was not built.
+ */
+export const getDemElevation = async (
+  latitude: number,
+  longitude: number
+): Promise<number | null> => {
+  const name = getDemTileName(latitude, longitude);
+  if (!(await loadTileIndex()).has(name)) return null;
+  const tile = await loadTile(name);
+  return tile ? sampleDemTile(tile, latitude, longitude) : null;
+};
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkPlotBoundary,
+  formatHectares,
+  fromPlotPolygon,
+  isSelfIntersecting,
+  plotAt,
+  plotCapacity,
+  plotProfile,
+  polygonAreaHectares,
+  polygonCentroid,
+  spacingFor,
+  toPlotPolygon,
+  DEFAULT_SPACING_M,
+  type FarmPlot,
+  type LatLng,
+} from './farmPlots';
+
+// A plot near Nyeri, 100 m on each side
+const LAT = -0.42;
+const LNG = 36.95;
+const dLat = 100 / 110574;
+const dLng = 100 / (111320 * Math.cos((LAT * Math.PI) / 180));
+const SQUARE: LatLng[] = [
+  [LAT, LNG],
+  [LAT, LNG + dLng],
+  [LAT + dLat, LNG + dLng],
+  [LAT + dLat, LNG],
+];
+
+const plot = (id: string, points: LatLng[], overrides: Partial<FarmPlot> = {}): FarmPlot => ({
+  id,
+  name: id,
+  boundary: toPlotPolygon(points),
+  area_hectares: polygonAreaHectares(points),
+  centroid_latitude: polygonCentroid(points).latitude,
+  centroid_longitude: polygonCentroid(points).longitude,
+  county: 'Nyeri',
+  agro_zone: 'UM2',
+  ...overrides,
+});
+
+describe('plot geometry', () => {
+  it('measures the area of a drawn boundary', () => {
+    expect(polygonAreaHectares(SQUARE)).toBeCloseTo(1, 1);
+    // Drawn the other way round
+    expect(polygonAreaHectares([...SQUARE].reverse())).toBeCloseTo(polygonAreaHectares(SQUARE), 10);
+  });
+
+  it('finds the centre of the plot', () => {
+    const centre = polygonCentroid(SQUARE);
+    expect(centre.latitude).toBeCloseTo(LAT + dLat / 2, 8);
+    expect(centre.longitude).toBeCloseTo(LNG + dLng / 2, 8);
+  });
+
+  it('stores boundaries as closed GeoJSON rings and reads them back', () => {
+    const polygon = toPlotPolygon(SQUARE);
+    expect(polygon.coordinates[0]).toHaveLength(5);
+    expect(polygon.coordinates[0][0]).toEqual([LNG, LAT]);
+    expect(polygon.coordinates[0][4]).toEqual(polygon.coordinates[0][0]);
+    expect(fromPlotPolygon(polygon)).toEqual(SQUARE);
+  });
+
+  it('spots a boundary that crosses itself', () => {
+    const bowTie: LatLng[] = [SQUARE[0], SQUARE[2], SQUARE[1], SQUARE[3]];
+    expect(isSelfIntersecting(SQUARE)).toBe(false);
+    expect(isSelfIntersecting(bowTie)).toBe(true);
+    expect(checkPlotBoundary(bowTie)).toBe('self_intersecting');
+  });
+
+  it('rejects boundaries that are too small or unfinished', () => {
+    expect(checkPlotBoundary(SQUARE.slice(0, 2))).toBe('too_few_points');
+    const tiny = SQUARE.map(([lat, lng]) => [LAT + (lat - LAT) / 20, LNG + (lng - LNG) / 20] as LatLng);
+    expect(checkPlotBoundary(tiny)).toBe('too_small');
+    expect(checkPlotBoundary(SQUARE)).toBeNull();
+  });
+
+  it('finds the plot a planting falls in', () => {
+    const east = SQUARE.map(([lat, lng]) => [lat, lng + 2 * dLng] as LatLng);
+    const plots = [plot('home', SQUARE), plot('east', east)];
+
+    expect(plotAt(plots, LAT + dLat / 2, LNG + dLng / 2)?.id).toBe('home');
+    expect(plotAt(plots, LAT + dLat / 2, LNG + 2.5 * dLng)?.id).toBe('east');
+    expect(plotAt(plots, LAT + dLat / 2, LNG + 1.5 * dLng)).toBeNull();
+  });
+
+  it('formats small plots in square metres', () => {
+    expect(formatHectares(0.25)).toBe('2500 m²');
+    expect(formatHectares(1.5)).toBe('1.50 ha');
+  });
+});
+
+describe('spacing and capacity', () => {
+  it('spaces a species for the widest of its uses', () => {
+    expect(spacingFor({ uses: ['fodder', 'conservation'] })).toBe(4);
+    expect(spacingFor({ uses: ['fruit', 'shade'] })).toBe(10);
+    expect(spacingFor(null)).toBe(DEFAULT_SPACING_M);
+  });
+
+  it('counts the room left beside the trees already planted', () => {
+    // 1 ha holds 100 trees at 10 m; ten 8 m fruit trees take 640 m²
+    const capacity = plotCapacity(1, Array(10).fill(8), 10);
+    expect(capacity).toEqual({ capacity: 100, planted: 10, remaining: 93, occupied: 0.064 });
+  });
+
+  it('never reports negative room on an overplanted plot', () => {
+    const capacity = plotCapacity(0.01, Array(20).fill(4), 4);
+    expect(capacity.remaining).toBe(0);
+    expect(capacity.occupied).toBe(1);
+  });
+});
+
+describe('plotProfile', () => {
+  it('scores a plot from its own location, zone and size', () => {
+    const profile = { county: 'Kiambu', agro_zone: 'UM1', conservation_goals: ['fruit'], latitude: -1, longitude: 36.8, land_size_hectares: 5 };
+    const scoped = plotProfile(profile, plot('home', SQUARE));
+
+    expect(scoped).toMatchObject({ county: 'Nyeri', agro_zone: 'UM2', conservation_goals: ['fruit'] });
+    expect(scoped.latitude).toBeCloseTo(LAT + dLat / 2, 8);
+    expect(scoped.land_size_hectares).toBeCloseTo(1, 1);
+  });
+
+  it('keeps the profile zone when the plot has none', () => {
+    const profile = { county: 'Kiambu', agro_zone: 'UM1' };
+    expect(plotProfile(profile, plot('home', SQUARE, { county: null, agro_zone: null }))).toMatchObject(profile);
+  });
+});
@@ -0,0 +1,241 @@
+import type { KenyanTreeSpecies, TreeUse } from "@/data/kenya";
+import type { Json } from "@/integrations/supabase/types";
+import { pointInMultiPolygon } from "@/utils/kenyaBoundaries";
+
+/**
+ * Farm plots drawn by the farmer on the map
+ *
+ * Boundaries are drawn as [latitude, longitude] points, the order Leaflet
+ * uses, and stored as a GeoJSON Polygon in [longitude, latitude] order
+ * (supabase/migrations/20251217_create_plots.sql). Area is measured on the
+ * sphere, so it stays accurate for plots anywhere in Kenya.
+ */
+
+export type LatLng = [number, number];
+
+export interface PlotPolygon {
+  type: 'Polygon';
+  coordinates: number[][][];
+}
+
+export interface FarmPlot {
+  id: string;
+  name: string;
+  boundary: PlotPolygon;
+  area_hectares: number;
+  centroid_latitude: number;
+  centroid_longitude: number;
+  county: string | null;
+  agro_zone: string | null;
+}
+
+export type BoundaryIssue = 'too_few_points' | 'self_intersecting' | 'too_small' | 'too_large';
+
+export const BOUNDARY_ISSUE_LABELS: Record<BoundaryIssue, { en: string; sw: string }> = {
+  too_few_points: {
+    en: 'Mark at least three corners of the plot',
+    sw: 'Weka angalau pembe tatu za shamba',
+  },
+  self_intersecting: {
+    en: 'The boundary crosses itself; mark the corners in order around the plot',
+    sw: 'Mpaka unajikata; weka pembe kwa mpangilio kuzunguka shamba',
+  },
+  too_small: {
+    en: 'The plot is smaller than 100 m²; check the corners',
+    sw: 'Shamba ni dogo kuliko m² 100; angalia pembe',
+  },
+  too_large: {
+    en: 'The plot is larger than 500 ha; draw each plot separately',
+    sw: 'Shamba ni kubwa kuliko ha 500; chora kila shamba peke yake',
+  },
+};
+
+export const MIN_PLOT_AREA_HECTARES = 0.01;
+export const MAX_PLOT_AREA_HECTARES = 500;
+
+// WGS84 equatorial radius, as used by Leaflet
+const EARTH_RADIUS_M = 6378137;
+const SQUARE_METRES_PER_HECTARE = 10000;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Area enclosed by a ring of points on the sphere, in square metres
+ */
+export const polygonAreaSquareMetres = (points: LatLng[]): number => {
+  if (points.length < 3) return 0;
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const [lat1, lng1] = points[i];
+    const [lat2, lng2] = points[(i + 1) % points.length];
+    area += toRadians(lng2 - lng1) * (2 + Math.sin(toRadians(lat1)) + Math.sin(toRadians(lat2)));
+  }
+  return Math.abs((area * EARTH_RADIUS_M * EARTH_RADIUS_M) / 2);
+};
+
+export const polygonAreaHectares = (points: LatLng[]) =>
+  polygonAreaSquareMetres(points) / SQUARE_METRES_PER_HECTARE;
+
+/**
+ * Centre of mass of the plot; plots are small enough to treat as flat
+ */
+export const polygonCentroid = (points: LatLng[]): { latitude: number; longitude: number } => {
+  // Measured from the first corner; plot-sized differences of whole-degree
+  // coordinates lose precision otherwise
+  const [originLat, originLng] = points[0];
+  let twiceArea = 0;
+  let lat = 0;
+  let lng = 0;
+  for (let i = 0; i < points.length; i++) {
+    const y1 = points[i][0] - originLat;
+    const x1 = points[i][1] - originLng;
+    const y2 = points[(i + 1) % points.length][0] - originLat;
+    const x2 = points[(i + 1) % points.length][1] - originLng;
+    const cross = x1 * y2 - x2 * y1;
+    twiceArea += cross;
+    lng += (x1 + x2) * cross;
+    lat += (y1 + y2) * cross;
+  }
+
+  // Collinear points have no area; fall back to their average
+  if (Math.abs(twiceArea) < 1e-15) {
+    return {
+      latitude: points.reduce((sum, [y]) => sum + y, 0) / points.length,
+      longitude: points.reduce((sum, [, x]) => sum + x, 0) / points.length,
+    };
+  }
+  return {
+    latitude: originLat + lat / (3 * twiceArea),
+    longitude: originLng + lng / (3 * twiceArea),
+  };
+};
+
+const orientation = ([ay, ax]: LatLng, [by, bx]: LatLng, [cy, cx]: LatLng) =>
+  Math.sign((bx - ax) * (cy - ay) - (by - ay) * (cx - ax));
+
+const segmentsCross = (a: LatLng, b: LatLng, c: LatLng, d: LatLng) =>
+  orientation(a, b, c) * orientation(a, b, d) < 0 && orientation(c, d, a) * orientation(c, d, b) < 0;
+
+/**
+ * Whether any two edges that don't share a corner cross each other
+ */
+export const isSelfIntersecting = (points: LatLng[]): boolean => {
+  const n = points.length;
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 2; j < n; j++) {
+      // The first and last edges share the first corner
+      if (i === 0 && j === n - 1) continue;
+      if (segmentsCross(points[i], points[(i + 1) % n], points[j], points[(j + 1) % n])) return true;
+    }
+  }
+  return false;
+};
+
+/**
+ * What stops a drawn boundary from being saved, if anything
+ */
+export const checkPlotBoundary = (points: LatLng[]): BoundaryIssue | null => {
+  if (points.length < 3) return 'too_few_points';
+  if (isSelfIntersecting(points)) return 'self_intersecting';
+  const hectares = polygonAreaHectares(points);
+  if (hectares < MIN_PLOT_AREA_HECTARES) return 'too_small';
+  if (hectares > MAX_PLOT_AREA_HECTARES) return 'too_large';
+  return null;
+};
+
+export const toPlotPolygon = (points: LatLng[]): PlotPolygon => {
+  const ring = points.map(([lat, lng]) => [lng, lat]);
+  return { type: 'Polygon', coordinates: [[...ring, ring[0]]] };
+};
+
+export const fromPlotPolygon = (polygon: PlotPolygon): LatLng[] =>
+  polygon.coordinates[0].slice(0, -1).map(([lng, lat]) => [lat, lng] as LatLng);
+
+export const parsePlotPolygon = (value: Json | null | undefined): PlotPolygon | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  if (value.type !== 'Polygon' || !Array.isArray(value.coordinates)) return null;
+  return value as unknown as PlotPolygon;
+};
+
+export const plotContains = (plot: FarmPlot, latitude: number, longitude: number) =>
+  pointInMultiPolygon([plot.boundary.coordinates], latitude, longitude);
+
+/**
+ * The plot a point falls in, e.g. the GPS fix of a planting photo
+ */
+export const plotAt = (plots: FarmPlot[], latitude: number, longitude: number): FarmPlot | null =>
+  plots.find((plot) => plotContains(plot, latitude, longitude)) ?? null;
+
+export const formatHectares = (hectares: number) =>
+  hectares >= 1 ? `${hectares.toFixed(2)} ha` : `${Math.round(hectares * SQUARE_METRES_PER_HECTARE)} m²`;
+
+// Spacing between trees in a block planting, by what the tree is grown for.
+// Fodder shrubs go in close hedgerows; shade and fruit trees need their
+// crowns clear of each other.
+export const SPACING_BY_USE_M: Record<TreeUse, number> = {
+  fruit: 8,
+  timber: 3,
+  fodder: 1,
+  medicine: 5,
+  shade: 10,
+  conservation: 4,
+};
+
+/** For plantings whose species isn't known */
+export const DEFAULT_SPACING_M = 4;
+
+/**
+ * Spacing for a species: the widest its uses call for
+ */
+export const spacingFor = (species?: Pick<KenyanTreeSpecies, 'uses'> | null): number =>
+  species?.uses.length ? Math.max(...species.uses.map((use) => SPACING_BY_USE_M[use])) : DEFAULT_SPACING_M;
+
+export interface PlotCapacity {
+  /** Trees of the species an empty plot holds */
+  capacity: number;
+  planted: number;
+  /** Trees of the species that still fit beside the ones planted */
+  remaining: number;
+  /** Share of the plot the planted trees take up, 0-1 */
+  occupied: number;
+}
+
+/**
+ * How many more trees at the given spacing fit on a plot, counting each
+ * planted tree as taking a square of its own spacing
+ */
+export const plotCapacity = (
+  areaHectares: number,
+  plantedSpacings: number[],
+  spacing: number
+): PlotCapacity => {
+  const area = areaHectares * SQUARE_METRES_PER_HECTARE;
+  const used = plantedSpacings.reduce((sum, s) => sum + s * s, 0);
+  return {
+    capacity: Math.floor(area / (spacing * spacing)),
+    planted: plantedSpacings.length,
+    remaining: Math.floor(Math.max(0, area - used) / (spacing * spacing)),
+    occupied: area > 0 ? Math.min(1, used / area) : 0,
+  };
+};
+
+interface PlotScopedProfile {
+  county?: string | null;
+  agro_zone?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  land_size_hectares?: number | null;
+}
+
+/**
+ * The farmer's profile as seen from one plot: its location, county,
+ * agro-zone and size, so compatibility is scored for that plot
+ */
+export const plotProfile = <P extends PlotScopedProfile>(profile: P, plot: FarmPlot): P => ({
+  ...profile,
+  county: plot.county ?? profile.county,
+  agro_zone: plot.agro_zone ?? profile.agro_zone,
+  latitude: plot.centroid_latitude,
+  longitude: plot.centroid_longitude,
+  land_size_hectares: plot.area_hectares,
+});
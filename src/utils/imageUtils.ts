@@ -34,6 +34,46 @@ export const extractGPSData = async (file: File): Promise<{ latitude?: number; l
   }
 };
 
+/** What a photo's EXIF says about where, when and with what it was taken */
+export interface PhotoMetadata {
+  make?: string;
+  model?: string;
+  software?: string;
+  takenAt?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+/**
+ * Read the EXIF fields used for fraud checks. Must run on the original
+ * file: compressImage re-encodes the photo and drops EXIF.
+ */
+export const extractPhotoMetadata = async (file: File): Promise<PhotoMetadata> => {
+  try {
+    const exifData = await exifr.parse(file, {
+      gps: true,
+      pick: ['Make', 'Model', 'Software', 'DateTimeOriginal', 'CreateDate', 'latitude', 'longitude']
+    });
+
+    if (!exifData) {
+      return {};
+    }
+
+    const taken: Date | undefined = exifData.DateTimeOriginal || exifData.CreateDate;
+    return {
+      make: exifData.Make,
+      model: exifData.Model,
+      software: exifData.Software,
+      takenAt: taken instanceof Date && !isNaN(taken.getTime()) ? taken.toISOString() : undefined,
+      latitude: exifData.latitude,
+      longitude: exifData.longitude,
+    };
+  } catch (error) {
+    logger.error('Error extracting EXIF data:', error);
+    return {};
+  }
+};
+
 /**
  * Compress image file for upload
  */
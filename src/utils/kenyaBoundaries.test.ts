@@ -0,0 +1,114 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { KENYAN_COUNTIES } from '@/data/kenya';
+import countiesGeoJSON from '@/data/geo/kenya-counties.json';
+import {
+  createBoundaryIndex,
+  findConstituencyAt,
+  findCountyAt,
+  pointInMultiPolygon,
+} from './kenyaBoundaries';
+import { detectKenyanCounty, reverseGeocode } from './kenyaLocation';
+
+// Unit square with a hole in the middle, as [lng, lat]
+const squareWithHole = [
+  [
+    [[0, 0], [10, 0], [10, 10], [0, 10], [0, 0]],
+    [[4, 4], [6, 4], [6, 6], [4, 6], [4, 4]],
+  ],
+];
+
+describe('pointInMultiPolygon', () => {
+  it('matches points inside the outer ring', () => {
+    expect(pointInMultiPolygon(squareWithHole, 2, 2)).toBe(true);
+    expect(pointInMultiPolygon(squareWithHole, 9.5, 0.5)).toBe(true);
+  });
+
+  it('rejects points outside the polygon or inside a hole', () => {
+    expect(pointInMultiPolygon(squareWithHole, 11, 5)).toBe(false);
+    expect(pointInMultiPolygon(squareWithHole, 5, -1)).toBe(false);
+    expect(pointInMultiPolygon(squareWithHole, 5, 5)).toBe(false);
+  });
+
+  it('handles concave rings', () => {
+    // U shape open to the north
+    const u = [[[[0, 0], [3, 0], [3, 3], [2, 3], [2, 1], [1, 1], [1, 3], [0, 3], [0, 0]]]];
+    expect(pointInMultiPolygon(u, 2, 0.5)).toBe(true);
+    expect(pointInMultiPolygon(u, 2, 1.5)).toBe(false);
+  });
+});
+
+describe('createBoundaryIndex', () => {
+  it('only returns features whose polygon contains the point', () => {
+    const index = createBoundaryIndex([
+      { properties: 'hole', bbox: [0, 0, 10, 10], geometry: { type: 'MultiPolygon', coordinates: squareWithHole } },
+      {
+        properties: 'centre',
+        bbox: [4, 4, 6, 6],
+        geometry: { type: 'MultiPolygon', coordinates: [[[[4, 4], [6, 4], [6, 6], [4, 6], [4, 4]]]] },
+      },
+    ]);
+
+    expect(index.lookup(2, 2)).toBe('hole');
+    expect(index.lookup(5, 5)).toBe('centre');
+    expect(index.lookup(20, 20)).toBeNull();
+  });
+});
+
+describe('bundled Kenya boundaries', () => {
+  it('covers all 47 counties using the app spelling', () => {
+    const names = countiesGeoJSON.features.map((f) => f.properties.name).sort();
+    expect(names).toEqual([...KENYAN_COUNTIES].sort());
+  });
+
+  it.each([
+    ['Nairobi CBD', -1.2864, 36.8172, 'Nairobi'],
+    ['Mombasa Island', -4.0435, 39.6682, 'Mombasa'],
+    ['Kisumu', -0.0917, 34.768, 'Kisumu'],
+    ['Nakuru town', -0.3031, 36.08, 'Nakuru'],
+    ['Naivasha', -0.7167, 36.4333, 'Nakuru'],
+    ['Kiambu town', -1.1714, 36.8356, 'Kiambu'],
+    ['Ruiru', -1.1466, 36.9609, 'Kiambu'],
+    ['Eldoret', 0.5143, 35.2698, 'Uasin Gishu'],
+    ['Lodwar', 3.1191, 35.5973, 'Turkana'],
+    ['Garissa', -0.4536, 39.6401, 'Garissa'],
+    ['Malindi', -3.2192, 40.1169, 'Kilifi'],
+    ['Lamu town', -2.2717, 40.902, 'Lamu'],
+    ['Nyeri', -0.4201, 36.9476, 'Nyeri'],
+    ['Kitale', 1.0157, 35.0062, 'Trans-Nzoia'],
+  ])('places %s in %s', (_, latitude, longitude, county) => {
+    expect(findCountyAt(latitude, longitude)?.name).toBe(county);
+  });
+
+  it('keeps constituencies inside their county', () => {
+    const constituency = findConstituencyAt(-1.2864, 36.8172);
+    expect(constituency).toMatchObject({ name: 'Starehe', county: 'Nairobi' });
+  });
+
+  it('returns null outside Kenya', () => {
+    expect(findCountyAt(-6.7924, 39.2083)).toBeNull(); // Dar es Salaam
+    expect(findCountyAt(0.3476, 32.5825)).toBeNull(); // Kampala
+    expect(findConstituencyAt(-3.5, 41.5)).toBeNull(); // Indian Ocean
+  });
+});
+
+describe('kenyaLocation offline lookups', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('detects the county for any point in Kenya', () => {
+    expect(detectKenyanCounty(-0.0917, 34.768)).toBe('Kisumu');
+    expect(detectKenyanCounty(-6.7924, 39.2083)).toBeNull();
+  });
+
+  it('reverse geocodes without calling Nominatim', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(reverseGeocode(-1.2864, 36.8172)).resolves.toEqual({
+      county: 'Nairobi',
+      constituency: 'Starehe',
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
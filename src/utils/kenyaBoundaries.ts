@@ -0,0 +1,236 @@
+import countiesGeoJSON from '@/data/geo/kenya-counties.json';
+import constituenciesGeoJSON from '@/data/geo/kenya-constituencies.json';
+import restrictedAreasGeoJSON from '@/data/geo/kenya-restricted-areas.json';
+
+// Generated by scripts/build-kenya-boundaries.mjs - do not edit the JSON by hand
+//
+// The bundled county and constituency outlines are approximate: they were
+// built with --approximate, as Voronoi cells around ward centres, because the
+// surveyed IEBC boundaries aren't in the repository. A point within a few
+// kilometres of a county or constituency line can resolve to the neighbour.
+// Rebuild from IEBC shapefiles with the script's --counties and
+// --constituencies options for surveyed lines.
+type Position = number[];
+type Ring = Position[];
+type MultiPolygon = Ring[][];
+
+export interface BoundaryFeature<P> {
+  properties: P;
+  bbox: number[]; // [minLng, minLat, maxLng, maxLat]
+  geometry: { type: string; coordinates: MultiPolygon };
+}
+
+export interface CountyProperties {
+  code: string;
+  name: string;
+}
+
+export interface ConstituencyProperties {
+  code: string;
+  name: string;
+  county: string;
+}
+
+// Coarse, hand-traced outlines of open water and gazetted parks, reserves
+// and forests (kenya-restricted-areas.json). They are drawn inside the real
+// shorelines and boundaries, so they only catch points clearly in the water
+// or deep inside a protected area; swap in surveyed WDPA/KFS polygons in the
+// same format for finer checks.
+export type RestrictedAreaKind = 'water' | 'national_park' | 'national_reserve' | 'forest_reserve';
+
+export interface RestrictedAreaProperties {
+  name: string;
+  kind: RestrictedAreaKind;
+}
+
+export interface BoundaryIndex<P> {
+  lookup: (latitude: number, longitude: number) => P | null;
+}
+
+// Grid cell size in degrees (~55 km); small enough that most cells hold a
+// handful of candidate polygons
+const GRID_CELL_SIZE = 0.5;
+
+/**
+ * Ray-casting test for a single ring of [lng, lat] positions
+ */
+const ringContains = (ring: Ring, longitude: number, latitude: number): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (
+      yi > latitude !== yj > latitude &&
+      longitude < ((xj - xi) * (latitude - yi)) / (yj - yi) + xi
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/**
+ * Point-in-polygon for GeoJSON MultiPolygon coordinates, honouring holes
+ */
+export const pointInMultiPolygon = (
+  coordinates: MultiPolygon,
+  latitude: number,
+  longitude: number
+): boolean =>
+  coordinates.some(
+    ([outer, ...holes]) =>
+      ringContains(outer, longitude, latitude) &&
+      !holes.some((hole) => ringContains(hole, longitude, latitude))
+  );
+
+const cellKey = (x: number, y: number) => `${x}:${y}`;
+const toCell = (value: number) => Math.floor(value / GRID_CELL_SIZE);
+
+/**
+ * Build a uniform-grid spatial index over the features' bounding boxes so a
+ * lookup only runs the point-in-polygon test against nearby polygons
+ */
+export const createBoundaryIndex = <P>(features: BoundaryFeature<P>[]): BoundaryIndex<P> => {
+  const grid = new Map<string, BoundaryFeature<P>[]>();
+
+  for (const feature of features) {
+    const [minLng, minLat, maxLng, maxLat] = feature.bbox;
+    for (let x = toCell(minLng); x <= toCell(maxLng); x++) {
+      for (let y = toCell(minLat); y <= toCell(maxLat); y++) {
+        const key = cellKey(x, y);
+        if (!grid.has(key)) grid.set(key, []);
+        grid.get(key)!.push(feature);
+      }
+    }
+  }
+
+  return {
+    lookup: (latitude, longitude) => {
+      const candidates = grid.get(cellKey(toCell(longitude), toCell(latitude))) ?? [];
+      for (const feature of candidates) {
+        const [minLng, minLat, maxLng, maxLat] = feature.bbox;
+        if (longitude < minLng || longitude > maxLng || latitude < minLat || latitude > maxLat) {
+          continue;
+        }
+        if (pointInMultiPolygon(feature.geometry.coordinates, latitude, longitude)) {
+          return feature.properties;
+        }
+      }
+      return null;
+    },
+  };
+};
+
+// Indexes are built on first use so importing this module stays cheap
+let countyIndex: BoundaryIndex<CountyProperties> | null = null;
+let constituencyIndex: BoundaryIndex<ConstituencyProperties> | null = null;
+let waterIndex: BoundaryIndex<RestrictedAreaProperties> | null = null;
+let protectedAreaIndex: BoundaryIndex<RestrictedAreaProperties> | null = null;
+
+/**
+ * Find the county containing a point using the bundled boundaries.
+ * Returns null for points outside Kenya.
+ */
+export const findCountyAt = (latitude: number, longitude: number): CountyProperties | null => {
+  if (!countyIndex) {
+    countyIndex = createBoundaryIndex(
+      countiesGeoJSON.features as BoundaryFeature<CountyProperties>[]
+    );
+  }
+  return countyIndex.lookup(latitude, longitude);
+};
+
+const KM_PER_DEGREE = 111.32;
+
+/**
+ * Distance in km from a point to the nearest edge of a MultiPolygon, on a
+ * flat projection around the point (fine over a few km)
+ */
+const distanceToEdgesKm = (coordinates: MultiPolygon, latitude: number, longitude: number): number => {
+  const xScale = KM_PER_DEGREE * Math.cos((latitude * Math.PI) / 180);
+  let nearest = Infinity;
+  for (const polygon of coordinates) {
+    for (const ring of polygon) {
+      for (let i = 0; i + 1 < ring.length; i++) {
+        const ax = (ring[i][0] - longitude) * xScale;
+        const ay = (ring[i][1] - latitude) * KM_PER_DEGREE;
+        const dx = (ring[i + 1][0] - longitude) * xScale - ax;
+        const dy = (ring[i + 1][1] - latitude) * KM_PER_DEGREE - ay;
+        const lengthSquared = dx * dx + dy * dy;
+        const t = lengthSquared > 0 ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared)) : 0;
+        nearest = Math.min(nearest, Math.hypot(ax + t * dx, ay + t * dy));
+      }
+    }
+  }
+  return nearest;
+};
+
+/**
+ * The county containing a point or, for a point just outside the bundled
+ * outline, the nearest county within `toleranceKm`. The outline is coarse
+ * enough to cut off coastal and border towns such as Shimoni and Moyale.
+ */
+export const findCountyNear = (
+  latitude: number,
+  longitude: number,
+  toleranceKm: number
+): CountyProperties | null => {
+  const inside = findCountyAt(latitude, longitude);
+  if (inside || toleranceKm <= 0) return inside;
+
+  const latMargin = toleranceKm / KM_PER_DEGREE;
+  const lngMargin = latMargin / Math.cos((latitude * Math.PI) / 180);
+  let nearest: { county: CountyProperties; km: number } | null = null;
+  for (const feature of countiesGeoJSON.features as BoundaryFeature<CountyProperties>[]) {
+    const [minLng, minLat, maxLng, maxLat] = feature.bbox;
+    if (
+      longitude < minLng - lngMargin || longitude > maxLng + lngMargin ||
+      latitude < minLat - latMargin || latitude > maxLat + latMargin
+    ) {
+      continue;
+    }
+    const km = distanceToEdgesKm(feature.geometry.coordinates, latitude, longitude);
+    if (km <= toleranceKm && (!nearest || km < nearest.km)) {
+      nearest = { county: feature.properties, km };
+    }
+  }
+  return nearest?.county ?? null;
+};
+
+/**
+ * Find the constituency (and its county) containing a point using the
+ * bundled boundaries. Returns null for points outside Kenya.
+ */
+export const findConstituencyAt = (
+  latitude: number,
+  longitude: number
+): ConstituencyProperties | null => {
+  if (!constituencyIndex) {
+    constituencyIndex = createBoundaryIndex(
+      constituenciesGeoJSON.features as BoundaryFeature<ConstituencyProperties>[]
+    );
+  }
+  return constituencyIndex.lookup(latitude, longitude);
+};
+
+const restrictedAreas = () => restrictedAreasGeoJSON.features as BoundaryFeature<RestrictedAreaProperties>[];
+
+/**
+ * Find the lake or reservoir a point falls in, if any
+ */
+export const findWaterBodyAt = (latitude: number, longitude: number): RestrictedAreaProperties | null => {
+  if (!waterIndex) {
+    waterIndex = createBoundaryIndex(restrictedAreas().filter((area) => area.properties.kind === 'water'));
+  }
+  return waterIndex.lookup(latitude, longitude);
+};
+
+/**
+ * Find the national park, reserve or gazetted forest a point falls in, if any
+ */
+export const findProtectedAreaAt = (latitude: number, longitude: number): RestrictedAreaProperties | null => {
+  if (!protectedAreaIndex) {
+    protectedAreaIndex = createBoundaryIndex(restrictedAreas().filter((area) => area.properties.kind !== 'water'));
+  }
+  return protectedAreaIndex.lookup(latitude, longitude);
+};
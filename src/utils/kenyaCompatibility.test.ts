@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { KENYAN_TREES } from '@/data/kenya';
+import {
+  calculateKenyanCompatibility,
+  calculateKenyanCompatibilityWithWeather,
+  explainKenyanCompatibility,
+} from './kenyaCompatibility';
+
+const mango = KENYAN_TREES.find((tree) => tree.id === 'mango')!;
+
+const kilifiFarmer = {
+  county: 'Kilifi',
+  agro_zone: 'CL1',
+  conservation_goals: ['fruit', 'timber'],
+  latitude: -3.63,
+  longitude: 39.85,
+};
+
+const weather = {
+  current: { temperature: 28, humidity: 70 },
+  estimated_annual_rainfall: 1100,
+};
+
+describe('explainKenyanCompatibility', () => {
+  it('adds up to the compatibility score', () => {
+    const explanation = explainKenyanCompatibility(mango, kilifiFarmer, weather);
+    const total = explanation.factors.reduce((sum, factor) => sum + factor.points, 0);
+
+    expect(explanation.factors.map((factor) => factor.key)).toEqual(['county', 'agroZone', 'goals', 'weather']);
+    expect(explanation.score).toBe(Math.min(100, total));
+    expect(explanation.score).toBe(calculateKenyanCompatibilityWithWeather(mango, kilifiFarmer, weather));
+  });
+
+  it('explains each factor in English and Swahili', () => {
+    const explanation = explainKenyanCompatibility(mango, { ...kilifiFarmer, county: 'Turkana' });
+    const county = explanation.factors.find((factor) => factor.key === 'county')!;
+
+    expect(county.points).toBe(20);
+    expect(county.reason.en).toContain('Turkana');
+    expect(county.reason.sw).toContain('Kaunti ya Turkana');
+    explanation.factors.forEach((factor) => {
+      expect(factor.reason.en).not.toBe('');
+      expect(factor.reason.sw).not.toBe(factor.reason.en);
+    });
+  });
+
+  it('skips weather without a GPS location', () => {
+    const withoutGps = { ...kilifiFarmer, latitude: null, longitude: null };
+    const explanation = explainKenyanCompatibility(mango, withoutGps, weather);
+
+    expect(explanation.factors.some((factor) => factor.key === 'weather')).toBe(false);
+    expect(explanation.score).toBe(calculateKenyanCompatibility(mango, withoutGps));
+  });
+
+  it('scores shared survival and similar-farmer history', () => {
+    const explanation = explainKenyanCompatibility(mango, kilifiFarmer, undefined, {
+      countyPlantings: 40,
+      countySurvived: 40,
+      agroZonePlantings: 50,
+      agroZoneSurvived: 49,
+      similarSwipes: 10,
+      similarLikes: 1,
+    });
+    const historical = explanation.factors.find((factor) => factor.key === 'historical')!;
+    const similar = explanation.factors.find((factor) => factor.key === 'similarFarmers')!;
+
+    expect(historical.points).toBeGreaterThan(0);
+    expect(historical.reason.en).toContain('40 of 40');
+    expect(similar.points).toBeLessThan(0);
+    expect(similar.reason.en).toContain('1 of 10');
+  });
+
+  it('leaves history out when nobody has planted or swiped the tree', () => {
+    const explanation = explainKenyanCompatibility(mango, kilifiFarmer, undefined, {
+      countyPlantings: 0,
+      countySurvived: 0,
+      agroZonePlantings: 0,
+      agroZoneSurvived: 0,
+      similarSwipes: 0,
+      similarLikes: 0,
+    });
+
+    expect(explanation.factors.map((factor) => factor.key)).toEqual(['county', 'agroZone', 'goals']);
+  });
+});
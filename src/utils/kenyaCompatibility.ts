@@ -1,5 +1,6 @@
 import type { KenyanTreeSpecies } from "@/data/kenya";
 import { logger } from "@/utils/logger";
+import { buildPlantingCalendar, getPlantingMonths, type DailyForecast } from "@/utils/plantingCalendar";
 
 interface KenyanUserProfile {
   county: string | null;
@@ -15,6 +16,7 @@ interface WeatherData {
     humidity: number;
   };
   estimated_annual_rainfall: number;
+  forecast?: DailyForecast[] | null;
 }
 
 export interface SeasonalRecommendation {
@@ -37,76 +39,280 @@ export interface SuccessProbability {
   riskFactors: string[];
 }
 
+export type CompatibilityFactorKey =
+  | 'county'
+  | 'agroZone'
+  | 'goals'
+  | 'weather'
+  | 'historical'
+  | 'similarFarmers';
+
+export interface CompatibilityFactor {
+  key: CompatibilityFactorKey;
+  points: number;
+  maxPoints: number;
+  reason: {
+    en: string;
+    sw: string;
+  };
+}
+
+export interface CompatibilityExplanation {
+  score: number;
+  factors: CompatibilityFactor[];
+}
+
 /**
- * Calculate compatibility for Kenyan trees based on county and agro-ecological zone
+ * Shared outcomes and swipes for a tree, from AIRecommendationEngine.getTreeStats
  */
-export const calculateKenyanCompatibility = (
-  tree: KenyanTreeSpecies,
-  profile: KenyanUserProfile
-): number => {
-  let score = 0;
-  let maxScore = 0;
+export interface RecommendationHistory {
+  countyPlantings: number;
+  countySurvived: number;
+  agroZonePlantings: number;
+  agroZoneSurvived: number;
+  similarSwipes: number;
+  similarLikes: number;
+}
 
-  // County compatibility (40 points) - most important for Kenya
-  maxScore += 40;
-  if (profile.county && tree.suitableCounties.includes(profile.county)) {
-    score += 40;
-  } else if (profile.county) {
+// Survival rate that neither raises nor lowers the score
+const EXPECTED_SURVIVAL_RATE = 0.7;
+const HISTORICAL_MAX_POINTS = 6;
+const SIMILAR_FARMERS_MAX_POINTS = 5;
+
+const explainCounty = (tree: KenyanTreeSpecies, county: string | null): CompatibilityFactor => {
+  if (county && tree.suitableCounties.includes(county)) {
+    return {
+      key: 'county',
+      points: 40,
+      maxPoints: 40,
+      reason: {
+        en: `${tree.englishName} is recommended for ${county} County.`,
+        sw: `${tree.swahiliName} inapendekezwa kwa Kaunti ya ${county}.`,
+      },
+    };
+  }
+
+  if (county) {
     // More lenient: give partial credit for nearby regions
-    score += 20;
+    const bestCounties = tree.suitableCounties.slice(0, 3).join(', ');
+    return {
+      key: 'county',
+      points: 20,
+      maxPoints: 40,
+      reason: {
+        en: `Not listed for ${county} County; it does best in ${bestCounties}.`,
+        sw: `Haijaorodheshwa kwa Kaunti ya ${county}; inastawi zaidi ${bestCounties}.`,
+      },
+    };
   }
 
-  // Agro-ecological zone compatibility (35 points)
-  maxScore += 35;
-  if (profile.agro_zone && tree.agroZones.includes(profile.agro_zone)) {
-    score += 35;
-  } else if (profile.agro_zone) {
+  return {
+    key: 'county',
+    points: 0,
+    maxPoints: 40,
+    reason: {
+      en: 'Add your county to your profile to score location.',
+      sw: 'Ongeza kaunti yako kwenye wasifu ili kupima eneo.',
+    },
+  };
+};
+
+const explainAgroZone = (tree: KenyanTreeSpecies, agroZone: string | null): CompatibilityFactor => {
+  if (agroZone && tree.agroZones.includes(agroZone)) {
+    return {
+      key: 'agroZone',
+      points: 35,
+      maxPoints: 35,
+      reason: {
+        en: `Grows well in your agro-ecological zone (${agroZone}).`,
+        sw: `Inastawi vizuri katika eneo lako la kilimo (${agroZone}).`,
+      },
+    };
+  }
+
+  if (agroZone) {
     // Partial credit for similar zones
-    const userZoneType = profile.agro_zone.slice(0, 2);
+    const userZoneType = agroZone.slice(0, 2);
     const hasMatchingType = tree.agroZones.some(zone => zone.startsWith(userZoneType));
-    if (hasMatchingType) {
-      score += 20;
-    } else {
-      score += 10;
-    }
+    return {
+      key: 'agroZone',
+      points: hasMatchingType ? 20 : 10,
+      maxPoints: 35,
+      reason: hasMatchingType
+        ? {
+            en: `Not listed for ${agroZone}, but suits other ${userZoneType} zones.`,
+            sw: `Haijaorodheshwa kwa ${agroZone}, lakini inafaa maeneo mengine ya ${userZoneType}.`,
+          }
+        : {
+            en: `Suited to ${tree.agroZones.join(', ')} rather than ${agroZone}.`,
+            sw: `Inafaa ${tree.agroZones.join(', ')} badala ya ${agroZone}.`,
+          },
+    };
   }
 
-  // Conservation goals alignment (25 points)
-  maxScore += 25;
-  if (profile.conservation_goals && profile.conservation_goals.length > 0) {
-    const matchingGoals = tree.uses.filter((use) =>
-      profile.conservation_goals!.includes(use)
-    );
-    const goalScore = (matchingGoals.length / Math.min(profile.conservation_goals.length, tree.uses.length)) * 25;
-    score += Math.floor(goalScore);
+  return {
+    key: 'agroZone',
+    points: 0,
+    maxPoints: 35,
+    reason: {
+      en: 'Set your agro-ecological zone to score climate fit.',
+      sw: 'Weka eneo lako la kilimo ili kupima ufaaji wa hali ya hewa.',
+    },
+  };
+};
+
+const explainGoals = (tree: KenyanTreeSpecies, goals: string[] | null): CompatibilityFactor => {
+  if (!goals || goals.length === 0) {
+    return {
+      key: 'goals',
+      points: 0,
+      maxPoints: 25,
+      reason: {
+        en: 'Add conservation goals to your profile to score uses.',
+        sw: 'Ongeza malengo ya uhifadhi kwenye wasifu wako ili kupima matumizi.',
+      },
+    };
   }
 
-  const percentage = Math.round((score / maxScore) * 100);
-  logger.log(`🌳 ${tree.englishName}: ${percentage}% (county: ${profile.county}, zone: ${profile.agro_zone})`);
-  return Math.max(0, Math.min(100, percentage));
+  const matchingGoals = tree.uses.filter((use) => goals.includes(use));
+  const points = Math.floor((matchingGoals.length / Math.min(goals.length, tree.uses.length)) * 25);
+
+  return {
+    key: 'goals',
+    points,
+    maxPoints: 25,
+    reason: matchingGoals.length > 0
+      ? {
+          en: `Meets your goals: ${matchingGoals.join(', ')}.`,
+          sw: `Inatimiza malengo yako: ${matchingGoals.join(', ')}.`,
+        }
+      : {
+          en: `Its uses (${tree.uses.join(', ')}) do not match your goals.`,
+          sw: `Matumizi yake (${tree.uses.join(', ')}) hayalingani na malengo yako.`,
+        },
+  };
+};
+
+const explainWeather = (tree: KenyanTreeSpecies, weatherData: WeatherData): CompatibilityFactor => {
+  const temperature = Math.round(weatherData.current.temperature);
+  const rainfall = Math.round(weatherData.estimated_annual_rainfall);
+  const tempScore = calculateTemperatureMatchKenya(tree, weatherData.current.temperature);
+  const rainfallScore = calculateRainfallMatchKenya(tree, weatherData.estimated_annual_rainfall);
+  const tempOk = tempScore === 5;
+  const rainOk = rainfallScore === 5;
+
+  return {
+    key: 'weather',
+    points: Math.round((tempScore + rainfallScore) / 2),
+    maxPoints: 5,
+    reason: {
+      en: `${temperature}°C is ${tempOk ? 'within' : 'outside'} its temperature range and ~${rainfall} mm/year of rain is ${rainOk ? 'within' : 'outside'} its rainfall range.`,
+      sw: `${temperature}°C iko ${tempOk ? 'ndani ya' : 'nje ya'} kiwango chake cha joto na mvua ya ~${rainfall} mm/mwaka iko ${rainOk ? 'ndani ya' : 'nje ya'} kiwango chake cha mvua.`,
+    },
+  };
+};
+
+const explainHistorical = (
+  tree: KenyanTreeSpecies,
+  profile: KenyanUserProfile,
+  history: RecommendationHistory
+): CompatibilityFactor | null => {
+  // Prefer plantings in the farmer's county, then their agro-zone
+  const inCounty = history.countyPlantings > 0;
+  const plantings = inCounty ? history.countyPlantings : history.agroZonePlantings;
+  const survived = inCounty ? history.countySurvived : history.agroZoneSurvived;
+  if (plantings === 0) return null;
+
+  const rate = survived / plantings;
+  // Few plantings move the score less than many
+  const evidence = plantings / (plantings + 5);
+  const points = Math.round((rate - EXPECTED_SURVIVAL_RATE) / (1 - EXPECTED_SURVIVAL_RATE) * HISTORICAL_MAX_POINTS * evidence);
+  const placeEn = inCounty ? `${profile.county} County` : `zone ${profile.agro_zone}`;
+  const placeSw = inCounty ? `Kaunti ya ${profile.county}` : `eneo ${profile.agro_zone}`;
+
+  return {
+    key: 'historical',
+    points: Math.max(-HISTORICAL_MAX_POINTS, points),
+    maxPoints: HISTORICAL_MAX_POINTS,
+    reason: {
+      en: `${survived} of ${plantings} verified ${tree.englishName} plantings in ${placeEn} survived.`,
+      sw: `Miche ${survived} kati ya ${plantings} ya ${tree.swahiliName} iliyothibitishwa ${placeSw} imestawi.`,
+    },
+  };
+};
+
+const explainSimilarFarmers = (history: RecommendationHistory): CompatibilityFactor | null => {
+  if (history.similarSwipes === 0) return null;
+
+  const likeRate = history.similarLikes / history.similarSwipes;
+  const evidence = history.similarSwipes / (history.similarSwipes + 5);
+  const points = Math.round((likeRate - 0.5) * 2 * SIMILAR_FARMERS_MAX_POINTS * evidence);
+
+  return {
+    key: 'similarFarmers',
+    points,
+    maxPoints: SIMILAR_FARMERS_MAX_POINTS,
+    reason: {
+      en: `${history.similarLikes} of ${history.similarSwipes} swipes by farmers with similar goals were likes.`,
+      sw: `Wakulima wenye malengo kama yako walipenda mara ${history.similarLikes} kati ya ${history.similarSwipes}.`,
+    },
+  };
 };
 
 /**
- * Enhanced compatibility with weather data
+ * Break the compatibility score into the factors behind it, each with the
+ * points it contributed and a sentence in English and Swahili. Weather is
+ * only scored once the farmer has a GPS location; historical and
+ * similar-farmer factors only when there is shared history for the tree.
  */
-export const calculateKenyanCompatibilityWithWeather = (
+export const explainKenyanCompatibility = (
   tree: KenyanTreeSpecies,
   profile: KenyanUserProfile,
-  weatherData?: WeatherData
-): number => {
-  let score = calculateKenyanCompatibility(tree, profile);
+  weatherData?: WeatherData,
+  history?: RecommendationHistory
+): CompatibilityExplanation => {
+  const factors: CompatibilityFactor[] = [
+    explainCounty(tree, profile.county),
+    explainAgroZone(tree, profile.agro_zone),
+    explainGoals(tree, profile.conservation_goals),
+  ];
 
   if (weatherData && profile.latitude && profile.longitude) {
-    const tempScore = calculateTemperatureMatchKenya(tree, weatherData.current.temperature);
-    const rainfallScore = calculateRainfallMatchKenya(tree, weatherData.estimated_annual_rainfall);
-    
-    const locationBonus = Math.round((tempScore + rainfallScore) / 2);
-    score = Math.min(100, score + locationBonus);
+    factors.push(explainWeather(tree, weatherData));
+  }
+
+  if (history) {
+    const historical = explainHistorical(tree, profile, history);
+    if (historical) factors.push(historical);
+    const similar = explainSimilarFarmers(history);
+    if (similar) factors.push(similar);
   }
 
+  const total = factors.reduce((sum, factor) => sum + factor.points, 0);
+  return { score: Math.max(0, Math.min(100, total)), factors };
+};
+
+/**
+ * Calculate compatibility for Kenyan trees based on county and agro-ecological zone
+ */
+export const calculateKenyanCompatibility = (
+  tree: KenyanTreeSpecies,
+  profile: KenyanUserProfile
+): number => {
+  const { score } = explainKenyanCompatibility(tree, profile);
+  logger.log(`🌳 ${tree.englishName}: ${score}% (county: ${profile.county}, zone: ${profile.agro_zone})`);
   return score;
 };
 
+/**
+ * Enhanced compatibility with weather data
+ */
+export const calculateKenyanCompatibilityWithWeather = (
+  tree: KenyanTreeSpecies,
+  profile: KenyanUserProfile,
+  weatherData?: WeatherData
+): number => explainKenyanCompatibility(tree, profile, weatherData).score;
+
 const calculateTemperatureMatchKenya = (tree: KenyanTreeSpecies, temperature: number): number => {
   // Kenya temperature ranges based on agro-zones
   const tempRanges: Record<string, { min: number; max: number }> = {
@@ -159,53 +365,52 @@ export const getKenyanSeasonalRecommendation = (
   profile: KenyanUserProfile,
   weatherData?: WeatherData
 ): SeasonalRecommendation => {
-  const currentMonth = new Date().getMonth();
-  
-  // Kenya has two main planting seasons:
-  // Long rains: March-May (months 2-4)
-  // Short rains: October-November (months 9-10)
-  const longRainsMonths = [2, 3, 4]; // March, April, May
-  const shortRainsMonths = [9, 10];  // October, November
-  
-  const optimalMonths = [...longRainsMonths, ...shortRainsMonths];
-  const canPlantNow = optimalMonths.includes(currentMonth);
-  
-  const monthNames = ['January', 'February', 'March', 'April', 'May', 'June', 
+  const today = new Date();
+  const calendar = buildPlantingCalendar({
+    county: profile.county,
+    agroZone: profile.agro_zone,
+    forecast: weatherData?.forecast,
+    today,
+  });
+
+  const monthNames = ['January', 'February', 'March', 'April', 'May', 'June',
                       'July', 'August', 'September', 'October', 'November', 'December'];
-  
-  const optimalMonthNames = optimalMonths.map(m => monthNames[m]);
-  
+  const formatDate = (date: Date) => `${monthNames[date.getMonth()]} ${date.getDate()}, ${date.getFullYear()}`;
+
+  const optimalMonthNames = getPlantingMonths(calendar).map(m => monthNames[m]);
+  const canPlantNow = calendar.current !== null;
+  const next = calendar.next;
+
   let currentSeasonRating: 'optimal' | 'acceptable' | 'poor' = 'poor';
   let seasonalAdvice = '';
-  
-  if (canPlantNow) {
+
+  if (calendar.current) {
     currentSeasonRating = 'optimal';
-    const season = longRainsMonths.includes(currentMonth) ? 'long rains' : 'short rains';
-    seasonalAdvice = `Perfect time! ${tree.swahiliName} (${tree.englishName}) thrives when planted during ${season}.`;
-  } else {
-    const nextOptimalMonth = optimalMonths.find(m => m > currentMonth) || optimalMonths[0];
-    const monthsUntilOptimal = nextOptimalMonth > currentMonth 
-      ? nextOptimalMonth - currentMonth 
-      : (12 - currentMonth) + nextOptimalMonth;
-    
-    if (monthsUntilOptimal <= 2) {
+    const season = calendar.current.name.en.toLowerCase();
+    seasonalAdvice = `Perfect time! ${tree.swahiliName} (${tree.englishName}) thrives when planted during the ${season}. Plant before ${formatDate(calendar.current.plantingEnd)}.`;
+  } else if (next) {
+    const daysUntilOptimal = Math.ceil((next.plantingStart.getTime() - today.getTime()) / (24 * 60 * 60 * 1000));
+    const season = next.name.en.toLowerCase();
+    const starts = next.onsetSource === 'forecast' ? 'are forecast to start' : 'usually start';
+
+    if (daysUntilOptimal <= 60) {
       currentSeasonRating = 'acceptable';
-      seasonalAdvice = `Wait ${monthsUntilOptimal} month${monthsUntilOptimal > 1 ? 's' : ''} for optimal planting. Prepare your site now.`;
+      seasonalAdvice = `The ${season} ${starts} around ${formatDate(next.plantingStart)}. Prepare your site now.`;
     } else {
       currentSeasonRating = 'poor';
-      const nextSeason = nextOptimalMonth <= 4 ? 'long rains' : 'short rains';
-      seasonalAdvice = `Wait for ${monthNames[nextOptimalMonth]} (${nextSeason}). Use this time for site preparation and soil testing.`;
+      seasonalAdvice = `Wait for the ${season} (from ${formatDate(next.plantingStart)}). Use this time for site preparation and soil testing.`;
     }
   }
-  
-  const nextOptimal = optimalMonths.find(m => m > currentMonth) || optimalMonths[0];
-  const nextOptimalDate = `${monthNames[nextOptimal]} 1, ${new Date().getFullYear() + (nextOptimal <= currentMonth ? 1 : 0)}`;
-  
+
+  if (calendar.regime === 'arid') {
+    seasonalAdvice += ' Rains here are short and erratic: plant only once the soil is wet and harvest water for the dry spells.';
+  }
+
   return {
     canPlantNow,
     optimalMonths: optimalMonthNames,
     currentSeasonRating,
-    nextOptimalDate,
+    nextOptimalDate: next ? formatDate(next.plantingStart) : '',
     seasonalAdvice,
   };
 };
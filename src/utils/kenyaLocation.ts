@@ -1,40 +1,30 @@
-import { KENYAN_COUNTIES } from '@/data/kenya';
+import { COUNTY_REFERENCE_ALTITUDES } from '@/data/kenya';
 import { logger } from '@/utils/logger';
+import { classifyAgroZone, type ElevationEstimate } from '@/utils/agroZoneClassifier';
+import { findConstituencyAt, findCountyAt } from '@/utils/kenyaBoundaries';
 
-// Kenya county boundaries (simplified - in production, use proper GeoJSON)
-const COUNTY_BOUNDARIES: Record<string, { lat: [number, number]; lng: [number, number] }> = {
-  'Nairobi': { lat: [-1.35, -1.20], lng: [36.70, 36.92] },
-  'Kiambu': { lat: [-1.17, -0.90], lng: [36.70, 37.15] },
-  'Nakuru': { lat: [-1.08, 0.40], lng: [35.70, 36.40] },
-  'Mombasa': { lat: [-4.08, -3.95], lng: [39.58, 39.75] },
-  'Kisumu': { lat: [-0.18, 0.05], lng: [34.60, 34.90] },
-  'Machakos': { lat: [-1.55, -0.90], lng: [36.90, 37.50] },
-  'Kajiado': { lat: [-2.90, -1.00], lng: [36.00, 37.50] },
-  'Nyeri': { lat: [-0.65, -0.20], lng: [36.80, 37.15] },
-  'Murang\'a': { lat: [-0.95, -0.55], lng: [36.80, 37.25] },
-  'Meru': { lat: [-0.40, 0.20], lng: [37.40, 38.00] },
-  // Add more counties as needed
-};
-
+// County lookup against the bundled county polygons (src/data/geo), no network needed
 export const detectKenyanCounty = (latitude: number, longitude: number): string | null => {
-  for (const [county, bounds] of Object.entries(COUNTY_BOUNDARIES)) {
-    if (
-      latitude >= bounds.lat[0] &&
-      latitude <= bounds.lat[1] &&
-      longitude >= bounds.lng[0] &&
-      longitude <= bounds.lng[1]
-    ) {
-      return county;
-    }
-  }
-  return null;
+  return findCountyAt(latitude, longitude)?.name ?? null;
 };
 
-// Reverse geocode using nominatim (free service)
+// Resolve county and constituency offline from the bundled boundaries.
+// Nominatim (free service) is only consulted for points the boundaries
+// don't cover, e.g. GPS fixes just offshore or across the border.
 export const reverseGeocode = async (
   latitude: number,
   longitude: number
 ): Promise<{ county: string | null; constituency: string | null }> => {
+  const constituency = findConstituencyAt(latitude, longitude);
+  if (constituency) {
+    return { county: constituency.county, constituency: constituency.name };
+  }
+
+  const county = detectKenyanCounty(latitude, longitude);
+  if (county) {
+    return { county, constituency: null };
+  }
+
   try {
     const response = await fetch(
       `https://nominatim.openstreetmap.org/reverse?lat=${latitude}&lon=${longitude}&format=json`
@@ -43,58 +33,46 @@ export const reverseGeocode = async (
     const data = await response.json();
     
     // Try to extract county from OpenStreetMap data
-    const county = data.address?.county || data.address?.state || detectKenyanCounty(latitude, longitude);
-    const constituency = data.address?.suburb || data.address?.town || null;
-    
-    return { county, constituency };
-  } catch (error) {
-    logger.error('Reverse geocoding error:', error);
     return {
-      county: detectKenyanCounty(latitude, longitude),
-      constituency: null
+      county: data.address?.county || data.address?.state || null,
+      constituency: data.address?.suburb || data.address?.town || null
     };
+  } catch (error) {
+    logger.error('Reverse geocoding error:', error);
+    return { county: null, constituency: null };
   }
 };
 
-// Determine agro-ecological zone based on altitude and location
+// Determine agro-ecological zone from altitude, falling back to the county's
+// reference altitude. Use detectAgroZone for DEM lookups, rainfall and a confidence value.
 export const determineAgroZone = (
   latitude: number,
   longitude: number,
   altitude?: number
 ): string => {
-  // Simplified agro-zone determination
-  // In production, use proper maps and altitude data
-  
-  const absLat = Math.abs(latitude);
-  const estimatedAltitude = altitude || 1000; // default estimate
-  
-  // Coastal lowland
-  if (longitude > 39.5 && estimatedAltitude < 500) {
-    return 'CL2';
-  }
-  
-  // Upper highland (above 2400m)
-  if (estimatedAltitude > 2400) {
-    return 'UH2';
-  }
-  
-  // Lower highland (1800-2400m)
-  if (estimatedAltitude > 1800) {
-    return 'LH2';
-  }
-  
-  // Upper midland (1500-1800m)
-  if (estimatedAltitude > 1500) {
-    return 'UM2';
-  }
-  
-  // Lower midland
-  if (estimatedAltitude > 900) {
-    return 'LM3';
-  }
-  
-  // Inland lowland
-  return 'IL3';
+  const county = detectKenyanCounty(latitude, longitude);
+  const elevation: ElevationEstimate | null =
+    altitude != null
+      ? { value: altitude, source: 'gps' }
+      : county && COUNTY_REFERENCE_ALTITUDES[county] !== undefined
+        ? { value: COUNTY_REFERENCE_ALTITUDES[county], source: 'county' }
+        : null;
+
+  return classifyAgroZone({ latitude, longitude, elevation, county }).zone;
+};
+
+// Great-circle distance between two GPS fixes, in metres
+export const distanceMeters = (
+  a: { latitude: number; longitude: number },
+  b: { latitude: number; longitude: number }
+): number => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6371000 * Math.asin(Math.sqrt(h));
 };
 
 export const formatKenyanPhone = (phone: string): string => {
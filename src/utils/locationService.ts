@@ -1,9 +1,13 @@
 import { logger } from "@/utils/logger";
+import { findCountyAt } from "@/utils/kenyaBoundaries";
+import { buildPlantingCalendar, getPlantingMonths } from "@/utils/plantingCalendar";
 
 export interface LocationData {
   latitude: number;
   longitude: number;
   accuracy: number;
+  altitude?: number | null; // metres, GPS only
+  altitudeAccuracy?: number | null;
   source: 'gps' | 'ip' | 'manual' | 'cached';
   timestamp: number;
 }
@@ -71,6 +75,8 @@ export const requestLocationPermission = (): Promise<LocationData> => {
           latitude: position.coords.latitude,
           longitude: position.coords.longitude,
           accuracy: position.coords.accuracy,
+          altitude: position.coords.altitude,
+          altitudeAccuracy: position.coords.altitudeAccuracy,
           source: 'gps',
           timestamp: Date.now(),
         };
@@ -202,47 +208,22 @@ export const determineSoilType = (humidity: number, rainfall: number): 'clay' |
   return 'loamy'; // Default to loamy as it's most common
 };
 
-// Determine current season and optimal planting months
-export const getCurrentSeason = (latitude: number): { season: string; optimalPlantingMonths: number[] } => {
-  const month = new Date().getMonth(); // 0-11
-  const isNorthern = latitude >= 0;
-
-  let season: string;
-  let optimalPlantingMonths: number[];
-
-  if (isNorthern) {
-    // Northern hemisphere
-    if (month >= 2 && month <= 4) {
-      season = 'Spring';
-      optimalPlantingMonths = [2, 3, 4]; // March, April, May
-    } else if (month >= 5 && month <= 7) {
-      season = 'Summer';
-      optimalPlantingMonths = [8, 9]; // September, October
-    } else if (month >= 8 && month <= 10) {
-      season = 'Fall';
-      optimalPlantingMonths = [2, 3, 4, 9, 10]; // Spring or Fall
-    } else {
-      season = 'Winter';
-      optimalPlantingMonths = [2, 3, 4]; // Wait for Spring
-    }
-  } else {
-    // Southern hemisphere (seasons reversed)
-    if (month >= 2 && month <= 4) {
-      season = 'Fall';
-      optimalPlantingMonths = [2, 3, 4, 9, 10];
-    } else if (month >= 5 && month <= 7) {
-      season = 'Winter';
-      optimalPlantingMonths = [8, 9];
-    } else if (month >= 8 && month <= 10) {
-      season = 'Spring';
-      optimalPlantingMonths = [8, 9, 10];
-    } else {
-      season = 'Summer';
-      optimalPlantingMonths = [2, 3];
-    }
-  }
-
-  return { season, optimalPlantingMonths };
+// Determine the current rainy/dry season and planting months from Kenya's
+// rainfall regimes (see plantingCalendar.ts)
+export const getCurrentSeason = (
+  latitude: number,
+  longitude?: number | null,
+  agroZone?: string | null
+): { season: string; optimalPlantingMonths: number[] } => {
+  const county = longitude != null ? findCountyAt(latitude, longitude)?.name ?? null : null;
+  const calendar = buildPlantingCalendar({ county, agroZone });
+  const today = new Date();
+  const rainySeason = calendar.seasons.find((season) => today >= season.onset && today <= season.cessation);
+
+  return {
+    season: rainySeason ? rainySeason.name.en : 'Dry season',
+    optimalPlantingMonths: getPlantingMonths(calendar),
+  };
 };
 
 // Get location accuracy rating
@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+
+const { invoke, maybeSingle, channel, removeChannel, realtime } = vi.hoisted(() => {
+  const realtime: { handler?: (payload: { new: unknown }) => void } = {};
+  const channelApi = {
+    on: vi.fn((_event: string, _filter: unknown, handler: (payload: { new: unknown }) => void) => {
+      realtime.handler = handler;
+      return channelApi;
+    }),
+    subscribe: vi.fn(() => channelApi),
+  };
+  return {
+    invoke: vi.fn(),
+    maybeSingle: vi.fn(),
+    channel: vi.fn(() => channelApi),
+    removeChannel: vi.fn(),
+    realtime,
+  };
+});
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    functions: { invoke },
+    from: vi.fn(() => ({ select: () => ({ eq: () => ({ maybeSingle }) }) })),
+    channel,
+    removeChannel,
+  },
+}));
+
+import { normalizeMpesaPhone, orderTotal, startMpesaPayment, watchOrder } from './mpesaPayments';
+
+const order = (status: string) => ({
+  id: 'order-1',
+  status,
+  amount: 300,
+  quantity: 2,
+  mpesa_receipt_number: status === 'paid' ? 'QK12ABC' : null,
+  result_desc: null,
+});
+
+describe('normalizeMpesaPhone', () => {
+  it('accepts the common ways Kenyans write a Safaricom number', () => {
+    expect(normalizeMpesaPhone('0712345678')).toBe('254712345678');
+    expect(normalizeMpesaPhone('+254 712 345 678')).toBe('254712345678');
+    expect(normalizeMpesaPhone('254112345678')).toBe('254112345678');
+    expect(normalizeMpesaPhone('712-345-678')).toBe('254712345678');
+  });
+
+  it('rejects numbers M-Pesa cannot prompt', () => {
+    expect(normalizeMpesaPhone('')).toBeNull();
+    expect(normalizeMpesaPhone('0212345678')).toBeNull();
+    expect(normalizeMpesaPhone('07123456')).toBeNull();
+  });
+});
+
+describe('orderTotal', () => {
+  it('rounds the total up to whole shillings once', () => {
+    expect(orderTotal(150, 2)).toBe(300);
+    expect(orderTotal(12.5, 3)).toBe(38);
+    expect(orderTotal(12.5, 4)).toBe(50);
+  });
+
+  it('works in cents so float error never adds a shilling', () => {
+    expect(orderTotal(1.15, 100)).toBe(115);
+    expect(orderTotal(19.99, 100)).toBe(1999);
+  });
+});
+
+describe('startMpesaPayment', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns the pending order', async () => {
+    invoke.mockResolvedValue({ data: { orderId: 'order-1', status: 'pending' }, error: null });
+
+    const result = await startMpesaPayment({ treeSlug: 'mango', quantity: 2, phoneNumber: '0712345678' });
+
+    expect(invoke).toHaveBeenCalledWith('mpesa-stk-push', {
+      body: { treeSlug: 'mango', quantity: 2, phoneNumber: '0712345678' },
+    });
+    expect(result).toEqual({ orderId: 'order-1', status: 'pending' });
+  });
+
+  it('surfaces the message from a failed STK push', async () => {
+    const response = new Response(JSON.stringify({ orderId: 'order-1', status: 'failed', error: 'Invalid PhoneNumber' }));
+    invoke.mockResolvedValue({ data: null, error: Object.assign(new Error('non-2xx'), { context: response }) });
+
+    const result = await startMpesaPayment({ treeSlug: 'mango', quantity: 2, phoneNumber: '0712345678' });
+
+    expect(result).toEqual({ orderId: 'order-1', status: 'failed', error: 'Invalid PhoneNumber' });
+  });
+});
+
+describe('watchOrder', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('stops once realtime reports the payment result', () => {
+    const onChange = vi.fn();
+    watchOrder('order-1', onChange);
+
+    realtime.handler?.({ new: order('paid') });
+    realtime.handler?.({ new: order('paid') });
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenCalledWith(expect.objectContaining({ status: 'paid', mpesa_receipt_number: 'QK12ABC' }));
+    expect(removeChannel).toHaveBeenCalledTimes(1);
+  });
+
+  it('polls the order and checks with M-Pesa when realtime stays quiet', async () => {
+    maybeSingle.mockResolvedValue({ data: order('pending'), error: null });
+    invoke.mockResolvedValue({ data: { orderId: 'order-1', status: 'pending' }, error: null });
+    const onChange = vi.fn();
+    const stop = watchOrder('order-1', onChange);
+
+    await vi.advanceTimersByTimeAsync(25000);
+    expect(onChange).toHaveBeenCalledTimes(5);
+    expect(invoke).not.toHaveBeenCalled();
+
+    maybeSingle.mockResolvedValue({ data: order('cancelled'), error: null });
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(invoke).toHaveBeenCalledWith('mpesa-stk-push', { body: { orderId: 'order-1' } });
+    expect(onChange).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'cancelled' }));
+
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(onChange).toHaveBeenCalledTimes(6);
+    stop();
+    expect(removeChannel).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,156 @@
+import { supabase } from '@/integrations/supabase/client';
+import { logger } from '@/utils/logger';
+
+/**
+ * Seedling purchases through M-Pesa STK Push
+ *
+ * The mpesa-stk-push edge function creates the order and prompts the buyer's
+ * phone; mpesa-callback settles it. The client follows the order row over
+ * realtime, with polling as a fallback for flaky connections.
+ */
+
+export type OrderStatus = 'pending' | 'paid' | 'failed' | 'cancelled';
+
+export interface SeedlingOrder {
+  id: string;
+  status: OrderStatus;
+  amount: number;
+  quantity: number;
+  mpesa_receipt_number: string | null;
+  result_desc: string | null;
+}
+
+export interface StartPaymentResult {
+  orderId: string | null;
+  status: OrderStatus;
+  error?: string;
+}
+
+const ORDER_COLUMNS = 'id, status, amount, quantity, mpesa_receipt_number, result_desc';
+
+const POLL_INTERVAL_MS = 5000;
+// Every sixth poll asks Daraja directly in case the callback got lost
+const RECONCILE_EVERY_POLLS = 6;
+
+export const isFinalOrderStatus = (status: OrderStatus) => status !== 'pending';
+
+/**
+ * Convert 07XX / 01XX / +254 numbers to 2547XXXXXXXX, or null if invalid
+ */
+export const normalizeMpesaPhone = (input: string): string | null => {
+  const digits = input.replace(/[\s-]/g, '').replace(/^\+/, '');
+  const match = digits.match(/^(?:254|0)?([17]\d{8})$/);
+  return match ? `254${match[1]}` : null;
+};
+
+/**
+ * Whole shillings charged for an order, rounded up the way mpesa-stk-push
+ * does (orderAmount in supabase/functions/_shared/daraja.ts)
+ */
+export const orderTotal = (unitPrice: number, quantity: number): number =>
+  Math.ceil((Math.round(unitPrice * 100) * quantity) / 100);
+
+// Non-2xx edge function responses carry their message in the response body
+export const readFunctionError = async (
+  error: unknown
+): Promise<{ message: string; body?: Record<string, unknown> }> => {
+  const context = (error as { context?: Response })?.context;
+  if (context && typeof context.json === 'function') {
+    try {
+      const body = await context.json();
+      if (body?.error) return { message: body.error, body };
+    } catch {
+      // Fall through to the generic message
+    }
+  }
+  return { message: error instanceof Error ? error.message : 'M-Pesa request failed' };
+};
+
+/**
+ * Create an order and send the M-Pesa prompt to the buyer's phone
+ */
+export const startMpesaPayment = async ({
+  treeSlug,
+  quantity,
+  phoneNumber,
+}: {
+  treeSlug: string;
+  quantity: number;
+  phoneNumber: string;
+}): Promise<StartPaymentResult> => {
+  const { data, error } = await supabase.functions.invoke('mpesa-stk-push', {
+    body: { treeSlug, quantity, phoneNumber },
+  });
+
+  if (error) {
+    const { message, body } = await readFunctionError(error);
+    logger.error('M-Pesa STK push failed:', message);
+    return { orderId: (body?.orderId as string) ?? null, status: 'failed', error: message };
+  }
+  return { orderId: data.orderId, status: data.status };
+};
+
+export const fetchOrder = async (orderId: string): Promise<SeedlingOrder | null> => {
+  const { data, error } = await supabase
+    .from('orders')
+    .select(ORDER_COLUMNS)
+    .eq('id', orderId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Error fetching order:', error);
+    return null;
+  }
+  return data as SeedlingOrder | null;
+};
+
+/**
+ * Ask the edge function to check a pending order with Daraja
+ */
+export const reconcileOrder = async (orderId: string): Promise<void> => {
+  const { error } = await supabase.functions.invoke('mpesa-stk-push', { body: { orderId } });
+  if (error) {
+    logger.warn('Could not check M-Pesa status:', error);
+  }
+};
+
+/**
+ * Follow an order until it is paid, failed or cancelled. Returns a function
+ * that stops watching.
+ */
+export const watchOrder = (orderId: string, onChange: (order: SeedlingOrder) => void): (() => void) => {
+  let stopped = false;
+  let polls = 0;
+
+  const handle = (order: SeedlingOrder | null) => {
+    if (stopped || !order) return;
+    onChange(order);
+    if (isFinalOrderStatus(order.status)) stop();
+  };
+
+  const channel = supabase
+    .channel(`order-${orderId}`)
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'orders', filter: `id=eq.${orderId}` },
+      (payload) => handle(payload.new as SeedlingOrder)
+    )
+    .subscribe();
+
+  const interval = setInterval(async () => {
+    polls++;
+    if (polls % RECONCILE_EVERY_POLLS === 0) {
+      await reconcileOrder(orderId);
+    }
+    handle(await fetchOrder(orderId));
+  }, POLL_INTERVAL_MS);
+
+  function stop() {
+    if (stopped) return;
+    stopped = true;
+    clearInterval(interval);
+    supabase.removeChannel(channel);
+  }
+
+  return stop;
+};
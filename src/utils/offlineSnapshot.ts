@@ -0,0 +1,55 @@
+import { logger } from "@/utils/logger";
+
+/**
+ * Last known copies of the data swiping needs, kept in localStorage so the
+ * swipe deck still works without a connection: the species catalog, the
+ * farmer's profile and plots, the trees they have matched and the last
+ * weather reading for their farm. Snapshots never expire; stale data beats an empty deck,
+ * and the UI shows their age.
+ */
+
+export interface Snapshot<T> {
+  data: T;
+  savedAt: number;
+}
+
+const CATALOG_KEY = 'leafswipe_catalog';
+const profileKey = (userId: string) => `leafswipe_profile_${userId}`;
+const weatherKey = (userId: string) => `leafswipe_weather_${userId}`;
+// Matches per plot; the earlier leafswipe_matches_ snapshot held tree ids only
+const matchesKey = (userId: string) => `leafswipe_plot_matches_${userId}`;
+const plotsKey = (userId: string) => `leafswipe_plots_${userId}`;
+
+const save = <T>(key: string, data: T): void => {
+  try {
+    const snapshot: Snapshot<T> = { data, savedAt: Date.now() };
+    localStorage.setItem(key, JSON.stringify(snapshot));
+  } catch (error) {
+    // Quota exceeded or storage disabled; the online path still works
+    logger.error(`Failed to save offline snapshot ${key}:`, error);
+  }
+};
+
+const load = <T>(key: string): Snapshot<T> | null => {
+  try {
+    const cached = localStorage.getItem(key);
+    return cached ? (JSON.parse(cached) as Snapshot<T>) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const cacheCatalog = <T>(species: T[]) => save(CATALOG_KEY, species);
+export const getCachedCatalog = <T>() => load<T[]>(CATALOG_KEY);
+
+export const cacheProfile = <T>(userId: string, profile: T) => save(profileKey(userId), profile);
+export const getCachedProfile = <T>(userId: string) => load<T>(profileKey(userId));
+
+export const cacheWeather = <T>(userId: string, weather: T) => save(weatherKey(userId), weather);
+export const getCachedWeather = <T>(userId: string) => load<T>(weatherKey(userId));
+
+export const cacheMatches = <T>(userId: string, matches: T[]) => save(matchesKey(userId), matches);
+export const getCachedMatches = <T>(userId: string) => load<T[]>(matchesKey(userId));
+
+export const cachePlots = <T>(userId: string, plots: T[]) => save(plotsKey(userId), plots);
+export const getCachedPlots = <T>(userId: string) => load<T[]>(plotsKey(userId));
@@ -0,0 +1,64 @@
+/**
+ * IndexedDB database behind the offline outboxes
+ *
+ * Each outbox keeps its items in its own object store, keyed by the item's
+ * id (which doubles as its idempotency key) and indexed by user.
+ */
+
+export type OutboxStore = 'verifications' | 'swipes';
+
+const DB_NAME = 'leafswipe-outbox';
+// 1: verifications, 2: swipes
+const DB_VERSION = 2;
+const STORES: OutboxStore[] = ['verifications', 'swipes'];
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const openOutbox = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('Offline storage is not available in this browser'));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      for (const name of STORES) {
+        if (req.result.objectStoreNames.contains(name)) continue;
+        const store = req.result.createObjectStore(name, { keyPath: 'id' });
+        store.createIndex('userId', 'userId');
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+export const withStore = async <T>(
+  name: OutboxStore,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+) => {
+  const db = await openOutbox();
+  try {
+    return await request(run(db.transaction(name, mode).objectStore(name)));
+  } finally {
+    db.close();
+  }
+};
+
+/**
+ * A user's items in one store, oldest first by the given timestamp field
+ */
+export const listForUser = async <T extends Record<K, string>, K extends keyof T>(
+  name: OutboxStore,
+  userId: string,
+  orderBy: K
+): Promise<T[]> => {
+  const items = await withStore(name, 'readonly', (store) =>
+    store.index('userId').getAll(IDBKeyRange.only(userId)) as IDBRequest<T[]>
+  );
+  return items.sort((a, b) => a[orderBy].localeCompare(b[orderBy]));
+};
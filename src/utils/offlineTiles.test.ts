@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AVERAGE_TILE_BYTES,
+  MIN_DOWNLOAD_ZOOM,
+  bboxAround,
+  fitsBudget,
+  formatBytes,
+  latToTileY,
+  lngToTileX,
+  planZooms,
+  tileUrl,
+  tilesAtZoom,
+  tilesForRegion,
+  tilesOnlyIn,
+  type OfflineRegion,
+} from './offlineTiles';
+
+const NAIROBI = { latitude: -1.2921, longitude: 36.8219 };
+
+const region = (id: string, radiusKm: number, zooms: number[]): OfflineRegion => ({
+  id,
+  name: id,
+  bbox: bboxAround(NAIROBI.latitude, NAIROBI.longitude, radiusKm),
+  zooms,
+  tileCount: 0,
+  bytes: 0,
+  savedAt: '2025-12-01T00:00:00.000Z',
+});
+
+describe('tile math', () => {
+  it('converts a point to slippy map tile numbers', () => {
+    expect([lngToTileX(NAIROBI.longitude, 12), latToTileY(NAIROBI.latitude, 12)]).toEqual([2466, 2062]);
+    expect([lngToTileX(NAIROBI.longitude, 16), latToTileY(NAIROBI.latitude, 16)]).toEqual([39471, 33003]);
+  });
+
+  it('builds the same URL the planting map requests', () => {
+    expect(tileUrl({ z: 12, x: 2466, y: 2062 })).toBe('https://tile.openstreetmap.org/12/2466/2062.png');
+  });
+
+  it('covers the box around a point at each zoom', () => {
+    const bbox = bboxAround(NAIROBI.latitude, NAIROBI.longitude, 1);
+    expect(bbox.north - bbox.south).toBeCloseTo(2 / 110.574, 6);
+
+    const tiles = tilesAtZoom(bbox, 16);
+    expect(tiles).toContainEqual({ z: 16, x: 39471, y: 33003 });
+    expect(tiles.every((tile) => tile.z === 16)).toBe(true);
+  });
+});
+
+describe('planZooms', () => {
+  it('starts at the lowest zoom and stops before the tile cap', () => {
+    const bbox = bboxAround(NAIROBI.latitude, NAIROBI.longitude, 3);
+    const zooms = planZooms(bbox);
+
+    expect(zooms[0]).toBe(MIN_DOWNLOAD_ZOOM);
+    expect(tilesForRegion(bbox, zooms).length).toBeLessThanOrEqual(600);
+    expect(tilesForRegion(bbox, [...zooms, zooms[zooms.length - 1] + 1]).length).toBeGreaterThan(600);
+  });
+
+  it('saves deeper zooms for smaller areas', () => {
+    const small = planZooms(bboxAround(NAIROBI.latitude, NAIROBI.longitude, 1));
+    const large = planZooms(bboxAround(NAIROBI.latitude, NAIROBI.longitude, 5));
+    expect(small.length).toBeGreaterThan(large.length);
+  });
+
+  it('returns nothing when even the lowest zoom is over the cap', () => {
+    expect(planZooms(bboxAround(NAIROBI.latitude, NAIROBI.longitude, 5), 1)).toEqual([]);
+  });
+});
+
+describe('fitsBudget', () => {
+  it('estimates the download against what is left', () => {
+    expect(fitsBudget(10, 0, 10 * AVERAGE_TILE_BYTES)).toBe(true);
+    expect(fitsBudget(10, 1, 10 * AVERAGE_TILE_BYTES)).toBe(false);
+  });
+});
+
+describe('tilesOnlyIn', () => {
+  it('keeps tiles another saved area still uses', () => {
+    const inner = region('inner', 1, [12, 13]);
+    const outer = region('outer', 3, [12, 13]);
+
+    expect(tilesOnlyIn(inner, [outer])).toEqual([]);
+    expect(tilesOnlyIn(inner, [])).toEqual(tilesForRegion(inner.bbox, inner.zooms));
+  });
+});
+
+describe('formatBytes', () => {
+  it('shows KB below a megabyte and MB above', () => {
+    expect(formatBytes(20 * 1024)).toBe('20 KB');
+    expect(formatBytes(30 * 1024 * 1024)).toBe('30.0 MB');
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Map areas saved for use without signal
+ *
+ * A farmer can save the OpenStreetMap tiles for a box around their farm at a
+ * few zoom levels. The service worker serves saved tiles before asking the
+ * network (src/utils/serviceWorkerRoutes.ts), so the planting map still
+ * draws in the field. Downloads are kept small on purpose: phones have
+ * little storage, and the OpenStreetMap tile policy asks apps not to bulk
+ * download, so each area is capped and all areas share one budget.
+ */
+
+export interface BoundingBox {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+export interface TileCoordinate {
+  z: number;
+  x: number;
+  y: number;
+}
+
+export interface OfflineRegion {
+  id: string;
+  name: string;
+  bbox: BoundingBox;
+  zooms: number[];
+  tileCount: number;
+  bytes: number;
+  savedAt: string;
+}
+
+/** Zoom levels offered, from the county view down to single fields */
+export const MIN_DOWNLOAD_ZOOM = 12;
+export const MAX_DOWNLOAD_ZOOM = 17;
+/** Tiles one area may hold */
+export const MAX_TILES_PER_REGION = 600;
+/** Storage all saved areas may use together */
+export const OFFLINE_TILE_BUDGET_BYTES = 30 * 1024 * 1024;
+/** Typical size of a rural OpenStreetMap tile, for estimates before download */
+export const AVERAGE_TILE_BYTES = 20 * 1024;
+
+/** Radii offered around the farm, in km */
+export const REGION_RADII_KM = [1, 3, 5];
+
+const KM_PER_DEGREE_LAT = 110.574;
+
+export const tileUrl = ({ z, x, y }: TileCoordinate) => `https://tile.openstreetmap.org/${z}/${x}/${y}.png`;
+
+export const lngToTileX = (lng: number, z: number) => Math.floor(((lng + 180) / 360) * 2 ** z);
+
+export const latToTileY = (lat: number, z: number) => {
+  const rad = (lat * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * 2 ** z);
+};
+
+/**
+ * A square box of the given half-width around a point
+ */
+export const bboxAround = (latitude: number, longitude: number, radiusKm: number): BoundingBox => {
+  const dLat = radiusKm / KM_PER_DEGREE_LAT;
+  const dLng = radiusKm / (111.32 * Math.cos((latitude * Math.PI) / 180));
+  return {
+    south: latitude - dLat,
+    west: longitude - dLng,
+    north: latitude + dLat,
+    east: longitude + dLng,
+  };
+};
+
+export const tilesAtZoom = (bbox: BoundingBox, z: number): TileCoordinate[] => {
+  const tiles: TileCoordinate[] = [];
+  const [minX, maxX] = [lngToTileX(bbox.west, z), lngToTileX(bbox.east, z)];
+  // Tile rows count down from the north
+  const [minY, maxY] = [latToTileY(bbox.north, z), latToTileY(bbox.south, z)];
+  for (let x = minX; x <= maxX; x++) {
+    for (let y = minY; y <= maxY; y++) {
+      tiles.push({ z, x, y });
+    }
+  }
+  return tiles;
+};
+
+export const tilesForRegion = (bbox: BoundingBox, zooms: number[]): TileCoordinate[] =>
+  zooms.flatMap((z) => tilesAtZoom(bbox, z));
+
+/**
+ * The zoom levels to save for a box: every level from MIN_DOWNLOAD_ZOOM up,
+ * stopping before the level that would take the area over its tile cap
+ */
+export const planZooms = (bbox: BoundingBox, maxTiles: number = MAX_TILES_PER_REGION): number[] => {
+  const zooms: number[] = [];
+  let total = 0;
+  for (let z = MIN_DOWNLOAD_ZOOM; z <= MAX_DOWNLOAD_ZOOM; z++) {
+    total += tilesAtZoom(bbox, z).length;
+    if (total > maxTiles) break;
+    zooms.push(z);
+  }
+  return zooms;
+};
+
+/**
+ * Whether a download of this many tiles fits what the saved areas have left
+ */
+export const fitsBudget = (
+  tileCount: number,
+  usedBytes: number,
+  budget: number = OFFLINE_TILE_BUDGET_BYTES
+) => usedBytes + tileCount * AVERAGE_TILE_BYTES <= budget;
+
+/**
+ * Tiles only the given region uses, safe to delete with it
+ */
+export const tilesOnlyIn = (region: OfflineRegion, others: OfflineRegion[]): TileCoordinate[] => {
+  const kept = new Set(
+    others.flatMap((other) => tilesForRegion(other.bbox, other.zooms)).map(tileUrl)
+  );
+  return tilesForRegion(region.bbox, region.zooms).filter((tile) => !kept.has(tileUrl(tile)));
+};
+
+export const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { downloadRegion, listOfflineRegions } from './offlineTilesService';
+import { bboxAround, planZooms, tilesForRegion } from './offlineTiles';
+
+const stored = new Map<string, Response>();
+
+const cache = {
+  match: async (url: string) => stored.get(url),
+  put: async (url: string, response: Response) => {
+    stored.set(url, response);
+  },
+  delete: async (url: string) => stored.delete(url),
+};
+
+const bbox = bboxAround(-1.2921, 36.8219, 2);
+
+describe('downloadRegion', () => {
+  beforeEach(() => {
+    stored.clear();
+    localStorage.clear();
+    vi.stubGlobal('caches', { open: async () => cache });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('stops every worker at the first failure and removes what was saved', async () => {
+    let requests = 0;
+    vi.stubGlobal('fetch', vi.fn(async () => {
+      requests++;
+      if (requests === 3) return new Response('', { status: 503 });
+      // The other worker is still waiting on its tile when the failure lands
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      return new Response('tile');
+    }));
+
+    await expect(downloadRegion('Farm', bbox)).rejects.toThrow('Map tile request failed (503)');
+    // Give a worker that kept going time to save tiles
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const total = tilesForRegion(bbox, planZooms(bbox)).length;
+    expect(total).toBeGreaterThan(5);
+    expect(requests).toBeLessThanOrEqual(4);
+    expect(stored.size).toBe(0);
+    expect(listOfflineRegions()).toEqual([]);
+  });
+
+  it('saves the area once every tile is cached', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('tile')));
+
+    const region = await downloadRegion('Farm', bbox);
+
+    expect(stored.size).toBe(region.tileCount);
+    expect(listOfflineRegions()).toEqual([region]);
+  });
+});
@@ -0,0 +1,135 @@
+import { logger } from "@/utils/logger";
+import { OFFLINE_TILE_CACHE } from "@/utils/serviceWorkerRoutes";
+import {
+  OFFLINE_TILE_BUDGET_BYTES,
+  fitsBudget,
+  planZooms,
+  tileUrl,
+  tilesForRegion,
+  tilesOnlyIn,
+  type BoundingBox,
+  type OfflineRegion,
+} from "@/utils/offlineTiles";
+
+const REGIONS_KEY = 'leafswipe_offline_regions';
+// Parallel tile requests; the OpenStreetMap tile policy asks for few
+const CONCURRENCY = 2;
+
+export const isOfflineMapSupported = () => typeof caches !== 'undefined';
+
+export const listOfflineRegions = (): OfflineRegion[] => {
+  try {
+    return JSON.parse(localStorage.getItem(REGIONS_KEY) || '[]') as OfflineRegion[];
+  } catch {
+    return [];
+  }
+};
+
+const saveRegions = (regions: OfflineRegion[]) => {
+  localStorage.setItem(REGIONS_KEY, JSON.stringify(regions));
+};
+
+export const offlineTileUsage = (regions: OfflineRegion[] = listOfflineRegions()) =>
+  regions.reduce((sum, region) => sum + region.bytes, 0);
+
+/**
+ * Save the tiles for a box into Cache Storage. Stops with an error when the
+ * area would not fit the budget, and removes what it had added so far.
+ */
+export const downloadRegion = async (
+  name: string,
+  bbox: BoundingBox,
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<OfflineRegion> => {
+  if (!isOfflineMapSupported()) throw new Error('Offline maps are not supported in this browser');
+
+  const zooms = planZooms(bbox);
+  if (zooms.length === 0) throw new Error('This area is too large to save; choose a smaller radius');
+
+  const tiles = tilesForRegion(bbox, zooms);
+  const regions = listOfflineRegions();
+  const used = offlineTileUsage(regions);
+  if (!fitsBudget(tiles.length, used)) {
+    throw new Error('Not enough space for another map area; remove a saved area first');
+  }
+
+  // Ask the browser not to evict saved areas when storage runs low
+  navigator.storage?.persist?.().catch((error) => logger.error('Error requesting persistent storage:', error));
+
+  const cache = await caches.open(OFFLINE_TILE_CACHE);
+  const queue = [...tiles];
+  const added: string[] = [];
+  let done = 0;
+  let bytes = 0;
+
+  // Set by the first worker to fail so the others stop taking tiles
+  let failed = false;
+
+  const worker = async () => {
+    try {
+      while (queue.length > 0 && !failed) {
+        if (signal?.aborted) throw new DOMException('Download cancelled', 'AbortError');
+        const url = tileUrl(queue.shift()!);
+
+        // Shared with an area saved earlier
+        const existing = await cache.match(url);
+        if (existing) {
+          bytes += (await existing.blob()).size;
+        } else {
+          const response = await fetch(url, { signal });
+          if (!response.ok) throw new Error(`Map tile request failed (${response.status})`);
+          if (failed) return;
+          bytes += (await response.clone().blob()).size;
+          if (used + bytes > OFFLINE_TILE_BUDGET_BYTES) {
+            throw new Error('Not enough space for this map area; choose a smaller radius');
+          }
+          await cache.put(url, response);
+          added.push(url);
+        }
+
+        done++;
+        onProgress?.(done, tiles.length);
+      }
+    } catch (error) {
+      failed = true;
+      throw error;
+    }
+  };
+
+  // Wait for every worker before cleaning up, so none saves a tile afterwards
+  const results = await Promise.allSettled(Array.from({ length: CONCURRENCY }, worker));
+  const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+  if (failure) {
+    await Promise.all(added.map((url) => cache.delete(url)));
+    throw failure.reason;
+  }
+
+  const region: OfflineRegion = {
+    id: crypto.randomUUID(),
+    name,
+    bbox,
+    zooms,
+    tileCount: tiles.length,
+    bytes,
+    savedAt: new Date().toISOString(),
+  };
+  saveRegions([...regions, region]);
+  return region;
+};
+
+/**
+ * Forget a saved area and delete the tiles no other area uses
+ */
+export const deleteRegion = async (id: string): Promise<void> => {
+  const regions = listOfflineRegions();
+  const region = regions.find((r) => r.id === id);
+  if (!region) return;
+
+  const others = regions.filter((r) => r.id !== id);
+  if (isOfflineMapSupported()) {
+    const cache = await caches.open(OFFLINE_TILE_CACHE);
+    await Promise.all(tilesOnlyIn(region, others).map((tile) => cache.delete(tileUrl(tile))));
+  }
+  saveRegions(others);
+};
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { DUPLICATE_HASH_DISTANCE, hammingDistance, perceptualHashFromPixels } from './perceptualHash';
+
+const SIZE = 32;
+
+// A soft diagonal gradient with a bright blob, like a seedling against soil
+const scene = (brightness = 0, noise = 0) =>
+  Array.from({ length: SIZE * SIZE }, (_, i) => {
+    const x = i % SIZE;
+    const y = Math.floor(i / SIZE);
+    const blob = Math.exp(-((x - 12) ** 2 + (y - 20) ** 2) / 40) * 120;
+    // Deterministic speckle standing in for JPEG recompression
+    const speckle = noise * Math.sin(i * 12.9898) * 1.3;
+    return 40 + x * 3 + y * 2 + blob + brightness + speckle;
+  });
+
+const otherScene = () =>
+  Array.from({ length: SIZE * SIZE }, (_, i) => {
+    const x = i % SIZE;
+    const y = Math.floor(i / SIZE);
+    return 128 + 100 * Math.sin(x / 3) * Math.cos(y / 5);
+  });
+
+describe('perceptualHashFromPixels', () => {
+  it('produces a 64-bit hex hash', () => {
+    expect(perceptualHashFromPixels(scene())).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('matches the same photo after brightness changes and recompression', () => {
+    const original = perceptualHashFromPixels(scene());
+
+    expect(perceptualHashFromPixels(scene(25))).toBe(original);
+    expect(hammingDistance(original, perceptualHashFromPixels(scene(0, 4)))).toBeLessThanOrEqual(DUPLICATE_HASH_DISTANCE);
+  });
+
+  it('tells different photos apart', () => {
+    expect(hammingDistance(perceptualHashFromPixels(scene()), perceptualHashFromPixels(otherScene())))
+      .toBeGreaterThan(DUPLICATE_HASH_DISTANCE);
+  });
+
+  it('rejects pixel arrays of the wrong size', () => {
+    expect(() => perceptualHashFromPixels([1, 2, 3])).toThrow();
+  });
+});
+
+describe('hammingDistance', () => {
+  it('counts differing bits', () => {
+    expect(hammingDistance('0000000000000000', '0000000000000000')).toBe(0);
+    expect(hammingDistance('0000000000000000', '000000000000000f')).toBe(4);
+    expect(hammingDistance('ffffffffffffffff', '0000000000000000')).toBe(64);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Perceptual hashing for verification photos
+ *
+ * A pHash survives the resizing, recompression and small crops a re-used
+ * photo goes through, unlike a file checksum. The photo is shrunk to 32×32
+ * greyscale, transformed with a 2D DCT, and the 8×8 lowest frequencies
+ * are compared with their median: one bit each, 64 bits, written as 16 hex
+ * characters. The database compares hashes by Hamming distance
+ * (image_hash_distance).
+ */
+
+const SIZE = 32;
+const LOW = 8;
+
+// Photos this many bits apart or fewer are treated as the same picture
+export const DUPLICATE_HASH_DISTANCE = 6;
+
+const dctCoefficients = (() => {
+  const table: number[][] = [];
+  for (let u = 0; u < LOW; u++) {
+    table[u] = [];
+    for (let x = 0; x < SIZE; x++) {
+      table[u][x] = Math.cos(((2 * x + 1) * u * Math.PI) / (2 * SIZE));
+    }
+  }
+  return table;
+})();
+
+/**
+ * Hash 32×32 greyscale pixels (row-major, any brightness scale)
+ */
+export const perceptualHashFromPixels = (pixels: ArrayLike<number>): string => {
+  if (pixels.length !== SIZE * SIZE) {
+    throw new Error(`Expected ${SIZE * SIZE} pixels, got ${pixels.length}`);
+  }
+
+  // Only the low frequencies are needed, so the DCT is computed for them alone
+  const rows: number[][] = [];
+  for (let y = 0; y < SIZE; y++) {
+    rows[y] = [];
+    for (let u = 0; u < LOW; u++) {
+      let sum = 0;
+      for (let x = 0; x < SIZE; x++) sum += pixels[y * SIZE + x] * dctCoefficients[u][x];
+      rows[y][u] = sum;
+    }
+  }
+
+  const coefficients: number[] = [];
+  for (let v = 0; v < LOW; v++) {
+    for (let u = 0; u < LOW; u++) {
+      let sum = 0;
+      for (let y = 0; y < SIZE; y++) sum += rows[y][u] * dctCoefficients[v][y];
+      coefficients.push(sum);
+    }
+  }
+
+  // The DC term is the average brightness; leave it out of the median
+  const median = [...coefficients.slice(1)].sort((a, b) => a - b)[Math.floor((coefficients.length - 1) / 2)];
+
+  let hex = '';
+  for (let i = 0; i < coefficients.length; i += 4) {
+    let nibble = 0;
+    for (let bit = 0; bit < 4; bit++) {
+      nibble = (nibble << 1) | (coefficients[i + bit] > median ? 1 : 0);
+    }
+    hex += nibble.toString(16);
+  }
+  return hex;
+};
+
+/**
+ * Number of differing bits between two hashes
+ */
+export const hammingDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
+
+/**
+ * Hash a photo file in the browser. Returns null when the image cannot be
+ * decoded (the submission goes ahead without a hash).
+ */
+export const computePerceptualHash = async (file: File): Promise<string | null> => {
+  try {
+    const bitmap = await createImageBitmap(file);
+    const canvas = document.createElement('canvas');
+    canvas.width = SIZE;
+    canvas.height = SIZE;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    ctx.drawImage(bitmap, 0, 0, SIZE, SIZE);
+    bitmap.close();
+    const { data } = ctx.getImageData(0, 0, SIZE, SIZE);
+
+    const grey = new Float64Array(SIZE * SIZE);
+    for (let i = 0; i < grey.length; i++) {
+      grey[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    }
+    return perceptualHashFromPixels(grey);
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildPlantingCalendar,
+  detectCessation,
+  detectOnset,
+  getPlantingMonths,
+  getRainfallRegime,
+  plantingCalendarToIcs,
+  type DailyForecast,
+} from './plantingCalendar';
+
+// Daily forecast starting on the given local date
+const makeForecast = (start: Date, rain: number[]): DailyForecast[] =>
+  rain.map((mm, index) => ({
+    dt: new Date(start.getFullYear(), start.getMonth(), start.getDate() + index, 12).getTime() / 1000,
+    rain: mm,
+  }));
+
+describe('getRainfallRegime', () => {
+  it('maps counties and agro-zones to their rainfall pattern', () => {
+    expect(getRainfallRegime('Nyeri', 'UM2')).toBe('bimodal');
+    expect(getRainfallRegime('Kakamega', 'LM1')).toBe('unimodal_west');
+    expect(getRainfallRegime('Mombasa', null)).toBe('coastal');
+    expect(getRainfallRegime('Turkana', null)).toBe('arid');
+    expect(getRainfallRegime('Machakos', 'LM5')).toBe('arid');
+    expect(getRainfallRegime(null, null)).toBe('bimodal');
+  });
+});
+
+describe('buildPlantingCalendar', () => {
+  it('lists both rainy seasons in date order for central Kenya', () => {
+    const calendar = buildPlantingCalendar({ county: 'Nyeri', agroZone: 'UM2', today: new Date(2025, 0, 10) });
+
+    expect(calendar.seasons.map((season) => season.id)).toEqual(['long_rains', 'short_rains']);
+    expect(calendar.current).toBeNull();
+    expect(calendar.next?.id).toBe('long_rains');
+    expect(calendar.next?.plantingStart).toEqual(new Date(2025, 2, 15));
+  });
+
+  it('marks the open planting window as current', () => {
+    const calendar = buildPlantingCalendar({ county: 'Nyeri', agroZone: 'UM2', today: new Date(2025, 9, 25) });
+
+    expect(calendar.current?.id).toBe('short_rains');
+    expect(calendar.next?.id).toBe('long_rains');
+    expect(calendar.next?.onset.getFullYear()).toBe(2026);
+  });
+
+  it('moves the onset to the first rainy spell in the forecast', () => {
+    const today = new Date(2025, 2, 10);
+    const forecast = makeForecast(today, [0, 0, 0, 0, 12, 9, 6, 3]);
+    const calendar = buildPlantingCalendar({ county: 'Nyeri', agroZone: 'UM2', today, forecast });
+    const longRains = calendar.seasons.find((season) => season.id === 'long_rains')!;
+
+    expect(longRains.onset).toEqual(new Date(2025, 2, 14));
+    expect(longRains.onsetSource).toBe('forecast');
+    expect(longRains.plantingStart).toEqual(longRains.onset);
+  });
+
+  it('delays the onset when the forecast stays dry', () => {
+    const today = new Date(2025, 2, 12);
+    const forecast = makeForecast(today, [0, 0, 0, 0, 0, 0, 0]);
+    const calendar = buildPlantingCalendar({ county: 'Nyeri', agroZone: 'UM2', today, forecast });
+
+    expect(calendar.current).toBeNull();
+    expect(calendar.next?.plantingStart).toEqual(new Date(2025, 2, 19));
+  });
+
+  it('leaves past seasons alone when the forecast is dry', () => {
+    const today = new Date(2026, 9, 19);
+    const forecast = makeForecast(today, [0, 0, 0, 0, 0, 0, 0]);
+    const calendar = buildPlantingCalendar({ county: 'Nairobi', today, forecast });
+
+    // The 2025 long and short rains and the 2026 long rains ended months ago
+    expect(calendar.seasons.map((season) => [season.id, season.onset.getFullYear()])).toEqual([
+      ['short_rains', 2026],
+      ['long_rains', 2027],
+      ['short_rains', 2027],
+    ]);
+    calendar.seasons.forEach((season) => expect(season.cessationSource).not.toBe('forecast'));
+    expect(calendar.next?.plantingStart).toEqual(new Date(2026, 9, 26));
+  });
+
+  it('keeps planting windows inside the rains', () => {
+    const calendar = buildPlantingCalendar({ county: 'Turkana', today: new Date(2025, 0, 1) });
+
+    expect(calendar.regime).toBe('arid');
+    calendar.seasons.forEach((season) => {
+      expect(season.reliability).toBe('erratic');
+      expect(season.plantingEnd.getTime()).toBeLessThanOrEqual(season.cessation.getTime());
+    });
+  });
+
+  it('gives western Kenya a long main season', () => {
+    const calendar = buildPlantingCalendar({ county: 'Kakamega', today: new Date(2025, 0, 1) });
+
+    expect(getPlantingMonths(calendar)).toEqual([2, 3, 4, 9]);
+  });
+});
+
+describe('forecast detection', () => {
+  it('finds the onset of a rainy spell', () => {
+    const start = new Date(2025, 9, 1);
+    expect(detectOnset(makeForecast(start, [2, 0, 8, 8, 8, 0]))).toEqual(new Date(2025, 9, 3));
+    expect(detectOnset(makeForecast(start, [5, 5, 5, 0, 0]))).toBeNull();
+  });
+
+  it('finds the start of a long dry run', () => {
+    const start = new Date(2025, 4, 20);
+    expect(detectCessation(makeForecast(start, [6, 0, 0, 0, 0, 0, 3]))).toEqual(new Date(2025, 4, 21));
+    expect(detectCessation(makeForecast(start, [0, 0, 4, 0, 0, 0, 0]))).toBeNull();
+  });
+});
+
+describe('plantingCalendarToIcs', () => {
+  const calendar = buildPlantingCalendar({ county: 'Nyeri', agroZone: 'UM2', today: new Date(2025, 0, 10) });
+
+  it('writes one all-day event per planting window', () => {
+    const ics = plantingCalendarToIcs(calendar, { treeName: 'Grevillea' });
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+    expect(ics).toContain('DTSTART;VALUE=DATE:20250315');
+    // Six weeks of planting, with an exclusive end date
+    expect(ics).toContain('DTEND;VALUE=DATE:20250427');
+    expect(ics).toContain('SUMMARY:Plant Grevillea – Long rains');
+    expect(ics).toContain('TRIGGER:-P3D');
+  });
+
+  it('folds long lines and writes Swahili text', () => {
+    const ics = plantingCalendarToIcs(calendar, { language: 'sw' });
+    const lines = ics.split('\r\n');
+
+    expect(ics).toContain('SUMMARY:Panda miti – Masika');
+    lines.forEach((line) => expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75));
+    expect(lines.some((line) => line.startsWith(' '))).toBe(true);
+  });
+});
@@ -0,0 +1,308 @@
+import { buildIcs, type IcsEvent } from '@/utils/icsCalendar';
+
+/**
+ * Planting calendar for Kenya's rainfall regimes. Most of the country has
+ * two rainy seasons (long rains / Masika and short rains / Vuli), the
+ * western highlands one long season, the coast a later long rains, and the
+ * arid north and east short, erratic windows. Climatological dates are
+ * refined with the 7-day forecast from get-weather-data when it covers an
+ * onset or cessation.
+ */
+
+export type RainfallRegime = 'bimodal' | 'coastal' | 'unimodal_west' | 'arid';
+
+export type SeasonId = 'long_rains' | 'short_rains' | 'main_rains';
+
+export type DateSource = 'climatology' | 'forecast';
+
+export interface PlantingSeason {
+  id: SeasonId;
+  name: { en: string; sw: string };
+  onset: Date;
+  cessation: Date;
+  plantingStart: Date;
+  plantingEnd: Date;
+  reliability: 'reliable' | 'moderate' | 'erratic';
+  onsetSource: DateSource;
+  cessationSource: DateSource;
+}
+
+export interface PlantingCalendar {
+  regime: RainfallRegime;
+  seasons: PlantingSeason[]; // upcoming and current, in date order
+  current: PlantingSeason | null; // planting window open today
+  next: PlantingSeason | null; // next window to open
+}
+
+/**
+ * One day of the get-weather-data forecast (OpenWeather One Call daily)
+ */
+export interface DailyForecast {
+  dt: number; // unix seconds
+  rain?: number; // mm
+}
+
+export const RAINFALL_REGIME_LABELS: Record<RainfallRegime, { en: string; sw: string }> = {
+  bimodal: { en: 'Two rainy seasons', sw: 'Misimu miwili ya mvua' },
+  coastal: { en: 'Coastal rains', sw: 'Mvua za pwani' },
+  unimodal_west: { en: 'One long rainy season', sw: 'Msimu mmoja mrefu wa mvua' },
+  arid: { en: 'Short, erratic rains', sw: 'Mvua fupi zisizotabirika' },
+};
+
+interface SeasonTemplate {
+  id: SeasonId;
+  name: { en: string; sw: string };
+  onset: [number, number]; // [month (0-11), day]
+  cessation: [number, number];
+  plantingWeeks: number; // how long after onset seedlings still establish
+  reliability: PlantingSeason['reliability'];
+}
+
+const LONG_RAINS = { en: 'Long rains', sw: 'Masika' };
+const SHORT_RAINS = { en: 'Short rains', sw: 'Vuli' };
+
+const SEASON_TEMPLATES: Record<RainfallRegime, SeasonTemplate[]> = {
+  bimodal: [
+    { id: 'long_rains', name: LONG_RAINS, onset: [2, 15], cessation: [4, 31], plantingWeeks: 6, reliability: 'reliable' },
+    { id: 'short_rains', name: SHORT_RAINS, onset: [9, 15], cessation: [11, 15], plantingWeeks: 5, reliability: 'reliable' },
+  ],
+  coastal: [
+    { id: 'long_rains', name: LONG_RAINS, onset: [3, 1], cessation: [5, 30], plantingWeeks: 6, reliability: 'reliable' },
+    { id: 'short_rains', name: SHORT_RAINS, onset: [9, 15], cessation: [10, 30], plantingWeeks: 4, reliability: 'moderate' },
+  ],
+  unimodal_west: [
+    { id: 'main_rains', name: { en: 'Main rains', sw: 'Mvua kuu' }, onset: [2, 1], cessation: [8, 30], plantingWeeks: 10, reliability: 'reliable' },
+    { id: 'short_rains', name: SHORT_RAINS, onset: [9, 1], cessation: [10, 30], plantingWeeks: 4, reliability: 'moderate' },
+  ],
+  arid: [
+    { id: 'long_rains', name: LONG_RAINS, onset: [3, 1], cessation: [4, 15], plantingWeeks: 3, reliability: 'erratic' },
+    { id: 'short_rains', name: SHORT_RAINS, onset: [9, 20], cessation: [11, 10], plantingWeeks: 3, reliability: 'erratic' },
+  ],
+};
+
+const COASTAL_COUNTIES = ['Mombasa', 'Kwale', 'Kilifi', 'Lamu'];
+
+// Western highlands and Lake Victoria fringe with one long season
+const UNIMODAL_COUNTIES = [
+  'Bungoma', 'Busia', 'Kakamega', 'Vihiga', 'Trans-Nzoia', 'Uasin Gishu', 'Nandi',
+  'Elgeyo-Marakwet', 'West Pokot', 'Kericho', 'Bomet', 'Kisii', 'Nyamira',
+];
+
+const ARID_COUNTIES = [
+  'Turkana', 'Marsabit', 'Mandera', 'Wajir', 'Garissa', 'Isiolo', 'Samburu', 'Tana River',
+];
+
+// Semi-arid and drier subzones (5-7) only get the short arid windows
+const ARID_SUBZONE = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Onset: first 3 days in a row with at least 20 mm between them
+const ONSET_RAIN_MM = 20;
+const ONSET_DAYS = 3;
+// Cessation: a run of at least 5 days with under 1 mm each
+const DRY_DAY_MM = 1;
+const DRY_RUN_DAYS = 5;
+// How close to a climatological date the forecast is allowed to move it
+const FORECAST_REACH_DAYS = 21;
+
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS);
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+/**
+ * Which rainfall pattern applies to a farm
+ */
+export const getRainfallRegime = (county?: string | null, agroZone?: string | null): RainfallRegime => {
+  const subzone = agroZone ? Number(agroZone.slice(2)) : NaN;
+  if ((county && ARID_COUNTIES.includes(county)) || subzone >= ARID_SUBZONE) return 'arid';
+  if (county && COASTAL_COUNTIES.includes(county)) return 'coastal';
+  if (agroZone?.startsWith('CL')) return 'coastal';
+  if (county && UNIMODAL_COUNTIES.includes(county)) return 'unimodal_west';
+  return 'bimodal';
+};
+
+const seasonFromTemplate = (template: SeasonTemplate, year: number): PlantingSeason => {
+  const onset = new Date(year, template.onset[0], template.onset[1]);
+  // Seasons never wrap the year end, so cessation shares the onset year
+  const cessation = new Date(year, template.cessation[0], template.cessation[1]);
+  return {
+    id: template.id,
+    name: template.name,
+    onset,
+    cessation,
+    plantingStart: onset,
+    plantingEnd: addDays(onset, template.plantingWeeks * 7),
+    reliability: template.reliability,
+    onsetSource: 'climatology',
+    cessationSource: 'climatology',
+  };
+};
+
+const forecastDays = (forecast: DailyForecast[]) =>
+  forecast.map((day) => ({ date: startOfDay(new Date(day.dt * 1000)), rain: day.rain ?? 0 }));
+
+/**
+ * First forecast day that starts a rainy spell meeting the onset definition
+ */
+export const detectOnset = (forecast: DailyForecast[]): Date | null => {
+  const days = forecastDays(forecast);
+  for (let i = 0; i + ONSET_DAYS <= days.length; i++) {
+    const total = days.slice(i, i + ONSET_DAYS).reduce((sum, day) => sum + day.rain, 0);
+    if (total >= ONSET_RAIN_MM && days[i].rain >= DRY_DAY_MM) return days[i].date;
+  }
+  return null;
+};
+
+/**
+ * First forecast day of a dry run long enough to mark the end of the rains
+ */
+export const detectCessation = (forecast: DailyForecast[]): Date | null => {
+  const days = forecastDays(forecast);
+  let runStart = -1;
+  for (let i = 0; i < days.length; i++) {
+    if (days[i].rain < DRY_DAY_MM) {
+      if (runStart === -1) runStart = i;
+      if (i - runStart + 1 >= DRY_RUN_DAYS) return days[runStart].date;
+    } else {
+      runStart = -1;
+    }
+  }
+  return null;
+};
+
+/**
+ * Move a season's onset or cessation to what the forecast shows, when the
+ * forecast window reaches the climatological date
+ */
+const applyForecast = (season: PlantingSeason, forecast: DailyForecast[], today: Date, plantingWeeks: number) => {
+  const days = forecastDays(forecast);
+  if (days.length === 0) return season;
+  const forecastEnd = days[days.length - 1].date;
+  const adjusted = { ...season };
+
+  const nearOnset =
+    today >= addDays(season.onset, -FORECAST_REACH_DAYS) && today <= addDays(season.onset, FORECAST_REACH_DAYS);
+  if (nearOnset) {
+    const onset = detectOnset(forecast);
+    const totalRain = days.reduce((sum, day) => sum + day.rain, 0);
+    if (onset) {
+      adjusted.onset = onset;
+      adjusted.onsetSource = 'forecast';
+    } else if (days.length >= DRY_RUN_DAYS && totalRain < DRY_DAY_MM * days.length && forecastEnd >= season.onset) {
+      // Expected rains have not arrived: no onset before the forecast runs out
+      adjusted.onset = addDays(forecastEnd, 1);
+      adjusted.onsetSource = 'forecast';
+    }
+    adjusted.plantingStart = adjusted.onset;
+    adjusted.plantingEnd = addDays(adjusted.onset, plantingWeeks * 7);
+  }
+
+  // Seasons that ended weeks ago are history, not something a dry spell can end today
+  const nearCessation =
+    today > adjusted.onset &&
+    today >= addDays(season.cessation, -FORECAST_REACH_DAYS) &&
+    today <= addDays(season.cessation, FORECAST_REACH_DAYS);
+  if (nearCessation) {
+    const cessation = detectCessation(forecast);
+    if (cessation && cessation > adjusted.onset) {
+      adjusted.cessation = cessation;
+      adjusted.cessationSource = 'forecast';
+    }
+  }
+
+  // Planting after the rains stop leaves seedlings without water
+  if (adjusted.plantingEnd > adjusted.cessation) {
+    adjusted.plantingEnd = adjusted.cessation;
+  }
+
+  return adjusted;
+};
+
+/**
+ * Current and upcoming planting seasons for a farm in date order, covering about
+ * the next twelve months
+ */
+export const buildPlantingCalendar = ({
+  county,
+  agroZone,
+  forecast,
+  today = new Date(),
+}: {
+  county?: string | null;
+  agroZone?: string | null;
+  forecast?: DailyForecast[] | null;
+  today?: Date;
+}): PlantingCalendar => {
+  const regime = getRainfallRegime(county, agroZone);
+  const day = startOfDay(today);
+  const horizon = addDays(day, 365);
+
+  const seasons: PlantingSeason[] = [];
+  for (const year of [day.getFullYear() - 1, day.getFullYear(), day.getFullYear() + 1]) {
+    for (const template of SEASON_TEMPLATES[regime]) {
+      let season = seasonFromTemplate(template, year);
+      if (forecast && forecast.length > 0) {
+        season = applyForecast(season, forecast, day, template.plantingWeeks);
+      }
+      if (season.cessation >= day && season.onset <= horizon) {
+        seasons.push(season);
+      }
+    }
+  }
+  seasons.sort((a, b) => a.onset.getTime() - b.onset.getTime());
+
+  return {
+    regime,
+    seasons,
+    current: seasons.find((season) => day >= season.plantingStart && day <= season.plantingEnd) ?? null,
+    next: seasons.find((season) => season.plantingStart > day) ?? null,
+  };
+};
+
+/**
+ * Months (0-11) that fall inside any planting window of the calendar
+ */
+export const getPlantingMonths = (calendar: PlantingCalendar): number[] => {
+  const months = new Set<number>();
+  for (const season of calendar.seasons) {
+    for (let date = season.plantingStart; date <= season.plantingEnd; date = addDays(date, 7)) {
+      months.add(date.getMonth());
+    }
+    months.add(season.plantingEnd.getMonth());
+  }
+  return [...months].sort((a, b) => a - b);
+};
+
+const formatDate = (date: Date, language: 'en' | 'sw') =>
+  date.toLocaleDateString(language === 'sw' ? 'sw-KE' : 'en-KE', { day: 'numeric', month: 'long' });
+
+/**
+ * Calendar file with one all-day event per planting window, with a reminder
+ * three days before it opens
+ */
+export const plantingCalendarToIcs = (
+  calendar: PlantingCalendar,
+  { treeName, language = 'en' }: { treeName?: string; language?: 'en' | 'sw' } = {}
+): string => {
+  const events: IcsEvent[] = calendar.seasons.map((season) => {
+    const name = season.name[language];
+    const rainsEnd = formatDate(season.cessation, language);
+    return {
+      uid: `${season.id}-${season.onset.getFullYear()}-${calendar.regime}@leafswipe`,
+      start: season.plantingStart,
+      end: season.plantingEnd,
+      summary: language === 'sw'
+        ? `Panda${treeName ? ` ${treeName}` : ' miti'} – ${name}`
+        : `Plant${treeName ? ` ${treeName}` : ' trees'} – ${name}`,
+      description: language === 'sw'
+        ? `Dirisha la kupanda wakati wa ${name}. Mvua zinatarajiwa kuisha karibu ${rainsEnd}.`
+        : `Planting window for the ${name.toLowerCase()}. Rains are expected to end around ${rainsEnd}.`,
+      reminderDaysBefore: 3,
+    };
+  });
+
+  return buildIcs(events, {
+    name: language === 'sw' ? 'Kalenda ya Kupanda' : 'Planting Calendar',
+  });
+};
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkPlantingLocation,
+  describeLocationIssues,
+  isBlockingLocation,
+  needsJustification,
+  parseLocationCheck,
+} from './plantingGeofence';
+
+const nairobiCbd = { latitude: -1.2864, longitude: 36.8172 };
+
+describe('checkPlantingLocation', () => {
+  it('passes farmland inside Kenya', () => {
+    const check = checkPlantingLocation(nairobiCbd, nairobiCbd);
+    expect(check.county).toBe('Nairobi');
+    expect(check.issues).toEqual([]);
+    expect(check.distanceFromProfileKm).toBe(0);
+    expect(isBlockingLocation(check)).toBe(false);
+    expect(needsJustification(check)).toBe(false);
+  });
+
+  it('blocks points outside Kenya', () => {
+    const check = checkPlantingLocation({ latitude: -6.7924, longitude: 39.2083 });
+    expect(check.issues).toEqual(['outside_kenya']);
+    expect(isBlockingLocation(check)).toBe(true);
+  });
+
+  it.each([
+    ['Shimoni', -4.647, 39.38, 'Kwale'],
+    ['Vanga', -4.66, 39.22, 'Kwale'],
+    ['Moyale', 3.527, 39.056, 'Marsabit'],
+  ])('accepts %s, just outside the simplified outline', (_town, latitude, longitude, county) => {
+    const check = checkPlantingLocation({ latitude, longitude });
+    expect(check.county).toBe(county);
+    expect(check.issues).toEqual([]);
+  });
+
+  it('still blocks towns across the border beyond the tolerance', () => {
+    const check = checkPlantingLocation({ latitude: -5.07, longitude: 39.1 });
+    expect(check.issues).toEqual(['outside_kenya']);
+  });
+
+  it('blocks points in Lake Victoria', () => {
+    const check = checkPlantingLocation({ latitude: -0.8, longitude: 34.0 });
+    expect(check.issues).toContain('in_water');
+    expect(check.waterBody).toBe('Lake Victoria');
+    expect(isBlockingLocation(check)).toBe(true);
+  });
+
+  it('asks for a justification inside a national park', () => {
+    const check = checkPlantingLocation({ latitude: -1.37, longitude: 36.85 });
+    expect(check.issues).toEqual(['protected_area']);
+    expect(check.protectedArea).toEqual({ name: 'Nairobi National Park', kind: 'national_park' });
+    expect(needsJustification(check)).toBe(true);
+  });
+
+  it('leaves southern Nakuru town outside Lake Nakuru National Park', () => {
+    const town = checkPlantingLocation({ latitude: -0.305, longitude: 36.065 });
+    expect(town.county).toBe('Nakuru');
+    expect(town.issues).toEqual([]);
+
+    const park = checkPlantingLocation({ latitude: -0.43, longitude: 36.09 });
+    expect(park.protectedArea).toEqual({ name: 'Lake Nakuru National Park', kind: 'national_park' });
+  });
+
+  it('asks for a justification far from the profile location', () => {
+    const check = checkPlantingLocation(nairobiCbd, { latitude: -0.3031, longitude: 36.08 });
+    expect(check.issues).toEqual(['far_from_profile']);
+    expect(check.distanceFromProfileKm).toBeGreaterThan(100);
+    expect(describeLocationIssues(check)[0]).toMatch(/^Far from the farm location: \d+(\.\d)? km away$/);
+  });
+
+  it('skips the distance check without a profile location', () => {
+    const check = checkPlantingLocation(nairobiCbd, { latitude: null, longitude: null });
+    expect(check.distanceFromProfileKm).toBeNull();
+    expect(check.issues).toEqual([]);
+  });
+});
+
+describe('parseLocationCheck', () => {
+  it('reads a stored check and ignores anything else', () => {
+    const stored = { ...checkPlantingLocation(nairobiCbd) };
+    expect(parseLocationCheck(stored)).toEqual(stored);
+    expect(parseLocationCheck(null)).toBeNull();
+    expect(parseLocationCheck({})).toBeNull();
+    expect(parseLocationCheck([])).toBeNull();
+  });
+});
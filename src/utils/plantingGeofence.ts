@@ -0,0 +1,106 @@
+import type { Json } from '@/integrations/supabase/types';
+import { distanceMeters } from '@/utils/kenyaLocation';
+import {
+  findCountyNear,
+  findProtectedAreaAt,
+  findWaterBodyAt,
+  type RestrictedAreaKind,
+} from '@/utils/kenyaBoundaries';
+
+/**
+ * Geofence checks for planting coordinates
+ *
+ * Range validation alone let plantings land in Lake Victoria or outside
+ * Kenya. A point must be inside Kenya and not in open water; points inside a
+ * gazetted park, reserve or forest, or far from the farmer's profile
+ * location, need a written justification. The result is stored on the
+ * verification (location_checks) for moderators.
+ */
+
+// Matches the far_from_profile risk flag raised by the database
+export const JUSTIFICATION_DISTANCE_KM = 50;
+
+// Points this close to the bundled Kenya outline count as inside it; the
+// outline is simplified and cuts off towns on the coast and the borders
+export const BORDER_TOLERANCE_KM = 5;
+
+export type LocationIssue = 'outside_kenya' | 'in_water' | 'protected_area' | 'far_from_profile';
+
+export interface LocationCheck {
+  county: string | null;
+  waterBody: string | null;
+  protectedArea: { name: string; kind: RestrictedAreaKind } | null;
+  distanceFromProfileKm: number | null;
+  issues: LocationIssue[];
+}
+
+// Issues that stop a submission outright
+const BLOCKING_ISSUES: LocationIssue[] = ['outside_kenya', 'in_water'];
+
+export const LOCATION_ISSUE_LABELS: Record<LocationIssue, string> = {
+  outside_kenya: 'Outside Kenya',
+  in_water: 'In a lake or reservoir',
+  protected_area: 'Inside a protected area',
+  far_from_profile: 'Far from the farm location',
+};
+
+export const checkPlantingLocation = (
+  point: { latitude: number; longitude: number },
+  profile?: { latitude?: number | null; longitude?: number | null } | null
+): LocationCheck => {
+  const county = findCountyNear(point.latitude, point.longitude, BORDER_TOLERANCE_KM)?.name ?? null;
+  const waterBody = county ? findWaterBodyAt(point.latitude, point.longitude)?.name ?? null : null;
+  const protectedArea = county ? findProtectedAreaAt(point.latitude, point.longitude) : null;
+  const distanceFromProfileKm =
+    profile?.latitude != null && profile?.longitude != null
+      ? Math.round(distanceMeters(point, { latitude: profile.latitude, longitude: profile.longitude }) / 100) / 10
+      : null;
+
+  const issues: LocationIssue[] = [];
+  if (!county) issues.push('outside_kenya');
+  if (waterBody) issues.push('in_water');
+  if (protectedArea) issues.push('protected_area');
+  if (distanceFromProfileKm !== null && distanceFromProfileKm > JUSTIFICATION_DISTANCE_KM) {
+    issues.push('far_from_profile');
+  }
+
+  return {
+    county,
+    waterBody,
+    protectedArea: protectedArea ? { name: protectedArea.name, kind: protectedArea.kind } : null,
+    distanceFromProfileKm,
+    issues,
+  };
+};
+
+export const isBlockingLocation = (check: LocationCheck) =>
+  check.issues.some((issue) => BLOCKING_ISSUES.includes(issue));
+
+export const needsJustification = (check: LocationCheck) =>
+  !isBlockingLocation(check) && check.issues.length > 0;
+
+/**
+ * One line per issue, for the farmer and for moderators
+ */
+export const describeLocationIssues = (check: LocationCheck): string[] =>
+  check.issues.map((issue) => {
+    switch (issue) {
+      case 'in_water':
+        return `${LOCATION_ISSUE_LABELS[issue]}: ${check.waterBody}`;
+      case 'protected_area':
+        return `${LOCATION_ISSUE_LABELS[issue]}: ${check.protectedArea?.name}`;
+      case 'far_from_profile':
+        return `${LOCATION_ISSUE_LABELS[issue]}: ${check.distanceFromProfileKm} km away`;
+      default:
+        return LOCATION_ISSUE_LABELS[issue];
+    }
+  });
+
+/**
+ * location_checks as stored, or null for submissions made before the
+ * geofence existed
+ */
+export const parseLocationCheck = (value: Json | null | undefined): LocationCheck | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value) || !Array.isArray(value.issues)) return null;
+  return value as unknown as LocationCheck;
+};
@@ -0,0 +1,109 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { logger } from "@/utils/logger";
+import { sanitizeString } from "@/utils/validation";
+import { detectAgroZone } from "@/utils/agroZoneClassifier";
+import { findCountyAt } from "@/utils/kenyaBoundaries";
+import {
+  parsePlotPolygon,
+  polygonAreaHectares,
+  polygonCentroid,
+  toPlotPolygon,
+  type FarmPlot,
+  type LatLng,
+} from "@/utils/farmPlots";
+
+/** A planting counted against a plot's capacity */
+export interface PlotPlanting {
+  id: string;
+  plot_id: string;
+  tree_id: number | null;
+}
+
+type PlotRow = Omit<FarmPlot, 'boundary'> & { boundary: Json };
+
+const toFarmPlot = (row: PlotRow): FarmPlot | null => {
+  const boundary = parsePlotPolygon(row.boundary);
+  return boundary ? { ...row, boundary } : null;
+};
+
+const PLOT_COLUMNS = 'id, name, boundary, area_hectares, centroid_latitude, centroid_longitude, county, agro_zone';
+
+export const fetchPlots = async (userId: string): Promise<FarmPlot[]> => {
+  const { data, error } = await supabase
+    .from('plots')
+    .select(PLOT_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data ?? []).map(toFarmPlot).filter((plot): plot is FarmPlot => plot !== null);
+};
+
+/**
+ * Save a drawn boundary as a plot. Area and centre are computed here; county
+ * and agro-zone come from the centre, and a plot whose agro-zone can't be
+ * worked out falls back to the profile's when it is scored.
+ */
+export const createPlot = async (userId: string, name: string, points: LatLng[]): Promise<FarmPlot> => {
+  const centroid = polygonCentroid(points);
+  const county = findCountyAt(centroid.latitude, centroid.longitude)?.name ?? null;
+
+  let agroZone: string | null = null;
+  try {
+    agroZone = (await detectAgroZone({ ...centroid, county })).zone;
+  } catch (error) {
+    logger.error('Error detecting plot agro-zone:', error);
+  }
+
+  const { data, error } = await supabase
+    .from('plots')
+    .insert({
+      user_id: userId,
+      name: sanitizeString(name.trim()),
+      boundary: toPlotPolygon(points) as unknown as Json,
+      area_hectares: Number(polygonAreaHectares(points).toFixed(4)),
+      centroid_latitude: centroid.latitude,
+      centroid_longitude: centroid.longitude,
+      county,
+      agro_zone: agroZone,
+    })
+    .select(PLOT_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return toFarmPlot(data)!;
+};
+
+/**
+ * Delete a plot; its matches and plantings stay, detached from it
+ */
+export const deletePlot = async (plotId: string): Promise<void> => {
+  const { error } = await supabase.from('plots').delete().eq('id', plotId);
+  if (error) throw error;
+};
+
+export const assignMatchToPlot = async (matchId: string, plotId: string | null): Promise<void> => {
+  const { error } = await supabase.from('tree_matches').update({ plot_id: plotId }).eq('id', matchId);
+  if (error) throw error;
+};
+
+/**
+ * The user's plantings on a plot that weren't rejected, with the species
+ * of the match they were for when known
+ */
+export const fetchPlotPlantings = async (userId: string): Promise<PlotPlanting[]> => {
+  const { data, error } = await supabase
+    .from('planting_verifications')
+    .select('id, plot_id, tree_match:tree_matches(tree_id)')
+    .eq('user_id', userId)
+    .not('plot_id', 'is', null)
+    .neq('status', 'rejected');
+
+  if (error) throw error;
+  return (data ?? []).map((row) => ({
+    id: row.id,
+    plot_id: row.plot_id!,
+    tree_id: row.tree_match?.tree_id ?? null,
+  }));
+};
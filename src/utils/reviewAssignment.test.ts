@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  claimedByOther,
+  formatSla,
+  isOverdue,
+  reviewerThroughput,
+  slaStatus,
+  type ReviewedVerification,
+} from './reviewAssignment';
+
+const now = new Date('2025-12-14T12:00:00Z').getTime();
+
+describe('slaStatus', () => {
+  it('counts down 72 hours from submission', () => {
+    const sla = slaStatus({ status: 'pending', created_at: '2025-12-13T12:00:00Z' }, now);
+    expect(sla?.hoursLeft).toBe(48);
+    expect(sla?.overdue).toBe(false);
+    expect(formatSla(sla!)).toBe('Due in 2d');
+  });
+
+  it('reports overdue submissions', () => {
+    const late = { status: 'pending', created_at: '2025-12-10T09:00:00Z' };
+    expect(isOverdue(late, now)).toBe(true);
+    expect(formatSla(slaStatus(late, now)!)).toBe('Overdue by 1d 3h');
+  });
+
+  it('stops once the submission is decided', () => {
+    expect(slaStatus({ status: 'verified', created_at: '2025-12-01T00:00:00Z' }, now)).toBeNull();
+    expect(isOverdue({ status: 'rejected', created_at: '2025-12-01T00:00:00Z' }, now)).toBe(false);
+  });
+});
+
+describe('claimedByOther', () => {
+  const claim = { status: 'pending', claimed_by: 'moderator-1', claimed_at: '2025-12-14T11:50:00Z' };
+
+  it('locks the submission for other reviewers', () => {
+    expect(claimedByOther(claim, 'moderator-2', now)).toBe(true);
+    expect(claimedByOther(claim, 'moderator-1', now)).toBe(false);
+  });
+
+  it('lets lapsed claims go', () => {
+    expect(claimedByOther({ ...claim, claimed_at: '2025-12-14T11:00:00Z' }, 'moderator-2', now)).toBe(false);
+  });
+});
+
+describe('reviewerThroughput', () => {
+  const decision = (overrides: Partial<ReviewedVerification>): ReviewedVerification => ({
+    status: 'verified',
+    created_at: '2025-12-10T00:00:00Z',
+    verified_at: '2025-12-11T00:00:00Z',
+    verified_by: 'moderator-1',
+    verifier_name: 'Wanjiru',
+    ...overrides,
+  });
+
+  it('summarises each reviewer since the given date', () => {
+    const rows = [
+      decision({}),
+      decision({ status: 'rejected', verified_at: '2025-12-14T00:00:00Z' }),
+      decision({ verified_by: 'moderator-2', verifier_name: 'Otieno' }),
+      decision({ verified_at: '2025-11-01T00:00:00Z' }),
+      decision({ status: 'pending', verified_at: null, verified_by: null }),
+    ];
+
+    expect(reviewerThroughput(rows, new Date('2025-12-01T00:00:00Z'))).toEqual([
+      {
+        reviewerId: 'moderator-1',
+        name: 'Wanjiru',
+        decisions: 2,
+        approved: 1,
+        rejected: 1,
+        medianHours: 60,
+        withinSlaPercent: 50,
+      },
+      {
+        reviewerId: 'moderator-2',
+        name: 'Otieno',
+        decisions: 1,
+        approved: 1,
+        rejected: 0,
+        medianHours: 24,
+        withinSlaPercent: 100,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Reviewer assignment, claims and the review SLA
+ *
+ * Pending submissions are assigned round robin to the moderators of their
+ * county, and a reviewer claims a submission while they review it
+ * (claim_verification). Claims lapse after CLAIM_TIMEOUT_MINUTES, matching
+ * verification_claim_timeout() in the database. Every submission should be
+ * decided within REVIEW_SLA_HOURS of being submitted.
+ */
+
+export const REVIEW_SLA_HOURS = 72;
+export const CLAIM_TIMEOUT_MINUTES = 30;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface ClaimableVerification {
+  status: string;
+  claimed_by: string | null;
+  claimed_at: string | null;
+}
+
+export interface SlaStatus {
+  dueAt: Date;
+  /** Negative once the submission is overdue */
+  hoursLeft: number;
+  overdue: boolean;
+}
+
+/**
+ * Time left to decide a pending submission; null once it is decided
+ */
+export const slaStatus = (
+  verification: { status: string; created_at: string },
+  now: number = Date.now()
+): SlaStatus | null => {
+  if (verification.status !== 'pending') return null;
+
+  const dueAt = new Date(new Date(verification.created_at).getTime() + REVIEW_SLA_HOURS * HOUR_MS);
+  const hoursLeft = (dueAt.getTime() - now) / HOUR_MS;
+  return { dueAt, hoursLeft, overdue: hoursLeft < 0 };
+};
+
+export const isOverdue = (verification: { status: string; created_at: string }, now: number = Date.now()) =>
+  slaStatus(verification, now)?.overdue ?? false;
+
+const formatHours = (hours: number) => {
+  const whole = Math.floor(hours);
+  if (whole < 1) return '<1h';
+  if (whole < 24) return `${whole}h`;
+  const days = Math.floor(whole / 24);
+  const rest = whole % 24;
+  return rest > 0 ? `${days}d ${rest}h` : `${days}d`;
+};
+
+/**
+ * e.g. "Due in 5h" or "Overdue by 1d 3h"
+ */
+export const formatSla = (sla: SlaStatus): string =>
+  sla.overdue ? `Overdue by ${formatHours(-sla.hoursLeft)}` : `Due in ${formatHours(sla.hoursLeft)}`;
+
+/**
+ * Whether someone other than this reviewer holds a live claim
+ */
+export const claimedByOther = (
+  verification: ClaimableVerification,
+  reviewerId: string | undefined,
+  now: number = Date.now()
+): boolean =>
+  verification.status === 'pending' &&
+  !!verification.claimed_by &&
+  verification.claimed_by !== reviewerId &&
+  !!verification.claimed_at &&
+  now - new Date(verification.claimed_at).getTime() < CLAIM_TIMEOUT_MINUTES * 60 * 1000;
+
+export interface ReviewedVerification {
+  status: string;
+  created_at: string;
+  verified_at: string | null;
+  verified_by: string | null;
+  verifier_name: string | null;
+}
+
+export interface ReviewerThroughput {
+  reviewerId: string;
+  name: string;
+  decisions: number;
+  approved: number;
+  rejected: number;
+  /** Median hours from submission to decision */
+  medianHours: number;
+  /** Share of decisions made within the SLA, 0-100 */
+  withinSlaPercent: number;
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Decisions per reviewer since a date, busiest first
+ */
+export const reviewerThroughput = (verifications: ReviewedVerification[], since: Date): ReviewerThroughput[] => {
+  const byReviewer = new Map<string, { name: string; approved: number; rejected: number; hours: number[] }>();
+
+  for (const v of verifications) {
+    if (!v.verified_by || !v.verified_at || v.status === 'pending') continue;
+    if (new Date(v.verified_at) < since) continue;
+
+    const entry = byReviewer.get(v.verified_by) ?? {
+      name: v.verifier_name || 'Unknown reviewer',
+      approved: 0,
+      rejected: 0,
+      hours: [],
+    };
+    if (v.status === 'verified') entry.approved++;
+    if (v.status === 'rejected') entry.rejected++;
+    entry.hours.push((new Date(v.verified_at).getTime() - new Date(v.created_at).getTime()) / HOUR_MS);
+    byReviewer.set(v.verified_by, entry);
+  }
+
+  return [...byReviewer.entries()]
+    .map(([reviewerId, entry]) => ({
+      reviewerId,
+      name: entry.name,
+      decisions: entry.hours.length,
+      approved: entry.approved,
+      rejected: entry.rejected,
+      medianHours: Math.round(median(entry.hours) * 10) / 10,
+      withinSlaPercent: Math.round(
+        (entry.hours.filter((hours) => hours <= REVIEW_SLA_HOURS).length / entry.hours.length) * 100
+      ),
+    }))
+    .sort((a, b) => b.decisions - a.decisions);
+};
@@ -0,0 +1,35 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface ClaimHolder {
+  holder_id: string | null;
+  holder_name: string | null;
+  held_since: string | null;
+}
+
+/**
+ * Claim a pending submission for review. Returns whoever holds the claim
+ * afterwards, which is someone else when their claim is still live.
+ */
+export const claimVerification = async (verificationId: string): Promise<ClaimHolder> => {
+  const { data, error } = await supabase.rpc('claim_verification', { _verification_id: verificationId });
+
+  if (error) throw error;
+  return data?.[0] ?? { holder_id: null, holder_name: null, held_since: null };
+};
+
+export const releaseVerification = async (verificationId: string): Promise<void> => {
+  const { error } = await supabase.rpc('release_verification', { _verification_id: verificationId });
+
+  if (error) throw error;
+};
+
+/**
+ * Assign unowned pending submissions round robin (admin only).
+ * Returns how many were assigned.
+ */
+export const autoAssignVerifications = async (): Promise<number> => {
+  const { data, error } = await supabase.rpc('auto_assign_verifications');
+
+  if (error) throw error;
+  return data ?? 0;
+};
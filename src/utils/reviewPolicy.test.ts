@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import {
+  approvalStep,
+  DEFAULT_REVIEW_POLICY,
+  requiresSecondReview,
+  reviewStage,
+  type ReviewableVerification,
+} from './reviewPolicy';
+
+const verification = (overrides: Partial<ReviewableVerification> = {}): ReviewableVerification => ({
+  status: 'pending',
+  risk_score: 0,
+  first_reviewed_by: null,
+  escalated_at: null,
+  ...overrides,
+});
+
+const moderator = { id: 'moderator-1', isAdmin: false };
+const admin = { id: 'admin-1', isAdmin: true };
+
+describe('reviewStage', () => {
+  it('follows a submission through the review', () => {
+    expect(reviewStage(verification())).toBe('first_review');
+    expect(reviewStage(verification({ first_reviewed_by: 'moderator-1' }))).toBe('second_review');
+    expect(reviewStage(verification({ escalated_at: '2025-12-13T09:00:00Z' }))).toBe('escalated');
+    expect(reviewStage(verification({ status: 'verified', first_reviewed_by: 'moderator-1' }))).toBe('decided');
+  });
+});
+
+describe('requiresSecondReview', () => {
+  it('applies to high rewards and flagged submissions', () => {
+    expect(requiresSecondReview(verification(), 150, DEFAULT_REVIEW_POLICY)).toBe(false);
+    expect(requiresSecondReview(verification(), 500, DEFAULT_REVIEW_POLICY)).toBe(true);
+    expect(requiresSecondReview(verification({ risk_score: 20 }), 150, DEFAULT_REVIEW_POLICY)).toBe(true);
+  });
+
+  it('can be turned off', () => {
+    expect(requiresSecondReview(verification({ risk_score: 20 }), 900, { ...DEFAULT_REVIEW_POLICY, enabled: false })).toBe(false);
+    expect(
+      requiresSecondReview(verification({ risk_score: 20 }), 150, { ...DEFAULT_REVIEW_POLICY, second_review_when_flagged: false })
+    ).toBe(false);
+  });
+});
+
+describe('approvalStep', () => {
+  it('approves ordinary submissions in one step', () => {
+    expect(approvalStep(verification(), 150, DEFAULT_REVIEW_POLICY, moderator)).toEqual({ kind: 'approve' });
+  });
+
+  it('needs two different reviewers for flagged submissions', () => {
+    const flagged = verification({ risk_score: 40 });
+    expect(approvalStep(flagged, 150, DEFAULT_REVIEW_POLICY, moderator)).toEqual({ kind: 'first_review' });
+
+    const reviewedOnce = { ...flagged, first_reviewed_by: moderator.id };
+    expect(approvalStep(reviewedOnce, 150, DEFAULT_REVIEW_POLICY, moderator).kind).toBe('blocked');
+    expect(approvalStep(reviewedOnce, 150, DEFAULT_REVIEW_POLICY, { id: 'moderator-2', isAdmin: false })).toEqual({ kind: 'approve' });
+  });
+
+  it('leaves escalated submissions to admins, whose decision is final', () => {
+    const escalated = verification({ risk_score: 40, escalated_at: '2025-12-13T09:00:00Z' });
+    expect(approvalStep(escalated, 900, DEFAULT_REVIEW_POLICY, moderator)).toEqual({
+      kind: 'blocked',
+      reason: 'Escalated to an admin',
+    });
+    expect(approvalStep(escalated, 900, DEFAULT_REVIEW_POLICY, admin)).toEqual({ kind: 'approve' });
+  });
+});
@@ -0,0 +1,89 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+/**
+ * Two-stage review
+ *
+ * Submissions whose reward reaches the policy threshold, or that carry fraud
+ * flags, need two approvals from different reviewers before they are
+ * verified and paid. Moderators can escalate a pending submission to the
+ * admins, who then make the final decision. The database enforces the same
+ * rules (enforce_review_policy); these helpers let the queue show the stage
+ * and take the right step.
+ */
+
+export type ReviewPolicy = Pick<
+  Tables<'verification_review_policy'>,
+  'enabled' | 'second_review_min_reward' | 'second_review_when_flagged'
+>;
+
+export const DEFAULT_REVIEW_POLICY: ReviewPolicy = {
+  enabled: true,
+  second_review_min_reward: 500,
+  second_review_when_flagged: true,
+};
+
+export interface ReviewableVerification {
+  status: string;
+  risk_score: number;
+  first_reviewed_by: string | null;
+  escalated_at: string | null;
+}
+
+export type ReviewStage = 'first_review' | 'second_review' | 'escalated' | 'decided';
+
+export const REVIEW_STAGE_LABELS: Record<ReviewStage, string> = {
+  first_review: 'Awaiting review',
+  second_review: 'Awaiting 2nd review',
+  escalated: 'Escalated',
+  decided: 'Decided',
+};
+
+export const reviewStage = (verification: ReviewableVerification): ReviewStage => {
+  if (verification.status !== 'pending') return 'decided';
+  if (verification.escalated_at) return 'escalated';
+  return verification.first_reviewed_by ? 'second_review' : 'first_review';
+};
+
+export const requiresSecondReview = (
+  verification: Pick<ReviewableVerification, 'risk_score'>,
+  rewardAmount: number,
+  policy: ReviewPolicy
+): boolean =>
+  policy.enabled &&
+  (rewardAmount >= Number(policy.second_review_min_reward) ||
+    (policy.second_review_when_flagged && verification.risk_score > 0));
+
+export type ApprovalStep =
+  | { kind: 'approve' }
+  | { kind: 'first_review' }
+  | { kind: 'blocked'; reason: string };
+
+/**
+ * What approving a submission does for this reviewer: verify and pay it,
+ * record a first approval, or nothing
+ */
+export const approvalStep = (
+  verification: ReviewableVerification,
+  rewardAmount: number,
+  policy: ReviewPolicy,
+  reviewer: { id: string | undefined; isAdmin: boolean }
+): ApprovalStep => {
+  if (verification.status === 'verified') {
+    return { kind: 'blocked', reason: 'Already verified' };
+  }
+  if (verification.status === 'pending' && verification.escalated_at) {
+    return reviewer.isAdmin
+      ? { kind: 'approve' }
+      : { kind: 'blocked', reason: 'Escalated to an admin' };
+  }
+  if (!requiresSecondReview(verification, rewardAmount, policy)) {
+    return { kind: 'approve' };
+  }
+  if (!verification.first_reviewed_by) {
+    return { kind: 'first_review' };
+  }
+  if (verification.first_reviewed_by === reviewer.id) {
+    return { kind: 'blocked', reason: 'You gave the first approval; another reviewer must approve' };
+  }
+  return { kind: 'approve' };
+};
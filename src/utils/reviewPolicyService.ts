@@ -0,0 +1,73 @@
+import { supabase } from "@/integrations/supabase/client";
+import { approveWithReward } from "@/utils/rewardRulesService";
+import type { RewardEvaluation } from "@/utils/rewardRules";
+import { approvalStep, type ReviewableVerification, type ReviewPolicy } from "@/utils/reviewPolicy";
+
+export const fetchReviewPolicy = async (): Promise<ReviewPolicy | null> => {
+  const { data, error } = await supabase
+    .from('verification_review_policy')
+    .select('*')
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Update the review policy (admin only, enforced by RLS)
+ */
+export const saveReviewPolicy = async (policy: ReviewPolicy): Promise<void> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  const { error } = await supabase
+    .from('verification_review_policy')
+    .update({
+      enabled: policy.enabled,
+      second_review_min_reward: policy.second_review_min_reward,
+      second_review_when_flagged: policy.second_review_when_flagged,
+      updated_by: user?.id,
+    })
+    .eq('id', true);
+
+  if (error) throw error;
+};
+
+/**
+ * Hand a pending submission to the admins
+ */
+export const escalateVerification = async (verificationId: string, note: string): Promise<void> => {
+  const { error } = await supabase
+    .from('planting_verifications')
+    .update({ escalated_at: new Date().toISOString(), escalation_note: note })
+    .eq('id', verificationId);
+
+  if (error) throw error;
+};
+
+/**
+ * Approve a submission as the policy allows: verify and pay it, or record
+ * this reviewer's first approval. Throws when this reviewer can't approve.
+ */
+export const approveUnderPolicy = async (
+  verification: ReviewableVerification & { id: string },
+  evaluation: RewardEvaluation,
+  policy: ReviewPolicy,
+  reviewer: { id: string | undefined; isAdmin: boolean }
+): Promise<'approved' | 'first_review'> => {
+  const step = approvalStep(verification, evaluation.amount, policy, reviewer);
+
+  if (step.kind === 'blocked') {
+    throw new Error(step.reason);
+  }
+  if (step.kind === 'first_review') {
+    const { error } = await supabase
+      .from('planting_verifications')
+      .update({ first_reviewed_by: reviewer.id })
+      .eq('id', verification.id);
+
+    if (error) throw error;
+    return 'first_review';
+  }
+
+  await approveWithReward(verification.id, reviewer.id);
+  return 'approved';
+};
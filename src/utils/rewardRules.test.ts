@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { KENYAN_TREES } from '@/data/kenya';
+import {
+  evaluateReward,
+  evaluateRewardBatch,
+  resolveSpeciesSlug,
+  type RewardCampaign,
+  type RewardRule,
+} from './rewardRules';
+
+const rule = (overrides: Partial<RewardRule>): RewardRule => ({
+  id: overrides.name ?? 'rule',
+  name: 'rule',
+  kind: 'base_amount',
+  amount: null,
+  multiplier: null,
+  survival_months: null,
+  species_slugs: [],
+  counties: [],
+  campaign_id: null,
+  is_active: true,
+  created_at: null,
+  created_by: null,
+  updated_at: null,
+  ...overrides,
+});
+
+const campaign = (overrides: Partial<RewardCampaign>): RewardCampaign => ({
+  id: 'campaign-1',
+  name: 'Mau Restoration',
+  description: null,
+  budget: 1000,
+  starts_on: '2025-10-01',
+  ends_on: '2025-12-31',
+  counties: [],
+  species_slugs: [],
+  is_active: true,
+  created_at: null,
+  created_by: null,
+  updated_at: null,
+  ...overrides,
+});
+
+const RULES: RewardRule[] = [
+  rule({ name: 'Standard', kind: 'base_amount', amount: 100 }),
+  rule({ name: 'Croton rate', kind: 'base_amount', amount: 120, species_slugs: ['croton'] }),
+  rule({ name: 'Indigenous', kind: 'multiplier', multiplier: 1.5, species_slugs: ['acacia', 'croton'] }),
+  rule({ name: 'Water towers', kind: 'multiplier', multiplier: 1.25, counties: ['Nyeri', 'Nakuru'] }),
+  rule({ name: '6-month survival', kind: 'survival_bonus', amount: 50, survival_months: 6 }),
+  rule({ name: 'Monthly cap', kind: 'monthly_cap', amount: 500 }),
+];
+
+const context = { earnedThisMonth: 0, campaignSpend: {}, approvedAt: new Date('2025-11-15T09:00:00Z') };
+const submission = { speciesSlug: 'mango', county: 'Machakos', plantingDate: '2025-11-10' };
+
+describe('evaluateReward', () => {
+  it('pays the standard amount when nothing else applies', () => {
+    const result = evaluateReward(submission, RULES, [], context);
+
+    expect(result.amount).toBe(100);
+    expect(result.lines).toHaveLength(1);
+    expect(result.campaignId).toBeNull();
+  });
+
+  it('prefers the species rate and stacks every matching multiplier', () => {
+    const result = evaluateReward({ ...submission, speciesSlug: 'croton', county: 'Nyeri' }, RULES, [], context);
+
+    // 120 × 1.5 × 1.25 = 225
+    expect(result.amount).toBe(225);
+    expect(result.lines.map((line) => line.label)).toEqual(['Croton rate', 'Indigenous', 'Water towers']);
+  });
+
+  it('pays only the survival bonus for re-verifications', () => {
+    const result = evaluateReward({ ...submission, survivalMonths: 6 }, RULES, [], context);
+
+    expect(result.amount).toBe(50);
+    expect(result.lines[0].kind).toBe('survival_bonus');
+  });
+
+  it('limits the reward to what is left under the monthly cap', () => {
+    const result = evaluateReward(submission, RULES, [], { ...context, earnedThisMonth: 460 });
+
+    expect(result.amount).toBe(40);
+    expect(result.lines.at(-1)).toMatchObject({ kind: 'monthly_cap', amountAfter: 40 });
+  });
+
+  it('ignores inactive rules', () => {
+    const rules = RULES.map((r) => (r.name === 'Standard' ? { ...r, is_active: false } : r));
+
+    expect(evaluateReward(submission, rules, [], context).amount).toBe(0);
+  });
+
+  it('charges campaign rewards to the campaign budget', () => {
+    const campaigns = [campaign({ counties: ['Machakos'] })];
+    const rules = [...RULES, rule({ name: 'Campaign rate', kind: 'base_amount', amount: 300, campaign_id: 'campaign-1' })];
+
+    const funded = evaluateReward(submission, rules, campaigns, context);
+    expect(funded).toMatchObject({ amount: 300, campaignId: 'campaign-1' });
+
+    const nearlySpent = evaluateReward(submission, rules, campaigns, { ...context, campaignSpend: { 'campaign-1': 900 } });
+    expect(nearlySpent).toMatchObject({ amount: 100, campaignId: 'campaign-1' });
+    expect(nearlySpent.lines.at(-1)?.kind).toBe('campaign_budget');
+
+    // An exhausted campaign no longer funds anything; standing rules apply
+    const spent = evaluateReward(submission, rules, campaigns, { ...context, campaignSpend: { 'campaign-1': 1000 } });
+    expect(spent).toMatchObject({ amount: 100, campaignId: null });
+  });
+
+  it('only uses campaigns covering the planting date', () => {
+    const rules = [...RULES, rule({ name: 'Campaign rate', kind: 'base_amount', amount: 300, campaign_id: 'campaign-1' })];
+
+    const result = evaluateReward({ ...submission, plantingDate: '2025-09-20' }, rules, [campaign({})], context);
+
+    expect(result).toMatchObject({ amount: 100, campaignId: null });
+  });
+});
+
+describe('evaluateRewardBatch', () => {
+  it('counts earlier approvals in the batch towards the cap', () => {
+    const farmer = { ...submission, userId: 'farmer-1' };
+
+    const results = evaluateRewardBatch(
+      [farmer, farmer, { ...farmer, userId: 'farmer-2' }],
+      RULES,
+      [],
+      { earnedThisMonth: { 'farmer-1': 350 }, campaignSpend: {}, approvedAt: context.approvedAt }
+    );
+
+    expect(results.map((r) => r.amount)).toEqual([100, 50, 100]);
+  });
+});
+
+describe('resolveSpeciesSlug', () => {
+  it('matches English and Swahili names case-insensitively', () => {
+    expect(resolveSpeciesSlug('Mango', KENYAN_TREES)).toBe('mango');
+    expect(resolveSpeciesSlug('muembe', KENYAN_TREES)).toBe('mango');
+    expect(resolveSpeciesSlug('Baobab', KENYAN_TREES)).toBeNull();
+  });
+});
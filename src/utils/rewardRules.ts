@@ -0,0 +1,217 @@
+import type { Tables } from '@/integrations/supabase/types';
+import type { KenyanTreeSpecies } from '@/data/kenya';
+
+/**
+ * Reward rules evaluator
+ *
+ * Turns the admin-configured reward_rules and reward_campaigns into the
+ * amount a verified submission earns, with a line-by-line breakdown that is
+ * shown to reviewers and stored on the verification:
+ *
+ * 1. Pick the campaign funding the submission, if any has budget left
+ * 2. Base amount (or survival bonus for re-verifications): most specific rule wins
+ * 3. Every matching multiplier is applied
+ * 4. The farmer's monthly cap and the campaign's remaining budget limit the total
+ *
+ * This is the reviewer's preview. The database repeats the same steps when
+ * the approval is saved and pays its own figure
+ * (supabase/migrations/20251219_evaluate_rewards_in_database.sql).
+ */
+
+export type RewardRule = Tables<'reward_rules'>;
+export type RewardCampaign = Tables<'reward_campaigns'>;
+
+export type RewardRuleKind = 'base_amount' | 'multiplier' | 'survival_bonus' | 'monthly_cap';
+
+export const REWARD_RULE_KINDS: RewardRuleKind[] = ['base_amount', 'multiplier', 'survival_bonus', 'monthly_cap'];
+
+// Survival check-ins that can earn a bonus; the 3-month check-in does not
+export const SURVIVAL_CHECK_MONTHS = [6, 12] as const;
+
+export type SurvivalCheckMonths = typeof SURVIVAL_CHECK_MONTHS[number];
+
+export interface RewardSubmission {
+  speciesSlug: string | null;
+  county: string | null;
+  plantingDate: string | null;
+  // Set for survival re-verifications, which earn the bonus instead of the base amount
+  survivalMonths?: SurvivalCheckMonths;
+}
+
+export interface RewardContext {
+  // Already rewarded to this farmer in the calendar month of approval
+  earnedThisMonth: number;
+  // Amount each campaign has paid out, by campaign id
+  campaignSpend: Record<string, number>;
+  approvedAt: Date;
+}
+
+export interface RewardLine {
+  ruleId: string | null;
+  kind: RewardRuleKind | 'campaign_budget';
+  label: string;
+  detail: string;
+  amountAfter: number;
+}
+
+export interface RewardEvaluation {
+  amount: number;
+  campaignId: string | null;
+  campaignName: string | null;
+  lines: RewardLine[];
+}
+
+const formatKsh = (amount: number) => `KSh ${amount.toLocaleString()}`;
+
+const toDateKey = (date: Date) => date.toISOString().slice(0, 10);
+
+const matchesScope = (
+  scope: { species_slugs: string[]; counties: string[] },
+  submission: RewardSubmission
+) =>
+  (scope.species_slugs.length === 0 || (!!submission.speciesSlug && scope.species_slugs.includes(submission.speciesSlug))) &&
+  (scope.counties.length === 0 || (!!submission.county && scope.counties.includes(submission.county)));
+
+// Campaign rules beat standing rules, species beats county, county beats "any"
+const specificity = (rule: RewardRule) =>
+  (rule.campaign_id ? 4 : 0) + (rule.species_slugs.length > 0 ? 2 : 0) + (rule.counties.length > 0 ? 1 : 0);
+
+const mostSpecific = (rules: RewardRule[]): RewardRule | undefined =>
+  [...rules].sort((a, b) => specificity(b) - specificity(a) || Number(b.amount) - Number(a.amount))[0];
+
+/**
+ * Match a submission's free-text tree name to a catalog slug
+ */
+export const resolveSpeciesSlug = (treeName: string | null, species: KenyanTreeSpecies[]): string | null => {
+  if (!treeName) return null;
+  const name = treeName.trim().toLowerCase();
+  const match = species.find((tree) =>
+    [tree.id, tree.englishName, tree.swahiliName].some((value) => value.toLowerCase() === name)
+  );
+  return match?.id ?? null;
+};
+
+/**
+ * The campaign that pays for a submission: active, covering the planting
+ * date and scope, with budget left. The one ending soonest is used first.
+ */
+export const findFundingCampaign = (
+  submission: RewardSubmission,
+  campaigns: RewardCampaign[],
+  context: RewardContext
+): RewardCampaign | null => {
+  const day = submission.plantingDate?.slice(0, 10) ?? toDateKey(context.approvedAt);
+
+  const candidates = campaigns.filter((campaign) =>
+    campaign.is_active &&
+    campaign.starts_on <= day &&
+    campaign.ends_on >= day &&
+    matchesScope(campaign, submission) &&
+    Number(campaign.budget) - (context.campaignSpend[campaign.id] ?? 0) > 0
+  );
+
+  return candidates.sort((a, b) => a.ends_on.localeCompare(b.ends_on))[0] ?? null;
+};
+
+export const evaluateReward = (
+  submission: RewardSubmission,
+  rules: RewardRule[],
+  campaigns: RewardCampaign[],
+  context: RewardContext
+): RewardEvaluation => {
+  const campaign = findFundingCampaign(submission, campaigns, context);
+  const applicable = rules.filter((rule) =>
+    rule.is_active &&
+    (rule.campaign_id === null || rule.campaign_id === campaign?.id) &&
+    matchesScope(rule, submission)
+  );
+  const ofKind = (kind: RewardRuleKind) => applicable.filter((rule) => rule.kind === kind);
+  const lines: RewardLine[] = [];
+
+  const base = submission.survivalMonths
+    ? mostSpecific(ofKind('survival_bonus').filter((rule) => rule.survival_months === submission.survivalMonths))
+    : mostSpecific(ofKind('base_amount'));
+
+  if (!base) {
+    return {
+      amount: 0,
+      campaignId: null,
+      campaignName: null,
+      lines: [{ ruleId: null, kind: 'base_amount', label: 'No matching reward rule', detail: formatKsh(0), amountAfter: 0 }],
+    };
+  }
+
+  let amount = Number(base.amount);
+  lines.push({ ruleId: base.id, kind: base.kind as RewardRuleKind, label: base.name, detail: formatKsh(amount), amountAfter: amount });
+
+  for (const rule of ofKind('multiplier')) {
+    amount *= Number(rule.multiplier);
+    lines.push({ ruleId: rule.id, kind: 'multiplier', label: rule.name, detail: `×${Number(rule.multiplier)}`, amountAfter: Math.round(amount) });
+  }
+  // M-Pesa only moves whole shillings
+  amount = Math.round(amount);
+
+  const caps = ofKind('monthly_cap').sort((a, b) => Number(a.amount) - Number(b.amount));
+  if (caps.length > 0) {
+    const cap = caps[0];
+    const allowed = Math.max(0, Number(cap.amount) - context.earnedThisMonth);
+    if (amount > allowed) {
+      amount = allowed;
+      lines.push({
+        ruleId: cap.id,
+        kind: 'monthly_cap',
+        label: cap.name,
+        detail: `${formatKsh(context.earnedThisMonth)} of ${formatKsh(Number(cap.amount))} already earned this month`,
+        amountAfter: amount,
+      });
+    }
+  }
+
+  if (campaign) {
+    const remaining = Number(campaign.budget) - (context.campaignSpend[campaign.id] ?? 0);
+    if (amount > remaining) {
+      amount = Math.floor(remaining);
+      lines.push({
+        ruleId: null,
+        kind: 'campaign_budget',
+        label: `${campaign.name} budget`,
+        detail: `${formatKsh(Math.floor(remaining))} left`,
+        amountAfter: amount,
+      });
+    }
+  }
+
+  return {
+    amount,
+    campaignId: campaign && amount > 0 ? campaign.id : null,
+    campaignName: campaign && amount > 0 ? campaign.name : null,
+    lines,
+  };
+};
+
+/**
+ * Evaluate several submissions approved together. Each reward counts
+ * towards the next one's monthly cap and campaign budget.
+ */
+export const evaluateRewardBatch = <T extends RewardSubmission & { userId: string }>(
+  submissions: T[],
+  rules: RewardRule[],
+  campaigns: RewardCampaign[],
+  context: { earnedThisMonth: Record<string, number>; campaignSpend: Record<string, number>; approvedAt: Date }
+): RewardEvaluation[] => {
+  const earned = { ...context.earnedThisMonth };
+  const spend = { ...context.campaignSpend };
+
+  return submissions.map((submission) => {
+    const evaluation = evaluateReward(submission, rules, campaigns, {
+      earnedThisMonth: earned[submission.userId] ?? 0,
+      campaignSpend: spend,
+      approvedAt: context.approvedAt,
+    });
+    earned[submission.userId] = (earned[submission.userId] ?? 0) + evaluation.amount;
+    if (evaluation.campaignId) {
+      spend[evaluation.campaignId] = (spend[evaluation.campaignId] ?? 0) + evaluation.amount;
+    }
+    return evaluation;
+  });
+};
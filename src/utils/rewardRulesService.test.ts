@@ -0,0 +1,45 @@
+import { beforeEach, describe, it, expect, vi } from 'vitest';
+
+const { rpc, from } = vi.hoisted(() => ({
+  rpc: vi.fn(),
+  from: vi.fn(),
+}));
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { rpc, from },
+}));
+
+import { fetchEarnedThisMonth } from './rewardRulesService';
+
+describe('fetchEarnedThisMonth', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('reads the ledger figure through the staff RPC rather than county-scoped tables', async () => {
+    rpc.mockResolvedValue({
+      data: [
+        { user_id: 'farmer-1', earned: '1850' },
+        { user_id: 'farmer-2', earned: 0 },
+      ],
+      error: null,
+    });
+
+    const earned = await fetchEarnedThisMonth(['farmer-1', 'farmer-2']);
+
+    expect(rpc).toHaveBeenCalledWith('get_rewards_earned_this_month', { p_user_ids: ['farmer-1', 'farmer-2'] });
+    expect(from).not.toHaveBeenCalled();
+    expect(earned).toEqual({ 'farmer-1': 1850, 'farmer-2': 0 });
+  });
+
+  it('skips the call when there is nobody to look up', async () => {
+    expect(await fetchEarnedThisMonth([])).toEqual({});
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
+  it('throws the RPC error', async () => {
+    rpc.mockResolvedValue({ data: null, error: new Error('permission denied') });
+
+    await expect(fetchEarnedThisMonth(['farmer-1'])).rejects.toThrow('permission denied');
+  });
+});
@@ -0,0 +1,200 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { TablesInsert } from "@/integrations/supabase/types";
+import type { KenyanTreeSpecies } from "@/data/kenya";
+import {
+  evaluateReward,
+  evaluateRewardBatch,
+  resolveSpeciesSlug,
+  SURVIVAL_CHECK_MONTHS,
+  type RewardCampaign,
+  type RewardEvaluation,
+  type RewardRule,
+} from "@/utils/rewardRules";
+
+export type RewardRuleInput = Omit<TablesInsert<'reward_rules'>, 'id' | 'created_at' | 'updated_at' | 'created_by'>;
+export type RewardCampaignInput = Omit<TablesInsert<'reward_campaigns'>, 'id' | 'created_at' | 'updated_at' | 'created_by'>;
+
+/** The fields of a verification the evaluator needs */
+export interface RewardableVerification {
+  id: string;
+  user_id: string;
+  tree_name: string;
+  county: string | null;
+  planting_date: string | null;
+}
+
+export interface RewardSetup {
+  rules: RewardRule[];
+  campaigns: RewardCampaign[];
+  campaignSpend: Record<string, number>;
+}
+
+export const fetchRewardRules = async (options: { includeInactive?: boolean } = {}): Promise<RewardRule[]> => {
+  let query = supabase.from('reward_rules').select('*').order('created_at', { ascending: true });
+  if (!options.includeInactive) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data ?? [];
+};
+
+export const fetchRewardCampaigns = async (options: { includeInactive?: boolean } = {}): Promise<RewardCampaign[]> => {
+  let query = supabase.from('reward_campaigns').select('*').order('starts_on', { ascending: false });
+  if (!options.includeInactive) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data ?? [];
+};
+
+export const fetchCampaignSpend = async (): Promise<Record<string, number>> => {
+  const { data, error } = await supabase.rpc('get_reward_campaign_spend');
+  if (error) throw error;
+  return Object.fromEntries((data ?? []).map((row) => [row.campaign_id, Number(row.spent)]));
+};
+
+/**
+ * Rewards and survival bonuses credited to each farmer's wallet this
+ * calendar month, from the ledger the database caps rewards with. Covers
+ * plantings in every county, not only the ones the reviewer can see.
+ */
+export const fetchEarnedThisMonth = async (userIds: string[]): Promise<Record<string, number>> => {
+  if (userIds.length === 0) return {};
+
+  const { data, error } = await supabase.rpc('get_rewards_earned_this_month', { p_user_ids: userIds });
+  if (error) throw error;
+  return Object.fromEntries((data ?? []).map((row) => [row.user_id, Number(row.earned)]));
+};
+
+export const loadRewardSetup = async (): Promise<RewardSetup> => {
+  const [rules, campaigns, campaignSpend] = await Promise.all([
+    fetchRewardRules(),
+    fetchRewardCampaigns(),
+    fetchCampaignSpend(),
+  ]);
+  return { rules, campaigns, campaignSpend };
+};
+
+/**
+ * Work out what the given submissions would earn if approved now, in order
+ */
+export const previewRewards = async (
+  verifications: RewardableVerification[],
+  species: KenyanTreeSpecies[]
+): Promise<RewardEvaluation[]> => {
+  const approvedAt = new Date();
+  const [setup, earnedThisMonth] = await Promise.all([
+    loadRewardSetup(),
+    fetchEarnedThisMonth([...new Set(verifications.map((v) => v.user_id))]),
+  ]);
+
+  return evaluateRewardBatch(
+    verifications.map((v) => ({
+      userId: v.user_id,
+      speciesSlug: resolveSpeciesSlug(v.tree_name, species),
+      county: v.county,
+      plantingDate: v.planting_date,
+    })),
+    setup.rules,
+    setup.campaigns,
+    { earnedThisMonth, campaignSpend: setup.campaignSpend, approvedAt }
+  );
+};
+
+/**
+ * Work out the survival bonus for a check-in confirmed alive now. Bonuses
+ * come from standing rules only (campaigns fund plantings), and the
+ * 3-month check-in earns nothing.
+ */
+export const previewSurvivalBonus = async (
+  check: { user_id: string; months: number },
+  planting: { tree_name: string; county: string | null; planting_date: string | null },
+  species: KenyanTreeSpecies[]
+): Promise<RewardEvaluation | null> => {
+  const survivalMonths = SURVIVAL_CHECK_MONTHS.find((months) => months === check.months);
+  if (!survivalMonths) return null;
+
+  const approvedAt = new Date();
+  const [rules, earnedThisMonth] = await Promise.all([
+    fetchRewardRules(),
+    fetchEarnedThisMonth([check.user_id]),
+  ]);
+
+  return evaluateReward(
+    {
+      speciesSlug: resolveSpeciesSlug(planting.tree_name, species),
+      county: planting.county,
+      plantingDate: planting.planting_date,
+      survivalMonths,
+    },
+    rules,
+    [],
+    { earnedThisMonth: earnedThisMonth[check.user_id] ?? 0, campaignSpend: {}, approvedAt }
+  );
+};
+
+/**
+ * Approve a submission. The database evaluates the reward rules again under
+ * the farmer's wallet lock, stores its own amount and breakdown, credits the
+ * wallet and rejects approvals that would overspend a campaign; the preview
+ * is what the reviewer was shown.
+ */
+export const approveWithReward = async (
+  verificationId: string,
+  reviewerId: string | undefined
+): Promise<void> => {
+  const { error } = await supabase
+    .from('planting_verifications')
+    .update({
+      status: 'verified',
+      verified_at: new Date().toISOString(),
+      verified_by: reviewerId,
+    })
+    .eq('id', verificationId);
+
+  if (error) throw error;
+};
+
+/**
+ * Create or update a rule (admin only, enforced by RLS)
+ */
+export const saveRewardRule = async (input: RewardRuleInput, id?: string): Promise<void> => {
+  if (id) {
+    const { error } = await supabase.from('reward_rules').update(input).eq('id', id);
+    if (error) throw error;
+    return;
+  }
+
+  const { data: { user } } = await supabase.auth.getUser();
+  const { error } = await supabase.from('reward_rules').insert({ ...input, created_by: user?.id });
+  if (error) throw error;
+};
+
+export const setRewardRuleActive = async (id: string, isActive: boolean): Promise<void> => {
+  const { error } = await supabase.from('reward_rules').update({ is_active: isActive }).eq('id', id);
+  if (error) throw error;
+};
+
+/**
+ * Create or update a campaign (admin only, enforced by RLS)
+ */
+export const saveRewardCampaign = async (input: RewardCampaignInput, id?: string): Promise<void> => {
+  if (id) {
+    const { error } = await supabase.from('reward_campaigns').update(input).eq('id', id);
+    if (error) throw error;
+    return;
+  }
+
+  const { data: { user } } = await supabase.auth.getUser();
+  const { error } = await supabase.from('reward_campaigns').insert({ ...input, created_by: user?.id });
+  if (error) throw error;
+};
+
+export const setRewardCampaignActive = async (id: string, isActive: boolean): Promise<void> => {
+  const { error } = await supabase.from('reward_campaigns').update({ is_active: isActive }).eq('id', id);
+  if (error) throw error;
+};
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findRoute,
+  LEGACY_CACHES,
+  MAP_TILE_CACHE,
+  OFFLINE_TILE_CACHE,
+  outdatedCaches,
+  SERVICE_WORKER_ROUTES,
+  type RouteRequest,
+} from './serviceWorkerRoutes';
+
+const APP = 'https://leafswipe.app';
+const SUPABASE = 'https://abcd1234.supabase.co';
+
+const request = (url: string, overrides: Partial<RouteRequest> = {}): RouteRequest => {
+  const parsed = new URL(url);
+  return {
+    url: parsed,
+    method: 'GET',
+    mode: 'cors',
+    destination: '',
+    sameOrigin: parsed.origin === APP,
+    ...overrides,
+  };
+};
+
+const routeName = (req: RouteRequest) => findRoute(req)?.name ?? null;
+
+describe('findRoute', () => {
+  it('serves every in-app navigation from the app shell', () => {
+    expect(routeName(request(`${APP}/`, { mode: 'navigate', destination: 'document' }))).toBe('app-shell');
+    expect(routeName(request(`${APP}/profile/plantings?status=queued`, { mode: 'navigate', destination: 'document' }))).toBe('app-shell');
+  });
+
+  it('leaves navigations to other sites alone', () => {
+    expect(routeName(request('https://www.kefri.org/', { mode: 'navigate', destination: 'document' }))).toBeNull();
+  });
+
+  it('caches OpenStreetMap tiles in the unversioned tile cache', () => {
+    const route = findRoute(request('https://b.tile.openstreetmap.org/12/2448/2013.png', { destination: 'image' }));
+    expect(route?.name).toBe('map-tiles');
+    expect(route?.strategy).toBe('cache-first');
+    expect(route?.cacheName).toBe(MAP_TILE_CACHE);
+  });
+
+  it('looks up map tiles in the saved offline areas first', () => {
+    const route = findRoute(request('https://tile.openstreetmap.org/16/39471/33003.png', { destination: 'image' }));
+    expect(route?.lookupCaches).toEqual([OFFLINE_TILE_CACHE]);
+  });
+
+  it('never caches Supabase auth or edge functions', () => {
+    expect(findRoute(request(`${SUPABASE}/auth/v1/user`))?.strategy).toBe('network-only');
+    expect(findRoute(request(`${SUPABASE}/functions/v1/get-weather-data`))?.strategy).toBe('network-only');
+  });
+
+  it('reads Supabase REST network first with a cache fallback', () => {
+    const route = findRoute(request(`${SUPABASE}/rest/v1/tree_species?select=*&is_active=eq.true`));
+    expect(route?.name).toBe('supabase-rest');
+    expect(route?.strategy).toBe('network-first');
+    expect(route?.networkTimeoutSeconds).toBeGreaterThan(0);
+  });
+
+  it('caches species photos but not verification photos', () => {
+    expect(routeName(request('https://images.unsplash.com/photo-1?w=800', { destination: 'image' }))).toBe('species-images');
+    expect(routeName(request(`${SUPABASE}/storage/v1/object/public/tree-images/mango.jpg`, { destination: 'image' }))).toBe('species-images');
+    expect(routeName(request(`${SUPABASE}/storage/v1/object/public/planting-verifications/u1/k1.jpg`, { destination: 'image' }))).toBeNull();
+  });
+
+  it('sends writes straight to the network', () => {
+    expect(findRoute(request(`${SUPABASE}/rest/v1/tree_matches`, { method: 'POST' }))).toBeNull();
+    expect(findRoute(request(`${SUPABASE}/storage/v1/object/planting-verifications/u1/k1.jpg`, { method: 'POST' }))).toBeNull();
+  });
+
+  it('leaves same-origin assets to the precache', () => {
+    expect(findRoute(request(`${APP}/assets/index-abc123.js`, { destination: 'script' }))).toBeNull();
+  });
+});
+
+describe('SERVICE_WORKER_ROUTES', () => {
+  it('gives every caching route its own cache and limits', () => {
+    const caching = SERVICE_WORKER_ROUTES.filter((route) => route.strategy === 'cache-first' || route.strategy === 'network-first');
+    const names = caching.map((route) => route.cacheName);
+
+    expect(new Set(names).size).toBe(names.length);
+    for (const route of caching) {
+      expect(route.maxEntries).toBeGreaterThan(0);
+      expect(route.maxAgeSeconds).toBeGreaterThan(0);
+    }
+  });
+});
+
+describe('outdatedCaches', () => {
+  it('drops legacy and superseded caches but keeps current ones and the precache', () => {
+    const current = SERVICE_WORKER_ROUTES.map((route) => route.cacheName).filter(Boolean) as string[];
+    const existing = [
+      ...LEGACY_CACHES,
+      'leafswipe-supabase-rest-v1',
+      ...current,
+      OFFLINE_TILE_CACHE,
+      'workbox-precache-v2-https://leafswipe.app/',
+    ];
+
+    expect(outdatedCaches(existing).sort()).toEqual([...LEGACY_CACHES, 'leafswipe-supabase-rest-v1'].sort());
+  });
+});
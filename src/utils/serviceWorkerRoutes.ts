@@ -0,0 +1,136 @@
+/**
+ * Routing table for the service worker (src/sw.ts)
+ *
+ * The build precaches the app shell, bundled species photos and the
+ * recognition model with a revision per file, so a deploy replaces them as a
+ * whole. Everything fetched at runtime goes through the first route below
+ * that matches; requests that match none (uploads, verification photos,
+ * anything that isn't a GET) go straight to the network.
+ *
+ * Kept free of service worker APIs so the table can be tested.
+ */
+
+export type RouteStrategy =
+  /** Serve the precached index.html; the SPA routes from there */
+  | 'app-shell'
+  | 'cache-first'
+  | 'network-first'
+  | 'network-only';
+
+export interface RouteRequest {
+  url: URL;
+  method: string;
+  mode: RequestMode;
+  destination: RequestDestination;
+  sameOrigin: boolean;
+}
+
+export interface ServiceWorkerRoute {
+  name: string;
+  strategy: RouteStrategy;
+  /** Runtime cache, for strategies that cache */
+  cacheName?: string;
+  maxEntries?: number;
+  maxAgeSeconds?: number;
+  /** network-first: fall back to the cache after this long */
+  networkTimeoutSeconds?: number;
+  /** Caches filled by the app itself, checked before the strategy runs */
+  lookupCaches?: string[];
+  matches: (request: RouteRequest) => boolean;
+}
+
+/**
+ * Bump to drop every versioned runtime cache on the next activation, e.g.
+ * when the shape of cached API responses changes
+ */
+export const CACHE_VERSION = 'v2';
+
+const cacheName = (name: string) => `leafswipe-${name}-${CACHE_VERSION}`;
+
+/** Map tiles are not versioned: a new release shouldn't throw away the map */
+export const MAP_TILE_CACHE = 'leafswipe-map-tiles';
+/** Areas the user saved for offline use (src/utils/offlineTilesService.ts) */
+export const OFFLINE_TILE_CACHE = 'leafswipe-offline-tiles';
+
+/** Caches from the service workers this one replaced */
+export const LEGACY_CACHES = ['treematch-v1', 'supabase-cache'];
+
+const DAY = 60 * 60 * 24;
+
+const isSupabase = (url: URL) => url.hostname.endsWith('.supabase.co');
+
+export const isMapTile = (url: URL) =>
+  url.hostname.endsWith('tile.openstreetmap.org') && /^\/\d+\/\d+\/\d+\.png$/.test(url.pathname);
+
+export const SERVICE_WORKER_ROUTES: ServiceWorkerRoute[] = [
+  {
+    name: 'app-shell',
+    strategy: 'app-shell',
+    matches: ({ mode, sameOrigin }) => mode === 'navigate' && sameOrigin,
+  },
+  {
+    name: 'map-tiles',
+    strategy: 'cache-first',
+    cacheName: MAP_TILE_CACHE,
+    lookupCaches: [OFFLINE_TILE_CACHE],
+    maxEntries: 500,
+    maxAgeSeconds: 30 * DAY,
+    matches: ({ url }) => isMapTile(url),
+  },
+  {
+    // Sessions and tokens must never come from a cache
+    name: 'supabase-auth',
+    strategy: 'network-only',
+    matches: ({ url }) => isSupabase(url) && url.pathname.startsWith('/auth/v1/'),
+  },
+  {
+    // Weather, payments and fraud checks; their answers are cached where
+    // they are used (src/utils/offlineSnapshot.ts), not here
+    name: 'edge-functions',
+    strategy: 'network-only',
+    matches: ({ url }) => isSupabase(url) && url.pathname.startsWith('/functions/v1/'),
+  },
+  {
+    name: 'supabase-rest',
+    strategy: 'network-first',
+    cacheName: cacheName('supabase-rest'),
+    maxEntries: 50,
+    maxAgeSeconds: DAY,
+    networkTimeoutSeconds: 10,
+    matches: ({ url }) => isSupabase(url) && url.pathname.startsWith('/rest/v1/'),
+  },
+  {
+    // Registry photos hosted elsewhere (Unsplash, Supabase Storage).
+    // Verification photos are only looked at during review and are not cached.
+    name: 'species-images',
+    strategy: 'cache-first',
+    cacheName: cacheName('species-images'),
+    maxEntries: 100,
+    maxAgeSeconds: 30 * DAY,
+    matches: ({ url, destination, sameOrigin }) =>
+      destination === 'image' && !sameOrigin && !url.pathname.includes('/planting-verifications/'),
+  },
+];
+
+/**
+ * The route that handles a request, or null when it goes straight to the
+ * network
+ */
+export const findRoute = (request: RouteRequest): ServiceWorkerRoute | null => {
+  if (request.method !== 'GET') return null;
+  return SERVICE_WORKER_ROUTES.find((route) => route.matches(request)) ?? null;
+};
+
+/**
+ * Runtime caches to delete when a new worker activates: legacy caches and
+ * our own caches that no route uses any more. Workbox's precache caches are
+ * cleaned up by Workbox.
+ */
+export const outdatedCaches = (existing: string[]): string[] => {
+  const current = new Set(
+    SERVICE_WORKER_ROUTES.flatMap((route) => [route.cacheName, ...(route.lookupCaches ?? [])]).filter(Boolean)
+  );
+  return existing.filter(
+    (name) => LEGACY_CACHES.includes(name) || (name.startsWith('leafswipe-') && !current.has(name))
+  );
+};
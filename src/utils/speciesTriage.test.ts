@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_TRIAGE_SETTINGS, triageVerification } from './speciesTriage';
+
+const settings = { ...DEFAULT_TRIAGE_SETTINGS, enabled: true };
+const pending = { status: 'pending', risk_score: 0 };
+const result = (species_match: string, match_confidence: number | null) => ({
+  status: 'completed',
+  species_match,
+  match_confidence,
+});
+
+describe('triageVerification', () => {
+  it('marks confident matches on clean submissions ready to approve', () => {
+    expect(triageVerification(pending, result('match', 0.92), settings)).toBe('auto_approve');
+    expect(triageVerification(pending, result('match', 0.6), settings)).toBe('review');
+  });
+
+  it('holds confident mismatches', () => {
+    expect(triageVerification(pending, result('mismatch', 0.8), settings)).toBe('auto_hold');
+    expect(triageVerification(pending, result('mismatch', 0.4), settings)).toBe('review');
+  });
+
+  it('never fast-tracks risky or misplaced submissions', () => {
+    expect(triageVerification({ ...pending, risk_score: 20 }, result('match', 0.95), settings)).toBe('review');
+    expect(triageVerification({ ...pending, hasLocationIssues: true }, result('match', 0.95), settings)).toBe('review');
+    expect(
+      triageVerification({ ...pending, risk_score: 20 }, result('match', 0.95), { ...settings, auto_approve_max_risk: 30 })
+    ).toBe('auto_approve');
+  });
+
+  it('leaves everything for review when triage is off or recognition has not finished', () => {
+    expect(triageVerification(pending, result('match', 0.95), DEFAULT_TRIAGE_SETTINGS)).toBe('review');
+    expect(triageVerification(pending, undefined, settings)).toBe('review');
+    expect(triageVerification(pending, { status: 'pending', species_match: null, match_confidence: null }, settings)).toBe('review');
+    expect(triageVerification({ ...pending, status: 'verified' }, result('match', 0.95), settings)).toBe('review');
+    expect(triageVerification(pending, result('unknown_claim', 0.95), settings)).toBe('review');
+  });
+});
@@ -0,0 +1,66 @@
+import type { Tables } from '@/integrations/supabase/types';
+import type { VerificationAiResult } from '@/utils/verificationAiResults';
+
+/**
+ * Species-match triage for the verification queue
+ *
+ * When recognition completes, the database compares the claimed species with
+ * the top candidate (compare_recognised_species). With triage enabled,
+ * confident matches on low-risk submissions are ready for one-click
+ * approval, and confident mismatches are held back from bulk approval until
+ * a moderator has looked at them. Everything else is reviewed as before.
+ */
+
+export type TriageSettings = Tables<'verification_triage_settings'>;
+
+export type SpeciesMatchOutcome = 'match' | 'mismatch' | 'unknown_claim' | 'no_prediction';
+
+export type Triage = 'auto_approve' | 'auto_hold' | 'review';
+
+export type TriageThresholds = Pick<
+  TriageSettings,
+  'enabled' | 'auto_approve_confidence' | 'auto_approve_max_risk' | 'auto_hold_confidence'
+>;
+
+export const DEFAULT_TRIAGE_SETTINGS: TriageThresholds = {
+  enabled: false,
+  auto_approve_confidence: 0.85,
+  auto_approve_max_risk: 0,
+  auto_hold_confidence: 0.7,
+};
+
+export const SPECIES_MATCH_LABELS: Record<SpeciesMatchOutcome, string> = {
+  match: 'Matches claim',
+  mismatch: 'Species mismatch',
+  unknown_claim: 'Claimed tree not in catalog',
+  no_prediction: 'No species recognised',
+};
+
+export const TRIAGE_LABELS: Record<Triage, string> = {
+  auto_approve: 'Ready to approve',
+  auto_hold: 'Held',
+  review: 'Needs review',
+};
+
+export const triageVerification = (
+  verification: { status: string; risk_score: number; hasLocationIssues?: boolean },
+  result: Pick<VerificationAiResult, 'status' | 'species_match' | 'match_confidence'> | undefined,
+  settings: TriageThresholds
+): Triage => {
+  if (!settings.enabled || verification.status !== 'pending') return 'review';
+  if (result?.status !== 'completed' || result.match_confidence == null) return 'review';
+
+  const confidence = Number(result.match_confidence);
+  if (result.species_match === 'mismatch' && confidence >= settings.auto_hold_confidence) {
+    return 'auto_hold';
+  }
+  if (
+    result.species_match === 'match' &&
+    confidence >= settings.auto_approve_confidence &&
+    verification.risk_score <= settings.auto_approve_max_risk &&
+    !verification.hasLocationIssues
+  ) {
+    return 'auto_approve';
+  }
+  return 'review';
+};
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { canSubmitCheckIn, checkInPhase, distanceFromOriginal, survivalRate } from './survivalChecks';
+
+const today = new Date(2026, 2, 10);
+
+describe('checkInPhase', () => {
+  it('opens check-ins two weeks before they are due', () => {
+    expect(checkInPhase({ status: 'scheduled', due_on: '2026-04-01' }, today)).toBe('upcoming');
+    expect(checkInPhase({ status: 'scheduled', due_on: '2026-03-24' }, today)).toBe('open');
+    expect(checkInPhase({ status: 'scheduled', due_on: '2026-03-10' }, today)).toBe('open');
+    expect(checkInPhase({ status: 'scheduled', due_on: '2026-03-09' }, today)).toBe('overdue');
+  });
+
+  it('follows the review status once submitted', () => {
+    expect(checkInPhase({ status: 'submitted', due_on: '2026-01-01' }, today)).toBe('in_review');
+    expect(checkInPhase({ status: 'alive', due_on: '2026-01-01' }, today)).toBe('alive');
+    expect(checkInPhase({ status: 'rejected', due_on: '2026-01-01' }, today)).toBe('retake');
+  });
+
+  it('lets farmers submit open, overdue and rejected check-ins only', () => {
+    expect(canSubmitCheckIn({ status: 'scheduled', due_on: '2026-03-20' }, today)).toBe(true);
+    expect(canSubmitCheckIn({ status: 'scheduled', due_on: '2026-02-01' }, today)).toBe(true);
+    expect(canSubmitCheckIn({ status: 'rejected', due_on: '2026-02-01' }, today)).toBe(true);
+    expect(canSubmitCheckIn({ status: 'scheduled', due_on: '2026-06-01' }, today)).toBe(false);
+    expect(canSubmitCheckIn({ status: 'submitted', due_on: '2026-03-10' }, today)).toBe(false);
+  });
+});
+
+describe('distanceFromOriginal', () => {
+  it('measures short distances between GPS fixes', () => {
+    // 0.001° of latitude is about 111 m
+    expect(distanceFromOriginal({ latitude: -0.4, longitude: 36.95 }, { latitude: -0.401, longitude: 36.95 })).toBe(111);
+  });
+
+  it('returns null when either planting has no GPS', () => {
+    expect(distanceFromOriginal({ latitude: null, longitude: null }, { latitude: -0.4, longitude: 36.95 })).toBeNull();
+    expect(distanceFromOriginal({ latitude: -0.4, longitude: 36.95 }, {})).toBeNull();
+    expect(distanceFromOriginal({ latitude: -0.4, longitude: 36.95 }, { latitude: -0.4, longitude: 36.95 })).toBe(0);
+  });
+});
+
+describe('survivalRate', () => {
+  it('counts only plantings with a reviewed check-in', () => {
+    expect(survivalRate([{ survival_status: 'unknown' }])).toBeNull();
+    expect(
+      survivalRate([
+        { survival_status: 'alive' },
+        { survival_status: 'alive' },
+        { survival_status: 'dead' },
+        { survival_status: 'unknown' },
+      ])
+    ).toBeCloseTo(2 / 3);
+  });
+});
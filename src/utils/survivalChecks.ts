@@ -0,0 +1,89 @@
+import type { Tables } from '@/integrations/supabase/types';
+import { distanceMeters } from '@/utils/kenyaLocation';
+
+/**
+ * Survival re-verification
+ *
+ * Every verified planting gets check-ins 3, 6 and 12 months after it was
+ * planted (scheduled by the database). The farmer photographs the tree
+ * again; the reviewer compares the new photo and GPS fix with the original
+ * and records whether it is alive.
+ */
+
+export type SurvivalCheck = Tables<'survival_checks'>;
+
+export type SurvivalCheckStatus = 'scheduled' | 'submitted' | 'alive' | 'dead' | 'rejected' | 'cancelled';
+export type SurvivalStatus = 'unknown' | 'alive' | 'dead';
+
+export const CHECK_IN_MONTHS = [3, 6, 12] as const;
+
+// Check-ins open this many days before they are due
+export const CHECK_IN_WINDOW_DAYS = 14;
+
+// Photos taken further than this from the original planting are flagged
+export const MAX_CHECK_IN_DISTANCE_M = 100;
+
+/** Where a check-in stands from the farmer's point of view */
+export type CheckInPhase = 'upcoming' | 'open' | 'overdue' | 'in_review' | 'alive' | 'dead' | 'retake' | 'cancelled';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// due_on is a calendar date; read it as local midnight, not UTC
+const parseDay = (day: string) => {
+  const [year, month, date] = day.slice(0, 10).split('-').map(Number);
+  return new Date(year, month - 1, date);
+};
+
+export const checkInPhase = (
+  check: Pick<SurvivalCheck, 'status' | 'due_on'>,
+  today = new Date()
+): CheckInPhase => {
+  switch (check.status as SurvivalCheckStatus) {
+    case 'submitted':
+      return 'in_review';
+    case 'alive':
+    case 'dead':
+    case 'cancelled':
+      return check.status as CheckInPhase;
+    case 'rejected':
+      return 'retake';
+  }
+
+  const daysUntilDue = Math.round((parseDay(check.due_on).getTime() - startOfDay(today).getTime()) / DAY_MS);
+  if (daysUntilDue > CHECK_IN_WINDOW_DAYS) return 'upcoming';
+  return daysUntilDue < 0 ? 'overdue' : 'open';
+};
+
+/** Whether the farmer can upload a photo for this check-in now */
+export const canSubmitCheckIn = (check: Pick<SurvivalCheck, 'status' | 'due_on'>, today = new Date()) =>
+  ['open', 'overdue', 'retake'].includes(checkInPhase(check, today));
+
+/**
+ * Distance from the original planting, or null when either fix is missing
+ */
+export const distanceFromOriginal = (
+  original: { latitude: number | null; longitude: number | null },
+  checkIn: { latitude?: number | null; longitude?: number | null }
+): number | null => {
+  if (original.latitude == null || original.longitude == null || checkIn.latitude == null || checkIn.longitude == null) {
+    return null;
+  }
+  return Math.round(
+    distanceMeters(
+      { latitude: Number(original.latitude), longitude: Number(original.longitude) },
+      { latitude: Number(checkIn.latitude), longitude: Number(checkIn.longitude) }
+    )
+  );
+};
+
+/**
+ * Share of plantings with a known outcome that are still alive, or null
+ * before any check-in has been reviewed
+ */
+export const survivalRate = (plantings: { survival_status: string }[]): number | null => {
+  const known = plantings.filter((p) => p.survival_status === 'alive' || p.survival_status === 'dead');
+  if (known.length === 0) return null;
+  return known.filter((p) => p.survival_status === 'alive').length / known.length;
+};
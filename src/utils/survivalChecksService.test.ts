@@ -0,0 +1,67 @@
+import { beforeEach, describe, it, expect, vi } from 'vitest';
+
+const { upload, update } = vi.hoisted(() => ({
+  upload: vi.fn(),
+  update: vi.fn(),
+}));
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    storage: {
+      from: () => ({
+        upload,
+        getPublicUrl: (path: string) => ({ data: { publicUrl: `https://cdn.test/${path}` } }),
+      }),
+    },
+    from: () => ({
+      update: (values: Record<string, unknown>) => ({ eq: async () => update(values) }),
+    }),
+  },
+}));
+
+vi.mock('@/utils/imageUtils', () => ({
+  compressImage: async (file: File) => file,
+}));
+
+import { reviewSurvivalCheck, submitSurvivalCheck } from './survivalChecksService';
+
+describe('submitSurvivalCheck', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    upload.mockResolvedValue({ error: null });
+    update.mockResolvedValue({ error: null });
+  });
+
+  it('sends the GPS fix and leaves the distance to the database', async () => {
+    await submitSurvivalCheck(
+      { id: 'check-1', user_id: 'farmer-1' },
+      {
+        image: new File(['photo'], 'tree.jpg', { type: 'image/jpeg' }),
+        latitude: -0.42,
+        longitude: 36.95,
+        reportedAlive: true,
+        notes: null,
+      }
+    );
+
+    const values = update.mock.calls[0][0];
+    expect(values).toMatchObject({ status: 'submitted', latitude: -0.42, longitude: 36.95, reported_alive: true });
+    expect(values).not.toHaveProperty('distance_m');
+  });
+});
+
+describe('reviewSurvivalCheck', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    update.mockResolvedValue({ error: null });
+  });
+
+  it('leaves the survival bonus to the database', async () => {
+    await reviewSurvivalCheck('check-1', 'alive', 'reviewer-1', { notes: 'Healthy' });
+
+    const values = update.mock.calls[0][0];
+    expect(values).toMatchObject({ status: 'alive', reviewed_by: 'reviewer-1', review_notes: 'Healthy' });
+    expect(values).not.toHaveProperty('reward_amount');
+    expect(values).not.toHaveProperty('reward_breakdown');
+  });
+});
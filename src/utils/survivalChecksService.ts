@@ -0,0 +1,108 @@
+import { supabase } from "@/integrations/supabase/client";
+import { compressImage } from "@/utils/imageUtils";
+import type { SurvivalCheck } from "@/utils/survivalChecks";
+
+/** A check-in waiting for review, with the planting it re-verifies */
+export interface SurvivalCheckForReview extends SurvivalCheck {
+  planting: {
+    tree_name: string;
+    image_url: string;
+    latitude: number | null;
+    longitude: number | null;
+    county: string | null;
+    planting_date: string | null;
+  } | null;
+}
+
+export interface SurvivalCheckSubmission {
+  image: File;
+  latitude: number;
+  longitude: number;
+  reportedAlive: boolean;
+  notes: string | null;
+}
+
+export type SurvivalReviewOutcome = 'alive' | 'dead' | 'rejected';
+
+export const fetchSurvivalChecks = async (userId: string): Promise<SurvivalCheck[]> => {
+  const { data, error } = await supabase
+    .from('survival_checks')
+    .select('*')
+    .eq('user_id', userId)
+    .order('due_on', { ascending: true });
+
+  if (error) throw error;
+  return data ?? [];
+};
+
+/**
+ * Upload the farmer's new photo and send the check-in for review. The
+ * distance from the original planting is worked out by the database.
+ */
+export const submitSurvivalCheck = async (
+  check: Pick<SurvivalCheck, 'id' | 'user_id'>,
+  submission: SurvivalCheckSubmission
+): Promise<void> => {
+  const compressed = await compressImage(submission.image);
+  const fileName = `${check.user_id}/survival/${check.id}-${Date.now()}-${submission.image.name}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from('planting-verifications')
+    .upload(fileName, compressed);
+  if (uploadError) throw uploadError;
+
+  const { data: urlData } = supabase.storage
+    .from('planting-verifications')
+    .getPublicUrl(fileName);
+
+  const { error } = await supabase
+    .from('survival_checks')
+    .update({
+      status: 'submitted',
+      image_url: urlData.publicUrl,
+      latitude: submission.latitude,
+      longitude: submission.longitude,
+      reported_alive: submission.reportedAlive,
+      notes: submission.notes,
+      submitted_at: new Date().toISOString(),
+    })
+    .eq('id', check.id);
+
+  if (error) throw error;
+};
+
+export const fetchSurvivalChecksForReview = async (): Promise<SurvivalCheckForReview[]> => {
+  const { data, error } = await supabase
+    .from('survival_checks')
+    .select('*, planting:planting_verifications(tree_name, image_url, latitude, longitude, county, planting_date)')
+    .eq('status', 'submitted')
+    .order('submitted_at', { ascending: true });
+
+  if (error) throw error;
+  return (data ?? []) as SurvivalCheckForReview[];
+};
+
+/**
+ * Record the reviewer's decision. Confirming a tree alive at 6 or 12 months
+ * pays the survival bonus, which the database works out from the reward
+ * rules; it also updates the planting's survival status and the
+ * recommendation engine's outcome.
+ */
+export const reviewSurvivalCheck = async (
+  checkId: string,
+  outcome: SurvivalReviewOutcome,
+  reviewerId: string | undefined,
+  options: { notes?: string | null } = {}
+): Promise<void> => {
+  const { error } = await supabase
+    .from('survival_checks')
+    .update({
+      status: outcome,
+      reviewed_by: reviewerId,
+      reviewed_at: new Date().toISOString(),
+      review_notes: options.notes ?? null,
+    })
+    .eq('id', checkId);
+
+  if (error) throw error;
+};
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { describeSwipeReplay, matchKeysWithQueue } from './swipeOutbox';
+
+describe('matchKeysWithQueue', () => {
+  it('counts queued likes as matches but not passes', () => {
+    const keys = matchKeysWithQueue(
+      [{ treeId: 1, plotId: null }, { treeId: 2, plotId: null }],
+      [
+        { treeId: 3, direction: 'right' },
+        { treeId: 4, direction: 'left' },
+        { treeId: 1, direction: 'right' },
+      ]
+    );
+
+    expect([...keys].sort()).toEqual(['1:', '2:', '3:']);
+  });
+
+  it('keeps a tree matched on one plot open on another', () => {
+    const keys = matchKeysWithQueue(
+      [{ treeId: 1, plotId: 'home' }],
+      [{ treeId: 1, direction: 'right', plotId: 'river' }]
+    );
+
+    expect([...keys].sort()).toEqual(['1:home', '1:river']);
+  });
+});
+
+describe('describeSwipeReplay', () => {
+  it('stays quiet when nothing was sent', () => {
+    expect(describeSwipeReplay({ sent: 0, alreadyMatched: [] }, 'en')).toBeNull();
+  });
+
+  it('names trees matched on another device', () => {
+    expect(describeSwipeReplay({ sent: 3, alreadyMatched: ['Mango'] }, 'en')).toBe(
+      '3 offline swipes synced · Mango was already matched on another device'
+    );
+    expect(describeSwipeReplay({ sent: 1, alreadyMatched: [] }, 'en')).toBe('1 offline swipe synced');
+  });
+});
@@ -0,0 +1,140 @@
+import { listForUser, withStore } from '@/utils/offlineStore';
+import { SWIPE_SYNC_TAG } from '@/utils/backgroundSync';
+
+/**
+ * Offline queue for swipes
+ *
+ * Without signal the swipe deck keeps working from the cached catalog and
+ * profile; each like or pass is kept in IndexedDB and sent when the device
+ * reconnects. A like becomes a tree_matches row with the swipe's id, so a
+ * retry never creates a second match, and a tree matched meanwhile on the
+ * same plot on another device is reported instead of failing the replay.
+ */
+
+export type SwipeDirection = 'left' | 'right';
+
+export interface SwipeSubmission {
+  /** Idempotency key, generated on the device */
+  id: string;
+  userId: string;
+  treeId: number;
+  treeName: string;
+  direction: SwipeDirection;
+  compatibilityScore: number;
+  county: string;
+  agroZone: string;
+  swipedAt: string;
+  /** The plot a like was scored for; absent on items queued before plots */
+  plotId?: string | null;
+}
+
+export interface QueuedSwipe extends SwipeSubmission {
+  attempts: number;
+  lastError: string | null;
+}
+
+/**
+ * Outcome of sending one swipe:
+ * - matched: a new match was saved
+ * - already_matched: the tree was matched on the plot earlier, e.g. on
+ *   another device
+ * - passed: a pass was recorded
+ */
+export type SwipeOutcome = 'matched' | 'already_matched' | 'passed';
+
+/** Window event fired when the queue changes */
+export const SWIPE_OUTBOX_CHANGED_EVENT = 'swipe-outbox-changed';
+
+const notifyChanged = () => {
+  if (typeof window !== 'undefined') window.dispatchEvent(new Event(SWIPE_OUTBOX_CHANGED_EVENT));
+};
+
+export const queueSwipe = async (swipe: SwipeSubmission): Promise<void> => {
+  const queued: QueuedSwipe = { ...swipe, attempts: 0, lastError: null };
+  await withStore('swipes', 'readwrite', (store) => store.put(queued));
+  notifyChanged();
+};
+
+/**
+ * A user's queued swipes, oldest first
+ */
+export const listQueuedSwipes = (userId: string): Promise<QueuedSwipe[]> =>
+  listForUser<QueuedSwipe, 'swipedAt'>('swipes', userId, 'swipedAt');
+
+export const removeQueuedSwipe = async (id: string): Promise<void> => {
+  await withStore('swipes', 'readwrite', (store) => store.delete(id));
+  notifyChanged();
+};
+
+export const recordFailedSwipe = async (swipe: QueuedSwipe, error: string): Promise<void> => {
+  await withStore('swipes', 'readwrite', (store) =>
+    store.put({ ...swipe, attempts: swipe.attempts + 1, lastError: error })
+  );
+  notifyChanged();
+};
+
+/**
+ * Ask the service worker to replay the queue once there is a connection.
+ * Browsers without Background Sync rely on the page noticing it is online.
+ */
+export const requestSwipeSync = async (): Promise<void> => {
+  if (!('serviceWorker' in navigator)) return;
+  const registration = await navigator.serviceWorker.ready;
+  const sync = (registration as ServiceWorkerRegistration & {
+    sync?: { register: (tag: string) => Promise<void> };
+  }).sync;
+  await sync?.register(SWIPE_SYNC_TAG);
+};
+
+/** A saved match: a tree is matched at most once per plot */
+export interface MatchedTree {
+  treeId: number;
+  plotId: string | null;
+}
+
+/**
+ * Key of a match in the deck's set of matches; likes not on a plot share
+ * the empty plot
+ */
+export const matchKey = (treeId: number, plotId?: string | null) => `${treeId}:${plotId ?? ''}`;
+
+/**
+ * Matches the deck should treat as made: those saved on the server plus
+ * likes still waiting in the queue
+ */
+export const matchKeysWithQueue = (
+  serverMatches: Iterable<MatchedTree>,
+  queued: Pick<SwipeSubmission, 'treeId' | 'direction' | 'plotId'>[]
+): Set<string> => {
+  const keys = new Set<string>();
+  for (const match of serverMatches) keys.add(matchKey(match.treeId, match.plotId));
+  for (const swipe of queued) {
+    if (swipe.direction === 'right') keys.add(matchKey(swipe.treeId, swipe.plotId));
+  }
+  return keys;
+};
+
+/**
+ * Summary toast for a replay, e.g. "5 swipes synced · Mango was already
+ * matched on another device"
+ */
+export const describeSwipeReplay = (
+  result: { sent: number; alreadyMatched: string[] },
+  language: 'en' | 'sw'
+): string | null => {
+  if (result.sent === 0) return null;
+  const parts = [
+    language === 'en'
+      ? `${result.sent} offline swipe${result.sent !== 1 ? 's' : ''} synced`
+      : `Uteuzi ${result.sent} wa nje ya mtandao umesawazishwa`,
+  ];
+  if (result.alreadyMatched.length > 0) {
+    const names = result.alreadyMatched.join(', ');
+    parts.push(
+      language === 'en'
+        ? `${names} ${result.alreadyMatched.length === 1 ? 'was' : 'were'} already matched on another device`
+        : `${names} tayari imechaguliwa kwenye kifaa kingine`
+    );
+  }
+  return parts.join(' · ');
+};
@@ -0,0 +1,140 @@
+import { beforeEach, describe, it, expect, vi } from 'vitest';
+
+const { upsert, plotFilter, maybeSingle, insert, listQueuedSwipes, removeQueuedSwipe, recordFailedSwipe } = vi.hoisted(() => ({
+  upsert: vi.fn(),
+  plotFilter: vi.fn(),
+  maybeSingle: vi.fn(),
+  insert: vi.fn(),
+  listQueuedSwipes: vi.fn(),
+  removeQueuedSwipe: vi.fn(),
+  recordFailedSwipe: vi.fn(),
+}));
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: (table: string) =>
+      table === 'tree_matches'
+        ? {
+            upsert: (...args: unknown[]) => ({ select: () => upsert(...args) }),
+            select: () => ({
+              eq: () => ({
+                eq: () => ({
+                  eq: (...args: unknown[]) => (plotFilter('eq', ...args), { maybeSingle }),
+                  is: (...args: unknown[]) => (plotFilter('is', ...args), { maybeSingle }),
+                }),
+              }),
+            }),
+          }
+        : { insert },
+  },
+}));
+
+vi.mock('./swipeOutbox', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./swipeOutbox')>()),
+  listQueuedSwipes,
+  removeQueuedSwipe,
+  recordFailedSwipe,
+}));
+
+import { replayQueuedSwipes, submitSwipe } from './swipeSubmitService';
+import type { QueuedSwipe } from './swipeOutbox';
+
+const swipe = (id: string, direction: 'left' | 'right' = 'right', treeName = 'Mango'): QueuedSwipe => ({
+  id,
+  userId: 'farmer-1',
+  treeId: 7,
+  treeName,
+  direction,
+  compatibilityScore: 84,
+  county: 'Machakos',
+  agroZone: 'LM4',
+  swipedAt: '2025-12-16T06:30:00Z',
+  attempts: 0,
+  lastError: null,
+});
+
+describe('submitSwipe', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    insert.mockResolvedValue({ error: null });
+  });
+
+  it('saves a like as a match under the swipe id and records it once', async () => {
+    upsert.mockResolvedValue({ data: [{ id: 'swipe-1' }], error: null });
+
+    expect(await submitSwipe(swipe('swipe-1'))).toBe('matched');
+    expect(upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'swipe-1', tree_id: 7, matched_at: '2025-12-16T06:30:00Z' }),
+      { onConflict: 'id', ignoreDuplicates: true }
+    );
+    expect(insert).toHaveBeenCalledWith(expect.objectContaining({ action: 'liked', client_event_id: 'swipe-1' }));
+  });
+
+  it('attaches a like to the plot it was scored for', async () => {
+    upsert.mockResolvedValue({ data: [{ id: 'swipe-1' }], error: null });
+
+    await submitSwipe({ ...swipe('swipe-1'), plotId: 'plot-1' });
+    await submitSwipe(swipe('swipe-2'));
+
+    expect(upsert.mock.calls[0][0]).toMatchObject({ plot_id: 'plot-1' });
+    expect(upsert.mock.calls[1][0]).toMatchObject({ plot_id: null });
+  });
+
+  it('keeps the first match when the tree was matched on another device', async () => {
+    upsert.mockResolvedValue({ data: null, error: { code: '23505', message: 'duplicate key value' } });
+    maybeSingle.mockResolvedValue({ data: { id: 'other-device' }, error: null });
+
+    expect(await submitSwipe(swipe('swipe-1'))).toBe('already_matched');
+    expect(plotFilter).toHaveBeenCalledWith('is', 'plot_id', null);
+    expect(insert).not.toHaveBeenCalled();
+  });
+
+  it('looks for the earlier match on the same plot only', async () => {
+    upsert.mockResolvedValue({ data: null, error: { code: '23505', message: 'duplicate key value' } });
+    maybeSingle.mockResolvedValue({ data: { id: 'other-device' }, error: null });
+
+    expect(await submitSwipe({ ...swipe('swipe-1'), plotId: 'plot-1' })).toBe('already_matched');
+    expect(plotFilter).toHaveBeenCalledWith('eq', 'plot_id', 'plot-1');
+  });
+
+  it('finishes a like whose match an earlier attempt already saved', async () => {
+    upsert.mockResolvedValue({ data: [], error: null });
+    maybeSingle.mockResolvedValue({ data: { id: 'swipe-1' }, error: null });
+
+    expect(await submitSwipe(swipe('swipe-1'))).toBe('matched');
+    expect(insert).toHaveBeenCalled();
+  });
+
+  it('treats a swipe event already recorded as sent', async () => {
+    insert.mockResolvedValue({ error: { code: '23505', message: 'duplicate key value' } });
+
+    expect(await submitSwipe(swipe('swipe-1', 'left'))).toBe('passed');
+    expect(upsert).not.toHaveBeenCalled();
+  });
+});
+
+describe('replayQueuedSwipes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    insert.mockResolvedValue({ error: null });
+  });
+
+  it('reports trees matched elsewhere and clears the queue', async () => {
+    listQueuedSwipes.mockResolvedValue([swipe('swipe-1'), swipe('swipe-2', 'left', 'Neem')]);
+    upsert.mockResolvedValue({ data: [], error: null });
+    maybeSingle.mockResolvedValue({ data: { id: 'other-device' }, error: null });
+
+    expect(await replayQueuedSwipes('farmer-1')).toEqual({ sent: 2, failed: 0, alreadyMatched: ['Mango'] });
+    expect(removeQueuedSwipe.mock.calls).toEqual([['swipe-1'], ['swipe-2']]);
+  });
+
+  it('stops at the first connectivity failure and keeps the rest', async () => {
+    listQueuedSwipes.mockResolvedValue([swipe('swipe-1'), swipe('swipe-2')]);
+    upsert.mockResolvedValue({ data: null, error: { message: 'TypeError: Failed to fetch' } });
+
+    expect(await replayQueuedSwipes('farmer-1')).toEqual({ sent: 0, failed: 0, alreadyMatched: [] });
+    expect(upsert).toHaveBeenCalledTimes(1);
+    expect(removeQueuedSwipe).not.toHaveBeenCalled();
+    expect(recordFailedSwipe).not.toHaveBeenCalled();
+  });
+});
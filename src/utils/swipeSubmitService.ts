@@ -0,0 +1,109 @@
+import { supabase } from "@/integrations/supabase/client";
+import { logger } from "@/utils/logger";
+import { aiRecommendationEngine } from "@/utils/aiRecommendationEngine";
+import {
+  listQueuedSwipes,
+  recordFailedSwipe,
+  removeQueuedSwipe,
+  type SwipeOutcome,
+  type SwipeSubmission,
+} from "@/utils/swipeOutbox";
+import { isConnectivityError } from "@/utils/verificationOutbox";
+
+/**
+ * Save a like as a match and record the swipe. Safe to repeat: the match is
+ * saved under the swipe's id and the swipe event under its client event id.
+ * A tree is matched once per plot; a like for a tree already matched on the
+ * same plot elsewhere records nothing, as when swiping right on a matched
+ * tree online.
+ */
+export const submitSwipe = async (swipe: SwipeSubmission): Promise<SwipeOutcome> => {
+  if (swipe.direction === 'right') {
+    const { data: inserted, error } = await supabase
+      .from("tree_matches")
+      .upsert(
+        {
+          id: swipe.id,
+          user_id: swipe.userId,
+          tree_id: swipe.treeId,
+          tree_name: swipe.treeName,
+          compatibility_score: swipe.compatibilityScore,
+          matched_at: swipe.swipedAt,
+          plot_id: swipe.plotId ?? null,
+        },
+        { onConflict: "id", ignoreDuplicates: true }
+      )
+      .select("id");
+
+    // A unique violation means the tree is already matched on this plot
+    if (error && error.code !== '23505') throw error;
+
+    if (!inserted?.length) {
+      // Either an earlier attempt saved it and lost the reply, or the tree
+      // was matched on the same plot on another device; the first match wins
+      const existingQuery = supabase
+        .from("tree_matches")
+        .select("id")
+        .eq("user_id", swipe.userId)
+        .eq("tree_id", swipe.treeId);
+      const { data: existing, error: existingError } = await (swipe.plotId
+        ? existingQuery.eq("plot_id", swipe.plotId)
+        : existingQuery.is("plot_id", null)
+      ).maybeSingle();
+
+      if (existingError) throw existingError;
+      if (existing && existing.id !== swipe.id) return 'already_matched';
+    }
+  }
+
+  await aiRecommendationEngine.recordUserBehavior(
+    swipe.userId,
+    swipe.treeId,
+    swipe.direction === 'right' ? 'liked' : 'disliked',
+    { county: swipe.county, agroZone: swipe.agroZone },
+    swipe.compatibilityScore,
+    swipe.id
+  );
+
+  return swipe.direction === 'right' ? 'matched' : 'passed';
+};
+
+export interface SwipeReplayResult {
+  sent: number;
+  failed: number;
+  /** Names of trees that had been matched on another device */
+  alreadyMatched: string[];
+}
+
+let replaying: Promise<SwipeReplayResult> | null = null;
+
+/**
+ * Send a user's queued swipes, oldest first. Stops at the first
+ * connectivity failure; other failures are recorded on the swipe and it is
+ * retried next time. Concurrent calls share one run.
+ */
+export const replayQueuedSwipes = (userId: string): Promise<SwipeReplayResult> => {
+  if (replaying) return replaying;
+
+  replaying = (async () => {
+    const result: SwipeReplayResult = { sent: 0, failed: 0, alreadyMatched: [] };
+    for (const swipe of await listQueuedSwipes(userId)) {
+      try {
+        const outcome = await submitSwipe(swipe);
+        await removeQueuedSwipe(swipe.id);
+        result.sent++;
+        if (outcome === 'already_matched') result.alreadyMatched.push(swipe.treeName);
+      } catch (error) {
+        if (isConnectivityError(error)) break;
+        logger.error("Error sending queued swipe:", error);
+        await recordFailedSwipe(swipe, (error as { message?: string })?.message ?? "Sync failed");
+        result.failed++;
+      }
+    }
+    return result;
+  })().finally(() => {
+    replaying = null;
+  });
+
+  return replaying;
+};
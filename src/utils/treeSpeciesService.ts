@@ -0,0 +1,164 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { KENYAN_TREES, type KenyanTreeSpecies, type TreeUse } from "@/data/kenya";
+import { logger } from "@/utils/logger";
+import { cacheCatalog, getCachedCatalog } from "@/utils/offlineSnapshot";
+
+export type TreeSpeciesRow = Tables<'tree_species'>;
+
+export type TreeSpeciesSource = 'registry' | 'cache' | 'seed';
+
+export interface TreeSpeciesInput {
+  slug: string;
+  englishName: string;
+  swahiliName: string;
+  scientificName: string;
+  aliases?: string[];
+  imageUrl?: string | null;
+  suitableCounties: string[];
+  agroZones: string[];
+  price: number;
+  kefriCode?: string | null;
+  uses: TreeUse[];
+  description: {
+    en: string;
+    sw: string;
+  };
+  isActive?: boolean;
+}
+
+// Bundled photos for the seeded species, keyed by slug
+const BUNDLED_IMAGES: Record<string, string> = Object.fromEntries(
+  KENYAN_TREES.map((tree) => [tree.id, tree.image])
+);
+
+const FALLBACK_IMAGE = '/placeholder.svg';
+
+/**
+ * Convert a tree_species row into the shape the UI already works with
+ */
+export const mapSpeciesRow = (row: TreeSpeciesRow): KenyanTreeSpecies => ({
+  id: row.slug,
+  dbId: row.id,
+  englishName: row.english_name,
+  swahiliName: row.swahili_name,
+  scientificName: row.scientific_name,
+  aliases: row.aliases ?? [],
+  image: row.image_url || BUNDLED_IMAGES[row.slug] || FALLBACK_IMAGE,
+  suitableCounties: row.suitable_counties ?? [],
+  agroZones: row.agro_zones ?? [],
+  price: Number(row.price),
+  kefriCode: row.kefri_code ?? undefined,
+  uses: (row.uses ?? []) as TreeUse[],
+  description: {
+    en: row.description_en,
+    sw: row.description_sw,
+  },
+  isActive: row.is_active,
+});
+
+/**
+ * Convert form input into a tree_species insert/update payload
+ */
+export const toSpeciesPayload = (input: TreeSpeciesInput): TablesInsert<'tree_species'> => ({
+  slug: input.slug.trim().toLowerCase(),
+  english_name: input.englishName.trim(),
+  swahili_name: input.swahiliName.trim(),
+  scientific_name: input.scientificName.trim(),
+  aliases: (input.aliases ?? []).map((alias) => alias.trim()).filter(Boolean),
+  image_url: input.imageUrl?.trim() || null,
+  suitable_counties: input.suitableCounties,
+  agro_zones: input.agroZones,
+  price: input.price,
+  kefri_code: input.kefriCode?.trim() || null,
+  uses: input.uses,
+  description_en: input.description.en.trim(),
+  description_sw: input.description.sw.trim(),
+  is_active: input.isActive ?? true,
+});
+
+/**
+ * Load the species catalog from the registry.
+ * Falls back to the last catalog loaded on this device when offline, and to
+ * the bundled seed when there is none or the registry is empty.
+ */
+export const fetchTreeSpecies = async (
+  options: { includeInactive?: boolean } = {}
+): Promise<{ species: KenyanTreeSpecies[]; source: TreeSpeciesSource }> => {
+  try {
+    let query = supabase
+      .from('tree_species')
+      .select('*')
+      .order('id', { ascending: true });
+
+    if (!options.includeInactive) {
+      query = query.eq('is_active', true);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    if (data && data.length > 0) {
+      const species = data.map(mapSpeciesRow);
+      if (!options.includeInactive) cacheCatalog(species);
+      return { species, source: 'registry' };
+    }
+  } catch (error) {
+    logger.error('Error fetching tree species, using offline copy:', error);
+
+    // The cached catalog only holds active species
+    const cached = getCachedCatalog<KenyanTreeSpecies>();
+    if (cached && cached.data.length > 0 && !options.includeInactive) {
+      return { species: cached.data, source: 'cache' };
+    }
+  }
+
+  return { species: KENYAN_TREES, source: 'seed' };
+};
+
+/**
+ * Create a new species (admin only, enforced by RLS)
+ */
+export const createTreeSpecies = async (input: TreeSpeciesInput): Promise<KenyanTreeSpecies> => {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  const { data, error } = await supabase
+    .from('tree_species')
+    .insert({ ...toSpeciesPayload(input), created_by: user?.id })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return mapSpeciesRow(data);
+};
+
+/**
+ * Update an existing species (admin only, enforced by RLS)
+ */
+export const updateTreeSpecies = async (
+  id: number,
+  input: TreeSpeciesInput
+): Promise<KenyanTreeSpecies> => {
+  const { data, error } = await supabase
+    .from('tree_species')
+    .update(toSpeciesPayload(input))
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return mapSpeciesRow(data);
+};
+
+/**
+ * Retire or restore a species. Species are never hard-deleted because
+ * tree_matches rows reference them.
+ */
+export const setTreeSpeciesActive = async (id: number, isActive: boolean): Promise<void> => {
+  const { error } = await supabase
+    .from('tree_species')
+    .update({ is_active: isActive })
+    .eq('id', id);
+
+  if (error) throw error;
+};
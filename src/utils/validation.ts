@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { TREE_USES } from '@/data/kenya';
 
 /**
  * Validation schemas for form inputs
@@ -72,6 +73,13 @@ export const notesSchema = z
   .max(1000, 'Notes are too long (max 1000 characters)')
   .optional();
 
+// Why a planting is somewhere the geofence questions
+export const locationJustificationSchema = z
+  .string()
+  .trim()
+  .min(10, 'Please explain in a sentence why the tree is planted here')
+  .max(500, 'Justification is too long (max 500 characters)');
+
 // Auth form schemas
 export const signInSchema = z.object({
   email: emailSchema,
@@ -129,6 +137,70 @@ export const onboardingSchema = z.object({
   phone: kenyanPhoneSchema,
 });
 
+// Tree species registry schema (admin catalog editor)
+export const treeSpeciesSchema = z.object({
+  slug: z
+    .string()
+    .min(2, 'Slug is required')
+    .max(50, 'Slug is too long')
+    .regex(/^[a-z0-9-]+$/, 'Slug can only contain lowercase letters, numbers and hyphens'),
+  englishName: z.string().min(2, 'English name is required').max(100, 'English name is too long'),
+  swahiliName: z.string().min(2, 'Swahili name is required').max(100, 'Swahili name is too long'),
+  scientificName: z.string().min(2, 'Scientific name is required').max(150, 'Scientific name is too long'),
+  imageUrl: z.string().url('Image must be a valid URL').optional().or(z.literal('')),
+  suitableCounties: z.array(countySchema).min(1, 'Select at least one county'),
+  agroZones: z.array(z.string()).min(1, 'Select at least one agro-ecological zone'),
+  price: z.number().nonnegative('Price cannot be negative').max(100000, 'Price seems unreasonably high'),
+  kefriCode: z.string().max(20, 'KEFRI code is too long').optional().or(z.literal('')),
+  uses: z
+    .array(z.enum(TREE_USES))
+    .min(1, 'Select at least one use'),
+  description: z.object({
+    en: z.string().min(1, 'English description is required').max(1000, 'Description is too long'),
+    sw: z.string().min(1, 'Swahili description is required').max(1000, 'Description is too long'),
+  }),
+});
+
+// Reward rule validation; which value is required depends on the kind
+export const rewardRuleSchema = z
+  .object({
+    name: z.string().trim().min(2, 'Rule name is required').max(100, 'Rule name is too long'),
+    kind: z.enum(['base_amount', 'multiplier', 'survival_bonus', 'monthly_cap']),
+    amount: z.number().nonnegative('Amount cannot be negative').max(100000, 'Amount seems unreasonably high').nullable().optional(),
+    multiplier: z.number().positive('Multiplier must be above zero').max(10, 'Multiplier seems unreasonably high').nullable().optional(),
+    survival_months: z.union([z.literal(6), z.literal(12)]).nullable().optional(),
+    species_slugs: z.array(z.string()).optional(),
+    counties: z.array(countySchema).optional(),
+    campaign_id: z.string().uuid().nullable().optional(),
+  })
+  .superRefine((rule, ctx) => {
+    if (rule.kind === 'multiplier' && rule.multiplier == null) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Enter a multiplier', path: ['multiplier'] });
+    }
+    if (rule.kind !== 'multiplier' && rule.amount == null) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Enter an amount', path: ['amount'] });
+    }
+    if (rule.kind === 'survival_bonus' && rule.survival_months == null) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Choose the survival check', path: ['survival_months'] });
+    }
+  });
+
+// Reward campaign validation
+export const rewardCampaignSchema = z
+  .object({
+    name: z.string().trim().min(2, 'Campaign name is required').max(100, 'Campaign name is too long'),
+    description: z.string().max(1000, 'Description is too long').nullable().optional(),
+    budget: z.number().positive('Budget must be above zero').max(100000000, 'Budget seems unreasonably high'),
+    starts_on: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Start date is required'),
+    ends_on: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'End date is required'),
+    counties: z.array(countySchema).optional(),
+    species_slugs: z.array(z.string()).optional(),
+  })
+  .refine((campaign) => campaign.ends_on >= campaign.starts_on, {
+    message: 'The campaign must end after it starts',
+    path: ['ends_on'],
+  });
+
 /**
  * Helper function to validate and sanitize input
  */
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { formatConfidence, parseHealth, parseSpeciesCandidates } from './verificationAiResults';
+
+describe('parseSpeciesCandidates', () => {
+  it('orders candidates by confidence and skips malformed entries', () => {
+    const candidates = parseSpeciesCandidates([
+      { id: 'mango', name: 'Mango', confidence: 0.2 },
+      'junk',
+      { id: 'grevillea', name: 'Grevillea', confidence: 0.7 },
+      { id: 'neem' },
+      { id: 'moringa', confidence: 0.1 },
+    ]);
+
+    expect(candidates).toEqual([
+      { id: 'grevillea', name: 'Grevillea', confidence: 0.7 },
+      { id: 'mango', name: 'Mango', confidence: 0.2 },
+      { id: 'moringa', name: 'moringa', confidence: 0.1 },
+    ]);
+  });
+
+  it('returns nothing before recognition has run', () => {
+    expect(parseSpeciesCandidates(null)).toEqual([]);
+    expect(parseSpeciesCandidates({})).toEqual([]);
+  });
+});
+
+describe('parseHealth', () => {
+  it('reads the stored assessment', () => {
+    expect(parseHealth({ isHealthy: false, confidence: 0.8, issues: ['Possible pest damage detected'] })).toEqual({
+      isHealthy: false,
+      confidence: 0.8,
+      issues: ['Possible pest damage detected'],
+    });
+  });
+
+  it('ignores missing or malformed health', () => {
+    expect(parseHealth(null)).toBeNull();
+    expect(parseHealth({ confidence: 0.8 })).toBeNull();
+  });
+});
+
+describe('formatConfidence', () => {
+  it('rounds to a whole percentage', () => {
+    expect(formatConfidence(0.826)).toBe('83%');
+  });
+});
@@ -0,0 +1,55 @@
+import type { Json, Tables } from '@/integrations/supabase/types';
+
+/**
+ * Server-side recognition results
+ *
+ * The recognize-tree edge function runs on every new submission and stores
+ * what it recognised in verification_ai_results; these helpers read them
+ * for the moderation UI.
+ */
+
+export type VerificationAiResult = Tables<'verification_ai_results'>;
+
+export type AiResultStatus = 'pending' | 'completed' | 'failed';
+
+export interface AiSpeciesCandidate {
+  id: string;
+  name: string;
+  confidence: number;
+}
+
+export interface AiHealth {
+  isHealthy: boolean;
+  confidence: number;
+  issues: string[];
+}
+
+const isObject = (value: Json | null | undefined): value is { [key: string]: Json } =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * species_candidates as stored, most likely first; anything malformed is skipped
+ */
+export const parseSpeciesCandidates = (candidates: Json | null | undefined): AiSpeciesCandidate[] => {
+  if (!Array.isArray(candidates)) return [];
+  return candidates
+    .filter(isObject)
+    .filter((candidate) => typeof candidate.id === 'string' && typeof candidate.confidence === 'number')
+    .map((candidate) => ({
+      id: candidate.id as string,
+      name: typeof candidate.name === 'string' ? candidate.name : (candidate.id as string),
+      confidence: candidate.confidence as number,
+    }))
+    .sort((a, b) => b.confidence - a.confidence);
+};
+
+export const parseHealth = (health: Json | null | undefined): AiHealth | null => {
+  if (!isObject(health) || typeof health.isHealthy !== 'boolean') return null;
+  return {
+    isHealthy: health.isHealthy,
+    confidence: typeof health.confidence === 'number' ? health.confidence : 0,
+    issues: Array.isArray(health.issues) ? health.issues.map(String) : [],
+  };
+};
+
+export const formatConfidence = (confidence: number) => `${Math.round(confidence * 100)}%`;
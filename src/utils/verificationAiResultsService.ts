@@ -0,0 +1,69 @@
+import { supabase } from "@/integrations/supabase/client";
+import { readFunctionError } from "@/utils/mpesaPayments";
+import type { VerificationAiResult } from "@/utils/verificationAiResults";
+import type { TriageSettings, TriageThresholds } from "@/utils/speciesTriage";
+
+// Keeps each request URL well under PostgREST's limit
+const ID_BATCH_SIZE = 200;
+
+/**
+ * Recognition results for the given submissions, keyed by verification id
+ */
+export const fetchAiResults = async (verificationIds: string[]): Promise<Record<string, VerificationAiResult>> => {
+  const results: Record<string, VerificationAiResult> = {};
+
+  for (let i = 0; i < verificationIds.length; i += ID_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('verification_ai_results')
+      .select('*')
+      .in('verification_id', verificationIds.slice(i, i + ID_BATCH_SIZE));
+
+    if (error) throw error;
+    for (const result of data ?? []) results[result.verification_id] = result;
+  }
+  return results;
+};
+
+/**
+ * Run recognition again, e.g. after the model server was down
+ */
+export const runRecognition = async (verificationId: string): Promise<void> => {
+  const { error } = await supabase.functions.invoke('recognize-tree', {
+    body: { verification_id: verificationId },
+  });
+  if (error) {
+    const { message } = await readFunctionError(error);
+    throw new Error(message);
+  }
+};
+
+export const fetchTriageSettings = async (): Promise<TriageSettings | null> => {
+  const { data, error } = await supabase
+    .from('verification_triage_settings')
+    .select('*')
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Update the triage thresholds (admin only, enforced by RLS)
+ */
+export const saveTriageSettings = async (
+  settings: TriageThresholds
+): Promise<void> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  const { error } = await supabase
+    .from('verification_triage_settings')
+    .update({
+      enabled: settings.enabled,
+      auto_approve_confidence: settings.auto_approve_confidence,
+      auto_approve_max_risk: settings.auto_approve_max_risk,
+      auto_hold_confidence: settings.auto_hold_confidence,
+      updated_by: user?.id,
+    })
+    .eq('id', true);
+
+  if (error) throw error;
+};
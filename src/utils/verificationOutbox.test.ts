@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { isConnectivityError } from './verificationOutbox';
+
+describe('isConnectivityError', () => {
+  it('keeps submissions made while offline', () => {
+    expect(isConnectivityError(new Error('Row level security violation'), false)).toBe(true);
+  });
+
+  it('recognises fetch failures in each browser', () => {
+    expect(isConnectivityError(new TypeError('Failed to fetch'), true)).toBe(true);
+    expect(isConnectivityError({ message: 'TypeError: NetworkError when attempting to fetch resource.' }, true)).toBe(true);
+    expect(isConnectivityError(new TypeError('Load failed'), true)).toBe(true);
+  });
+
+  it('reports errors from the server', () => {
+    expect(isConnectivityError({ message: 'new row violates row-level security policy' }, true)).toBe(false);
+    expect(isConnectivityError(new TypeError("Cannot read properties of undefined (reading 'id')"), true)).toBe(false);
+  });
+});
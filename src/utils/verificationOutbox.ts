@@ -0,0 +1,101 @@
+import type { PhotoMetadata } from '@/utils/imageUtils';
+import type { LocationCheck } from '@/utils/plantingGeofence';
+import { listForUser, withStore } from '@/utils/offlineStore';
+import { VERIFICATION_SYNC_TAG } from '@/utils/backgroundSync';
+
+/**
+ * Offline queue for verification submissions
+ *
+ * A farmer without signal can still submit a planting: the compressed photo
+ * and the form are kept in IndexedDB on the device and sent when it
+ * reconnects. The service worker's background sync asks open pages to send
+ * them, and pages also send them when they see the connection come back.
+ * Each submission's id doubles as its idempotency key, so sending one twice
+ * never creates a second verification.
+ */
+
+export interface VerificationSubmission {
+  /** Idempotency key, generated on the device */
+  id: string;
+  userId: string;
+  matchId: string | null;
+  treeName: string;
+  latitude: number;
+  longitude: number;
+  plantingDate: string;
+  notes: string | null;
+  /** The compressed photo */
+  image: Blob;
+  imageHash: string | null;
+  photoMetadata: PhotoMetadata;
+  locationChecks: LocationCheck;
+  locationJustification: string | null;
+  /** The farm plot the planting falls in; absent on items queued before plots */
+  plotId?: string | null;
+}
+
+export interface QueuedVerification extends VerificationSubmission {
+  queuedAt: string;
+  attempts: number;
+  lastError: string | null;
+}
+
+/** Window event fired when the queue changes */
+export const OUTBOX_CHANGED_EVENT = 'verification-outbox-changed';
+
+const notifyChanged = () => {
+  if (typeof window !== 'undefined') window.dispatchEvent(new Event(OUTBOX_CHANGED_EVENT));
+};
+
+export const queueVerification = async (submission: VerificationSubmission): Promise<void> => {
+  const queued: QueuedVerification = {
+    ...submission,
+    queuedAt: new Date().toISOString(),
+    attempts: 0,
+    lastError: null,
+  };
+  await withStore('verifications', 'readwrite', (store) => store.put(queued));
+  notifyChanged();
+};
+
+/**
+ * A user's queued submissions, oldest first
+ */
+export const listQueuedVerifications = (userId: string): Promise<QueuedVerification[]> =>
+  listForUser<QueuedVerification, 'queuedAt'>('verifications', userId, 'queuedAt');
+
+export const removeQueuedVerification = async (id: string): Promise<void> => {
+  await withStore('verifications', 'readwrite', (store) => store.delete(id));
+  notifyChanged();
+};
+
+export const recordFailedAttempt = async (item: QueuedVerification, error: string): Promise<void> => {
+  await withStore('verifications', 'readwrite', (store) =>
+    store.put({ ...item, attempts: item.attempts + 1, lastError: error })
+  );
+  notifyChanged();
+};
+
+/**
+ * Ask the service worker to replay the queue once there is a connection.
+ * Browsers without Background Sync rely on the page noticing it is online.
+ */
+export const requestVerificationSync = async (): Promise<void> => {
+  if (!('serviceWorker' in navigator)) return;
+  const registration = await navigator.serviceWorker.ready;
+  const sync = (registration as ServiceWorkerRegistration & {
+    sync?: { register: (tag: string) => Promise<void> };
+  }).sync;
+  await sync?.register(VERIFICATION_SYNC_TAG);
+};
+
+/**
+ * Whether a failed request should be kept for later rather than reported:
+ * the device is offline or the request never reached the server
+ */
+export const isConnectivityError = (error: unknown, online: boolean = navigator.onLine): boolean => {
+  if (!online) return true;
+  // fetch's wording differs per browser; Supabase passes it on in the message
+  const message = (error as { message?: string })?.message ?? '';
+  return /failed to fetch|networkerror|network error|load failed|network request failed/i.test(message);
+};
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { parseRiskFlags, riskLevel } from './verificationRisk';
+
+describe('riskLevel', () => {
+  it('buckets scores', () => {
+    expect(riskLevel(0)).toBe('none');
+    expect(riskLevel(15)).toBe('low');
+    expect(riskLevel(35)).toBe('medium');
+    expect(riskLevel(70)).toBe('high');
+  });
+});
+
+describe('parseRiskFlags', () => {
+  it('orders flags by weight and skips malformed entries', () => {
+    const flags = parseRiskFlags([
+      { code: 'missing_camera_data', weight: 15, detail: 'No camera' },
+      'junk',
+      { code: 'duplicate_photo', weight: 50, detail: 'Matches 1 earlier photo' },
+      { code: 'far_from_profile' },
+    ]);
+
+    expect(flags.map((flag) => flag.code)).toEqual(['duplicate_photo', 'missing_camera_data']);
+  });
+
+  it('returns nothing for missing flags', () => {
+    expect(parseRiskFlags(null)).toEqual([]);
+  });
+});
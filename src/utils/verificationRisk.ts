@@ -0,0 +1,53 @@
+import type { Json } from '@/integrations/supabase/types';
+
+/**
+ * Fraud signals on verification submissions
+ *
+ * The database trigger assess_verification_risk works out risk_score and
+ * risk_flags when a submission is created; these helpers read them for the
+ * moderation UI.
+ */
+
+export type RiskFlagCode =
+  | 'duplicate_photo_other_farmer'
+  | 'duplicate_photo'
+  | 'missing_camera_data'
+  | 'taken_far_from_planting_date'
+  | 'far_from_profile';
+
+export interface RiskFlag {
+  code: RiskFlagCode;
+  weight: number;
+  detail: string;
+}
+
+export type RiskLevel = 'none' | 'low' | 'medium' | 'high';
+
+export const RISK_FLAG_LABELS: Record<RiskFlagCode, string> = {
+  duplicate_photo_other_farmer: "Another farmer's photo",
+  duplicate_photo: 'Re-used photo',
+  missing_camera_data: 'No camera data',
+  taken_far_from_planting_date: 'Date mismatch',
+  far_from_profile: 'Far from farm',
+};
+
+export const riskLevel = (score: number | null | undefined): RiskLevel => {
+  if (!score) return 'none';
+  if (score >= 60) return 'high';
+  if (score >= 30) return 'medium';
+  return 'low';
+};
+
+/**
+ * risk_flags as stored, heaviest first; anything malformed is skipped
+ */
+export const parseRiskFlags = (flags: Json | null | undefined): RiskFlag[] => {
+  if (!Array.isArray(flags)) return [];
+  return flags
+    .filter((flag): flag is { code: string; weight: number; detail: string } =>
+      !!flag && typeof flag === 'object' && !Array.isArray(flag) &&
+      typeof flag.code === 'string' && typeof flag.weight === 'number'
+    )
+    .map((flag) => ({ code: flag.code as RiskFlagCode, weight: flag.weight, detail: String(flag.detail ?? '') }))
+    .sort((a, b) => b.weight - a.weight);
+};
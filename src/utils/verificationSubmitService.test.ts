@@ -0,0 +1,148 @@
+import { beforeEach, describe, it, expect, vi } from 'vitest';
+
+const { upload, upsert, recordUserBehavior, listQueuedVerifications, removeQueuedVerification, recordFailedAttempt } = vi.hoisted(() => ({
+  upload: vi.fn(),
+  upsert: vi.fn(),
+  recordUserBehavior: vi.fn(),
+  listQueuedVerifications: vi.fn(),
+  removeQueuedVerification: vi.fn(),
+  recordFailedAttempt: vi.fn(),
+}));
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    storage: {
+      from: () => ({
+        upload,
+        getPublicUrl: (path: string) => ({ data: { publicUrl: `https://cdn.test/${path}` } }),
+      }),
+    },
+    from: (table: string) =>
+      table === 'planting_verifications'
+        ? { upsert: (...args: unknown[]) => ({ select: () => upsert(...args) }) }
+        : { select: () => ({ eq: () => ({ maybeSingle: async () => ({ data: { county: 'Nyeri', tree_id: 7 } }) }) }) },
+  },
+}));
+
+vi.mock('@/utils/aiRecommendationEngine', () => ({
+  aiRecommendationEngine: { recordUserBehavior },
+}));
+
+vi.mock('./verificationOutbox', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./verificationOutbox')>()),
+  listQueuedVerifications,
+  removeQueuedVerification,
+  recordFailedAttempt,
+}));
+
+import { replayQueuedVerifications, submitVerification } from './verificationSubmitService';
+import type { QueuedVerification } from './verificationOutbox';
+
+const queued = (id: string): QueuedVerification => ({
+  id,
+  userId: 'farmer-1',
+  matchId: null,
+  treeName: 'Mango',
+  latitude: -0.42,
+  longitude: 36.95,
+  plantingDate: '2025-12-14',
+  notes: null,
+  image: new Blob(['photo'], { type: 'image/jpeg' }),
+  imageHash: null,
+  photoMetadata: {},
+  locationChecks: { issues: [] } as unknown as QueuedVerification['locationChecks'],
+  locationJustification: null,
+  queuedAt: '2025-12-14T08:00:00Z',
+  attempts: 0,
+  lastError: null,
+});
+
+describe('submitVerification', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    upsert.mockResolvedValue({ error: null });
+  });
+
+  it('stores the photo and the row under the idempotency key', async () => {
+    upload.mockResolvedValue({ error: null });
+
+    await submitVerification(queued('key-1'));
+
+    expect(upload).toHaveBeenCalledWith('farmer-1/key-1.jpg', expect.any(Blob), { contentType: 'image/jpeg' });
+    expect(upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ idempotency_key: 'key-1', image_url: 'https://cdn.test/farmer-1/key-1.jpg', county: 'Nyeri' }),
+      { onConflict: 'user_id,idempotency_key', ignoreDuplicates: true }
+    );
+  });
+
+  it('sends the plot the planting falls in, and none for items queued before plots', async () => {
+    upload.mockResolvedValue({ error: null });
+
+    await submitVerification({ ...queued('key-1'), plotId: 'plot-1' });
+    await submitVerification(queued('key-2'));
+
+    expect(upsert.mock.calls[0][0]).toMatchObject({ plot_id: 'plot-1' });
+    expect(upsert.mock.calls[1][0]).toMatchObject({ plot_id: null });
+  });
+
+  it('records the planting for recommendations only when the row is new', async () => {
+    upload.mockResolvedValue({ error: null });
+    recordUserBehavior.mockResolvedValue(undefined);
+
+    upsert.mockResolvedValueOnce({ data: [{ id: 'pv-1' }], error: null });
+    await submitVerification({ ...queued('key-1'), matchId: 'match-1' });
+    // A replay of the same submission
+    upsert.mockResolvedValueOnce({ data: [], error: null });
+    await submitVerification({ ...queued('key-1'), matchId: 'match-1' });
+
+    expect(recordUserBehavior).toHaveBeenCalledTimes(1);
+    expect(recordUserBehavior).toHaveBeenCalledWith('farmer-1', 7, 'planted', expect.anything());
+  });
+
+  it('carries on when an earlier attempt already uploaded the photo', async () => {
+    upload.mockResolvedValue({ error: { message: 'The resource already exists' } });
+
+    await submitVerification(queued('key-1'));
+
+    expect(upsert).toHaveBeenCalled();
+  });
+});
+
+describe('replayQueuedVerifications', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    upsert.mockResolvedValue({ error: null });
+  });
+
+  it('sends queued submissions and removes them from the device', async () => {
+    listQueuedVerifications.mockResolvedValue([queued('key-1'), queued('key-2')]);
+    upload.mockResolvedValue({ error: null });
+
+    expect(await replayQueuedVerifications('farmer-1')).toEqual({ sent: 2, failed: 0 });
+    expect(removeQueuedVerification.mock.calls).toEqual([['key-1'], ['key-2']]);
+  });
+
+  it('stops at the first connectivity failure and keeps the rest', async () => {
+    listQueuedVerifications.mockResolvedValue([queued('key-1'), queued('key-2')]);
+    upload.mockResolvedValue({ error: { message: 'TypeError: Failed to fetch' } });
+
+    expect(await replayQueuedVerifications('farmer-1')).toEqual({ sent: 0, failed: 0 });
+    expect(upload).toHaveBeenCalledTimes(1);
+    expect(removeQueuedVerification).not.toHaveBeenCalled();
+    expect(recordFailedAttempt).not.toHaveBeenCalled();
+  });
+
+  it('records server errors on the item and moves on', async () => {
+    listQueuedVerifications.mockResolvedValue([queued('key-1'), queued('key-2')]);
+    upload.mockResolvedValue({ error: null });
+    upsert
+      .mockResolvedValueOnce({ error: { message: 'new row violates row-level security policy' } })
+      .mockResolvedValueOnce({ error: null });
+
+    expect(await replayQueuedVerifications('farmer-1')).toEqual({ sent: 1, failed: 1 });
+    expect(recordFailedAttempt).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'key-1' }),
+      'new row violates row-level security policy'
+    );
+  });
+});
@@ -0,0 +1,128 @@
+import { supabase } from "@/integrations/supabase/client";
+import { logger } from "@/utils/logger";
+import { sanitizeString } from "@/utils/validation";
+import { aiRecommendationEngine } from "@/utils/aiRecommendationEngine";
+import {
+  isConnectivityError,
+  listQueuedVerifications,
+  recordFailedAttempt,
+  removeQueuedVerification,
+  type VerificationSubmission,
+} from "@/utils/verificationOutbox";
+
+const BUCKET = "planting-verifications";
+
+/**
+ * Upload the photo and create the verification. Safe to repeat: the photo
+ * is stored under the submission's idempotency key and a second insert with
+ * the same key is ignored.
+ */
+export const submitVerification = async (
+  submission: VerificationSubmission,
+  onProgress?: (percent: number) => void
+): Promise<void> => {
+  onProgress?.(40);
+  const fileName = `${submission.userId}/${submission.id}.jpg`;
+  const { error: uploadError } = await supabase.storage
+    .from(BUCKET)
+    .upload(fileName, submission.image, { contentType: submission.image.type || "image/jpeg" });
+
+  // Already uploaded by an earlier attempt
+  if (uploadError && !/already exists|duplicate/i.test(uploadError.message)) throw uploadError;
+
+  onProgress?.(60);
+  const { data: urlData } = supabase.storage.from(BUCKET).getPublicUrl(fileName);
+
+  // County and phone come from the profile at the time the submission is sent
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("county, constituency, phone, agro_zone")
+    .eq("user_id", submission.userId)
+    .maybeSingle();
+
+  onProgress?.(80);
+  const { data: inserted, error: insertError } = await supabase
+    .from("planting_verifications")
+    .upsert(
+      {
+        user_id: submission.userId,
+        idempotency_key: submission.id,
+        tree_match_id: submission.matchId,
+        tree_name: submission.treeName,
+        image_url: urlData.publicUrl,
+        latitude: submission.latitude,
+        longitude: submission.longitude,
+        county: profile?.county ? sanitizeString(profile.county) : null,
+        constituency: profile?.constituency ? sanitizeString(profile.constituency) : null,
+        phone: profile?.phone || null,
+        planting_date: submission.plantingDate,
+        notes: submission.notes,
+        image_hash: submission.imageHash,
+        photo_metadata: { ...submission.photoMetadata },
+        location_checks: { ...submission.locationChecks },
+        location_justification: submission.locationJustification,
+        plot_id: submission.plotId ?? null,
+      },
+      { onConflict: "user_id,idempotency_key", ignoreDuplicates: true }
+    )
+    .select("id");
+
+  if (insertError) throw insertError;
+
+  // Record the planting for the recommendation engine, once: a replay of a
+  // submission that already landed inserts nothing. Survival is recorded
+  // when a moderator approves the verification and updated by the survival
+  // check-ins that follow
+  if (submission.matchId && inserted?.length) {
+    const { data: match } = await supabase
+      .from("tree_matches")
+      .select("tree_id")
+      .eq("id", submission.matchId)
+      .maybeSingle();
+
+    if (match) {
+      aiRecommendationEngine.recordUserBehavior(
+        submission.userId,
+        match.tree_id,
+        'planted',
+        {
+          county: profile?.county || '',
+          agroZone: profile?.agro_zone || ''
+        }
+      ).catch((error) => logger.error("Error recording planting:", error));
+    }
+  }
+};
+
+let replaying: Promise<{ sent: number; failed: number }> | null = null;
+
+/**
+ * Send a user's queued submissions, oldest first. Stops at the first
+ * connectivity failure; other failures are recorded on the item and it is
+ * retried next time. Concurrent calls share one run.
+ */
+export const replayQueuedVerifications = (userId: string): Promise<{ sent: number; failed: number }> => {
+  if (replaying) return replaying;
+
+  replaying = (async () => {
+    let sent = 0;
+    let failed = 0;
+    for (const item of await listQueuedVerifications(userId)) {
+      try {
+        await submitVerification(item);
+        await removeQueuedVerification(item.id);
+        sent++;
+      } catch (error) {
+        if (isConnectivityError(error)) break;
+        logger.error("Error sending queued verification:", error);
+        await recordFailedAttempt(item, (error as { message?: string })?.message ?? "Upload failed");
+        failed++;
+      }
+    }
+    return { sent, failed };
+  })().finally(() => {
+    replaying = null;
+  });
+
+  return replaying;
+};
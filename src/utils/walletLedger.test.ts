@@ -0,0 +1,87 @@
+import { beforeEach, describe, it, expect, vi } from 'vitest';
+
+const { invoke, rpc } = vi.hoisted(() => ({
+  invoke: vi.fn(),
+  rpc: vi.fn(),
+}));
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    functions: { invoke },
+    rpc,
+  },
+}));
+
+import { fetchWalletSummary, requestWithdrawal, toWalletEntries } from './walletLedger';
+
+describe('toWalletEntries', () => {
+  it('signs wallet legs and attaches payout results to withdrawals', () => {
+    const entries = toWalletEntries(
+      [
+        { id: 't3', kind: 'withdrawal_failed', direction: 'credit', amount: 50, description: null, payout_id: 'p2', created_at: '2025-12-03' },
+        { id: 't2', kind: 'withdrawal', direction: 'debit', amount: 100, description: null, payout_id: 'p1', created_at: '2025-12-02' },
+        { id: 't1', kind: 'reward', direction: 'credit', amount: 150, description: 'Reward', payout_id: null, created_at: '2025-12-01' },
+      ],
+      [
+        { id: 'p1', status: 'paid', amount: 100, phone_number: '254712345678', mpesa_transaction_id: 'SAB12CD', result_desc: null },
+        { id: 'p2', status: 'failed', amount: 50, phone_number: '254712345672', mpesa_transaction_id: null, result_desc: 'Insufficient' },
+      ]
+    );
+
+    expect(entries.map((entry) => entry.amount)).toEqual([50, -100, 150]);
+    expect(entries[1]).toMatchObject({ kind: 'withdrawal', payoutStatus: 'paid', mpesaTransactionId: 'SAB12CD' });
+    expect(entries[2].payoutStatus).toBeUndefined();
+  });
+});
+
+describe('fetchWalletSummary', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('reads the ledger balances', async () => {
+    rpc.mockResolvedValue({
+      data: [{ available_balance: '250', in_transit: '100', total_earned: '500', total_withdrawn: '150' }],
+      error: null,
+    });
+
+    expect(await fetchWalletSummary()).toEqual({
+      availableBalance: 250,
+      inTransit: 100,
+      totalEarned: 500,
+      totalWithdrawn: 150,
+    });
+  });
+
+  it('falls back to zero when the summary cannot be loaded', async () => {
+    rpc.mockResolvedValue({ data: null, error: new Error('offline') });
+
+    expect((await fetchWalletSummary()).availableBalance).toBe(0);
+  });
+});
+
+describe('requestWithdrawal', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('sends the idempotency key with the payout request', async () => {
+    invoke.mockResolvedValue({ data: { payoutId: 'p1', status: 'processing', amount: 100 }, error: null });
+
+    const result = await requestWithdrawal({ amount: 100, phoneNumber: '0712345678', idempotencyKey: 'key-1' });
+
+    expect(invoke).toHaveBeenCalledWith('mpesa-b2c-payout', {
+      body: { amount: 100, phoneNumber: '0712345678', idempotencyKey: 'key-1' },
+    });
+    expect(result).toEqual({ payoutId: 'p1', status: 'processing' });
+  });
+
+  it('surfaces the reason a withdrawal was refused', async () => {
+    const response = new Response(JSON.stringify({ error: 'Insufficient balance' }), { status: 409 });
+    invoke.mockResolvedValue({ data: null, error: Object.assign(new Error('non-2xx'), { context: response }) });
+
+    const result = await requestWithdrawal({ amount: 100, phoneNumber: '0712345678', idempotencyKey: 'key-1' });
+
+    expect(result).toEqual({ payoutId: null, status: 'failed', error: 'Insufficient balance' });
+  });
+});
@@ -0,0 +1,172 @@
+import { supabase } from '@/integrations/supabase/client';
+import { logger } from '@/utils/logger';
+import { readFunctionError } from '@/utils/mpesaPayments';
+
+/**
+ * Rewards wallet backed by the double-entry ledger
+ *
+ * Balances come from wallet_transactions, which only database triggers and
+ * the payout functions write. Withdrawals go through the mpesa-b2c-payout
+ * edge function; mpesa-callback settles them when Daraja reports back.
+ */
+
+export type LedgerKind = 'reward' | 'reward_reversal' | 'survival_bonus' | 'withdrawal' | 'withdrawal_paid' | 'withdrawal_failed';
+export type PayoutStatus = 'pending' | 'processing' | 'paid' | 'failed';
+
+export interface WalletSummary {
+  availableBalance: number;
+  inTransit: number;
+  totalEarned: number;
+  totalWithdrawn: number;
+}
+
+export interface LedgerTransaction {
+  id: string;
+  kind: string;
+  direction: string;
+  amount: number;
+  description: string | null;
+  payout_id: string | null;
+  created_at: string | null;
+}
+
+export interface WalletPayout {
+  id: string;
+  status: string;
+  amount: number;
+  phone_number: string;
+  mpesa_transaction_id: string | null;
+  result_desc: string | null;
+}
+
+/** One line of the farmer's wallet statement */
+export interface WalletEntry {
+  id: string;
+  kind: LedgerKind;
+  // Positive when money came into the wallet
+  amount: number;
+  description: string | null;
+  createdAt: string | null;
+  payoutStatus?: PayoutStatus;
+  mpesaTransactionId?: string | null;
+}
+
+export interface WithdrawalResult {
+  payoutId: string | null;
+  status: PayoutStatus;
+  error?: string;
+}
+
+const EMPTY_SUMMARY: WalletSummary = { availableBalance: 0, inTransit: 0, totalEarned: 0, totalWithdrawn: 0 };
+
+export const fetchWalletSummary = async (): Promise<WalletSummary> => {
+  const { data, error } = await supabase.rpc('get_wallet_summary');
+  if (error) {
+    logger.error('Error fetching wallet summary:', error);
+    return EMPTY_SUMMARY;
+  }
+
+  const row = data?.[0];
+  if (!row) return EMPTY_SUMMARY;
+  return {
+    availableBalance: Number(row.available_balance),
+    inTransit: Number(row.in_transit),
+    totalEarned: Number(row.total_earned),
+    totalWithdrawn: Number(row.total_withdrawn),
+  };
+};
+
+/**
+ * Turn the farmer_wallet legs of the ledger into statement lines, attaching
+ * the payout status and M-Pesa transaction id to withdrawals
+ */
+export const toWalletEntries = (transactions: LedgerTransaction[], payouts: WalletPayout[]): WalletEntry[] => {
+  const payoutsById = new Map(payouts.map((payout) => [payout.id, payout]));
+
+  return transactions.map((tx) => {
+    const payout = tx.payout_id ? payoutsById.get(tx.payout_id) : undefined;
+    return {
+      id: tx.id,
+      kind: tx.kind as LedgerKind,
+      amount: tx.direction === 'credit' ? Number(tx.amount) : -Number(tx.amount),
+      description: tx.description,
+      createdAt: tx.created_at,
+      payoutStatus: payout?.status as PayoutStatus | undefined,
+      mpesaTransactionId: payout?.mpesa_transaction_id,
+    };
+  });
+};
+
+export const fetchWalletHistory = async (userId: string, limit = 30): Promise<WalletEntry[]> => {
+  const { data: transactions, error } = await supabase
+    .from('wallet_transactions')
+    .select('id, kind, direction, amount, description, payout_id, created_at')
+    .eq('user_id', userId)
+    .eq('account', 'farmer_wallet')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    logger.error('Error fetching wallet history:', error);
+    return [];
+  }
+
+  const payoutIds = [...new Set(transactions.map((tx) => tx.payout_id).filter(Boolean))];
+  let payouts: WalletPayout[] = [];
+  if (payoutIds.length > 0) {
+    const { data, error: payoutError } = await supabase
+      .from('wallet_payouts')
+      .select('id, status, amount, phone_number, mpesa_transaction_id, result_desc')
+      .in('id', payoutIds);
+    if (payoutError) {
+      logger.warn('Error fetching payouts:', payoutError);
+    }
+    payouts = data ?? [];
+  }
+
+  return toWalletEntries(transactions, payouts);
+};
+
+/**
+ * Ask for a B2C payout. Retrying with the same idempotency key returns the
+ * original payout, so a double tap never pays twice.
+ */
+export const requestWithdrawal = async ({
+  amount,
+  phoneNumber,
+  idempotencyKey,
+}: {
+  amount: number;
+  phoneNumber: string;
+  idempotencyKey: string;
+}): Promise<WithdrawalResult> => {
+  const { data, error } = await supabase.functions.invoke('mpesa-b2c-payout', {
+    body: { amount, phoneNumber, idempotencyKey },
+  });
+
+  if (error) {
+    const { message, body } = await readFunctionError(error);
+    logger.error('M-Pesa withdrawal failed:', message);
+    return { payoutId: (body?.payoutId as string) ?? null, status: 'failed', error: message };
+  }
+  return { payoutId: data.payoutId, status: data.status };
+};
+
+/**
+ * Call onChange whenever one of the farmer's payouts changes status.
+ * Returns a function that stops listening.
+ */
+export const watchPayouts = (userId: string, onChange: (payout: WalletPayout) => void): (() => void) => {
+  const channel = supabase
+    .channel(`wallet-payouts-${userId}`)
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'wallet_payouts', filter: `user_id=eq.${userId}` },
+      (payload) => onChange(payload.new as WalletPayout)
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
@@ -0,0 +1,47 @@
+/**
+ * CORS headers shared by browser-facing edge functions
+ *
+ * Allowed origins can be set via ALLOWED_ORIGINS (comma-separated). Without it
+ * every origin is allowed, which is safe because the functions require a
+ * Supabase JWT. Returns null when the request origin is not allowed.
+ */
+
+// Deno global type declaration for TypeScript
+declare const Deno: {
+  env: {
+    get(key: string): string | undefined;
+  };
+};
+
+export const getCorsHeaders = (origin: string | null): Record<string, string> | null => {
+  const allowedOrigins = (Deno.env.get('ALLOWED_ORIGINS') ?? '')
+    .split(',')
+    .map((o) => o.trim())
+    .filter(Boolean);
+
+  let corsOrigin: string;
+  if (allowedOrigins.length === 0 || !origin) {
+    corsOrigin = '*';
+  } else if (allowedOrigins.includes(origin)) {
+    corsOrigin = origin;
+  } else {
+    return null;
+  }
+
+  return {
+    'Access-Control-Allow-Origin': corsOrigin,
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Max-Age': '86400', // Cache preflight for 24 hours
+  };
+};
+
+export const jsonResponse = (
+  body: unknown,
+  status: number,
+  corsHeaders: Record<string, string> = {}
+): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
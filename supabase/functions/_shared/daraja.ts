@@ -0,0 +1,336 @@
+/**
+ * Safaricom Daraja (M-Pesa) helpers shared by the payment edge functions
+ *
+ * Environment Variables Required:
+ * - MPESA_CONSUMER_KEY, MPESA_CONSUMER_SECRET: Daraja app credentials
+ * - MPESA_SHORTCODE: Paybill or till number receiving payments
+ * - MPESA_PASSKEY: Lipa na M-Pesa Online passkey for the shortcode
+ *
+ * Environment Variables Optional:
+ * - MPESA_BASE_URL: Daraja host, defaults to the Safaricom sandbox. Point it at
+ *   scripts/daraja-sandbox-stub.mjs to test without Safaricom.
+ * - MPESA_TRANSACTION_TYPE: CustomerPayBillOnline (default) or CustomerBuyGoodsOnline
+ * - MPESA_CALLBACK_URL: Public URL of the mpesa-callback function, defaults to
+ *   $SUPABASE_URL/functions/v1/mpesa-callback
+ * - MPESA_CALLBACK_TOKEN: Shared secret appended to the callback URL, since
+ *   Daraja does not sign callbacks
+ *
+ * Reward payouts (B2C) additionally need:
+ * - MPESA_INITIATOR_NAME, MPESA_SECURITY_CREDENTIAL: B2C initiator and its
+ *   encrypted password from the Daraja portal
+ * - MPESA_B2C_SHORTCODE: Paying shortcode, defaults to MPESA_SHORTCODE
+ */
+
+// @ts-expect-error - Deno runtime types
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Deno global type declaration for TypeScript
+declare const Deno: {
+  env: {
+    get(key: string): string | undefined;
+  };
+};
+
+const DEFAULT_BASE_URL = 'https://sandbox.safaricom.co.ke';
+
+export type OrderStatus = 'pending' | 'paid' | 'failed' | 'cancelled';
+
+// Daraja result codes with a specific meaning for the farmer
+const RESULT_CODE_SUCCESS = 0;
+const RESULT_CODE_CANCELLED_BY_USER = 1032;
+
+export interface StkPushResponse {
+  MerchantRequestID: string;
+  CheckoutRequestID: string;
+  ResponseCode: string;
+  ResponseDescription: string;
+  CustomerMessage: string;
+}
+
+export interface StkResult {
+  checkoutRequestId: string;
+  resultCode: number;
+  resultDesc: string;
+  receiptNumber?: string;
+  amount?: number;
+}
+
+const getBaseUrl = () => (Deno.env.get('MPESA_BASE_URL') || DEFAULT_BASE_URL).replace(/\/$/, '');
+
+const requireEnv = (key: string): string => {
+  const value = Deno.env.get(key);
+  if (!value) {
+    console.error(`${key} not configured`);
+    throw new Error('M-Pesa is not configured');
+  }
+  return value;
+};
+
+/**
+ * Convert 07XX / 01XX / +254 numbers to the 2547XXXXXXXX form Daraja expects
+ */
+export function normalizePhoneNumber(input: string): string | null {
+  const digits = input.replace(/[\s-]/g, '').replace(/^\+/, '');
+  const match = digits.match(/^(?:254|0)?([17]\d{8})$/);
+  return match ? `254${match[1]}` : null;
+}
+
+/**
+ * Whole shillings to charge for an order. Prices are listed to the cent but
+ * M-Pesa only moves whole shillings, so the total is rounded up once.
+ * Mirrored by orderTotal in src/utils/mpesaPayments.ts.
+ */
+export function orderAmount(unitPrice: number, quantity: number): number {
+  // In cents first so 1.15 × 100 doesn't round up to 116
+  return Math.ceil((Math.round(unitPrice * 100) * quantity) / 100);
+}
+
+/**
+ * Daraja timestamp in East Africa Time (UTC+3, no daylight saving)
+ */
+export function darajaTimestamp(date = new Date()): string {
+  const eat = new Date(date.getTime() + 3 * 60 * 60 * 1000);
+  return eat.toISOString().replace(/[-:T]/g, '').slice(0, 14);
+}
+
+/**
+ * Map a Daraja result code to the order status shown to the farmer
+ */
+export function resolveOrderStatus(resultCode: number): OrderStatus {
+  if (resultCode === RESULT_CODE_SUCCESS) return 'paid';
+  if (resultCode === RESULT_CODE_CANCELLED_BY_USER) return 'cancelled';
+  return 'failed';
+}
+
+async function getAccessToken(): Promise<string> {
+  const key = requireEnv('MPESA_CONSUMER_KEY');
+  const secret = requireEnv('MPESA_CONSUMER_SECRET');
+
+  const response = await fetch(`${getBaseUrl()}/oauth/v1/generate?grant_type=client_credentials`, {
+    headers: { Authorization: `Basic ${btoa(`${key}:${secret}`)}` },
+  });
+  if (!response.ok) {
+    console.error('Daraja OAuth error:', response.status, await response.text());
+    throw new Error('Could not authenticate with M-Pesa');
+  }
+
+  const { access_token } = await response.json();
+  return access_token;
+}
+
+function getStkCredentials() {
+  const shortcode = requireEnv('MPESA_SHORTCODE');
+  const passkey = requireEnv('MPESA_PASSKEY');
+  const timestamp = darajaTimestamp();
+  return {
+    BusinessShortCode: shortcode,
+    Password: btoa(`${shortcode}${passkey}${timestamp}`),
+    Timestamp: timestamp,
+  };
+}
+
+function getCallbackUrl(): string {
+  const base = Deno.env.get('MPESA_CALLBACK_URL') || `${requireEnv('SUPABASE_URL')}/functions/v1/mpesa-callback`;
+  const token = Deno.env.get('MPESA_CALLBACK_TOKEN');
+  return token ? `${base}?token=${encodeURIComponent(token)}` : base;
+}
+
+/**
+ * Send the Lipa na M-Pesa Online prompt to the farmer's phone
+ */
+export async function requestStkPush({
+  phoneNumber,
+  amount,
+  accountReference,
+  description,
+}: {
+  phoneNumber: string;
+  amount: number;
+  accountReference: string;
+  description: string;
+}): Promise<StkPushResponse> {
+  const token = await getAccessToken();
+  const credentials = getStkCredentials();
+
+  const response = await fetch(`${getBaseUrl()}/mpesa/stkpush/v1/processrequest`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      ...credentials,
+      TransactionType: Deno.env.get('MPESA_TRANSACTION_TYPE') || 'CustomerPayBillOnline',
+      Amount: amount,
+      PartyA: phoneNumber,
+      PartyB: credentials.BusinessShortCode,
+      PhoneNumber: phoneNumber,
+      CallBackURL: getCallbackUrl(),
+      // Daraja limits these to 12 and 13 characters
+      AccountReference: accountReference.slice(0, 12),
+      TransactionDesc: description.slice(0, 13),
+    }),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || data.ResponseCode !== '0') {
+    console.error('Daraja STK push error:', response.status, data);
+    throw new Error(data.errorMessage || data.ResponseDescription || 'M-Pesa request failed');
+  }
+  return data as StkPushResponse;
+}
+
+/**
+ * Ask Daraja for the outcome of an STK push whose callback has not arrived.
+ * Returns null while the farmer has not answered the prompt yet.
+ */
+export async function queryStkPush(checkoutRequestId: string): Promise<StkResult | null> {
+  const token = await getAccessToken();
+
+  const response = await fetch(`${getBaseUrl()}/mpesa/stkpushquery/v1/query`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...getStkCredentials(), CheckoutRequestID: checkoutRequestId }),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (data.ResultCode === undefined) {
+    // "The transaction is being processed" comes back as an error payload
+    return null;
+  }
+  return {
+    checkoutRequestId,
+    resultCode: Number(data.ResultCode),
+    resultDesc: data.ResultDesc ?? '',
+  };
+}
+
+export interface B2CResult {
+  originatorConversationId: string;
+  conversationId: string;
+  resultCode: number;
+  resultDesc: string;
+  transactionId?: string;
+}
+
+/**
+ * Send money from the business shortcode to a farmer's M-Pesa. The payout id
+ * is used as OriginatorConversationID so Daraja rejects accidental repeats.
+ */
+export async function requestB2CPayment({
+  payoutId,
+  phoneNumber,
+  amount,
+  remarks,
+}: {
+  payoutId: string;
+  phoneNumber: string;
+  amount: number;
+  remarks: string;
+}): Promise<{ ConversationID: string; OriginatorConversationID: string }> {
+  const token = await getAccessToken();
+  const callbackUrl = getCallbackUrl();
+
+  const response = await fetch(`${getBaseUrl()}/mpesa/b2c/v3/paymentrequest`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      OriginatorConversationID: payoutId,
+      InitiatorName: requireEnv('MPESA_INITIATOR_NAME'),
+      SecurityCredential: requireEnv('MPESA_SECURITY_CREDENTIAL'),
+      CommandID: 'BusinessPayment',
+      Amount: amount,
+      PartyA: Deno.env.get('MPESA_B2C_SHORTCODE') || requireEnv('MPESA_SHORTCODE'),
+      PartyB: phoneNumber,
+      Remarks: remarks.slice(0, 100),
+      QueueTimeOutURL: callbackUrl,
+      ResultURL: callbackUrl,
+      Occasion: 'LeafSwipe rewards',
+    }),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || data.ResponseCode !== '0') {
+    console.error('Daraja B2C error:', response.status, data);
+    throw new Error(data.errorMessage || data.ResponseDescription || 'M-Pesa payout failed');
+  }
+  return data;
+}
+
+/**
+ * Read a B2C result posted to the callback URL
+ */
+export function parseB2CResult(body: unknown): B2CResult | null {
+  const result = (body as { Result?: Record<string, unknown> })?.Result;
+  if (!result || typeof result.OriginatorConversationID !== 'string') return null;
+
+  return {
+    originatorConversationId: result.OriginatorConversationID,
+    conversationId: String(result.ConversationID ?? ''),
+    resultCode: Number(result.ResultCode),
+    resultDesc: String(result.ResultDesc ?? ''),
+    transactionId: result.TransactionID ? String(result.TransactionID) : undefined,
+  };
+}
+
+interface CallbackItem {
+  Name: string;
+  Value?: string | number;
+}
+
+/**
+ * Read the result out of the body Daraja posts to the callback URL
+ */
+export function parseStkCallback(body: unknown): StkResult | null {
+  const callback = (body as { Body?: { stkCallback?: Record<string, unknown> } })?.Body?.stkCallback;
+  if (!callback || typeof callback.CheckoutRequestID !== 'string') return null;
+
+  const items = ((callback.CallbackMetadata as { Item?: CallbackItem[] })?.Item ?? []);
+  const item = (name: string) => items.find((entry) => entry.Name === name)?.Value;
+
+  return {
+    checkoutRequestId: callback.CheckoutRequestID,
+    resultCode: Number(callback.ResultCode),
+    resultDesc: String(callback.ResultDesc ?? ''),
+    receiptNumber: item('MpesaReceiptNumber') !== undefined ? String(item('MpesaReceiptNumber')) : undefined,
+    amount: item('Amount') !== undefined ? Number(item('Amount')) : undefined,
+  };
+}
+
+/**
+ * Record an STK result on its order. Only pending orders change, so repeated
+ * callbacks and status queries are harmless.
+ */
+export async function applyStkResult(
+  supabase: SupabaseClient,
+  result: StkResult
+): Promise<{ orderId: string; status: OrderStatus } | null> {
+  const { data: order, error } = await supabase
+    .from('orders')
+    .select('id, amount, status')
+    .eq('checkout_request_id', result.checkoutRequestId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!order) return null;
+  if (order.status !== 'pending') return { orderId: order.id, status: order.status };
+
+  let status = resolveOrderStatus(result.resultCode);
+  let resultDesc = result.resultDesc;
+  if (status === 'paid' && result.amount !== undefined && result.amount < order.amount) {
+    status = 'failed';
+    resultDesc = `Paid KSh ${result.amount} of KSh ${order.amount}`;
+  }
+
+  const { error: updateError } = await supabase
+    .from('orders')
+    .update({
+      status,
+      result_code: result.resultCode,
+      result_desc: resultDesc,
+      mpesa_receipt_number: result.receiptNumber ?? null,
+      paid_at: status === 'paid' ? new Date().toISOString() : null,
+    })
+    .eq('id', order.id)
+    .eq('status', 'pending');
+
+  if (updateError) throw updateError;
+  return { orderId: order.id, status };
+}
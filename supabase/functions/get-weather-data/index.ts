@@ -344,6 +344,8 @@ interface DailyData {
     main: string;
     description: string;
   }>;
+  rain?: number; // mm, omitted on dry days
+  pop?: number; // probability of precipitation, 0-1
 }
 
 /**
@@ -0,0 +1,144 @@
+/**
+ * Supabase Edge Function: M-Pesa B2C Payout
+ *
+ * Withdraws rewards from a farmer's wallet to their M-Pesa number.
+ *
+ * POST { amount, phoneNumber, idempotencyKey } -> { payoutId, status, amount }
+ *
+ * create_wallet_payout reserves the funds in the ledger; repeating a request
+ * with the same idempotencyKey (double taps, retries after a dropped
+ * connection) returns the same payout and never sends money twice. The
+ * mpesa-callback function settles the payout with the M-Pesa transaction id.
+ *
+ * Environment Variables Required:
+ * - SUPABASE_URL, SUPABASE_ANON_KEY, SUPABASE_SERVICE_ROLE_KEY (set by Supabase)
+ * - Daraja B2C credentials, see ../_shared/daraja.ts
+ *
+ * Environment Variables Optional:
+ * - MIN_WITHDRAWAL_KES: Smallest withdrawal allowed (default 10, the M-Pesa minimum)
+ */
+
+// @ts-expect-error - Deno runtime types
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+// @ts-expect-error - Deno runtime types
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getCorsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { normalizePhoneNumber, requestB2CPayment } from "../_shared/daraja.ts";
+
+// Deno global type declaration for TypeScript
+declare const Deno: {
+  env: {
+    get(key: string): string | undefined;
+  };
+};
+
+// M-Pesa B2C limits per transaction
+const DEFAULT_MIN_WITHDRAWAL_KES = 10;
+const MAX_WITHDRAWAL_KES = 150000;
+
+serve(async (req: Request) => {
+  const corsHeaders = getCorsHeaders(req.headers.get('origin'));
+
+  if (req.method === 'OPTIONS') {
+    return corsHeaders ? new Response(null, { headers: corsHeaders }) : new Response(null, { status: 403 });
+  }
+  if (corsHeaders === null) {
+    return jsonResponse({ error: 'Origin not allowed' }, 403);
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY'), {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+  });
+  const { data: { user } } = await userClient.auth.getUser();
+  if (!user) {
+    return jsonResponse({ error: 'Sign in to withdraw rewards' }, 401, corsHeaders);
+  }
+
+  const supabase = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY'));
+
+  try {
+    const body = await req.json();
+    const amount = Number(body.amount);
+    const phoneNumber = normalizePhoneNumber(String(body.phoneNumber ?? ''));
+    const idempotencyKey = String(body.idempotencyKey ?? '').trim();
+    const minWithdrawal = Number(Deno.env.get('MIN_WITHDRAWAL_KES')) || DEFAULT_MIN_WITHDRAWAL_KES;
+
+    if (!idempotencyKey || idempotencyKey.length > 100) {
+      return jsonResponse({ error: 'idempotencyKey is required' }, 400, corsHeaders);
+    }
+    if (!phoneNumber) {
+      return jsonResponse({ error: 'Enter a Safaricom number like 0712345678' }, 400, corsHeaders);
+    }
+    // B2C only moves whole shillings
+    if (!Number.isInteger(amount) || amount < minWithdrawal || amount > MAX_WITHDRAWAL_KES) {
+      return jsonResponse(
+        { error: `Withdraw a whole amount between KSh ${minWithdrawal} and KSh ${MAX_WITHDRAWAL_KES}` },
+        400,
+        corsHeaders
+      );
+    }
+
+    const { data: created, error: createError } = await supabase.rpc('create_wallet_payout', {
+      p_user_id: user.id,
+      p_amount: amount,
+      p_phone_number: phoneNumber,
+      p_idempotency_key: idempotencyKey,
+    });
+    if (createError) {
+      if (createError.message?.includes('Insufficient balance')) {
+        return jsonResponse({ error: 'Insufficient balance' }, 409, corsHeaders);
+      }
+      throw createError;
+    }
+    const payout = created[0];
+
+    // Only the request that moves the payout out of 'pending' talks to M-Pesa
+    const { data: claimed, error: claimError } = await supabase
+      .from('wallet_payouts')
+      .update({ status: 'processing' })
+      .eq('id', payout.id)
+      .eq('status', 'pending')
+      .select('id');
+    if (claimError) throw claimError;
+
+    if (!claimed || claimed.length === 0) {
+      return jsonResponse({ payoutId: payout.id, status: payout.status, amount: payout.amount }, 200, corsHeaders);
+    }
+
+    try {
+      const result = await requestB2CPayment({
+        payoutId: payout.id,
+        phoneNumber: payout.phone_number,
+        amount: Number(payout.amount),
+        remarks: 'LeafSwipe tree planting rewards',
+      });
+      await supabase
+        .from('wallet_payouts')
+        .update({ conversation_id: result.ConversationID })
+        .eq('id', payout.id);
+
+      return jsonResponse({ payoutId: payout.id, status: 'processing', amount: payout.amount }, 200, corsHeaders);
+    } catch (payoutError) {
+      // A dropped connection may still have reached Daraja; leave the payout
+      // processing for its callback rather than risk paying twice
+      if (payoutError instanceof TypeError) {
+        console.error('B2C request did not complete:', payoutError);
+        return jsonResponse({ payoutId: payout.id, status: 'processing', amount: payout.amount }, 202, corsHeaders);
+      }
+
+      // Daraja refused the request outright, so no money moved: return the funds
+      const message = payoutError instanceof Error ? payoutError.message : 'M-Pesa payout failed';
+      await supabase.rpc('settle_wallet_payout', {
+        p_payout_id: payout.id,
+        p_success: false,
+        p_result_desc: message,
+      });
+      return jsonResponse({ payoutId: payout.id, status: 'failed', error: message }, 502, corsHeaders);
+    }
+  } catch (error) {
+    console.error('Error processing withdrawal:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return jsonResponse({ error: errorMessage }, 500, corsHeaders);
+  }
+});
@@ -0,0 +1,84 @@
+/**
+ * Supabase Edge Function: M-Pesa Callback
+ *
+ * Webhook Daraja calls with the result of an STK push or a B2C payout.
+ * STK results mark the matching order as paid, failed or cancelled; the
+ * purchase dialog picks the change up over realtime. B2C results settle the
+ * wallet payout in the rewards ledger.
+ *
+ * Deployed with verify_jwt = false because Safaricom cannot send a Supabase
+ * JWT. When MPESA_CALLBACK_TOKEN is set, requests must carry it as ?token=.
+ */
+
+// @ts-expect-error - Deno runtime types
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+// @ts-expect-error - Deno runtime types
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { jsonResponse } from "../_shared/cors.ts";
+import { applyStkResult, parseB2CResult, parseStkCallback } from "../_shared/daraja.ts";
+
+// Deno global type declaration for TypeScript
+declare const Deno: {
+  env: {
+    get(key: string): string | undefined;
+  };
+};
+
+// The callback can beat the STK push function storing its CheckoutRequestID
+const ORDER_LOOKUP_RETRY_MS = 2000;
+
+// Daraja only needs to know the callback was received
+const ACCEPTED = { ResultCode: 0, ResultDesc: 'Accepted' };
+
+serve(async (req: Request) => {
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const expectedToken = Deno.env.get('MPESA_CALLBACK_TOKEN');
+  if (expectedToken && new URL(req.url).searchParams.get('token') !== expectedToken) {
+    console.warn('Rejected M-Pesa callback with an invalid token');
+    return jsonResponse({ ResultCode: 1, ResultDesc: 'Rejected' }, 403);
+  }
+
+  try {
+    const body = await req.json();
+    const supabase = createClient(Deno.env.get('SUPABASE_URL'), Deno.env.get('SUPABASE_SERVICE_ROLE_KEY'));
+
+    const payout = parseB2CResult(body);
+    if (payout) {
+      // OriginatorConversationID is the wallet_payouts id
+      const { data, error } = await supabase.rpc('settle_wallet_payout', {
+        p_payout_id: payout.originatorConversationId,
+        p_success: payout.resultCode === 0,
+        p_mpesa_transaction_id: payout.transactionId ?? null,
+        p_result_code: payout.resultCode,
+        p_result_desc: payout.resultDesc,
+      });
+      if (error) throw error;
+      console.log('M-Pesa payout settled:', data?.[0]?.id, data?.[0]?.status);
+      return jsonResponse(ACCEPTED, 200);
+    }
+
+    const result = parseStkCallback(body);
+    if (!result) {
+      return jsonResponse({ ResultCode: 1, ResultDesc: 'Invalid callback' }, 400);
+    }
+
+    let applied = await applyStkResult(supabase, result);
+    if (!applied) {
+      await new Promise((resolve) => setTimeout(resolve, ORDER_LOOKUP_RETRY_MS));
+      applied = await applyStkResult(supabase, result);
+    }
+
+    if (applied) {
+      console.log('M-Pesa callback applied:', applied);
+    } else {
+      console.warn('M-Pesa callback for unknown checkout request:', result.checkoutRequestId);
+    }
+    return jsonResponse(ACCEPTED, 200);
+  } catch (error) {
+    console.error('Error handling M-Pesa callback:', error);
+    return jsonResponse({ ResultCode: 1, ResultDesc: 'Internal error' }, 500);
+  }
+});
@@ -0,0 +1,175 @@
+/**
+ * Supabase Edge Function: M-Pesa STK Push
+ *
+ * Creates a pending seedling order and sends the Lipa na M-Pesa Online prompt
+ * to the buyer's phone. The mpesa-callback function settles the order.
+ *
+ * POST { treeSlug, quantity, phoneNumber } -> { orderId, status, customerMessage }
+ * POST { orderId } -> { orderId, status }
+ *   Asks Daraja for the result of a pending order whose callback has not
+ *   arrived yet (e.g. when the callback URL is unreachable in development).
+ *
+ * Environment Variables Required:
+ * - SUPABASE_URL, SUPABASE_ANON_KEY, SUPABASE_SERVICE_ROLE_KEY (set by Supabase)
+ * - Daraja credentials, see ../_shared/daraja.ts
+ */
+
+// @ts-expect-error - Deno runtime types
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+// @ts-expect-error - Deno runtime types
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getCorsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { applyStkResult, normalizePhoneNumber, orderAmount, queryStkPush, requestStkPush } from "../_shared/daraja.ts";
+
+// Deno global type declaration for TypeScript
+declare const Deno: {
+  env: {
+    get(key: string): string | undefined;
+  };
+};
+
+const MAX_QUANTITY = 1000;
+
+// One STK prompt every 20 seconds per user is plenty for a real purchase
+const RATE_LIMIT_WINDOW_MS = 20 * 1000;
+const lastPushByUser: Record<string, number> = {};
+
+serve(async (req: Request) => {
+  const corsHeaders = getCorsHeaders(req.headers.get('origin'));
+
+  if (req.method === 'OPTIONS') {
+    return corsHeaders ? new Response(null, { headers: corsHeaders }) : new Response(null, { status: 403 });
+  }
+  if (corsHeaders === null) {
+    return jsonResponse({ error: 'Origin not allowed' }, 403);
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const authHeader = req.headers.get('Authorization') ?? '';
+  const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY'), {
+    global: { headers: { Authorization: authHeader } },
+  });
+  const { data: { user } } = await userClient.auth.getUser();
+  if (!user) {
+    return jsonResponse({ error: 'Sign in to buy seedlings' }, 401, corsHeaders);
+  }
+
+  const supabase = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY'));
+
+  try {
+    const body = await req.json();
+
+    if (body.orderId) {
+      return await checkOrder(supabase, user.id, String(body.orderId), corsHeaders);
+    }
+
+    const now = Date.now();
+    if (lastPushByUser[user.id] && now - lastPushByUser[user.id] < RATE_LIMIT_WINDOW_MS) {
+      return jsonResponse({ error: 'Please wait before requesting another M-Pesa prompt' }, 429, corsHeaders);
+    }
+
+    const phoneNumber = normalizePhoneNumber(String(body.phoneNumber ?? ''));
+    const quantity = Number(body.quantity);
+    if (!phoneNumber) {
+      return jsonResponse({ error: 'Enter a Safaricom number like 0712345678' }, 400, corsHeaders);
+    }
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_QUANTITY) {
+      return jsonResponse({ error: `Quantity must be between 1 and ${MAX_QUANTITY}` }, 400, corsHeaders);
+    }
+
+    // Price comes from the registry, never from the client
+    const { data: tree, error: treeError } = await supabase
+      .from('tree_species')
+      .select('id, slug, english_name, price')
+      .eq('slug', String(body.treeSlug ?? ''))
+      .eq('is_active', true)
+      .maybeSingle();
+    if (treeError) throw treeError;
+    if (!tree) {
+      return jsonResponse({ error: 'This tree is not for sale' }, 404, corsHeaders);
+    }
+    const unitPrice = Number(tree.price);
+    if (!(unitPrice > 0)) {
+      return jsonResponse({ error: 'This tree has no price yet' }, 400, corsHeaders);
+    }
+
+    // The order row and the STK prompt carry the same whole-shilling amount
+    const amount = orderAmount(unitPrice, quantity);
+
+    const { data: order, error: orderError } = await supabase
+      .from('orders')
+      .insert({
+        user_id: user.id,
+        tree_id: tree.id,
+        quantity,
+        unit_price: unitPrice,
+        amount,
+        phone_number: phoneNumber,
+      })
+      .select('id')
+      .single();
+    if (orderError) throw orderError;
+
+    lastPushByUser[user.id] = now;
+
+    try {
+      const push = await requestStkPush({
+        phoneNumber,
+        amount,
+        accountReference: tree.slug,
+        description: 'Seedlings',
+      });
+
+      await supabase
+        .from('orders')
+        .update({
+          merchant_request_id: push.MerchantRequestID,
+          checkout_request_id: push.CheckoutRequestID,
+        })
+        .eq('id', order.id);
+
+      return jsonResponse(
+        { orderId: order.id, status: 'pending', customerMessage: push.CustomerMessage },
+        200,
+        corsHeaders
+      );
+    } catch (pushError) {
+      const message = pushError instanceof Error ? pushError.message : 'M-Pesa request failed';
+      await supabase
+        .from('orders')
+        .update({ status: 'failed', result_desc: message })
+        .eq('id', order.id);
+      return jsonResponse({ orderId: order.id, status: 'failed', error: message }, 502, corsHeaders);
+    }
+  } catch (error) {
+    console.error('Error starting M-Pesa payment:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return jsonResponse({ error: errorMessage }, 500, corsHeaders);
+  }
+});
+
+/**
+ * Reconcile one of the caller's pending orders with Daraja
+ */
+async function checkOrder(supabase: SupabaseClient, userId: string, orderId: string, corsHeaders: Record<string, string>) {
+  const { data: order, error } = await supabase
+    .from('orders')
+    .select('id, status, checkout_request_id')
+    .eq('id', orderId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!order) {
+    return jsonResponse({ error: 'Order not found' }, 404, corsHeaders);
+  }
+
+  if (order.status === 'pending' && order.checkout_request_id) {
+    const result = await queryStkPush(order.checkout_request_id);
+    if (result) {
+      const applied = await applyStkResult(supabase, result);
+      if (applied) return jsonResponse(applied, 200, corsHeaders);
+    }
+  }
+
+  return jsonResponse({ orderId: order.id, status: order.status }, 200, corsHeaders);
+}
@@ -0,0 +1,178 @@
+/**
+ * Supabase Edge Function: Recognize Tree
+ *
+ * Runs tree recognition on a verification photo and stores the species
+ * candidates, health and growth stage in verification_ai_results for
+ * moderators.
+ *
+ * POST { verification_id } -> { status, species }
+ *
+ * Called by the request_verification_recognition trigger (through pg_net)
+ * when a submission is created, with the x-recognition-secret header. Staff
+ * can also call it with their session, to retry from VerificationQueue, for
+ * submissions from counties they moderate.
+ *
+ * Deployed with verify_jwt = false because pg_net has no user session.
+ *
+ * Environment Variables Required:
+ * - SUPABASE_URL, SUPABASE_ANON_KEY, SUPABASE_SERVICE_ROLE_KEY (set by Supabase)
+ * - RECOGNITION_WEBHOOK_SECRET: Shared with the recognize_tree_secret Vault secret
+ * - Model provider settings, see ./providers.ts
+ */
+
+// @ts-expect-error - Deno runtime types
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+// @ts-expect-error - Deno runtime types
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getCorsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { getRecognitionProvider } from "./providers.ts";
+
+// Deno global type declaration for TypeScript
+declare const Deno: {
+  env: {
+    get(key: string): string | undefined;
+  };
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const PHOTO_BUCKET = 'planting-verifications';
+
+/**
+ * Storage path of a photo from its public URL
+ */
+function photoPath(imageUrl: string): string | null {
+  const marker = `/${PHOTO_BUCKET}/`;
+  const index = imageUrl.indexOf(marker);
+  return index >= 0 ? decodeURIComponent(imageUrl.slice(index + marker.length).split('?')[0]) : null;
+}
+
+serve(async (req: Request) => {
+  const corsHeaders = getCorsHeaders(req.headers.get('origin'));
+
+  if (req.method === 'OPTIONS') {
+    return corsHeaders ? new Response(null, { headers: corsHeaders }) : new Response(null, { status: 403 });
+  }
+  if (corsHeaders === null) {
+    return jsonResponse({ error: 'Origin not allowed' }, 403);
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabase = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY'));
+
+  // The database trigger sends the shared secret; anyone else must be staff
+  const secret = Deno.env.get('RECOGNITION_WEBHOOK_SECRET');
+  const fromTrigger = !!secret && req.headers.get('x-recognition-secret') === secret;
+  let staffId: string | null = null;
+  if (!fromTrigger) {
+    const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY'), {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+    });
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401, corsHeaders);
+    }
+    const [{ data: isAdmin }, { data: isModerator }] = await Promise.all([
+      supabase.rpc('has_role', { _user_id: user.id, _role: 'admin' }),
+      supabase.rpc('has_role', { _user_id: user.id, _role: 'moderator' }),
+    ]);
+    if (!isAdmin && !isModerator) {
+      return jsonResponse({ error: 'Only moderators can run recognition' }, 403, corsHeaders);
+    }
+    staffId = user.id;
+  }
+
+  let verificationId: string;
+  try {
+    const body = await req.json();
+    verificationId = String(body.verification_id ?? '');
+  } catch {
+    return jsonResponse({ error: 'Invalid JSON body' }, 400, corsHeaders);
+  }
+  if (!UUID_PATTERN.test(verificationId)) {
+    return jsonResponse({ error: 'verification_id is required' }, 400, corsHeaders);
+  }
+
+  const { data: verification, error: verificationError } = await supabase
+    .from('planting_verifications')
+    .select('id, image_url, county')
+    .eq('id', verificationId)
+    .maybeSingle();
+  if (verificationError) {
+    console.error('Error loading verification:', verificationError);
+    return jsonResponse({ error: 'Could not load verification' }, 500, corsHeaders);
+  }
+  if (!verification) {
+    return jsonResponse({ error: 'Verification not found' }, 404, corsHeaders);
+  }
+  if (staffId) {
+    const { data: inScope } = await supabase.rpc('can_moderate_county', {
+      _user_id: staffId,
+      _county: verification.county,
+    });
+    if (!inScope) {
+      return jsonResponse({ error: 'This submission is outside your counties' }, 403, corsHeaders);
+    }
+  }
+
+  const { data: existing } = await supabase
+    .from('verification_ai_results')
+    .select('attempts')
+    .eq('verification_id', verificationId)
+    .maybeSingle();
+  await supabase
+    .from('verification_ai_results')
+    .upsert(
+      { verification_id: verificationId, status: 'pending', error: null, attempts: (existing?.attempts ?? 0) + 1 },
+      { onConflict: 'verification_id' }
+    );
+
+  const provider = getRecognitionProvider(supabase);
+
+  try {
+    const path = photoPath(verification.image_url);
+    if (!path) throw new Error('Photo is not in verification storage');
+
+    const { data: photo, error: downloadError } = await supabase.storage.from(PHOTO_BUCKET).download(path);
+    if (downloadError) throw new Error(`Could not download photo: ${downloadError.message}`);
+
+    const output = await provider.recognize(new Uint8Array(await photo.arrayBuffer()), photo.type || 'image/jpeg');
+
+    // Name the candidates from the species registry
+    const { data: species } = await supabase
+      .from('tree_species')
+      .select('slug, english_name')
+      .in('slug', output.species.map((candidate) => candidate.id));
+    const names = new Map((species ?? []).map((row: { slug: string; english_name: string }) => [row.slug, row.english_name]));
+    const candidates = output.species.map((candidate) => ({
+      id: candidate.id,
+      name: names.get(candidate.id) ?? candidate.id,
+      confidence: Math.round(candidate.confidence * 1000) / 1000,
+    }));
+
+    const { error: saveError } = await supabase
+      .from('verification_ai_results')
+      .update({
+        status: 'completed',
+        provider: provider.name,
+        model_version: output.modelVersion,
+        species_candidates: candidates,
+        health: output.health,
+        growth_stage: output.growthStage?.stage ?? null,
+        growth_stage_confidence: output.growthStage ? Math.round(output.growthStage.confidence * 1000) / 1000 : null,
+        error: null,
+        completed_at: new Date().toISOString(),
+      })
+      .eq('verification_id', verificationId);
+    if (saveError) throw saveError;
+
+    return jsonResponse({ status: 'completed', species: candidates }, 200, corsHeaders);
+  } catch (error) {
+    console.error(`Recognition failed for ${verificationId}:`, error);
+    const message = error instanceof Error ? error.message : 'Recognition failed';
+    await supabase
+      .from('verification_ai_results')
+      .update({ status: 'failed', provider: provider.name, error: message })
+      .eq('verification_id', verificationId);
+    return jsonResponse({ status: 'failed', error: message }, 502, corsHeaders);
+  }
+});
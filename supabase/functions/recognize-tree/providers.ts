@@ -0,0 +1,258 @@
+/**
+ * Tree recognition model providers for the recognize-tree function
+ *
+ * Environment Variables Optional:
+ * - RECOGNITION_PROVIDER: 'http' (default) or 'onnx'
+ * - RECOGNITION_ENDPOINT: URL the http provider posts photos to. Point it at
+ *   scripts/recognition-stub.mjs to test without a model server.
+ * - RECOGNITION_API_KEY: Sent to the endpoint as a bearer token
+ * - RECOGNITION_TIMEOUT_MS: How long to wait for the endpoint (default 30000)
+ * - RECOGNITION_MODEL_PATH: Folder in the ml-models bucket holding the onnx
+ *   provider's model.onnx and metadata.json (default tree-species)
+ */
+
+// @ts-expect-error - Deno runtime types
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Deno global type declaration for TypeScript
+declare const Deno: {
+  env: {
+    get(key: string): string | undefined;
+  };
+};
+
+export type GrowthStage = 'seedling' | 'sapling' | 'young' | 'mature';
+
+const GROWTH_STAGES: GrowthStage[] = ['seedling', 'sapling', 'young', 'mature'];
+
+export interface RecognitionOutput {
+  modelVersion: string | null;
+  // tree_species slugs, most likely first
+  species: { id: string; confidence: number }[];
+  health: { isHealthy: boolean; confidence: number; issues: string[] } | null;
+  growthStage: { stage: GrowthStage; confidence: number } | null;
+}
+
+export interface RecognitionProvider {
+  name: 'http' | 'onnx';
+  recognize(image: Uint8Array, contentType: string): Promise<RecognitionOutput>;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const MAX_SPECIES_CANDIDATES = 3;
+// Species and health problems below these probabilities are left out
+const MIN_SPECIES_CONFIDENCE = 0.05;
+const MIN_ISSUE_CONFIDENCE = 0.2;
+
+const HEALTH_ISSUE_LABELS: Record<string, string> = {
+  leaf_discolouration: 'Brown or discolored leaves detected',
+  pest_damage: 'Possible pest damage detected',
+  wilting: 'Wilting or drought stress detected',
+  disease: 'Signs of disease detected',
+};
+
+const clamp01 = (value: unknown) => Math.min(1, Math.max(0, Number(value) || 0));
+
+/**
+ * Check an endpoint's answer and keep only what we store
+ */
+export function parseRecognitionResponse(body: unknown): RecognitionOutput {
+  if (!body || typeof body !== 'object') {
+    throw new Error('Recognition endpoint returned no result');
+  }
+  const result = body as Record<string, unknown>;
+  if (!Array.isArray(result.species)) {
+    throw new Error('Recognition endpoint returned no species');
+  }
+
+  const species = result.species
+    .filter((candidate) => candidate && typeof candidate.id === 'string')
+    .map((candidate) => ({ id: candidate.id as string, confidence: clamp01(candidate.confidence) }))
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, MAX_SPECIES_CANDIDATES);
+
+  const health = result.health as Record<string, unknown> | undefined;
+  const growthStage = result.growth_stage as Record<string, unknown> | undefined;
+
+  return {
+    modelVersion: typeof result.model_version === 'string' ? result.model_version : null,
+    species,
+    health: health && typeof health.isHealthy === 'boolean'
+      ? {
+        isHealthy: health.isHealthy,
+        confidence: clamp01(health.confidence),
+        issues: Array.isArray(health.issues) ? health.issues.map(String) : [],
+      }
+      : null,
+    growthStage: growthStage && GROWTH_STAGES.includes(growthStage.stage as GrowthStage)
+      ? { stage: growthStage.stage as GrowthStage, confidence: clamp01(growthStage.confidence) }
+      : null,
+  };
+}
+
+/**
+ * Posts the photo to a model server. The endpoint receives the raw image
+ * bytes and answers with JSON:
+ *   { model_version?, species: [{ id, confidence }],
+ *     health?: { isHealthy, confidence, issues }, growth_stage?: { stage, confidence } }
+ */
+const httpProvider = (): RecognitionProvider => ({
+  name: 'http',
+  async recognize(image, contentType) {
+    const endpoint = Deno.env.get('RECOGNITION_ENDPOINT');
+    if (!endpoint) {
+      console.error('RECOGNITION_ENDPOINT not configured');
+      throw new Error('Recognition is not configured');
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': contentType };
+    const apiKey = Deno.env.get('RECOGNITION_API_KEY');
+    if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+    const timeoutMs = Number(Deno.env.get('RECOGNITION_TIMEOUT_MS')) || DEFAULT_TIMEOUT_MS;
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers,
+      body: image,
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`Recognition endpoint returned ${response.status}`);
+    }
+    return parseRecognitionResponse(await response.json());
+  },
+});
+
+/**
+ * Model metadata shipped beside the ONNX model: the input, the output node
+ * of each head and the labels of each head in output order
+ */
+interface OnnxModelMetadata {
+  version: string;
+  inputSize: number;
+  input: string;
+  // 'nhwc' (default, as exported from Keras) or 'nchw'
+  layout?: 'nhwc' | 'nchw';
+  outputs: { species: string; growthStage: string; health: string };
+  labels: { species: string[]; growthStage: GrowthStage[]; health: string[] };
+}
+
+// The parts of onnxruntime-web this provider uses
+interface OrtTensor {
+  readonly data: Float32Array;
+}
+
+interface InferenceSession {
+  run(feeds: Record<string, OrtTensor>): Promise<Record<string, OrtTensor>>;
+}
+
+interface OrtModule {
+  env: { wasm: { numThreads: number } };
+  Tensor: new (type: 'float32', data: Float32Array, dims: number[]) => OrtTensor;
+  InferenceSession: { create(model: Uint8Array): Promise<InferenceSession> };
+}
+
+const argMax = (values: ArrayLike<number>) => {
+  let best = 0;
+  for (let i = 1; i < values.length; i++) {
+    if (values[i] > values[best]) best = i;
+  }
+  return best;
+};
+
+/**
+ * Runs the model stored in the ml-models bucket with onnxruntime-web (WASM).
+ * The model and its runtime are loaded once per function instance.
+ */
+const onnxProvider = (supabase: SupabaseClient): RecognitionProvider => {
+  let loading: Promise<{ ort: OrtModule; session: InferenceSession; metadata: OnnxModelMetadata }> | null = null;
+
+  const load = () => {
+    if (!loading) {
+      loading = (async () => {
+        const folder = Deno.env.get('RECOGNITION_MODEL_PATH') || 'tree-species';
+        const [modelFile, metadataFile] = await Promise.all([
+          supabase.storage.from('ml-models').download(`${folder}/model.onnx`),
+          supabase.storage.from('ml-models').download(`${folder}/metadata.json`),
+        ]);
+        if (modelFile.error || metadataFile.error) {
+          throw new Error(`Recognition model not found in ml-models/${folder}`);
+        }
+
+        // @ts-expect-error - Deno runtime types
+        const ort: OrtModule = await import("https://esm.sh/onnxruntime-web@1.20.1");
+        ort.env.wasm.numThreads = 1;
+        const session = await ort.InferenceSession.create(new Uint8Array(await modelFile.data.arrayBuffer()));
+        const metadata = JSON.parse(await metadataFile.data.text()) as OnnxModelMetadata;
+        return { ort, session, metadata };
+      })().catch((error) => {
+        // Let the next request try again
+        loading = null;
+        throw error;
+      });
+    }
+    return loading;
+  };
+
+  return {
+    name: 'onnx',
+    async recognize(image) {
+      const { ort, session, metadata } = await load();
+      const size = metadata.inputSize;
+
+      // @ts-expect-error - Deno runtime types
+      const { Image } = await import("https://deno.land/x/imagescript@1.3.0/mod.ts");
+      const decoded = await Image.decode(image);
+      const rgba: Uint8ClampedArray = decoded.resize(size, size).bitmap;
+
+      // RGB scaled to [-1, 1], as MobileNet expects
+      const pixels = new Float32Array(size * size * 3);
+      const nchw = metadata.layout === 'nchw';
+      for (let i = 0; i < size * size; i++) {
+        for (let c = 0; c < 3; c++) {
+          const value = rgba[i * 4 + c] / 127.5 - 1;
+          pixels[nchw ? c * size * size + i : i * 3 + c] = value;
+        }
+      }
+      const dims = nchw ? [1, 3, size, size] : [1, size, size, 3];
+      const outputs = await session.run({ [metadata.input]: new ort.Tensor('float32', pixels, dims) });
+
+      const speciesScores = outputs[metadata.outputs.species].data;
+      const stageScores = outputs[metadata.outputs.growthStage].data;
+      const healthScores = outputs[metadata.outputs.health].data;
+      const { labels } = metadata;
+
+      const species = labels.species
+        .map((id, index) => ({ id, confidence: speciesScores[index] }))
+        .filter((candidate) => candidate.confidence >= MIN_SPECIES_CONFIDENCE)
+        .sort((a, b) => b.confidence - a.confidence)
+        .slice(0, MAX_SPECIES_CANDIDATES);
+
+      const healthyIndex = labels.health.indexOf('healthy');
+      const healthy = healthyIndex >= 0 ? healthScores[healthyIndex] : 0;
+      const issues = labels.health
+        .map((label, index) => ({ label, probability: healthScores[index] }))
+        .filter(({ label, probability }) => label !== 'healthy' && probability >= MIN_ISSUE_CONFIDENCE)
+        .sort((a, b) => b.probability - a.probability)
+        .map(({ label }) => HEALTH_ISSUE_LABELS[label] ?? label.replace(/_/g, ' '));
+
+      const stageIndex = argMax(stageScores);
+
+      return {
+        modelVersion: metadata.version,
+        species,
+        health: { isHealthy: healthy >= 0.5, confidence: healthy >= 0.5 ? healthy : 1 - healthy, issues },
+        growthStage: { stage: labels.growthStage[stageIndex], confidence: stageScores[stageIndex] },
+      };
+    },
+  };
+};
+
+let provider: RecognitionProvider | null = null;
+
+export function getRecognitionProvider(supabase: SupabaseClient): RecognitionProvider {
+  if (!provider) {
+    provider = Deno.env.get('RECOGNITION_PROVIDER') === 'onnx' ? onnxProvider(supabase) : httpProvider();
+  }
+  return provider;
+}
@@ -0,0 +1,178 @@
+-- Database-backed species registry
+-- Replaces the hard-coded KENYAN_TREES array as the source of truth.
+-- tree_matches.tree_id now references tree_species.id instead of pointing
+-- at the bundled dbId values by convention only.
+
+CREATE TABLE public.tree_species (
+  id INTEGER GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  slug TEXT NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9-]+$'),
+  english_name TEXT NOT NULL,
+  swahili_name TEXT NOT NULL,
+  scientific_name TEXT NOT NULL,
+  description_en TEXT NOT NULL DEFAULT '',
+  description_sw TEXT NOT NULL DEFAULT '',
+  image_url TEXT,
+  suitable_counties TEXT[] NOT NULL DEFAULT '{}',
+  agro_zones TEXT[] NOT NULL DEFAULT '{}',
+  uses TEXT[] NOT NULL DEFAULT '{}' CHECK (
+    uses <@ ARRAY['fruit', 'timber', 'fodder', 'medicine', 'shade', 'conservation']::TEXT[]
+  ),
+  price NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (price >= 0),
+  kefri_code TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  created_by UUID REFERENCES auth.users(id)
+);
+
+-- Enable RLS
+ALTER TABLE public.tree_species ENABLE ROW LEVEL SECURITY;
+
+-- Anyone (including anonymous visitors) can browse active species
+CREATE POLICY "Anyone can view active tree species"
+  ON public.tree_species
+  FOR SELECT
+  USING (is_active = true);
+
+-- Admins see retired species too, and manage the catalog
+CREATE POLICY "Admins can view all tree species"
+  ON public.tree_species
+  FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can manage tree species"
+  ON public.tree_species
+  FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Indexes for county/zone filtering
+CREATE INDEX idx_tree_species_active ON public.tree_species(is_active);
+CREATE INDEX idx_tree_species_counties ON public.tree_species USING GIN (suitable_counties);
+CREATE INDEX idx_tree_species_agro_zones ON public.tree_species USING GIN (agro_zones);
+
+-- Trigger for updated_at
+CREATE TRIGGER tree_species_updated_at
+  BEFORE UPDATE ON public.tree_species
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Seed with the bundled catalog (ids match the historical dbId values)
+INSERT INTO public.tree_species
+  (id, slug, english_name, swahili_name, scientific_name, suitable_counties, agro_zones, price, kefri_code, uses, description_en, description_sw)
+OVERRIDING SYSTEM VALUE
+VALUES
+  (1, 'mango', 'Mango', 'Muembe', 'Mangifera indica',
+    ARRAY['Mombasa', 'Kilifi', 'Kwale', 'Taita-Taveta', 'Makueni', 'Machakos'],
+    ARRAY['CL1', 'CL2', 'LM1', 'LM2'], 200, NULL, ARRAY['fruit', 'shade'],
+    'Popular fruit tree suitable for coastal and lower midland areas',
+    'Mti wa matunda maarufu unaofaa maeneo ya pwani na midland ya chini'),
+  (2, 'grevillea', 'Grevillea', 'Grevelia', 'Grevillea robusta',
+    ARRAY['Nyeri', 'Kiambu', 'Murang''a', 'Embu', 'Meru', 'Nakuru'],
+    ARRAY['UH1', 'UH2', 'UM1', 'UM2', 'LH1', 'LH2'], 150, 'GRV001', ARRAY['timber', 'shade', 'conservation'],
+    'Fast-growing timber tree ideal for highlands and tea/coffee farms',
+    'Mti wa mbao unaokua haraka unaofaa maeneo ya juu na mashamba ya chai/kahawa'),
+  (3, 'acacia', 'Acacia', 'Mgunga', 'Acacia tortilis',
+    ARRAY['Kajiado', 'Taita-Taveta', 'Makueni', 'Kitui', 'Baringo'],
+    ARRAY['IL1', 'IL2', 'IL3', 'LM3', 'LM4'], 100, NULL, ARRAY['fodder', 'conservation', 'timber'],
+    'Drought-resistant tree excellent for arid and semi-arid areas',
+    'Mti usiotishwa na ukame unaofaa maeneo ya jangwa na nusu-jangwa'),
+  (4, 'bamboo', 'Bamboo', 'Mianzi', 'Bambusa vulgaris',
+    ARRAY['Kisii', 'Nyamira', 'Kakamega', 'Vihiga', 'Bungoma'],
+    ARRAY['UH1', 'UH2', 'LH1', 'LH2', 'UM1'], 120, NULL, ARRAY['timber', 'conservation'],
+    'Fast-growing multipurpose plant for construction and erosion control',
+    'Mmea unaoukua haraka wenye matumizi mengi kwa ujenzi na kuzuia mmomonyoko'),
+  (5, 'avocado', 'Avocado', 'Parachichi', 'Persea americana',
+    ARRAY['Murang''a', 'Kiambu', 'Nyeri', 'Meru', 'Embu', 'Kakamega'],
+    ARRAY['LH1', 'LH2', 'UM1', 'UM2'], 300, NULL, ARRAY['fruit'],
+    'High-value fruit tree for export and local markets',
+    'Mti wa matunda ya thamani ya juu kwa masoko ya nje na ndani'),
+  (6, 'moringa', 'Moringa', 'Moringa', 'Moringa oleifera',
+    ARRAY['Machakos', 'Makueni', 'Kitui', 'Mombasa', 'Kilifi'],
+    ARRAY['IL1', 'IL2', 'LM2', 'LM3', 'CL1'], 80, NULL, ARRAY['medicine', 'fodder'],
+    'Nutritious multipurpose tree with medicinal properties',
+    'Mti wenye lishe na dawa za asili, una matumizi mengi'),
+  (7, 'croton', 'Croton', 'Mukinduri', 'Croton megalocarpus',
+    ARRAY['Kiambu', 'Nyeri', 'Embu', 'Meru', 'Nakuru', 'Nyandarua'],
+    ARRAY['UH1', 'UH2', 'UM1', 'LH1', 'LH2'], 130, 'CRT001', ARRAY['timber', 'conservation', 'shade'],
+    'Indigenous tree excellent for fuel wood and soil improvement',
+    'Mti wa asili mzuri kwa kuni na kuboresha udongo'),
+  (8, 'cypress', 'Cypress', 'Msaipresi', 'Cupressus lusitanica',
+    ARRAY['Nyandarua', 'Nyeri', 'Kiambu', 'Nakuru', 'Kericho', 'Bomet'],
+    ARRAY['UH1', 'UH2', 'UH3', 'LH1'], 140, NULL, ARRAY['timber', 'conservation'],
+    'Popular timber tree for highland areas and water catchments',
+    'Mti wa mbao maarufu kwa maeneo ya juu na maeneo ya kuhifadhi maji'),
+  (9, 'macadamia', 'Macadamia', 'Makadamia', 'Macadamia integrifolia',
+    ARRAY['Embu', 'Meru', 'Kiambu', 'Murang''a', 'Kirinyaga', 'Nyeri'],
+    ARRAY['LH1', 'LH2', 'UM1', 'UM2'], 350, NULL, ARRAY['fruit'],
+    'Premium nut tree with high export value',
+    'Mti wa njugu zenye thamani kubwa ya biashara ya nje'),
+  (10, 'neem', 'Neem', 'Mwarobaini', 'Azadirachta indica',
+    ARRAY['Machakos', 'Makueni', 'Kitui', 'Kajiado', 'Taita-Taveta'],
+    ARRAY['IL1', 'IL2', 'LM2', 'LM3', 'LM4'], 90, NULL, ARRAY['medicine', 'timber', 'conservation'],
+    'Versatile tree with medicinal and pest control properties',
+    'Mti wenye matumizi mengi kwa dawa na kudhibiti wadudu'),
+  (11, 'casuarina', 'Casuarina', 'Mkenge', 'Casuarina equisetifolia',
+    ARRAY['Mombasa', 'Kilifi', 'Kwale', 'Lamu', 'Tana River'],
+    ARRAY['CL1', 'CL2', 'CL3', 'CL4'], 110, NULL, ARRAY['timber', 'conservation'],
+    'Coastal tree excellent for windbreaks and soil stabilization',
+    'Mti wa pwani mzuri kwa kuzuia upepo na kudhibiti mmomonyoko'),
+  (12, 'papaya', 'Papaya', 'Mpapai', 'Carica papaya',
+    ARRAY['Mombasa', 'Kilifi', 'Kwale', 'Makueni', 'Machakos', 'Taita-Taveta'],
+    ARRAY['CL1', 'CL2', 'LM1', 'LM2', 'IL1'], 150, NULL, ARRAY['fruit', 'medicine'],
+    'Fast-growing fruit tree with nutritious and medicinal fruits',
+    'Mti wa matunda unaokua haraka wenye lishe na dawa'),
+  (13, 'eucalyptus', 'Eucalyptus', 'Mukalitusi', 'Eucalyptus grandis',
+    ARRAY['Nakuru', 'Uasin Gishu', 'Trans-Nzoia', 'Kericho', 'Nandi'],
+    ARRAY['UH1', 'UH2', 'LH1', 'LH2', 'UM1'], 100, NULL, ARRAY['timber', 'conservation'],
+    'Fast-growing timber tree suitable for commercial plantations',
+    'Mti wa mbao unaokua haraka unaofaa mashamba ya biashara'),
+  (14, 'orange', 'Orange', 'Mchungwa', 'Citrus sinensis',
+    ARRAY['Machakos', 'Makueni', 'Mombasa', 'Kilifi', 'Kwale'],
+    ARRAY['LM1', 'LM2', 'CL1', 'CL2', 'IL1'], 220, NULL, ARRAY['fruit'],
+    'Citrus fruit tree for fresh fruit and juice production',
+    'Mti wa matunda ya machungwa kwa matunda safi na juice'),
+  (15, 'calliandra', 'Calliandra', 'Kaliandra', 'Calliandra calothyrsus',
+    ARRAY['Embu', 'Meru', 'Nyeri', 'Kiambu', 'Murang''a'],
+    ARRAY['LH1', 'LH2', 'UM1', 'UM2'], 80, NULL, ARRAY['fodder', 'conservation'],
+    'Nitrogen-fixing fodder tree excellent for dairy farming',
+    'Mti wa malisho unaozalisha nitrojeni mzuri kwa ufugaji wa ng''ombe wa maziwa'),
+  (16, 'sesbania', 'Sesbania', 'Msesbania', 'Sesbania sesban',
+    ARRAY['Kisumu', 'Siaya', 'Busia', 'Kakamega', 'Vihiga'],
+    ARRAY['LM1', 'LM2', 'UM1', 'LH1'], 70, NULL, ARRAY['fodder', 'conservation'],
+    'Fast-growing fodder tree that enriches soil fertility',
+    'Mti wa malisho unaokua haraka unaoboresha rutuba ya udongo'),
+  (17, 'coconut', 'Coconut', 'Mnazi', 'Cocos nucifera',
+    ARRAY['Mombasa', 'Kilifi', 'Kwale', 'Lamu', 'Tana River'],
+    ARRAY['CL1', 'CL2', 'CL3'], 250, NULL, ARRAY['fruit', 'timber'],
+    'Iconic coastal tree producing nuts, oil, and building materials',
+    'Mti maarufu wa pwani unazalisha nazi, mafuta na vifaa vya ujenzi'),
+  (18, 'guava', 'Guava', 'Mpera', 'Psidium guajava',
+    ARRAY['Machakos', 'Makueni', 'Embu', 'Meru', 'Kisii'],
+    ARRAY['LM1', 'LM2', 'LM3', 'UM1'], 180, NULL, ARRAY['fruit', 'medicine'],
+    'Hardy fruit tree with nutritious vitamin-rich fruits',
+    'Mti wa matunda wenye nguvu na matunda yenye vitamini nyingi'),
+  (19, 'leucaena', 'Leucaena', 'Msindizi', 'Leucaena leucocephala',
+    ARRAY['Machakos', 'Makueni', 'Kitui', 'Taita-Taveta'],
+    ARRAY['LM2', 'LM3', 'IL1', 'IL2'], 75, NULL, ARRAY['fodder', 'conservation', 'timber'],
+    'Multi-purpose legume tree for fodder and soil improvement',
+    'Mti wa kunde wenye matumizi mengi kwa malisho na kuboresha udongo'),
+  (20, 'jacaranda', 'Jacaranda', 'Mjakaranda', 'Jacaranda mimosifolia',
+    ARRAY['Nairobi', 'Kiambu', 'Nakuru', 'Nyeri', 'Eldoret'],
+    ARRAY['UH1', 'UM1', 'LH1', 'LH2'], 160, NULL, ARRAY['shade', 'timber'],
+    'Ornamental tree with beautiful purple flowers for urban areas',
+    'Mti wa mapambo wenye maua mazuri ya urujuani kwa miji')
+ON CONFLICT (id) DO NOTHING;
+
+-- Keep the identity sequence ahead of the seeded ids
+SELECT setval(
+  pg_get_serial_sequence('public.tree_species', 'id'),
+  (SELECT MAX(id) FROM public.tree_species)
+);
+
+-- Matches now point at a real species row
+ALTER TABLE public.tree_matches
+  ADD CONSTRAINT tree_matches_tree_id_fkey
+  FOREIGN KEY (tree_id) REFERENCES public.tree_species(id);
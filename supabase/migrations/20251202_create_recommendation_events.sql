@@ -0,0 +1,200 @@
+-- Persist recommendation engine inputs
+-- swipe_events and planting_outcomes replace the in-memory maps in
+-- AIRecommendationEngine so behaviour survives reloads and is shared
+-- across farmers through aggregated statistics.
+
+-- Every like / pass / planting a farmer makes in the app
+CREATE TABLE public.swipe_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  tree_id INTEGER NOT NULL REFERENCES public.tree_species(id),
+  action TEXT NOT NULL CHECK (action IN ('liked', 'disliked', 'planted')),
+  county TEXT,
+  agro_zone TEXT,
+  compatibility_score NUMERIC,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Whether a planted tree survived, recorded when a planting is verified
+CREATE TABLE public.planting_outcomes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  tree_id INTEGER NOT NULL REFERENCES public.tree_species(id),
+  verification_id UUID REFERENCES public.planting_verifications(id) ON DELETE SET NULL,
+  survived BOOLEAN NOT NULL,
+  county TEXT,
+  agro_zone TEXT,
+  planted_at DATE,
+  observed_at TIMESTAMPTZ DEFAULT now(),
+  recorded_by UUID REFERENCES auth.users(id)
+);
+
+-- Enable RLS
+ALTER TABLE public.swipe_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.planting_outcomes ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies: swipe_events
+CREATE POLICY "Users can view their own swipe events"
+  ON public.swipe_events
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record their own swipe events"
+  ON public.swipe_events
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all swipe events"
+  ON public.swipe_events
+  FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- RLS Policies: planting_outcomes
+CREATE POLICY "Users can view their own planting outcomes"
+  ON public.planting_outcomes
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins and moderators can view planting outcomes"
+  ON public.planting_outcomes
+  FOR SELECT
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'moderator')
+  );
+
+CREATE POLICY "Admins and moderators can record planting outcomes"
+  ON public.planting_outcomes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'moderator')
+  );
+
+-- Indexes for the aggregation below
+CREATE INDEX idx_swipe_events_user_id ON public.swipe_events(user_id);
+CREATE INDEX idx_swipe_events_tree_action ON public.swipe_events(tree_id, action);
+CREATE INDEX idx_planting_outcomes_tree_county ON public.planting_outcomes(tree_id, county);
+CREATE INDEX idx_planting_outcomes_tree_agro_zone ON public.planting_outcomes(tree_id, agro_zone);
+CREATE INDEX idx_planting_outcomes_verification ON public.planting_outcomes(verification_id);
+
+-- Record a surviving planting whenever a verification is approved, so
+-- single, bulk and future review flows all feed the engine
+CREATE OR REPLACE FUNCTION public.record_verified_planting_outcome()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tree_id INTEGER;
+  v_agro_zone TEXT;
+BEGIN
+  IF NEW.status <> 'verified' OR OLD.status = 'verified' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT tm.tree_id INTO v_tree_id
+  FROM public.tree_matches tm
+  WHERE tm.id = NEW.tree_match_id;
+
+  -- Verifications without a match only carry the typed tree name
+  IF v_tree_id IS NULL THEN
+    SELECT ts.id INTO v_tree_id
+    FROM public.tree_species ts
+    WHERE lower(ts.english_name) = lower(trim(NEW.tree_name))
+       OR lower(ts.swahili_name) = lower(trim(NEW.tree_name))
+    LIMIT 1;
+  END IF;
+
+  IF v_tree_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT p.agro_zone INTO v_agro_zone
+  FROM public.profiles p
+  WHERE p.user_id = NEW.user_id;
+
+  INSERT INTO public.planting_outcomes
+    (user_id, tree_id, verification_id, survived, county, agro_zone, planted_at, recorded_by)
+  VALUES
+    (NEW.user_id, v_tree_id, NEW.id, true, NEW.county, v_agro_zone, NEW.planting_date, NEW.verified_by);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER planting_verifications_record_outcome
+  AFTER UPDATE OF status ON public.planting_verifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_verified_planting_outcome();
+
+-- Aggregated, anonymous statistics the engine loads per farmer:
+-- survival in the farmer's county and agro-zone, and how often farmers
+-- with overlapping conservation goals liked each tree
+CREATE OR REPLACE FUNCTION public.get_recommendation_stats(
+  p_county TEXT,
+  p_agro_zone TEXT,
+  p_goals TEXT[] DEFAULT '{}'
+)
+RETURNS TABLE(
+  tree_id INTEGER,
+  county_plantings BIGINT,
+  county_survived BIGINT,
+  agro_zone_plantings BIGINT,
+  agro_zone_survived BIGINT,
+  similar_swipes BIGINT,
+  similar_likes BIGINT
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH outcomes AS (
+    SELECT
+      po.tree_id,
+      COUNT(*) FILTER (WHERE po.county = p_county) AS county_plantings,
+      COUNT(*) FILTER (WHERE po.county = p_county AND po.survived) AS county_survived,
+      COUNT(*) FILTER (WHERE po.agro_zone = p_agro_zone) AS agro_zone_plantings,
+      COUNT(*) FILTER (WHERE po.agro_zone = p_agro_zone AND po.survived) AS agro_zone_survived
+    FROM public.planting_outcomes po
+    GROUP BY po.tree_id
+  ),
+  similar_farmers AS (
+    SELECT p.user_id
+    FROM public.profiles p
+    WHERE p.user_id <> auth.uid()
+      AND (
+        p.conservation_goals::TEXT[] && p_goals
+        OR (cardinality(p_goals) = 0 AND p.agro_zone = p_agro_zone)
+      )
+  ),
+  swipes AS (
+    SELECT
+      se.tree_id,
+      COUNT(*) FILTER (WHERE se.action IN ('liked', 'disliked')) AS similar_swipes,
+      COUNT(*) FILTER (WHERE se.action = 'liked') AS similar_likes
+    FROM public.swipe_events se
+    JOIN similar_farmers sf ON sf.user_id = se.user_id
+    GROUP BY se.tree_id
+  )
+  SELECT
+    ts.id AS tree_id,
+    COALESCE(o.county_plantings, 0),
+    COALESCE(o.county_survived, 0),
+    COALESCE(o.agro_zone_plantings, 0),
+    COALESCE(o.agro_zone_survived, 0),
+    COALESCE(s.similar_swipes, 0),
+    COALESCE(s.similar_likes, 0)
+  FROM public.tree_species ts
+  LEFT JOIN outcomes o ON o.tree_id = ts.id
+  LEFT JOIN swipes s ON s.tree_id = ts.id
+  WHERE ts.is_active = true;
+$$;
@@ -0,0 +1,52 @@
+-- Seedling orders paid through M-Pesa STK Push
+-- Rows are created and updated only by the mpesa-stk-push and mpesa-callback
+-- edge functions (service role); farmers can read their own orders and
+-- follow status changes over realtime.
+
+CREATE TABLE public.orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  tree_id INTEGER NOT NULL REFERENCES public.tree_species(id),
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  unit_price INTEGER NOT NULL CHECK (unit_price >= 0),
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  phone_number TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid', 'failed', 'cancelled')),
+  merchant_request_id TEXT,
+  checkout_request_id TEXT UNIQUE,
+  mpesa_receipt_number TEXT,
+  result_code INTEGER,
+  result_desc TEXT,
+  paid_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.orders ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies: orders
+CREATE POLICY "Users can view their own orders"
+  ON public.orders
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all orders"
+  ON public.orders
+  FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Trigger for updated_at
+CREATE TRIGGER orders_updated_at
+  BEFORE UPDATE ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Indexes
+CREATE INDEX idx_orders_user_created ON public.orders(user_id, created_at DESC);
+CREATE INDEX idx_orders_pending ON public.orders(created_at) WHERE status = 'pending';
+
+-- Purchase dialogs subscribe to their order row
+ALTER PUBLICATION supabase_realtime ADD TABLE public.orders;
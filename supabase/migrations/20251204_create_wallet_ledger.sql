@@ -0,0 +1,437 @@
+-- Double-entry rewards ledger and M-Pesa B2C payouts
+-- Wallet balances used to be summed from planting_verifications.reward_amount,
+-- with nothing recording what had already been paid out. Every movement of
+-- money is now a balanced journal in wallet_transactions (append-only), and
+-- withdrawals go through wallet_payouts, which the mpesa-b2c-payout edge
+-- function sends to Safaricom exactly once.
+--
+-- Accounts
+--   farmer_wallet       what LeafSwipe owes the farmer (credit balance)
+--   reward_expense      rewards granted for verified plantings
+--   payouts_in_transit  withdrawals sent to M-Pesa and awaiting a result
+--   mpesa_float         money that has left through M-Pesa B2C
+--
+-- Journals
+--   reward             reward_expense      -> farmer_wallet       (verification approved)
+--   reward_reversal    farmer_wallet       -> reward_expense      (verified planting found fraudulent)
+--   withdrawal         farmer_wallet       -> payouts_in_transit  (farmer requests a payout)
+--   withdrawal_paid    payouts_in_transit  -> mpesa_float         (B2C succeeded)
+--   withdrawal_failed  payouts_in_transit  -> farmer_wallet       (B2C failed, funds returned)
+
+CREATE TABLE public.wallet_payouts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  phone_number TEXT NOT NULL,
+  idempotency_key TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'paid', 'failed')),
+  conversation_id TEXT,
+  mpesa_transaction_id TEXT,
+  result_code INTEGER,
+  result_desc TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  completed_at TIMESTAMPTZ,
+  UNIQUE (user_id, idempotency_key)
+);
+
+CREATE TABLE public.wallet_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  journal_id UUID NOT NULL,
+  -- The farmer the journal concerns, on every leg
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  account TEXT NOT NULL CHECK (account IN ('farmer_wallet', 'reward_expense', 'payouts_in_transit', 'mpesa_float')),
+  direction TEXT NOT NULL CHECK (direction IN ('debit', 'credit')),
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  kind TEXT NOT NULL CHECK (kind IN ('reward', 'reward_reversal', 'withdrawal', 'withdrawal_paid', 'withdrawal_failed')),
+  verification_id UUID REFERENCES public.planting_verifications(id) ON DELETE SET NULL,
+  payout_id UUID REFERENCES public.wallet_payouts(id) ON DELETE SET NULL,
+  mpesa_transaction_id TEXT,
+  description TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.wallet_payouts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.wallet_transactions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies: read-only for clients; rows are written by the functions below
+CREATE POLICY "Users can view their own payouts"
+  ON public.wallet_payouts
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all payouts"
+  ON public.wallet_payouts
+  FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can view their own wallet transactions"
+  ON public.wallet_transactions
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all wallet transactions"
+  ON public.wallet_transactions
+  FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Trigger for updated_at
+CREATE TRIGGER wallet_payouts_updated_at
+  BEFORE UPDATE ON public.wallet_payouts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Indexes
+CREATE INDEX idx_wallet_transactions_user_account ON public.wallet_transactions(user_id, account);
+CREATE INDEX idx_wallet_transactions_journal ON public.wallet_transactions(journal_id);
+CREATE INDEX idx_wallet_payouts_conversation ON public.wallet_payouts(conversation_id);
+
+-- A verification is rewarded, and reversed, at most once
+CREATE UNIQUE INDEX idx_wallet_transactions_one_reward
+  ON public.wallet_transactions(verification_id, kind)
+  WHERE kind IN ('reward', 'reward_reversal') AND account = 'farmer_wallet';
+
+-- Ledger rows are never edited or removed; corrections are new journals
+CREATE OR REPLACE FUNCTION public.prevent_wallet_transaction_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'wallet_transactions is append-only';
+END;
+$$;
+
+CREATE TRIGGER wallet_transactions_append_only
+  BEFORE UPDATE OR DELETE ON public.wallet_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_wallet_transaction_changes();
+
+-- Debits and credits of every journal must match by the end of the transaction
+CREATE OR REPLACE FUNCTION public.check_wallet_journal_balanced()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_difference NUMERIC;
+BEGIN
+  SELECT COALESCE(SUM(CASE WHEN direction = 'debit' THEN amount ELSE -amount END), 0)
+  INTO v_difference
+  FROM public.wallet_transactions
+  WHERE journal_id = NEW.journal_id;
+
+  IF v_difference <> 0 THEN
+    RAISE EXCEPTION 'Wallet journal % is unbalanced by %', NEW.journal_id, v_difference;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE CONSTRAINT TRIGGER wallet_transactions_balanced
+  AFTER INSERT ON public.wallet_transactions
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_wallet_journal_balanced();
+
+-- Post a two-leg journal. Runs with the caller's rights, so clients calling
+-- it directly are stopped by RLS; the SECURITY DEFINER functions below use it.
+CREATE OR REPLACE FUNCTION public.post_wallet_journal(
+  p_kind TEXT,
+  p_user_id UUID,
+  p_amount NUMERIC,
+  p_debit_account TEXT,
+  p_credit_account TEXT,
+  p_verification_id UUID DEFAULT NULL,
+  p_payout_id UUID DEFAULT NULL,
+  p_mpesa_transaction_id TEXT DEFAULT NULL,
+  p_description TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_journal_id UUID := gen_random_uuid();
+BEGIN
+  INSERT INTO public.wallet_transactions
+    (journal_id, user_id, account, direction, amount, kind, verification_id, payout_id,
+     mpesa_transaction_id, description, created_by)
+  VALUES
+    (v_journal_id, p_user_id, p_debit_account, 'debit', p_amount, p_kind, p_verification_id, p_payout_id,
+     p_mpesa_transaction_id, p_description, auth.uid()),
+    (v_journal_id, p_user_id, p_credit_account, 'credit', p_amount, p_kind, p_verification_id, p_payout_id,
+     p_mpesa_transaction_id, p_description, auth.uid());
+
+  RETURN v_journal_id;
+END;
+$$;
+
+-- Farmers cannot choose their own reward; only reviewers set it
+CREATE OR REPLACE FUNCTION public.protect_verification_reward_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL
+     OR public.has_role(auth.uid(), 'admin')
+     OR public.has_role(auth.uid(), 'moderator') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.reward_amount := 0;
+    NEW.reward_paid := false;
+    NEW.mpesa_transaction_id := NULL;
+  ELSE
+    NEW.reward_amount := OLD.reward_amount;
+    NEW.reward_paid := OLD.reward_paid;
+    NEW.mpesa_transaction_id := OLD.mpesa_transaction_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER planting_verifications_protect_reward
+  BEFORE INSERT OR UPDATE ON public.planting_verifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_verification_reward_fields();
+
+-- Credit the farmer when a planting is verified, and claw the reward back
+-- when a verified planting is later rejected as fraudulent
+CREATE OR REPLACE FUNCTION public.post_verification_reward()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rewarded NUMERIC;
+BEGIN
+  IF NEW.status = 'verified' AND OLD.status IS DISTINCT FROM 'verified'
+     AND COALESCE(NEW.reward_amount, 0) > 0 THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.wallet_transactions
+      WHERE verification_id = NEW.id AND kind = 'reward'
+    ) THEN
+      PERFORM public.post_wallet_journal(
+        'reward', NEW.user_id, NEW.reward_amount, 'reward_expense', 'farmer_wallet',
+        NEW.id, NULL, NULL, 'Reward for verified planting: ' || NEW.tree_name
+      );
+    END IF;
+  ELSIF OLD.status = 'verified' AND NEW.status = 'rejected' THEN
+    SELECT amount INTO v_rewarded
+    FROM public.wallet_transactions
+    WHERE verification_id = NEW.id AND kind = 'reward' AND account = 'farmer_wallet';
+
+    IF v_rewarded IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM public.wallet_transactions
+      WHERE verification_id = NEW.id AND kind = 'reward_reversal'
+    ) THEN
+      PERFORM public.post_wallet_journal(
+        'reward_reversal', NEW.user_id, v_rewarded, 'farmer_wallet', 'reward_expense',
+        NEW.id, NULL, NULL, COALESCE('Reward reversed: ' || NEW.rejection_reason, 'Reward reversed')
+      );
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER planting_verifications_post_reward
+  AFTER UPDATE OF status ON public.planting_verifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.post_verification_reward();
+
+-- Balance of one of a farmer's accounts (credit-normal). Runs with the
+-- caller's rights, so farmers only ever see their own.
+CREATE OR REPLACE FUNCTION public.wallet_account_balance(p_user_id UUID, p_account TEXT)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(CASE WHEN direction = 'credit' THEN amount ELSE -amount END), 0)
+  FROM public.wallet_transactions
+  WHERE user_id = p_user_id AND account = p_account;
+$$;
+
+-- Wallet figures for the signed-in farmer
+CREATE OR REPLACE FUNCTION public.get_wallet_summary()
+RETURNS TABLE(
+  available_balance NUMERIC,
+  in_transit NUMERIC,
+  total_earned NUMERIC,
+  total_withdrawn NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    public.wallet_account_balance(auth.uid(), 'farmer_wallet'),
+    public.wallet_account_balance(auth.uid(), 'payouts_in_transit'),
+    COALESCE(SUM(CASE
+      WHEN kind = 'reward' AND account = 'farmer_wallet' THEN amount
+      WHEN kind = 'reward_reversal' AND account = 'farmer_wallet' THEN -amount
+      ELSE 0 END), 0),
+    COALESCE(SUM(CASE WHEN kind = 'withdrawal_paid' AND account = 'mpesa_float' THEN amount ELSE 0 END), 0)
+  FROM public.wallet_transactions
+  WHERE user_id = auth.uid();
+$$;
+
+-- Reserve funds for a withdrawal. Called by the mpesa-b2c-payout edge
+-- function only; repeating a request with the same idempotency key returns
+-- the original payout instead of debiting the wallet again.
+CREATE OR REPLACE FUNCTION public.create_wallet_payout(
+  p_user_id UUID,
+  p_amount NUMERIC,
+  p_phone_number TEXT,
+  p_idempotency_key TEXT
+)
+RETURNS SETOF public.wallet_payouts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payout public.wallet_payouts;
+BEGIN
+  IF auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'Payouts can only be created by the payout service';
+  END IF;
+
+  -- One withdrawal at a time per farmer so the balance check cannot race
+  PERFORM pg_advisory_xact_lock(hashtext('wallet:' || p_user_id::text));
+
+  SELECT * INTO v_payout
+  FROM public.wallet_payouts
+  WHERE user_id = p_user_id AND idempotency_key = p_idempotency_key;
+
+  IF FOUND THEN
+    RETURN NEXT v_payout;
+    RETURN;
+  END IF;
+
+  IF p_amount > public.wallet_account_balance(p_user_id, 'farmer_wallet') THEN
+    RAISE EXCEPTION 'Insufficient balance';
+  END IF;
+
+  INSERT INTO public.wallet_payouts (user_id, amount, phone_number, idempotency_key)
+  VALUES (p_user_id, p_amount, p_phone_number, p_idempotency_key)
+  RETURNING * INTO v_payout;
+
+  PERFORM public.post_wallet_journal(
+    'withdrawal', p_user_id, p_amount, 'farmer_wallet', 'payouts_in_transit',
+    NULL, v_payout.id, NULL, 'Withdrawal to ' || p_phone_number
+  );
+
+  RETURN NEXT v_payout;
+END;
+$$;
+
+-- Record the B2C result for a payout. Settling twice is a no-op.
+CREATE OR REPLACE FUNCTION public.settle_wallet_payout(
+  p_payout_id UUID,
+  p_success BOOLEAN,
+  p_mpesa_transaction_id TEXT DEFAULT NULL,
+  p_result_code INTEGER DEFAULT NULL,
+  p_result_desc TEXT DEFAULT NULL
+)
+RETURNS SETOF public.wallet_payouts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payout public.wallet_payouts;
+BEGIN
+  IF auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'Payouts can only be settled by the payout service';
+  END IF;
+
+  SELECT * INTO v_payout
+  FROM public.wallet_payouts
+  WHERE id = p_payout_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+  IF v_payout.status IN ('paid', 'failed') THEN
+    RETURN NEXT v_payout;
+    RETURN;
+  END IF;
+
+  IF p_success THEN
+    PERFORM public.post_wallet_journal(
+      'withdrawal_paid', v_payout.user_id, v_payout.amount, 'payouts_in_transit', 'mpesa_float',
+      NULL, v_payout.id, p_mpesa_transaction_id, 'M-Pesa payout ' || COALESCE(p_mpesa_transaction_id, '')
+    );
+  ELSE
+    PERFORM public.post_wallet_journal(
+      'withdrawal_failed', v_payout.user_id, v_payout.amount, 'payouts_in_transit', 'farmer_wallet',
+      NULL, v_payout.id, NULL, COALESCE('Withdrawal failed: ' || p_result_desc, 'Withdrawal failed')
+    );
+  END IF;
+
+  UPDATE public.wallet_payouts
+  SET status = CASE WHEN p_success THEN 'paid' ELSE 'failed' END,
+      mpesa_transaction_id = p_mpesa_transaction_id,
+      result_code = p_result_code,
+      result_desc = p_result_desc,
+      completed_at = now()
+  WHERE id = v_payout.id
+  RETURNING * INTO v_payout;
+
+  RETURN NEXT v_payout;
+END;
+$$;
+
+-- Bring existing rewards into the ledger. Rewards already marked as paid
+-- are recorded as settled withdrawals so they are not paid twice.
+DO $$
+DECLARE
+  v RECORD;
+  v_payout_id UUID;
+BEGIN
+  FOR v IN
+    SELECT * FROM public.planting_verifications
+    WHERE status = 'verified' AND COALESCE(reward_amount, 0) > 0
+  LOOP
+    PERFORM public.post_wallet_journal(
+      'reward', v.user_id, v.reward_amount, 'reward_expense', 'farmer_wallet',
+      v.id, NULL, NULL, 'Reward for verified planting: ' || v.tree_name
+    );
+
+    IF v.reward_paid THEN
+      INSERT INTO public.wallet_payouts
+        (user_id, amount, phone_number, idempotency_key, status, mpesa_transaction_id, completed_at)
+      VALUES
+        (v.user_id, v.reward_amount, COALESCE(v.phone, ''), 'legacy-' || v.id, 'paid',
+         v.mpesa_transaction_id, COALESCE(v.reward_paid_at, now()))
+      RETURNING id INTO v_payout_id;
+
+      PERFORM public.post_wallet_journal(
+        'withdrawal', v.user_id, v.reward_amount, 'farmer_wallet', 'payouts_in_transit',
+        NULL, v_payout_id, NULL, 'Legacy reward payment'
+      );
+      PERFORM public.post_wallet_journal(
+        'withdrawal_paid', v.user_id, v.reward_amount, 'payouts_in_transit', 'mpesa_float',
+        NULL, v_payout_id, v.mpesa_transaction_id, 'Legacy reward payment'
+      );
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Withdrawal forms follow their payout row
+ALTER PUBLICATION supabase_realtime ADD TABLE public.wallet_payouts;
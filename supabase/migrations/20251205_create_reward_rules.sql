@@ -0,0 +1,200 @@
+-- Configurable reward rules
+-- Rewards used to be a flat reward_amount typed in (or hard-coded) by the
+-- reviewer. Admins now describe them as rules and campaigns; the evaluator in
+-- src/utils/rewardRules.ts turns them into an amount and a breakdown when a
+-- submission is approved.
+--
+-- Rule kinds:
+--   base_amount     KSh for a verified planting (most specific rule wins)
+--   multiplier      Applied on top, e.g. indigenous species or water towers
+--   survival_bonus  KSh for a 6- or 12-month survival re-verification
+--   monthly_cap     Most a farmer can earn per calendar month
+--
+-- species_slugs / counties narrow a rule; empty means "any". Rules with a
+-- campaign_id only apply to submissions the campaign funds.
+
+CREATE TABLE public.reward_campaigns (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  description TEXT,
+  budget NUMERIC NOT NULL CHECK (budget > 0),
+  starts_on DATE NOT NULL,
+  ends_on DATE NOT NULL,
+  counties TEXT[] NOT NULL DEFAULT '{}',
+  species_slugs TEXT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  CHECK (ends_on >= starts_on)
+);
+
+CREATE TABLE public.reward_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('base_amount', 'multiplier', 'survival_bonus', 'monthly_cap')),
+  amount NUMERIC CHECK (amount >= 0),
+  multiplier NUMERIC CHECK (multiplier > 0),
+  survival_months INTEGER CHECK (survival_months IN (6, 12)),
+  species_slugs TEXT[] NOT NULL DEFAULT '{}',
+  counties TEXT[] NOT NULL DEFAULT '{}',
+  campaign_id UUID REFERENCES public.reward_campaigns(id) ON DELETE CASCADE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  CHECK (
+    (kind = 'multiplier' AND multiplier IS NOT NULL) OR
+    (kind = 'survival_bonus' AND amount IS NOT NULL AND survival_months IS NOT NULL) OR
+    (kind IN ('base_amount', 'monthly_cap') AND amount IS NOT NULL)
+  )
+);
+
+-- Which campaign paid for a reward, and how the amount was worked out
+ALTER TABLE public.planting_verifications
+  ADD COLUMN IF NOT EXISTS reward_campaign_id UUID REFERENCES public.reward_campaigns(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS reward_breakdown JSONB;
+
+-- Enable RLS
+ALTER TABLE public.reward_campaigns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.reward_rules ENABLE ROW LEVEL SECURITY;
+
+-- Reviewers need the rules to work out rewards; only admins change them
+CREATE POLICY "Staff can view reward campaigns"
+  ON public.reward_campaigns
+  FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'moderator'));
+
+CREATE POLICY "Admins can manage reward campaigns"
+  ON public.reward_campaigns
+  FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Staff can view reward rules"
+  ON public.reward_rules
+  FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'moderator'));
+
+CREATE POLICY "Admins can manage reward rules"
+  ON public.reward_rules
+  FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE INDEX idx_reward_rules_active ON public.reward_rules(is_active, kind);
+CREATE INDEX idx_planting_verifications_campaign ON public.planting_verifications(reward_campaign_id)
+  WHERE reward_campaign_id IS NOT NULL;
+
+-- Triggers for updated_at
+CREATE TRIGGER reward_campaigns_updated_at
+  BEFORE UPDATE ON public.reward_campaigns
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE TRIGGER reward_rules_updated_at
+  BEFORE UPDATE ON public.reward_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Amount each campaign has paid out so far
+CREATE OR REPLACE FUNCTION public.get_reward_campaign_spend()
+RETURNS TABLE(campaign_id UUID, spent NUMERIC)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT pv.reward_campaign_id, COALESCE(SUM(pv.reward_amount), 0)
+  FROM public.planting_verifications pv
+  WHERE pv.reward_campaign_id IS NOT NULL
+    AND pv.status = 'verified'
+    AND (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'moderator'))
+  GROUP BY pv.reward_campaign_id;
+$$;
+
+-- Farmers cannot choose their own reward; only reviewers set it
+CREATE OR REPLACE FUNCTION public.protect_verification_reward_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL
+     OR public.has_role(auth.uid(), 'admin')
+     OR public.has_role(auth.uid(), 'moderator') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.reward_amount := 0;
+    NEW.reward_paid := false;
+    NEW.mpesa_transaction_id := NULL;
+    NEW.reward_campaign_id := NULL;
+    NEW.reward_breakdown := NULL;
+  ELSE
+    NEW.reward_amount := OLD.reward_amount;
+    NEW.reward_paid := OLD.reward_paid;
+    NEW.mpesa_transaction_id := OLD.mpesa_transaction_id;
+    NEW.reward_campaign_id := OLD.reward_campaign_id;
+    NEW.reward_breakdown := OLD.reward_breakdown;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Two reviewers approving at once must not overspend a campaign
+CREATE OR REPLACE FUNCTION public.check_reward_campaign_budget()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_budget NUMERIC;
+  v_spent NUMERIC;
+BEGIN
+  IF NEW.status <> 'verified' OR OLD.status = 'verified' OR NEW.reward_campaign_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT budget INTO v_budget
+  FROM public.reward_campaigns
+  WHERE id = NEW.reward_campaign_id
+  FOR UPDATE;
+
+  SELECT COALESCE(SUM(reward_amount), 0) INTO v_spent
+  FROM public.planting_verifications
+  WHERE reward_campaign_id = NEW.reward_campaign_id
+    AND status = 'verified'
+    AND id <> NEW.id;
+
+  IF v_spent + COALESCE(NEW.reward_amount, 0) > v_budget THEN
+    RAISE EXCEPTION 'Campaign budget exceeded';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER planting_verifications_campaign_budget
+  BEFORE UPDATE OF status ON public.planting_verifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_reward_campaign_budget();
+
+-- Starting rules: the old flat KSh 100, plus the incentives the programme
+-- already promised in the field
+INSERT INTO public.reward_rules (name, kind, amount, multiplier, survival_months, species_slugs, counties)
+VALUES
+  ('Standard planting reward', 'base_amount', 100, NULL, NULL, '{}', '{}'),
+  ('Indigenous species', 'multiplier', NULL, 1.5, NULL, ARRAY['acacia', 'croton', 'sesbania'], '{}'),
+  ('Water tower counties', 'multiplier', NULL, 1.25, NULL, '{}',
+    ARRAY['Nyeri', 'Kirinyaga', 'Murang''a', 'Embu', 'Meru', 'Tharaka-Nithi', 'Nyandarua', 'Kiambu',
+          'Nakuru', 'Narok', 'Bomet', 'Kericho', 'Elgeyo-Marakwet', 'West Pokot', 'Trans-Nzoia', 'Bungoma']),
+  ('6-month survival bonus', 'survival_bonus', 50, NULL, 6, '{}', '{}'),
+  ('12-month survival bonus', 'survival_bonus', 100, NULL, 12, '{}', '{}'),
+  ('Monthly cap per farmer', 'monthly_cap', 2000, NULL, NULL, '{}', '{}');
@@ -0,0 +1,308 @@
+-- Survival re-verification
+-- A planting used to be verified once and never revisited, so every outcome
+-- in planting_outcomes said the tree survived. Each verified planting now gets
+-- check-ins 3, 6 and 12 months after planting. The farmer submits a fresh
+-- photo and GPS fix; a reviewer compares it with the original and records
+-- whether the tree is alive. That result becomes the planting's survival
+-- status, the outcome the recommendation engine learns from, and (at 6 and
+-- 12 months) a survival bonus in the wallet.
+--
+-- Check-in statuses:
+--   scheduled  waiting for the farmer
+--   submitted  photo uploaded, waiting for a reviewer
+--   alive      reviewer confirmed the tree is growing
+--   dead       reviewer confirmed the tree died
+--   rejected   photo does not show the planting; the farmer can resubmit
+--   cancelled  no longer needed (the tree died earlier, or the planting was rejected)
+
+CREATE TABLE public.survival_checks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  verification_id UUID NOT NULL REFERENCES public.planting_verifications(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  months INTEGER NOT NULL CHECK (months IN (3, 6, 12)),
+  due_on DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'scheduled'
+    CHECK (status IN ('scheduled', 'submitted', 'alive', 'dead', 'rejected', 'cancelled')),
+  image_url TEXT,
+  latitude NUMERIC,
+  longitude NUMERIC,
+  -- Metres between this photo and the original planting's GPS fix
+  distance_m NUMERIC,
+  -- What the farmer reports before review
+  reported_alive BOOLEAN,
+  notes TEXT,
+  submitted_at TIMESTAMPTZ,
+  reviewed_by UUID REFERENCES auth.users(id),
+  reviewed_at TIMESTAMPTZ,
+  review_notes TEXT,
+  reward_amount NUMERIC NOT NULL DEFAULT 0 CHECK (reward_amount >= 0),
+  reward_breakdown JSONB,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (verification_id, months)
+);
+
+-- The latest reviewed check-in, kept on the planting itself
+ALTER TABLE public.planting_verifications
+  ADD COLUMN IF NOT EXISTS survival_status TEXT NOT NULL DEFAULT 'unknown'
+    CHECK (survival_status IN ('unknown', 'alive', 'dead')),
+  ADD COLUMN IF NOT EXISTS survival_checked_at TIMESTAMPTZ;
+
+-- Survival bonuses are paid through the ledger like planting rewards
+ALTER TABLE public.wallet_transactions
+  ADD COLUMN IF NOT EXISTS survival_check_id UUID REFERENCES public.survival_checks(id) ON DELETE SET NULL;
+
+ALTER TABLE public.wallet_transactions
+  DROP CONSTRAINT IF EXISTS wallet_transactions_kind_check;
+
+ALTER TABLE public.wallet_transactions
+  ADD CONSTRAINT wallet_transactions_kind_check
+  CHECK (kind IN ('reward', 'reward_reversal', 'survival_bonus', 'withdrawal', 'withdrawal_paid', 'withdrawal_failed'));
+
+CREATE UNIQUE INDEX idx_wallet_transactions_one_survival_bonus
+  ON public.wallet_transactions(survival_check_id)
+  WHERE kind = 'survival_bonus' AND account = 'farmer_wallet';
+
+-- Enable RLS
+ALTER TABLE public.survival_checks ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Users can view their own survival checks"
+  ON public.survival_checks
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Farmers submit a check-in from two weeks before it is due, and can
+-- resubmit one a reviewer rejected
+CREATE POLICY "Users can submit their own survival checks"
+  ON public.survival_checks
+  FOR UPDATE
+  TO authenticated
+  USING (
+    auth.uid() = user_id
+    AND status IN ('scheduled', 'rejected')
+    AND due_on - 14 <= CURRENT_DATE
+  )
+  WITH CHECK (auth.uid() = user_id AND status = 'submitted');
+
+CREATE POLICY "Staff can view all survival checks"
+  ON public.survival_checks
+  FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'moderator'));
+
+CREATE POLICY "Staff can review survival checks"
+  ON public.survival_checks
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'moderator'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'moderator'));
+
+-- Indexes
+CREATE INDEX idx_survival_checks_verification ON public.survival_checks(verification_id);
+CREATE INDEX idx_survival_checks_user_due ON public.survival_checks(user_id, due_on);
+CREATE INDEX idx_survival_checks_status ON public.survival_checks(status);
+
+-- Trigger for updated_at
+CREATE TRIGGER survival_checks_updated_at
+  BEFORE UPDATE ON public.survival_checks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Farmers can only submit; the review and reward fields are the reviewer's
+CREATE OR REPLACE FUNCTION public.protect_survival_check_review_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL
+     OR public.has_role(auth.uid(), 'admin')
+     OR public.has_role(auth.uid(), 'moderator') THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.verification_id := OLD.verification_id;
+  NEW.user_id := OLD.user_id;
+  NEW.months := OLD.months;
+  NEW.due_on := OLD.due_on;
+  NEW.reviewed_by := OLD.reviewed_by;
+  NEW.reviewed_at := OLD.reviewed_at;
+  NEW.review_notes := OLD.review_notes;
+  NEW.reward_amount := OLD.reward_amount;
+  NEW.reward_breakdown := OLD.reward_breakdown;
+  NEW.submitted_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER survival_checks_protect_review
+  BEFORE UPDATE ON public.survival_checks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_survival_check_review_fields();
+
+-- Schedule the check-ins when a planting is verified, and drop the ones
+-- still outstanding if a verified planting is later rejected
+CREATE OR REPLACE FUNCTION public.schedule_survival_checks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'verified' AND OLD.status IS DISTINCT FROM 'verified' THEN
+    INSERT INTO public.survival_checks (verification_id, user_id, months, due_on)
+    SELECT
+      NEW.id,
+      NEW.user_id,
+      m.months,
+      (COALESCE(NEW.planting_date, NEW.verified_at::date, CURRENT_DATE) + make_interval(months => m.months))::date
+    FROM (VALUES (3), (6), (12)) AS m(months)
+    ON CONFLICT (verification_id, months) DO NOTHING;
+  ELSIF OLD.status = 'verified' AND NEW.status = 'rejected' THEN
+    UPDATE public.survival_checks
+    SET status = 'cancelled'
+    WHERE verification_id = NEW.id
+      AND status IN ('scheduled', 'submitted', 'rejected');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER planting_verifications_schedule_survival_checks
+  AFTER UPDATE OF status ON public.planting_verifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.schedule_survival_checks();
+
+-- Post a two-leg journal. survival_check_id is new; the existing callers
+-- keep passing the first nine arguments.
+DROP FUNCTION IF EXISTS public.post_wallet_journal(TEXT, UUID, NUMERIC, TEXT, TEXT, UUID, UUID, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.post_wallet_journal(
+  p_kind TEXT,
+  p_user_id UUID,
+  p_amount NUMERIC,
+  p_debit_account TEXT,
+  p_credit_account TEXT,
+  p_verification_id UUID DEFAULT NULL,
+  p_payout_id UUID DEFAULT NULL,
+  p_mpesa_transaction_id TEXT DEFAULT NULL,
+  p_description TEXT DEFAULT NULL,
+  p_survival_check_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_journal_id UUID := gen_random_uuid();
+BEGIN
+  INSERT INTO public.wallet_transactions
+    (journal_id, user_id, account, direction, amount, kind, verification_id, payout_id,
+     mpesa_transaction_id, description, created_by, survival_check_id)
+  VALUES
+    (v_journal_id, p_user_id, p_debit_account, 'debit', p_amount, p_kind, p_verification_id, p_payout_id,
+     p_mpesa_transaction_id, p_description, auth.uid(), p_survival_check_id),
+    (v_journal_id, p_user_id, p_credit_account, 'credit', p_amount, p_kind, p_verification_id, p_payout_id,
+     p_mpesa_transaction_id, p_description, auth.uid(), p_survival_check_id);
+
+  RETURN v_journal_id;
+END;
+$$;
+
+-- Apply a reviewed check-in: survival status on the planting, the outcome
+-- the recommendation engine reads, and the survival bonus
+CREATE OR REPLACE FUNCTION public.apply_survival_check_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tree_name TEXT;
+BEGIN
+  IF NEW.status NOT IN ('alive', 'dead') OR OLD.status = NEW.status THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.planting_verifications
+  SET survival_status = NEW.status,
+      survival_checked_at = COALESCE(NEW.reviewed_at, now())
+  WHERE id = NEW.verification_id
+  RETURNING tree_name INTO v_tree_name;
+
+  -- The outcome recorded at approval assumed survival; replace it with
+  -- what was actually observed
+  UPDATE public.planting_outcomes
+  SET survived = (NEW.status = 'alive'),
+      observed_at = COALESCE(NEW.reviewed_at, now()),
+      recorded_by = NEW.reviewed_by
+  WHERE verification_id = NEW.verification_id;
+
+  IF NEW.status = 'dead' THEN
+    UPDATE public.survival_checks
+    SET status = 'cancelled'
+    WHERE verification_id = NEW.verification_id
+      AND months > NEW.months
+      AND status IN ('scheduled', 'submitted', 'rejected');
+  ELSIF NEW.reward_amount > 0 AND NOT EXISTS (
+    SELECT 1 FROM public.wallet_transactions
+    WHERE survival_check_id = NEW.id AND kind = 'survival_bonus'
+  ) THEN
+    PERFORM public.post_wallet_journal(
+      'survival_bonus', NEW.user_id, NEW.reward_amount, 'reward_expense', 'farmer_wallet',
+      NEW.verification_id, NULL, NULL,
+      NEW.months || '-month survival bonus: ' || COALESCE(v_tree_name, 'planting'),
+      NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER survival_checks_apply_review
+  AFTER UPDATE OF status ON public.survival_checks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_survival_check_review();
+
+-- Survival bonuses count towards what the farmer has earned
+CREATE OR REPLACE FUNCTION public.get_wallet_summary()
+RETURNS TABLE(
+  available_balance NUMERIC,
+  in_transit NUMERIC,
+  total_earned NUMERIC,
+  total_withdrawn NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    public.wallet_account_balance(auth.uid(), 'farmer_wallet'),
+    public.wallet_account_balance(auth.uid(), 'payouts_in_transit'),
+    COALESCE(SUM(CASE
+      WHEN kind IN ('reward', 'survival_bonus') AND account = 'farmer_wallet' THEN amount
+      WHEN kind = 'reward_reversal' AND account = 'farmer_wallet' THEN -amount
+      ELSE 0 END), 0),
+    COALESCE(SUM(CASE WHEN kind = 'withdrawal_paid' AND account = 'mpesa_float' THEN amount ELSE 0 END), 0)
+  FROM public.wallet_transactions
+  WHERE user_id = auth.uid();
+$$;
+
+-- Schedule check-ins for plantings verified before this migration. Ones
+-- already long overdue are still created so farmers can catch up.
+INSERT INTO public.survival_checks (verification_id, user_id, months, due_on)
+SELECT
+  pv.id,
+  pv.user_id,
+  m.months,
+  (COALESCE(pv.planting_date, pv.verified_at::date, pv.created_at::date) + make_interval(months => m.months))::date
+FROM public.planting_verifications pv
+CROSS JOIN (VALUES (3), (6), (12)) AS m(months)
+WHERE pv.status = 'verified'
+ON CONFLICT (verification_id, months) DO NOTHING;
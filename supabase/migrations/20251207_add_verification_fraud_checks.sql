@@ -0,0 +1,212 @@
+-- Duplicate and fraud signals for verification photos
+-- Nothing stopped a farmer from submitting the same seedling photo for ten
+-- verifications, or one downloaded from the web. VerificationUpload now
+-- sends a 64-bit perceptual hash of the photo and the EXIF data it read
+-- before compressing it; this trigger compares them with earlier
+-- submissions and the farmer's profile and stores a risk score (0-100) with
+-- the reasons, which VerificationQueue shows to moderators.
+--
+-- Flags (weights add up, capped at 100):
+--   duplicate_photo_other_farmer  near-identical to another farmer's photo   70
+--   duplicate_photo               near-identical to one of their own photos  50
+--   missing_camera_data           no camera make/model or capture time       15
+--   taken_far_from_planting_date  captured over 14 days from planting_date   20
+--   far_from_profile              GPS over 50 km from the profile location   20
+
+ALTER TABLE public.planting_verifications
+  ADD COLUMN IF NOT EXISTS image_hash TEXT CHECK (image_hash ~ '^[0-9a-f]{16}$'),
+  ADD COLUMN IF NOT EXISTS photo_metadata JSONB,
+  ADD COLUMN IF NOT EXISTS risk_score INTEGER NOT NULL DEFAULT 0 CHECK (risk_score BETWEEN 0 AND 100),
+  ADD COLUMN IF NOT EXISTS risk_flags JSONB NOT NULL DEFAULT '[]';
+
+CREATE INDEX idx_planting_verifications_image_hash ON public.planting_verifications(image_hash)
+  WHERE image_hash IS NOT NULL;
+CREATE INDEX idx_planting_verifications_risk ON public.planting_verifications(risk_score DESC)
+  WHERE risk_score > 0;
+
+-- Number of differing bits between two hex-encoded 64-bit hashes
+CREATE OR REPLACE FUNCTION public.image_hash_distance(p_a TEXT, p_b TEXT)
+RETURNS INTEGER
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT bit_count(('x' || p_a)::bit(64) # ('x' || p_b)::bit(64))::INTEGER;
+$$;
+
+-- Great-circle distance between two points, in kilometres
+CREATE OR REPLACE FUNCTION public.distance_km(
+  p_lat1 NUMERIC,
+  p_lng1 NUMERIC,
+  p_lat2 NUMERIC,
+  p_lng2 NUMERIC
+)
+RETURNS NUMERIC
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT (2 * 6371 * asin(sqrt(
+    sin(radians(p_lat2 - p_lat1) / 2) ^ 2 +
+    cos(radians(p_lat1)) * cos(radians(p_lat2)) * sin(radians(p_lng2 - p_lng1) / 2) ^ 2
+  )))::NUMERIC;
+$$;
+
+-- Work out risk_score and risk_flags for a submission. Runs with definer
+-- rights so it can compare against every farmer's photos, and overwrites
+-- whatever the client sent for the risk fields.
+CREATE OR REPLACE FUNCTION public.assess_verification_risk()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_flags JSONB := '[]'::JSONB;
+  v_own_matches INTEGER;
+  v_other_matches INTEGER;
+  v_taken_at TIMESTAMPTZ;
+  v_profile RECORD;
+  v_distance NUMERIC;
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.image_hash IS NOT DISTINCT FROM OLD.image_hash
+     AND NEW.photo_metadata IS NOT DISTINCT FROM OLD.photo_metadata
+     AND NEW.latitude IS NOT DISTINCT FROM OLD.latitude
+     AND NEW.longitude IS NOT DISTINCT FROM OLD.longitude
+     AND NEW.planting_date IS NOT DISTINCT FROM OLD.planting_date THEN
+    NEW.risk_score := OLD.risk_score;
+    NEW.risk_flags := OLD.risk_flags;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.image_hash IS NOT NULL THEN
+    SELECT
+      COUNT(*) FILTER (WHERE pv.user_id = NEW.user_id),
+      COUNT(*) FILTER (WHERE pv.user_id <> NEW.user_id)
+    INTO v_own_matches, v_other_matches
+    FROM public.planting_verifications pv
+    WHERE pv.image_hash IS NOT NULL
+      AND pv.id <> NEW.id
+      AND public.image_hash_distance(pv.image_hash, NEW.image_hash) <= 6;
+
+    IF v_other_matches > 0 THEN
+      v_flags := v_flags || jsonb_build_object(
+        'code', 'duplicate_photo_other_farmer', 'weight', 70,
+        'detail', 'Matches ' || v_other_matches || ' photo(s) submitted by other farmers');
+    ELSIF v_own_matches > 0 THEN
+      v_flags := v_flags || jsonb_build_object(
+        'code', 'duplicate_photo', 'weight', 50,
+        'detail', 'Matches ' || v_own_matches || ' of this farmer''s earlier photo(s)');
+    END IF;
+  END IF;
+
+  IF NEW.photo_metadata IS NULL
+     OR (NEW.photo_metadata->>'make' IS NULL AND NEW.photo_metadata->>'model' IS NULL)
+     OR NEW.photo_metadata->>'takenAt' IS NULL THEN
+    v_flags := v_flags || jsonb_build_object(
+      'code', 'missing_camera_data', 'weight', 15,
+      'detail', 'No camera or capture time in the photo; it may be a screenshot or downloaded');
+  ELSIF NEW.planting_date IS NOT NULL THEN
+    v_taken_at := (NEW.photo_metadata->>'takenAt')::TIMESTAMPTZ;
+    IF abs(v_taken_at::date - NEW.planting_date) > 14 THEN
+      v_flags := v_flags || jsonb_build_object(
+        'code', 'taken_far_from_planting_date', 'weight', 20,
+        'detail', 'Photo taken ' || abs(v_taken_at::date - NEW.planting_date) || ' days from the planting date');
+    END IF;
+  END IF;
+
+  SELECT p.latitude, p.longitude INTO v_profile
+  FROM public.profiles p
+  WHERE p.user_id = NEW.user_id;
+
+  IF NEW.latitude IS NOT NULL AND NEW.longitude IS NOT NULL
+     AND v_profile.latitude IS NOT NULL AND v_profile.longitude IS NOT NULL THEN
+    v_distance := public.distance_km(NEW.latitude, NEW.longitude, v_profile.latitude, v_profile.longitude);
+    IF v_distance > 50 THEN
+      v_flags := v_flags || jsonb_build_object(
+        'code', 'far_from_profile', 'weight', 20,
+        'detail', round(v_distance) || ' km from the farmer''s profile location');
+    END IF;
+  END IF;
+
+  NEW.risk_flags := v_flags;
+  NEW.risk_score := LEAST(100, COALESCE((
+    SELECT SUM((flag->>'weight')::INTEGER) FROM jsonb_array_elements(v_flags) AS flag
+  ), 0));
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER planting_verifications_assess_risk
+  BEFORE INSERT OR UPDATE ON public.planting_verifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assess_verification_risk();
+
+-- The queue now carries the risk fields; the return type changed, so the
+-- function is recreated
+DROP FUNCTION IF EXISTS public.get_verification_queue();
+
+CREATE OR REPLACE FUNCTION public.get_verification_queue()
+RETURNS TABLE(
+  id UUID,
+  user_id UUID,
+  full_name TEXT,
+  user_phone TEXT,
+  submission_phone TEXT,
+  tree_name TEXT,
+  county TEXT,
+  constituency TEXT,
+  latitude NUMERIC,
+  longitude NUMERIC,
+  image_url TEXT,
+  notes TEXT,
+  planting_date DATE,
+  status verification_status,
+  created_at TIMESTAMP WITH TIME ZONE,
+  verified_at TIMESTAMP WITH TIME ZONE,
+  verified_by UUID,
+  rejection_reason TEXT,
+  mpesa_transaction_id TEXT,
+  reward_amount NUMERIC,
+  reward_paid BOOLEAN,
+  verifier_name TEXT,
+  risk_score INTEGER,
+  risk_flags JSONB
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    pv.id,
+    pv.user_id,
+    p.full_name,
+    p.phone AS user_phone,
+    pv.phone AS submission_phone,
+    pv.tree_name,
+    pv.county,
+    pv.constituency,
+    pv.latitude,
+    pv.longitude,
+    pv.image_url,
+    pv.notes,
+    pv.planting_date,
+    pv.status,
+    pv.created_at,
+    pv.verified_at,
+    pv.verified_by,
+    pv.rejection_reason,
+    pv.mpesa_transaction_id,
+    pv.reward_amount,
+    pv.reward_paid,
+    verifier.full_name as verifier_name,
+    pv.risk_score,
+    pv.risk_flags
+  FROM public.planting_verifications pv
+  LEFT JOIN public.profiles p ON pv.user_id = p.user_id
+  LEFT JOIN public.profiles verifier ON pv.verified_by = verifier.user_id
+  WHERE
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'moderator')
+  ORDER BY pv.created_at DESC;
+$$;
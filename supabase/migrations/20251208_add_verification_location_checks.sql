@@ -0,0 +1,115 @@
+-- Geofence checks on planting coordinates
+-- VerificationUpload only range-checked manually entered coordinates, so
+-- plantings could land in Lake Victoria or outside Kenya. The app now checks
+-- each point against the bundled Kenya boundary, lake outlines and gazetted
+-- parks, reserves and forests (src/utils/plantingGeofence.ts) and stores the
+-- result in location_checks:
+--
+--   { county, waterBody, protectedArea: { name, kind }, distanceFromProfileKm,
+--     issues: ['outside_kenya' | 'in_water' | 'protected_area' | 'far_from_profile'] }
+--
+-- Points in a protected area or far from the profile location need a
+-- location_justification. The constraints below back the app up: nothing
+-- outside a box around Kenya, nothing the app flagged as blocking, and no
+-- flagged point without a justification. They are NOT VALID so older
+-- submissions are left alone.
+
+ALTER TABLE public.planting_verifications
+  ADD COLUMN IF NOT EXISTS location_checks JSONB,
+  ADD COLUMN IF NOT EXISTS location_justification TEXT;
+
+ALTER TABLE public.planting_verifications
+  ADD CONSTRAINT planting_verifications_within_kenya
+  CHECK (
+    latitude IS NULL OR longitude IS NULL OR
+    (latitude BETWEEN -4.9 AND 5.5 AND longitude BETWEEN 33.8 AND 42.0)
+  ) NOT VALID;
+
+ALTER TABLE public.planting_verifications
+  ADD CONSTRAINT planting_verifications_location_not_blocked
+  CHECK (
+    location_checks IS NULL OR
+    NOT (location_checks->'issues' ?| ARRAY['outside_kenya', 'in_water'])
+  ) NOT VALID;
+
+ALTER TABLE public.planting_verifications
+  ADD CONSTRAINT planting_verifications_location_justified
+  CHECK (
+    location_checks IS NULL OR
+    NOT (location_checks->'issues' ?| ARRAY['protected_area', 'far_from_profile']) OR
+    length(trim(COALESCE(location_justification, ''))) >= 10
+  ) NOT VALID;
+
+-- The queue carries the geofence results; the return type changed, so the
+-- function is recreated
+DROP FUNCTION IF EXISTS public.get_verification_queue();
+
+CREATE OR REPLACE FUNCTION public.get_verification_queue()
+RETURNS TABLE(
+  id UUID,
+  user_id UUID,
+  full_name TEXT,
+  user_phone TEXT,
+  submission_phone TEXT,
+  tree_name TEXT,
+  county TEXT,
+  constituency TEXT,
+  latitude NUMERIC,
+  longitude NUMERIC,
+  image_url TEXT,
+  notes TEXT,
+  planting_date DATE,
+  status verification_status,
+  created_at TIMESTAMP WITH TIME ZONE,
+  verified_at TIMESTAMP WITH TIME ZONE,
+  verified_by UUID,
+  rejection_reason TEXT,
+  mpesa_transaction_id TEXT,
+  reward_amount NUMERIC,
+  reward_paid BOOLEAN,
+  verifier_name TEXT,
+  risk_score INTEGER,
+  risk_flags JSONB,
+  location_checks JSONB,
+  location_justification TEXT
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    pv.id,
+    pv.user_id,
+    p.full_name,
+    p.phone AS user_phone,
+    pv.phone AS submission_phone,
+    pv.tree_name,
+    pv.county,
+    pv.constituency,
+    pv.latitude,
+    pv.longitude,
+    pv.image_url,
+    pv.notes,
+    pv.planting_date,
+    pv.status,
+    pv.created_at,
+    pv.verified_at,
+    pv.verified_by,
+    pv.rejection_reason,
+    pv.mpesa_transaction_id,
+    pv.reward_amount,
+    pv.reward_paid,
+    verifier.full_name as verifier_name,
+    pv.risk_score,
+    pv.risk_flags,
+    pv.location_checks,
+    pv.location_justification
+  FROM public.planting_verifications pv
+  LEFT JOIN public.profiles p ON pv.user_id = p.user_id
+  LEFT JOIN public.profiles verifier ON pv.verified_by = verifier.user_id
+  WHERE
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'moderator')
+  ORDER BY pv.created_at DESC;
+$$;
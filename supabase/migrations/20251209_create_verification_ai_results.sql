@@ -0,0 +1,108 @@
+-- Server-side tree recognition for every verification
+-- Recognition only ran when a farmer happened to use AIVerificationUpload,
+-- and its result never reached moderators. Every new submission now gets a
+-- pending verification_ai_results row and a call to the recognize-tree edge
+-- function, which downloads the photo, runs the configured model provider
+-- and fills in the species candidates, health and growth stage shown in
+-- VerificationQueue.
+--
+-- The call is made with pg_net and needs two Vault secrets:
+--   recognize_tree_url     https://<project>.supabase.co/functions/v1/recognize-tree
+--   recognize_tree_secret  the function's RECOGNITION_WEBHOOK_SECRET
+-- Without them rows stay pending until a moderator runs recognition from
+-- the queue.
+
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+-- Private bucket for the ONNX provider's model (tree-species/model.onnx and
+-- tree-species/metadata.json); only the service role reads it
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('ml-models', 'ml-models', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE public.verification_ai_results (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  verification_id UUID NOT NULL UNIQUE REFERENCES public.planting_verifications(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'failed')),
+  -- 'onnx' or 'http', and the model version the provider reported
+  provider TEXT,
+  model_version TEXT,
+  -- [{ id: tree_species slug, name, confidence }], most likely first
+  species_candidates JSONB NOT NULL DEFAULT '[]',
+  -- { isHealthy, confidence, issues: [] }
+  health JSONB,
+  growth_stage TEXT CHECK (growth_stage IN ('seedling', 'sapling', 'young', 'mature')),
+  growth_stage_confidence NUMERIC(4, 3) CHECK (growth_stage_confidence BETWEEN 0 AND 1),
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_verification_ai_results_status ON public.verification_ai_results(status)
+  WHERE status <> 'completed';
+
+ALTER TABLE public.verification_ai_results ENABLE ROW LEVEL SECURITY;
+
+-- Results are written by the edge function with the service role only
+CREATE POLICY "Staff can view AI results"
+  ON public.verification_ai_results FOR SELECT
+  USING (
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'moderator')
+  );
+
+CREATE TRIGGER update_verification_ai_results_updated_at
+  BEFORE UPDATE ON public.verification_ai_results
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Queue recognition for a new submission
+CREATE OR REPLACE FUNCTION public.request_verification_recognition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_url TEXT;
+  v_secret TEXT;
+BEGIN
+  INSERT INTO public.verification_ai_results (verification_id)
+  VALUES (NEW.id)
+  ON CONFLICT (verification_id) DO NOTHING;
+
+  -- A missing secret or an unreachable pg_net must never block a submission
+  BEGIN
+    SELECT decrypted_secret INTO v_url FROM vault.decrypted_secrets WHERE name = 'recognize_tree_url';
+    SELECT decrypted_secret INTO v_secret FROM vault.decrypted_secrets WHERE name = 'recognize_tree_secret';
+
+    IF v_url IS NOT NULL THEN
+      PERFORM net.http_post(
+        url := v_url,
+        body := jsonb_build_object('verification_id', NEW.id),
+        headers := jsonb_build_object(
+          'Content-Type', 'application/json',
+          'x-recognition-secret', COALESCE(v_secret, '')
+        ),
+        timeout_milliseconds := 60000
+      );
+    END IF;
+  EXCEPTION WHEN OTHERS THEN
+    RAISE WARNING 'Could not request recognition for verification %: %', NEW.id, SQLERRM;
+  END;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER request_verification_recognition
+  AFTER INSERT ON public.planting_verifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.request_verification_recognition();
+
+-- Existing submissions get a pending row so moderators can run recognition on them
+INSERT INTO public.verification_ai_results (verification_id)
+SELECT id FROM public.planting_verifications
+ON CONFLICT (verification_id) DO NOTHING;
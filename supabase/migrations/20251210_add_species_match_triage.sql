@@ -0,0 +1,182 @@
+-- Compare the claimed tree with the recognised species
+-- Farmers type any tree name when they submit, and nothing compared it with
+-- what recognition saw in the photo. When a recognition result completes,
+-- the claimed species is resolved (from the tree match, or from the typed
+-- name via slugs, English/Swahili/scientific names and aliases) and compared
+-- with the top candidate:
+--   match          the top candidate is the claimed species
+--   mismatch       the top candidate is a different species
+--   unknown_claim  the typed name is not a catalog species
+--   no_prediction  recognition named no species
+--
+-- Admins set confidence thresholds in verification_triage_settings; the
+-- queue uses them to mark confident matches ready for one-click approval
+-- and to hold confident mismatches back from bulk approval
+-- (src/utils/speciesTriage.ts).
+
+-- Local and alternative names, e.g. 'Embe' or 'Pawpaw'
+ALTER TABLE public.tree_species
+  ADD COLUMN IF NOT EXISTS aliases TEXT[] NOT NULL DEFAULT '{}';
+
+UPDATE public.tree_species SET aliases = ARRAY['Embe', 'Mwembe'] WHERE slug = 'mango';
+UPDATE public.tree_species SET aliases = ARRAY['Silky oak'] WHERE slug = 'grevillea';
+UPDATE public.tree_species SET aliases = ARRAY['Umbrella thorn'] WHERE slug = 'acacia';
+UPDATE public.tree_species SET aliases = ARRAY['Avocado pear'] WHERE slug = 'avocado';
+UPDATE public.tree_species SET aliases = ARRAY['Mlonge', 'Drumstick tree'] WHERE slug = 'moringa';
+UPDATE public.tree_species SET aliases = ARRAY['Whistling pine'] WHERE slug = 'casuarina';
+UPDATE public.tree_species SET aliases = ARRAY['Pawpaw', 'Paw paw', 'Papai'] WHERE slug = 'papaya';
+UPDATE public.tree_species SET aliases = ARRAY['Blue gum', 'Gum tree', 'Mkaratusi'] WHERE slug = 'eucalyptus';
+UPDATE public.tree_species SET aliases = ARRAY['Chungwa'] WHERE slug = 'orange';
+UPDATE public.tree_species SET aliases = ARRAY['Pera'] WHERE slug = 'guava';
+UPDATE public.tree_species SET aliases = ARRAY['Nazi'] WHERE slug = 'coconut';
+
+-- Lower case letters only, without filler words like "tree" or "seedling"
+CREATE OR REPLACE FUNCTION public.normalize_tree_name(p_name TEXT)
+RETURNS TEXT
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT trim(regexp_replace(
+    regexp_replace(
+      regexp_replace(lower(COALESCE(p_name, '')), '[^a-z]+', ' ', 'g'),
+      '\m(trees?|mti|miti|seedlings?|mche|miche|grafted|young)\M', ' ', 'g'
+    ),
+    '\s+', ' ', 'g'
+  ));
+$$;
+
+-- Catalog species a typed tree name refers to, or NULL. Exact names win,
+-- then the longest name contained in the text ("Cape chestnut" over
+-- "chestnut").
+CREATE OR REPLACE FUNCTION public.resolve_tree_species(p_tree_name TEXT)
+RETURNS TEXT
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  WITH claim AS (
+    SELECT public.normalize_tree_name(p_tree_name) AS name
+  ),
+  names AS (
+    SELECT ts.slug, public.normalize_tree_name(n) AS name
+    FROM public.tree_species ts,
+      unnest(ARRAY[ts.slug, ts.english_name, ts.swahili_name, ts.scientific_name] || ts.aliases) AS n
+  )
+  SELECT names.slug
+  FROM names, claim
+  WHERE names.name <> ''
+    AND claim.name <> ''
+    AND (' ' || claim.name || ' ') LIKE ('% ' || names.name || ' %')
+  GROUP BY names.slug
+  ORDER BY bool_or(names.name = claim.name) DESC, max(length(names.name)) DESC, names.slug
+  LIMIT 1;
+$$;
+
+ALTER TABLE public.verification_ai_results
+  ADD COLUMN IF NOT EXISTS claimed_species TEXT,
+  ADD COLUMN IF NOT EXISTS species_match TEXT
+    CHECK (species_match IN ('match', 'mismatch', 'unknown_claim', 'no_prediction')),
+  -- Confidence of the top candidate, and of the claimed species (0 when it
+  -- is not among the candidates)
+  ADD COLUMN IF NOT EXISTS match_confidence NUMERIC(4, 3),
+  ADD COLUMN IF NOT EXISTS claimed_confidence NUMERIC(4, 3);
+
+CREATE INDEX idx_verification_ai_results_mismatch ON public.verification_ai_results(match_confidence DESC)
+  WHERE species_match = 'mismatch';
+
+CREATE OR REPLACE FUNCTION public.compare_recognised_species()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_verification RECORD;
+  v_claimed TEXT;
+  v_top JSONB;
+BEGIN
+  IF NEW.status <> 'completed' THEN
+    NEW.claimed_species := NULL;
+    NEW.species_match := NULL;
+    NEW.match_confidence := NULL;
+    NEW.claimed_confidence := NULL;
+    RETURN NEW;
+  END IF;
+
+  SELECT tree_name, tree_match_id INTO v_verification
+  FROM public.planting_verifications
+  WHERE id = NEW.verification_id;
+
+  -- A submission made from a tree match claims that match's species
+  SELECT ts.slug INTO v_claimed
+  FROM public.tree_matches tm
+  JOIN public.tree_species ts ON ts.id = tm.tree_id
+  WHERE tm.id = v_verification.tree_match_id;
+
+  v_claimed := COALESCE(v_claimed, public.resolve_tree_species(v_verification.tree_name));
+  v_top := NEW.species_candidates -> 0;
+
+  NEW.claimed_species := v_claimed;
+  NEW.match_confidence := (v_top ->> 'confidence')::NUMERIC;
+  NEW.claimed_confidence := CASE WHEN v_claimed IS NULL THEN NULL ELSE COALESCE((
+    SELECT (candidate ->> 'confidence')::NUMERIC
+    FROM jsonb_array_elements(NEW.species_candidates) AS candidate
+    WHERE candidate ->> 'id' = v_claimed
+    LIMIT 1
+  ), 0) END;
+  NEW.species_match := CASE
+    WHEN v_top IS NULL THEN 'no_prediction'
+    WHEN v_claimed IS NULL THEN 'unknown_claim'
+    WHEN v_top ->> 'id' = v_claimed THEN 'match'
+    ELSE 'mismatch'
+  END;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER compare_recognised_species
+  BEFORE INSERT OR UPDATE OF status, species_candidates ON public.verification_ai_results
+  FOR EACH ROW
+  EXECUTE FUNCTION public.compare_recognised_species();
+
+-- Compare the results recognised so far
+UPDATE public.verification_ai_results SET status = status WHERE status = 'completed';
+
+-- Single-row triage settings
+CREATE TABLE public.verification_triage_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  -- Off until an admin has reviewed the thresholds
+  enabled BOOLEAN NOT NULL DEFAULT false,
+  -- A match at least this confident is ready for one-click approval...
+  auto_approve_confidence NUMERIC(4, 3) NOT NULL DEFAULT 0.85
+    CHECK (auto_approve_confidence BETWEEN 0.5 AND 1),
+  -- ...as long as its fraud risk score is at most this
+  auto_approve_max_risk INTEGER NOT NULL DEFAULT 0 CHECK (auto_approve_max_risk BETWEEN 0 AND 100),
+  -- A mismatch at least this confident is held back from bulk approval
+  auto_hold_confidence NUMERIC(4, 3) NOT NULL DEFAULT 0.7
+    CHECK (auto_hold_confidence BETWEEN 0.5 AND 1),
+  updated_by UUID REFERENCES auth.users(id),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+INSERT INTO public.verification_triage_settings (id) VALUES (true);
+
+ALTER TABLE public.verification_triage_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view triage settings"
+  ON public.verification_triage_settings FOR SELECT
+  USING (
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'moderator')
+  );
+
+CREATE POLICY "Admins can update triage settings"
+  ON public.verification_triage_settings FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_verification_triage_settings_updated_at
+  BEFORE UPDATE ON public.verification_triage_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
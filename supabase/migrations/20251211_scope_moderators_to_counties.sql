@@ -0,0 +1,219 @@
+-- Scope moderators to the counties they are responsible for
+-- user_roles.county recorded one county per moderator, but nothing used it:
+-- get_verification_queue returned every submission and any moderator could
+-- update any verification. Moderators are now assigned one or more counties
+-- in moderator_counties, and the queue, the stats and the RLS policies only
+-- let them see and review submissions from those counties. A moderator with
+-- no counties assigned sees nothing. Admins are not scoped.
+
+CREATE TABLE public.moderator_counties (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  county TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_by UUID REFERENCES auth.users(id),
+  PRIMARY KEY (user_id, county)
+);
+
+ALTER TABLE public.moderator_counties ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Moderators can view their own counties"
+  ON public.moderator_counties FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage moderator counties"
+  ON public.moderator_counties FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Carry over the single county moderators had
+INSERT INTO public.moderator_counties (user_id, county, created_by)
+SELECT user_id, trim(county), created_by
+FROM public.user_roles
+WHERE role = 'moderator' AND NULLIF(trim(county), '') IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+COMMENT ON COLUMN public.user_roles.county IS 'Deprecated: moderator counties are in moderator_counties';
+
+-- Whether a user may see and review submissions from a county. Counties are
+-- typed by farmers, so they are compared case-insensitively.
+CREATE OR REPLACE FUNCTION public.can_moderate_county(_user_id UUID, _county TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'admin') OR (
+    public.has_role(_user_id, 'moderator') AND EXISTS (
+      SELECT 1
+      FROM public.moderator_counties mc
+      WHERE mc.user_id = _user_id
+        AND lower(mc.county) = lower(trim(_county))
+    )
+  )
+$$;
+
+-- Verifications
+DROP POLICY IF EXISTS "Admins can view all verifications" ON public.planting_verifications;
+DROP POLICY IF EXISTS "Admins and moderators can update verifications" ON public.planting_verifications;
+
+CREATE POLICY "Staff can view verifications in their counties"
+  ON public.planting_verifications
+  FOR SELECT
+  USING (public.can_moderate_county(auth.uid(), county));
+
+CREATE POLICY "Staff can update verifications in their counties"
+  ON public.planting_verifications
+  FOR UPDATE
+  USING (public.can_moderate_county(auth.uid(), county))
+  WITH CHECK (public.can_moderate_county(auth.uid(), county));
+
+-- Survival check-ins follow the county of their planting
+DROP POLICY IF EXISTS "Staff can view all survival checks" ON public.survival_checks;
+DROP POLICY IF EXISTS "Staff can review survival checks" ON public.survival_checks;
+
+CREATE OR REPLACE FUNCTION public.can_moderate_verification(_user_id UUID, _verification_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT public.can_moderate_county(_user_id, pv.county)
+    FROM public.planting_verifications pv
+    WHERE pv.id = _verification_id
+  ), false)
+$$;
+
+CREATE POLICY "Staff can view survival checks in their counties"
+  ON public.survival_checks
+  FOR SELECT
+  TO authenticated
+  USING (public.can_moderate_verification(auth.uid(), verification_id));
+
+CREATE POLICY "Staff can review survival checks in their counties"
+  ON public.survival_checks
+  FOR UPDATE
+  TO authenticated
+  USING (public.can_moderate_verification(auth.uid(), verification_id))
+  WITH CHECK (public.can_moderate_verification(auth.uid(), verification_id));
+
+-- Recognition results
+DROP POLICY IF EXISTS "Staff can view AI results" ON public.verification_ai_results;
+
+CREATE POLICY "Staff can view AI results in their counties"
+  ON public.verification_ai_results FOR SELECT
+  USING (public.can_moderate_verification(auth.uid(), verification_id));
+
+-- Same columns as before, scoped
+CREATE OR REPLACE FUNCTION public.get_verification_queue()
+RETURNS TABLE(
+  id UUID,
+  user_id UUID,
+  full_name TEXT,
+  user_phone TEXT,
+  submission_phone TEXT,
+  tree_name TEXT,
+  county TEXT,
+  constituency TEXT,
+  latitude NUMERIC,
+  longitude NUMERIC,
+  image_url TEXT,
+  notes TEXT,
+  planting_date DATE,
+  status verification_status,
+  created_at TIMESTAMP WITH TIME ZONE,
+  verified_at TIMESTAMP WITH TIME ZONE,
+  verified_by UUID,
+  rejection_reason TEXT,
+  mpesa_transaction_id TEXT,
+  reward_amount NUMERIC,
+  reward_paid BOOLEAN,
+  verifier_name TEXT,
+  risk_score INTEGER,
+  risk_flags JSONB,
+  location_checks JSONB,
+  location_justification TEXT
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    pv.id,
+    pv.user_id,
+    p.full_name,
+    p.phone AS user_phone,
+    pv.phone AS submission_phone,
+    pv.tree_name,
+    pv.county,
+    pv.constituency,
+    pv.latitude,
+    pv.longitude,
+    pv.image_url,
+    pv.notes,
+    pv.planting_date,
+    pv.status,
+    pv.created_at,
+    pv.verified_at,
+    pv.verified_by,
+    pv.rejection_reason,
+    pv.mpesa_transaction_id,
+    pv.reward_amount,
+    pv.reward_paid,
+    verifier.full_name as verifier_name,
+    pv.risk_score,
+    pv.risk_flags,
+    pv.location_checks,
+    pv.location_justification
+  FROM public.planting_verifications pv
+  LEFT JOIN public.profiles p ON pv.user_id = p.user_id
+  LEFT JOIN public.profiles verifier ON pv.verified_by = verifier.user_id
+  WHERE public.can_moderate_county(auth.uid(), pv.county)
+  ORDER BY pv.created_at DESC;
+$$;
+
+-- Dashboard counts over the caller's counties only. The totals now add up
+-- the per-county counts; before they counted county groups, not submissions.
+CREATE OR REPLACE FUNCTION public.get_admin_stats()
+RETURNS TABLE(
+  total_pending BIGINT,
+  total_approved BIGINT,
+  total_rejected BIGINT,
+  pending_by_county JSONB,
+  approval_rate NUMERIC
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE(SUM(count) FILTER (WHERE status = 'pending'), 0)::BIGINT as total_pending,
+    COALESCE(SUM(count) FILTER (WHERE status = 'verified'), 0)::BIGINT as total_approved,
+    COALESCE(SUM(count) FILTER (WHERE status = 'rejected'), 0)::BIGINT as total_rejected,
+    COALESCE(jsonb_object_agg(
+      county,
+      count
+    ) FILTER (WHERE county IS NOT NULL AND status = 'pending'), '{}'::JSONB) as pending_by_county,
+    CASE
+      WHEN SUM(count) FILTER (WHERE status IN ('verified', 'rejected')) > 0
+      THEN ROUND(
+        SUM(count) FILTER (WHERE status = 'verified')::NUMERIC /
+        SUM(count) FILTER (WHERE status IN ('verified', 'rejected'))::NUMERIC * 100,
+        2
+      )
+      ELSE 0
+    END as approval_rate
+  FROM (
+    SELECT
+      status,
+      county,
+      COUNT(*) as count
+    FROM public.planting_verifications
+    WHERE public.can_moderate_county(auth.uid(), county)
+    GROUP BY status, county
+  ) subquery;
+$$;
@@ -0,0 +1,170 @@
+-- Audit trail for moderation, payouts and role changes
+-- Approving a verification or assigning a role overwrote the row, leaving
+-- nothing but verified_by to say who did what. Triggers now append an entry
+-- to audit_log for every change worth answering for, with the acting user,
+-- the row before and after, and the reason given (rejection reason, review
+-- notes, M-Pesa result). Entries can't be changed or deleted, and only
+-- admins can read them (/admin/audit).
+--
+-- Actions:
+--   verification.approved / .rejected / .reversed / .status_changed
+--   survival_check.alive / .dead / .rejected
+--   payout.processing / .paid / .failed
+--   role.granted / .changed / .revoked
+--   moderator_county.assigned / .removed
+--   reward_rule.created / .updated / .deleted (also reward_campaign.*)
+--   triage_settings.updated
+
+CREATE TABLE public.audit_log (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- No foreign key, so the history outlives deleted accounts. NULL when the
+  -- change came from the system (edge functions, M-Pesa callbacks).
+  actor_id UUID,
+  action TEXT NOT NULL,
+  target_table TEXT NOT NULL,
+  target_id TEXT NOT NULL,
+  -- The farmer or staff member the change concerns, when there is one
+  target_user_id UUID,
+  before JSONB,
+  after JSONB,
+  reason TEXT
+);
+
+CREATE INDEX idx_audit_log_created ON public.audit_log(created_at DESC);
+CREATE INDEX idx_audit_log_target ON public.audit_log(target_table, target_id);
+CREATE INDEX idx_audit_log_actor ON public.audit_log(actor_id, created_at DESC);
+CREATE INDEX idx_audit_log_action ON public.audit_log(action, created_at DESC);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Written by the triggers below only
+CREATE POLICY "Admins can view the audit log"
+  ON public.audit_log FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON public.audit_log FROM anon, authenticated;
+
+-- Append-only, even for the service role
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$;
+
+CREATE TRIGGER audit_log_append_only
+  BEFORE UPDATE OR DELETE ON public.audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+CREATE TRIGGER audit_log_no_truncate
+  BEFORE TRUNCATE ON public.audit_log
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+CREATE OR REPLACE FUNCTION public.record_audit_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_before JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  v_after JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  v_row JSONB := COALESCE(to_jsonb(NEW), to_jsonb(OLD));
+  v_verb TEXT := CASE TG_OP WHEN 'INSERT' THEN 'created' WHEN 'DELETE' THEN 'deleted' ELSE 'updated' END;
+  v_action TEXT;
+  v_reason TEXT;
+BEGIN
+  CASE TG_TABLE_NAME
+    WHEN 'planting_verifications' THEN
+      v_action := CASE
+        WHEN v_before ->> 'status' = 'verified' AND v_after ->> 'status' = 'rejected' THEN 'verification.reversed'
+        WHEN v_after ->> 'status' = 'verified' THEN 'verification.approved'
+        WHEN v_after ->> 'status' = 'rejected' THEN 'verification.rejected'
+        ELSE 'verification.status_changed'
+      END;
+      v_reason := v_after ->> 'rejection_reason';
+    WHEN 'survival_checks' THEN
+      v_action := 'survival_check.' || (v_after ->> 'status');
+      v_reason := v_after ->> 'review_notes';
+    WHEN 'wallet_payouts' THEN
+      v_action := 'payout.' || (v_after ->> 'status');
+      v_reason := v_after ->> 'result_desc';
+    WHEN 'user_roles' THEN
+      v_action := CASE TG_OP WHEN 'INSERT' THEN 'role.granted' WHEN 'DELETE' THEN 'role.revoked' ELSE 'role.changed' END;
+    WHEN 'moderator_counties' THEN
+      v_action := CASE TG_OP WHEN 'INSERT' THEN 'moderator_county.assigned' ELSE 'moderator_county.removed' END;
+    WHEN 'reward_rules' THEN
+      v_action := 'reward_rule.' || v_verb;
+    WHEN 'reward_campaigns' THEN
+      v_action := 'reward_campaign.' || v_verb;
+    WHEN 'verification_triage_settings' THEN
+      v_action := 'triage_settings.' || v_verb;
+    ELSE
+      v_action := TG_TABLE_NAME || '.' || v_verb;
+  END CASE;
+
+  INSERT INTO public.audit_log (actor_id, action, target_table, target_id, target_user_id, before, after, reason)
+  VALUES (
+    auth.uid(),
+    v_action,
+    TG_TABLE_NAME,
+    -- moderator_counties has no id column
+    COALESCE(v_row ->> 'id', (v_row ->> 'user_id') || ':' || (v_row ->> 'county')),
+    (v_row ->> 'user_id')::UUID,
+    v_before,
+    v_after,
+    NULLIF(trim(v_reason), '')
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_verification_status
+  AFTER UPDATE OF status ON public.planting_verifications
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.record_audit_event();
+
+-- Reviews only; farmers submitting a check-in is not moderation
+CREATE TRIGGER audit_survival_check_review
+  AFTER UPDATE OF status ON public.survival_checks
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status AND NEW.status IN ('alive', 'dead', 'rejected'))
+  EXECUTE FUNCTION public.record_audit_event();
+
+CREATE TRIGGER audit_payout_status
+  AFTER UPDATE OF status ON public.wallet_payouts
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.record_audit_event();
+
+CREATE TRIGGER audit_user_roles
+  AFTER INSERT OR UPDATE OR DELETE ON public.user_roles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_audit_event();
+
+CREATE TRIGGER audit_moderator_counties
+  AFTER INSERT OR DELETE ON public.moderator_counties
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_audit_event();
+
+CREATE TRIGGER audit_reward_rules
+  AFTER INSERT OR UPDATE OR DELETE ON public.reward_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_audit_event();
+
+CREATE TRIGGER audit_reward_campaigns
+  AFTER INSERT OR UPDATE OR DELETE ON public.reward_campaigns
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_audit_event();
+
+CREATE TRIGGER audit_triage_settings
+  AFTER UPDATE ON public.verification_triage_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_audit_event();
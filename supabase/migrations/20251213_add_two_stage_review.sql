@@ -0,0 +1,322 @@
+-- Two-stage review for high-value and flagged submissions
+-- One click by any moderator verified a submission and paid its reward.
+-- Under the review policy, approving a submission whose reward is at least
+-- second_review_min_reward, or that carries fraud flags, first records a
+-- "first approval"; a different reviewer has to approve it again before it
+-- is verified and paid. Moderators can also escalate a pending submission to
+-- the admins with a note; from then on only an admin can approve or reject
+-- it. The rules are enforced here; VerificationQueue follows the same steps
+-- (src/utils/reviewPolicy.ts).
+
+CREATE TABLE public.verification_review_policy (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  -- Rewards of at least this many shillings need a second reviewer
+  second_review_min_reward NUMERIC NOT NULL DEFAULT 500 CHECK (second_review_min_reward >= 0),
+  -- Submissions with fraud flags (risk_score > 0) need a second reviewer
+  second_review_when_flagged BOOLEAN NOT NULL DEFAULT true,
+  updated_by UUID REFERENCES auth.users(id),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+INSERT INTO public.verification_review_policy (id) VALUES (true);
+
+ALTER TABLE public.verification_review_policy ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view the review policy"
+  ON public.verification_review_policy FOR SELECT
+  USING (
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'moderator')
+  );
+
+CREATE POLICY "Admins can update the review policy"
+  ON public.verification_review_policy FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_verification_review_policy_updated_at
+  BEFORE UPDATE ON public.verification_review_policy
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.planting_verifications
+  ADD COLUMN IF NOT EXISTS first_reviewed_by UUID REFERENCES auth.users(id),
+  ADD COLUMN IF NOT EXISTS first_reviewed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS escalated_by UUID REFERENCES auth.users(id),
+  ADD COLUMN IF NOT EXISTS escalated_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS escalation_note TEXT;
+
+CREATE INDEX idx_planting_verifications_escalated ON public.planting_verifications(escalated_at)
+  WHERE escalated_at IS NOT NULL AND status = 'pending';
+
+CREATE OR REPLACE FUNCTION public.enforce_review_policy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid UUID := auth.uid();
+  v_is_admin BOOLEAN;
+  v_policy public.verification_review_policy%ROWTYPE;
+BEGIN
+  -- Service role and migrations
+  IF v_uid IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  v_is_admin := public.has_role(v_uid, 'admin');
+
+  -- Farmers can't review or escalate their own submissions
+  IF NOT v_is_admin AND NOT public.has_role(v_uid, 'moderator') THEN
+    NEW.first_reviewed_by := OLD.first_reviewed_by;
+    NEW.first_reviewed_at := OLD.first_reviewed_at;
+    NEW.escalated_by := OLD.escalated_by;
+    NEW.escalated_at := OLD.escalated_at;
+    NEW.escalation_note := OLD.escalation_note;
+    RETURN NEW;
+  END IF;
+
+  -- A reviewer records their own first approval, before the decision
+  IF NEW.first_reviewed_by IS NOT NULL AND NEW.first_reviewed_by IS DISTINCT FROM OLD.first_reviewed_by THEN
+    IF NEW.first_reviewed_by <> v_uid OR OLD.status = 'verified' THEN
+      RAISE EXCEPTION 'Reviewers can only record their own first approval on an unverified submission';
+    END IF;
+    NEW.first_reviewed_at := now();
+  END IF;
+
+  IF NEW.escalated_at IS NOT NULL AND NEW.escalated_at IS DISTINCT FROM OLD.escalated_at THEN
+    IF OLD.status <> 'pending' THEN
+      RAISE EXCEPTION 'Only pending submissions can be escalated';
+    END IF;
+    IF length(trim(COALESCE(NEW.escalation_note, ''))) = 0 THEN
+      RAISE EXCEPTION 'Escalation needs a note';
+    END IF;
+    NEW.escalated_by := v_uid;
+    NEW.escalated_at := now();
+  ELSIF OLD.escalated_at IS NOT NULL AND NEW.escalated_at IS NULL AND NOT v_is_admin THEN
+    -- Only admins hand an escalated submission back
+    NEW.escalated_by := OLD.escalated_by;
+    NEW.escalated_at := OLD.escalated_at;
+    NEW.escalation_note := OLD.escalation_note;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'pending' AND OLD.escalated_at IS NOT NULL THEN
+    -- An admin's decision on an escalated submission is final
+    IF NOT v_is_admin THEN
+      RAISE EXCEPTION 'Escalated to an admin';
+    END IF;
+  ELSIF NEW.status = 'verified' THEN
+    SELECT * INTO v_policy FROM public.verification_review_policy;
+
+    IF v_policy.enabled AND (
+      COALESCE(NEW.reward_amount, 0) >= v_policy.second_review_min_reward OR
+      (v_policy.second_review_when_flagged AND COALESCE(NEW.risk_score, 0) > 0)
+    ) THEN
+      IF OLD.first_reviewed_by IS NULL THEN
+        RAISE EXCEPTION 'Second review required: record a first approval';
+      END IF;
+      IF OLD.first_reviewed_by = v_uid THEN
+        RAISE EXCEPTION 'Second review required: another reviewer must approve';
+      END IF;
+    END IF;
+  END IF;
+
+  -- A rejection ends the review round; approving it later starts a new one
+  IF NEW.status = 'rejected' THEN
+    NEW.first_reviewed_by := NULL;
+    NEW.first_reviewed_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Runs after the risk assessment, so flags on this update count
+CREATE TRIGGER planting_verifications_review_policy
+  BEFORE UPDATE ON public.planting_verifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_review_policy();
+
+-- Audit first approvals and escalations too
+CREATE OR REPLACE FUNCTION public.record_audit_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_before JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  v_after JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  v_row JSONB := COALESCE(to_jsonb(NEW), to_jsonb(OLD));
+  v_verb TEXT := CASE TG_OP WHEN 'INSERT' THEN 'created' WHEN 'DELETE' THEN 'deleted' ELSE 'updated' END;
+  v_action TEXT;
+  v_reason TEXT;
+BEGIN
+  CASE TG_TABLE_NAME
+    WHEN 'planting_verifications' THEN
+      v_action := CASE
+        WHEN v_before ->> 'status' IS NOT DISTINCT FROM v_after ->> 'status' THEN
+          CASE
+            WHEN v_before ->> 'escalated_at' IS DISTINCT FROM v_after ->> 'escalated_at' THEN 'verification.escalated'
+            ELSE 'verification.first_approved'
+          END
+        WHEN v_before ->> 'status' = 'verified' AND v_after ->> 'status' = 'rejected' THEN 'verification.reversed'
+        WHEN v_after ->> 'status' = 'verified' THEN 'verification.approved'
+        WHEN v_after ->> 'status' = 'rejected' THEN 'verification.rejected'
+        ELSE 'verification.status_changed'
+      END;
+      v_reason := CASE
+        WHEN v_action = 'verification.escalated' THEN v_after ->> 'escalation_note'
+        ELSE v_after ->> 'rejection_reason'
+      END;
+    WHEN 'survival_checks' THEN
+      v_action := 'survival_check.' || (v_after ->> 'status');
+      v_reason := v_after ->> 'review_notes';
+    WHEN 'wallet_payouts' THEN
+      v_action := 'payout.' || (v_after ->> 'status');
+      v_reason := v_after ->> 'result_desc';
+    WHEN 'user_roles' THEN
+      v_action := CASE TG_OP WHEN 'INSERT' THEN 'role.granted' WHEN 'DELETE' THEN 'role.revoked' ELSE 'role.changed' END;
+    WHEN 'moderator_counties' THEN
+      v_action := CASE TG_OP WHEN 'INSERT' THEN 'moderator_county.assigned' ELSE 'moderator_county.removed' END;
+    WHEN 'reward_rules' THEN
+      v_action := 'reward_rule.' || v_verb;
+    WHEN 'reward_campaigns' THEN
+      v_action := 'reward_campaign.' || v_verb;
+    WHEN 'verification_triage_settings' THEN
+      v_action := 'triage_settings.' || v_verb;
+    WHEN 'verification_review_policy' THEN
+      v_action := 'review_policy.' || v_verb;
+    ELSE
+      v_action := TG_TABLE_NAME || '.' || v_verb;
+  END CASE;
+
+  INSERT INTO public.audit_log (actor_id, action, target_table, target_id, target_user_id, before, after, reason)
+  VALUES (
+    auth.uid(),
+    v_action,
+    TG_TABLE_NAME,
+    -- moderator_counties has no id column
+    COALESCE(v_row ->> 'id', (v_row ->> 'user_id') || ':' || (v_row ->> 'county')),
+    (v_row ->> 'user_id')::UUID,
+    v_before,
+    v_after,
+    NULLIF(trim(v_reason), '')
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_verification_first_review
+  AFTER UPDATE OF first_reviewed_by ON public.planting_verifications
+  FOR EACH ROW
+  WHEN (NEW.first_reviewed_by IS NOT NULL AND OLD.first_reviewed_by IS DISTINCT FROM NEW.first_reviewed_by
+        AND OLD.status = NEW.status)
+  EXECUTE FUNCTION public.record_audit_event();
+
+CREATE TRIGGER audit_verification_escalation
+  AFTER UPDATE OF escalated_at ON public.planting_verifications
+  FOR EACH ROW
+  WHEN (NEW.escalated_at IS NOT NULL AND OLD.escalated_at IS DISTINCT FROM NEW.escalated_at
+        AND OLD.status = NEW.status)
+  EXECUTE FUNCTION public.record_audit_event();
+
+CREATE TRIGGER audit_review_policy
+  AFTER UPDATE ON public.verification_review_policy
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_audit_event();
+
+-- The queue carries the review stage; the return type changed, so the
+-- function is recreated
+DROP FUNCTION IF EXISTS public.get_verification_queue();
+
+CREATE OR REPLACE FUNCTION public.get_verification_queue()
+RETURNS TABLE(
+  id UUID,
+  user_id UUID,
+  full_name TEXT,
+  user_phone TEXT,
+  submission_phone TEXT,
+  tree_name TEXT,
+  county TEXT,
+  constituency TEXT,
+  latitude NUMERIC,
+  longitude NUMERIC,
+  image_url TEXT,
+  notes TEXT,
+  planting_date DATE,
+  status verification_status,
+  created_at TIMESTAMP WITH TIME ZONE,
+  verified_at TIMESTAMP WITH TIME ZONE,
+  verified_by UUID,
+  rejection_reason TEXT,
+  mpesa_transaction_id TEXT,
+  reward_amount NUMERIC,
+  reward_paid BOOLEAN,
+  verifier_name TEXT,
+  risk_score INTEGER,
+  risk_flags JSONB,
+  location_checks JSONB,
+  location_justification TEXT,
+  first_reviewed_by UUID,
+  first_reviewer_name TEXT,
+  first_reviewed_at TIMESTAMP WITH TIME ZONE,
+  escalated_by UUID,
+  escalated_by_name TEXT,
+  escalated_at TIMESTAMP WITH TIME ZONE,
+  escalation_note TEXT
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    pv.id,
+    pv.user_id,
+    p.full_name,
+    p.phone AS user_phone,
+    pv.phone AS submission_phone,
+    pv.tree_name,
+    pv.county,
+    pv.constituency,
+    pv.latitude,
+    pv.longitude,
+    pv.image_url,
+    pv.notes,
+    pv.planting_date,
+    pv.status,
+    pv.created_at,
+    pv.verified_at,
+    pv.verified_by,
+    pv.rejection_reason,
+    pv.mpesa_transaction_id,
+    pv.reward_amount,
+    pv.reward_paid,
+    verifier.full_name as verifier_name,
+    pv.risk_score,
+    pv.risk_flags,
+    pv.location_checks,
+    pv.location_justification,
+    pv.first_reviewed_by,
+    first_reviewer.full_name as first_reviewer_name,
+    pv.first_reviewed_at,
+    pv.escalated_by,
+    escalator.full_name as escalated_by_name,
+    pv.escalated_at,
+    pv.escalation_note
+  FROM public.planting_verifications pv
+  LEFT JOIN public.profiles p ON pv.user_id = p.user_id
+  LEFT JOIN public.profiles verifier ON pv.verified_by = verifier.user_id
+  LEFT JOIN public.profiles first_reviewer ON pv.first_reviewed_by = first_reviewer.user_id
+  LEFT JOIN public.profiles escalator ON pv.escalated_by = escalator.user_id
+  WHERE public.can_moderate_county(auth.uid(), pv.county)
+  ORDER BY pv.created_at DESC;
+$$;
@@ -0,0 +1,339 @@
+-- Reviewer assignment and claiming
+-- Several moderators can share a county, and nothing stopped two of them from
+-- opening and deciding the same submission. A reviewer now claims a pending
+-- submission while they review it; the claim lapses after 30 minutes so an
+-- abandoned review doesn't lock the submission. While a claim is active only
+-- its holder can record a decision. New submissions are also assigned round
+-- robin to the moderators of their county, so the queue has an owner for
+-- each item. The 72 hour review SLA is measured from created_at in the app
+-- (src/utils/reviewAssignment.ts).
+
+CREATE TABLE public.verification_assignments (
+  verification_id UUID PRIMARY KEY REFERENCES public.planting_verifications(id) ON DELETE CASCADE,
+  assigned_to UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  assigned_at TIMESTAMPTZ,
+  claimed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  claimed_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_verification_assignments_assigned_to ON public.verification_assignments(assigned_to, assigned_at);
+
+ALTER TABLE public.verification_assignments ENABLE ROW LEVEL SECURITY;
+
+-- Written only through the functions below
+CREATE POLICY "Staff can view assignments in their counties"
+  ON public.verification_assignments FOR SELECT
+  USING (public.can_moderate_verification(auth.uid(), verification_id));
+
+CREATE OR REPLACE FUNCTION public.verification_claim_timeout()
+RETURNS INTERVAL
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT INTERVAL '30 minutes'
+$$;
+
+-- The moderator of a county who was assigned a submission longest ago, so
+-- new submissions go round the county's moderators in turn
+CREATE OR REPLACE FUNCTION public.next_reviewer_for_county(_county TEXT)
+RETURNS UUID
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT mc.user_id
+  FROM public.moderator_counties mc
+  JOIN public.user_roles ur ON ur.user_id = mc.user_id AND ur.role = 'moderator'
+  WHERE lower(mc.county) = lower(trim(_county))
+  ORDER BY (
+    SELECT max(va.assigned_at)
+    FROM public.verification_assignments va
+    WHERE va.assigned_to = mc.user_id
+  ) NULLS FIRST, mc.user_id
+  LIMIT 1
+$$;
+
+CREATE OR REPLACE FUNCTION public.assign_new_verification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reviewer UUID := public.next_reviewer_for_county(NEW.county);
+BEGIN
+  IF v_reviewer IS NOT NULL THEN
+    INSERT INTO public.verification_assignments (verification_id, assigned_to, assigned_at)
+    VALUES (NEW.id, v_reviewer, now())
+    ON CONFLICT (verification_id) DO NOTHING;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER assign_new_planting_verification
+  AFTER INSERT ON public.planting_verifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_new_verification();
+
+-- Assign pending submissions that have no reviewer, or whose reviewer no
+-- longer covers their county (admin only). Returns how many were assigned.
+CREATE OR REPLACE FUNCTION public.auto_assign_verifications()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item RECORD;
+  v_reviewer UUID;
+  v_assigned INTEGER := 0;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can assign submissions';
+  END IF;
+
+  FOR v_item IN
+    SELECT pv.id, pv.county
+    FROM public.planting_verifications pv
+    LEFT JOIN public.verification_assignments va ON va.verification_id = pv.id
+    WHERE pv.status = 'pending'
+      AND (va.assigned_to IS NULL OR NOT public.can_moderate_county(va.assigned_to, pv.county))
+    ORDER BY pv.created_at
+  LOOP
+    v_reviewer := public.next_reviewer_for_county(v_item.county);
+    CONTINUE WHEN v_reviewer IS NULL;
+
+    INSERT INTO public.verification_assignments (verification_id, assigned_to, assigned_at)
+    VALUES (v_item.id, v_reviewer, now())
+    ON CONFLICT (verification_id) DO UPDATE
+      SET assigned_to = EXCLUDED.assigned_to, assigned_at = EXCLUDED.assigned_at;
+    v_assigned := v_assigned + 1;
+  END LOOP;
+
+  RETURN v_assigned;
+END;
+$$;
+
+-- Claim a pending submission for review. The claim is taken over when it is
+-- free, already this reviewer's, or has lapsed; either way the current
+-- holder is returned, so the caller can tell whether they got it.
+CREATE OR REPLACE FUNCTION public.claim_verification(_verification_id UUID)
+RETURNS TABLE(holder_id UUID, holder_name TEXT, held_since TIMESTAMPTZ)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid UUID := auth.uid();
+BEGIN
+  IF NOT public.can_moderate_verification(v_uid, _verification_id) THEN
+    RAISE EXCEPTION 'Not allowed to review this submission';
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM public.planting_verifications WHERE id = _verification_id AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'Only pending submissions can be claimed';
+  END IF;
+
+  INSERT INTO public.verification_assignments AS va (verification_id, claimed_by, claimed_at)
+  VALUES (_verification_id, v_uid, now())
+  ON CONFLICT (verification_id) DO UPDATE
+    SET claimed_by = EXCLUDED.claimed_by, claimed_at = EXCLUDED.claimed_at
+    WHERE va.claimed_by IS NULL
+       OR va.claimed_by = EXCLUDED.claimed_by
+       OR va.claimed_at < now() - public.verification_claim_timeout();
+
+  RETURN QUERY
+  SELECT va.claimed_by, p.full_name, va.claimed_at
+  FROM public.verification_assignments va
+  LEFT JOIN public.profiles p ON p.user_id = va.claimed_by
+  WHERE va.verification_id = _verification_id;
+END;
+$$;
+
+-- Give up a claim. Admins can release anyone's.
+CREATE OR REPLACE FUNCTION public.release_verification(_verification_id UUID)
+RETURNS VOID
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.verification_assignments
+  SET claimed_by = NULL, claimed_at = NULL
+  WHERE verification_id = _verification_id
+    AND (claimed_by = auth.uid() OR public.has_role(auth.uid(), 'admin'))
+$$;
+
+-- Only the holder of an active claim can approve, give a first approval or
+-- reject. Deciding a submission ends its claim.
+CREATE OR REPLACE FUNCTION public.enforce_verification_claim()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid UUID := auth.uid();
+BEGIN
+  -- Service role and migrations
+  IF v_uid IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status
+     AND NEW.first_reviewed_by IS NOT DISTINCT FROM OLD.first_reviewed_by THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'pending' AND EXISTS (
+    SELECT 1
+    FROM public.verification_assignments va
+    WHERE va.verification_id = NEW.id
+      AND va.claimed_by <> v_uid
+      AND va.claimed_at >= now() - public.verification_claim_timeout()
+  ) THEN
+    RAISE EXCEPTION 'Another reviewer is reviewing this submission';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    UPDATE public.verification_assignments
+    SET claimed_by = NULL, claimed_at = NULL
+    WHERE verification_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER planting_verifications_claim
+  BEFORE UPDATE ON public.planting_verifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_verification_claim();
+
+-- Give existing pending submissions a reviewer
+DO $$
+DECLARE
+  v_item RECORD;
+  v_reviewer UUID;
+BEGIN
+  FOR v_item IN
+    SELECT id, county FROM public.planting_verifications WHERE status = 'pending' ORDER BY created_at
+  LOOP
+    v_reviewer := public.next_reviewer_for_county(v_item.county);
+    IF v_reviewer IS NOT NULL THEN
+      INSERT INTO public.verification_assignments (verification_id, assigned_to, assigned_at)
+      VALUES (v_item.id, v_reviewer, now())
+      ON CONFLICT (verification_id) DO NOTHING;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- The queue carries the assignee and any active claim; the return type
+-- changed, so the function is recreated
+DROP FUNCTION IF EXISTS public.get_verification_queue();
+
+CREATE OR REPLACE FUNCTION public.get_verification_queue()
+RETURNS TABLE(
+  id UUID,
+  user_id UUID,
+  full_name TEXT,
+  user_phone TEXT,
+  submission_phone TEXT,
+  tree_name TEXT,
+  county TEXT,
+  constituency TEXT,
+  latitude NUMERIC,
+  longitude NUMERIC,
+  image_url TEXT,
+  notes TEXT,
+  planting_date DATE,
+  status verification_status,
+  created_at TIMESTAMP WITH TIME ZONE,
+  verified_at TIMESTAMP WITH TIME ZONE,
+  verified_by UUID,
+  rejection_reason TEXT,
+  mpesa_transaction_id TEXT,
+  reward_amount NUMERIC,
+  reward_paid BOOLEAN,
+  verifier_name TEXT,
+  risk_score INTEGER,
+  risk_flags JSONB,
+  location_checks JSONB,
+  location_justification TEXT,
+  first_reviewed_by UUID,
+  first_reviewer_name TEXT,
+  first_reviewed_at TIMESTAMP WITH TIME ZONE,
+  escalated_by UUID,
+  escalated_by_name TEXT,
+  escalated_at TIMESTAMP WITH TIME ZONE,
+  escalation_note TEXT,
+  assigned_to UUID,
+  assigned_to_name TEXT,
+  claimed_by UUID,
+  claimed_by_name TEXT,
+  claimed_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    pv.id,
+    pv.user_id,
+    p.full_name,
+    p.phone AS user_phone,
+    pv.phone AS submission_phone,
+    pv.tree_name,
+    pv.county,
+    pv.constituency,
+    pv.latitude,
+    pv.longitude,
+    pv.image_url,
+    pv.notes,
+    pv.planting_date,
+    pv.status,
+    pv.created_at,
+    pv.verified_at,
+    pv.verified_by,
+    pv.rejection_reason,
+    pv.mpesa_transaction_id,
+    pv.reward_amount,
+    pv.reward_paid,
+    verifier.full_name as verifier_name,
+    pv.risk_score,
+    pv.risk_flags,
+    pv.location_checks,
+    pv.location_justification,
+    pv.first_reviewed_by,
+    first_reviewer.full_name as first_reviewer_name,
+    pv.first_reviewed_at,
+    pv.escalated_by,
+    escalator.full_name as escalated_by_name,
+    pv.escalated_at,
+    pv.escalation_note,
+    va.assigned_to,
+    assignee.full_name as assigned_to_name,
+    claim.claimed_by,
+    claimer.full_name as claimed_by_name,
+    claim.claimed_at
+  FROM public.planting_verifications pv
+  LEFT JOIN public.profiles p ON pv.user_id = p.user_id
+  LEFT JOIN public.profiles verifier ON pv.verified_by = verifier.user_id
+  LEFT JOIN public.profiles first_reviewer ON pv.first_reviewed_by = first_reviewer.user_id
+  LEFT JOIN public.profiles escalator ON pv.escalated_by = escalator.user_id
+  LEFT JOIN public.verification_assignments va ON va.verification_id = pv.id
+  LEFT JOIN public.profiles assignee ON va.assigned_to = assignee.user_id
+  -- Lapsed claims are not shown
+  LEFT JOIN LATERAL (
+    SELECT va.claimed_by, va.claimed_at
+    WHERE va.claimed_at >= now() - public.verification_claim_timeout()
+  ) claim ON true
+  LEFT JOIN public.profiles claimer ON claim.claimed_by = claimer.user_id
+  WHERE public.can_moderate_county(auth.uid(), pv.county)
+  ORDER BY pv.created_at DESC;
+$$;
@@ -0,0 +1,12 @@
+-- Idempotent verification submissions
+-- Submissions made without signal are queued on the device and replayed when
+-- it reconnects, possibly more than once (the page and the service worker's
+-- background sync can both retry, and a request can succeed after the
+-- connection drops). Each submission carries a key generated on the device;
+-- a repeat with the same key is ignored instead of creating a duplicate.
+
+ALTER TABLE public.planting_verifications
+  ADD COLUMN IF NOT EXISTS idempotency_key UUID;
+
+ALTER TABLE public.planting_verifications
+  ADD CONSTRAINT planting_verifications_user_idempotency_key UNIQUE (user_id, idempotency_key);
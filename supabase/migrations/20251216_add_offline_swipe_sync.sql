@@ -0,0 +1,13 @@
+-- Offline swiping
+-- Swipes made without signal are queued on the device and replayed when it
+-- reconnects. Each swipe carries an id generated on the device, stored here
+-- so a replayed swipe is recorded once. Matches need no new column: a
+-- replayed match reuses the swipe id as tree_matches.id, and the existing
+-- UNIQUE (user_id, tree_id) keeps the first match when the same tree was
+-- matched on two devices.
+
+ALTER TABLE public.swipe_events
+  ADD COLUMN IF NOT EXISTS client_event_id UUID;
+
+ALTER TABLE public.swipe_events
+  ADD CONSTRAINT swipe_events_client_event_id_key UNIQUE (client_event_id);
@@ -0,0 +1,103 @@
+-- Farm plots
+-- A profile only held one land_size_hectares figure and one point, so every
+-- score and every tree was counted against the whole farm. Farmers now draw
+-- the boundary of each plot on the map. The app computes the area, centre,
+-- county and agro-zone when the plot is saved (src/utils/farmPlots.ts), and
+-- matches and plantings can be attached to a plot so compatibility, spacing
+-- and remaining capacity are worked out per plot.
+--
+-- boundary is a GeoJSON Polygon in [longitude, latitude] order with a
+-- closed outer ring and no holes.
+
+CREATE TABLE public.plots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 60),
+  boundary JSONB NOT NULL CHECK (boundary->>'type' = 'Polygon'),
+  area_hectares NUMERIC NOT NULL CHECK (area_hectares > 0),
+  centroid_latitude NUMERIC NOT NULL,
+  centroid_longitude NUMERIC NOT NULL,
+  county TEXT,
+  agro_zone TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  -- Lets matches and plantings reference a plot of the same farmer only
+  UNIQUE (id, user_id)
+);
+
+CREATE INDEX idx_plots_user_id ON public.plots(user_id);
+
+CREATE TRIGGER plots_updated_at
+  BEFORE UPDATE ON public.plots
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Enable RLS
+ALTER TABLE public.plots ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Users can view their own plots"
+  ON public.plots
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own plots"
+  ON public.plots
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own plots"
+  ON public.plots
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own plots"
+  ON public.plots
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Deleting a plot detaches its matches and plantings rather than removing them
+ALTER TABLE public.tree_matches
+  ADD COLUMN IF NOT EXISTS plot_id UUID;
+
+ALTER TABLE public.tree_matches
+  ADD CONSTRAINT tree_matches_plot_id_fkey
+  FOREIGN KEY (plot_id, user_id) REFERENCES public.plots(id, user_id) ON DELETE SET NULL (plot_id);
+
+ALTER TABLE public.planting_verifications
+  ADD COLUMN IF NOT EXISTS plot_id UUID;
+
+ALTER TABLE public.planting_verifications
+  ADD CONSTRAINT planting_verifications_plot_id_fkey
+  FOREIGN KEY (plot_id, user_id) REFERENCES public.plots(id, user_id) ON DELETE SET NULL (plot_id);
+
+CREATE INDEX idx_tree_matches_plot_id ON public.tree_matches(plot_id) WHERE plot_id IS NOT NULL;
+CREATE INDEX idx_planting_verifications_plot_id ON public.planting_verifications(plot_id) WHERE plot_id IS NOT NULL;
+
+-- The app sets plot_id from the planting's GPS fix; a planting outside every
+-- plot (or sent by an older client) takes the plot of the match it is for
+CREATE OR REPLACE FUNCTION public.inherit_match_plot()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.plot_id IS NULL AND NEW.tree_match_id IS NOT NULL THEN
+    SELECT tm.plot_id INTO NEW.plot_id
+    FROM public.tree_matches tm
+    WHERE tm.id = NEW.tree_match_id AND tm.user_id = NEW.user_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER planting_verifications_inherit_match_plot
+  BEFORE INSERT ON public.planting_verifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.inherit_match_plot();
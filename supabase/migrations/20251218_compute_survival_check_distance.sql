@@ -0,0 +1,46 @@
+-- Survival check-in distance from the database
+-- distance_m was sent by the farmer's app and stored as given, and the
+-- farmer's UPDATE policy let them write any value. Reviewers flag check-ins
+-- far from the original planting by it, so a small made-up distance hid a
+-- photo taken somewhere else. It is now always worked out here from the
+-- check-in's GPS fix and the planting's, whoever writes the row.
+
+CREATE OR REPLACE FUNCTION public.compute_survival_check_distance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_planting RECORD;
+BEGIN
+  NEW.distance_m := NULL;
+
+  IF NEW.latitude IS NOT NULL AND NEW.longitude IS NOT NULL THEN
+    SELECT latitude, longitude INTO v_planting
+    FROM public.planting_verifications
+    WHERE id = NEW.verification_id;
+
+    IF v_planting.latitude IS NOT NULL AND v_planting.longitude IS NOT NULL THEN
+      NEW.distance_m := round(
+        public.distance_km(NEW.latitude, NEW.longitude, v_planting.latitude, v_planting.longitude) * 1000
+      );
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER survival_checks_compute_distance
+  BEFORE INSERT OR UPDATE ON public.survival_checks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.compute_survival_check_distance();
+
+-- Recompute what earlier check-ins stored
+UPDATE public.survival_checks sc
+SET distance_m = round(public.distance_km(sc.latitude, sc.longitude, pv.latitude, pv.longitude) * 1000)
+FROM public.planting_verifications pv
+WHERE pv.id = sc.verification_id
+  AND sc.latitude IS NOT NULL AND sc.longitude IS NOT NULL
+  AND pv.latitude IS NOT NULL AND pv.longitude IS NOT NULL;
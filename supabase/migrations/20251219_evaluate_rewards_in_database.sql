@@ -0,0 +1,265 @@
+-- Rewards worked out by the database
+-- The reviewer's browser evaluated the reward rules and sent reward_amount,
+-- and the database stored whatever it was given; only the campaign budget
+-- was checked here. A modified client, or two reviewers approving the same
+-- farmer at once, could pay past the monthly cap. The rules are now
+-- evaluated here when a planting is verified or a check-in is confirmed
+-- alive, under the same per-farmer lock the wallet takes for withdrawals, and
+-- the reward fields sent by the app are ignored. The evaluator in
+-- src/utils/rewardRules.ts still previews the figure for reviewers; the two
+-- follow the same steps.
+
+-- Rewards and survival bonuses credited to a farmer's wallet in the current
+-- calendar month in Kenya, leaving out rewards since reversed
+CREATE OR REPLACE FUNCTION public.reward_earned_this_month(p_user_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(t.amount), 0)
+  FROM public.wallet_transactions t
+  WHERE t.user_id = p_user_id
+    AND t.account = 'farmer_wallet'
+    AND t.direction = 'credit'
+    AND t.kind IN ('reward', 'survival_bonus')
+    AND t.created_at >= date_trunc('month', now(), 'Africa/Nairobi')
+    AND NOT (t.kind = 'reward' AND EXISTS (
+      SELECT 1 FROM public.wallet_transactions r
+      WHERE r.verification_id = t.verification_id AND r.kind = 'reward_reversal'
+    ));
+$$;
+
+-- The reward a submission earns, with the breakdown shown to reviewers.
+-- Mirrors evaluateReward: funding campaign, most specific base amount (or
+-- survival bonus), every matching multiplier, then the monthly cap and the
+-- campaign's remaining budget. Survival bonuses come from standing rules only.
+-- Volatile on purpose: it has to read what committed while the caller waited
+-- for the farmer's lock.
+CREATE OR REPLACE FUNCTION public.evaluate_reward(
+  p_user_id UUID,
+  p_tree_name TEXT,
+  p_county TEXT,
+  p_planting_date DATE,
+  p_survival_months INTEGER DEFAULT NULL
+)
+RETURNS TABLE(amount NUMERIC, campaign_id UUID, breakdown JSONB)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_slug TEXT;
+  v_day DATE := COALESCE(p_planting_date, CURRENT_DATE);
+  v_campaign public.reward_campaigns%ROWTYPE;
+  v_remaining NUMERIC;
+  v_rules public.reward_rules[];
+  v_base public.reward_rules%ROWTYPE;
+  v_rule public.reward_rules%ROWTYPE;
+  v_amount NUMERIC;
+  v_earned NUMERIC;
+  v_allowed NUMERIC;
+  v_lines JSONB := '[]'::JSONB;
+BEGIN
+  SELECT s.slug INTO v_slug
+  FROM public.tree_species s
+  WHERE lower(trim(p_tree_name)) IN (lower(s.slug), lower(s.english_name), lower(s.swahili_name))
+  ORDER BY s.id
+  LIMIT 1;
+
+  IF p_survival_months IS NULL THEN
+    SELECT c.* INTO v_campaign
+    FROM public.reward_campaigns c
+    WHERE c.is_active
+      AND c.starts_on <= v_day
+      AND c.ends_on >= v_day
+      AND (cardinality(c.species_slugs) = 0 OR COALESCE(v_slug = ANY(c.species_slugs), false))
+      AND (cardinality(c.counties) = 0 OR COALESCE(p_county = ANY(c.counties), false))
+      AND c.budget > COALESCE((
+        SELECT SUM(pv.reward_amount) FROM public.planting_verifications pv
+        WHERE pv.reward_campaign_id = c.id AND pv.status = 'verified'
+      ), 0)
+    ORDER BY c.ends_on
+    LIMIT 1;
+  END IF;
+
+  v_rules := ARRAY(
+    SELECT r
+    FROM public.reward_rules r
+    WHERE r.is_active
+      AND (r.campaign_id IS NULL OR r.campaign_id = v_campaign.id)
+      AND (cardinality(r.species_slugs) = 0 OR COALESCE(v_slug = ANY(r.species_slugs), false))
+      AND (cardinality(r.counties) = 0 OR COALESCE(p_county = ANY(r.counties), false))
+  );
+
+  -- Campaign rules beat standing rules, species beats county, county beats "any"
+  SELECT r.* INTO v_base
+  FROM unnest(v_rules) r
+  WHERE (p_survival_months IS NULL AND r.kind = 'base_amount')
+     OR (r.kind = 'survival_bonus' AND r.survival_months = p_survival_months)
+  ORDER BY
+    (CASE WHEN r.campaign_id IS NOT NULL THEN 4 ELSE 0 END) +
+    (CASE WHEN cardinality(r.species_slugs) > 0 THEN 2 ELSE 0 END) +
+    (CASE WHEN cardinality(r.counties) > 0 THEN 1 ELSE 0 END) DESC,
+    r.amount DESC
+  LIMIT 1;
+
+  IF v_base.id IS NULL THEN
+    RETURN QUERY SELECT 0::NUMERIC, NULL::UUID, jsonb_build_array(jsonb_build_object(
+      'ruleId', NULL, 'kind', 'base_amount', 'label', 'No matching reward rule',
+      'detail', 'KSh 0', 'amountAfter', 0
+    ));
+    RETURN;
+  END IF;
+
+  v_amount := v_base.amount;
+  v_lines := v_lines || jsonb_build_object(
+    'ruleId', v_base.id, 'kind', v_base.kind, 'label', v_base.name,
+    'detail', 'KSh ' || to_char(v_amount, 'FM999,999,990'), 'amountAfter', v_amount
+  );
+
+  FOR v_rule IN
+    SELECT r.* FROM unnest(v_rules) r WHERE r.kind = 'multiplier' ORDER BY r.created_at
+  LOOP
+    v_amount := v_amount * v_rule.multiplier;
+    v_lines := v_lines || jsonb_build_object(
+      'ruleId', v_rule.id, 'kind', 'multiplier', 'label', v_rule.name,
+      'detail', '×' || trim_scale(v_rule.multiplier), 'amountAfter', round(v_amount)
+    );
+  END LOOP;
+  -- M-Pesa only moves whole shillings
+  v_amount := round(v_amount);
+
+  SELECT r.* INTO v_rule
+  FROM unnest(v_rules) r
+  WHERE r.kind = 'monthly_cap'
+  ORDER BY r.amount
+  LIMIT 1;
+
+  IF FOUND THEN
+    v_earned := public.reward_earned_this_month(p_user_id);
+    v_allowed := GREATEST(0, v_rule.amount - v_earned);
+    IF v_amount > v_allowed THEN
+      v_amount := v_allowed;
+      v_lines := v_lines || jsonb_build_object(
+        'ruleId', v_rule.id, 'kind', 'monthly_cap', 'label', v_rule.name,
+        'detail', 'KSh ' || to_char(v_earned, 'FM999,999,990') || ' of KSh '
+          || to_char(v_rule.amount, 'FM999,999,990') || ' already earned this month',
+        'amountAfter', v_amount
+      );
+    END IF;
+  END IF;
+
+  IF v_campaign.id IS NOT NULL THEN
+    SELECT v_campaign.budget - COALESCE(SUM(pv.reward_amount), 0) INTO v_remaining
+    FROM public.planting_verifications pv
+    WHERE pv.reward_campaign_id = v_campaign.id AND pv.status = 'verified';
+
+    IF v_amount > v_remaining THEN
+      v_amount := floor(v_remaining);
+      v_lines := v_lines || jsonb_build_object(
+        'ruleId', NULL, 'kind', 'campaign_budget', 'label', v_campaign.name || ' budget',
+        'detail', 'KSh ' || to_char(floor(v_remaining), 'FM999,999,990') || ' left',
+        'amountAfter', v_amount
+      );
+    END IF;
+  END IF;
+
+  RETURN QUERY SELECT
+    v_amount,
+    CASE WHEN v_amount > 0 THEN v_campaign.id END,
+    v_lines;
+END;
+$$;
+
+-- Only the reward triggers below call the evaluator
+REVOKE EXECUTE ON FUNCTION public.evaluate_reward(UUID, TEXT, TEXT, DATE, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reward_earned_this_month(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Set the reward when a planting is verified. Named to run before the
+-- campaign budget check and the review policy, which read the amount.
+CREATE OR REPLACE FUNCTION public.apply_verification_reward_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reward RECORD;
+BEGIN
+  -- Service role and migrations
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'verified' AND OLD.status IS DISTINCT FROM 'verified' THEN
+    -- Approvals for the same farmer queue here, so each sees the last one's reward
+    PERFORM pg_advisory_xact_lock(hashtext('wallet:' || NEW.user_id::text));
+
+    SELECT * INTO v_reward
+    FROM public.evaluate_reward(NEW.user_id, NEW.tree_name, NEW.county, NEW.planting_date);
+
+    NEW.reward_amount := v_reward.amount;
+    NEW.reward_campaign_id := v_reward.campaign_id;
+    NEW.reward_breakdown := v_reward.breakdown;
+  ELSE
+    NEW.reward_amount := OLD.reward_amount;
+    NEW.reward_campaign_id := OLD.reward_campaign_id;
+    NEW.reward_breakdown := OLD.reward_breakdown;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER planting_verifications_apply_reward_rules
+  BEFORE UPDATE ON public.planting_verifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_verification_reward_rules();
+
+-- Set the survival bonus when a check-in is confirmed alive; the 3-month
+-- check-in and dead trees earn nothing
+CREATE OR REPLACE FUNCTION public.apply_survival_check_reward_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_planting RECORD;
+  v_reward RECORD;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    NEW.reward_amount := OLD.reward_amount;
+    NEW.reward_breakdown := OLD.reward_breakdown;
+    RETURN NEW;
+  END IF;
+
+  NEW.reward_amount := 0;
+  NEW.reward_breakdown := NULL;
+
+  IF NEW.status = 'alive' AND NEW.months IN (6, 12) THEN
+    PERFORM pg_advisory_xact_lock(hashtext('wallet:' || NEW.user_id::text));
+
+    SELECT tree_name, county, planting_date INTO v_planting
+    FROM public.planting_verifications
+    WHERE id = NEW.verification_id;
+
+    SELECT * INTO v_reward
+    FROM public.evaluate_reward(NEW.user_id, v_planting.tree_name, v_planting.county, v_planting.planting_date, NEW.months);
+
+    NEW.reward_amount := v_reward.amount;
+    NEW.reward_breakdown := v_reward.breakdown;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER survival_checks_apply_reward_rules
+  BEFORE UPDATE ON public.survival_checks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_survival_check_reward_rules();
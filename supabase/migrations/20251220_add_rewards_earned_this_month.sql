@@ -0,0 +1,18 @@
+-- What farmers have earned this month, for reward previews
+-- The reviewer's preview summed reward_amount from planting_verifications and
+-- survival_checks, which moderators only see for their own counties. A
+-- farmer paid for a planting in another county looked further from the
+-- monthly cap than they were. Staff now read the same ledger figure the
+-- database caps rewards with (reward_earned_this_month), across all counties.
+
+CREATE OR REPLACE FUNCTION public.get_rewards_earned_this_month(p_user_ids UUID[])
+RETURNS TABLE(user_id UUID, earned NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT u.id, public.reward_earned_this_month(u.id)
+  FROM unnest(p_user_ids) AS u(id)
+  WHERE public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'moderator');
+$$;
@@ -0,0 +1,15 @@
+-- Order prices to the cent
+-- tree_species.price is NUMERIC(10,2) but orders.unit_price was an INTEGER,
+-- so a KSh 12.50 seedling was stored as 13 while the total was worked out
+-- from 12.50. mpesa-stk-push now rounds the total up to whole shillings once
+-- (M-Pesa only moves whole shillings) and sends that same amount to Daraja;
+-- unit_price keeps the listed price as it was when the order was placed.
+
+ALTER TABLE public.orders
+  ALTER COLUMN unit_price TYPE NUMERIC(10, 2);
+
+ALTER TABLE public.orders
+  DROP CONSTRAINT IF EXISTS orders_unit_price_check;
+
+ALTER TABLE public.orders
+  ADD CONSTRAINT orders_unit_price_check CHECK (unit_price > 0);
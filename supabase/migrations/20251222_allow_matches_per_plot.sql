@@ -0,0 +1,50 @@
+-- One match per tree per plot
+-- tree_matches kept UNIQUE (user_id, tree_id) from before plots existed, so a
+-- farmer who matched Grevillea on their home plot could never match it on a
+-- second plot. Matches are now unique per plot, with matches not attached to
+-- a plot counted as one more plot. The app saves a match with
+-- ON CONFLICT (id), the swipe id, so a replayed swipe is still saved once;
+-- the same tree liked on the same plot from two devices hits the index below
+-- and the first match is kept.
+
+ALTER TABLE public.tree_matches
+  DROP CONSTRAINT IF EXISTS tree_matches_user_id_tree_id_key;
+
+CREATE UNIQUE INDEX tree_matches_user_tree_plot_key
+  ON public.tree_matches (user_id, tree_id, COALESCE(plot_id, '00000000-0000-0000-0000-000000000000'::UUID));
+
+-- Deleting a plot detaches its matches, which would clash with a match of
+-- the same tree that isn't on a plot. Those fold into the unattached match:
+-- their plantings move to it and the plot's copy is removed.
+CREATE OR REPLACE FUNCTION public.merge_detached_plot_matches()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.planting_verifications pv
+  SET tree_match_id = kept.id
+  FROM public.tree_matches dup
+  JOIN public.tree_matches kept
+    ON kept.user_id = dup.user_id AND kept.tree_id = dup.tree_id AND kept.plot_id IS NULL
+  WHERE dup.plot_id = OLD.id
+    AND dup.user_id = OLD.user_id
+    AND pv.tree_match_id = dup.id;
+
+  DELETE FROM public.tree_matches dup
+  WHERE dup.plot_id = OLD.id
+    AND dup.user_id = OLD.user_id
+    AND EXISTS (
+      SELECT 1 FROM public.tree_matches kept
+      WHERE kept.user_id = dup.user_id AND kept.tree_id = dup.tree_id AND kept.plot_id IS NULL
+    );
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER plots_merge_detached_matches
+  BEFORE DELETE ON public.plots
+  FOR EACH ROW
+  EXECUTE FUNCTION public.merge_detached_plot_matches();
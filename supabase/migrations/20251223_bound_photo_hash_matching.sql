@@ -0,0 +1,127 @@
+-- Bounded duplicate-photo search
+-- assess_verification_risk compared each new photo hash with every hashed
+-- submission, since the Hamming distance can't use the image_hash index, so
+-- every insert scanned the table. Hashes are now also stored as seven bands
+-- of 9 or 10 bits: two hashes at most 6 bits apart differ in at most six
+-- bands, so they share at least one, and a GIN index on the bands finds the
+-- candidates before the distance is checked.
+--
+-- The capture time was also cast straight from the client's photo_metadata,
+-- so a malformed takenAt raised inside the trigger and refused the
+-- submission. It now counts as missing camera data.
+
+-- The bands of a hex-encoded 64-bit hash, tagged with their position so
+-- equal bits in different places don't match
+CREATE OR REPLACE FUNCTION public.image_hash_bands(p_hash TEXT)
+RETURNS TEXT[]
+LANGUAGE SQL
+IMMUTABLE
+STRICT
+AS $$
+  SELECT ARRAY(
+    SELECT band || ':' || substring(('x' || p_hash)::bit(64) FROM 1 + band * 9 FOR CASE WHEN band = 6 THEN 10 ELSE 9 END)::TEXT
+    FROM generate_series(0, 6) AS band
+  );
+$$;
+
+ALTER TABLE public.planting_verifications
+  ADD COLUMN IF NOT EXISTS image_hash_bands TEXT[]
+  GENERATED ALWAYS AS (public.image_hash_bands(image_hash)) STORED;
+
+-- Equality on the whole hash never helped the distance search
+DROP INDEX IF EXISTS public.idx_planting_verifications_image_hash;
+
+CREATE INDEX idx_planting_verifications_image_hash_bands
+  ON public.planting_verifications USING GIN (image_hash_bands)
+  WHERE image_hash IS NOT NULL;
+
+-- Generated columns aren't filled in yet when BEFORE triggers run, so the
+-- new row's bands are computed from its hash
+CREATE OR REPLACE FUNCTION public.assess_verification_risk()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_flags JSONB := '[]'::JSONB;
+  v_own_matches INTEGER;
+  v_other_matches INTEGER;
+  v_taken_at TIMESTAMPTZ;
+  v_profile RECORD;
+  v_distance NUMERIC;
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.image_hash IS NOT DISTINCT FROM OLD.image_hash
+     AND NEW.photo_metadata IS NOT DISTINCT FROM OLD.photo_metadata
+     AND NEW.latitude IS NOT DISTINCT FROM OLD.latitude
+     AND NEW.longitude IS NOT DISTINCT FROM OLD.longitude
+     AND NEW.planting_date IS NOT DISTINCT FROM OLD.planting_date THEN
+    NEW.risk_score := OLD.risk_score;
+    NEW.risk_flags := OLD.risk_flags;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.image_hash IS NOT NULL THEN
+    SELECT
+      COUNT(*) FILTER (WHERE pv.user_id = NEW.user_id),
+      COUNT(*) FILTER (WHERE pv.user_id <> NEW.user_id)
+    INTO v_own_matches, v_other_matches
+    FROM public.planting_verifications pv
+    WHERE pv.image_hash_bands && public.image_hash_bands(NEW.image_hash)
+      AND pv.id <> NEW.id
+      AND public.image_hash_distance(pv.image_hash, NEW.image_hash) <= 6;
+
+    IF v_other_matches > 0 THEN
+      v_flags := v_flags || jsonb_build_object(
+        'code', 'duplicate_photo_other_farmer', 'weight', 70,
+        'detail', 'Matches ' || v_other_matches || ' photo(s) submitted by other farmers');
+    ELSIF v_own_matches > 0 THEN
+      v_flags := v_flags || jsonb_build_object(
+        'code', 'duplicate_photo', 'weight', 50,
+        'detail', 'Matches ' || v_own_matches || ' of this farmer''s earlier photo(s)');
+    END IF;
+  END IF;
+
+  -- takenAt comes from the client; one that isn't a date counts as missing
+  BEGIN
+    v_taken_at := (NEW.photo_metadata->>'takenAt')::TIMESTAMPTZ;
+  EXCEPTION WHEN data_exception THEN
+    v_taken_at := NULL;
+  END;
+
+  IF NEW.photo_metadata IS NULL
+     OR (NEW.photo_metadata->>'make' IS NULL AND NEW.photo_metadata->>'model' IS NULL)
+     OR v_taken_at IS NULL THEN
+    v_flags := v_flags || jsonb_build_object(
+      'code', 'missing_camera_data', 'weight', 15,
+      'detail', 'No camera or capture time in the photo; it may be a screenshot or downloaded');
+  ELSIF NEW.planting_date IS NOT NULL THEN
+    IF abs(v_taken_at::date - NEW.planting_date) > 14 THEN
+      v_flags := v_flags || jsonb_build_object(
+        'code', 'taken_far_from_planting_date', 'weight', 20,
+        'detail', 'Photo taken ' || abs(v_taken_at::date - NEW.planting_date) || ' days from the planting date');
+    END IF;
+  END IF;
+
+  SELECT p.latitude, p.longitude INTO v_profile
+  FROM public.profiles p
+  WHERE p.user_id = NEW.user_id;
+
+  IF NEW.latitude IS NOT NULL AND NEW.longitude IS NOT NULL
+     AND v_profile.latitude IS NOT NULL AND v_profile.longitude IS NOT NULL THEN
+    v_distance := public.distance_km(NEW.latitude, NEW.longitude, v_profile.latitude, v_profile.longitude);
+    IF v_distance > 50 THEN
+      v_flags := v_flags || jsonb_build_object(
+        'code', 'far_from_profile', 'weight', 20,
+        'detail', round(v_distance) || ' km from the farmer''s profile location');
+    END IF;
+  END IF;
+
+  NEW.risk_flags := v_flags;
+  NEW.risk_score := LEAST(100, COALESCE((
+    SELECT SUM((flag->>'weight')::INTEGER) FROM jsonb_array_elements(v_flags) AS flag
+  ), 0));
+  RETURN NEW;
+END;
+$$;
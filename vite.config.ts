@@ -15,25 +15,17 @@ export default defineConfig(({ mode }) => {
   plugins: [
     react(),
     VitePWA({
-      registerType: 'autoUpdate',
+      // One worker, src/sw.ts, with its routes in src/utils/serviceWorkerRoutes.ts.
+      // New versions wait until the user reloads from the update prompt.
+      strategies: 'injectManifest',
+      srcDir: 'src',
+      filename: 'sw.ts',
+      registerType: 'prompt',
+      injectRegister: false, // Registered by src/components/UpdatePrompt.tsx
       includeAssets: ['placeholder.svg', 'offline.html'],
       manifest: false, // Use public/manifest.json instead
-      workbox: {
+      injectManifest: {
         globPatterns: ['**/*.{js,css,html,ico,png,svg,webp,jpg}'],
-        runtimeCaching: [
-          {
-            urlPattern: /^https:\/\/.*\.supabase\.co\/.*/i,
-            handler: 'NetworkFirst',
-            options: {
-              cacheName: 'supabase-cache',
-              expiration: {
-                maxEntries: 50,
-                maxAgeSeconds: 60 * 60 * 24, // 24 hours
-              },
-              networkTimeoutSeconds: 10,
-            },
-          },
-        ],
       },
     })
   ].filter(Boolean),